@@ -0,0 +1,19 @@
+CREATE TABLE `issues_approvals` (
+	`id` text PRIMARY KEY NOT NULL,
+	`issue_id` text NOT NULL,
+	`execution_id` text,
+	`engine_type` text,
+	`tool_name` text NOT NULL,
+	`tool_call_id` text,
+	`input` text,
+	`status` text DEFAULT 'pending' NOT NULL,
+	`decision` text,
+	`resolved_at` integer,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	`is_deleted` integer DEFAULT 0 NOT NULL,
+	FOREIGN KEY (`issue_id`) REFERENCES `issues`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `issues_approvals_issue_id_idx` ON `issues_approvals` (`issue_id`);--> statement-breakpoint
+CREATE INDEX `issues_approvals_issue_id_status_idx` ON `issues_approvals` (`issue_id`,`status`);
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE `issues_dependencies` (
+	`id` text PRIMARY KEY NOT NULL,
+	`issue_id` text NOT NULL,
+	`depends_on_issue_id` text NOT NULL,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	`is_deleted` integer DEFAULT 0 NOT NULL,
+	FOREIGN KEY (`issue_id`) REFERENCES `issues`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`depends_on_issue_id`) REFERENCES `issues`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `issues_dependencies_issue_id_depends_on_uniq` ON `issues_dependencies` (`issue_id`,`depends_on_issue_id`);--> statement-breakpoint
+CREATE INDEX `issues_dependencies_depends_on_issue_id_idx` ON `issues_dependencies` (`depends_on_issue_id`);
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE `issues_usage` (
+	`id` text PRIMARY KEY NOT NULL,
+	`issue_id` text NOT NULL,
+	`project_id` text NOT NULL,
+	`execution_id` text NOT NULL,
+	`turn_index` integer DEFAULT 0 NOT NULL,
+	`engine_type` text,
+	`model` text,
+	`input_tokens` integer DEFAULT 0 NOT NULL,
+	`output_tokens` integer DEFAULT 0 NOT NULL,
+	`cache_read_tokens` integer DEFAULT 0 NOT NULL,
+	`cache_write_tokens` integer DEFAULT 0 NOT NULL,
+	`cost_usd` real DEFAULT 0 NOT NULL,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	`is_deleted` integer DEFAULT 0 NOT NULL,
+	FOREIGN KEY (`issue_id`) REFERENCES `issues`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`project_id`) REFERENCES `projects`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `issues_usage_issue_id_idx` ON `issues_usage` (`issue_id`);--> statement-breakpoint
+CREATE INDEX `issues_usage_project_id_created_at_idx` ON `issues_usage` (`project_id`,`created_at`);
\ No newline at end of file
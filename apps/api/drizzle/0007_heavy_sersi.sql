@@ -0,0 +1,17 @@
+CREATE TABLE `budgets` (
+	`id` text PRIMARY KEY NOT NULL,
+	`project_id` text NOT NULL,
+	`issue_id` text,
+	`max_cost_usd` real,
+	`max_tokens` integer,
+	`max_turns` integer,
+	`max_duration_seconds` integer,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	`is_deleted` integer DEFAULT 0 NOT NULL,
+	FOREIGN KEY (`project_id`) REFERENCES `projects`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`issue_id`) REFERENCES `issues`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `budgets_project_id_issue_id_idx` ON `budgets` (`project_id`,`issue_id`);--> statement-breakpoint
+ALTER TABLE `issues` ADD `stop_reason` text;
\ No newline at end of file
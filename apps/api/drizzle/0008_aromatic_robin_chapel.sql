@@ -0,0 +1,36 @@
+CREATE TABLE `schedules_runs` (
+	`id` text PRIMARY KEY NOT NULL,
+	`schedule_id` text NOT NULL,
+	`issue_id` text,
+	`status` text NOT NULL,
+	`error` text,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	`is_deleted` integer DEFAULT 0 NOT NULL,
+	FOREIGN KEY (`schedule_id`) REFERENCES `schedules`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`issue_id`) REFERENCES `issues`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `schedules_runs_schedule_id_idx` ON `schedules_runs` (`schedule_id`);--> statement-breakpoint
+CREATE TABLE `schedules` (
+	`id` text PRIMARY KEY NOT NULL,
+	`project_id` text NOT NULL,
+	`name` text NOT NULL,
+	`cron` text,
+	`run_at` integer,
+	`issue_id` text,
+	`prompt` text NOT NULL,
+	`engine_type` text,
+	`model` text,
+	`enabled` integer DEFAULT true NOT NULL,
+	`next_run_at` integer,
+	`last_run_at` integer,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	`is_deleted` integer DEFAULT 0 NOT NULL,
+	FOREIGN KEY (`project_id`) REFERENCES `projects`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`issue_id`) REFERENCES `issues`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `schedules_project_id_idx` ON `schedules` (`project_id`);--> statement-breakpoint
+CREATE INDEX `schedules_next_run_at_idx` ON `schedules` (`next_run_at`);
\ No newline at end of file
@@ -0,0 +1,19 @@
+CREATE TABLE `execution_queue` (
+	`id` text PRIMARY KEY NOT NULL,
+	`issue_id` text NOT NULL,
+	`project_id` text NOT NULL,
+	`engine_type` text NOT NULL,
+	`prompt` text NOT NULL,
+	`model` text,
+	`permission_mode` text,
+	`working_dir` text,
+	`sort_order` real NOT NULL,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	`is_deleted` integer DEFAULT 0 NOT NULL,
+	FOREIGN KEY (`issue_id`) REFERENCES `issues`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`project_id`) REFERENCES `projects`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `execution_queue_issue_id_unique` ON `execution_queue` (`issue_id`);--> statement-breakpoint
+CREATE INDEX `execution_queue_sort_order_idx` ON `execution_queue` (`sort_order`);
\ No newline at end of file
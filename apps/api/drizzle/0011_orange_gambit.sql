@@ -0,0 +1,34 @@
+CREATE TABLE `triggers_fires` (
+	`id` text PRIMARY KEY NOT NULL,
+	`trigger_id` text NOT NULL,
+	`issue_id` text,
+	`signature` text NOT NULL,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	`is_deleted` integer DEFAULT 0 NOT NULL,
+	FOREIGN KEY (`trigger_id`) REFERENCES `triggers`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`issue_id`) REFERENCES `issues`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `triggers_fires_trigger_signature_idx` ON `triggers_fires` (`trigger_id`,`signature`);--> statement-breakpoint
+CREATE INDEX `triggers_fires_created_at_idx` ON `triggers_fires` (`created_at`);--> statement-breakpoint
+CREATE TABLE `triggers` (
+	`id` text PRIMARY KEY NOT NULL,
+	`project_id` text NOT NULL,
+	`name` text NOT NULL,
+	`secret` text NOT NULL,
+	`title_template` text NOT NULL,
+	`prompt_template` text NOT NULL,
+	`engine_type` text,
+	`model` text,
+	`permission_mode` text,
+	`use_worktree` integer DEFAULT false NOT NULL,
+	`max_per_hour` integer DEFAULT 10 NOT NULL,
+	`enabled` integer DEFAULT true NOT NULL,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	`is_deleted` integer DEFAULT 0 NOT NULL,
+	FOREIGN KEY (`project_id`) REFERENCES `projects`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `triggers_project_id_idx` ON `triggers` (`project_id`);
\ No newline at end of file
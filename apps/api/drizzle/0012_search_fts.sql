@@ -0,0 +1,36 @@
+-- Full-text search over issue titles/prompts and log entry content.
+-- External-content FTS5 tables kept in sync by triggers; soft-deleted and
+-- hidden rows are filtered when querying.
+CREATE VIRTUAL TABLE `issues_fts` USING fts5(title, prompt, content='issues', content_rowid='rowid', tokenize='unicode61 remove_diacritics 2');
+--> statement-breakpoint
+CREATE TRIGGER `issues_fts_ai` AFTER INSERT ON `issues` BEGIN
+  INSERT INTO issues_fts(rowid, title, prompt) VALUES (new.rowid, new.title, new.prompt);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `issues_fts_ad` AFTER DELETE ON `issues` BEGIN
+  INSERT INTO issues_fts(issues_fts, rowid, title, prompt) VALUES ('delete', old.rowid, old.title, old.prompt);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `issues_fts_au` AFTER UPDATE OF title, prompt ON `issues` BEGIN
+  INSERT INTO issues_fts(issues_fts, rowid, title, prompt) VALUES ('delete', old.rowid, old.title, old.prompt);
+  INSERT INTO issues_fts(rowid, title, prompt) VALUES (new.rowid, new.title, new.prompt);
+END;
+--> statement-breakpoint
+INSERT INTO issues_fts(issues_fts) VALUES ('rebuild');
+--> statement-breakpoint
+CREATE VIRTUAL TABLE `issues_logs_fts` USING fts5(content, content='issues_logs', content_rowid='rowid', tokenize='unicode61 remove_diacritics 2');
+--> statement-breakpoint
+CREATE TRIGGER `issues_logs_fts_ai` AFTER INSERT ON `issues_logs` BEGIN
+  INSERT INTO issues_logs_fts(rowid, content) VALUES (new.rowid, new.content);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `issues_logs_fts_ad` AFTER DELETE ON `issues_logs` BEGIN
+  INSERT INTO issues_logs_fts(issues_logs_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `issues_logs_fts_au` AFTER UPDATE OF content ON `issues_logs` BEGIN
+  INSERT INTO issues_logs_fts(issues_logs_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+  INSERT INTO issues_logs_fts(rowid, content) VALUES (new.rowid, new.content);
+END;
+--> statement-breakpoint
+INSERT INTO issues_logs_fts(issues_logs_fts) VALUES ('rebuild');
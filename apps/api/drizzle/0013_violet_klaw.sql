@@ -0,0 +1,2 @@
+ALTER TABLE `issues_logs` ADD `branch_id` text;--> statement-breakpoint
+CREATE INDEX `issues_logs_branch_id_idx` ON `issues_logs` (`issue_id`,`branch_id`);
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE `engine_profiles` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`engine_type` text NOT NULL,
+	`base_command` text NOT NULL,
+	`args` text DEFAULT '[]' NOT NULL,
+	`env` text DEFAULT '{}' NOT NULL,
+	`default_model` text,
+	`permission_policy` text,
+	`capabilities` text,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	`is_deleted` integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE `issues` ADD `engine_profile_id` text;
\ No newline at end of file
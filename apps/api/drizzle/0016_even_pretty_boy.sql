@@ -0,0 +1,15 @@
+CREATE TABLE `projects_mcp_servers` (
+	`id` text PRIMARY KEY NOT NULL,
+	`project_id` text NOT NULL,
+	`name` text NOT NULL,
+	`command` text NOT NULL,
+	`args` text DEFAULT '[]' NOT NULL,
+	`env` text DEFAULT '{}' NOT NULL,
+	`enabled` integer DEFAULT true NOT NULL,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	`is_deleted` integer DEFAULT 0 NOT NULL,
+	FOREIGN KEY (`project_id`) REFERENCES `projects`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `projects_mcp_servers_project_id_idx` ON `projects_mcp_servers` (`project_id`);
\ No newline at end of file
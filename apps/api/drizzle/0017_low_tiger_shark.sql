@@ -0,0 +1,14 @@
+CREATE TABLE `projects_guardrails` (
+	`id` text PRIMARY KEY NOT NULL,
+	`project_id` text NOT NULL,
+	`kind` text NOT NULL,
+	`pattern` text NOT NULL,
+	`action` text DEFAULT 'deny' NOT NULL,
+	`enabled` integer DEFAULT true NOT NULL,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	`is_deleted` integer DEFAULT 0 NOT NULL,
+	FOREIGN KEY (`project_id`) REFERENCES `projects`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `projects_guardrails_project_id_idx` ON `projects_guardrails` (`project_id`);
\ No newline at end of file
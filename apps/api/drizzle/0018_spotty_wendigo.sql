@@ -0,0 +1,15 @@
+CREATE TABLE `projects_verify_commands` (
+	`id` text PRIMARY KEY NOT NULL,
+	`project_id` text NOT NULL,
+	`name` text NOT NULL,
+	`command` text NOT NULL,
+	`enabled` integer DEFAULT true NOT NULL,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	`is_deleted` integer DEFAULT 0 NOT NULL,
+	FOREIGN KEY (`project_id`) REFERENCES `projects`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `projects_verify_commands_project_id_idx` ON `projects_verify_commands` (`project_id`);--> statement-breakpoint
+ALTER TABLE `issues` ADD `verify_status` text;--> statement-breakpoint
+ALTER TABLE `projects` ADD `verify_fix_attempts` integer DEFAULT 0 NOT NULL;
\ No newline at end of file
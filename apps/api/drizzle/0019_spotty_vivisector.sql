@@ -0,0 +1,2 @@
+ALTER TABLE `issues` ADD `compare_run` integer DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE `issues` ADD `compare_winner_id` text;
\ No newline at end of file
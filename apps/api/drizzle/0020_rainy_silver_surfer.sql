@@ -0,0 +1 @@
+ALTER TABLE `issues` ADD `run_seconds` real DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `execution_queue` ADD `fork_options` text;
\ No newline at end of file
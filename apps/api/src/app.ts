@@ -1,9 +1,17 @@
 import { Hono } from 'hono'
 import { compress } from 'hono/compress'
 import { secureHeaders } from 'hono/secure-headers'
+import { requireAuth } from './auth/middleware'
 import { getEngineDiscovery } from './engines/startup-probe'
 import { httpLogger, logger } from './logger'
-import { apiRoutes, engineRoutes, eventRoutes, settingsRoutes } from './routes'
+import {
+  apiRoutes,
+  authRoutes,
+  engineRoutes,
+  eventRoutes,
+  mcpRoutes,
+  settingsRoutes,
+} from './routes'
 import terminalRoute from './routes/terminal'
 
 const app = new Hono()
@@ -22,10 +30,15 @@ app.use('*', async (c, next) => {
 // --- HTTP request logging ---
 app.use(httpLogger())
 
+// --- Authentication (enabled once API_SECRET is set or a user exists) ---
+app.use('/api/*', requireAuth())
+
 // --- Routes ---
+app.route('/api/auth', authRoutes)
 app.route('/api', apiRoutes)
 app.route('/api/engines', engineRoutes)
 app.route('/api/events', eventRoutes)
+app.route('/api/mcp', mcpRoutes)
 app.route('/api/settings', settingsRoutes)
 app.route('/api', terminalRoute)
 
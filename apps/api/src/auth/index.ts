@@ -0,0 +1,232 @@
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto'
+import { and, asc, eq, gt, ne } from 'drizzle-orm'
+import { db } from '@/db'
+import { userSessions, users as usersTable } from '@/db/schema'
+import { toISO } from '@/utils/date'
+
+export type UserRole = 'admin' | 'member'
+
+export interface AuthUser {
+  id: string
+  username: string
+  role: UserRole
+}
+
+export interface UserPayload extends AuthUser {
+  createdAt: string
+}
+
+export const SESSION_COOKIE = 'bitk_session'
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000
+
+/** Identity used for requests authenticated with the static API_SECRET. */
+const SERVICE_USER: AuthUser = {
+  id: 'api-secret',
+  username: 'api',
+  role: 'admin',
+}
+
+type UserRow = typeof usersTable.$inferSelect
+
+function serializeUser(row: UserRow): UserPayload {
+  return {
+    id: row.id,
+    username: row.username,
+    role: row.role as UserRole,
+    createdAt: toISO(row.createdAt),
+  }
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+function getApiSecret(): string | null {
+  return process.env.API_SECRET || null
+}
+
+// ---------- Users ----------
+
+export function hasUsers(): boolean {
+  const row = db
+    .select({ id: usersTable.id })
+    .from(usersTable)
+    .where(eq(usersTable.isDeleted, 0))
+    .limit(1)
+    .get()
+  return !!row
+}
+
+/**
+ * Auth is enforced once an API_SECRET is configured or the first account
+ * has been created. Until then the server behaves as a single-user tool.
+ */
+export function isAuthEnabled(): boolean {
+  return !!getApiSecret() || hasUsers()
+}
+
+export function listUsers(): UserPayload[] {
+  return db
+    .select()
+    .from(usersTable)
+    .where(eq(usersTable.isDeleted, 0))
+    .orderBy(asc(usersTable.createdAt))
+    .all()
+    .map(serializeUser)
+}
+
+export function findUser(userId: string): UserRow | null {
+  return (
+    db
+      .select()
+      .from(usersTable)
+      .where(and(eq(usersTable.id, userId), eq(usersTable.isDeleted, 0)))
+      .get() ?? null
+  )
+}
+
+export function findUserByUsername(username: string): UserRow | null {
+  return (
+    db
+      .select()
+      .from(usersTable)
+      .where(
+        and(eq(usersTable.username, username), eq(usersTable.isDeleted, 0)),
+      )
+      .get() ?? null
+  )
+}
+
+export async function createUser(
+  username: string,
+  password: string,
+  role: UserRole,
+): Promise<UserPayload> {
+  const passwordHash = await Bun.password.hash(password)
+  const row = db
+    .insert(usersTable)
+    .values({ username, passwordHash, role })
+    .returning()
+    .get()
+  return serializeUser(row)
+}
+
+/** Remove a user and all of their sessions. Returns false when not found. */
+export function deleteUser(userId: string): boolean {
+  return db.transaction((tx) => {
+    tx.delete(userSessions).where(eq(userSessions.userId, userId)).run()
+    const removed = tx
+      .delete(usersTable)
+      .where(eq(usersTable.id, userId))
+      .returning({ id: usersTable.id })
+      .all()
+    return removed.length > 0
+  })
+}
+
+export function countAdmins(): number {
+  return db
+    .select({ id: usersTable.id })
+    .from(usersTable)
+    .where(and(eq(usersTable.role, 'admin'), eq(usersTable.isDeleted, 0)))
+    .all().length
+}
+
+/** Check a username/password pair. Returns the user on success. */
+export async function verifyCredentials(
+  username: string,
+  password: string,
+): Promise<AuthUser | null> {
+  const row = findUserByUsername(username)
+  if (!row) return null
+  const ok = await Bun.password.verify(password, row.passwordHash)
+  return ok ? serializeUser(row) : null
+}
+
+export async function setPassword(
+  userId: string,
+  password: string,
+): Promise<void> {
+  const passwordHash = await Bun.password.hash(password)
+  db.update(usersTable)
+    .set({ passwordHash, updatedAt: new Date() })
+    .where(eq(usersTable.id, userId))
+    .run()
+}
+
+// ---------- Sessions ----------
+
+/**
+ * Issue a new session for a user. The raw token is returned once; only its
+ * SHA-256 hash is stored.
+ */
+export function createSession(userId: string): {
+  token: string
+  expiresAt: Date
+} {
+  const token = randomBytes(32).toString('base64url')
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS)
+  db.insert(userSessions)
+    .values({ userId, tokenHash: hashToken(token), expiresAt })
+    .run()
+  return { token, expiresAt }
+}
+
+export function revokeSession(token: string): void {
+  db.delete(userSessions)
+    .where(eq(userSessions.tokenHash, hashToken(token)))
+    .run()
+}
+
+/** Revoke every session of a user except the one holding `keepToken`. */
+export function revokeOtherSessions(userId: string, keepToken?: string): void {
+  db.delete(userSessions)
+    .where(
+      keepToken
+        ? and(
+            eq(userSessions.userId, userId),
+            ne(userSessions.tokenHash, hashToken(keepToken)),
+          )
+        : eq(userSessions.userId, userId),
+    )
+    .run()
+}
+
+/** Resolve a bearer token (API_SECRET or session token) to a user. */
+export function authenticateToken(token: string): AuthUser | null {
+  const secret = getApiSecret()
+  if (secret && safeEqual(token, secret)) {
+    return SERVICE_USER
+  }
+
+  const row = db
+    .select({ session: userSessions, user: usersTable })
+    .from(userSessions)
+    .innerJoin(usersTable, eq(userSessions.userId, usersTable.id))
+    .where(
+      and(
+        eq(userSessions.tokenHash, hashToken(token)),
+        gt(userSessions.expiresAt, new Date()),
+        eq(usersTable.isDeleted, 0),
+      ),
+    )
+    .get()
+  if (!row) return null
+
+  db.update(userSessions)
+    .set({ lastUsedAt: new Date() })
+    .where(eq(userSessions.id, row.session.id))
+    .run()
+
+  return {
+    id: row.user.id,
+    username: row.user.username,
+    role: row.user.role as UserRole,
+  }
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a)
+  const bufB = Buffer.from(b)
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB)
+}
@@ -0,0 +1,89 @@
+import type { Context, MiddlewareHandler } from 'hono'
+import { getCookie } from 'hono/cookie'
+import { verifyIssueToken } from '@/mcp/token'
+import type { AuthUser } from './index'
+import { authenticateToken, isAuthEnabled, SESSION_COOKIE } from './index'
+
+declare module 'hono' {
+  interface ContextVariableMap {
+    user: AuthUser | null
+  }
+}
+
+/** Routes reachable without a session (login flow + liveness probe). */
+const PUBLIC_PATHS = new Set([
+  '/api/health',
+  '/api/auth/status',
+  '/api/auth/login',
+  '/api/auth/setup',
+])
+
+/** Firing a trigger is authenticated by its HMAC signature instead. */
+const TRIGGER_FIRE_PATH = /^\/api\/projects\/[^/]+\/triggers\/[^/]+$/
+
+/** The only route that accepts the issue-bound tokens given to agents. */
+const MCP_PATH = '/api/mcp'
+
+/** Identity of an agent talking to the BitK MCP server. */
+const AGENT_USER: AuthUser = { id: 'agent', username: 'agent', role: 'member' }
+
+function isPublic(c: Context): boolean {
+  if (PUBLIC_PATHS.has(c.req.path)) return true
+  return c.req.method === 'POST' && TRIGGER_FIRE_PATH.test(c.req.path)
+}
+
+/**
+ * Pull the caller's token from, in order: `Authorization: Bearer`, the
+ * session cookie, or a `?token=` query param. The query form is only honoured
+ * for WebSocket upgrades and the SSE stream, where browsers and CLI clients
+ * cannot set headers.
+ */
+export function extractToken(c: Context): string | null {
+  const header = c.req.header('Authorization')
+  if (header?.startsWith('Bearer ')) {
+    return header.slice('Bearer '.length).trim() || null
+  }
+
+  const cookie = getCookie(c, SESSION_COOKIE)
+  if (cookie) return cookie
+
+  const isUpgrade = c.req.header('Upgrade')?.toLowerCase() === 'websocket'
+  if (isUpgrade || c.req.path === '/api/events') {
+    return c.req.query('token') || null
+  }
+  return null
+}
+
+/**
+ * Require an authenticated user for every `/api/*` route once auth is
+ * enabled. Sets `c.get('user')` (null while auth is disabled).
+ */
+export function requireAuth(): MiddlewareHandler {
+  return async (c, next) => {
+    c.set('user', null)
+    if (!isAuthEnabled()) return next()
+
+    const token = extractToken(c)
+    let user = token ? authenticateToken(token) : null
+    if (!user && c.req.path === MCP_PATH && verifyIssueToken(token)) {
+      user = AGENT_USER
+    }
+    if (user) {
+      c.set('user', user)
+      return next()
+    }
+
+    if (isPublic(c)) return next()
+    return c.json({ success: false, error: 'Unauthorized' }, 401)
+  }
+}
+
+/** Restrict a route to signed-in admins (or the API_SECRET holder). */
+export function requireAdmin(): MiddlewareHandler {
+  return async (c, next) => {
+    if (c.get('user')?.role !== 'admin') {
+      return c.json({ success: false, error: 'Forbidden' }, 403)
+    }
+    return next()
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * Minimal HTTP client for the BitK API, used by the `bitk` command-line
+ * client. It talks to a running server over the same routes the web UI uses
+ * and never touches the database directly.
+ */
+
+export class CliError extends Error {
+  constructor(
+    message: string,
+    readonly exitCode = 1,
+  ) {
+    super(message)
+    this.name = 'CliError'
+  }
+}
+
+type ApiResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string }
+
+export interface ServerEvent {
+  event: string
+  data: unknown
+}
+
+export interface ClientOptions {
+  baseUrl: string
+  token: string | null
+}
+
+export type Client = ReturnType<typeof createClient>
+
+export function createClient({ baseUrl, token }: ClientOptions) {
+  const root = baseUrl.replace(/\/+$/, '')
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  }
+  if (token) headers.Authorization = `Bearer ${token}`
+
+  async function send(path: string, init: RequestInit): Promise<Response> {
+    try {
+      return await fetch(`${root}${path}`, {
+        ...init,
+        headers: { ...headers, ...init.headers },
+      })
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error)
+      throw new CliError(`Cannot reach BitK at ${root}: ${reason}`)
+    }
+  }
+
+  async function request<T>(
+    method: string,
+    path: string,
+    body?: unknown,
+  ): Promise<T> {
+    const res = await send(path, {
+      method,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    })
+    const json = (await res.json().catch(() => null)) as ApiResult<T> | null
+    if (!json) {
+      throw new CliError(
+        `Unexpected response (HTTP ${res.status}) from ${path}`,
+      )
+    }
+    if (!json.success) {
+      throw new CliError(
+        res.status === 401
+          ? 'Unauthorized: pass --token or set BITK_TOKEN'
+          : json.error,
+      )
+    }
+    return json.data
+  }
+
+  /**
+   * Subscribe to the global `/api/events` SSE stream. Resolves once the
+   * server has accepted the subscription; the generator then yields each
+   * event with its JSON payload until the signal aborts or the stream ends.
+   */
+  async function events(
+    signal: AbortSignal,
+  ): Promise<AsyncGenerator<ServerEvent>> {
+    const res = await send('/api/events', {
+      headers: { Accept: 'text/event-stream' },
+      signal,
+    })
+    if (!res.ok || !res.body) {
+      throw new CliError(`Cannot open event stream (HTTP ${res.status})`)
+    }
+    return readEvents(res.body, signal)
+  }
+
+  /**
+   * POST one raw JSON-RPC message (or batch) and resolve with the JSON-RPC
+   * reply, or null when the server sends none (notifications).
+   */
+  async function rpc(
+    path: string,
+    message: string,
+    extraHeaders: Record<string, string>,
+  ): Promise<unknown> {
+    const res = await send(path, {
+      method: 'POST',
+      body: message,
+      headers: extraHeaders,
+    })
+    if (res.status === 202) return null
+    const json = (await res.json().catch(() => null)) as
+      | (Record<string, unknown> & { error?: unknown })
+      | null
+    if (json && (Array.isArray(json) || json.jsonrpc === '2.0')) return json
+    throw new CliError(
+      res.status === 401
+        ? 'Unauthorized: pass --token or set BITK_TOKEN'
+        : typeof json?.error === 'string'
+          ? json.error
+          : `Unexpected response (HTTP ${res.status}) from ${path}`,
+    )
+  }
+
+  return {
+    get: <T>(path: string) => request<T>('GET', path),
+    post: <T>(path: string, body: unknown) => request<T>('POST', path, body),
+    rpc,
+    events,
+  }
+}
+
+async function* readEvents(
+  body: ReadableStream<Uint8Array>,
+  signal: AbortSignal,
+): AsyncGenerator<ServerEvent> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let event = 'message'
+  let data: string[] = []
+  try {
+    while (true) {
+      const { value, done } = await reader.read()
+      if (done) return
+      buffer += decoder.decode(value, { stream: true })
+      let newline = buffer.indexOf('\n')
+      while (newline !== -1) {
+        const line = buffer.slice(0, newline).replace(/\r$/, '')
+        buffer = buffer.slice(newline + 1)
+        newline = buffer.indexOf('\n')
+
+        if (line === '') {
+          // Blank line terminates an event
+          if (data.length > 0) {
+            const raw = data.join('\n')
+            let parsed: unknown = raw
+            try {
+              parsed = JSON.parse(raw)
+            } catch {
+              /* keep raw text */
+            }
+            yield { event, data: parsed }
+          }
+          event = 'message'
+          data = []
+        } else if (line.startsWith('event:')) {
+          event = line.slice(6).trim()
+        } else if (line.startsWith('data:')) {
+          data.push(line.slice(5).trimStart())
+        }
+      }
+    }
+  } catch (error) {
+    if (signal.aborted) return
+    throw error
+  } finally {
+    reader.releaseLock()
+  }
+}
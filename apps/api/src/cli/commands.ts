@@ -0,0 +1,314 @@
+import { createInterface } from 'node:readline'
+import type { NormalizedLogEntry } from '@/engines/types'
+import type { Client } from './client'
+import { CliError } from './client'
+import { lookupIssue } from './issues'
+import type { Issue } from './output'
+import { formatIssue, print, printLogEntry } from './output'
+
+export interface CommandOptions {
+  json: boolean
+  follow: boolean
+  run: boolean
+  worktree: boolean
+  prompt?: string
+  engine?: string
+  model?: string
+  permissionMode?: string
+  priority?: string
+  status?: string
+  busy?: string
+}
+
+export interface CommandContext {
+  client: Client
+  project: string | null
+  args: string[]
+  options: CommandOptions
+}
+
+interface StatusDefinition {
+  id: string
+  sortOrder: number
+  triggersExecution: boolean
+}
+
+const ACTIVE_SESSION = new Set(['pending', 'running'])
+
+function projectPath(ctx: CommandContext): string {
+  if (!ctx.project) {
+    throw new CliError(
+      'No project: pass --project <id|alias> or set BITK_PROJECT',
+      2,
+    )
+  }
+  return `/api/projects/${encodeURIComponent(ctx.project)}`
+}
+
+/** Text from the positional args, --prompt, or stdin when given as `-`. */
+async function readText(
+  ctx: CommandContext,
+  words: string[],
+  what: string,
+): Promise<string> {
+  const text = ctx.options.prompt ?? words.join(' ')
+  const value = text === '-' ? await Bun.stdin.text() : text
+  if (!value.trim()) throw new CliError(`Missing ${what}`, 2)
+  return value.trim()
+}
+
+/** Look an issue up by id or by number (`12` or `#12`). */
+async function resolveIssue(
+  ctx: CommandContext,
+  ref: string | undefined,
+): Promise<Issue> {
+  if (!ref) throw new CliError('Missing issue (id or #number)', 2)
+  return lookupIssue(
+    (path) => ctx.client.get(path),
+    projectPath(ctx),
+    ref,
+    (message) => new CliError(message),
+  )
+}
+
+/**
+ * Stream an issue's log entries until its run settles. The event stream is
+ * opened before `begin` runs, so nothing the action produces is missed.
+ * With `history`, entries logged so far are printed first. Resolves with
+ * the exit code: 0 when the run completed, 1 otherwise.
+ */
+async function followRun(
+  ctx: CommandContext,
+  begin: () => Promise<Issue>,
+  history: boolean,
+): Promise<number> {
+  const controller = new AbortController()
+  const stream = await ctx.client.events(controller.signal)
+  try {
+    const issue = await begin()
+    const seen = new Set<string>()
+
+    if (history) {
+      const { logs } = await ctx.client.get<{ logs: NormalizedLogEntry[] }>(
+        `${projectPath(ctx)}/issues/${issue.id}/logs?limit=1000`,
+      )
+      for (const entry of logs) {
+        if (entry.messageId) seen.add(entry.messageId)
+        printLogEntry(ctx.options.json, entry)
+      }
+      const current = await ctx.client.get<Issue>(
+        `${projectPath(ctx)}/issues/${issue.id}`,
+      )
+      if (!ACTIVE_SESSION.has(current.sessionStatus ?? '')) {
+        return current.sessionStatus === 'failed' ? 1 : 0
+      }
+    }
+
+    for await (const { event, data } of stream) {
+      const payload = data as {
+        issueId?: string
+        entry?: NormalizedLogEntry
+        finalStatus?: string
+      }
+      if (payload.issueId !== issue.id) continue
+      if (event === 'log' && payload.entry) {
+        const id = payload.entry.messageId
+        if (id && seen.has(id)) continue
+        if (id) seen.add(id)
+        printLogEntry(ctx.options.json, payload.entry)
+      } else if (event === 'done') {
+        if (!ctx.options.json) {
+          process.stderr.write(`Run ${payload.finalStatus}\n`)
+        }
+        return payload.finalStatus === 'completed' ? 0 : 1
+      }
+    }
+    throw new CliError('Event stream closed before the run finished')
+  } finally {
+    controller.abort()
+  }
+}
+
+/** Run `action`, then follow the issue's logs when --follow is set. */
+async function withFollow(
+  ctx: CommandContext,
+  action: () => Promise<Issue>,
+): Promise<number> {
+  if (ctx.options.follow) return followRun(ctx, action, false)
+  await action()
+  return 0
+}
+
+async function issueCreate(ctx: CommandContext): Promise<number> {
+  const base = projectPath(ctx)
+  const title = await readText(ctx, ctx.args, 'title')
+  let statusId = ctx.options.status
+  if (!statusId) {
+    const statuses = await ctx.client.get<StatusDefinition[]>(
+      `${base}/statuses`,
+    )
+    const ordered = [...statuses].sort((a, b) => a.sortOrder - b.sortOrder)
+    const column = ctx.options.run
+      ? ordered.find((s) => s.triggersExecution)
+      : ordered[0]
+    if (!column) throw new CliError('Project has no matching status column')
+    statusId = column.id
+  }
+
+  return withFollow(ctx, async () => {
+    const issue = await ctx.client.post<Issue>(`${base}/issues`, {
+      title,
+      statusId,
+      priority: ctx.options.priority,
+      engineType: ctx.options.engine,
+      model: ctx.options.model,
+      permissionMode: ctx.options.permissionMode,
+      useWorktree: ctx.options.worktree || undefined,
+    })
+    if (!ctx.options.follow || !ctx.options.json) {
+      print(ctx.options.json, issue, formatIssue(issue))
+    }
+    return issue
+  })
+}
+
+async function issueExecute(ctx: CommandContext): Promise<number> {
+  const [ref, ...words] = ctx.args
+  const issue = await resolveIssue(ctx, ref)
+  const prompt =
+    words.length > 0 || ctx.options.prompt
+      ? await readText(ctx, words, 'prompt')
+      : (issue.prompt ?? issue.title)
+  const engineType = ctx.options.engine ?? issue.engineType
+  if (!engineType) throw new CliError('Missing --engine', 2)
+
+  return withFollow(ctx, async () => {
+    const result = await ctx.client.post<{
+      executionId?: string
+      queued?: boolean
+    }>(`${projectPath(ctx)}/issues/${issue.id}/execute`, {
+      engineType,
+      prompt,
+      model: ctx.options.model ?? issue.model ?? undefined,
+      permissionMode: ctx.options.permissionMode,
+    })
+    if (!ctx.options.follow || !ctx.options.json) {
+      print(
+        ctx.options.json,
+        { issueId: issue.id, ...result },
+        result.queued
+          ? `#${issue.issueNumber} queued: waiting for a free execution slot`
+          : `#${issue.issueNumber} started (execution ${result.executionId})`,
+      )
+    }
+    return issue
+  })
+}
+
+async function issueFollowUp(ctx: CommandContext): Promise<number> {
+  const [ref, ...words] = ctx.args
+  const issue = await resolveIssue(ctx, ref)
+  const prompt = await readText(ctx, words, 'prompt')
+
+  return withFollow(ctx, async () => {
+    const result = await ctx.client.post<{
+      executionId?: string
+      queued?: boolean
+    }>(`${projectPath(ctx)}/issues/${issue.id}/follow-up`, {
+      prompt,
+      model: ctx.options.model,
+      permissionMode: ctx.options.permissionMode,
+      busyAction: ctx.options.busy,
+    })
+    if (!ctx.options.follow || !ctx.options.json) {
+      print(
+        ctx.options.json,
+        { issueId: issue.id, ...result },
+        result.queued
+          ? `#${issue.issueNumber} message queued until the current turn ends`
+          : `#${issue.issueNumber} message sent`,
+      )
+    }
+    return issue
+  })
+}
+
+async function issueCancel(ctx: CommandContext): Promise<number> {
+  const issue = await resolveIssue(ctx, ctx.args[0])
+  const result = await ctx.client.post<{ issueId: string; status: string }>(
+    `${projectPath(ctx)}/issues/${issue.id}/cancel`,
+    {},
+  )
+  print(ctx.options.json, result, `#${issue.issueNumber} ${result.status}`)
+  return 0
+}
+
+async function issueStatus(ctx: CommandContext): Promise<number> {
+  const issue = await resolveIssue(ctx, ctx.args[0])
+  print(ctx.options.json, issue, formatIssue(issue))
+  return 0
+}
+
+async function logs(ctx: CommandContext): Promise<number> {
+  const issue = await resolveIssue(ctx, ctx.args[0])
+  if (ctx.options.follow) return followRun(ctx, async () => issue, true)
+
+  const { logs: entries } = await ctx.client.get<{
+    logs: NormalizedLogEntry[]
+  }>(`${projectPath(ctx)}/issues/${issue.id}/logs?limit=1000`)
+  for (const entry of entries) printLogEntry(ctx.options.json, entry)
+  return 0
+}
+
+/**
+ * Serve BitK's MCP tools over stdio: every JSON-RPC line read from stdin is
+ * forwarded to the server's `/api/mcp` endpoint and the reply written to
+ * stdout. Agents get it injected with a token bound to their issue.
+ */
+async function mcp(ctx: CommandContext): Promise<number> {
+  const headers: Record<string, string> = {}
+  if (ctx.project) headers['X-BitK-Project'] = ctx.project
+  if (process.env.BITK_ISSUE) headers['X-BitK-Issue'] = process.env.BITK_ISSUE
+
+  const forward = async (line: string) => {
+    try {
+      const reply = await ctx.client.rpc('/api/mcp', line, headers)
+      if (reply) process.stdout.write(`${JSON.stringify(reply)}\n`)
+    } catch (error) {
+      let id: unknown
+      try {
+        id = (JSON.parse(line) as { id?: unknown }).id
+      } catch {
+        /* the server reports malformed lines itself */
+      }
+      // Notifications get no reply, not even an error
+      if (id === undefined) return
+      const message = error instanceof Error ? error.message : String(error)
+      process.stdout.write(
+        `${JSON.stringify({ jsonrpc: '2.0', id, error: { code: -32603, message } })}\n`,
+      )
+    }
+  }
+
+  const inFlight = new Set<Promise<void>>()
+  for await (const line of createInterface({ input: process.stdin })) {
+    if (!line.trim()) continue
+    const pending = forward(line).finally(() => inFlight.delete(pending))
+    inFlight.add(pending)
+  }
+  await Promise.all(inFlight)
+  return 0
+}
+
+export const commands: Record<
+  string,
+  (ctx: CommandContext) => Promise<number>
+> = {
+  'issue create': issueCreate,
+  'issue execute': issueExecute,
+  'issue follow-up': issueFollowUp,
+  'issue cancel': issueCancel,
+  'issue status': issueStatus,
+  logs,
+  mcp,
+}
@@ -0,0 +1,139 @@
+/**
+ * `bitk` command-line client: scripts the board of a running BitK server
+ * through its HTTP API, e.g. from git hooks or CI jobs.
+ *
+ * Usage:  bitk <command> [options]   (see USAGE below)
+ */
+import process from 'node:process'
+import { parseArgs } from 'node:util'
+import { CliError, createClient } from './client'
+import { commands } from './commands'
+
+const USAGE = `Usage: bitk <command> [options]
+
+Commands:
+  issue create <title|->          Create an issue (--run starts it right away)
+  issue execute <issue> [prompt]  Start a run (defaults to the issue prompt)
+  issue follow-up <issue> <prompt|->
+                                  Send a follow-up message
+  issue cancel <issue>            Cancel the active run
+  issue status <issue>            Show status and session state
+  logs <issue>                    Print the issue's log (--follow to tail it)
+  mcp                             Serve BitK's MCP tools over stdio
+
+<issue> is an issue id or number (12 or #12). "-" reads text from stdin.
+
+Options:
+  -p, --project <id|alias>  Project (env BITK_PROJECT)
+      --url <url>           Server URL (env BITK_URL, default http://localhost:3000)
+      --token <token>       API token or API_SECRET (env BITK_TOKEN)
+      --json                Machine-readable output; logs print one entry per line
+  -f, --follow              Tail logs until the run settles; exit 1 unless it completed
+      --run                 issue create: place the issue in the execution column
+      --status <id>         issue create: status column
+      --priority <level>    issue create: urgent | high | medium | low
+      --worktree            issue create: run in an isolated git worktree
+      --prompt <text>       Prompt text instead of positional words
+      --engine <type>       claude-code | codex | gemini | echo | custom
+                            (custom needs PUT /api/engines/custom first)
+      --model <id>          Model id
+      --permission-mode <m> auto | supervised | plan
+      --busy <action>       follow-up while busy: queue (default) | cancel
+  -h, --help                Show this help
+`
+
+/** Whether argv[0] names a client command (as opposed to starting the server). */
+export function isCliCommand(command: string | undefined): boolean {
+  return (
+    command === 'issue' ||
+    command === 'logs' ||
+    command === 'mcp' ||
+    command === 'help' ||
+    command === '--help' ||
+    command === '-h'
+  )
+}
+
+/** Run a CLI invocation; resolves with the process exit code. */
+export async function runCli(argv: string[]): Promise<number> {
+  let parsed: ReturnType<typeof parse>
+  try {
+    parsed = parse(argv)
+  } catch (error) {
+    process.stderr.write(
+      `${error instanceof Error ? error.message : String(error)}\n\n${USAGE}`,
+    )
+    return 2
+  }
+  const { values, positionals } = parsed
+
+  const [group, action, ...rest] = positionals
+  const key = group === 'issue' ? `issue ${action}` : group
+  const command = key ? commands[key] : undefined
+  if (values.help || group === 'help' || !command) {
+    process.stdout.write(USAGE)
+    return values.help || group === 'help' ? 0 : 2
+  }
+
+  const port = process.env.API_PORT ?? '3000'
+  const client = createClient({
+    baseUrl: values.url ?? process.env.BITK_URL ?? `http://localhost:${port}`,
+    token: values.token ?? process.env.BITK_TOKEN ?? null,
+  })
+
+  try {
+    return await command({
+      client,
+      project: values.project ?? process.env.BITK_PROJECT ?? null,
+      args:
+        group === 'issue'
+          ? rest
+          : [action, ...rest].filter((a): a is string => a !== undefined),
+      options: {
+        json: values.json ?? false,
+        follow: values.follow ?? false,
+        run: values.run ?? false,
+        worktree: values.worktree ?? false,
+        prompt: values.prompt,
+        engine: values.engine,
+        model: values.model,
+        permissionMode: values['permission-mode'],
+        priority: values.priority,
+        status: values.status,
+        busy: values.busy,
+      },
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    process.stderr.write(`bitk: ${message}\n`)
+    return error instanceof CliError ? error.exitCode : 1
+  }
+}
+
+function parse(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      project: { type: 'string', short: 'p' },
+      url: { type: 'string' },
+      token: { type: 'string' },
+      json: { type: 'boolean' },
+      follow: { type: 'boolean', short: 'f' },
+      run: { type: 'boolean' },
+      status: { type: 'string' },
+      priority: { type: 'string' },
+      worktree: { type: 'boolean' },
+      prompt: { type: 'string' },
+      engine: { type: 'string' },
+      model: { type: 'string' },
+      'permission-mode': { type: 'string' },
+      busy: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  })
+}
+
+if (import.meta.main) {
+  process.exit(await runCli(process.argv.slice(2)))
+}
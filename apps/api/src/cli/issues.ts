@@ -0,0 +1,20 @@
+import type { Issue } from './output'
+
+/**
+ * Look an issue up by id or by number (`12` or `#12`) on the board at
+ * `base`, reading routes through `get`. Shared by the CLI and the MCP tools;
+ * an unknown number throws the error `notFound` builds.
+ */
+export async function lookupIssue(
+  get: <T>(path: string) => Promise<T>,
+  base: string,
+  ref: string,
+  notFound: (message: string) => Error,
+): Promise<Issue> {
+  const number = /^#?(\d+)$/.exec(ref)?.[1]
+  if (!number) return get<Issue>(`${base}/issues/${encodeURIComponent(ref)}`)
+  const issues = await get<Issue[]>(`${base}/issues`)
+  const issue = issues.find((i) => i.issueNumber === Number(number))
+  if (!issue) throw notFound(`Issue #${number} not found`)
+  return issue
+}
@@ -0,0 +1,52 @@
+import type { NormalizedLogEntry } from '@/engines/types'
+import type { serializeIssue } from '@/routes/issues/_shared'
+
+export type Issue = ReturnType<typeof serializeIssue>
+
+/** Print a result: pretty JSON with --json, otherwise the human text. */
+export function print(json: boolean, data: unknown, human: string): void {
+  process.stdout.write(
+    json ? `${JSON.stringify(data, null, 2)}\n` : `${human}\n`,
+  )
+}
+
+export function formatIssue(issue: Issue): string {
+  const session = issue.sessionStatus ?? 'idle'
+  const lines = [
+    `#${issue.issueNumber} ${issue.title}`,
+    `  id:      ${issue.id}`,
+    `  status:  ${issue.statusId} (${session})`,
+    `  engine:  ${issue.engineType ?? '-'}${issue.model ? ` / ${issue.model}` : ''}`,
+  ]
+  if (issue.stopReason) lines.push(`  stopped: ${issue.stopReason}`)
+  if (issue.verifyStatus) lines.push(`  checks:  ${issue.verifyStatus}`)
+  return lines.join('\n')
+}
+
+const ENTRY_LABELS: Partial<Record<NormalizedLogEntry['entryType'], string>> = {
+  'user-message': 'user',
+  'assistant-message': 'assistant',
+  'tool-use': 'tool',
+  'system-message': 'system',
+  'error-message': 'error',
+  thinking: 'thinking',
+}
+
+/** One log entry as text, or null for entries not worth a line (usage, spinners). */
+export function formatLogEntry(entry: NormalizedLogEntry): string | null {
+  const label = ENTRY_LABELS[entry.entryType]
+  if (!label) return null
+  const content = entry.content.trim()
+  if (!content) return null
+  return `[${label}] ${content}`
+}
+
+/** Print a log entry: one JSON object per line with --json (for piping). */
+export function printLogEntry(json: boolean, entry: NormalizedLogEntry): void {
+  if (json) {
+    process.stdout.write(`${JSON.stringify(entry)}\n`)
+    return
+  }
+  const line = formatLogEntry(entry)
+  if (line) process.stdout.write(`${line}\n`)
+}
@@ -1,23 +1,46 @@
-export type StatusId = 'todo' | 'working' | 'review' | 'done'
-
 export interface StatusDefinition {
-  id: StatusId
+  id: string
   name: string
   color: string
   sortOrder: number
+  /** Moving an issue into this column starts (or resumes) AI execution. */
+  triggersExecution: boolean
+  /** Closed column: moving an issue here cancels its running session. */
+  isTerminal: boolean
 }
 
-export const STATUSES: StatusDefinition[] = [
-  { id: 'todo', name: 'Todo', color: '#6b7280', sortOrder: 0 },
-  { id: 'working', name: 'Working', color: '#3b82f6', sortOrder: 1 },
-  { id: 'review', name: 'Review', color: '#f59e0b', sortOrder: 2 },
-  { id: 'done', name: 'Done', color: '#22c55e', sortOrder: 3 },
+/** Workflow used by every project that has not customized its columns. */
+export const DEFAULT_STATUSES: StatusDefinition[] = [
+  {
+    id: 'todo',
+    name: 'Todo',
+    color: '#6b7280',
+    sortOrder: 0,
+    triggersExecution: false,
+    isTerminal: false,
+  },
+  {
+    id: 'working',
+    name: 'Working',
+    color: '#3b82f6',
+    sortOrder: 1,
+    triggersExecution: true,
+    isTerminal: false,
+  },
+  {
+    id: 'review',
+    name: 'Review',
+    color: '#f59e0b',
+    sortOrder: 2,
+    triggersExecution: false,
+    isTerminal: false,
+  },
+  {
+    id: 'done',
+    name: 'Done',
+    color: '#22c55e',
+    sortOrder: 3,
+    triggersExecution: false,
+    isTerminal: true,
+  },
 ]
-
-export const STATUS_MAP = new Map<string, StatusDefinition>(
-  STATUSES.map((s) => [s.id, s]),
-)
-
-export const STATUS_IDS = STATUSES.map((s) => s.id) as [StatusId, ...StatusId[]]
-
-export const DEFAULT_STATUS_ID: StatusId = 'todo'
@@ -0,0 +1,135 @@
+import { and, eq, isNull, sql } from 'drizzle-orm'
+import { db } from '.'
+import { budgets, issues } from './schema'
+import type { UsageTotals } from './usage'
+
+export interface BudgetLimits {
+  maxCostUsd: number | null
+  maxTokens: number | null
+  maxTurns: number | null
+  maxDurationSeconds: number | null
+}
+
+export type BudgetScope = 'project' | 'issue'
+export type BudgetLimitKind = 'cost' | 'tokens' | 'turns' | 'duration'
+
+export interface BudgetViolation {
+  scope: BudgetScope
+  kind: BudgetLimitKind
+  limit: number
+  used: number
+}
+
+export const NO_LIMITS: BudgetLimits = {
+  maxCostUsd: null,
+  maxTokens: null,
+  maxTurns: null,
+  maxDurationSeconds: null,
+}
+
+function scopeFilter(projectId: string, issueId: string | null) {
+  return and(
+    eq(budgets.projectId, projectId),
+    issueId ? eq(budgets.issueId, issueId) : isNull(budgets.issueId),
+    eq(budgets.isDeleted, 0),
+  )
+}
+
+export function hasLimits(limits: BudgetLimits): boolean {
+  return Object.values(limits).some((v) => v !== null)
+}
+
+/**
+ * Limits of a project (issueId null) or a single issue; all null when unset.
+ * Synchronous so the stream consumer can check budgets without yielding
+ * between a turn's last entry and its settle.
+ */
+export function getBudget(
+  projectId: string,
+  issueId: string | null,
+): BudgetLimits {
+  const row = db
+    .select({
+      maxCostUsd: budgets.maxCostUsd,
+      maxTokens: budgets.maxTokens,
+      maxTurns: budgets.maxTurns,
+      maxDurationSeconds: budgets.maxDurationSeconds,
+    })
+    .from(budgets)
+    .where(scopeFilter(projectId, issueId))
+    .get()
+  return row ?? NO_LIMITS
+}
+
+export async function setBudget(
+  projectId: string,
+  issueId: string | null,
+  limits: BudgetLimits,
+): Promise<BudgetLimits> {
+  const [existing] = await db
+    .select({ id: budgets.id })
+    .from(budgets)
+    .where(scopeFilter(projectId, issueId))
+  if (existing) {
+    await db.update(budgets).set(limits).where(eq(budgets.id, existing.id))
+  } else {
+    await db.insert(budgets).values({ projectId, issueId, ...limits })
+  }
+  return limits
+}
+
+/**
+ * Wall-clock seconds of the finished turns of an issue or of every issue in
+ * a project. Synchronous for the same reason as getBudget.
+ */
+export function getRunSeconds(
+  scope: { issueId: string } | { projectId: string },
+): number {
+  const row = db
+    .select({ total: sql<number>`coalesce(sum(${issues.runSeconds}), 0)` })
+    .from(issues)
+    .where(
+      'issueId' in scope
+        ? eq(issues.id, scope.issueId)
+        : eq(issues.projectId, scope.projectId),
+    )
+    .get()
+  return row?.total ?? 0
+}
+
+/** Add a finished turn's wall-clock time to its issue. */
+export function addRunSeconds(issueId: string, seconds: number): void {
+  db.update(issues)
+    .set({ runSeconds: sql`${issues.runSeconds} + ${seconds}` })
+    .where(eq(issues.id, issueId))
+    .run()
+}
+
+/**
+ * First limit in `limits` that `usage` (all-time) or `elapsedSeconds`, the
+ * run time of every turn so far, has reached. Pass `usage: null` to check
+ * only the wall-clock limit.
+ */
+export function findViolation(
+  scope: BudgetScope,
+  limits: BudgetLimits,
+  usage: UsageTotals | null,
+  elapsedSeconds: number,
+): BudgetViolation | null {
+  const checks: [BudgetLimitKind, number | null, number | null][] = [
+    ['cost', limits.maxCostUsd, usage?.costUsd ?? null],
+    [
+      'tokens',
+      limits.maxTokens,
+      usage ? usage.inputTokens + usage.outputTokens : null,
+    ],
+    ['turns', limits.maxTurns, usage?.turns ?? null],
+    ['duration', limits.maxDurationSeconds, elapsedSeconds],
+  ]
+  for (const [kind, limit, used] of checks) {
+    if (limit !== null && used !== null && used >= limit) {
+      return { scope, kind, limit, used }
+    }
+  }
+  return null
+}
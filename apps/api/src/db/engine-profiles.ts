@@ -0,0 +1,25 @@
+import { and, eq } from 'drizzle-orm'
+import { db } from '.'
+import { engineProfiles } from './schema'
+
+export type EngineProfileRow = typeof engineProfiles.$inferSelect
+
+export async function listEngineProfileRows(): Promise<EngineProfileRow[]> {
+  return db
+    .select()
+    .from(engineProfiles)
+    .where(eq(engineProfiles.isDeleted, 0))
+    .orderBy(engineProfiles.createdAt)
+}
+
+export async function getEngineProfileRow(
+  profileId: string,
+): Promise<EngineProfileRow | null> {
+  const [row] = await db
+    .select()
+    .from(engineProfiles)
+    .where(
+      and(eq(engineProfiles.id, profileId), eq(engineProfiles.isDeleted, 0)),
+    )
+  return row ?? null
+}
@@ -0,0 +1,188 @@
+import { asc, eq, inArray } from 'drizzle-orm'
+import { toISO } from '@/utils/date'
+import { db } from '.'
+import { executionQueue, issues as issuesTable } from './schema'
+
+export type QueuedExecutionRow = typeof executionQueue.$inferSelect
+
+/** Session to fork from when a queued fork starts. */
+export interface QueuedForkOptions {
+  sessionId: string | null
+  resetToMessageId: string | null
+}
+
+const PRIORITY_RANK: Record<string, number> = {
+  urgent: 0,
+  high: 1,
+  medium: 2,
+  low: 3,
+}
+
+function rankOf(priority: string | null | undefined): number {
+  return PRIORITY_RANK[priority ?? 'medium'] ?? PRIORITY_RANK.medium!
+}
+
+/** Queue entries in dispatch order, with the priority of their issue. */
+function selectOrdered() {
+  return db
+    .select({
+      entry: executionQueue,
+      priority: issuesTable.priority,
+      issueNumber: issuesTable.issueNumber,
+      title: issuesTable.title,
+    })
+    .from(executionQueue)
+    .innerJoin(issuesTable, eq(issuesTable.id, executionQueue.issueId))
+    .orderBy(asc(executionQueue.sortOrder), asc(executionQueue.createdAt))
+}
+
+/**
+ * Add an execution to the queue behind every entry of the same or higher
+ * priority, so the queue stays ordered by priority and then by arrival.
+ * Re-queueing an issue that is already waiting keeps its place and only
+ * refreshes the execution options.
+ */
+export async function enqueueExecution(entry: {
+  issueId: string
+  projectId: string
+  engineType: string
+  prompt: string
+  model?: string | null
+  permissionMode?: string | null
+  workingDir?: string | null
+  fork?: QueuedForkOptions | null
+}): Promise<QueuedExecutionRow> {
+  const values = {
+    projectId: entry.projectId,
+    engineType: entry.engineType,
+    prompt: entry.prompt,
+    model: entry.model ?? null,
+    permissionMode: entry.permissionMode ?? null,
+    workingDir: entry.workingDir ?? null,
+    forkOptions: entry.fork ? JSON.stringify(entry.fork) : null,
+  }
+
+  const [existing] = await db
+    .select()
+    .from(executionQueue)
+    .where(eq(executionQueue.issueId, entry.issueId))
+  if (existing) {
+    const [row] = await db
+      .update(executionQueue)
+      .set(values)
+      .where(eq(executionQueue.id, existing.id))
+      .returning()
+    return row!
+  }
+
+  const [issue] = await db
+    .select({ priority: issuesTable.priority })
+    .from(issuesTable)
+    .where(eq(issuesTable.id, entry.issueId))
+  const rank = rankOf(issue?.priority)
+
+  const queued = await selectOrdered()
+  const nextIndex = queued.findIndex((q) => rankOf(q.priority) > rank)
+  let sortOrder: number
+  if (nextIndex === -1) {
+    const last = queued.at(-1)
+    sortOrder = last ? last.entry.sortOrder + 1 : 0
+  } else {
+    const next = queued[nextIndex]!.entry.sortOrder
+    const prev = nextIndex > 0 ? queued[nextIndex - 1]!.entry.sortOrder : null
+    sortOrder = prev === null ? next - 1 : (prev + next) / 2
+  }
+
+  const [row] = await db
+    .insert(executionQueue)
+    .values({ issueId: entry.issueId, sortOrder, ...values })
+    .returning()
+  return row!
+}
+
+/** Fork options of a queue entry, or null for a plain execution. */
+export function parseForkOptions(
+  row: QueuedExecutionRow,
+): QueuedForkOptions | null {
+  if (!row.forkOptions) return null
+  try {
+    return JSON.parse(row.forkOptions) as QueuedForkOptions
+  } catch {
+    return null
+  }
+}
+
+/** The entry that should run next, if any. */
+export async function peekQueue(): Promise<QueuedExecutionRow | null> {
+  const [head] = await selectOrdered().limit(1)
+  return head?.entry ?? null
+}
+
+/** Remove an issue from the queue. Returns whether it was queued. */
+export async function removeFromQueue(issueId: string): Promise<boolean> {
+  const removed = await db
+    .delete(executionQueue)
+    .where(eq(executionQueue.issueId, issueId))
+    .returning({ id: executionQueue.id })
+  return removed.length > 0
+}
+
+export async function isQueued(issueId: string): Promise<boolean> {
+  const [row] = await db
+    .select({ id: executionQueue.id })
+    .from(executionQueue)
+    .where(eq(executionQueue.issueId, issueId))
+  return !!row
+}
+
+export async function getQueuedIssueIds(): Promise<Set<string>> {
+  const rows = await db
+    .select({ issueId: executionQueue.issueId })
+    .from(executionQueue)
+  return new Set(rows.map((r) => r.issueId))
+}
+
+/** The whole queue in dispatch order; `position` is 1-based. */
+export async function listQueue() {
+  const rows = await selectOrdered()
+  return rows.map((r, index) => ({
+    issueId: r.entry.issueId,
+    projectId: r.entry.projectId,
+    issueNumber: r.issueNumber,
+    title: r.title,
+    priority: r.priority,
+    engineType: r.entry.engineType,
+    position: index + 1,
+    queuedAt: toISO(r.entry.createdAt),
+  }))
+}
+
+/**
+ * Move the given issues, in the given order, into the slots they currently
+ * occupy in the queue. Entries not listed keep their place, so a client can
+ * reorder a subset (e.g. one project's entries) without touching the rest.
+ * Returns false when an id is not queued.
+ */
+export async function reorderQueue(issueIds: string[]): Promise<boolean> {
+  if (new Set(issueIds).size !== issueIds.length) return false
+  if (issueIds.length === 0) return true
+  const rows = await db
+    .select({
+      issueId: executionQueue.issueId,
+      sortOrder: executionQueue.sortOrder,
+    })
+    .from(executionQueue)
+    .where(inArray(executionQueue.issueId, issueIds))
+  if (rows.length !== issueIds.length) return false
+
+  const slots = rows.map((r) => r.sortOrder).sort((a, b) => a - b)
+  await db.transaction(async (tx) => {
+    for (const [index, issueId] of issueIds.entries()) {
+      await tx
+        .update(executionQueue)
+        .set({ sortOrder: slots[index]! })
+        .where(eq(executionQueue.issueId, issueId))
+    }
+  })
+  return true
+}
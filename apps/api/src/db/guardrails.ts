@@ -0,0 +1,59 @@
+import { and, asc, eq } from 'drizzle-orm'
+import type {
+  GuardrailAction,
+  GuardrailKind,
+  GuardrailRule,
+} from '@/engines/types'
+import { db } from '.'
+import { projectGuardrails } from './schema'
+
+export type GuardrailRow = typeof projectGuardrails.$inferSelect
+
+export function toGuardrailRule(row: GuardrailRow): GuardrailRule {
+  return {
+    id: row.id,
+    kind: row.kind as GuardrailKind,
+    pattern: row.pattern,
+    action: row.action as GuardrailAction,
+  }
+}
+
+export async function listGuardrails(
+  projectId: string,
+): Promise<GuardrailRow[]> {
+  return db
+    .select()
+    .from(projectGuardrails)
+    .where(
+      and(
+        eq(projectGuardrails.projectId, projectId),
+        eq(projectGuardrails.isDeleted, 0),
+      ),
+    )
+    .orderBy(asc(projectGuardrails.createdAt), asc(projectGuardrails.id))
+}
+
+export async function getGuardrail(
+  projectId: string,
+  guardrailId: string,
+): Promise<GuardrailRow | null> {
+  const [row] = await db
+    .select()
+    .from(projectGuardrails)
+    .where(
+      and(
+        eq(projectGuardrails.id, guardrailId),
+        eq(projectGuardrails.projectId, projectId),
+        eq(projectGuardrails.isDeleted, 0),
+      ),
+    )
+  return row ?? null
+}
+
+/** Enabled rules of a project, ready for `ExecutionEnv.guardrails`. */
+export async function resolveGuardrails(
+  projectId: string,
+): Promise<GuardrailRule[]> {
+  const rows = await listGuardrails(projectId)
+  return rows.filter((row) => row.enabled).map(toGuardrailRule)
+}
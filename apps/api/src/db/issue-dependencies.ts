@@ -0,0 +1,137 @@
+import { and, eq } from 'drizzle-orm'
+import { alias } from 'drizzle-orm/sqlite-core'
+import { db } from '.'
+import type { Workflow } from './project-statuses'
+import { issueDependencies, issues as issuesTable } from './schema'
+
+type IssueRow = typeof issuesTable.$inferSelect
+
+export interface DependencyEdge {
+  issueId: string
+  dependsOnIssueId: string
+}
+
+const upstream = alias(issuesTable, 'upstream')
+
+/**
+ * All edges between live issues of a project. Edges touching a deleted
+ * issue are ignored rather than removed, so restoring an issue restores
+ * its edges.
+ */
+export async function listProjectDependencies(
+  projectId: string,
+): Promise<DependencyEdge[]> {
+  return db
+    .select({
+      issueId: issueDependencies.issueId,
+      dependsOnIssueId: issueDependencies.dependsOnIssueId,
+    })
+    .from(issueDependencies)
+    .innerJoin(issuesTable, eq(issuesTable.id, issueDependencies.issueId))
+    .innerJoin(upstream, eq(upstream.id, issueDependencies.dependsOnIssueId))
+    .where(
+      and(
+        eq(issuesTable.projectId, projectId),
+        eq(issuesTable.isDeleted, 0),
+        eq(upstream.isDeleted, 0),
+      ),
+    )
+}
+
+/** Upstream issues that `issueId` waits on. */
+export async function getBlockers(issueId: string): Promise<IssueRow[]> {
+  const rows = await db
+    .select({ issue: upstream })
+    .from(issueDependencies)
+    .innerJoin(upstream, eq(upstream.id, issueDependencies.dependsOnIssueId))
+    .where(
+      and(eq(issueDependencies.issueId, issueId), eq(upstream.isDeleted, 0)),
+    )
+  return rows.map((r) => r.issue)
+}
+
+/** Downstream issues waiting on `issueId`. */
+export async function getDependents(issueId: string): Promise<IssueRow[]> {
+  const rows = await db
+    .select({ issue: issuesTable })
+    .from(issueDependencies)
+    .innerJoin(issuesTable, eq(issuesTable.id, issueDependencies.issueId))
+    .where(
+      and(
+        eq(issueDependencies.dependsOnIssueId, issueId),
+        eq(issuesTable.isDeleted, 0),
+      ),
+    )
+  return rows.map((r) => r.issue)
+}
+
+/**
+ * Whether adding `issueId → dependsOnIssueId` would close a loop, i.e.
+ * `issueId` is already reachable from `dependsOnIssueId`.
+ */
+export async function wouldCreateCycle(
+  projectId: string,
+  issueId: string,
+  dependsOnIssueId: string,
+): Promise<boolean> {
+  if (issueId === dependsOnIssueId) return true
+  const edges = await listProjectDependencies(projectId)
+  const next = new Map<string, string[]>()
+  for (const e of edges) {
+    const list = next.get(e.issueId) ?? []
+    list.push(e.dependsOnIssueId)
+    next.set(e.issueId, list)
+  }
+
+  const seen = new Set<string>()
+  const stack = [dependsOnIssueId]
+  while (stack.length > 0) {
+    const current = stack.pop()!
+    if (current === issueId) return true
+    if (seen.has(current)) continue
+    seen.add(current)
+    stack.push(...(next.get(current) ?? []))
+  }
+  return false
+}
+
+export async function addDependency(
+  issueId: string,
+  dependsOnIssueId: string,
+): Promise<boolean> {
+  const rows = await db
+    .insert(issueDependencies)
+    .values({ issueId, dependsOnIssueId })
+    .onConflictDoNothing()
+    .returning()
+  return rows.length > 0
+}
+
+export async function removeDependency(
+  issueId: string,
+  dependsOnIssueId: string,
+): Promise<boolean> {
+  const rows = await db
+    .delete(issueDependencies)
+    .where(
+      and(
+        eq(issueDependencies.issueId, issueId),
+        eq(issueDependencies.dependsOnIssueId, dependsOnIssueId),
+      ),
+    )
+    .returning()
+  return rows.length > 0
+}
+
+/**
+ * An upstream issue stops blocking once its run completed successfully
+ * and settled past the execution column, or once it was closed.
+ */
+export function isDependencyResolved(
+  issue: Pick<IssueRow, 'statusId' | 'sessionStatus'>,
+  workflow: Workflow,
+): boolean {
+  const role = workflow.roleOf(issue.statusId)
+  if (role === 'terminal') return true
+  return role === 'review' && issue.sessionStatus === 'completed'
+}
@@ -0,0 +1,68 @@
+import { and, eq } from 'drizzle-orm'
+import type { McpServerConfig } from '@/engines/types'
+import { db } from '.'
+import { projectMcpServers } from './schema'
+
+export type McpServerRow = typeof projectMcpServers.$inferSelect
+
+function parseJson<T>(raw: string, fallback: T): T {
+  try {
+    return (JSON.parse(raw) as T) ?? fallback
+  } catch {
+    return fallback
+  }
+}
+
+export function toMcpServerConfig(row: McpServerRow): McpServerConfig {
+  const args = parseJson<unknown>(row.args, [])
+  const env = parseJson<unknown>(row.env, {})
+  return {
+    name: row.name,
+    command: row.command,
+    args: Array.isArray(args) ? args.map(String) : [],
+    env:
+      env && typeof env === 'object' && !Array.isArray(env)
+        ? (env as Record<string, string>)
+        : {},
+  }
+}
+
+export async function listMcpServers(
+  projectId: string,
+): Promise<McpServerRow[]> {
+  return db
+    .select()
+    .from(projectMcpServers)
+    .where(
+      and(
+        eq(projectMcpServers.projectId, projectId),
+        eq(projectMcpServers.isDeleted, 0),
+      ),
+    )
+    .orderBy(projectMcpServers.name)
+}
+
+export async function getMcpServer(
+  projectId: string,
+  serverId: string,
+): Promise<McpServerRow | null> {
+  const [row] = await db
+    .select()
+    .from(projectMcpServers)
+    .where(
+      and(
+        eq(projectMcpServers.id, serverId),
+        eq(projectMcpServers.projectId, projectId),
+        eq(projectMcpServers.isDeleted, 0),
+      ),
+    )
+  return row ?? null
+}
+
+/** Enabled servers of a project, ready for `ExecutionEnv.mcpServers`. */
+export async function resolveMcpServers(
+  projectId: string,
+): Promise<McpServerConfig[]> {
+  const rows = await listMcpServers(projectId)
+  return rows.filter((row) => row.enabled).map(toMcpServerConfig)
+}
@@ -0,0 +1,69 @@
+import { and, eq } from 'drizzle-orm'
+import { logger } from '@/logger'
+import { decryptSecret } from '@/secrets'
+import { db } from '.'
+import { projectEnvVars } from './schema'
+
+export type ProjectEnvVarRow = typeof projectEnvVars.$inferSelect
+
+export async function listProjectEnvVars(
+  projectId: string,
+): Promise<ProjectEnvVarRow[]> {
+  return db
+    .select()
+    .from(projectEnvVars)
+    .where(
+      and(
+        eq(projectEnvVars.projectId, projectId),
+        eq(projectEnvVars.isDeleted, 0),
+      ),
+    )
+    .orderBy(projectEnvVars.key)
+}
+
+export async function getProjectEnvVar(
+  projectId: string,
+  varId: string,
+): Promise<ProjectEnvVarRow | null> {
+  const [row] = await db
+    .select()
+    .from(projectEnvVars)
+    .where(
+      and(
+        eq(projectEnvVars.id, varId),
+        eq(projectEnvVars.projectId, projectId),
+        eq(projectEnvVars.isDeleted, 0),
+      ),
+    )
+  return row ?? null
+}
+
+/** Plaintext value; throws when a secret cannot be decrypted. */
+export function readProjectEnvValue(row: ProjectEnvVarRow): string {
+  return row.isSecret ? decryptSecret(row.value) : row.value
+}
+
+/**
+ * Decrypted env of a project, plus the secret values on their own so
+ * callers can scrub them from output. Secrets that no longer decrypt
+ * (e.g. the master key changed) are skipped.
+ */
+export async function resolveProjectEnv(
+  projectId: string,
+): Promise<{ vars: Record<string, string>; secrets: string[] }> {
+  const vars: Record<string, string> = {}
+  const secrets: string[] = []
+  for (const row of await listProjectEnvVars(projectId)) {
+    try {
+      const value = readProjectEnvValue(row)
+      vars[row.key] = value
+      if (row.isSecret) secrets.push(value)
+    } catch (error) {
+      logger.warn(
+        { projectId, key: row.key, error },
+        'project_env_secret_undecryptable',
+      )
+    }
+  }
+  return { vars, secrets }
+}
@@ -0,0 +1,154 @@
+import { and, asc, eq } from 'drizzle-orm'
+import { cacheDel, cacheGetOrSet } from '@/cache'
+import type { StatusDefinition } from '@/config'
+import { DEFAULT_STATUSES } from '@/config'
+import { db } from '.'
+import { issues as issuesTable, projectStatuses } from './schema'
+
+/**
+ * How the engine treats a column, derived from its flags and its position
+ * relative to the execution column:
+ * - backlog:   left of the execution column — messages queue, nothing runs
+ * - execution: `triggersExecution` — moving here starts the engine
+ * - review:    right of the execution column — finished runs land here
+ * - terminal:  `isTerminal` — moving here cancels the session
+ */
+export type StatusRole = 'backlog' | 'execution' | 'review' | 'terminal'
+
+export interface Workflow {
+  statuses: StatusDefinition[]
+  /** The column new issues default to (first by sort order). */
+  initial: StatusDefinition
+  /** The column that triggers execution. */
+  execution: StatusDefinition
+  /** Where issues go when a run settles. */
+  review: StatusDefinition
+  has: (statusId: string) => boolean
+  roleOf: (statusId: string) => StatusRole
+}
+
+export const MAX_PROJECT_STATUSES = 20
+
+/**
+ * Check that a column list forms a usable workflow. Returns an error
+ * message, or null when valid. Expects statuses sorted by sortOrder.
+ */
+export function validateStatuses(statuses: StatusDefinition[]): string | null {
+  if (statuses.length === 0) return 'At least one status is required'
+  if (statuses.length > MAX_PROJECT_STATUSES) {
+    return `At most ${MAX_PROJECT_STATUSES} statuses are allowed`
+  }
+  const ids = new Set(statuses.map((s) => s.id))
+  if (ids.size !== statuses.length) return 'Status ids must be unique'
+
+  const triggers = statuses.filter((s) => s.triggersExecution)
+  if (triggers.length !== 1) {
+    return 'Exactly one status must trigger execution'
+  }
+  if (triggers[0]!.isTerminal) {
+    return 'The execution status cannot be terminal'
+  }
+  if (statuses.at(-1)!.triggersExecution) {
+    return 'The execution status needs a status after it for finished runs'
+  }
+  return null
+}
+
+function roleAt(
+  status: StatusDefinition,
+  index: number,
+  executionIndex: number,
+): StatusRole {
+  if (status.isTerminal) return 'terminal'
+  if (index < executionIndex) return 'backlog'
+  return index === executionIndex ? 'execution' : 'review'
+}
+
+export function buildWorkflow(statuses: StatusDefinition[]): Workflow {
+  const sorted = [...statuses].sort((a, b) => a.sortOrder - b.sortOrder)
+  const executionIndex = sorted.findIndex((s) => s.triggersExecution)
+  const execution = sorted[executionIndex]!
+  const after = sorted.slice(executionIndex + 1)
+  const review = after.find((s) => !s.isTerminal) ?? after[0]!
+
+  const roles = new Map<string, StatusRole>()
+  sorted.forEach((s, i) => {
+    roles.set(s.id, roleAt(s, i, executionIndex))
+  })
+
+  return {
+    statuses: sorted,
+    initial: sorted[0]!,
+    execution,
+    review,
+    has: (statusId) => roles.has(statusId),
+    // Unknown ids (e.g. a column removed out-of-band) behave like backlog
+    roleOf: (statusId) => roles.get(statusId) ?? 'backlog',
+  }
+}
+
+function cacheKey(projectId: string) {
+  return `projectStatuses:${projectId}`
+}
+
+/** Columns for a project, falling back to the default workflow. */
+export async function getProjectStatuses(
+  projectId: string,
+): Promise<StatusDefinition[]> {
+  return cacheGetOrSet(cacheKey(projectId), 60, async () => {
+    const rows = await db
+      .select()
+      .from(projectStatuses)
+      .where(
+        and(
+          eq(projectStatuses.projectId, projectId),
+          eq(projectStatuses.isDeleted, 0),
+        ),
+      )
+      .orderBy(asc(projectStatuses.sortOrder))
+    if (rows.length === 0) return DEFAULT_STATUSES
+    return rows.map((r) => ({
+      id: r.id,
+      name: r.name,
+      color: r.color,
+      sortOrder: r.sortOrder,
+      triggersExecution: r.triggersExecution,
+      isTerminal: r.isTerminal,
+    }))
+  })
+}
+
+export async function getProjectWorkflow(projectId: string): Promise<Workflow> {
+  return buildWorkflow(await getProjectStatuses(projectId))
+}
+
+/**
+ * Replace a project's columns. Fails with `inUse` when a removed column
+ * still holds issues, so no issue is left pointing at a missing status.
+ */
+export async function replaceProjectStatuses(
+  projectId: string,
+  statuses: StatusDefinition[],
+): Promise<{ ok: true } | { ok: false; inUse: string[] }> {
+  const keep = new Set(statuses.map((s) => s.id))
+  const result = await db.transaction(async (tx) => {
+    const used = await tx
+      .selectDistinct({ statusId: issuesTable.statusId })
+      .from(issuesTable)
+      .where(
+        and(eq(issuesTable.projectId, projectId), eq(issuesTable.isDeleted, 0)),
+      )
+    const inUse = used.map((u) => u.statusId).filter((id) => !keep.has(id))
+    if (inUse.length > 0) return { ok: false as const, inUse }
+
+    await tx
+      .delete(projectStatuses)
+      .where(eq(projectStatuses.projectId, projectId))
+    await tx
+      .insert(projectStatuses)
+      .values(statuses.map((s) => ({ ...s, projectId })))
+    return { ok: true as const }
+  })
+  await cacheDel(cacheKey(projectId))
+  return result
+}
@@ -0,0 +1,110 @@
+import { and, desc, eq, lte } from 'drizzle-orm'
+import { nextCronRun } from '@/utils/cron'
+import { toISO } from '@/utils/date'
+import { db } from '.'
+import { issues as issuesTable, scheduleRuns, schedules } from './schema'
+
+export type ScheduleRow = typeof schedules.$inferSelect
+export type ScheduleRunStatus = 'started' | 'skipped' | 'failed'
+
+/**
+ * When an enabled schedule fires next: the first cron match after `now`, or
+ * the one-shot timestamp (a past one fires on the next tick).
+ */
+export function firstRunAt(
+  schedule: Pick<ScheduleRow, 'cron' | 'runAt'>,
+  now: Date,
+): Date | null {
+  if (schedule.cron) return nextCronRun(schedule.cron, now)
+  return schedule.runAt ?? null
+}
+
+export async function listSchedules(projectId: string): Promise<ScheduleRow[]> {
+  return db
+    .select()
+    .from(schedules)
+    .where(and(eq(schedules.projectId, projectId), eq(schedules.isDeleted, 0)))
+    .orderBy(schedules.createdAt)
+}
+
+export async function getSchedule(
+  projectId: string,
+  scheduleId: string,
+): Promise<ScheduleRow | null> {
+  const [row] = await db
+    .select()
+    .from(schedules)
+    .where(
+      and(
+        eq(schedules.id, scheduleId),
+        eq(schedules.projectId, projectId),
+        eq(schedules.isDeleted, 0),
+      ),
+    )
+  return row ?? null
+}
+
+/** Enabled schedules whose next run is at or before `now`, oldest first. */
+export async function getDueSchedules(now: Date): Promise<ScheduleRow[]> {
+  return db
+    .select()
+    .from(schedules)
+    .where(
+      and(
+        eq(schedules.enabled, true),
+        eq(schedules.isDeleted, 0),
+        lte(schedules.nextRunAt, now),
+      ),
+    )
+    .orderBy(schedules.nextRunAt)
+}
+
+export async function recordScheduleRun(
+  scheduleId: string,
+  run: {
+    issueId: string | null
+    status: ScheduleRunStatus
+    error?: string | null
+  },
+) {
+  const [row] = await db
+    .insert(scheduleRuns)
+    .values({
+      scheduleId,
+      issueId: run.issueId,
+      status: run.status,
+      error: run.error ?? null,
+    })
+    .returning()
+  return row!
+}
+
+/** Past runs of a schedule, newest first, with the issue each one ran. */
+export async function listScheduleRuns(scheduleId: string, limit = 50) {
+  const rows = await db
+    .select({
+      id: scheduleRuns.id,
+      scheduleId: scheduleRuns.scheduleId,
+      issueId: scheduleRuns.issueId,
+      issueNumber: issuesTable.issueNumber,
+      issueTitle: issuesTable.title,
+      status: scheduleRuns.status,
+      error: scheduleRuns.error,
+      createdAt: scheduleRuns.createdAt,
+    })
+    .from(scheduleRuns)
+    .leftJoin(issuesTable, eq(issuesTable.id, scheduleRuns.issueId))
+    .where(
+      and(
+        eq(scheduleRuns.scheduleId, scheduleId),
+        eq(scheduleRuns.isDeleted, 0),
+      ),
+    )
+    .orderBy(desc(scheduleRuns.createdAt), desc(scheduleRuns.id))
+    .limit(limit)
+  return rows.map((r) => ({
+    ...r,
+    status: r.status as ScheduleRunStatus,
+    createdAt: toISO(r.createdAt),
+  }))
+}
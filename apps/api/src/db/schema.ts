@@ -1,8 +1,8 @@
-import { sql } from 'drizzle-orm'
 import {
-  check,
   index,
   integer,
+  primaryKey,
+  real,
   sqliteTable,
   text,
   uniqueIndex,
@@ -42,9 +42,32 @@ export const projects = sqliteTable('projects', {
   description: text('description'),
   directory: text('directory'),
   repositoryUrl: text('repository_url'),
+  // Follow-ups sent to fix failed verification commands before giving up
+  verifyFixAttempts: integer('verify_fix_attempts').notNull().default(0),
   ...commonFields,
 })
 
+export const projectStatuses = sqliteTable(
+  'project_statuses',
+  {
+    projectId: text('project_id')
+      .notNull()
+      .references(() => projects.id),
+    id: text('id').notNull(), // slug referenced by issues.status_id, unique per project
+    name: text('name').notNull(),
+    color: text('color').notNull(),
+    sortOrder: integer('sort_order').notNull().default(0),
+    triggersExecution: integer('triggers_execution', { mode: 'boolean' })
+      .notNull()
+      .default(false),
+    isTerminal: integer('is_terminal', { mode: 'boolean' })
+      .notNull()
+      .default(false),
+    ...commonFields,
+  },
+  (table) => [primaryKey({ columns: [table.projectId, table.id] })],
+)
+
 export const issues = sqliteTable(
   'issues',
   {
@@ -52,7 +75,7 @@ export const issues = sqliteTable(
     projectId: text('project_id')
       .notNull()
       .references(() => projects.id),
-    statusId: text('status_id').notNull(),
+    statusId: text('status_id').notNull(), // project_statuses.id within the project
     issueNumber: integer('issue_number').notNull(),
     title: text('title').notNull(),
     priority: text('priority').notNull().default('medium'),
@@ -63,11 +86,26 @@ export const issues = sqliteTable(
       .default(false),
     // Session fields (null = no engine session started)
     engineType: text('engine_type'),
+    // engine_profiles.id; null = the built-in profile of engine_type
+    engineProfileId: text('engine_profile_id'),
     sessionStatus: text('session_status'),
     prompt: text('prompt'),
     externalSessionId: text('external_session_id'),
 
     model: text('model'),
+    // Why the last session stopped early (e.g. 'budget:cost'); cleared on the next run
+    stopReason: text('stop_reason'),
+    // Wall-clock seconds of all finished turns; the run time budget counts these
+    runSeconds: real('run_seconds').notNull().default(0),
+    // Result of the project's verification commands after the last turn:
+    // running | passed | failed; cleared on the next run
+    verifyStatus: text('verify_status'),
+    // Set on the child issues a compare run started (one per engine/model)
+    compareRun: integer('compare_run', { mode: 'boolean' })
+      .notNull()
+      .default(false),
+    // Compare run kept by "pick winner"; set on the parent issue
+    compareWinnerId: text('compare_winner_id'),
     devMode: integer('dev_mode', { mode: 'boolean' }).notNull().default(false),
     ...commonFields,
   },
@@ -75,10 +113,6 @@ export const issues = sqliteTable(
     index('issues_project_id_idx').on(table.projectId),
     index('issues_status_id_idx').on(table.statusId),
     index('issues_parent_issue_id_idx').on(table.parentIssueId),
-    check(
-      'issues_status_id_check',
-      sql`${table.statusId} IN ('todo','working','review','done')`,
-    ),
     uniqueIndex('issues_project_id_issue_number_uniq').on(
       table.projectId,
       table.issueNumber,
@@ -86,6 +120,20 @@ export const issues = sqliteTable(
   ],
 )
 
+// User-defined variants of a built-in engine (pinned binary, proxy env, tuned args)
+export const engineProfiles = sqliteTable('engine_profiles', {
+  id: shortId(),
+  name: text('name').notNull(),
+  engineType: text('engine_type').notNull(), // built-in engine the profile derives from
+  baseCommand: text('base_command').notNull(), // command or binary path; protocol flags are added by the executor
+  args: text('args').notNull().default('[]'), // JSON array appended to the command
+  env: text('env').notNull().default('{}'), // JSON object of extra env vars
+  defaultModel: text('default_model'),
+  permissionPolicy: text('permission_policy'), // null = the engine's default
+  capabilities: text('capabilities'), // JSON array; null = all of the engine's
+  ...commonFields,
+})
+
 export const appSettings = sqliteTable('app_settings', {
   key: text('key').primaryKey(),
   value: text('value').notNull(),
@@ -108,10 +156,13 @@ export const issueLogs = sqliteTable(
     timestamp: text('timestamp'),
     toolCallRefId: text('tool_call_ref_id'), // FK to issue_logs_tools_call.id (app-level, no DB FK to avoid circular ref)
     visible: integer('visible').notNull().default(1),
+    // Set (with visible=0) on entries dropped by a rewind; groups one alternate history
+    branchId: text('branch_id'),
     ...commonFields,
   },
   (table) => [
     index('issues_logs_issue_id_idx').on(table.issueId),
+    index('issues_logs_branch_id_idx').on(table.issueId, table.branchId),
     index('issues_logs_issue_id_turn_entry_idx').on(
       table.issueId,
       table.turnIndex,
@@ -171,3 +222,357 @@ export const issuesLogsToolsCall = sqliteTable(
     ),
   ],
 )
+
+export const issueApprovals = sqliteTable(
+  'issues_approvals',
+  {
+    id: id(),
+    issueId: text('issue_id')
+      .notNull()
+      .references(() => issues.id),
+    executionId: text('execution_id'),
+    engineType: text('engine_type'),
+    toolName: text('tool_name').notNull(),
+    toolCallId: text('tool_call_id'),
+    input: text('input'), // JSON-encoded tool input as sent by the engine
+    status: text('status').notNull().default('pending'), // pending | approved | denied | timed_out | cancelled
+    decision: text('decision'), // approve | deny | always-allow (null until resolved)
+    resolvedAt: integer('resolved_at', { mode: 'timestamp' }),
+    ...commonFields,
+  },
+  (table) => [
+    index('issues_approvals_issue_id_idx').on(table.issueId),
+    index('issues_approvals_issue_id_status_idx').on(
+      table.issueId,
+      table.status,
+    ),
+  ],
+)
+
+export const issueDependencies = sqliteTable(
+  'issues_dependencies',
+  {
+    id: id(),
+    // The blocked (downstream) issue
+    issueId: text('issue_id')
+      .notNull()
+      .references(() => issues.id),
+    // The upstream issue that must finish first
+    dependsOnIssueId: text('depends_on_issue_id')
+      .notNull()
+      .references(() => issues.id),
+    ...commonFields,
+  },
+  (table) => [
+    uniqueIndex('issues_dependencies_issue_id_depends_on_uniq').on(
+      table.issueId,
+      table.dependsOnIssueId,
+    ),
+    index('issues_dependencies_depends_on_issue_id_idx').on(
+      table.dependsOnIssueId,
+    ),
+  ],
+)
+
+// One row per completed turn that reported token usage
+export const issueUsage = sqliteTable(
+  'issues_usage',
+  {
+    id: id(),
+    issueId: text('issue_id')
+      .notNull()
+      .references(() => issues.id),
+    projectId: text('project_id')
+      .notNull()
+      .references(() => projects.id),
+    executionId: text('execution_id').notNull(),
+    turnIndex: integer('turn_index').notNull().default(0),
+    engineType: text('engine_type'),
+    model: text('model'),
+    inputTokens: integer('input_tokens').notNull().default(0),
+    outputTokens: integer('output_tokens').notNull().default(0),
+    cacheReadTokens: integer('cache_read_tokens').notNull().default(0),
+    cacheWriteTokens: integer('cache_write_tokens').notNull().default(0),
+    costUsd: real('cost_usd').notNull().default(0),
+    ...commonFields,
+  },
+  (table) => [
+    index('issues_usage_issue_id_idx').on(table.issueId),
+    index('issues_usage_project_id_created_at_idx').on(
+      table.projectId,
+      table.createdAt,
+    ),
+  ],
+)
+
+// Spending limits. A row with a null issue_id is the project-wide budget.
+export const budgets = sqliteTable(
+  'budgets',
+  {
+    id: id(),
+    projectId: text('project_id')
+      .notNull()
+      .references(() => projects.id),
+    issueId: text('issue_id').references(() => issues.id),
+    maxCostUsd: real('max_cost_usd'),
+    maxTokens: integer('max_tokens'),
+    maxTurns: integer('max_turns'),
+    // Wall-clock limit for a single run
+    maxDurationSeconds: integer('max_duration_seconds'),
+    ...commonFields,
+  },
+  (table) => [
+    index('budgets_project_id_issue_id_idx').on(table.projectId, table.issueId),
+  ],
+)
+
+// Recurring (cron) or one-shot (run_at) agent runs. With issue_id set each
+// tick re-runs that issue, otherwise a new issue is created from the template.
+export const schedules = sqliteTable(
+  'schedules',
+  {
+    id: shortId(),
+    projectId: text('project_id')
+      .notNull()
+      .references(() => projects.id),
+    name: text('name').notNull(),
+    cron: text('cron'), // 5-field expression in server local time
+    runAt: integer('run_at', { mode: 'timestamp' }),
+    issueId: text('issue_id').references(() => issues.id),
+    prompt: text('prompt').notNull(),
+    engineType: text('engine_type'),
+    model: text('model'),
+    enabled: integer('enabled', { mode: 'boolean' }).notNull().default(true),
+    nextRunAt: integer('next_run_at', { mode: 'timestamp' }), // null once a one-shot has fired
+    lastRunAt: integer('last_run_at', { mode: 'timestamp' }),
+    ...commonFields,
+  },
+  (table) => [
+    index('schedules_project_id_idx').on(table.projectId),
+    index('schedules_next_run_at_idx').on(table.nextRunAt),
+  ],
+)
+
+// One row per schedule tick, linking the schedule to the issue it ran
+export const scheduleRuns = sqliteTable(
+  'schedules_runs',
+  {
+    id: id(),
+    scheduleId: text('schedule_id')
+      .notNull()
+      .references(() => schedules.id),
+    issueId: text('issue_id').references(() => issues.id),
+    status: text('status').notNull(), // started | skipped | failed
+    error: text('error'),
+    ...commonFields,
+  },
+  (table) => [index('schedules_runs_schedule_id_idx').on(table.scheduleId)],
+)
+
+// Executions waiting for a free slot under MAX_CONCURRENT_EXECUTIONS; a row
+// is removed once its issue starts or leaves the execution column
+export const executionQueue = sqliteTable(
+  'execution_queue',
+  {
+    id: id(),
+    issueId: text('issue_id')
+      .notNull()
+      .unique()
+      .references(() => issues.id),
+    projectId: text('project_id')
+      .notNull()
+      .references(() => projects.id),
+    engineType: text('engine_type').notNull(),
+    prompt: text('prompt').notNull(),
+    model: text('model'),
+    permissionMode: text('permission_mode'),
+    workingDir: text('working_dir'),
+    // JSON { sessionId, resetToMessageId } when the entry starts a fork
+    forkOptions: text('fork_options'),
+    sortOrder: real('sort_order').notNull(),
+    ...commonFields,
+  },
+  (table) => [index('execution_queue_sort_order_idx').on(table.sortOrder)],
+)
+
+// Outbound HTTP endpoints notified of issue lifecycle events
+export const webhooks = sqliteTable(
+  'webhooks',
+  {
+    id: shortId(),
+    projectId: text('project_id')
+      .notNull()
+      .references(() => projects.id),
+    url: text('url').notNull(),
+    secret: text('secret').notNull(), // HMAC-SHA256 key for X-BitK-Signature
+    events: text('events').notNull().default('[]'), // JSON array; empty = all events
+    enabled: integer('enabled', { mode: 'boolean' }).notNull().default(true),
+    ...commonFields,
+  },
+  (table) => [index('webhooks_project_id_idx').on(table.projectId)],
+)
+
+// One row per event sent to a webhook; pending rows are retried with backoff
+export const webhookDeliveries = sqliteTable(
+  'webhooks_deliveries',
+  {
+    id: id(),
+    webhookId: text('webhook_id')
+      .notNull()
+      .references(() => webhooks.id),
+    event: text('event').notNull(),
+    payload: text('payload').notNull(), // JSON request body
+    status: text('status').notNull().default('pending'), // pending | delivered | failed
+    attempts: integer('attempts').notNull().default(0),
+    nextAttemptAt: integer('next_attempt_at', { mode: 'timestamp' }), // null once delivered or given up
+    responseStatus: integer('response_status'),
+    error: text('error'),
+    deliveredAt: integer('delivered_at', { mode: 'timestamp' }),
+    ...commonFields,
+  },
+  (table) => [
+    index('webhooks_deliveries_webhook_id_idx').on(table.webhookId),
+    index('webhooks_deliveries_next_attempt_at_idx').on(table.nextAttemptAt),
+  ],
+)
+
+// Signed inbound endpoints that create and run an issue from a JSON payload
+export const triggers = sqliteTable(
+  'triggers',
+  {
+    id: shortId(),
+    projectId: text('project_id')
+      .notNull()
+      .references(() => projects.id),
+    name: text('name').notNull(),
+    secret: text('secret').notNull(), // HMAC-SHA256 key for X-BitK-Signature
+    titleTemplate: text('title_template').notNull(),
+    promptTemplate: text('prompt_template').notNull(),
+    engineType: text('engine_type'),
+    model: text('model'),
+    permissionMode: text('permission_mode'),
+    useWorktree: integer('use_worktree', { mode: 'boolean' })
+      .notNull()
+      .default(false),
+    maxPerHour: integer('max_per_hour').notNull().default(10),
+    enabled: integer('enabled', { mode: 'boolean' }).notNull().default(true),
+    ...commonFields,
+  },
+  (table) => [index('triggers_project_id_idx').on(table.projectId)],
+)
+
+// One row per accepted trigger call; the signature doubles as a replay nonce
+export const triggerFires = sqliteTable(
+  'triggers_fires',
+  {
+    id: id(),
+    triggerId: text('trigger_id')
+      .notNull()
+      .references(() => triggers.id),
+    issueId: text('issue_id').references(() => issues.id),
+    signature: text('signature').notNull(),
+    ...commonFields,
+  },
+  (table) => [
+    uniqueIndex('triggers_fires_trigger_signature_idx').on(
+      table.triggerId,
+      table.signature,
+    ),
+    index('triggers_fires_created_at_idx').on(table.createdAt),
+  ],
+)
+
+// Env vars injected into a project's agent and terminal processes. Secret
+// values are AES-256-GCM ciphertext under the server master key.
+export const projectEnvVars = sqliteTable(
+  'projects_env_vars',
+  {
+    id: shortId(),
+    projectId: text('project_id')
+      .notNull()
+      .references(() => projects.id),
+    key: text('key').notNull(),
+    value: text('value').notNull(),
+    isSecret: integer('is_secret', { mode: 'boolean' })
+      .notNull()
+      .default(false),
+    ...commonFields,
+  },
+  (table) => [index('projects_env_vars_project_id_idx').on(table.projectId)],
+)
+
+// MCP servers handed to a project's agents at spawn time
+export const projectMcpServers = sqliteTable(
+  'projects_mcp_servers',
+  {
+    id: shortId(),
+    projectId: text('project_id')
+      .notNull()
+      .references(() => projects.id),
+    name: text('name').notNull(),
+    command: text('command').notNull(),
+    args: text('args').notNull().default('[]'), // JSON string array
+    env: text('env').notNull().default('{}'), // JSON object
+    enabled: integer('enabled', { mode: 'boolean' }).notNull().default(true),
+    ...commonFields,
+  },
+  (table) => [index('projects_mcp_servers_project_id_idx').on(table.projectId)],
+)
+
+// Rules on agent tool calls, enforced at the engines' approval requests
+export const projectGuardrails = sqliteTable(
+  'projects_guardrails',
+  {
+    id: shortId(),
+    projectId: text('project_id')
+      .notNull()
+      .references(() => projects.id),
+    kind: text('kind').notNull(), // command | path | tool
+    pattern: text('pattern').notNull(),
+    action: text('action').notNull().default('deny'), // deny | allow
+    enabled: integer('enabled', { mode: 'boolean' }).notNull().default(true),
+    ...commonFields,
+  },
+  (table) => [index('projects_guardrails_project_id_idx').on(table.projectId)],
+)
+
+// Checks (lint, typecheck, tests) run in the issue's directory after each turn
+export const projectVerifyCommands = sqliteTable(
+  'projects_verify_commands',
+  {
+    id: shortId(),
+    projectId: text('project_id')
+      .notNull()
+      .references(() => projects.id),
+    name: text('name').notNull(),
+    command: text('command').notNull(),
+    enabled: integer('enabled', { mode: 'boolean' }).notNull().default(true),
+    ...commonFields,
+  },
+  (table) => [
+    index('projects_verify_commands_project_id_idx').on(table.projectId),
+  ],
+)
+
+export const users = sqliteTable('users', {
+  id: id(),
+  username: text('username').notNull().unique(),
+  passwordHash: text('password_hash').notNull(),
+  role: text('role').notNull().default('member'), // admin | member
+  ...commonFields,
+})
+
+export const userSessions = sqliteTable(
+  'users_sessions',
+  {
+    id: id(),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id),
+    tokenHash: text('token_hash').notNull().unique(), // sha256 of the bearer token
+    expiresAt: integer('expires_at', { mode: 'timestamp' }).notNull(),
+    lastUsedAt: integer('last_used_at', { mode: 'timestamp' }),
+    ...commonFields,
+  },
+  (table) => [index('users_sessions_user_id_idx').on(table.userId)],
+)
@@ -0,0 +1,158 @@
+import type { SQL } from 'drizzle-orm'
+import { sql } from 'drizzle-orm'
+import { toISO } from '@/utils/date'
+import { db } from '.'
+
+// Matched terms are wrapped in these by snippet(), then split into segments
+const MARK_START = '\u0001'
+const MARK_END = '\u0002'
+
+/** Pseudo entry type selecting issue title / prompt matches. */
+export const ISSUE_RESULT_TYPE = 'issue'
+
+export interface SnippetSegment {
+  text: string
+  highlight: boolean
+}
+
+export interface SearchResult {
+  kind: 'issue' | 'log'
+  projectId: string
+  projectAlias: string
+  issueId: string
+  issueNumber: number
+  issueTitle: string
+  /** Log entry id; null for issue matches */
+  messageId: string | null
+  entryType: string | null
+  turnIndex: number | null
+  snippet: SnippetSegment[]
+  createdAt: string
+}
+
+export interface SearchOptions {
+  projectId?: string
+  /** Log entry types to include, plus `issue` for title/prompt matches */
+  types?: string[]
+  limit?: number
+}
+
+/**
+ * Turn free text into an FTS5 query: every word must match, the last one
+ * as a prefix so results appear while typing. Returns null when the text
+ * has no searchable words.
+ */
+export function toMatchQuery(text: string): string | null {
+  const words = text.match(/[\p{L}\p{N}_]+/gu)
+  if (!words) return null
+  return words
+    .map((w, i) => (i === words.length - 1 ? `"${w}"*` : `"${w}"`))
+    .join(' ')
+}
+
+function toSegments(snippet: string): SnippetSegment[] {
+  const segments: SnippetSegment[] = []
+  for (const part of snippet.split(MARK_START)) {
+    const end = part.indexOf(MARK_END)
+    if (end === -1) {
+      if (part) segments.push({ text: part, highlight: false })
+      continue
+    }
+    segments.push({ text: part.slice(0, end), highlight: true })
+    const rest = part.slice(end + 1)
+    if (rest) segments.push({ text: rest, highlight: false })
+  }
+  return segments
+}
+
+interface Row {
+  projectId: string
+  projectAlias: string
+  issueId: string
+  issueNumber: number
+  issueTitle: string
+  messageId: string | null
+  entryType: string | null
+  turnIndex: number | null
+  snippet: string
+  rank: number
+  createdAt: number
+}
+
+/**
+ * Best matches across issue titles/prompts and log entries, most relevant
+ * first. Soft-deleted issues and hidden log entries are never returned.
+ */
+export async function searchIndex(
+  text: string,
+  options: SearchOptions = {},
+): Promise<SearchResult[]> {
+  const match = toMatchQuery(text)
+  if (!match) return []
+  const limit = options.limit ?? 20
+  const types = options.types?.length ? options.types : null
+  const projectFilter: SQL = options.projectId
+    ? sql`AND i.project_id = ${options.projectId}`
+    : sql``
+
+  const rows: Row[] = []
+  if (!types || types.includes(ISSUE_RESULT_TYPE)) {
+    rows.push(
+      ...db.all<Row>(sql`
+        SELECT i.project_id AS projectId, p.alias AS projectAlias,
+          i.id AS issueId, i.issue_number AS issueNumber, i.title AS issueTitle,
+          NULL AS messageId, NULL AS entryType, NULL AS turnIndex,
+          snippet(issues_fts, -1, ${MARK_START}, ${MARK_END}, '…', 16) AS snippet,
+          bm25(issues_fts) AS rank, i.created_at AS createdAt
+        FROM issues_fts
+        JOIN issues i ON i.rowid = issues_fts.rowid
+        JOIN projects p ON p.id = i.project_id
+        WHERE issues_fts MATCH ${match}
+          AND i.is_deleted = 0 AND p.is_deleted = 0 ${projectFilter}
+        ORDER BY rank
+        LIMIT ${limit}
+      `),
+    )
+  }
+
+  const logTypes = types?.filter((t) => t !== ISSUE_RESULT_TYPE)
+  if (!types || logTypes!.length > 0) {
+    const typeFilter: SQL = logTypes?.length
+      ? sql`AND l.entry_type IN (${sql.join(
+          logTypes.map((t) => sql`${t}`),
+          sql`, `,
+        )})`
+      : sql``
+    rows.push(
+      ...db.all<Row>(sql`
+        SELECT i.project_id AS projectId, p.alias AS projectAlias,
+          i.id AS issueId, i.issue_number AS issueNumber, i.title AS issueTitle,
+          l.id AS messageId, l.entry_type AS entryType, l.turn_index AS turnIndex,
+          snippet(issues_logs_fts, 0, ${MARK_START}, ${MARK_END}, '…', 16) AS snippet,
+          bm25(issues_logs_fts) AS rank, l.created_at AS createdAt
+        FROM issues_logs_fts
+        JOIN issues_logs l ON l.rowid = issues_logs_fts.rowid
+        JOIN issues i ON i.id = l.issue_id
+        JOIN projects p ON p.id = i.project_id
+        WHERE issues_logs_fts MATCH ${match}
+          AND l.visible = 1 AND l.is_deleted = 0
+          AND i.is_deleted = 0 AND p.is_deleted = 0
+          ${projectFilter} ${typeFilter}
+        ORDER BY rank
+        LIMIT ${limit}
+      `),
+    )
+  }
+
+  // bm25() is lower for better matches
+  return rows
+    .sort((a, b) => a.rank - b.rank)
+    .slice(0, limit)
+    .map(({ rank: _rank, snippet, createdAt, messageId, ...row }) => ({
+      ...row,
+      kind: messageId ? 'log' : 'issue',
+      messageId,
+      snippet: toSegments(snippet),
+      createdAt: toISO(createdAt),
+    }))
+}
@@ -0,0 +1,130 @@
+import { and, count, desc, eq, gte } from 'drizzle-orm'
+import { toISO } from '@/utils/date'
+import { db } from '.'
+import { issues as issuesTable, triggerFires, triggers } from './schema'
+
+export type TriggerRow = typeof triggers.$inferSelect
+
+export async function listTriggers(projectId: string): Promise<TriggerRow[]> {
+  return db
+    .select()
+    .from(triggers)
+    .where(and(eq(triggers.projectId, projectId), eq(triggers.isDeleted, 0)))
+    .orderBy(triggers.createdAt)
+}
+
+export async function getTrigger(
+  projectId: string,
+  triggerId: string,
+): Promise<TriggerRow | null> {
+  const [row] = await db
+    .select()
+    .from(triggers)
+    .where(
+      and(
+        eq(triggers.id, triggerId),
+        eq(triggers.projectId, projectId),
+        eq(triggers.isDeleted, 0),
+      ),
+    )
+  return row ?? null
+}
+
+export type FireAdmission =
+  | { ok: true; fireId: string }
+  | { ok: false; reason: 'rate_limited' | 'replayed' }
+
+/** Whether `error` (or the driver error drizzle wrapped) is a unique-index violation. */
+function isUniqueViolation(error: unknown): boolean {
+  for (let e = error; e instanceof Error; e = e.cause) {
+    if ((e as { code?: unknown }).code === 'SQLITE_CONSTRAINT_UNIQUE') {
+      return true
+    }
+  }
+  return false
+}
+
+/**
+ * Record a call to the trigger unless it exceeds `maxPerHour` or repeats a
+ * signature already seen. Both checks and the insert run in one
+ * synchronous transaction so concurrent calls cannot interleave and slip
+ * past the limit; a replay that still loses the race on the signature
+ * index is reported as replayed.
+ */
+export function admitTriggerFire(
+  trigger: Pick<TriggerRow, 'id' | 'maxPerHour'>,
+  signature: string,
+  now = new Date(),
+): FireAdmission {
+  const since = new Date(now.getTime() - 60 * 60 * 1000)
+  try {
+    return db.transaction((tx) => {
+      const seen = tx
+        .select({ id: triggerFires.id })
+        .from(triggerFires)
+        .where(
+          and(
+            eq(triggerFires.triggerId, trigger.id),
+            eq(triggerFires.signature, signature),
+          ),
+        )
+        .get()
+      if (seen) return { ok: false, reason: 'replayed' } as const
+
+      const recent = tx
+        .select({ n: count() })
+        .from(triggerFires)
+        .where(
+          and(
+            eq(triggerFires.triggerId, trigger.id),
+            gte(triggerFires.createdAt, since),
+          ),
+        )
+        .get()
+      if ((recent?.n ?? 0) >= trigger.maxPerHour) {
+        return { ok: false, reason: 'rate_limited' } as const
+      }
+
+      const row = tx
+        .insert(triggerFires)
+        .values({ triggerId: trigger.id, signature, createdAt: now })
+        .returning({ id: triggerFires.id })
+        .get()
+      return { ok: true, fireId: row.id } as const
+    })
+  } catch (error) {
+    if (isUniqueViolation(error)) return { ok: false, reason: 'replayed' }
+    throw error
+  }
+}
+
+export async function setFireIssue(
+  fireId: string,
+  issueId: string,
+): Promise<void> {
+  await db
+    .update(triggerFires)
+    .set({ issueId })
+    .where(eq(triggerFires.id, fireId))
+}
+
+/** Accepted calls of a trigger, newest first, with the issue each one created. */
+export async function listTriggerFires(triggerId: string, limit = 50) {
+  const rows = await db
+    .select({
+      id: triggerFires.id,
+      triggerId: triggerFires.triggerId,
+      issueId: triggerFires.issueId,
+      issueNumber: issuesTable.issueNumber,
+      issueTitle: issuesTable.title,
+      createdAt: triggerFires.createdAt,
+    })
+    .from(triggerFires)
+    .leftJoin(issuesTable, eq(issuesTable.id, triggerFires.issueId))
+    .where(
+      and(eq(triggerFires.triggerId, triggerId), eq(triggerFires.isDeleted, 0)),
+    )
+    .orderBy(desc(triggerFires.createdAt), desc(triggerFires.id))
+    .limit(limit)
+  return rows.map((r) => ({ ...r, createdAt: toISO(r.createdAt) }))
+}
@@ -0,0 +1,141 @@
+import type { SQL } from 'drizzle-orm'
+import { and, desc, eq, gte, sql } from 'drizzle-orm'
+import { db } from '.'
+import { issues as issuesTable, issueUsage } from './schema'
+
+export interface UsageTotals {
+  turns: number
+  inputTokens: number
+  outputTokens: number
+  cacheReadTokens: number
+  cacheWriteTokens: number
+  costUsd: number
+}
+
+export interface DailyUsage extends UsageTotals {
+  /** UTC calendar day, YYYY-MM-DD */
+  date: string
+}
+
+export interface ModelUsage extends UsageTotals {
+  engineType: string | null
+  model: string | null
+}
+
+export interface IssueUsageRow extends UsageTotals {
+  issueId: string
+  issueNumber: number
+  title: string
+}
+
+export interface UsageSummary {
+  totals: UsageTotals
+  daily: DailyUsage[]
+  byModel: ModelUsage[]
+}
+
+export interface ProjectUsageSummary extends UsageSummary {
+  byIssue: IssueUsageRow[]
+}
+
+const totalsColumns = {
+  turns: sql<number>`count(*)`,
+  inputTokens: sql<number>`coalesce(sum(${issueUsage.inputTokens}), 0)`,
+  outputTokens: sql<number>`coalesce(sum(${issueUsage.outputTokens}), 0)`,
+  cacheReadTokens: sql<number>`coalesce(sum(${issueUsage.cacheReadTokens}), 0)`,
+  cacheWriteTokens: sql<number>`coalesce(sum(${issueUsage.cacheWriteTokens}), 0)`,
+  costUsd: sql<number>`coalesce(sum(${issueUsage.costUsd}), 0)`,
+}
+
+// created_at is stored as unix seconds
+const day = sql<string>`date(${issueUsage.createdAt}, 'unixepoch')`
+
+async function summarize(where: SQL | undefined): Promise<UsageSummary> {
+  const [totals] = await db.select(totalsColumns).from(issueUsage).where(where)
+  const daily = await db
+    .select({ date: day, ...totalsColumns })
+    .from(issueUsage)
+    .where(where)
+    .groupBy(day)
+    .orderBy(day)
+  const byModel = await db
+    .select({
+      engineType: issueUsage.engineType,
+      model: issueUsage.model,
+      ...totalsColumns,
+    })
+    .from(issueUsage)
+    .where(where)
+    .groupBy(issueUsage.engineType, issueUsage.model)
+    .orderBy(desc(totalsColumns.costUsd))
+  return { totals: totals!, daily, byModel }
+}
+
+function sinceFilter(days: number | undefined): SQL | undefined {
+  if (!days) return undefined
+  const start = new Date()
+  start.setUTCHours(0, 0, 0, 0)
+  start.setUTCDate(start.getUTCDate() - (days - 1))
+  return gte(issueUsage.createdAt, start)
+}
+
+/** All-time totals of an issue or a whole project (synchronous, see getBudget). */
+export function getUsageTotals(
+  scope: { issueId: string } | { projectId: string },
+): UsageTotals {
+  return db
+    .select(totalsColumns)
+    .from(issueUsage)
+    .where(
+      and(
+        'issueId' in scope
+          ? eq(issueUsage.issueId, scope.issueId)
+          : eq(issueUsage.projectId, scope.projectId),
+        eq(issueUsage.isDeleted, 0),
+      ),
+    )
+    .get()!
+}
+
+/** Usage of a single issue, optionally limited to the last `days` days. */
+export async function getIssueUsage(
+  issueId: string,
+  days?: number,
+): Promise<UsageSummary> {
+  return summarize(
+    and(
+      eq(issueUsage.issueId, issueId),
+      eq(issueUsage.isDeleted, 0),
+      sinceFilter(days),
+    ),
+  )
+}
+
+/**
+ * Usage of a whole project with a per-issue breakdown. Rows of deleted
+ * issues still count towards the totals — the tokens were spent.
+ */
+export async function getProjectUsage(
+  projectId: string,
+  days?: number,
+): Promise<ProjectUsageSummary> {
+  const where = and(
+    eq(issueUsage.projectId, projectId),
+    eq(issueUsage.isDeleted, 0),
+    sinceFilter(days),
+  )
+  const summary = await summarize(where)
+  const byIssue = await db
+    .select({
+      issueId: issueUsage.issueId,
+      issueNumber: issuesTable.issueNumber,
+      title: issuesTable.title,
+      ...totalsColumns,
+    })
+    .from(issueUsage)
+    .innerJoin(issuesTable, eq(issuesTable.id, issueUsage.issueId))
+    .where(where)
+    .groupBy(issueUsage.issueId)
+    .orderBy(desc(totalsColumns.costUsd))
+  return { ...summary, byIssue }
+}
@@ -0,0 +1,40 @@
+import { and, asc, eq } from 'drizzle-orm'
+import { db } from '.'
+import { projectVerifyCommands } from './schema'
+
+export type VerifyCommandRow = typeof projectVerifyCommands.$inferSelect
+
+export async function listVerifyCommands(
+  projectId: string,
+): Promise<VerifyCommandRow[]> {
+  return db
+    .select()
+    .from(projectVerifyCommands)
+    .where(
+      and(
+        eq(projectVerifyCommands.projectId, projectId),
+        eq(projectVerifyCommands.isDeleted, 0),
+      ),
+    )
+    .orderBy(
+      asc(projectVerifyCommands.createdAt),
+      asc(projectVerifyCommands.id),
+    )
+}
+
+export async function getVerifyCommand(
+  projectId: string,
+  commandId: string,
+): Promise<VerifyCommandRow | null> {
+  const [row] = await db
+    .select()
+    .from(projectVerifyCommands)
+    .where(
+      and(
+        eq(projectVerifyCommands.id, commandId),
+        eq(projectVerifyCommands.projectId, projectId),
+        eq(projectVerifyCommands.isDeleted, 0),
+      ),
+    )
+  return row ?? null
+}
@@ -0,0 +1,203 @@
+import { and, desc, eq, lte } from 'drizzle-orm'
+import { toISO } from '@/utils/date'
+import { db } from '.'
+import { webhookDeliveries, webhooks } from './schema'
+
+export const WEBHOOK_EVENTS = [
+  'issue.created',
+  'issue.status_changed',
+  'session.settled',
+  'changes.summary',
+] as const
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number]
+export type WebhookRow = typeof webhooks.$inferSelect
+export type WebhookDeliveryRow = typeof webhookDeliveries.$inferSelect
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed'
+
+export function parseWebhookEvents(row: Pick<WebhookRow, 'events'>) {
+  try {
+    const events = JSON.parse(row.events) as WebhookEvent[]
+    return Array.isArray(events) ? events : []
+  } catch {
+    return []
+  }
+}
+
+export async function listWebhooks(projectId: string): Promise<WebhookRow[]> {
+  return db
+    .select()
+    .from(webhooks)
+    .where(and(eq(webhooks.projectId, projectId), eq(webhooks.isDeleted, 0)))
+    .orderBy(webhooks.createdAt)
+}
+
+export async function getWebhook(
+  projectId: string,
+  webhookId: string,
+): Promise<WebhookRow | null> {
+  const [row] = await db
+    .select()
+    .from(webhooks)
+    .where(
+      and(
+        eq(webhooks.id, webhookId),
+        eq(webhooks.projectId, projectId),
+        eq(webhooks.isDeleted, 0),
+      ),
+    )
+  return row ?? null
+}
+
+/**
+ * Queue one delivery of `payload` for every enabled webhook of the project
+ * subscribed to `event`. Returns the number of deliveries queued.
+ */
+export async function enqueueDeliveries(
+  projectId: string,
+  event: WebhookEvent,
+  payload: unknown,
+): Promise<number> {
+  const targets = (await listWebhooks(projectId)).filter((hook) => {
+    if (!hook.enabled) return false
+    const events = parseWebhookEvents(hook)
+    return events.length === 0 || events.includes(event)
+  })
+  if (targets.length === 0) return 0
+
+  const body = JSON.stringify(payload)
+  const now = new Date()
+  await db.insert(webhookDeliveries).values(
+    targets.map((hook) => ({
+      webhookId: hook.id,
+      event,
+      payload: body,
+      nextAttemptAt: now,
+    })),
+  )
+  return targets.length
+}
+
+/**
+ * Pending deliveries whose next attempt is due, oldest first, with their
+ * endpoint. Deliveries of a disabled webhook wait until it is re-enabled.
+ */
+export async function getDueDeliveries(now: Date, limit = 20) {
+  return db
+    .select({
+      delivery: webhookDeliveries,
+      url: webhooks.url,
+      secret: webhooks.secret,
+    })
+    .from(webhookDeliveries)
+    .innerJoin(webhooks, eq(webhooks.id, webhookDeliveries.webhookId))
+    .where(
+      and(
+        eq(webhookDeliveries.status, 'pending'),
+        lte(webhookDeliveries.nextAttemptAt, now),
+        eq(webhooks.enabled, true),
+        eq(webhooks.isDeleted, 0),
+      ),
+    )
+    .orderBy(webhookDeliveries.nextAttemptAt, webhookDeliveries.id)
+    .limit(limit)
+}
+
+export async function recordDeliveryAttempt(
+  deliveryId: string,
+  attempt: {
+    status: WebhookDeliveryStatus
+    attempts: number
+    responseStatus: number | null
+    error: string | null
+    nextAttemptAt: Date | null
+  },
+): Promise<void> {
+  await db
+    .update(webhookDeliveries)
+    .set({
+      ...attempt,
+      deliveredAt: attempt.status === 'delivered' ? new Date() : null,
+    })
+    .where(eq(webhookDeliveries.id, deliveryId))
+}
+
+/** Give up on a webhook's pending deliveries, e.g. when it is deleted. */
+export async function abandonPendingDeliveries(
+  webhookId: string,
+  reason: string,
+): Promise<void> {
+  await db
+    .update(webhookDeliveries)
+    .set({ status: 'failed', nextAttemptAt: null, error: reason })
+    .where(
+      and(
+        eq(webhookDeliveries.webhookId, webhookId),
+        eq(webhookDeliveries.status, 'pending'),
+      ),
+    )
+}
+
+export async function getDelivery(
+  webhookId: string,
+  deliveryId: string,
+): Promise<WebhookDeliveryRow | null> {
+  const [row] = await db
+    .select()
+    .from(webhookDeliveries)
+    .where(
+      and(
+        eq(webhookDeliveries.id, deliveryId),
+        eq(webhookDeliveries.webhookId, webhookId),
+        eq(webhookDeliveries.isDeleted, 0),
+      ),
+    )
+  return row ?? null
+}
+
+/** Queue a fresh delivery with the same event and payload as `source`. */
+export async function requeueDelivery(
+  source: WebhookDeliveryRow,
+): Promise<WebhookDeliveryRow> {
+  const [row] = await db
+    .insert(webhookDeliveries)
+    .values({
+      webhookId: source.webhookId,
+      event: source.event,
+      payload: source.payload,
+      nextAttemptAt: new Date(),
+    })
+    .returning()
+  return row!
+}
+
+export function serializeDelivery(row: WebhookDeliveryRow) {
+  return {
+    id: row.id,
+    webhookId: row.webhookId,
+    event: row.event as WebhookEvent,
+    status: row.status as WebhookDeliveryStatus,
+    attempts: row.attempts,
+    responseStatus: row.responseStatus ?? null,
+    error: row.error ?? null,
+    nextAttemptAt: row.nextAttemptAt ? toISO(row.nextAttemptAt) : null,
+    deliveredAt: row.deliveredAt ? toISO(row.deliveredAt) : null,
+    createdAt: toISO(row.createdAt),
+  }
+}
+
+/** Delivery log of a webhook, newest first. */
+export async function listDeliveries(webhookId: string, limit = 50) {
+  const rows = await db
+    .select()
+    .from(webhookDeliveries)
+    .where(
+      and(
+        eq(webhookDeliveries.webhookId, webhookId),
+        eq(webhookDeliveries.isDeleted, 0),
+      ),
+    )
+    .orderBy(desc(webhookDeliveries.createdAt), desc(webhookDeliveries.id))
+    .limit(limit)
+  return rows.map(serializeDelivery)
+}
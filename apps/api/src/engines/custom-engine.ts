@@ -0,0 +1,45 @@
+import { getAppSetting, setAppSetting } from '@/db/helpers'
+import { engineRegistry } from '@/engines/executors'
+import type { CustomEngineConfig } from '@/engines/executors/custom'
+import { CustomExecutor } from '@/engines/executors/custom'
+import { refreshEngineDiscovery } from '@/engines/startup-probe'
+import { logger } from '@/logger'
+
+// ---------- Custom engine ----------
+//
+// The custom engine's command, flags and models live in app settings. The
+// executor is rebuilt and re-registered whenever they change, so agents
+// plug in without a restart.
+
+const CUSTOM_ENGINE_KEY = 'engine:custom'
+
+export async function getCustomEngineConfig(): Promise<CustomEngineConfig | null> {
+  const raw = await getAppSetting(CUSTOM_ENGINE_KEY)
+  if (!raw) return null
+  try {
+    return JSON.parse(raw) as CustomEngineConfig
+  } catch {
+    logger.warn('custom_engine_config_invalid')
+    return null
+  }
+}
+
+function registerCustomEngine(config: CustomEngineConfig | null): void {
+  engineRegistry.register(new CustomExecutor(config))
+}
+
+/** Save the config and swap the registered executor for one using it. */
+export async function configureCustomEngine(
+  config: CustomEngineConfig,
+): Promise<void> {
+  await setAppSetting(CUSTOM_ENGINE_KEY, JSON.stringify(config))
+  registerCustomEngine(config)
+  await refreshEngineDiscovery('custom')
+  logger.info({ command: config.command }, 'custom_engine_configured')
+}
+
+/** Register the saved config at startup. */
+export async function loadCustomEngine(): Promise<void> {
+  const config = await getCustomEngineConfig()
+  if (config) registerCustomEngine(config)
+}
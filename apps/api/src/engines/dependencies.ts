@@ -0,0 +1,88 @@
+import { eq } from 'drizzle-orm'
+import { cacheDel } from '@/cache'
+import { db } from '@/db'
+import { findProject } from '@/db/helpers'
+import {
+  getBlockers,
+  getDependents,
+  isDependencyResolved,
+} from '@/db/issue-dependencies'
+import { getProjectWorkflow } from '@/db/project-statuses'
+import { issues as issuesTable } from '@/db/schema'
+import { emitIssueUpdated } from '@/events/issue-events'
+import { logger } from '@/logger'
+import {
+  flushPendingAsFollowUp,
+  triggerIssueExecution,
+} from '@/routes/issues/_shared'
+import { issueEngine } from './issue'
+
+/**
+ * Move the backlog dependents of `issueId` whose blockers have all resolved
+ * into the execution column, starting them exactly as a manual drag would.
+ * Returns the ids of promoted issues.
+ */
+export async function promoteReadyDependents(
+  issueId: string,
+): Promise<string[]> {
+  const dependents = await getDependents(issueId)
+  const promoted: string[] = []
+
+  for (const dependent of dependents) {
+    const workflow = await getProjectWorkflow(dependent.projectId)
+    if (workflow.roleOf(dependent.statusId) !== 'backlog') continue
+
+    const blockers = await getBlockers(dependent.id)
+    if (!blockers.every((b) => isDependencyResolved(b, workflow))) continue
+
+    const shouldExecute =
+      !dependent.sessionStatus || dependent.sessionStatus === 'pending'
+    const statusId = workflow.execution.id
+    await db
+      .update(issuesTable)
+      .set(
+        shouldExecute ? { statusId, sessionStatus: 'pending' } : { statusId },
+      )
+      .where(eq(issuesTable.id, dependent.id))
+    await cacheDel(`issue:${dependent.projectId}:${dependent.id}`)
+
+    if (shouldExecute) {
+      emitIssueUpdated(dependent.id, { statusId, sessionStatus: 'pending' })
+      const project = await findProject(dependent.projectId)
+      triggerIssueExecution(
+        dependent.id,
+        {
+          engineType: dependent.engineType,
+          prompt: dependent.prompt,
+          model: dependent.model,
+        },
+        project?.directory || undefined,
+      )
+    } else {
+      emitIssueUpdated(dependent.id, { statusId })
+      flushPendingAsFollowUp(dependent.id, { model: dependent.model })
+    }
+
+    promoted.push(dependent.id)
+    logger.info(
+      { issueId: dependent.id, upstreamIssueId: issueId },
+      'dependency_promoted',
+    )
+  }
+
+  return promoted
+}
+
+/**
+ * Register a callback on the IssueEngine's issueSettled event so that a
+ * successful run unblocks its downstream issues. Failed or cancelled runs
+ * leave dependents waiting.
+ */
+export function registerDependencyPromotion(): void {
+  issueEngine.onIssueSettled((issueId, _executionId, state) => {
+    if (state !== 'completed') return
+    void promoteReadyDependents(issueId).catch((err) => {
+      logger.error({ issueId, err }, 'dependency_promotion_failed')
+    })
+  })
+}
@@ -1,6 +1,7 @@
 import { and, eq } from 'drizzle-orm'
 import { cacheDel } from '@/cache'
 import { db } from '@/db'
+import { getProjectWorkflow } from '@/db/project-statuses'
 import { issues as issuesTable } from '@/db/schema'
 import { emitIssueUpdated } from '@/events/issue-events'
 import { logger } from '@/logger'
@@ -44,16 +45,29 @@ export async function updateIssueSession(
   issueId: string,
   changes: Partial<{
     engineType: string
+    engineProfileId: string | null
     sessionStatus: string
     prompt: string
     externalSessionId: string | null
     model: string
+    stopReason: string | null
+    verifyStatus: string | null
   }>,
 ): Promise<IssueRow | undefined> {
   const updates: Record<string, unknown> = {}
   if (changes.engineType !== undefined) updates.engineType = changes.engineType
+  if (changes.engineProfileId !== undefined)
+    updates.engineProfileId = changes.engineProfileId
   if (changes.sessionStatus !== undefined)
     updates.sessionStatus = changes.sessionStatus
+  // A new run starts with a clean slate
+  if (changes.sessionStatus === 'running') {
+    updates.stopReason = null
+    updates.verifyStatus = null
+  }
+  if (changes.stopReason !== undefined) updates.stopReason = changes.stopReason
+  if (changes.verifyStatus !== undefined)
+    updates.verifyStatus = changes.verifyStatus
   if (changes.prompt !== undefined) updates.prompt = changes.prompt
   if (changes.externalSessionId !== undefined)
     updates.externalSessionId = changes.externalSessionId
@@ -83,21 +97,28 @@ export async function updateIssueSession(
 }
 
 /**
- * Auto-move an issue to review when AI execution settles.
- * Moves from any status except done (respects user marking issue as done).
- * Already in review is a no-op.
+ * Auto-move an issue to the project's review column when AI execution
+ * settles. Issues in a terminal column stay put (respects the user closing
+ * the issue); issues already past the execution column are a no-op.
  */
 export async function autoMoveToReview(issueId: string): Promise<void> {
   const [row] = await db
-    .select({ statusId: issuesTable.statusId })
+    .select({
+      statusId: issuesTable.statusId,
+      projectId: issuesTable.projectId,
+    })
     .from(issuesTable)
     .where(eq(issuesTable.id, issueId))
+  if (!row) return
 
-  if (!row || row.statusId === 'done' || row.statusId === 'review') return
+  const workflow = await getProjectWorkflow(row.projectId)
+  const role = workflow.roleOf(row.statusId)
+  if (role === 'terminal' || role === 'review') return
 
+  const statusId = workflow.review.id
   const [updated] = await db
     .update(issuesTable)
-    .set({ statusId: 'review' })
+    .set({ statusId })
     .where(eq(issuesTable.id, issueId))
     .returning()
 
@@ -105,6 +126,9 @@ export async function autoMoveToReview(issueId: string): Promise<void> {
     await cacheDel(`issue:${updated.projectId}:${issueId}`)
   }
 
-  emitIssueUpdated(issueId, { statusId: 'review' })
-  logger.info({ issueId, from: row.statusId }, 'auto_moved_to_review')
+  emitIssueUpdated(issueId, { statusId })
+  logger.info(
+    { issueId, from: row.statusId, to: statusId },
+    'auto_moved_to_review',
+  )
 }
@@ -1,14 +1,18 @@
-import { existsSync } from 'node:fs'
+import { existsSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
 import { join } from 'node:path'
 import { CommandBuilder } from '@/engines/command'
+import { guardApprovals, guardToolCalls } from '@/engines/guardrails'
 import { safeEnv } from '@/engines/safe-env'
 import type {
+  ApprovalHandler,
   EngineAvailability,
   EngineCapability,
   EngineExecutor,
   EngineModel,
   ExecutionEnv,
   FollowUpOptions,
+  McpServerConfig,
   NormalizedLogEntry,
   SpawnedProcess,
   SpawnOptions,
@@ -49,9 +53,12 @@ const CLAUDE_MODELS: EngineModel[] = [
 
 function applyPermissionArgs(
   builder: CommandBuilder,
-  options: Pick<SpawnOptions, 'permissionMode' | 'model'>,
+  options: Pick<SpawnOptions, 'permissionMode'>,
+  approvals: ApprovalHandler | undefined,
 ) {
-  if (options.permissionMode === 'auto') {
+  // Guardrails need the permission prompts, so auto mode only skips them
+  // when there is nothing to check
+  if (options.permissionMode === 'auto' && !approvals) {
     // Default to skip-permissions since AskUserQuestion is disabled —
     // plan mode would stall waiting for user approval that never comes.
     builder.param('--dangerously-skip-permissions')
@@ -61,6 +68,33 @@ function applyPermissionArgs(
   if (options.permissionMode === 'plan') {
     builder.param('--permission-mode', 'plan')
   }
+
+  // Route permission prompts to stdin/stdout control requests so the
+  // approval handler can answer them
+  if (approvals) {
+    builder.param('--permission-prompt-tool', 'stdio')
+  }
+}
+
+/**
+ * Write the project's MCP servers to a private temp file and pass it with
+ * `--mcp-config`. Returns a cleanup to run once the process has exited.
+ */
+function applyMcpConfig(
+  builder: CommandBuilder,
+  servers: McpServerConfig[] | undefined,
+): () => void {
+  if (!servers?.length) return () => {}
+  const path = join(tmpdir(), `bitk-mcp-${crypto.randomUUID()}.json`)
+  const mcpServers = Object.fromEntries(
+    servers.map(({ name, command, args, env }) => [
+      name,
+      { type: 'stdio', command, args, env },
+    ]),
+  )
+  writeFileSync(path, JSON.stringify({ mcpServers }), { mode: 0o600 })
+  builder.param('--mcp-config', path)
+  return () => rmSync(path, { force: true })
 }
 
 export class ClaudeCodeExecutor implements EngineExecutor {
@@ -76,7 +110,7 @@ export class ClaudeCodeExecutor implements EngineExecutor {
     options: SpawnOptions,
     env: ExecutionEnv,
   ): Promise<SpawnedProcess> {
-    const builder = CommandBuilder.create(BASE_COMMAND)
+    const builder = CommandBuilder.create(options.baseCommand ?? BASE_COMMAND)
       .params(['-p', '--output-format=stream-json', '--verbose', '--no-chrome'])
       .param('--input-format', 'stream-json')
       .env('NPM_CONFIG_LOGLEVEL', 'error')
@@ -91,7 +125,8 @@ export class ClaudeCodeExecutor implements EngineExecutor {
       builder.param('--model', options.model)
     }
 
-    applyPermissionArgs(builder, options)
+    const approvals = guardApprovals(options, env)
+    applyPermissionArgs(builder, options, approvals)
 
     if (options.agent) {
       builder.param('--agent', options.agent)
@@ -99,6 +134,7 @@ export class ClaudeCodeExecutor implements EngineExecutor {
 
     // Disable interactive questions — the web UI cannot respond to AskUserQuestion
     builder.param('--disallowedTools', 'AskUserQuestion')
+    builder.params(options.extraArgs ?? [])
 
     // Apply environment variables
     if (options.env) {
@@ -107,6 +143,7 @@ export class ClaudeCodeExecutor implements EngineExecutor {
     if (env.vars) {
       builder.envs(env.vars)
     }
+    const removeMcpConfig = applyMcpConfig(builder, env.mcpServers)
 
     const cmd = builder.build()
     logger.debug(
@@ -126,10 +163,16 @@ export class ClaudeCodeExecutor implements EngineExecutor {
       stderr: 'pipe',
       env: safeEnv(cmd.env),
     })
+    void proc.exited.finally(removeMcpConfig)
 
     // Create protocol handler to manage bidirectional control protocol
     // (tool permission requests, hook callbacks, graceful interruption)
-    const handler = new ClaudeProtocolHandler(proc.stdin)
+    const handler = new ClaudeProtocolHandler(
+      proc.stdin,
+      approvals,
+      guardToolCalls(env),
+    )
+    handler.initialize()
     handler.sendUserMessage(options.prompt)
     logger.debug(
       {
@@ -159,7 +202,7 @@ export class ClaudeCodeExecutor implements EngineExecutor {
     options: FollowUpOptions,
     env: ExecutionEnv,
   ): Promise<SpawnedProcess> {
-    const builder = CommandBuilder.create(BASE_COMMAND)
+    const builder = CommandBuilder.create(options.baseCommand ?? BASE_COMMAND)
       .params(['-p', '--output-format=stream-json', '--verbose', '--no-chrome'])
       .param('--input-format', 'stream-json')
       .param('--resume', options.sessionId)
@@ -171,14 +214,23 @@ export class ClaudeCodeExecutor implements EngineExecutor {
       builder.param('--resume-session-at', options.resetToMessageId)
     }
 
+    if (options.forkSession) {
+      builder.param('--fork-session')
+      if (options.externalSessionId) {
+        builder.param('--session-id', options.externalSessionId)
+      }
+    }
+
     if (options.model && options.model !== 'auto') {
       builder.param('--model', options.model)
     }
 
-    applyPermissionArgs(builder, options)
+    const approvals = guardApprovals(options, env)
+    applyPermissionArgs(builder, options, approvals)
 
     // Disable interactive questions for follow-up turns too.
     builder.param('--disallowedTools', 'AskUserQuestion')
+    builder.params(options.extraArgs ?? [])
 
     if (options.env) {
       builder.envs(options.env)
@@ -186,6 +238,7 @@ export class ClaudeCodeExecutor implements EngineExecutor {
     if (env.vars) {
       builder.envs(env.vars)
     }
+    const removeMcpConfig = applyMcpConfig(builder, env.mcpServers)
 
     const cmd = builder.build()
     logger.debug(
@@ -206,9 +259,15 @@ export class ClaudeCodeExecutor implements EngineExecutor {
       stderr: 'pipe',
       env: safeEnv(cmd.env),
     })
+    void proc.exited.finally(removeMcpConfig)
 
     // Create protocol handler for follow-up session
-    const handler = new ClaudeProtocolHandler(proc.stdin)
+    const handler = new ClaudeProtocolHandler(
+      proc.stdin,
+      approvals,
+      guardToolCalls(env),
+    )
+    handler.initialize()
     handler.sendUserMessage(options.prompt)
     logger.debug(
       {
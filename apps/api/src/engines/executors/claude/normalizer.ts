@@ -264,11 +264,23 @@ export class ClaudeLogNormalizer {
 
   private parseResult(data: any): NormalizedLogEntry {
     const isLogicalError = !!data.is_error || data.subtype !== 'success'
+    // Newer CLI versions report usage in a nested object and the cost as
+    // total_cost_usd; older ones used flat fields.
+    const usage = data.usage ?? {}
+    const costUsd: number | undefined = data.total_cost_usd ?? data.cost_usd
+    const inputTokens: number | undefined =
+      usage.input_tokens ?? data.input_tokens
+    const outputTokens: number | undefined =
+      usage.output_tokens ?? data.output_tokens
+    const modelNames =
+      data.modelUsage && typeof data.modelUsage === 'object'
+        ? Object.keys(data.modelUsage)
+        : []
     const parts: string[] = []
     if (data.duration_ms) parts.push(`${(data.duration_ms / 1000).toFixed(1)}s`)
-    if (data.input_tokens) parts.push(`${data.input_tokens} input`)
-    if (data.output_tokens) parts.push(`${data.output_tokens} output`)
-    if (data.cost_usd) parts.push(`$${data.cost_usd.toFixed(4)}`)
+    if (inputTokens) parts.push(`${inputTokens} input`)
+    if (outputTokens) parts.push(`${outputTokens} output`)
+    if (costUsd) parts.push(`$${costUsd.toFixed(4)}`)
     let errorSummary: string | undefined
     let errorKind: string | undefined
     if (Array.isArray(data.errors) && data.errors.length > 0) {
@@ -294,9 +306,14 @@ export class ClaudeLogNormalizer {
         errorKind,
         error: errorSummary,
         sessionId: data.session_id,
-        costUsd: data.cost_usd,
-        inputTokens: data.input_tokens,
-        outputTokens: data.output_tokens,
+        costUsd,
+        // total_cost_usd keeps growing over the follow-ups of one process
+        costIsTotal: data.total_cost_usd !== undefined,
+        inputTokens,
+        outputTokens,
+        cacheReadTokens: usage.cache_read_input_tokens,
+        cacheWriteTokens: usage.cache_creation_input_tokens,
+        model: modelNames[0],
         duration: data.duration_ms,
       },
     }
@@ -390,7 +407,18 @@ export function classifyToolAction(
       }
     case 'WebFetch':
       return { kind: 'web-fetch', url: String(input.url ?? '') }
-    default:
+    default: {
+      // MCP tools are named `mcp__<server>__<tool>`
+      const mcp = toolName.match(/^mcp__(.+?)__(.+)$/)
+      if (mcp) {
+        return {
+          kind: 'tool',
+          toolName: mcp[2]!,
+          server: mcp[1]!,
+          arguments: input,
+        }
+      }
       return { kind: 'tool', toolName, arguments: input }
+    }
   }
 }
@@ -1,8 +1,16 @@
 import type { FileSink } from 'bun'
 import { ulid } from 'ulid'
+import type {
+  ApprovalDecision,
+  ApprovalHandler,
+  ApprovalRequest,
+  ToolGuard,
+} from '@/engines/types'
 import { logger } from '@/logger'
 
 const MAX_IO_LOG_CHARS = 1200
+// Callback id of the PreToolUse hook registered for the tool guard
+const TOOL_GUARD_CALLBACK = 'bitk_tool_guard'
 const IO_LOG_ENABLED = (process.env.LOG_EXECUTOR_IO ?? '1') !== '0'
 
 function clipForLog(input: string): string {
@@ -75,6 +83,21 @@ interface ControlRequest {
   input?: unknown
   callback_id?: string
   tool_use_id?: string
+  permission_suggestions?: unknown[]
+}
+
+/** The tool call a permission request or PreToolUse hook callback is about. */
+function toolCallOf(request: ControlRequest): ApprovalRequest {
+  const isHook = request.subtype === 'hook_callback'
+  // Hook callbacks carry the tool call inside the hook input
+  const hookInput = (isHook ? request.input : undefined) as
+    | { tool_name?: string; tool_input?: unknown; tool_use_id?: string }
+    | undefined
+  return {
+    toolName: hookInput?.tool_name ?? request.tool_name ?? 'unknown',
+    input: isHook ? hookInput?.tool_input : request.input,
+    toolCallId: hookInput?.tool_use_id ?? request.tool_use_id,
+  }
 }
 
 /**
@@ -82,16 +105,42 @@ interface ControlRequest {
  *
  * When --input-format=stream-json is used, Claude Code CLI sends control_request
  * messages on stdout (e.g. can_use_tool, hook_callback) and expects responses
- * on stdin. This class intercepts those messages, auto-approves them, and
+ * on stdin. This class intercepts those messages, answers them, and
  * filters them out of the stdout stream so downstream consumers only see
- * normal log entries.
+ * normal log entries. Tool permission requests are auto-approved unless an
+ * approval handler is given, in which case the answer waits on the user.
+ * A tool guard is registered as a PreToolUse hook, which Claude calls for
+ * every tool use, including those it would not ask permission for.
  */
 export class ClaudeProtocolHandler {
   private stdin: FileSink
   private closed = false
+  private readonly onApprovalRequest?: ApprovalHandler
+  private readonly toolGuard?: ToolGuard
 
-  constructor(stdin: FileSink) {
+  constructor(
+    stdin: FileSink,
+    onApprovalRequest?: ApprovalHandler,
+    toolGuard?: ToolGuard,
+  ) {
     this.stdin = stdin
+    this.onApprovalRequest = onApprovalRequest
+    this.toolGuard = toolGuard
+  }
+
+  /** Register hooks for the session; send before the first user message. */
+  initialize(): void {
+    if (!this.toolGuard) return
+    this.writeJson({
+      type: 'control_request',
+      request_id: ulid(),
+      request: {
+        subtype: 'initialize',
+        hooks: {
+          PreToolUse: [{ hookCallbackIds: [TOOL_GUARD_CALLBACK] }],
+        },
+      },
+    })
   }
 
   /**
@@ -204,6 +253,25 @@ export class ClaudeProtocolHandler {
     requestId: string,
     request: ControlRequest,
   ): void {
+    if (
+      request.subtype === 'hook_callback' &&
+      request.callback_id === TOOL_GUARD_CALLBACK &&
+      this.toolGuard
+    ) {
+      this.handleToolGuard(requestId, request)
+      return
+    }
+
+    if (this.onApprovalRequest) {
+      if (
+        request.subtype === 'can_use_tool' ||
+        request.subtype === 'hook_callback'
+      ) {
+        void this.handleApprovalRequest(requestId, request)
+        return
+      }
+    }
+
     switch (request.subtype) {
       case 'can_use_tool':
         this.sendResponse(requestId, {
@@ -233,6 +301,82 @@ export class ClaudeProtocolHandler {
     }
   }
 
+  /**
+   * Answer the tool guard hook: deny blocks the call outright, otherwise an
+   * empty output leaves it to Claude's normal permission flow.
+   */
+  private handleToolGuard(requestId: string, request: ControlRequest): void {
+    const call = toolCallOf(request)
+    let blocked: boolean
+    try {
+      blocked = this.toolGuard!(call)
+    } catch (error) {
+      logger.warn(
+        { error, requestId, toolName: call.toolName },
+        'claude_tool_guard_failed',
+      )
+      blocked = true
+    }
+    this.sendResponse(
+      requestId,
+      blocked
+        ? {
+            hookSpecificOutput: {
+              hookEventName: 'PreToolUse',
+              permissionDecision: 'deny',
+              permissionDecisionReason: 'Blocked by a project guardrail',
+            },
+          }
+        : {},
+    )
+  }
+
+  /** Ask the approval handler and answer the control request with its decision. */
+  private async handleApprovalRequest(
+    requestId: string,
+    request: ControlRequest,
+  ): Promise<void> {
+    const isHook = request.subtype === 'hook_callback'
+    const { toolName, input, toolCallId } = toolCallOf(request)
+
+    let decision: ApprovalDecision
+    try {
+      decision = await this.onApprovalRequest!({ toolName, input, toolCallId })
+    } catch (error) {
+      logger.warn({ error, requestId, toolName }, 'claude_approval_failed')
+      decision = 'deny'
+    }
+    if (this.closed) return
+
+    if (isHook) {
+      this.sendResponse(requestId, {
+        hookSpecificOutput: {
+          hookEventName: 'PreToolUse',
+          permissionDecision: decision === 'deny' ? 'deny' : 'allow',
+          ...(decision === 'deny'
+            ? { permissionDecisionReason: 'Denied by user' }
+            : {}),
+        },
+      })
+      return
+    }
+
+    if (decision === 'deny') {
+      this.sendResponse(requestId, {
+        behavior: 'deny',
+        message: `The user denied permission to use ${toolName}`,
+      })
+      return
+    }
+    this.sendResponse(requestId, {
+      behavior: 'allow',
+      updatedInput: request.input ?? {},
+      ...(decision === 'always-allow' && request.permission_suggestions
+        ? { updatedPermissions: request.permission_suggestions }
+        : {}),
+    })
+  }
+
   private sendResponse(requestId: string, payload: unknown): void {
     this.writeJson({
       type: 'control_response',
@@ -1,3 +1,7 @@
+import { rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { guardApprovals } from '@/engines/guardrails'
 import { classifyCommand } from '@/engines/logs'
 import { safeEnv } from '@/engines/safe-env'
 import type {
@@ -7,6 +11,7 @@ import type {
   EngineModel,
   ExecutionEnv,
   FollowUpOptions,
+  McpServerConfig,
   NormalizedLogEntry,
   SpawnedProcess,
   SpawnOptions,
@@ -307,6 +312,119 @@ function extractCommandString(item: Record<string, unknown>): string {
   return ''
 }
 
+/** ToolAction for an `mcpToolCall` item, tagged with the providing server. */
+function mcpToolAction(
+  item: Record<string, unknown>,
+  result?: string,
+): ToolAction {
+  return {
+    kind: 'tool',
+    toolName: String(item.tool ?? 'mcp'),
+    server: typeof item.server === 'string' ? item.server : undefined,
+    arguments: item.arguments,
+    result,
+  }
+}
+
+/** Text blocks of an MCP tool result, or the error message. */
+function mcpResultText(item: Record<string, unknown>): string {
+  const error = item.error as { message?: unknown } | null | undefined
+  if (error) return String(error.message ?? 'MCP tool call failed')
+  const result = item.result as { content?: unknown } | null | undefined
+  if (!Array.isArray(result?.content)) return ''
+  return result.content
+    .filter(
+      (block): block is { type: 'text'; text: string } =>
+        block?.type === 'text' && typeof block.text === 'string',
+    )
+    .map((block) => block.text)
+    .join('\n')
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replaceAll("'", `'\\''`)}'`
+}
+
+/**
+ * `-c` config overrides that add MCP servers, e.g.
+ * `mcp_servers.docs.command="npx"`. Values are TOML, which JSON strings
+ * and string arrays already are. Env values are usually tokens and would
+ * be readable in the process list, so each server's env goes to a private
+ * temp file that `sh` loads before starting the server. Returns a cleanup
+ * to run once the process has exited.
+ */
+function mcpConfigOverrides(servers: McpServerConfig[] = []): {
+  args: string[]
+  cleanup: () => void
+} {
+  const files: string[] = []
+  const args = servers.flatMap(({ name, command, args, env }) => {
+    const key = `mcp_servers.${name}`
+    let launch = [command, ...args]
+    if (Object.keys(env).length > 0) {
+      const path = join(tmpdir(), `bitk-mcp-${crypto.randomUUID()}.env`)
+      const lines = Object.entries(env).map(
+        ([k, v]) => `export ${k}=${shellQuote(v)}\n`,
+      )
+      writeFileSync(path, lines.join(''), { mode: 0o600 })
+      files.push(path)
+      launch = ['sh', '-c', '. "$0" && exec "$@"', path, ...launch]
+    }
+    const [program, ...rest] = launch
+    return [
+      '-c',
+      `${key}.command=${JSON.stringify(program)}`,
+      '-c',
+      `${key}.args=${JSON.stringify(rest)}`,
+    ]
+  })
+  return {
+    args,
+    cleanup: () => {
+      for (const path of files) rmSync(path, { force: true })
+    },
+  }
+}
+
+/** `app-server` launch command, honouring an engine profile's command and args. */
+function appServerCommand(
+  options: Pick<SpawnOptions, 'baseCommand' | 'extraArgs'>,
+  env: Pick<ExecutionEnv, 'mcpServers'>,
+): { cmd: string[]; cleanup: () => void } {
+  const base = options.baseCommand?.trim().split(/\s+/) ?? CODEX_CMD
+  const mcp = mcpConfigOverrides(env.mcpServers)
+  return {
+    cmd: [...base, ...mcp.args, 'app-server', ...(options.extraArgs ?? [])],
+    cleanup: mcp.cleanup,
+  }
+}
+
+/** Start `app-server`, removing its MCP env files once it exits. */
+function spawnAppServer(
+  options: SpawnOptions | FollowUpOptions,
+  env: ExecutionEnv,
+) {
+  const { cmd, cleanup } = appServerCommand(options, env)
+  try {
+    const proc = Bun.spawn(cmd, {
+      cwd: options.workingDir,
+      stdin: 'pipe',
+      stdout: 'pipe',
+      stderr: 'pipe',
+      env: safeEnv({
+        NPM_CONFIG_LOGLEVEL: 'error',
+        ...options.env,
+        ...env.vars,
+      }),
+    })
+    void proc.exited.finally(cleanup)
+    return proc
+  } catch (error) {
+    cleanup()
+    throw error
+  }
+}
+
 /**
  * Codex executor — uses JSON-RPC protocol via `app-server` mode.
  *
@@ -317,7 +435,6 @@ export class CodexExecutor implements EngineExecutor {
   readonly engineType = 'codex' as const
   readonly protocol = 'json-rpc' as const
   readonly capabilities: EngineCapability[] = [
-    'session-fork',
     'setup-helper',
     'context-usage',
     'sandbox',
@@ -328,20 +445,15 @@ export class CodexExecutor implements EngineExecutor {
     options: SpawnOptions,
     env: ExecutionEnv,
   ): Promise<SpawnedProcess> {
-    const cmd = [...CODEX_CMD, 'app-server']
-
-    const proc = Bun.spawn(cmd, {
-      cwd: options.workingDir,
-      stdin: 'pipe',
-      stdout: 'pipe',
-      stderr: 'pipe',
-      env: safeEnv({ NPM_CONFIG_LOGLEVEL: 'error' }),
-    })
+    const proc = spawnAppServer(options, env)
 
     // Create protocol handler — starts reading stdout immediately
+    const onApprovalRequest = guardApprovals(options, env)
     const handler = new CodexProtocolHandler(
       proc.stdin,
       proc.stdout as ReadableStream<Uint8Array>,
+      undefined,
+      onApprovalRequest,
     )
 
     // Perform initialize handshake
@@ -351,7 +463,8 @@ export class CodexExecutor implements EngineExecutor {
     await handler.startThread({
       model: options.model,
       cwd: options.workingDir,
-      approvalPolicy: 'on-failure',
+      // 'untrusted' asks before anything beyond trusted reads
+      approvalPolicy: onApprovalRequest ? 'untrusted' : 'on-failure',
       sandbox: 'workspace-write',
     })
 
@@ -400,25 +513,22 @@ export class CodexExecutor implements EngineExecutor {
     options: FollowUpOptions,
     env: ExecutionEnv,
   ): Promise<SpawnedProcess> {
-    const cmd = [...CODEX_CMD, 'app-server']
-
-    const proc = Bun.spawn(cmd, {
-      cwd: options.workingDir,
-      stdin: 'pipe',
-      stdout: 'pipe',
-      stderr: 'pipe',
-      env: safeEnv({ NPM_CONFIG_LOGLEVEL: 'error' }),
-    })
+    const proc = spawnAppServer(options, env)
 
+    const onApprovalRequest = guardApprovals(options, env)
     const handler = new CodexProtocolHandler(
       proc.stdin,
       proc.stdout as ReadableStream<Uint8Array>,
+      undefined,
+      onApprovalRequest,
     )
 
     await handler.initialize()
 
     // Resume the existing thread (options.sessionId contains the Codex thread ID)
-    await handler.resumeThread(options.sessionId)
+    await handler.resumeThread(options.sessionId, {
+      approvalPolicy: onApprovalRequest ? 'untrusted' : undefined,
+    })
 
     // Start a new turn with the follow-up prompt
     await handler.startTurn(handler.threadId!, options.prompt)
@@ -632,6 +742,21 @@ export class CodexExecutor implements EngineExecutor {
             }
           }
 
+          if (itemType === 'mcpToolCall') {
+            return {
+              entryType: 'tool-use',
+              content: `Tool: ${String(item.tool ?? 'mcp')}`,
+              timestamp: now,
+              metadata: {
+                streaming: true,
+                toolName: String(item.tool ?? 'mcp'),
+                toolCallId: item.id as string | undefined,
+                input: item.arguments,
+              },
+              toolAction: mcpToolAction(item),
+            }
+          }
+
           // item/started for agentMessage — always skip.
           // Streaming text arrives via item/agentMessage/delta and the canonical
           // record is emitted by item/completed. Emitting text from item/started
@@ -719,6 +844,22 @@ export class CodexExecutor implements EngineExecutor {
             }
           }
 
+          if (itemType === 'mcpToolCall') {
+            const content = mcpResultText(item)
+            return {
+              entryType: 'tool-use',
+              content,
+              timestamp: now,
+              metadata: {
+                toolName: String(item.tool ?? 'mcp'),
+                isResult: true,
+                toolCallId: item.id as string | undefined,
+                duration: item.durationMs as number | undefined,
+              },
+              toolAction: mcpToolAction(item, content || undefined),
+            }
+          }
+
           if (itemType === 'agentMessage') {
             return {
               entryType: 'assistant-message',
@@ -787,6 +928,9 @@ export class CodexExecutor implements EngineExecutor {
           const usage = (turn.usage ?? {}) as Record<string, unknown>
           const inputTokens = usage.inputTokens as number | undefined
           const outputTokens = usage.outputTokens as number | undefined
+          const cachedInputTokens = usage.cachedInputTokens as
+            | number
+            | undefined
 
           const parts: string[] = []
           if (inputTokens != null) {
@@ -815,6 +959,7 @@ export class CodexExecutor implements EngineExecutor {
               turnId: turn.id as string | undefined,
               inputTokens,
               outputTokens,
+              cacheReadTokens: cachedInputTokens,
             },
           }
         }
@@ -1,4 +1,5 @@
 import type { FileSink } from 'bun'
+import type { ApprovalDecision, ApprovalHandler } from '@/engines/types'
 import { logger } from '@/logger'
 
 const MAX_IO_LOG_CHARS = 1200
@@ -16,6 +17,13 @@ const APPROVAL_METHODS = new Set([
   'item/fileChange/requestApproval',
 ])
 
+/** Codex approval decisions for each user decision. */
+const CODEX_DECISIONS: Record<ApprovalDecision, string> = {
+  approve: 'accept',
+  'always-allow': 'acceptForSession',
+  deny: 'decline',
+}
+
 interface PendingRequest {
   resolve: (value: unknown) => void
   reject: (error: Error) => void
@@ -64,8 +72,9 @@ function classifyMessage(
  * Manages the Codex app-server JSON-RPC protocol over stdio (JSONL, no
  * `"jsonrpc":"2.0"`). Uses a push-based approach: a background reader
  * processes ALL stdout lines immediately, routing responses to pending
- * promises, auto-approving server requests, and pushing notifications
- * to a ReadableStream for downstream consumption.
+ * promises, answering approval requests (automatically, or through the
+ * approval handler when one is given), and pushing notifications to a
+ * ReadableStream for downstream consumption.
  */
 export class CodexProtocolHandler {
   /** Stream of notification lines (JSONL) for downstream normalizeLog consumption. */
@@ -74,6 +83,9 @@ export class CodexProtocolHandler {
   private readonly stdin: FileSink
   private readonly pending = new Map<number | string, PendingRequest>()
   private readonly requestTimeout: number
+  private readonly onApprovalRequest?: ApprovalHandler
+  /** Started fileChange items — their approval requests omit the paths */
+  private readonly fileChanges = new Map<string, Record<string, unknown>>()
   private notificationController:
     | ReadableStreamDefaultController<Uint8Array>
     | undefined
@@ -86,9 +98,11 @@ export class CodexProtocolHandler {
     stdin: FileSink,
     stdout: ReadableStream<Uint8Array>,
     requestTimeout = DEFAULT_REQUEST_TIMEOUT,
+    onApprovalRequest?: ApprovalHandler,
   ) {
     this.stdin = stdin
     this.requestTimeout = requestTimeout
+    this.onApprovalRequest = onApprovalRequest
 
     // Set up notifications TransformStream via ReadableStream with controller
     this.notifications = new ReadableStream<Uint8Array>({
@@ -154,8 +168,14 @@ export class CodexProtocolHandler {
   /**
    * Resume an existing thread.
    */
-  async resumeThread(threadId: string): Promise<void> {
-    await this.sendRequest('thread/resume', { threadId })
+  async resumeThread(
+    threadId: string,
+    options: { approvalPolicy?: string } = {},
+  ): Promise<void> {
+    const params: Record<string, unknown> = { threadId }
+    if (options.approvalPolicy) params.approvalPolicy = options.approvalPolicy
+
+    await this.sendRequest('thread/resume', params)
     this._threadId = threadId
     logger.info({ threadId }, 'codex_protocol_thread_resumed')
   }
@@ -371,11 +391,15 @@ export class CodexProtocolHandler {
     }
   }
 
-  /** Handle server-initiated requests — auto-approves command/file changes. */
+  /** Handle server-initiated requests — answers command/file change approvals. */
   private handleServerRequest(request: JsonRpcServerRequest): void {
     const { id, method } = request
 
     if (APPROVAL_METHODS.has(method)) {
+      if (this.onApprovalRequest) {
+        void this.handleApprovalRequest(request)
+        return
+      }
       logger.debug({ id, method }, 'codex_protocol_auto_approve')
       this.writeJson({ id, result: { decision: 'accept' } })
       return
@@ -388,6 +412,36 @@ export class CodexProtocolHandler {
     })
   }
 
+  /** Ask the approval handler and reply with the matching Codex decision. */
+  private async handleApprovalRequest(
+    request: JsonRpcServerRequest,
+  ): Promise<void> {
+    const { id, method, params = {} } = request
+    const toolName =
+      method === 'item/commandExecution/requestApproval' ? 'Bash' : 'Edit'
+    const item =
+      toolName === 'Edit'
+        ? this.fileChanges.get(params.itemId as string)
+        : undefined
+
+    let decision: ApprovalDecision
+    try {
+      decision = await this.onApprovalRequest!({
+        toolName,
+        input: item
+          ? { path: item.path, changes: item.changes, ...params }
+          : params,
+        toolCallId: params.itemId as string | undefined,
+      })
+    } catch (error) {
+      logger.warn({ error, id, method }, 'codex_protocol_approval_failed')
+      decision = 'deny'
+    }
+
+    logger.debug({ id, method, decision }, 'codex_protocol_approval_answered')
+    this.writeJson({ id, result: { decision: CODEX_DECISIONS[decision] } })
+  }
+
   /** Track state from known notifications (e.g. turn IDs). */
   private trackNotification(notification: JsonRpcNotification): void {
     const { method, params } = notification
@@ -397,6 +451,12 @@ export class CodexProtocolHandler {
       this._turnId = undefined
     }
 
+    const item = params?.item as Record<string, unknown> | undefined
+    if (item?.type === 'fileChange' && typeof item.id === 'string') {
+      if (method === 'item/started') this.fileChanges.set(item.id, item)
+      if (method === 'item/completed') this.fileChanges.delete(item.id)
+    }
+
     // Extract turn ID if provided in turn/started
     if (method === 'turn/started' && params) {
       const turnId = (params as Record<string, unknown>).turnId as
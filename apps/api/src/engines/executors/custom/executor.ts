@@ -0,0 +1,171 @@
+import { existsSync } from 'node:fs'
+import { CommandBuilder } from '@/engines/command'
+import { safeEnv } from '@/engines/safe-env'
+import type {
+  EngineAvailability,
+  EngineCapability,
+  EngineExecutor,
+  EngineModel,
+  ExecutionEnv,
+  FollowUpOptions,
+  NormalizedLogEntry,
+  SpawnedProcess,
+  SpawnOptions,
+} from '@/engines/types'
+import { logger } from '@/logger'
+import { normalizeCustomLine } from './normalizer'
+import { CustomProtocolHandler } from './protocol'
+
+/**
+ * Custom — runs any CLI agent that speaks BitK's line-delimited JSON
+ * dialect (see normalizer.ts for stdout, protocol.ts for stdin).
+ *
+ * The agent is started as `<command> [--model <id>]` for a new session and
+ * `<command> [--model <id>] --resume <sessionId>` to continue one in a new
+ * process. `BITK_SESSION_ID` and `BITK_PERMISSION_MODE` are set in its env.
+ */
+
+export interface CustomEngineConfig {
+  /** Command that starts the agent; engine profiles may replace it */
+  command: string
+  /** Flag followed by the session id when a session continues in a new process */
+  resumeFlag: string
+  /** Flag followed by the model id */
+  modelFlag: string
+  models: EngineModel[]
+}
+
+export class CustomExecutor implements EngineExecutor {
+  readonly engineType = 'custom' as const
+  readonly protocol = 'stream-json' as const
+  readonly capabilities: EngineCapability[] = []
+
+  /** Null until a command is configured */
+  constructor(readonly config: CustomEngineConfig | null) {}
+
+  async spawn(
+    options: SpawnOptions,
+    env: ExecutionEnv,
+  ): Promise<SpawnedProcess> {
+    return this.start(options, env, options.externalSessionId)
+  }
+
+  async spawnFollowUp(
+    options: FollowUpOptions,
+    env: ExecutionEnv,
+  ): Promise<SpawnedProcess> {
+    return this.start(options, env, options.sessionId, options.sessionId)
+  }
+
+  private async start(
+    options: SpawnOptions,
+    env: ExecutionEnv,
+    sessionId: string | undefined,
+    resumeSessionId?: string,
+  ): Promise<SpawnedProcess> {
+    // Profiles of the custom engine may leave the command empty
+    const command = options.baseCommand || this.config?.command
+    if (!command) {
+      throw new Error('Custom engine has no command configured')
+    }
+    const builder = CommandBuilder.create(command)
+      .params(options.extraArgs ?? [])
+      .cwd(options.workingDir)
+
+    if (options.model && options.model !== 'auto') {
+      builder.params([this.config?.modelFlag ?? '--model', options.model])
+    }
+    if (resumeSessionId) {
+      builder.params([this.config?.resumeFlag ?? '--resume', resumeSessionId])
+    }
+    if (sessionId) builder.env('BITK_SESSION_ID', sessionId)
+    builder.env('BITK_PERMISSION_MODE', options.permissionMode ?? 'auto')
+
+    if (options.env) {
+      builder.envs(options.env)
+    }
+    if (env.vars) {
+      builder.envs(env.vars)
+    }
+
+    const cmd = builder.build()
+    logger.debug(
+      {
+        issueId: env.issueId,
+        cwd: cmd.cwd ?? options.workingDir,
+        program: cmd.program,
+        args: cmd.args,
+        resumeSessionId,
+      },
+      'custom_spawn_command',
+    )
+
+    const proc = Bun.spawn([cmd.program, ...cmd.args], {
+      cwd: cmd.cwd ?? options.workingDir,
+      stdin: 'pipe',
+      stdout: 'pipe',
+      stderr: 'pipe',
+      env: safeEnv(cmd.env),
+    })
+
+    const handler = new CustomProtocolHandler(proc.stdin)
+    handler.sendUserMessage(options.prompt)
+
+    return {
+      subprocess: proc,
+      stdout: proc.stdout as ReadableStream<Uint8Array>,
+      stderr: proc.stderr as ReadableStream<Uint8Array>,
+      cancel: () => handler.interrupt(),
+      protocolHandler: handler,
+    }
+  }
+
+  async cancel(spawnedProcess: SpawnedProcess): Promise<void> {
+    if (spawnedProcess.protocolHandler) {
+      await spawnedProcess.protocolHandler.interrupt()
+    } else {
+      spawnedProcess.cancel()
+    }
+
+    // Agents that ignore the interrupt are killed after 5s
+    const timeout = setTimeout(() => {
+      try {
+        spawnedProcess.subprocess.kill(9)
+      } catch {
+        /* already dead */
+      }
+    }, 5000)
+
+    try {
+      await spawnedProcess.subprocess.exited
+    } finally {
+      clearTimeout(timeout)
+      spawnedProcess.protocolHandler?.close()
+    }
+  }
+
+  async getAvailability(): Promise<EngineAvailability> {
+    if (!this.config) {
+      return { engineType: 'custom', installed: false, authStatus: 'unknown' }
+    }
+    const program = this.config.command.split(/\s+/)[0]!
+    const binaryPath =
+      Bun.which(program) ?? (existsSync(program) ? program : undefined)
+    return {
+      engineType: 'custom',
+      installed: !!binaryPath,
+      binaryPath,
+      // The agent handles its own credentials
+      authStatus: 'unknown',
+      error: binaryPath ? undefined : `Command not found: ${program}`,
+    }
+  }
+
+  async getModels(): Promise<EngineModel[]> {
+    return this.config?.models ?? []
+  }
+
+  normalizeLog(rawLine: string): NormalizedLogEntry | null {
+    return normalizeCustomLine(rawLine)
+  }
+}
@@ -0,0 +1,4 @@
+export type { CustomEngineConfig } from './executor'
+export { CustomExecutor } from './executor'
+export { normalizeCustomLine } from './normalizer'
+export { CustomProtocolHandler } from './protocol'
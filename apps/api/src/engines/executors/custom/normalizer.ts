@@ -0,0 +1,120 @@
+import type {
+  LogEntryType,
+  NormalizedLogEntry,
+  ToolAction,
+} from '@/engines/types'
+
+/**
+ * Custom engine output dialect — one JSON object per stdout line.
+ *
+ * `type` is a log entry type and the remaining fields map onto
+ * `NormalizedLogEntry`:
+ *
+ *   {"type":"assistant-message","content":"Done.","id":"msg-1"}
+ *   {"type":"thinking","content":"Reading the tests first"}
+ *   {"type":"tool-use","toolName":"Bash","toolCallId":"t1",
+ *    "content":"ls","action":{"kind":"command-run","command":"ls"}}
+ *   {"type":"tool-use","toolName":"Bash","toolCallId":"t1",
+ *    "isResult":true,"content":"README.md"}
+ *   {"type":"system-message","content":"Indexing workspace"}
+ *   {"type":"error-message","content":"Rate limited, retrying"}
+ *
+ * Every turn ends with a `result` line. Usage fields are optional:
+ *
+ *   {"type":"result","isError":false,"content":"","inputTokens":1200,
+ *    "outputTokens":300,"costUsd":0.01,"durationMs":4200,"model":"m"}
+ *
+ * `metadata` objects are passed through and `timestamp` is kept when set.
+ * Lines that are not JSON become system messages; unknown types are dropped.
+ */
+
+const ENTRY_TYPES = new Set<LogEntryType>([
+  'assistant-message',
+  'thinking',
+  'tool-use',
+  'system-message',
+  'error-message',
+  'token-usage',
+])
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function numberOrUndefined(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined
+}
+
+function stringOrUndefined(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined
+}
+
+function parseResult(
+  data: Record<string, unknown>,
+  content: string,
+  metadata: Record<string, unknown>,
+): NormalizedLogEntry {
+  const isError = data.isError === true
+  return {
+    entryType: isError ? 'error-message' : 'system-message',
+    content,
+    timestamp: stringOrUndefined(data.timestamp),
+    metadata: {
+      ...metadata,
+      source: 'result',
+      turnCompleted: true,
+      resultSubtype: isError ? 'error' : 'success',
+      isError,
+      error: isError ? content || 'Agent reported an error' : undefined,
+      costUsd: numberOrUndefined(data.costUsd),
+      inputTokens: numberOrUndefined(data.inputTokens),
+      outputTokens: numberOrUndefined(data.outputTokens),
+      cacheReadTokens: numberOrUndefined(data.cacheReadTokens),
+      cacheWriteTokens: numberOrUndefined(data.cacheWriteTokens),
+      model: stringOrUndefined(data.model),
+      duration: numberOrUndefined(data.durationMs),
+    },
+  }
+}
+
+export function normalizeCustomLine(
+  rawLine: string,
+): NormalizedLogEntry | null {
+  const line = rawLine.trim()
+  if (!line) return null
+
+  let data: unknown
+  try {
+    data = JSON.parse(line)
+  } catch {
+    return { entryType: 'system-message', content: line }
+  }
+  if (!isRecord(data) || typeof data.type !== 'string') return null
+
+  const content = stringOrUndefined(data.content) ?? ''
+  const metadata = isRecord(data.metadata) ? { ...data.metadata } : {}
+  if (data.type === 'result') return parseResult(data, content, metadata)
+  if (!ENTRY_TYPES.has(data.type as LogEntryType)) return null
+
+  if (typeof data.id === 'string') metadata.messageId = data.id
+  const entry: NormalizedLogEntry = {
+    entryType: data.type as LogEntryType,
+    content,
+    timestamp: stringOrUndefined(data.timestamp),
+    metadata,
+  }
+
+  if (entry.entryType === 'tool-use') {
+    const toolName = stringOrUndefined(data.toolName) ?? 'tool'
+    metadata.toolName = toolName
+    if (typeof data.toolCallId === 'string') {
+      metadata.toolCallId = data.toolCallId
+    }
+    if (data.isResult === true) metadata.isResult = true
+    entry.toolAction =
+      isRecord(data.action) && typeof data.action.kind === 'string'
+        ? (data.action as unknown as ToolAction)
+        : { kind: 'tool', toolName, arguments: data.input }
+  }
+  return entry
+}
@@ -0,0 +1,49 @@
+import type { FileSink } from 'bun'
+import { logger } from '@/logger'
+
+/**
+ * Writes the custom engine's stdin dialect — one JSON object per line:
+ *
+ *   {"type":"user","content":"Fix the failing test"}
+ *   {"type":"interrupt"}
+ *
+ * The first `user` line is the task. Agents that keep reading stdin after
+ * their `result` line receive follow-ups here; agents that exit are resumed
+ * in a new process instead. Closing stdin means no more input.
+ */
+export class CustomProtocolHandler {
+  private stdin: FileSink
+  private closed = false
+
+  constructor(stdin: FileSink) {
+    this.stdin = stdin
+  }
+
+  sendUserMessage(content: string): void {
+    this.writeJson({ type: 'user', content })
+  }
+
+  async interrupt(): Promise<void> {
+    this.writeJson({ type: 'interrupt' })
+  }
+
+  close(): void {
+    if (this.closed) return
+    this.closed = true
+    try {
+      this.stdin.end()
+    } catch {
+      /* already closed */
+    }
+  }
+
+  private writeJson(data: unknown): void {
+    if (this.closed) return
+    try {
+      this.stdin.write(`${JSON.stringify(data)}\n`)
+      this.stdin.flush()
+    } catch (error) {
+      logger.warn({ error }, 'custom_engine_stdin_write_failed')
+    }
+  }
+}
@@ -112,7 +112,7 @@ function createMockProcess(prompt: string): SpawnedProcess {
 export class EchoExecutor implements EngineExecutor {
   readonly engineType = 'echo' as const
   readonly protocol = 'stream-json' as const
-  readonly capabilities: EngineCapability[] = ['session-fork']
+  readonly capabilities: EngineCapability[] = []
 
   async spawn(
     options: SpawnOptions,
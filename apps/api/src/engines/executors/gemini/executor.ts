@@ -1,3 +1,4 @@
+import { CommandBuilder } from '@/engines/command'
 import { safeEnv } from '@/engines/safe-env'
 import type {
   EngineAvailability,
@@ -10,41 +11,138 @@ import type {
   SpawnedProcess,
   SpawnOptions,
 } from '@/engines/types'
+import type { WriteFilterRule } from '@/engines/write-filter'
+import { logger } from '@/logger'
+import {
+  classifyAcpToolCall,
+  GeminiLogNormalizer,
+  resolveToolName,
+} from './normalizer'
+import type { PermissionRequestHandler } from './protocol'
+import { GeminiProtocolHandler } from './protocol'
+
+const BASE_COMMAND = 'npx -y @google/gemini-cli'
+
+function buildCommand(
+  baseCommand: string,
+  options: Pick<SpawnOptions, 'model' | 'permissionMode' | 'env' | 'extraArgs'>,
+  env: ExecutionEnv,
+) {
+  const builder = CommandBuilder.create(baseCommand)
+    .param('--experimental-acp')
+    .env('NPM_CONFIG_LOGLEVEL', 'error')
+
+  if (options.model && options.model !== 'auto') {
+    builder.param('--model', options.model)
+  }
+
+  // Supervised/plan runs still go through session/request_permission,
+  // which the protocol handler answers (or forwards to the approval handler).
+  if (options.permissionMode === 'auto') {
+    builder.param('--yolo')
+  }
+  builder.params(options.extraArgs ?? [])
+
+  if (options.env) {
+    builder.envs(options.env)
+  }
+  if (env.vars) {
+    builder.envs(env.vars)
+  }
+
+  return builder.build()
+}
 
 /**
- * Gemini CLI executor — uses ACP (Agent Communication Protocol).
- *
- * Launch: `npx -y @google/gemini-cli`
- * Communication: ACP over stdin/stdout
+ * Gemini CLI executor — uses ACP (Agent Client Protocol).
  *
- * TODO: Implement spawn/follow-up when Gemini CLI protocol stabilizes.
+ * Launch: `npx -y @google/gemini-cli --experimental-acp`
+ * Communication: JSON-RPC 2.0 over stdio (JSONL)
  */
 export class GeminiExecutor implements EngineExecutor {
   readonly engineType = 'gemini' as const
   readonly protocol = 'acp' as const
-  readonly capabilities: EngineCapability[] = ['session-fork']
+  readonly capabilities: EngineCapability[] = []
+
+  /** @param baseCommand Command that starts an ACP agent (overridable for tests). */
+  constructor(private readonly baseCommand: string = BASE_COMMAND) {}
 
   async spawn(
-    _options: SpawnOptions,
-    _env: ExecutionEnv,
+    options: SpawnOptions,
+    env: ExecutionEnv,
   ): Promise<SpawnedProcess> {
-    // TODO: Implement Gemini CLI spawn
-    // 1. Start `npx -y @google/gemini-cli` with appropriate flags
-    // 2. Send initial prompt via ACP protocol
-    // 3. Stream stdout for responses
-    throw new Error('Gemini executor not yet implemented')
+    const { proc, handler } = this.startAgent(options, env)
+
+    try {
+      await handler.initialize()
+      await handler.newSession(options.workingDir, env.mcpServers)
+      handler.startPrompt(options.prompt)
+    } catch (error) {
+      handler.close()
+      proc.kill()
+      throw error
+    }
+
+    logger.info(
+      {
+        issueId: env.issueId,
+        pid: (proc as { pid?: number }).pid,
+        sessionId: handler.sessionId,
+        model: options.model,
+      },
+      'gemini_spawn_complete',
+    )
+
+    return this.toSpawnedProcess(proc, handler)
   }
 
   async spawnFollowUp(
-    _options: FollowUpOptions,
-    _env: ExecutionEnv,
+    options: FollowUpOptions,
+    env: ExecutionEnv,
   ): Promise<SpawnedProcess> {
-    // TODO: Implement follow-up via ACP session continuation
-    throw new Error('Gemini follow-up not yet implemented')
+    const { proc, handler } = this.startAgent(options, env)
+
+    try {
+      await handler.initialize()
+      // options.sessionId contains the ACP session ID returned by session/new
+      await handler.loadSession(
+        options.sessionId,
+        options.workingDir,
+        env.mcpServers,
+      )
+      handler.startPrompt(options.prompt)
+    } catch (error) {
+      handler.close()
+      proc.kill()
+      throw error
+    }
+
+    logger.info(
+      {
+        issueId: env.issueId,
+        pid: (proc as { pid?: number }).pid,
+        sessionId: handler.sessionId,
+        model: options.model,
+      },
+      'gemini_followup_complete',
+    )
+
+    return this.toSpawnedProcess(proc, handler)
   }
 
   async cancel(spawnedProcess: SpawnedProcess): Promise<void> {
-    spawnedProcess.cancel()
+    logger.debug(
+      { pid: (spawnedProcess.subprocess as { pid?: number }).pid },
+      'gemini_cancel_requested',
+    )
+
+    if (spawnedProcess.protocolHandler) {
+      await spawnedProcess.protocolHandler.interrupt()
+      // The agent process is long-lived — closing stdin makes it exit.
+      spawnedProcess.protocolHandler.close()
+    } else {
+      spawnedProcess.cancel()
+    }
     const timeout = setTimeout(() => {
       try {
         spawnedProcess.subprocess.kill(9)
@@ -57,6 +155,10 @@ export class GeminiExecutor implements EngineExecutor {
       await spawnedProcess.subprocess.exited
     } finally {
       clearTimeout(timeout)
+      logger.debug(
+        { pid: (spawnedProcess.subprocess as { pid?: number }).pid },
+        'gemini_cancel_completed',
+      )
     }
   }
 
@@ -97,7 +199,6 @@ export class GeminiExecutor implements EngineExecutor {
       return {
         engineType: 'gemini',
         installed: true,
-        executable: false, // spawn not yet implemented
         version,
         authStatus,
       }
@@ -105,7 +206,6 @@ export class GeminiExecutor implements EngineExecutor {
       return {
         engineType: 'gemini',
         installed: false,
-        executable: false,
         authStatus: 'unknown',
         error: error instanceof Error ? error.message : 'Unknown error',
       }
@@ -149,52 +249,101 @@ export class GeminiExecutor implements EngineExecutor {
     }
   }
 
-  normalizeLog(rawLine: string): NormalizedLogEntry | null {
-    // TODO: Implement ACP log normalization for Gemini CLI
-    try {
-      const data = JSON.parse(rawLine)
-
-      // ACP message types (placeholder — refine when protocol is finalized)
-      if (data.type === 'response' || data.type === 'message') {
-        return {
-          entryType: 'assistant-message',
-          content:
-            typeof data.content === 'string'
-              ? data.content
-              : JSON.stringify(data.content),
-          timestamp: data.timestamp ?? new Date().toISOString(),
-        }
-      }
+  private defaultNormalizer = new GeminiLogNormalizer()
 
-      if (data.type === 'error') {
-        return {
-          entryType: 'error-message',
-          content: data.message ?? data.error ?? 'Unknown error',
-          timestamp: data.timestamp ?? new Date().toISOString(),
-        }
-      }
+  normalizeLog(
+    rawLine: string,
+  ): NormalizedLogEntry | NormalizedLogEntry[] | null {
+    return this.defaultNormalizer.parse(rawLine)
+  }
 
-      if (data.type === 'tool_call' || data.type === 'function_call') {
-        return {
-          entryType: 'tool-use',
-          content: `Tool: ${data.name ?? data.function ?? 'unknown'}`,
-          timestamp: data.timestamp ?? new Date().toISOString(),
-          metadata: {
-            toolName: data.name,
-            input: data.arguments ?? data.input,
-          },
-        }
-      }
+  createNormalizer(filterRules: WriteFilterRule[]) {
+    return new GeminiLogNormalizer(filterRules)
+  }
 
-      return null
-    } catch {
-      if (rawLine.trim()) {
-        return {
-          entryType: 'system-message',
-          content: rawLine,
-        }
-      }
-      return null
+  /** Start the agent process and attach a protocol handler to its stdio. */
+  private startAgent(
+    options: Pick<
+      SpawnOptions,
+      | 'workingDir'
+      | 'model'
+      | 'permissionMode'
+      | 'env'
+      | 'baseCommand'
+      | 'extraArgs'
+      | 'onApprovalRequest'
+    >,
+    env: ExecutionEnv,
+  ) {
+    const cmd = buildCommand(
+      options.baseCommand ?? this.baseCommand,
+      options,
+      env,
+    )
+    logger.debug(
+      {
+        issueId: env.issueId,
+        cwd: options.workingDir,
+        program: cmd.program,
+        args: cmd.args,
+      },
+      'gemini_spawn_command',
+    )
+
+    const proc = Bun.spawn([cmd.program, ...cmd.args], {
+      cwd: options.workingDir,
+      stdin: 'pipe',
+      stdout: 'pipe',
+      stderr: 'pipe',
+      env: safeEnv(cmd.env),
+    })
+
+    // Forward permission prompts to the approval handler in supervised mode
+    const onApprovalRequest =
+      options.permissionMode === 'supervised'
+        ? options.onApprovalRequest
+        : undefined
+    const onPermissionRequest: PermissionRequestHandler | undefined =
+      onApprovalRequest &&
+      ((toolCall) =>
+        onApprovalRequest({
+          toolName: resolveToolName(toolCall),
+          input: toolCall.rawInput ?? classifyAcpToolCall(toolCall),
+          toolCallId: toolCall.toolCallId,
+        }))
+
+    // Create protocol handler — starts reading stdout immediately
+    const handler = new GeminiProtocolHandler(
+      proc.stdin,
+      proc.stdout as ReadableStream<Uint8Array>,
+      undefined,
+      onPermissionRequest,
+    )
+
+    return { proc, handler }
+  }
+
+  private toSpawnedProcess(
+    proc: ReturnType<typeof Bun.spawn>,
+    handler: GeminiProtocolHandler,
+  ): SpawnedProcess {
+    return {
+      subprocess: proc,
+      stdout: handler.notifications,
+      stderr: proc.stderr as ReadableStream<Uint8Array>,
+      cancel: () => {
+        void handler.interrupt().catch(() => {})
+      },
+      protocolHandler: {
+        interrupt: () => handler.interrupt(),
+        close: () => handler.close(),
+        sendUserMessage: (content: string) => {
+          handler.sendUserMessage(content)
+        },
+      },
+      // ACP agents generate their own session IDs — store the real one so
+      // follow-ups can session/load it.
+      externalSessionId: handler.sessionId,
     }
   }
 }
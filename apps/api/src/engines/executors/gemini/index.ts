@@ -1 +1,3 @@
 export { GeminiExecutor } from './executor'
+export { GeminiLogNormalizer } from './normalizer'
+export { GeminiProtocolHandler } from './protocol'
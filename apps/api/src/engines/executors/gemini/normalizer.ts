@@ -0,0 +1,355 @@
+import { classifyCommand } from '@/engines/logs'
+import type {
+  FileChange,
+  NormalizedLogEntry,
+  ToolAction,
+} from '@/engines/types'
+import type { WriteFilterRule } from '@/engines/write-filter'
+import { PROMPT_COMPLETED_METHOD } from './protocol'
+
+/** ACP tool kinds — the agent's own classification of a tool call. */
+type AcpToolKind =
+  | 'read'
+  | 'edit'
+  | 'delete'
+  | 'move'
+  | 'search'
+  | 'execute'
+  | 'think'
+  | 'fetch'
+  | 'other'
+
+interface AcpToolCallContent {
+  type?: string
+  content?: { type?: string; text?: string }
+  path?: string
+  oldText?: string | null
+  newText?: string
+}
+
+export interface AcpToolCall {
+  toolCallId?: string
+  title?: string
+  kind?: AcpToolKind
+  status?: 'pending' | 'in_progress' | 'completed' | 'failed'
+  content?: AcpToolCallContent[]
+  locations?: Array<{ path?: string; line?: number }>
+  rawInput?: Record<string, unknown>
+  rawOutput?: unknown
+}
+
+/** Stop reasons that end a turn normally. */
+const CLEAN_STOP_REASONS = new Set(['end_turn', 'cancelled'])
+
+/**
+ * Normalizes ACP `session/update` notifications into log entries.
+ *
+ * ACP streams assistant text as small chunks with no explicit end marker,
+ * so chunks are buffered and flushed as a single assistant-message when
+ * the next non-text update (or the end of the turn) arrives.
+ */
+export class GeminiLogNormalizer {
+  private readonly rules: WriteFilterRule[]
+  private readonly filteredToolCallIds = new Set<string>()
+  private readonly toolNames = new Map<string, string>()
+  private textBuffer = ''
+
+  constructor(rules: WriteFilterRule[] = []) {
+    this.rules = rules.filter((r) => r.enabled)
+  }
+
+  parse(rawLine: string): NormalizedLogEntry | NormalizedLogEntry[] | null {
+    const now = new Date().toISOString()
+
+    let data: { method?: string; params?: Record<string, unknown> }
+    try {
+      data = JSON.parse(rawLine)
+    } catch {
+      if (rawLine.trim()) {
+        return { entryType: 'system-message', content: rawLine, timestamp: now }
+      }
+      return null
+    }
+
+    const params = data.params ?? {}
+
+    if (data.method === PROMPT_COMPLETED_METHOD) {
+      return this.withFlushedText(this.parsePromptCompleted(params, now), now)
+    }
+
+    if (data.method !== 'session/update') return null
+
+    const update = (params.update ?? {}) as Record<string, unknown>
+
+    switch (update.sessionUpdate) {
+      case 'agent_message_chunk': {
+        const content = update.content as { type?: string; text?: string }
+        if (content?.type === 'text' && content.text) {
+          this.textBuffer += content.text
+        }
+        return null
+      }
+
+      case 'tool_call':
+        return this.withFlushedText(
+          this.parseToolCall(update as AcpToolCall, now),
+          now,
+        )
+
+      case 'tool_call_update':
+        return this.withFlushedText(
+          this.parseToolCallUpdate(update as AcpToolCall, now),
+          now,
+        )
+
+      case 'plan': {
+        const entries = (update.entries ?? []) as Array<{
+          content?: string
+          status?: string
+        }>
+        if (entries.length === 0) return null
+        return this.withFlushedText(
+          {
+            entryType: 'system-message',
+            content: entries
+              .map((e) => `[${e.status ?? 'pending'}] ${e.content ?? ''}`)
+              .join('\n'),
+            timestamp: now,
+            metadata: { subtype: 'plan', entries },
+          },
+          now,
+        )
+      }
+
+      // Thought chunks are skipped (like Claude's thinking blocks); user
+      // chunks echo prompts that are already persisted; command and mode
+      // updates carry no log content.
+      case 'agent_thought_chunk':
+      case 'user_message_chunk':
+      case 'available_commands_update':
+      case 'current_mode_update':
+        return null
+
+      default:
+        return null
+    }
+  }
+
+  // --- Private parsers ---
+
+  private parseToolCall(
+    call: AcpToolCall,
+    timestamp: string,
+  ): NormalizedLogEntry | null {
+    const toolName = resolveToolName(call)
+    const toolCallId = call.toolCallId
+
+    if (this.isFiltered(toolName)) {
+      if (toolCallId) this.filteredToolCallIds.add(toolCallId)
+      return null
+    }
+    if (toolCallId) this.toolNames.set(toolCallId, toolName)
+
+    return {
+      entryType: 'tool-use',
+      content: `Tool: ${toolName}`,
+      timestamp,
+      metadata: {
+        toolName,
+        toolCallId,
+        title: call.title,
+        input: call.rawInput,
+      },
+      toolAction: classifyAcpToolCall(call),
+    }
+  }
+
+  private parseToolCallUpdate(
+    update: AcpToolCall,
+    timestamp: string,
+  ): NormalizedLogEntry | null {
+    const toolCallId = update.toolCallId
+    if (update.status !== 'completed' && update.status !== 'failed') {
+      return null
+    }
+
+    if (toolCallId && this.filteredToolCallIds.has(toolCallId)) {
+      this.filteredToolCallIds.delete(toolCallId)
+      return null
+    }
+
+    const toolName = toolCallId ? this.toolNames.get(toolCallId) : undefined
+    if (toolCallId) this.toolNames.delete(toolCallId)
+
+    return {
+      entryType: update.status === 'failed' ? 'error-message' : 'tool-use',
+      content: extractToolCallOutput(update),
+      timestamp,
+      metadata: {
+        toolName,
+        toolCallId,
+        isResult: true,
+        status: update.status,
+      },
+    }
+  }
+
+  private parsePromptCompleted(
+    params: Record<string, unknown>,
+    timestamp: string,
+  ): NormalizedLogEntry {
+    const stopReason = String(params.stopReason ?? 'end_turn')
+    const error = params.error as string | undefined
+    const usage = (params.usage ?? {}) as Record<string, unknown>
+    const inputTokens = usage.inputTokens as number | undefined
+    const outputTokens = usage.outputTokens as number | undefined
+    const isError = !!error || !CLEAN_STOP_REASONS.has(stopReason)
+
+    const parts: string[] = []
+    if (isError) parts.push(`Execution ${stopReason}`)
+    if (inputTokens != null) parts.push(`${inputTokens} input`)
+    if (outputTokens != null) parts.push(`${outputTokens} output`)
+    if (error) parts.push(error)
+
+    return {
+      entryType: isError ? 'error-message' : 'system-message',
+      content: parts.length ? parts.join(' · ') : 'Turn completed',
+      timestamp,
+      metadata: {
+        source: 'result',
+        turnCompleted: true,
+        stopReason,
+        isError,
+        error,
+        sessionId: params.sessionId as string | undefined,
+        inputTokens,
+        outputTokens,
+      },
+    }
+  }
+
+  // --- Private helpers ---
+
+  /** Prepend any buffered assistant text so ordering matches the stream. */
+  private withFlushedText(
+    entry: NormalizedLogEntry | null,
+    timestamp: string,
+  ): NormalizedLogEntry | NormalizedLogEntry[] | null {
+    const text = this.textBuffer
+    this.textBuffer = ''
+    if (!text) return entry
+
+    const message: NormalizedLogEntry = {
+      entryType: 'assistant-message',
+      content: text,
+      timestamp,
+    }
+    return entry ? [message, entry] : message
+  }
+
+  private isFiltered(toolName: string): boolean {
+    return this.rules.some(
+      (r) => r.type === 'tool-name' && r.match === toolName,
+    )
+  }
+}
+
+// --- Module-level helpers ---
+
+/**
+ * Map an ACP tool kind onto the tool names used across BitK (the same
+ * names Claude uses), so write-filter rules and the UI treat Gemini tool
+ * calls like any other engine's.
+ */
+export function resolveToolName(call: AcpToolCall): string {
+  switch (call.kind) {
+    case 'read':
+      return 'Read'
+    case 'edit':
+    case 'delete':
+    case 'move':
+      return 'Edit'
+    case 'execute':
+      return 'Bash'
+    case 'search':
+      return 'Grep'
+    case 'fetch':
+      return 'WebFetch'
+    default:
+      return call.title || call.kind || 'unknown'
+  }
+}
+
+function firstPath(call: AcpToolCall): string {
+  const input = call.rawInput ?? {}
+  return String(
+    call.locations?.[0]?.path ??
+      input.absolute_path ??
+      input.file_path ??
+      input.path ??
+      '',
+  )
+}
+
+export function classifyAcpToolCall(call: AcpToolCall): ToolAction {
+  const input = call.rawInput ?? {}
+
+  switch (call.kind) {
+    case 'read':
+      return { kind: 'file-read', path: firstPath(call) }
+    case 'edit':
+    case 'delete':
+    case 'move': {
+      const diffs = (call.content ?? []).filter((c) => c.type === 'diff')
+      const changes: FileChange[] = diffs.map((d) => ({
+        oldText: d.oldText ?? '',
+        newText: d.newText ?? '',
+      }))
+      return {
+        kind: 'file-edit',
+        path: diffs[0]?.path ?? firstPath(call),
+        ...(changes.length > 0 ? { changes } : {}),
+      }
+    }
+    case 'execute': {
+      const command = String(input.command ?? call.title ?? '')
+      return {
+        kind: 'command-run',
+        command,
+        category: classifyCommand(command),
+      }
+    }
+    case 'search':
+      return {
+        kind: 'search',
+        query: String(input.pattern ?? input.query ?? call.title ?? ''),
+      }
+    case 'fetch':
+      return {
+        kind: 'web-fetch',
+        url: String(input.url ?? input.prompt ?? call.title ?? ''),
+      }
+    default:
+      return {
+        kind: 'tool',
+        toolName: call.title || call.kind || 'unknown',
+        arguments: call.rawInput,
+      }
+  }
+}
+
+function extractToolCallOutput(update: AcpToolCall): string {
+  const parts: string[] = []
+  for (const item of update.content ?? []) {
+    if (item.type === 'content' && item.content?.type === 'text') {
+      parts.push(item.content.text ?? '')
+    } else if (item.type === 'diff' && item.path) {
+      parts.push(`File changed: ${item.path}`)
+    }
+  }
+  if (parts.length > 0) return parts.join('\n')
+
+  const raw = update.rawOutput
+  if (raw == null) return ''
+  return typeof raw === 'string' ? raw : JSON.stringify(raw)
+}
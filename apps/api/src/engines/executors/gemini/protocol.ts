@@ -0,0 +1,596 @@
+import type { FileSink } from 'bun'
+import type { ApprovalDecision, McpServerConfig } from '@/engines/types'
+import { logger } from '@/logger'
+import type { AcpToolCall } from './normalizer'
+
+const MAX_IO_LOG_CHARS = 1200
+const IO_LOG_ENABLED = (process.env.LOG_EXECUTOR_IO ?? '1') !== '0'
+const DEFAULT_REQUEST_TIMEOUT = 30_000
+const ACP_PROTOCOL_VERSION = 1
+
+/**
+ * Synthetic notification pushed to the notifications stream when a
+ * `session/prompt` request settles. ACP reports the end of a turn only
+ * through the prompt response, so this is how the normalizer sees it.
+ */
+export const PROMPT_COMPLETED_METHOD = '_bitk/prompt_completed'
+
+/** ACP stdio servers take env as a list of name/value pairs. */
+function toAcpMcpServers(servers: McpServerConfig[]) {
+  return servers.map(({ name, command, args, env }) => ({
+    name,
+    command,
+    args,
+    env: Object.entries(env).map(([key, value]) => ({ name: key, value })),
+  }))
+}
+
+function clipForLog(input: string): string {
+  if (input.length <= MAX_IO_LOG_CHARS) return input
+  return `${input.slice(0, MAX_IO_LOG_CHARS)}...<truncated:${input.length - MAX_IO_LOG_CHARS}>`
+}
+
+interface PendingRequest {
+  resolve: (value: unknown) => void
+  reject: (error: Error) => void
+  timer: ReturnType<typeof setTimeout> | undefined
+}
+
+interface JsonRpcResponse {
+  id: number | string
+  result?: unknown
+  error?: { code?: number; message?: string }
+}
+
+interface JsonRpcServerRequest {
+  id: number | string
+  method: string
+  params?: Record<string, unknown>
+}
+
+interface PermissionOption {
+  optionId: string
+  name?: string
+  kind?: 'allow_once' | 'allow_always' | 'reject_once' | 'reject_always'
+}
+
+type PermissionOptionKind = NonNullable<PermissionOption['kind']>
+
+/** Option kinds to pick for each user decision, in order of preference. */
+const DECISION_OPTION_KINDS: Record<ApprovalDecision, PermissionOptionKind[]> =
+  {
+    approve: ['allow_once', 'allow_always'],
+    'always-allow': ['allow_always', 'allow_once'],
+    deny: ['reject_once', 'reject_always'],
+  }
+
+/** Asks the user about a tool call the agent wants permission for. */
+export type PermissionRequestHandler = (
+  toolCall: AcpToolCall,
+) => Promise<ApprovalDecision>
+
+/**
+ * Determines the category of a parsed JSON-RPC message:
+ * - "response": has `id` and (`result` or `error`), no `method`
+ * - "server-request": has `id` and `method` (agent asking client for something)
+ * - "notification": has `method` but no `id`
+ * - "unknown": none of the above
+ */
+function classifyMessage(
+  msg: Record<string, unknown>,
+): 'response' | 'server-request' | 'notification' | 'unknown' {
+  const hasId = 'id' in msg
+  const hasMethod = typeof msg.method === 'string'
+  const hasResult = 'result' in msg
+  const hasError = 'error' in msg
+
+  if (hasId && (hasResult || hasError) && !hasMethod) return 'response'
+  if (hasId && hasMethod) return 'server-request'
+  if (hasMethod && !hasId) return 'notification'
+  return 'unknown'
+}
+
+/**
+ * Manages the Agent Client Protocol (ACP) over stdio — JSON-RPC 2.0, one
+ * message per line. A background reader processes ALL stdout lines
+ * immediately, routing responses to pending promises, answering permission
+ * requests (automatically, or through the permission handler when one is
+ * given), and pushing `session/update` notifications to a ReadableStream
+ * for downstream consumption.
+ *
+ * Lifecycle: initialize -> session/new (or session/load) -> session/prompt*.
+ * Interrupts are sent as the `session/cancel` notification; the in-flight
+ * prompt then resolves with `stopReason: "cancelled"`.
+ */
+export class GeminiProtocolHandler {
+  /** Stream of notification lines (JSONL) for downstream normalizeLog consumption. */
+  readonly notifications: ReadableStream<Uint8Array>
+
+  private readonly stdin: FileSink
+  private readonly pending = new Map<number | string, PendingRequest>()
+  private readonly requestTimeout: number
+  private readonly onPermissionRequest?: PermissionRequestHandler
+  private notificationController:
+    | ReadableStreamDefaultController<Uint8Array>
+    | undefined
+  private nextId = 1
+  private closed = false
+  private replaying = false
+  private _sessionId: string | undefined
+  private _loadSessionSupported = false
+  private _promptInFlight = false
+
+  constructor(
+    stdin: FileSink,
+    stdout: ReadableStream<Uint8Array>,
+    requestTimeout = DEFAULT_REQUEST_TIMEOUT,
+    onPermissionRequest?: PermissionRequestHandler,
+  ) {
+    this.stdin = stdin
+    this.requestTimeout = requestTimeout
+    this.onPermissionRequest = onPermissionRequest
+
+    this.notifications = new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        this.notificationController = controller
+      },
+    })
+
+    this.startBackgroundReader(stdout)
+  }
+
+  get sessionId(): string | undefined {
+    return this._sessionId
+  }
+
+  get loadSessionSupported(): boolean {
+    return this._loadSessionSupported
+  }
+
+  get promptInFlight(): boolean {
+    return this._promptInFlight
+  }
+
+  /** Negotiate the protocol version and agent capabilities (call once after process starts). */
+  async initialize(): Promise<{
+    protocolVersion: number
+    loadSession: boolean
+  }> {
+    const result = (await this.sendRequest('initialize', {
+      protocolVersion: ACP_PROTOCOL_VERSION,
+      // BitK does not expose the client filesystem or a terminal — the agent
+      // uses its own tools inside the working directory.
+      clientCapabilities: {
+        fs: { readTextFile: false, writeTextFile: false },
+        terminal: false,
+      },
+    })) as {
+      protocolVersion?: number
+      agentCapabilities?: { loadSession?: boolean }
+    }
+
+    this._loadSessionSupported = result?.agentCapabilities?.loadSession === true
+    const protocolVersion = result?.protocolVersion ?? ACP_PROTOCOL_VERSION
+
+    logger.info(
+      { protocolVersion, loadSession: this._loadSessionSupported },
+      'gemini_protocol_initialized',
+    )
+    return { protocolVersion, loadSession: this._loadSessionSupported }
+  }
+
+  /**
+   * Create a new session rooted at `cwd`, returns the session ID.
+   */
+  async newSession(
+    cwd: string,
+    mcpServers: McpServerConfig[] = [],
+  ): Promise<string> {
+    const result = (await this.sendRequest('session/new', {
+      cwd,
+      mcpServers: toAcpMcpServers(mcpServers),
+    })) as { sessionId?: string }
+
+    const sessionId = result?.sessionId
+    if (!sessionId) {
+      throw new Error('session/new response missing sessionId')
+    }
+
+    this._sessionId = sessionId
+    logger.info({ sessionId }, 'gemini_protocol_session_created')
+    return sessionId
+  }
+
+  /**
+   * Resume an existing session. The agent replays the conversation as
+   * `session/update` notifications before responding — those are already
+   * persisted, so they are dropped instead of being forwarded.
+   */
+  async loadSession(
+    sessionId: string,
+    cwd: string,
+    mcpServers: McpServerConfig[] = [],
+  ): Promise<void> {
+    if (!this._loadSessionSupported) {
+      throw new Error(
+        `Session not found: ${sessionId} (agent does not support session/load)`,
+      )
+    }
+
+    this.replaying = true
+    try {
+      await this.sendRequest('session/load', {
+        sessionId,
+        cwd,
+        mcpServers: toAcpMcpServers(mcpServers),
+      })
+    } finally {
+      this.replaying = false
+    }
+
+    this._sessionId = sessionId
+    logger.info({ sessionId }, 'gemini_protocol_session_loaded')
+  }
+
+  /**
+   * Start a prompt turn without waiting for it to finish. The turn outcome
+   * is pushed to the notifications stream as PROMPT_COMPLETED_METHOD.
+   */
+  startPrompt(prompt: string): void {
+    const sessionId = this._sessionId
+    if (!sessionId) {
+      throw new Error('Cannot send prompt before a session is established')
+    }
+
+    this._promptInFlight = true
+    logger.info(
+      { sessionId, promptChars: prompt.length },
+      'gemini_protocol_prompt_started',
+    )
+
+    // Turns can run for a long time — no request timeout.
+    void this.sendRequest(
+      'session/prompt',
+      { sessionId, prompt: [{ type: 'text', text: prompt }] },
+      0,
+    )
+      .then((result) => {
+        const { stopReason, ...rest } = (result ?? {}) as Record<
+          string,
+          unknown
+        >
+        this.pushPromptCompleted({
+          ...rest,
+          sessionId,
+          stopReason: stopReason ?? 'end_turn',
+        })
+      })
+      .catch((error: unknown) => {
+        this.pushPromptCompleted({
+          sessionId,
+          stopReason: 'error',
+          error: error instanceof Error ? error.message : String(error),
+        })
+      })
+  }
+
+  /**
+   * Send session/cancel to stop the current turn.
+   */
+  async interrupt(): Promise<void> {
+    if (!this._sessionId) return
+    this.sendNotification('session/cancel', { sessionId: this._sessionId })
+    logger.info({ sessionId: this._sessionId }, 'gemini_protocol_cancel_sent')
+  }
+
+  /**
+   * Send a user message for interactive follow-up on an active process.
+   * Starts a new prompt turn on the existing session.
+   */
+  sendUserMessage(prompt: string): void {
+    if (this._sessionId) {
+      this.startPrompt(prompt)
+    }
+  }
+
+  /** Close stdin, reject all pending requests, close notification stream. */
+  close(): void {
+    if (this.closed) return
+    this.closed = true
+
+    for (const [id, pending] of this.pending) {
+      clearTimeout(pending.timer)
+      pending.reject(
+        new Error(`Connection closed while waiting for response id=${id}`),
+      )
+    }
+    this.pending.clear()
+
+    try {
+      this.notificationController?.close()
+    } catch {
+      /* already closed */
+    }
+
+    try {
+      this.stdin.end()
+    } catch {
+      /* already closed */
+    }
+  }
+
+  /** Start a background reader that processes ALL stdout lines immediately. */
+  private startBackgroundReader(stdout: ReadableStream<Uint8Array>): void {
+    void (async () => {
+      const reader = stdout.getReader()
+      const decoder = new TextDecoder()
+      let buffer = ''
+      try {
+        while (true) {
+          const { done, value } = await reader.read()
+          if (done) break
+          buffer += decoder.decode(value, { stream: true })
+          const lines = buffer.split('\n')
+          buffer = lines.pop() ?? ''
+          for (const line of lines) {
+            if (!line.trim()) continue
+            this.processLine(line)
+          }
+        }
+        if (buffer.trim()) this.processLine(buffer)
+      } catch (error) {
+        logger.warn({ error }, 'gemini_protocol_reader_error')
+      } finally {
+        reader.releaseLock()
+        // The agent is gone — nothing will answer outstanding requests.
+        // The in-flight prompt's rejection still needs to reach the stream,
+        // so defer closing until its completion has been pushed.
+        this.rejectPending('Agent process exited')
+        setTimeout(() => {
+          try {
+            this.notificationController?.close()
+          } catch {
+            /* already closed */
+          }
+        }, 0)
+      }
+    })()
+  }
+
+  /** Route a single stdout line to the appropriate handler. */
+  private processLine(line: string): void {
+    if (IO_LOG_ENABLED) {
+      logger.debug(
+        { stream: 'stdout', line: clipForLog(line) },
+        'gemini_protocol_io',
+      )
+    }
+
+    let msg: Record<string, unknown>
+    try {
+      msg = JSON.parse(line)
+    } catch {
+      // Non-JSON line — push through as-is
+      this.enqueue(line)
+      return
+    }
+
+    switch (classifyMessage(msg)) {
+      case 'response':
+        this.handleResponse(msg as unknown as JsonRpcResponse)
+        break
+
+      case 'server-request':
+        this.handleServerRequest(msg as unknown as JsonRpcServerRequest)
+        break
+
+      case 'notification':
+        if (this.replaying && msg.method === 'session/update') break
+        this.enqueue(line)
+        break
+
+      default:
+        this.enqueue(line)
+        break
+    }
+  }
+
+  /** Send a JSON-RPC request and wait for a matching response. */
+  private sendRequest(
+    method: string,
+    params: Record<string, unknown>,
+    timeout = this.requestTimeout,
+  ): Promise<unknown> {
+    const id = this.nextId++
+
+    return new Promise((resolve, reject) => {
+      if (this.closed) {
+        reject(new Error(`Connection closed before sending ${method}`))
+        return
+      }
+
+      const timer =
+        timeout > 0
+          ? setTimeout(() => {
+              this.pending.delete(id)
+              reject(
+                new Error(
+                  `JSON-RPC timeout waiting for response to ${method} (id=${id})`,
+                ),
+              )
+            }, timeout)
+          : undefined
+
+      this.pending.set(id, { resolve, reject, timer })
+      this.writeJson({ jsonrpc: '2.0', id, method, params })
+    })
+  }
+
+  /** Send a JSON-RPC notification (no id, no response expected). */
+  private sendNotification(
+    method: string,
+    params?: Record<string, unknown>,
+  ): void {
+    const msg: Record<string, unknown> = { jsonrpc: '2.0', method }
+    if (params !== undefined) {
+      msg.params = params
+    }
+    this.writeJson(msg)
+  }
+
+  /** Match a response to its pending request and resolve/reject. */
+  private handleResponse(response: JsonRpcResponse): void {
+    const pending = this.pending.get(response.id)
+    if (!pending) {
+      logger.warn({ id: response.id }, 'gemini_protocol_orphan_response')
+      return
+    }
+
+    this.pending.delete(response.id)
+    clearTimeout(pending.timer)
+
+    if (response.error) {
+      const errMsg = response.error.message ?? 'Unknown JSON-RPC error'
+      logger.error(
+        { id: response.id, code: response.error.code, message: errMsg },
+        'gemini_protocol_rpc_error',
+      )
+      pending.reject(new Error(errMsg))
+    } else {
+      logger.debug({ id: response.id }, 'gemini_protocol_rpc_response')
+      pending.resolve(response.result)
+    }
+  }
+
+  /** Handle agent-initiated requests — answers tool permission prompts. */
+  private handleServerRequest(request: JsonRpcServerRequest): void {
+    const { id, method, params } = request
+
+    if (method === 'session/request_permission' && this.onPermissionRequest) {
+      void this.handlePermissionRequest(id, params ?? {})
+      return
+    }
+
+    if (method === 'session/request_permission') {
+      const options = (params?.options ?? []) as PermissionOption[]
+      const option =
+        options.find((o) => o.kind === 'allow_once') ??
+        options.find((o) => o.kind === 'allow_always') ??
+        options[0]
+
+      if (!option) {
+        logger.warn({ id }, 'gemini_protocol_permission_no_options')
+        this.writeJson({
+          jsonrpc: '2.0',
+          id,
+          result: { outcome: { outcome: 'cancelled' } },
+        })
+        return
+      }
+
+      logger.debug(
+        { id, optionId: option.optionId },
+        'gemini_protocol_auto_approve',
+      )
+      this.writeJson({
+        jsonrpc: '2.0',
+        id,
+        result: { outcome: { outcome: 'selected', optionId: option.optionId } },
+      })
+      return
+    }
+
+    logger.warn({ id, method }, 'gemini_protocol_unknown_server_request')
+    this.writeJson({
+      jsonrpc: '2.0',
+      id,
+      error: { code: -32601, message: `Unhandled agent request: ${method}` },
+    })
+  }
+
+  /** Ask the permission handler and select the option matching its decision. */
+  private async handlePermissionRequest(
+    id: number | string,
+    params: Record<string, unknown>,
+  ): Promise<void> {
+    const options = (params.options ?? []) as PermissionOption[]
+    const toolCall = (params.toolCall ?? {}) as AcpToolCall
+
+    let decision: ApprovalDecision
+    try {
+      decision = await this.onPermissionRequest!(toolCall)
+    } catch (error) {
+      logger.warn({ error, id }, 'gemini_protocol_permission_failed')
+      decision = 'deny'
+    }
+
+    const option = DECISION_OPTION_KINDS[decision]
+      .map((kind) => options.find((o) => o.kind === kind))
+      .find(Boolean)
+
+    logger.debug(
+      { id, decision, optionId: option?.optionId },
+      'gemini_protocol_permission_answered',
+    )
+    this.writeJson({
+      jsonrpc: '2.0',
+      id,
+      result: {
+        outcome: option
+          ? { outcome: 'selected', optionId: option.optionId }
+          : { outcome: 'cancelled' },
+      },
+    })
+  }
+
+  private pushPromptCompleted(params: Record<string, unknown>): void {
+    this._promptInFlight = false
+    logger.info(
+      { sessionId: params.sessionId, stopReason: params.stopReason },
+      'gemini_protocol_prompt_completed',
+    )
+    this.enqueue(
+      JSON.stringify({
+        jsonrpc: '2.0',
+        method: PROMPT_COMPLETED_METHOD,
+        params,
+      }),
+    )
+  }
+
+  private rejectPending(reason: string): void {
+    for (const [id, pending] of this.pending) {
+      clearTimeout(pending.timer)
+      pending.reject(new Error(`${reason} while waiting for response id=${id}`))
+    }
+    this.pending.clear()
+  }
+
+  private enqueue(line: string): void {
+    try {
+      this.notificationController?.enqueue(
+        new TextEncoder().encode(`${line}\n`),
+      )
+    } catch {
+      /* controller closed */
+    }
+  }
+
+  /** Serialize data as JSON and write to stdin. */
+  private writeJson(data: unknown): void {
+    if (this.closed) return
+    try {
+      const json = JSON.stringify(data)
+      if (IO_LOG_ENABLED) {
+        logger.debug(
+          { stream: 'stdin', line: clipForLog(json) },
+          'gemini_protocol_io',
+        )
+      }
+      this.stdin.write(`${json}\n`)
+      this.stdin.flush?.()
+    } catch (error) {
+      logger.warn({ error }, 'gemini_protocol_write_failed')
+    }
+  }
+}
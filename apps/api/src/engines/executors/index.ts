@@ -7,12 +7,14 @@ import type {
 } from '@/engines/types'
 import { ClaudeCodeExecutor } from './claude'
 import { CodexExecutor } from './codex'
+import { CustomExecutor } from './custom'
 import { EchoExecutor } from './echo'
 import { GeminiExecutor } from './gemini'
 
 // Re-export executor classes
 export { ClaudeCodeExecutor } from './claude'
 export { CodexExecutor } from './codex'
+export { CustomExecutor } from './custom'
 export { EchoExecutor } from './echo'
 export { GeminiExecutor } from './gemini'
 
@@ -59,6 +61,8 @@ function createRegistry(): EngineRegistry {
   registry.register(new CodexExecutor())
   registry.register(new GeminiExecutor())
   registry.register(new EchoExecutor())
+  // Replaced at runtime once a command is configured (see custom-engine.ts)
+  registry.register(new CustomExecutor(null))
 
   return registry
 }
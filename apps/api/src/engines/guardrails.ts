@@ -0,0 +1,256 @@
+import { homedir } from 'node:os'
+import { isAbsolute, join, relative, resolve } from 'node:path'
+import type {
+  ApprovalHandler,
+  ApprovalRequest,
+  ExecutionEnv,
+  GuardrailRule,
+  SpawnOptions,
+  ToolGuard,
+} from '@/engines/types'
+import { emitGuardrailDenied } from '@/events/guardrail-events'
+import { logger } from '@/logger'
+
+// ---------- Matching ----------
+
+const STATEMENT_SEPARATORS = new Set([';', '&&', '||', '&', '\n'])
+const OPERATOR_CHARS = new Set(['|', '&', ';', '\n'])
+
+/**
+ * Split a shell command into words and operators (`|`, `&&`, `;` …).
+ * Quotes group words and are removed; quoted words keep their spaces.
+ */
+export function tokenizeCommand(command: string): string[] {
+  const tokens: string[] = []
+  let word = ''
+  let inWord = false
+  const flush = () => {
+    if (inWord) tokens.push(word)
+    word = ''
+    inWord = false
+  }
+
+  for (let i = 0; i < command.length; i++) {
+    const ch = command[i]!
+    if (ch === "'" || ch === '"') {
+      const end = command.indexOf(ch, i + 1)
+      const stop = end === -1 ? command.length : end
+      word += command.slice(i + 1, stop)
+      inWord = true
+      i = stop
+    } else if (ch === '\\' && i + 1 < command.length) {
+      word += command[++i]
+      inWord = true
+    } else if (OPERATOR_CHARS.has(ch)) {
+      flush()
+      const pair = command.slice(i, i + 2)
+      if (pair === '&&' || pair === '||') {
+        tokens.push(pair)
+        i++
+      } else {
+        tokens.push(ch)
+      }
+    } else if (/\s/.test(ch)) {
+      flush()
+    } else {
+      word += ch
+      inWord = true
+    }
+  }
+  flush()
+  return tokens
+}
+
+/** Commands of a shell line, including those nested in quoted words (`bash -c "…"`). */
+function splitStatements(command: string, depth = 0): string[][] {
+  const statements: string[][] = []
+  const nested: string[][] = []
+  let current: string[] = []
+  for (const token of tokenizeCommand(command)) {
+    if (STATEMENT_SEPARATORS.has(token)) {
+      statements.push(current)
+      current = []
+      continue
+    }
+    current.push(token)
+    if (depth < 3 && token !== '|' && /[\s|&;]/.test(token)) {
+      nested.push(...splitStatements(token, depth + 1))
+    }
+  }
+  statements.push(current, ...nested)
+  return statements.filter((s) => s.length > 0)
+}
+
+function wildcard(pattern: string): RegExp {
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+  return new RegExp(`^${source}$`)
+}
+
+function matchStatement(words: RegExp[], tokens: string[]): boolean {
+  let next = 0
+  for (const token of tokens) {
+    if (words[next]!.test(token) && ++next === words.length) return true
+  }
+  return false
+}
+
+/**
+ * Whether a command pattern matches a shell line: any of its commands for
+ * deny rules, every one of them when `all` is set (allow rules), so that
+ * chaining another command onto an allowed one is still checked.
+ */
+export function matchCommand(
+  pattern: string,
+  command: string,
+  all = false,
+): boolean {
+  const words = tokenizeCommand(pattern).map(wildcard)
+  if (words.length === 0) return false
+  const statements = splitStatements(command)
+  return all
+    ? statements.length > 0 &&
+        statements.every((tokens) => matchStatement(words, tokens))
+    : statements.some((tokens) => matchStatement(words, tokens))
+}
+
+export function matchPath(
+  pattern: string,
+  path: string,
+  workingDir: string,
+): boolean {
+  const absolute = resolve(workingDir, path)
+  if (pattern.startsWith('~/')) {
+    return new Bun.Glob(join(homedir(), pattern.slice(2))).match(absolute)
+  }
+  if (isAbsolute(pattern)) return new Bun.Glob(pattern).match(absolute)
+  return new Bun.Glob(pattern).match(relative(workingDir, absolute) || '.')
+}
+
+/** The shell command a tool call runs, if any (Claude `Bash`, Codex commands). */
+function commandOf(request: ApprovalRequest): string | null {
+  const command = (request.input as { command?: unknown } | undefined)?.command
+  if (typeof command === 'string') return command
+  if (Array.isArray(command)) return command.map(String).join(' ')
+  return null
+}
+
+/** File paths a tool call touches (Claude file tools, Codex file changes). */
+function pathsOf(request: ApprovalRequest): string[] {
+  const input = request.input as Record<string, unknown> | undefined
+  if (!input || typeof input !== 'object') return []
+  const paths = [input.file_path, input.notebook_path, input.path]
+  if (Array.isArray(input.changes)) {
+    paths.push(...input.changes.map((c) => (c as { path?: unknown })?.path))
+  }
+  return paths.filter((p): p is string => typeof p === 'string' && p !== '')
+}
+
+function ruleMatches(
+  rule: GuardrailRule,
+  request: ApprovalRequest,
+  workingDir: string,
+): boolean {
+  switch (rule.kind) {
+    case 'tool':
+      return wildcard(rule.pattern).test(request.toolName)
+    case 'command': {
+      const command = commandOf(request)
+      return (
+        command !== null &&
+        matchCommand(rule.pattern, command, rule.action === 'allow')
+      )
+    }
+    case 'path':
+      return pathsOf(request).some((p) =>
+        matchPath(rule.pattern, p, workingDir),
+      )
+  }
+}
+
+/** The rule deciding a tool call: the first matching deny, else the first allow. */
+export function evaluateGuardrails(
+  rules: GuardrailRule[],
+  request: ApprovalRequest,
+  workingDir: string,
+): GuardrailRule | null {
+  const matching = rules.filter((rule) =>
+    ruleMatches(rule, request, workingDir),
+  )
+  return (
+    matching.find((rule) => rule.action === 'deny') ??
+    matching.find((rule) => rule.action === 'allow') ??
+    null
+  )
+}
+
+// ---------- Enforcement ----------
+
+/** Log a blocked tool call and report it on the issue. */
+function reportDenial(
+  rule: GuardrailRule,
+  request: ApprovalRequest,
+  env: ExecutionEnv,
+): void {
+  logger.info(
+    { issueId: env.issueId, toolName: request.toolName, ruleId: rule.id },
+    'guardrail_denied',
+  )
+  if (env.issueId) {
+    emitGuardrailDenied({
+      issueId: env.issueId,
+      toolName: request.toolName,
+      toolCallId: request.toolCallId ?? null,
+      subject: commandOf(request) ?? pathsOf(request)[0] ?? null,
+      rule,
+    })
+  }
+}
+
+/**
+ * Handler an executor routes tool permission requests through: the user's
+ * approval handler in supervised mode, wrapped in the project's guardrails
+ * when it has any. Denied calls are blocked and reported, allowed ones are
+ * approved without asking, and the rest go to the user when supervised.
+ * Undefined means every request is auto-approved.
+ */
+export function guardApprovals(
+  options: Pick<SpawnOptions, 'permissionMode' | 'onApprovalRequest'>,
+  env: ExecutionEnv,
+): ApprovalHandler | undefined {
+  const ask =
+    options.permissionMode === 'supervised'
+      ? options.onApprovalRequest
+      : undefined
+  const rules = env.guardrails ?? []
+  if (rules.length === 0) return ask
+
+  return async (request) => {
+    const rule = evaluateGuardrails(rules, request, env.workingDir)
+    if (rule?.action === 'deny') {
+      reportDenial(rule, request, env)
+      return 'deny'
+    }
+    if (rule?.action === 'allow' || !ask) return 'approve'
+    return ask(request)
+  }
+}
+
+/**
+ * Deny check for engines that can see every tool call, not only the ones
+ * they would prompt for: reads inside the workspace and tools the user's
+ * own engine settings allow never reach the approval handler. Undefined
+ * when the project has no rules.
+ */
+export function guardToolCalls(env: ExecutionEnv): ToolGuard | undefined {
+  const rules = env.guardrails ?? []
+  if (rules.length === 0) return undefined
+  return (request) => {
+    const rule = evaluateGuardrails(rules, request, env.workingDir)
+    if (rule?.action !== 'deny') return false
+    reportDenial(rule, request, env)
+    return true
+  }
+}
@@ -0,0 +1,285 @@
+import { and, asc, eq } from 'drizzle-orm'
+import { db } from '@/db'
+import { getAppSetting } from '@/db/helpers'
+import { issueApprovals as approvalsTable } from '@/db/schema'
+import type {
+  ApprovalDecision,
+  ApprovalHandler,
+  ApprovalRequest,
+} from '@/engines/types'
+import type { ApprovalPayload } from '@/events/approval-events'
+import {
+  emitApprovalRequest,
+  emitApprovalResolved,
+} from '@/events/approval-events'
+import { logger } from '@/logger'
+import { toISO } from '@/utils/date'
+
+// ---------- Policy ----------
+
+export interface ApprovalPolicy {
+  /** Seconds to wait for a decision; 0 waits indefinitely. */
+  timeoutSeconds: number
+  /** Decision applied when the timeout elapses. */
+  onTimeout: 'approve' | 'deny'
+}
+
+export const APPROVAL_POLICY_KEY = 'approvals:policy'
+
+export const DEFAULT_APPROVAL_POLICY: ApprovalPolicy = {
+  timeoutSeconds: 600,
+  onTimeout: 'deny',
+}
+
+export async function loadApprovalPolicy(): Promise<ApprovalPolicy> {
+  const raw = await getAppSetting(APPROVAL_POLICY_KEY)
+  if (!raw) return DEFAULT_APPROVAL_POLICY
+  try {
+    return { ...DEFAULT_APPROVAL_POLICY, ...JSON.parse(raw) }
+  } catch {
+    return DEFAULT_APPROVAL_POLICY
+  }
+}
+
+// ---------- Pending registry ----------
+
+type ApprovalStatus = 'approved' | 'denied' | 'timed_out' | 'cancelled'
+
+interface PendingApproval {
+  issueId: string
+  toolName: string
+  expiresAt: Date | null
+  timer: ReturnType<typeof setTimeout> | null
+  resolve: (decision: ApprovalDecision) => void
+}
+
+/** In-flight requests keyed by approval id. Engines block until resolved. */
+const pending = new Map<string, PendingApproval>()
+
+/** Tools the user chose to always allow, per issue, until its execution ends. */
+const alwaysAllowed = new Map<string, Set<string>>()
+
+type ApprovalRow = typeof approvalsTable.$inferSelect
+
+function serializeApproval(
+  row: ApprovalRow,
+  expiresAt: Date | null = null,
+): ApprovalPayload {
+  let input: unknown = null
+  if (row.input) {
+    try {
+      input = JSON.parse(row.input)
+    } catch {
+      input = row.input
+    }
+  }
+  return {
+    id: row.id,
+    issueId: row.issueId,
+    executionId: row.executionId,
+    engineType: row.engineType,
+    toolName: row.toolName,
+    toolCallId: row.toolCallId,
+    input,
+    status: row.status,
+    decision: row.decision,
+    createdAt: toISO(row.createdAt),
+    resolvedAt: row.resolvedAt ? toISO(row.resolvedAt) : null,
+    expiresAt: expiresAt ? toISO(expiresAt) : null,
+  }
+}
+
+/**
+ * Build the handler passed to executors as `onApprovalRequest`. Each request
+ * is persisted, broadcast over SSE and held open until the user answers
+ * (or the policy timeout fires).
+ */
+export function createApprovalHandler(
+  issueId: string,
+  executionId: string,
+  engineType: string,
+): ApprovalHandler {
+  return (request) => requestApproval(issueId, executionId, engineType, request)
+}
+
+async function requestApproval(
+  issueId: string,
+  executionId: string,
+  engineType: string,
+  request: ApprovalRequest,
+): Promise<ApprovalDecision> {
+  if (alwaysAllowed.get(issueId)?.has(request.toolName)) {
+    logger.debug(
+      { issueId, toolName: request.toolName },
+      'approval_always_allowed',
+    )
+    return 'approve'
+  }
+
+  const policy = await loadApprovalPolicy()
+  const row = db
+    .insert(approvalsTable)
+    .values({
+      issueId,
+      executionId,
+      engineType,
+      toolName: request.toolName,
+      toolCallId: request.toolCallId ?? null,
+      input: request.input !== undefined ? JSON.stringify(request.input) : null,
+    })
+    .returning()
+    .get()
+
+  const expiresAt =
+    policy.timeoutSeconds > 0
+      ? new Date(Date.now() + policy.timeoutSeconds * 1000)
+      : null
+
+  return new Promise<ApprovalDecision>((resolve) => {
+    const entry: PendingApproval = {
+      issueId,
+      toolName: request.toolName,
+      expiresAt,
+      timer: null,
+      resolve,
+    }
+    if (expiresAt) {
+      entry.timer = setTimeout(() => {
+        logger.info(
+          { issueId, approvalId: row.id, onTimeout: policy.onTimeout },
+          'approval_timed_out',
+        )
+        settle(row.id, policy.onTimeout, 'timed_out')
+      }, policy.timeoutSeconds * 1000)
+    }
+    pending.set(row.id, entry)
+
+    logger.info(
+      { issueId, executionId, approvalId: row.id, toolName: request.toolName },
+      'approval_requested',
+    )
+    emitApprovalRequest(serializeApproval(row, expiresAt))
+  })
+}
+
+/** Finish a pending request: persist the outcome, unblock the engine, broadcast. */
+function settle(
+  approvalId: string,
+  decision: ApprovalDecision,
+  status: ApprovalStatus,
+): ApprovalPayload | null {
+  const entry = pending.get(approvalId)
+  if (!entry) return null
+  pending.delete(approvalId)
+  if (entry.timer) clearTimeout(entry.timer)
+
+  if (decision === 'always-allow') {
+    let tools = alwaysAllowed.get(entry.issueId)
+    if (!tools) {
+      tools = new Set()
+      alwaysAllowed.set(entry.issueId, tools)
+    }
+    tools.add(entry.toolName)
+  }
+
+  const row = db
+    .update(approvalsTable)
+    .set({ status, decision, resolvedAt: new Date(), updatedAt: new Date() })
+    .where(eq(approvalsTable.id, approvalId))
+    .returning()
+    .get()
+
+  entry.resolve(decision)
+
+  if (!row) return null
+  const payload = serializeApproval(row)
+  emitApprovalResolved(payload)
+  return payload
+}
+
+// ---------- Public API ----------
+
+/**
+ * Answer a pending approval. Returns the updated approval, or null when the
+ * request is not pending (already answered, timed out, or its process is gone).
+ */
+export function resolveApproval(
+  approvalId: string,
+  decision: ApprovalDecision,
+): ApprovalPayload | null {
+  logger.info({ approvalId, decision }, 'approval_resolved')
+  return settle(
+    approvalId,
+    decision,
+    decision === 'deny' ? 'denied' : 'approved',
+  )
+}
+
+export function findApproval(
+  issueId: string,
+  approvalId: string,
+): ApprovalPayload | null {
+  const row = db
+    .select()
+    .from(approvalsTable)
+    .where(
+      and(
+        eq(approvalsTable.id, approvalId),
+        eq(approvalsTable.issueId, issueId),
+        eq(approvalsTable.isDeleted, 0),
+      ),
+    )
+    .get()
+  return row
+    ? serializeApproval(row, pending.get(row.id)?.expiresAt ?? null)
+    : null
+}
+
+export function listPendingApprovals(issueId: string): ApprovalPayload[] {
+  const rows = db
+    .select()
+    .from(approvalsTable)
+    .where(
+      and(
+        eq(approvalsTable.issueId, issueId),
+        eq(approvalsTable.status, 'pending'),
+        eq(approvalsTable.isDeleted, 0),
+      ),
+    )
+    .orderBy(asc(approvalsTable.id))
+    .all()
+  // Rows left pending by a previous server run have no live engine behind them
+  return rows
+    .filter((row) => pending.has(row.id))
+    .map((row) => serializeApproval(row, pending.get(row.id)!.expiresAt))
+}
+
+/** Deny every pending request for an issue (cancel / process exit). */
+export function cancelPendingApprovals(issueId: string): number {
+  let count = 0
+  for (const [approvalId, entry] of pending) {
+    if (entry.issueId !== issueId) continue
+    settle(approvalId, 'deny', 'cancelled')
+    count++
+  }
+  if (count > 0) {
+    logger.info({ issueId, count }, 'approvals_cancelled')
+  }
+  return count
+}
+
+/** Drop an issue's always-allowed tools (settle / cancel / delete). */
+export function forgetAlwaysAllowed(issueId: string): void {
+  alwaysAllowed.delete(issueId)
+}
+
+/** Mark approvals left pending by a previous server run as cancelled. */
+export function expireStaleApprovals(): number {
+  const rows = db
+    .update(approvalsTable)
+    .set({ status: 'cancelled', resolvedAt: new Date(), updatedAt: new Date() })
+    .where(eq(approvalsTable.status, 'pending'))
+    .returning({ id: approvalsTable.id })
+    .all()
+  return rows.length
+}
@@ -0,0 +1,226 @@
+import { eq } from 'drizzle-orm'
+import { db } from '@/db'
+import type { BudgetViolation } from '@/db/budgets'
+import {
+  addRunSeconds,
+  findViolation,
+  getBudget,
+  getRunSeconds,
+  hasLimits,
+} from '@/db/budgets'
+import { issues as issuesTable } from '@/db/schema'
+import { getUsageTotals } from '@/db/usage'
+import { updateIssueSession } from '@/engines/engine-store'
+import type { EngineContext } from '@/engines/issue/context'
+import { emitLog } from '@/engines/issue/events'
+import { persistEntry } from '@/engines/issue/persistence/entry'
+import { dispatch } from '@/engines/issue/state'
+import type { ManagedProcess } from '@/engines/issue/types'
+import type { NormalizedLogEntry } from '@/engines/types'
+import { logger } from '@/logger'
+
+// ---------- Budget checks ----------
+
+// Lets the limit be reached, not just approached, when the timer fires
+const BUDGET_TIMER_SLACK_MS = 50
+
+/**
+ * First issue or project limit that has been reached. Run time counts every
+ * finished turn of the issue (or project) plus `liveSeconds` of the turn in
+ * progress. Usage-based limits (cost, tokens, turns) are only evaluated when
+ * `withUsage` is set, since usage only changes when a turn completes.
+ */
+export function findBudgetViolation(
+  issueId: string,
+  liveSeconds: number,
+  withUsage: boolean,
+): BudgetViolation | null {
+  const issue = db
+    .select({ projectId: issuesTable.projectId })
+    .from(issuesTable)
+    .where(eq(issuesTable.id, issueId))
+    .get()
+  if (!issue) return null
+
+  const issueLimits = getBudget(issue.projectId, issueId)
+  if (hasLimits(issueLimits)) {
+    const usage = withUsage ? getUsageTotals({ issueId }) : null
+    const elapsed = getRunSeconds({ issueId }) + liveSeconds
+    const violation = findViolation('issue', issueLimits, usage, elapsed)
+    if (violation) return violation
+  }
+
+  const projectLimits = getBudget(issue.projectId, null)
+  if (hasLimits(projectLimits)) {
+    const usage = withUsage
+      ? getUsageTotals({ projectId: issue.projectId })
+      : null
+    const elapsed = getRunSeconds({ projectId: issue.projectId }) + liveSeconds
+    return findViolation('project', projectLimits, usage, elapsed)
+  }
+  return null
+}
+
+/** Seconds until the issue or project run time limit is reached, if any. */
+function remainingRunSeconds(issueId: string): number | null {
+  const issue = db
+    .select({ projectId: issuesTable.projectId })
+    .from(issuesTable)
+    .where(eq(issuesTable.id, issueId))
+    .get()
+  if (!issue) return null
+
+  const remaining: number[] = []
+  const issueLimit = getBudget(issue.projectId, issueId).maxDurationSeconds
+  if (issueLimit !== null) {
+    remaining.push(issueLimit - getRunSeconds({ issueId }))
+  }
+  const projectLimit = getBudget(issue.projectId, null).maxDurationSeconds
+  if (projectLimit !== null) {
+    remaining.push(projectLimit - getRunSeconds({ projectId: issue.projectId }))
+  }
+  return remaining.length > 0 ? Math.min(...remaining) : null
+}
+
+export function formatBudgetViolation(violation: BudgetViolation): string {
+  const { scope, kind, limit, used } = violation
+  switch (kind) {
+    case 'cost':
+      return `Budget exceeded: cost $${used.toFixed(4)} reached the ${scope} limit of $${limit.toFixed(2)}`
+    case 'tokens':
+      return `Budget exceeded: ${used} tokens reached the ${scope} limit of ${limit}`
+    case 'turns':
+      return `Budget exceeded: ${used} turns reached the ${scope} limit of ${limit}`
+    case 'duration':
+      return `Budget exceeded: run time ${Math.round(used)}s reached the ${scope} limit of ${limit}s`
+  }
+}
+
+/**
+ * Throw when the issue may not start another turn, recording the budget
+ * stop reason so the refusal is visible on the issue.
+ */
+export async function assertWithinBudget(issueId: string): Promise<void> {
+  const violation = findBudgetViolation(issueId, 0, true)
+  if (!violation) return
+  await updateIssueSession(issueId, { stopReason: `budget:${violation.kind}` })
+  throw new Error(formatBudgetViolation(violation))
+}
+
+/**
+ * Check the running turn against its budgets. Called by the stream consumer
+ * for every entry; `turnCompleted` marks the entry that closed the turn
+ * (its usage has already been recorded). When a limit is hit the turn is
+ * interrupted and the run settles as failed with a `budget:<kind>` reason.
+ *
+ * Everything up to flagging the process is synchronous: the consumer must
+ * not yield before handing a completed turn to the settle logic, or the
+ * exit monitor can settle the run first.
+ */
+export function checkBudget(
+  ctx: EngineContext,
+  issueId: string,
+  executionId: string,
+  turnCompleted: boolean,
+): void {
+  const managed = ctx.pm.get(executionId)?.meta
+  if (!managed || managed.budgetExceeded || managed.cancelledByUser) return
+
+  const violation = findBudgetViolation(
+    issueId,
+    turnSeconds(managed),
+    turnCompleted,
+  )
+  if (!violation) return
+
+  const reason = `budget:${violation.kind}`
+  managed.budgetExceeded = violation
+  dispatch(managed, { type: 'SET_LOGICAL_FAILURE', reason })
+  dispatch(managed, { type: 'CLEAR_PENDING_INPUTS' })
+  logger.warn({ issueId, executionId, ...violation }, 'issue_budget_exceeded')
+
+  const entry: NormalizedLogEntry = {
+    entryType: 'system-message',
+    content: formatBudgetViolation(violation),
+    turnIndex: ctx.turnIndexes.get(executionId) ?? 0,
+    timestamp: new Date().toISOString(),
+    metadata: { subtype: 'budget_exceeded', ...violation },
+  }
+  const persisted = persistEntry(ctx, issueId, executionId, entry)
+  managed.logs.push(persisted ?? entry)
+  if (persisted) emitLog(ctx, issueId, executionId, persisted)
+
+  void updateIssueSession(issueId, { stopReason: reason }).catch((error) =>
+    logger.error({ issueId, error }, 'issue_budget_stop_reason_failed'),
+  )
+
+  // The turn is already over when the limit was hit by its own usage
+  if (turnCompleted || !managed.turnInFlight) return
+  void interruptTurn(managed)
+}
+
+// ---------- Run time ----------
+
+/** Wall-clock seconds of the current turn not yet added to the issue. */
+function turnSeconds(managed: ManagedProcess): number {
+  if (managed.turnClockStopped) return 0
+  return (Date.now() - managed.turnStartedAt.getTime()) / 1000
+}
+
+/**
+ * Arm a timer that checks the budget once the turn reaches the run time
+ * limit. Entry-driven checks alone never fire for an agent that hangs or
+ * goes silent. Called when a turn starts; replaces the previous timer.
+ */
+export function armBudgetTimer(
+  ctx: EngineContext,
+  managed: ManagedProcess,
+): void {
+  clearTimeout(managed.budgetTimer)
+  managed.budgetTimer = undefined
+  const remaining = remainingRunSeconds(managed.issueId)
+  if (remaining === null) return
+
+  const delayMs = Math.max(0, remaining - turnSeconds(managed)) * 1000
+  const timer = setTimeout(() => {
+    managed.budgetTimer = undefined
+    if (managed.state !== 'running' || !managed.turnInFlight) return
+    checkBudget(ctx, managed.issueId, managed.executionId, false)
+  }, delayMs + BUDGET_TIMER_SLACK_MS)
+  if (timer && typeof timer === 'object' && 'unref' in timer) timer.unref()
+  managed.budgetTimer = timer
+}
+
+/**
+ * Add the current turn's wall-clock time to the issue's run time and disarm
+ * its budget timer. Called when the turn completes and when its process
+ * exits; only the first call of a turn counts.
+ */
+export function stopTurnClock(managed: ManagedProcess): void {
+  clearTimeout(managed.budgetTimer)
+  managed.budgetTimer = undefined
+  if (managed.turnClockStopped) return
+  const seconds = turnSeconds(managed)
+  managed.turnClockStopped = true
+  try {
+    addRunSeconds(managed.issueId, seconds)
+  } catch (error) {
+    logger.warn(
+      { issueId: managed.issueId, executionId: managed.executionId, error },
+      'issue_run_time_record_failed',
+    )
+  }
+}
+
+async function interruptTurn(managed: ManagedProcess): Promise<void> {
+  try {
+    const handler = managed.process.protocolHandler
+    if (handler) await handler.interrupt()
+    else managed.process.cancel()
+  } catch (error) {
+    logger.warn(
+      { issueId: managed.issueId, executionId: managed.executionId, error },
+      'issue_budget_interrupt_failed',
+    )
+  }
+}
@@ -0,0 +1,361 @@
+import { copyFile, mkdtemp, rm, stat } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join, resolve } from 'node:path'
+import { decodeTime, monotonicFactory } from 'ulid'
+import { findProject } from '@/db/helpers'
+import { WORKTREE_DIR } from '@/engines/issue/constants'
+import { logger } from '@/logger'
+import { parseNumstat, runGit } from '@/routes/issues/_git'
+
+// ---------- Types ----------
+
+export interface Checkpoint {
+  /** ULID — also orders the timeline */
+  id: string
+  commit: string
+  /** First line of the prompt that started the turn */
+  label: string
+  createdAt: string
+}
+
+export interface CheckpointFile {
+  path: string
+  /** git name-status letter: A, M, D, T */
+  status: string
+  additions: number
+  deletions: number
+}
+
+// ---------- Storage ----------
+//
+// A checkpoint is a commit of the whole working tree (untracked files
+// included, ignored ones not) built through a throwaway index, so neither
+// the user's index nor any branch moves. It is kept alive by a hidden ref
+// `refs/bitk/checkpoints/<issueId>/<ulid>`; the ulid orders the timeline.
+
+const REF_ROOT = 'refs/bitk/checkpoints'
+const MAX_LABEL_CHARS = 120
+
+// commit-tree refuses to run without an identity, which fresh machines lack
+const IDENTITY_ENV = {
+  GIT_AUTHOR_NAME: 'BitK',
+  GIT_AUTHOR_EMAIL: 'bitk@localhost',
+  GIT_COMMITTER_NAME: 'BitK',
+  GIT_COMMITTER_EMAIL: 'bitk@localhost',
+}
+
+const refPrefix = (issueId: string) => `${REF_ROOT}/${issueId}`
+// Monotonic so checkpoints taken within one millisecond keep their order
+const nextId = monotonicFactory()
+
+async function gitOrThrow(
+  args: string[],
+  cwd: string,
+  env?: Record<string, string>,
+): Promise<string> {
+  const result = await runGit(args, cwd, env)
+  if (result.code !== 0) {
+    throw new Error(
+      `git ${args[0]} failed: ${result.stderr.trim() || result.code}`,
+    )
+  }
+  return result.stdout.trim()
+}
+
+async function isWorkTree(cwd: string): Promise<boolean> {
+  const { code, stdout } = await runGit(
+    ['rev-parse', '--is-inside-work-tree'],
+    cwd,
+  )
+  return code === 0 && stdout.trim() === 'true'
+}
+
+// Issue worktrees live inside the project checkout; never snapshot them
+const SCOPE = ['--', '.', `:(exclude)${WORKTREE_DIR}`]
+
+/**
+ * Run `fn` with GIT_INDEX_FILE pointing at a scratch index holding the
+ * current working tree. Seeding it from the real index lets `add -A`
+ * skip files whose stat data is unchanged.
+ */
+async function withSnapshotIndex<T>(
+  cwd: string,
+  fn: (env: Record<string, string>) => Promise<T>,
+): Promise<T> {
+  const dir = await mkdtemp(join(tmpdir(), 'bitk-checkpoint-'))
+  const env = { GIT_INDEX_FILE: join(dir, 'index') }
+  try {
+    const realIndex = await runGit(['rev-parse', '--git-path', 'index'], cwd)
+    if (realIndex.code === 0) {
+      await copyFile(
+        resolve(cwd, realIndex.stdout.trim()),
+        env.GIT_INDEX_FILE,
+      ).catch(() => {
+        // No index yet (fresh repo) — add -A builds it from scratch
+      })
+    }
+    await gitOrThrow(['add', '-A', ...SCOPE], cwd, env)
+    return await fn(env)
+  } finally {
+    await rm(dir, { recursive: true, force: true })
+  }
+}
+
+function toLabel(text: string): string {
+  const line = text.trim().split('\n')[0]?.trim() || 'Checkpoint'
+  return line.length > MAX_LABEL_CHARS
+    ? `${line.slice(0, MAX_LABEL_CHARS - 1)}…`
+    : line
+}
+
+async function resolveCommit(
+  cwd: string,
+  issueId: string,
+  checkpointId: string,
+): Promise<string | null> {
+  if (!/^[0-9A-HJKMNP-TV-Z]{26}$/.test(checkpointId)) return null
+  const { code, stdout } = await runGit(
+    ['rev-parse', '--verify', '-q', `${refPrefix(issueId)}/${checkpointId}`],
+    cwd,
+  )
+  return code === 0 ? stdout.trim() : null
+}
+
+// ---------- Capture & list ----------
+
+/**
+ * Directory an issue's turns run in: its worktree when it has one,
+ * otherwise the project directory. Null for projects without a directory
+ * of their own — those run in the server's cwd, which is not a workspace
+ * to snapshot.
+ */
+export async function resolveCheckpointDir(
+  projectId: string,
+  issueId: string,
+  useWorktree: boolean,
+): Promise<string | null> {
+  const project = await findProject(projectId)
+  if (!project?.directory) return null
+  const baseDir = resolve(project.directory)
+  if (!useWorktree) return baseDir
+  const worktreeDir = join(baseDir, WORKTREE_DIR, issueId)
+  try {
+    if ((await stat(worktreeDir)).isDirectory()) return worktreeDir
+  } catch {
+    // Worktree not created yet — turns fall back to the project directory
+  }
+  return baseDir
+}
+
+/** Snapshot `cwd` as a new checkpoint; null when it is not a git work tree. */
+export async function captureCheckpoint(
+  issueId: string,
+  cwd: string,
+  label: string,
+): Promise<Checkpoint | null> {
+  if (!(await isWorkTree(cwd))) return null
+  const tree = await withSnapshotIndex(cwd, (env) =>
+    gitOrThrow(['write-tree'], cwd, env),
+  )
+  const head = await runGit(['rev-parse', '--verify', '-q', 'HEAD'], cwd)
+  const parent = head.code === 0 ? ['-p', head.stdout.trim()] : []
+  const summary = toLabel(label)
+  const commit = await gitOrThrow(
+    ['commit-tree', tree, ...parent, '-m', summary],
+    cwd,
+    IDENTITY_ENV,
+  )
+  const id = nextId()
+  await gitOrThrow(['update-ref', `${refPrefix(issueId)}/${id}`, commit], cwd)
+  return {
+    id,
+    commit,
+    label: summary,
+    createdAt: new Date(decodeTime(id)).toISOString(),
+  }
+}
+
+/**
+ * Checkpoint an issue's workspace before a turn runs. Failures are logged
+ * and swallowed: a missing snapshot must never block the agent.
+ */
+export async function captureTurnCheckpoint(
+  issue: { id: string; projectId: string; useWorktree: boolean },
+  prompt: string,
+): Promise<void> {
+  try {
+    const cwd = await resolveCheckpointDir(
+      issue.projectId,
+      issue.id,
+      issue.useWorktree,
+    )
+    const checkpoint = cwd && (await captureCheckpoint(issue.id, cwd, prompt))
+    if (checkpoint) {
+      logger.debug(
+        {
+          issueId: issue.id,
+          checkpointId: checkpoint.id,
+          commit: checkpoint.commit,
+        },
+        'issue_checkpoint_captured',
+      )
+    }
+  } catch (error) {
+    logger.warn({ issueId: issue.id, error }, 'issue_checkpoint_failed')
+  }
+}
+
+/** Checkpoints of an issue, oldest first. */
+export async function listCheckpoints(
+  issueId: string,
+  cwd: string,
+): Promise<Checkpoint[]> {
+  const { code, stdout } = await runGit(
+    [
+      'for-each-ref',
+      '--sort=refname',
+      '--format=%(refname:lstrip=-1)%00%(objectname)%00%(contents:subject)',
+      `${refPrefix(issueId)}/`,
+    ],
+    cwd,
+  )
+  if (code !== 0) return []
+  return stdout
+    .split('\n')
+    .filter(Boolean)
+    .map((line) => {
+      const [id = '', commit = '', label = ''] = line.split('\0')
+      return {
+        id,
+        commit,
+        label,
+        createdAt: new Date(decodeTime(id)).toISOString(),
+      }
+    })
+}
+
+/**
+ * Delete every checkpoint ref of an issue so git can collect the commits.
+ * `cwd` may be the project checkout or any of its worktrees; they share refs.
+ */
+export async function deleteCheckpoints(
+  issueId: string,
+  cwd: string,
+): Promise<void> {
+  const { code, stdout } = await runGit(
+    ['for-each-ref', '--format=%(refname)', `${refPrefix(issueId)}/`],
+    cwd,
+  )
+  if (code !== 0) return
+  for (const ref of stdout.split('\n').filter(Boolean)) {
+    await runGit(['update-ref', '-d', ref], cwd)
+  }
+}
+
+// ---------- Diff ----------
+
+/**
+ * Tree-ish for one side of a diff: a checkpoint commit, or — for `null` —
+ * a tree of the current working tree. Returns null for unknown ids.
+ */
+async function resolveSide(
+  issueId: string,
+  cwd: string,
+  checkpointId: string | null,
+): Promise<string | null> {
+  if (checkpointId) return resolveCommit(cwd, issueId, checkpointId)
+  return withSnapshotIndex(cwd, (env) => gitOrThrow(['write-tree'], cwd, env))
+}
+
+/**
+ * Files that differ between checkpoint `from` and checkpoint `to`, or the
+ * current workspace when `to` is null. Null when a checkpoint is unknown.
+ */
+export async function diffCheckpoints(
+  issueId: string,
+  cwd: string,
+  from: string,
+  to: string | null,
+): Promise<CheckpointFile[] | null> {
+  const [a, b] = await Promise.all([
+    resolveSide(issueId, cwd, from),
+    resolveSide(issueId, cwd, to),
+  ])
+  if (!a || !b) return null
+
+  const range = [a, b, ...SCOPE]
+  const [nameStatus, numstat] = await Promise.all([
+    runGit(['diff', '--name-status', '--no-renames', ...range], cwd),
+    runGit(['diff', '--numstat', '--no-renames', ...range], cwd),
+  ])
+  const stats = parseNumstat(numstat.stdout)
+
+  const files: CheckpointFile[] = []
+  for (const line of nameStatus.stdout.split('\n')) {
+    const [status, path] = line.split('\t')
+    if (!status || !path) continue
+    const [additions, deletions] = stats.get(path) ?? [0, 0]
+    files.push({ path, status: status[0]!, additions, deletions })
+  }
+  return files.sort((x, y) => x.path.localeCompare(y.path))
+}
+
+/** Patch for one file of `diffCheckpoints`; null when a checkpoint is unknown. */
+export async function diffCheckpointFile(
+  issueId: string,
+  cwd: string,
+  from: string,
+  to: string | null,
+  path: string,
+): Promise<string | null> {
+  const [a, b] = await Promise.all([
+    resolveSide(issueId, cwd, from),
+    resolveSide(issueId, cwd, to),
+  ])
+  if (!a || !b) return null
+  const { stdout } = await runGit(
+    ['diff', '--no-color', '--no-ext-diff', '--no-renames', a, b, '--', path],
+    cwd,
+  )
+  return stdout
+}
+
+// ---------- Restore ----------
+
+/**
+ * Make the workspace match checkpoint `checkpointId`: files are rewritten,
+ * and files the checkpoint lacks are deleted. The current state is saved
+ * as a checkpoint first so the restore itself can be undone. HEAD, the
+ * index and branches are left alone. Returns null for an unknown id.
+ */
+export async function restoreCheckpoint(
+  issueId: string,
+  cwd: string,
+  checkpointId: string,
+): Promise<{ restored: Checkpoint; backup: Checkpoint | null } | null> {
+  const commit = await resolveCommit(cwd, issueId, checkpointId)
+  if (!commit) return null
+  const restored = (await listCheckpoints(issueId, cwd)).find(
+    (c) => c.id === checkpointId,
+  )!
+
+  const backup = await captureCheckpoint(
+    issueId,
+    cwd,
+    `Before restoring "${restored.label}"`,
+  )
+  // Every current file is in the scratch index, so restore also removes
+  // the ones the checkpoint does not have
+  await withSnapshotIndex(cwd, (env) =>
+    gitOrThrow(
+      ['restore', `--source=${commit}`, '--worktree', ...SCOPE],
+      cwd,
+      env,
+    ),
+  )
+  logger.info(
+    { issueId, checkpointId, commit, backupId: backup?.id },
+    'issue_checkpoint_restored',
+  )
+  return { restored, backup }
+}
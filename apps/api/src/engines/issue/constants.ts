@@ -1,7 +1,12 @@
 export const MAX_LOG_ENTRIES = 10000
 export const AUTO_CLEANUP_DELAY_MS = 5 * 60 * 1000 // 5 minutes
 export const MAX_AUTO_RETRIES = 1
+// How long the exit monitor waits for buffered stdout after the process exits
+export const STREAM_DRAIN_TIMEOUT_MS = 2000
 export const GC_INTERVAL_MS = 10 * 60 * 1000 // 10 minutes
 export const MAX_CONCURRENT_EXECUTIONS =
   Number(process.env.MAX_CONCURRENT_EXECUTIONS) || 5
 export const WORKTREE_DIR = '.bitk/worktrees'
+// Limits for the project's verification commands run after each turn
+export const VERIFY_TIMEOUT_MS = 10 * 60 * 1000 // 10 minutes per command
+export const VERIFY_OUTPUT_MAX_CHARS = 20_000
@@ -12,6 +12,10 @@ import type {
 export interface EngineContext {
   readonly pm: ProcessManager<ManagedProcess>
   readonly issueOpLocks: Map<string, Promise<void>>
+  /** Issues past their slot check whose process is not registered yet */
+  readonly startingIssues: Set<string>
+  /** Serialises execution-queue dispatch */
+  queueDispatch: Promise<number> | null
   readonly entryCounters: Map<string, number>
   readonly turnIndexes: Map<string, number>
   readonly userMessageIds: Map<string, string>
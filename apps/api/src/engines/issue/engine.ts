@@ -4,6 +4,7 @@ import type {
   NormalizedLogEntry,
   PermissionPolicy,
 } from '@/engines/types'
+import { onGuardrailDenied } from '@/events/guardrail-events'
 import { logger } from '@/logger'
 import {
   AUTO_CLEANUP_DELAY_MS,
@@ -13,13 +14,19 @@ import {
 import type { EngineContext } from './context'
 import { onIssueSettled, onLog, onStateChange } from './events'
 import { gcSweep } from './gc'
+import { recordGuardrailDenial } from './guardrails'
 import {
   cancelIssue,
+  dequeueIssue,
+  dispatchQueue,
   executeIssue,
   followUpIssue,
+  forkIssue,
   restartIssue,
   restartStaleSessions,
+  rewindIssue,
 } from './orchestration'
+import { getLogsFromDb } from './persistence'
 import {
   cancelAll,
   getLogs,
@@ -54,6 +61,8 @@ export class IssueEngine {
     this.ctx = {
       pm,
       issueOpLocks: new Map(),
+      startingIssues: new Set(),
+      queueDispatch: null,
       entryCounters: new Map(),
       turnIndexes: new Map(),
       userMessageIds: new Map(),
@@ -96,6 +105,14 @@ export class IssueEngine {
       this.gcTimer.unref()
     }
 
+    // Start queued executions as running ones settle
+    onIssueSettled(this.ctx, () => {
+      void dispatchQueue(this.ctx)
+    })
+
+    // Log tool calls blocked by project guardrails on the issue
+    onGuardrailDenied((denial) => recordGuardrailDenial(this.ctx, denial))
+
     // Sync PM auto-cleanup with domain data
     pm.onStateChange((entry) => {
       const state = entry.state
@@ -116,12 +133,17 @@ export class IssueEngine {
     issueId: string,
     opts: {
       engineType: EngineType
+      engineProfileId?: string | null
       prompt: string
       workingDir?: string
       model?: string
       permissionMode?: PermissionPolicy
     },
-  ): Promise<{ executionId: string; messageId?: string | null }> {
+  ): Promise<{
+    executionId?: string
+    messageId?: string | null
+    queued?: boolean
+  }> {
     return executeIssue(this.ctx, issueId, opts)
   }
 
@@ -146,10 +168,32 @@ export class IssueEngine {
     )
   }
 
+  async forkIssue(
+    issueId: string,
+    opts: Parameters<typeof forkIssue>[2],
+  ): Promise<{
+    executionId?: string
+    messageId?: string | null
+    queued?: boolean
+  }> {
+    return forkIssue(this.ctx, issueId, opts)
+  }
+
   async restartIssue(issueId: string): Promise<{ executionId: string }> {
     return restartIssue(this.ctx, issueId)
   }
 
+  async rewindIssue(
+    issueId: string,
+    opts: Parameters<typeof rewindIssue>[2],
+  ): Promise<{
+    executionId: string
+    messageId?: string | null
+    branchId: string
+  }> {
+    return rewindIssue(this.ctx, issueId, opts)
+  }
+
   async cancelIssue(issueId: string): Promise<'interrupted' | 'cancelled'> {
     return cancelIssue(this.ctx, issueId)
   }
@@ -158,6 +202,15 @@ export class IssueEngine {
     return restartStaleSessions()
   }
 
+  /** Start queued executions while slots are free */
+  async dispatchQueue(): Promise<number> {
+    return dispatchQueue(this.ctx)
+  }
+
+  async dequeueIssue(issueId: string): Promise<boolean> {
+    return dequeueIssue(issueId)
+  }
+
   // ---- Process queries ----
 
   getLogs(
@@ -172,6 +225,15 @@ export class IssueEngine {
     return getLogs(this.ctx, issueId, devMode, opts)
   }
 
+  /** Entries hidden by one rewind, oldest first */
+  getBranchLogs(
+    issueId: string,
+    branchId: string,
+    devMode = false,
+  ): NormalizedLogEntry[] {
+    return getLogsFromDb(issueId, devMode, { branchId })
+  }
+
   getProcess(executionId: string): ManagedProcess | undefined {
     return getProcess(this.ctx, executionId)
   }
@@ -184,6 +246,11 @@ export class IssueEngine {
     return isTurnInFlight(this.ctx, issueId)
   }
 
+  /** Number of running processes, counted against MAX_CONCURRENT_EXECUTIONS */
+  activeCount(): number {
+    return this.ctx.pm.activeCount()
+  }
+
   getSlashCommands(issueId: string): string[] {
     return getSlashCommands(this.ctx, issueId)
   }
@@ -0,0 +1,45 @@
+import type { EngineContext } from '@/engines/issue/context'
+import { emitLog } from '@/engines/issue/events'
+import { persistEntry } from '@/engines/issue/persistence/entry'
+import { getActiveProcessForIssue } from '@/engines/issue/process/state'
+import { scrubSecrets } from '@/engines/issue/utils/secrets'
+import type { NormalizedLogEntry } from '@/engines/types'
+import type { GuardrailDenial } from '@/events/guardrail-events'
+
+export function formatGuardrailDenial(denial: GuardrailDenial): string {
+  const { toolName, subject, rule } = denial
+  const target = subject ? `${toolName} (${subject})` : toolName
+  return `Blocked by guardrail: ${target} matches ${rule.kind} rule "${rule.pattern}"`
+}
+
+/**
+ * Record a tool call blocked by a project guardrail on the issue's running
+ * turn, so the refusal shows up in its log next to the agent's reaction.
+ */
+export function recordGuardrailDenial(
+  ctx: EngineContext,
+  denial: GuardrailDenial,
+): void {
+  const managed = getActiveProcessForIssue(ctx, denial.issueId)
+  if (!managed) return
+  const { issueId, toolName, toolCallId, rule } = denial
+  const { executionId } = managed
+
+  const entry = scrubSecrets(issueId, {
+    entryType: 'error-message',
+    content: formatGuardrailDenial(denial),
+    turnIndex: ctx.turnIndexes.get(executionId) ?? 0,
+    timestamp: new Date().toISOString(),
+    metadata: {
+      subtype: 'guardrail_denied',
+      toolName,
+      toolCallId,
+      ruleId: rule.id,
+      kind: rule.kind,
+      pattern: rule.pattern,
+    },
+  } satisfies NormalizedLogEntry)
+  const persisted = persistEntry(ctx, issueId, executionId, entry)
+  managed.logs.push(persisted ?? entry)
+  if (persisted) emitLog(ctx, issueId, executionId, persisted)
+}
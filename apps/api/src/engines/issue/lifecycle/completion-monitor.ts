@@ -1,5 +1,10 @@
 import { updateIssueSession } from '@/engines/engine-store'
-import { MAX_AUTO_RETRIES } from '@/engines/issue/constants'
+import { forgetAlwaysAllowed } from '@/engines/issue/approvals'
+import { stopTurnClock } from '@/engines/issue/budget'
+import {
+  MAX_AUTO_RETRIES,
+  STREAM_DRAIN_TIMEOUT_MS,
+} from '@/engines/issue/constants'
 import type { EngineContext } from '@/engines/issue/context'
 import { emitStateChange } from '@/engines/issue/events'
 import { cleanupDomainData, syncPmState } from '@/engines/issue/process/state'
@@ -57,7 +62,14 @@ export function monitorCompletion(
   void (async () => {
     try {
       const exitCode = await managed.process.subprocess.exited
+      // Let the consumer finish the final entries (result, usage, budget
+      // checks) so the settle below sees the turn's real outcome.
+      await Promise.race([
+        managed.stdoutDrained,
+        Bun.sleep(STREAM_DRAIN_TIMEOUT_MS),
+      ])
       dispatch(managed, { type: 'SET_EXIT_CODE', exitCode })
+      stopTurnClock(managed)
       logger.info(
         {
           issueId,
@@ -80,12 +92,17 @@ export function monitorCompletion(
           dispatch(managed, { type: 'MARK_COMPLETED' })
         else dispatch(managed, { type: 'MARK_FAILED' })
         syncPmState(ctx, executionId, finalState)
+        forgetAlwaysAllowed(issueId)
 
         // When the turn was already settled as failed due to a session ID error,
         // reset the session and auto-retry with a fresh session.
         if (finalState === 'failed' && isSessionIdError(managed)) {
           await resetBrokenSession(issueId, executionId)
-          if (!isRetry && managed.retryCount < MAX_AUTO_RETRIES) {
+          if (
+            !isRetry &&
+            !managed.budgetExceeded &&
+            managed.retryCount < MAX_AUTO_RETRIES
+          ) {
             managed.retryCount++
             logger.info(
               { issueId, executionId, retryCount: managed.retryCount },
@@ -184,8 +201,13 @@ export function monitorCompletion(
           await resetBrokenSession(issueId, executionId)
         }
 
-        // Auto-retry logic (in-memory only, no DB writes for retryCount)
-        if (!isRetry && managed.retryCount < MAX_AUTO_RETRIES) {
+        // Auto-retry logic (in-memory only, no DB writes for retryCount).
+        // Budget stops are deliberate and never retried.
+        if (
+          !isRetry &&
+          !managed.budgetExceeded &&
+          managed.retryCount < MAX_AUTO_RETRIES
+        ) {
           managed.retryCount++
           logger.info(
             { issueId, executionId, retryCount: managed.retryCount },
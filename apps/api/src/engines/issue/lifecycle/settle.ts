@@ -1,4 +1,8 @@
 import { autoMoveToReview, updateIssueSession } from '@/engines/engine-store'
+import {
+  cancelPendingApprovals,
+  forgetAlwaysAllowed,
+} from '@/engines/issue/approvals'
 import type { EngineContext } from '@/engines/issue/context'
 import { emitIssueSettled } from '@/engines/issue/events'
 import { cleanupDomainData } from '@/engines/issue/process/state'
@@ -10,6 +14,8 @@ export async function settleIssue(
   executionId: string,
   status: string,
 ): Promise<void> {
+  cancelPendingApprovals(issueId)
+  forgetAlwaysAllowed(issueId)
   await updateIssueSession(issueId, { sessionStatus: status })
   await autoMoveToReview(issueId)
   cleanupDomainData(ctx, executionId)
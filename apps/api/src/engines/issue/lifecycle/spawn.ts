@@ -1,10 +1,12 @@
 import { stat } from 'node:fs/promises'
 import { join } from 'node:path'
 import { getIssueWithSession, updateIssueSession } from '@/engines/engine-store'
-import { engineRegistry } from '@/engines/executors'
+import { createApprovalHandler } from '@/engines/issue/approvals'
+import { captureTurnCheckpoint } from '@/engines/issue/checkpoints'
 import { WORKTREE_DIR } from '@/engines/issue/constants'
 import type { EngineContext } from '@/engines/issue/context'
 import { emitStateChange } from '@/engines/issue/events'
+import type { TranscriptMessage } from '@/engines/issue/persistence'
 import { getNextTurnIndex } from '@/engines/issue/persistence/queries'
 import {
   ensureNoActiveProcess,
@@ -12,6 +14,7 @@ import {
 } from '@/engines/issue/process/guards'
 import { register } from '@/engines/issue/process/register'
 import { persistUserMessage } from '@/engines/issue/user-message'
+import { buildExecutionEnv } from '@/engines/issue/utils/execution-env'
 import {
   getPermissionOptions,
   isMissingExternalSessionError,
@@ -19,9 +22,12 @@ import {
 } from '@/engines/issue/utils/helpers'
 import { createLogNormalizer } from '@/engines/issue/utils/normalizer'
 import { getPidFromSubprocess } from '@/engines/issue/utils/pid'
+import { buildReplayPrompt } from '@/engines/issue/utils/replay'
 import { setIssueDevMode } from '@/engines/issue/utils/visibility'
 import { createWorktree } from '@/engines/issue/utils/worktree'
+import { resolveProfileExecutor } from '@/engines/profiles'
 import type {
+  EngineExecutor,
   EngineType,
   PermissionPolicy,
   SpawnedProcess,
@@ -32,11 +38,42 @@ import { handleTurnCompleted } from './turn-completion'
 
 // ---------- Spawn helpers ----------
 
+/** Working directory for a new turn: the issue's worktree (reused or created) or the project dir. */
+async function resolveTurnWorkingDir(
+  issueId: string,
+  projectId: string,
+  useWorktree: boolean,
+): Promise<{ workingDir: string; worktreePath?: string }> {
+  const baseDir = await resolveWorkingDir(projectId)
+  if (!useWorktree) return { workingDir: baseDir }
+
+  // Reuse existing worktree if issue has worktree enabled
+  const candidatePath = join(baseDir, WORKTREE_DIR, issueId)
+  try {
+    const s = await stat(candidatePath)
+    if (s.isDirectory()) {
+      return { workingDir: candidatePath, worktreePath: candidatePath }
+    }
+  } catch {
+    // Worktree dir doesn't exist — create fresh
+    try {
+      const worktreePath = await createWorktree(baseDir, issueId)
+      return { workingDir: worktreePath, worktreePath }
+    } catch (wtErr) {
+      logger.warn(
+        { issueId, error: wtErr },
+        'worktree_creation_failed_fallback_to_base',
+      )
+    }
+  }
+  return { workingDir: baseDir }
+}
+
 /**
  * Try spawnFollowUp; if the external session is missing, fall back to a fresh spawn.
  */
 export async function spawnWithSessionFallback(
-  executor: ReturnType<typeof engineRegistry.get> & object,
+  executor: EngineExecutor,
   issueId: string,
   opts: {
     workingDir: string
@@ -45,14 +82,19 @@ export async function spawnWithSessionFallback(
     model?: string
     permissionMode: string
     projectId: string
+    executionId: string
   },
 ): Promise<SpawnedProcess> {
-  const spawnCtx = {
-    vars: {},
-    workingDir: opts.workingDir,
-    projectId: opts.projectId,
+  const spawnCtx = await buildExecutionEnv(
     issueId,
-  }
+    opts.projectId,
+    opts.workingDir,
+  )
+  const onApprovalRequest = createApprovalHandler(
+    issueId,
+    opts.executionId,
+    executor.engineType,
+  )
   try {
     return await executor.spawnFollowUp(
       {
@@ -61,6 +103,7 @@ export async function spawnWithSessionFallback(
         sessionId: opts.sessionId,
         model: opts.model,
         permissionMode: opts.permissionMode,
+        onApprovalRequest,
       },
       spawnCtx,
     )
@@ -82,6 +125,7 @@ export async function spawnWithSessionFallback(
         model: opts.model,
         permissionMode: opts.permissionMode,
         externalSessionId,
+        onApprovalRequest,
       },
       spawnCtx,
     )
@@ -94,7 +138,7 @@ export async function spawnWithSessionFallback(
 
 /** Spawn a fresh process (no existing session). */
 export async function spawnFresh(
-  executor: ReturnType<typeof engineRegistry.get> & object,
+  executor: EngineExecutor,
   issueId: string,
   opts: {
     workingDir: string
@@ -102,8 +146,14 @@ export async function spawnFresh(
     model?: string
     permissionMode: string
     projectId: string
+    executionId: string
   },
 ): Promise<SpawnedProcess> {
+  const onApprovalRequest = createApprovalHandler(
+    issueId,
+    opts.executionId,
+    executor.engineType,
+  )
   const externalSessionId = crypto.randomUUID()
   const spawned = await executor.spawn(
     {
@@ -112,18 +162,100 @@ export async function spawnFresh(
       model: opts.model,
       permissionMode: opts.permissionMode,
       externalSessionId,
+      onApprovalRequest,
     },
+    await buildExecutionEnv(issueId, opts.projectId, opts.workingDir),
+  )
+  await updateIssueSession(issueId, {
+    externalSessionId: spawned.externalSessionId ?? externalSessionId,
+  })
+  return spawned
+}
+
+/**
+ * Spawn a turn that continues the conversation from an earlier message.
+ * Engines with `session-fork` resume `sessionId` at `resetToMessageId`
+ * (into a new session when `forkSession` is set); the rest, or a missing
+ * session, start a fresh session whose prompt replays `transcript` first.
+ */
+export async function spawnAtMessage(
+  executor: EngineExecutor,
+  issueId: string,
+  opts: {
+    workingDir: string
+    prompt: string
+    transcript: TranscriptMessage[]
+    sessionId?: string | null
+    resetToMessageId?: string | null
+    forkSession?: boolean
+    model?: string
+    permissionMode: PermissionPolicy
+    projectId: string
+    executionId: string
+  },
+): Promise<{ spawned: SpawnedProcess; replayed: boolean }> {
+  const spawnCtx = await buildExecutionEnv(
+    issueId,
+    opts.projectId,
+    opts.workingDir,
+  )
+  const onApprovalRequest = createApprovalHandler(
+    issueId,
+    opts.executionId,
+    executor.engineType,
+  )
+  const externalSessionId = crypto.randomUUID()
+
+  if (
+    executor.capabilities.includes('session-fork') &&
+    opts.sessionId &&
+    opts.resetToMessageId
+  ) {
+    try {
+      const spawned = await executor.spawnFollowUp(
+        {
+          workingDir: opts.workingDir,
+          prompt: opts.prompt,
+          sessionId: opts.sessionId,
+          resetToMessageId: opts.resetToMessageId,
+          forkSession: opts.forkSession,
+          externalSessionId: opts.forkSession ? externalSessionId : undefined,
+          model: opts.model,
+          permissionMode: opts.permissionMode,
+          onApprovalRequest,
+        },
+        spawnCtx,
+      )
+      if (opts.forkSession) {
+        await updateIssueSession(issueId, {
+          externalSessionId: spawned.externalSessionId ?? externalSessionId,
+        })
+      }
+      return { spawned, replayed: false }
+    } catch (error) {
+      if (!isMissingExternalSessionError(error)) throw error
+      logger.warn(
+        { issueId, sessionId: opts.sessionId },
+        'resume_at_message_session_missing_replaying',
+      )
+    }
+  }
+
+  const spawned = await executor.spawn(
     {
-      vars: {},
       workingDir: opts.workingDir,
-      projectId: opts.projectId,
-      issueId,
+      prompt: buildReplayPrompt(opts.transcript, opts.prompt),
+      model: opts.model,
+      permissionMode: opts.permissionMode,
+      externalSessionId,
+      onApprovalRequest,
     },
+    spawnCtx,
   )
   await updateIssueSession(issueId, {
     externalSessionId: spawned.externalSessionId ?? externalSessionId,
   })
-  return spawned
+  return { spawned, replayed: true }
 }
 
 export async function spawnRetry(
@@ -137,11 +269,13 @@ export async function spawnRetry(
 
   ensureNoActiveProcess(ctx, issueId)
 
-  const executor = engineRegistry.get(engineType)
-  if (!executor) throw new Error(`No executor for engine type: ${engineType}`)
+  const { executor, profile } = await resolveProfileExecutor(
+    issue.engineProfileId,
+    engineType,
+  )
 
   const workingDir = await resolveWorkingDir(issue.projectId)
-  const permOptions = getPermissionOptions(engineType)
+  const permOptions = getPermissionOptions(profile)
   const executionId = crypto.randomUUID()
 
   const spawnOpts = {
@@ -150,6 +284,7 @@ export async function spawnRetry(
     model: issue.sessionFields.model ?? undefined,
     permissionMode: permOptions.permissionMode,
     projectId: issue.projectId,
+    executionId,
   }
   const spawned = issue.sessionFields.externalSessionId
     ? await spawnWithSessionFallback(executor, issueId, {
@@ -205,8 +340,10 @@ export async function spawnFollowUpProcess(
   await killExistingSubprocessForIssue(ctx, issueId)
 
   const engineType = issue.sessionFields.engineType
-  const executor = engineRegistry.get(engineType)
-  if (!executor) throw new Error(`No executor for engine type: ${engineType}`)
+  const { executor, profile } = await resolveProfileExecutor(
+    issue.engineProfileId,
+    engineType,
+  )
 
   if (model && model !== issue.sessionFields.model) {
     await updateIssueSession(issueId, { model })
@@ -233,34 +370,16 @@ export async function spawnFollowUpProcess(
     metadata,
   )
 
-  const baseDir = await resolveWorkingDir(issue.projectId)
-
-  // Reuse existing worktree if issue has worktree enabled
-  let workingDir = baseDir
-  let worktreePath: string | undefined
-  if (issue.useWorktree) {
-    const candidatePath = join(baseDir, WORKTREE_DIR, issueId)
-    try {
-      const s = await stat(candidatePath)
-      if (s.isDirectory()) {
-        worktreePath = candidatePath
-        workingDir = candidatePath
-      }
-    } catch {
-      // Worktree dir doesn't exist — create fresh
-      try {
-        worktreePath = await createWorktree(baseDir, issueId)
-        workingDir = worktreePath
-      } catch (wtErr) {
-        logger.warn(
-          { issueId, error: wtErr },
-          'worktree_creation_failed_fallback_to_base',
-        )
-      }
-    }
+  const { workingDir, worktreePath } = await resolveTurnWorkingDir(
+    issueId,
+    issue.projectId,
+    issue.useWorktree,
+  )
+  if (metadata?.type !== 'system') {
+    await captureTurnCheckpoint(issue, prompt)
   }
 
-  const permOptions = getPermissionOptions(engineType, permissionMode)
+  const permOptions = getPermissionOptions(profile, permissionMode)
 
   let spawned: SpawnedProcess
   try {
@@ -271,6 +390,7 @@ export async function spawnFollowUpProcess(
       model: effectiveModel,
       permissionMode: permOptions.permissionMode,
       projectId: issue.projectId,
+      executionId,
     })
   } catch (spawnError) {
     // Spawn failed after we already emitted 'running' and persisted the user
@@ -318,3 +438,115 @@ export async function spawnFollowUpProcess(
 
   return { executionId, messageId }
 }
+
+/**
+ * Run a turn that continues the issue's conversation from an earlier
+ * message (see spawnAtMessage). Same flow as spawnFollowUpProcess: the user
+ * message is persisted and 'running' emitted before the slow spawn.
+ */
+export async function spawnTurnAtMessage(
+  ctx: EngineContext,
+  issueId: string,
+  opts: {
+    prompt: string
+    transcript: TranscriptMessage[]
+    sessionId?: string | null
+    resetToMessageId?: string | null
+    forkSession?: boolean
+    permissionMode?: PermissionPolicy
+    metadata?: Record<string, unknown>
+  },
+): Promise<{ executionId: string; messageId?: string | null }> {
+  const issue = await getIssueWithSession(issueId)
+  if (!issue) throw new Error(`Issue not found: ${issueId}`)
+  setIssueDevMode(issueId, issue.devMode)
+  if (!issue.sessionFields.engineType)
+    throw new Error('No engine type set on issue')
+
+  const engineType = issue.sessionFields.engineType
+  const { executor, profile } = await resolveProfileExecutor(
+    issue.engineProfileId,
+    engineType,
+  )
+
+  const executionId = crypto.randomUUID()
+  await updateIssueSession(issueId, { sessionStatus: 'running' })
+
+  const turnIndex = getNextTurnIndex(issueId)
+  ctx.entryCounters.set(executionId, 0)
+  ctx.turnIndexes.set(executionId, turnIndex)
+  emitStateChange(ctx, issueId, executionId, 'running')
+  const messageId = persistUserMessage(
+    ctx,
+    issueId,
+    executionId,
+    opts.prompt,
+    undefined,
+    opts.metadata,
+  )
+
+  const { workingDir, worktreePath } = await resolveTurnWorkingDir(
+    issueId,
+    issue.projectId,
+    issue.useWorktree,
+  )
+  await captureTurnCheckpoint(issue, opts.prompt)
+  const model = issue.sessionFields.model ?? undefined
+  const permOptions = getPermissionOptions(profile, opts.permissionMode)
+
+  let result: Awaited<ReturnType<typeof spawnAtMessage>>
+  try {
+    result = await spawnAtMessage(executor, issueId, {
+      workingDir,
+      prompt: opts.prompt,
+      transcript: opts.transcript,
+      sessionId: opts.sessionId,
+      resetToMessageId: opts.resetToMessageId,
+      forkSession: opts.forkSession,
+      model,
+      permissionMode: permOptions.permissionMode,
+      projectId: issue.projectId,
+      executionId,
+    })
+  } catch (spawnError) {
+    logger.error(
+      { issueId, executionId, error: spawnError },
+      'spawn_failed_reverting_session',
+    )
+    await updateIssueSession(issueId, { sessionStatus: 'failed' }).catch((e) =>
+      logger.error({ issueId, error: e }, 'spawn_failed_revert_session_error'),
+    )
+    emitStateChange(ctx, issueId, executionId, 'failed')
+    ctx.entryCounters.delete(executionId)
+    ctx.turnIndexes.delete(executionId)
+    throw spawnError
+  }
+  const { spawned, replayed } = result
+
+  const normalizer = await createLogNormalizer(executor)
+  register(
+    ctx,
+    executionId,
+    issueId,
+    spawned,
+    (line) => normalizer.parse(line),
+    turnIndex,
+    worktreePath,
+    false,
+    () => handleTurnCompleted(ctx, issueId, executionId),
+  )
+  monitorCompletion(ctx, executionId, issueId, engineType, false)
+  logger.info(
+    {
+      issueId,
+      executionId,
+      pid: getPidFromSubprocess(spawned.subprocess),
+      engineType,
+      turnIndex,
+      replayed,
+    },
+    'issue_turn_at_message_spawned',
+  )
+
+  return { executionId, messageId }
+}
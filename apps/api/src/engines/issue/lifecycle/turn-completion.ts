@@ -7,11 +7,14 @@ import {
   getIssueWithSession,
   updateIssueSession,
 } from '@/engines/engine-store'
+import { stopTurnClock } from '@/engines/issue/budget'
+import { captureTurnCheckpoint } from '@/engines/issue/checkpoints'
 import type { EngineContext } from '@/engines/issue/context'
 import { emitIssueSettled, emitStateChange } from '@/engines/issue/events'
 import { dispatch } from '@/engines/issue/state'
 import type { ManagedProcess } from '@/engines/issue/types'
 import { sendInputToRunningProcess } from '@/engines/issue/user-message'
+import { verifyTurn } from '@/engines/issue/verification'
 import type { ProcessStatus } from '@/engines/types'
 import { logger } from '@/logger'
 
@@ -24,7 +27,10 @@ export function handleTurnCompleted(
 ): void {
   const managed = ctx.pm.get(executionId)?.meta
   if (!managed || managed.state !== 'running') return
+  // Captured before TURN_COMPLETED resets it: meta turns are not verified
+  const metaTurn = managed.metaTurn
   dispatch(managed, { type: 'TURN_COMPLETED' })
+  stopTurnClock(managed)
   logger.debug(
     { issueId, executionId, queued: managed.pendingInputs.length },
     'issue_turn_completed',
@@ -79,8 +85,10 @@ export function handleTurnCompleted(
       // If the user sent messages while the engine was busy, they were queued
       // as pending in the DB. Merge ALL pending messages (with attachments)
       // into a single follow-up prompt so the AI processes them in one turn.
-      const { prompt: pendingPrompt, pendingIds } =
-        await collectPendingWithAttachments(issueId)
+      // A budget stop leaves them pending until the user raises the limit.
+      const { prompt: pendingPrompt, pendingIds } = managed.budgetExceeded
+        ? { prompt: '', pendingIds: [] }
+        : await collectPendingWithAttachments(issueId)
       if (pendingIds.length > 0) {
         logger.info(
           { issueId, executionId, pendingCount: pendingIds.length },
@@ -101,6 +109,16 @@ export function handleTurnCompleted(
         }
       }
 
+      // Run the project's checks on a finished turn; failures may go back
+      // to the agent as a follow-up instead of moving to review.
+      if (
+        finalStatus === 'completed' &&
+        !metaTurn &&
+        (await verifyTurn(ctx, issueId, managed))
+      ) {
+        return
+      }
+
       // Guard: if a follow-up reactivated the issue while this async block
       // was running, the DB sessionStatus will no longer match finalStatus.
       // Emitting a stale settled event would cause the frontend to block
@@ -171,12 +189,17 @@ export async function flushQueuedInputs(
   if (lastModel) {
     await updateIssueSession(issueId, { model: lastModel })
   }
+  const lastMetadata = all[all.length - 1]?.metadata
+  if (lastMetadata?.type !== 'system') {
+    const issue = await getIssueWithSession(issueId)
+    if (issue) await captureTurnCheckpoint(issue, mergedPrompt)
+  }
   sendInputToRunningProcess(
     ctx,
     issueId,
     managed,
     mergedPrompt,
     mergedDisplay,
-    all[all.length - 1]?.metadata,
+    lastMetadata,
   )
 }
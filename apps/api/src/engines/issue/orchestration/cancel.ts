@@ -1,4 +1,8 @@
 import { updateIssueSession } from '@/engines/engine-store'
+import {
+  cancelPendingApprovals,
+  forgetAlwaysAllowed,
+} from '@/engines/issue/approvals'
 import type { EngineContext } from '@/engines/issue/context'
 import { cancel } from '@/engines/issue/process/cancel'
 import { withIssueLock } from '@/engines/issue/process/lock'
@@ -6,6 +10,7 @@ import { getActiveProcesses } from '@/engines/issue/process/state'
 import { dispatch } from '@/engines/issue/state'
 import { getPidFromManaged } from '@/engines/issue/utils/pid'
 import { logger } from '@/logger'
+import { dequeueIssue } from './queue'
 
 export async function cancelIssue(
   ctx: EngineContext,
@@ -13,6 +18,10 @@ export async function cancelIssue(
 ): Promise<'interrupted' | 'cancelled'> {
   return withIssueLock(ctx, issueId, async () => {
     logger.info({ issueId }, 'issue_cancel_requested')
+    // Unblock engines waiting on a tool approval before interrupting them
+    cancelPendingApprovals(issueId)
+    forgetAlwaysAllowed(issueId)
+    await dequeueIssue(issueId)
     const active = getActiveProcesses(ctx).filter((p) => p.issueId === issueId)
     for (const p of active) {
       logger.debug(
@@ -1,32 +1,58 @@
+import { enqueueExecution, removeFromQueue } from '@/db/execution-queue'
 import { getEngineDefaultModel } from '@/db/helpers'
 import { getIssueWithSession, updateIssueSession } from '@/engines/engine-store'
-import { engineRegistry } from '@/engines/executors'
+import { createApprovalHandler } from '@/engines/issue/approvals'
+import { assertWithinBudget } from '@/engines/issue/budget'
+import { captureTurnCheckpoint } from '@/engines/issue/checkpoints'
 import type { EngineContext } from '@/engines/issue/context'
 import { monitorCompletion } from '@/engines/issue/lifecycle/completion-monitor'
 import { handleTurnCompleted } from '@/engines/issue/lifecycle/turn-completion'
-import { ensureNoActiveProcess } from '@/engines/issue/process/guards'
+import {
+  ensureNoActiveProcess,
+  hasFreeSlot,
+  reclaimIdleSlot,
+} from '@/engines/issue/process/guards'
 import { withIssueLock } from '@/engines/issue/process/lock'
 import { register } from '@/engines/issue/process/register'
 import { persistUserMessage } from '@/engines/issue/user-message'
+import { buildExecutionEnv } from '@/engines/issue/utils/execution-env'
 import { getPermissionOptions } from '@/engines/issue/utils/helpers'
 import { createLogNormalizer } from '@/engines/issue/utils/normalizer'
 import { getPidFromSubprocess } from '@/engines/issue/utils/pid'
 import { setIssueDevMode } from '@/engines/issue/utils/visibility'
 import { createWorktree } from '@/engines/issue/utils/worktree'
-import type { EngineType, PermissionPolicy } from '@/engines/types'
+import { resolveProfileExecutor } from '@/engines/profiles'
+import type {
+  EngineExecutor,
+  EngineProfile,
+  EngineType,
+  PermissionPolicy,
+} from '@/engines/types'
+import { emitIssueUpdated } from '@/events/issue-events'
 import { logger } from '@/logger'
 
+/**
+ * Start a first run of an issue. When every execution slot is taken the run
+ * is queued instead (sessionStatus stays `pending`) and started by
+ * dispatchQueue once a slot frees up; the result then has no executionId.
+ */
 export async function executeIssue(
   ctx: EngineContext,
   issueId: string,
   opts: {
     engineType: EngineType
+    /** Profile to run with; defaults to the issue's own when it derives from `engineType` */
+    engineProfileId?: string | null
     prompt: string
     workingDir?: string
     model?: string
     permissionMode?: PermissionPolicy
   },
-): Promise<{ executionId: string; messageId?: string | null }> {
+): Promise<{
+  executionId?: string
+  messageId?: string | null
+  queued?: boolean
+}> {
   return withIssueLock(ctx, issueId, async () => {
     logger.debug(
       {
@@ -42,97 +68,154 @@ export async function executeIssue(
     setIssueDevMode(issueId, issue.devMode)
 
     ensureNoActiveProcess(ctx, issueId)
+    await assertWithinBudget(issueId)
 
-    const executor = engineRegistry.get(opts.engineType)
-    if (!executor)
-      throw new Error(`No executor for engine type: ${opts.engineType}`)
+    const { executor, profile } = await resolveProfileExecutor(
+      opts.engineProfileId !== undefined
+        ? opts.engineProfileId
+        : issue.engineProfileId,
+      opts.engineType,
+    )
+    const engineProfileId = profile.builtIn ? null : profile.id!
 
-    let model = opts.model
+    let model = opts.model ?? profile.defaultModel
     if (!model) {
       const defaultModel = await getEngineDefaultModel(opts.engineType)
       if (defaultModel) model = defaultModel
     }
 
-    await updateIssueSession(issueId, {
-      engineType: opts.engineType,
-      sessionStatus: 'running',
-      prompt: opts.prompt,
-      model,
-    })
-
-    const baseDir = opts.workingDir ?? process.cwd()
-    let workingDir = baseDir
-    let worktreePath: string | undefined
-
-    if (issue.useWorktree) {
-      try {
-        worktreePath = await createWorktree(baseDir, issueId)
-        workingDir = worktreePath
-      } catch (error) {
-        logger.warn(
-          { issueId, error },
-          'worktree_creation_failed_fallback_to_base',
-        )
+    if (!hasFreeSlot(ctx) && !reclaimIdleSlot(ctx)) {
+      await enqueueExecution({
+        issueId,
+        projectId: issue.projectId,
+        engineType: opts.engineType,
+        prompt: opts.prompt,
+        model,
+        permissionMode: opts.permissionMode,
+        workingDir: opts.workingDir,
+      })
+      await updateIssueSession(issueId, {
+        engineType: opts.engineType,
+        engineProfileId,
+        sessionStatus: 'pending',
+        prompt: opts.prompt,
+        model,
+      })
+      emitIssueUpdated(issueId, { sessionStatus: 'pending', queued: true })
+      logger.info({ issueId }, 'issue_execute_queued')
+      return { queued: true }
+    }
+
+    // Reserve the slot across the awaits below; released once registered
+    ctx.startingIssues.add(issueId)
+    try {
+      if (await removeFromQueue(issueId)) {
+        emitIssueUpdated(issueId, { queued: false })
       }
+      return await spawnExecution(ctx, issueId, issue, executor, profile, {
+        ...opts,
+        model,
+      })
+    } finally {
+      ctx.startingIssues.delete(issueId)
     }
+  })
+}
 
-    const permOptions = getPermissionOptions(
-      opts.engineType,
-      opts.permissionMode,
-    )
-    const externalSessionId = crypto.randomUUID()
-    const executionId = crypto.randomUUID()
+async function spawnExecution(
+  ctx: EngineContext,
+  issueId: string,
+  issue: NonNullable<Awaited<ReturnType<typeof getIssueWithSession>>>,
+  executor: EngineExecutor,
+  profile: EngineProfile,
+  opts: {
+    engineType: EngineType
+    prompt: string
+    workingDir?: string
+    model?: string
+    permissionMode?: PermissionPolicy
+  },
+): Promise<{ executionId: string; messageId?: string | null }> {
+  const model = opts.model
 
-    const spawned = await executor.spawn(
-      {
-        workingDir,
-        prompt: opts.prompt,
-        model,
-        permissionMode: permOptions.permissionMode,
-        externalSessionId,
-      },
-      {
-        vars: {},
-        workingDir,
-        projectId: issue.projectId,
-        issueId,
-      },
-    )
+  await updateIssueSession(issueId, {
+    engineType: opts.engineType,
+    engineProfileId: profile.builtIn ? null : profile.id!,
+    sessionStatus: 'running',
+    prompt: opts.prompt,
+    model,
+  })
 
-    // Allow executor to override the external session ID (e.g. Codex uses server-generated thread IDs)
-    const finalExternalSessionId =
-      spawned.externalSessionId ?? externalSessionId
-    await updateIssueSession(issueId, {
-      externalSessionId: finalExternalSessionId,
-    })
-    logger.info(
-      {
+  const baseDir = opts.workingDir ?? process.cwd()
+  let workingDir = baseDir
+  let worktreePath: string | undefined
+
+  if (issue.useWorktree) {
+    try {
+      worktreePath = await createWorktree(baseDir, issueId)
+      workingDir = worktreePath
+    } catch (error) {
+      logger.warn(
+        { issueId, error },
+        'worktree_creation_failed_fallback_to_base',
+      )
+    }
+  }
+
+  await captureTurnCheckpoint(issue, opts.prompt)
+
+  const permOptions = getPermissionOptions(profile, opts.permissionMode)
+  const externalSessionId = crypto.randomUUID()
+  const executionId = crypto.randomUUID()
+
+  const spawned = await executor.spawn(
+    {
+      workingDir,
+      prompt: opts.prompt,
+      model,
+      permissionMode: permOptions.permissionMode,
+      externalSessionId,
+      onApprovalRequest: createApprovalHandler(
         issueId,
         executionId,
-        pid: getPidFromSubprocess(spawned.subprocess),
-        engineType: opts.engineType,
-        externalSessionId: finalExternalSessionId,
-        worktreePath,
-      },
-      'issue_execute_spawned',
-    )
-
-    const normalizer = await createLogNormalizer(executor)
+        opts.engineType,
+      ),
+    },
+    await buildExecutionEnv(issueId, issue.projectId, workingDir),
+  )
 
-    register(
-      ctx,
-      executionId,
+  // Allow executor to override the external session ID (e.g. Codex uses server-generated thread IDs)
+  const finalExternalSessionId = spawned.externalSessionId ?? externalSessionId
+  await updateIssueSession(issueId, {
+    externalSessionId: finalExternalSessionId,
+  })
+  logger.info(
+    {
       issueId,
-      spawned,
-      (line) => normalizer.parse(line),
-      0,
+      executionId,
+      pid: getPidFromSubprocess(spawned.subprocess),
+      engineType: opts.engineType,
+      externalSessionId: finalExternalSessionId,
       worktreePath,
-      false,
-      () => handleTurnCompleted(ctx, issueId, executionId),
-    )
-    const messageId = persistUserMessage(ctx, issueId, executionId, opts.prompt)
-    monitorCompletion(ctx, executionId, issueId, opts.engineType, false)
+    },
+    'issue_execute_spawned',
+  )
 
-    return { executionId, messageId }
-  })
+  const normalizer = await createLogNormalizer(executor)
+
+  register(
+    ctx,
+    executionId,
+    issueId,
+    spawned,
+    (line) => normalizer.parse(line),
+    0,
+    worktreePath,
+    false,
+    () => handleTurnCompleted(ctx, issueId, executionId),
+  )
+  const messageId = persistUserMessage(ctx, issueId, executionId, opts.prompt)
+  monitorCompletion(ctx, executionId, issueId, opts.engineType, false)
+
+  return { executionId, messageId }
 }
@@ -1,8 +1,11 @@
 import { getIssueWithSession, updateIssueSession } from '@/engines/engine-store'
 import { engineRegistry } from '@/engines/executors'
+import { assertWithinBudget } from '@/engines/issue/budget'
+import { captureTurnCheckpoint } from '@/engines/issue/checkpoints'
 import type { EngineContext } from '@/engines/issue/context'
 import { spawnFollowUpProcess } from '@/engines/issue/lifecycle/spawn'
 import { cancel } from '@/engines/issue/process/cancel'
+import { assertFreeSlot } from '@/engines/issue/process/guards'
 import { withIssueLock } from '@/engines/issue/process/lock'
 import { getActiveProcessForIssue } from '@/engines/issue/process/state'
 import { dispatch } from '@/engines/issue/state'
@@ -41,6 +44,7 @@ export async function followUpIssue(
       throw new Error('No external session ID for follow-up')
     if (!issue.sessionFields.engineType)
       throw new Error('No engine type set on issue')
+    await assertWithinBudget(issueId)
 
     const engineType = issue.sessionFields.engineType
     const executor = engineRegistry.get(engineType)
@@ -123,6 +127,9 @@ export async function followUpIssue(
 
       // Engine is idle: send immediately on existing process.
       // If this races with process exit, fall back to spawning a follow-up process.
+      if (metadata?.type !== 'system') {
+        await captureTurnCheckpoint(issue, prompt)
+      }
       try {
         const msgId = sendInputToRunningProcess(
           ctx,
@@ -155,6 +162,7 @@ export async function followUpIssue(
       }
     }
 
+    assertFreeSlot(ctx)
     logger.debug(
       { issueId, engineType, model: effectiveModel },
       'issue_followup_spawn_new_process',
@@ -0,0 +1,87 @@
+import { enqueueExecution, removeFromQueue } from '@/db/execution-queue'
+import { getIssueWithSession } from '@/engines/engine-store'
+import { assertWithinBudget } from '@/engines/issue/budget'
+import type { EngineContext } from '@/engines/issue/context'
+import { spawnTurnAtMessage } from '@/engines/issue/lifecycle/spawn'
+import type { TranscriptMessage } from '@/engines/issue/persistence'
+import {
+  ensureNoActiveProcess,
+  hasFreeSlot,
+  reclaimIdleSlot,
+} from '@/engines/issue/process/guards'
+import { withIssueLock } from '@/engines/issue/process/lock'
+import type { PermissionPolicy } from '@/engines/types'
+import { emitIssueUpdated } from '@/events/issue-events'
+import { logger } from '@/logger'
+
+/**
+ * Start the first turn of a forked issue whose transcript was already copied
+ * from its source. Engines with `session-fork` resume the source session at
+ * the fork point into a new session; the rest start a fresh session whose
+ * prompt replays the copied conversation before the new message. When every
+ * execution slot is taken the fork is queued like executeIssue does, and
+ * started by dispatchQueue from its copied transcript.
+ */
+export async function forkIssue(
+  ctx: EngineContext,
+  issueId: string,
+  opts: {
+    prompt: string
+    transcript: TranscriptMessage[]
+    /** Source issue's engine session, when it has one */
+    sourceSessionId?: string | null
+    /** Engine-side message id of the fork point */
+    resetToMessageId?: string | null
+    permissionMode?: PermissionPolicy
+  },
+): Promise<{
+  executionId?: string
+  messageId?: string | null
+  queued?: boolean
+}> {
+  return withIssueLock(ctx, issueId, async () => {
+    const issue = await getIssueWithSession(issueId)
+    if (!issue) throw new Error(`Issue not found: ${issueId}`)
+
+    ensureNoActiveProcess(ctx, issueId)
+    await assertWithinBudget(issueId)
+
+    if (!hasFreeSlot(ctx) && !reclaimIdleSlot(ctx)) {
+      const engineType = issue.sessionFields.engineType
+      if (!engineType) throw new Error('No engine type set on issue')
+      await enqueueExecution({
+        issueId,
+        projectId: issue.projectId,
+        engineType,
+        prompt: opts.prompt,
+        model: issue.sessionFields.model,
+        permissionMode: opts.permissionMode,
+        fork: {
+          sessionId: opts.sourceSessionId ?? null,
+          resetToMessageId: opts.resetToMessageId ?? null,
+        },
+      })
+      emitIssueUpdated(issueId, { sessionStatus: 'pending', queued: true })
+      logger.info({ issueId }, 'issue_fork_queued')
+      return { queued: true }
+    }
+
+    // Reserve the slot across the awaits below; released once registered
+    ctx.startingIssues.add(issueId)
+    try {
+      if (await removeFromQueue(issueId)) {
+        emitIssueUpdated(issueId, { queued: false })
+      }
+      return await spawnTurnAtMessage(ctx, issueId, {
+        prompt: opts.prompt,
+        transcript: opts.transcript,
+        sessionId: opts.sourceSessionId,
+        resetToMessageId: opts.resetToMessageId,
+        forkSession: true,
+        permissionMode: opts.permissionMode,
+      })
+    } finally {
+      ctx.startingIssues.delete(issueId)
+    }
+  })
+}
@@ -1,4 +1,7 @@
 export { cancelIssue } from './cancel'
 export { executeIssue } from './execute'
 export { followUpIssue } from './follow-up'
+export { forkIssue } from './fork'
+export { dequeueIssue, dispatchQueue } from './queue'
 export { restartIssue, restartStaleSessions } from './restart'
+export { rewindIssue } from './rewind'
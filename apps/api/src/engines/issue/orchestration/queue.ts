@@ -0,0 +1,106 @@
+import {
+  parseForkOptions,
+  peekQueue,
+  removeFromQueue,
+} from '@/db/execution-queue'
+import { getProjectWorkflow } from '@/db/project-statuses'
+import { getIssueWithSession, updateIssueSession } from '@/engines/engine-store'
+import type { EngineContext } from '@/engines/issue/context'
+import { getTranscript } from '@/engines/issue/persistence'
+import { hasFreeSlot, reclaimIdleSlot } from '@/engines/issue/process/guards'
+import type { EngineType, PermissionPolicy } from '@/engines/types'
+import { emitIssueUpdated } from '@/events/issue-events'
+import { logger } from '@/logger'
+import { executeIssue } from './execute'
+import { forkIssue } from './fork'
+
+/** Remove an issue from the execution queue, e.g. when it leaves the
+ *  execution column. Returns whether it was queued. */
+export async function dequeueIssue(issueId: string): Promise<boolean> {
+  const removed = await removeFromQueue(issueId)
+  if (removed) {
+    emitIssueUpdated(issueId, { queued: false })
+    logger.info({ issueId }, 'issue_dequeued')
+  }
+  return removed
+}
+
+/** Whether a queued issue should still run: not deleted, still in its
+ *  project's execution column and not already running. */
+async function isRunnable(ctx: EngineContext, issueId: string) {
+  const issue = await getIssueWithSession(issueId)
+  if (!issue || ctx.pm.hasActiveInGroup(issueId)) return false
+  const workflow = await getProjectWorkflow(issue.projectId)
+  return workflow.roleOf(issue.statusId) === 'execution'
+}
+
+async function drainQueue(ctx: EngineContext): Promise<number> {
+  let started = 0
+  while (true) {
+    const head = await peekQueue()
+    if (!head) break
+    if (!(await isRunnable(ctx, head.issueId))) {
+      await dequeueIssue(head.issueId)
+      continue
+    }
+    if (!hasFreeSlot(ctx) && !reclaimIdleSlot(ctx)) break
+
+    try {
+      const permissionMode = (head.permissionMode ?? undefined) as
+        | PermissionPolicy
+        | undefined
+      const fork = parseForkOptions(head)
+      const result = fork
+        ? await forkIssue(ctx, head.issueId, {
+            prompt: head.prompt,
+            transcript: getTranscript(head.issueId),
+            sourceSessionId: fork.sessionId,
+            resetToMessageId: fork.resetToMessageId,
+            permissionMode,
+          })
+        : await executeIssue(ctx, head.issueId, {
+            engineType: head.engineType as EngineType,
+            prompt: head.prompt,
+            workingDir: head.workingDir ?? undefined,
+            model: head.model ?? undefined,
+            permissionMode,
+          })
+      // Another execution took the slot first; the entry is still queued
+      if (result.queued) break
+      started++
+      logger.info({ issueId: head.issueId }, 'queue_dispatched')
+    } catch (error) {
+      await removeFromQueue(head.issueId)
+      const message =
+        error instanceof Error ? error.message : 'queue_dispatch_failed'
+      logger.error({ issueId: head.issueId, error }, 'queue_dispatch_failed')
+      ctx.lastErrors.set(head.issueId, message)
+      await updateIssueSession(head.issueId, { sessionStatus: 'failed' })
+      emitIssueUpdated(head.issueId, {
+        sessionStatus: 'failed',
+        queued: false,
+      })
+    }
+  }
+  return started
+}
+
+/**
+ * Start queued executions, highest in the queue first, while slots are
+ * free. Calls are chained so two dispatches never race for the same entry.
+ * Resolves with the number of executions started by this call.
+ */
+export function dispatchQueue(ctx: EngineContext): Promise<number> {
+  const run = (ctx.queueDispatch ?? Promise.resolve(0))
+    .catch(() => 0)
+    .then(() => drainQueue(ctx))
+  ctx.queueDispatch = run
+  void run
+    .catch((error) => {
+      logger.error({ error }, 'queue_dispatch_error')
+    })
+    .finally(() => {
+      if (ctx.queueDispatch === run) ctx.queueDispatch = null
+    })
+  return run
+}
@@ -1,6 +1,7 @@
 import { cleanupStaleSessions } from '@/db/helpers'
 import { getIssueWithSession, updateIssueSession } from '@/engines/engine-store'
-import { engineRegistry } from '@/engines/executors'
+import { createApprovalHandler } from '@/engines/issue/approvals'
+import { captureTurnCheckpoint } from '@/engines/issue/checkpoints'
 import type { EngineContext } from '@/engines/issue/context'
 import { monitorCompletion } from '@/engines/issue/lifecycle/completion-monitor'
 import { spawnFresh } from '@/engines/issue/lifecycle/spawn'
@@ -9,12 +10,14 @@ import { getNextTurnIndex } from '@/engines/issue/persistence/queries'
 import { ensureNoActiveProcess } from '@/engines/issue/process/guards'
 import { withIssueLock } from '@/engines/issue/process/lock'
 import { register } from '@/engines/issue/process/register'
+import { buildExecutionEnv } from '@/engines/issue/utils/execution-env'
 import {
   getPermissionOptions,
   resolveWorkingDir,
 } from '@/engines/issue/utils/helpers'
 import { createLogNormalizer } from '@/engines/issue/utils/normalizer'
 import { createWorktree } from '@/engines/issue/utils/worktree'
+import { resolveProfileExecutor } from '@/engines/profiles'
 import { logger } from '@/logger'
 
 export async function restartIssue(
@@ -36,8 +39,10 @@ export async function restartIssue(
     ensureNoActiveProcess(ctx, issueId)
 
     const engineType = issue.sessionFields.engineType
-    const executor = engineRegistry.get(engineType)
-    if (!executor) throw new Error(`No executor for engine type: ${engineType}`)
+    const { executor, profile } = await resolveProfileExecutor(
+      issue.engineProfileId,
+      engineType,
+    )
 
     await updateIssueSession(issueId, { sessionStatus: 'running' })
 
@@ -58,7 +63,9 @@ export async function restartIssue(
       }
     }
 
-    const permOptions = getPermissionOptions(engineType)
+    await captureTurnCheckpoint(issue, issue.sessionFields.prompt)
+
+    const permOptions = getPermissionOptions(profile)
     const executionId = crypto.randomUUID()
 
     const spawnOpts = {
@@ -67,6 +74,7 @@ export async function restartIssue(
       model: issue.sessionFields.model ?? undefined,
       permissionMode: permOptions.permissionMode,
       projectId: issue.projectId,
+      executionId,
     }
     const spawned = issue.sessionFields.externalSessionId
       ? await executor.spawnFollowUp(
@@ -76,8 +84,13 @@ export async function restartIssue(
             sessionId: issue.sessionFields.externalSessionId,
             model: spawnOpts.model,
             permissionMode: spawnOpts.permissionMode,
+            onApprovalRequest: createApprovalHandler(
+              issueId,
+              executionId,
+              engineType,
+            ),
           },
-          { vars: {}, workingDir, projectId: issue.projectId, issueId },
+          await buildExecutionEnv(issueId, issue.projectId, workingDir),
         )
       : await spawnFresh(executor, issueId, spawnOpts)
 
@@ -0,0 +1,84 @@
+import { getIssueWithSession } from '@/engines/engine-store'
+import { assertWithinBudget } from '@/engines/issue/budget'
+import type { EngineContext } from '@/engines/issue/context'
+import { spawnTurnAtMessage } from '@/engines/issue/lifecycle/spawn'
+import { restoreRewind, rewindLogs } from '@/engines/issue/persistence'
+import {
+  assertFreeSlot,
+  hasFreeSlot,
+  killExistingSubprocessForIssue,
+  reclaimIdleSlot,
+} from '@/engines/issue/process/guards'
+import { withIssueLock } from '@/engines/issue/process/lock'
+import { getActiveProcessForIssue } from '@/engines/issue/process/state'
+import type { PermissionPolicy } from '@/engines/types'
+import { logger } from '@/logger'
+
+/**
+ * Replace a past user message with `prompt`: entries from that message on
+ * are hidden as an alternate branch and the session continues from the
+ * reply before it — natively for `session-fork` engines, by replaying the
+ * kept transcript into a fresh session otherwise.
+ */
+export async function rewindIssue(
+  ctx: EngineContext,
+  issueId: string,
+  opts: {
+    /** Log entry id of the user message being replaced */
+    messageId: string
+    prompt: string
+    permissionMode?: PermissionPolicy
+  },
+): Promise<{
+  executionId: string
+  messageId?: string | null
+  branchId: string
+}> {
+  return withIssueLock(ctx, issueId, async () => {
+    const issue = await getIssueWithSession(issueId)
+    if (!issue) throw new Error(`Issue not found: ${issueId}`)
+    if (!issue.sessionFields.engineType)
+      throw new Error('No engine type set on issue')
+    await assertWithinBudget(issueId)
+
+    const active = getActiveProcessForIssue(ctx, issueId)
+    if (active && (active.turnInFlight || active.state !== 'running')) {
+      throw new Error('Cancel the running turn before editing a message')
+    }
+    // An idle conversational process still holds the old session tail
+    await killExistingSubprocessForIssue(ctx, issueId)
+    if (!hasFreeSlot(ctx)) reclaimIdleSlot(ctx)
+    assertFreeSlot(ctx)
+
+    const rewind = rewindLogs(issueId, opts.messageId)
+    logger.info(
+      {
+        issueId,
+        fromMessageId: opts.messageId,
+        branchId: rewind.branchId,
+        resumeAt: rewind.resumeAt,
+      },
+      'issue_rewound',
+    )
+
+    try {
+      const result = await spawnTurnAtMessage(ctx, issueId, {
+        prompt: opts.prompt,
+        transcript: rewind.transcript,
+        sessionId: issue.sessionFields.externalSessionId,
+        resetToMessageId: rewind.resumeAt,
+        permissionMode: opts.permissionMode,
+        metadata: { branchId: rewind.branchId, editedFrom: opts.messageId },
+      })
+      return { ...result, branchId: rewind.branchId }
+    } catch (error) {
+      // Keep the conversation the user had rather than a hidden one
+      restoreRewind(issueId, opts.messageId, rewind.branchId)
+      logger.warn(
+        { issueId, branchId: rewind.branchId, error },
+        'issue_rewind_restored',
+      )
+      throw error
+    }
+  })
+}
@@ -0,0 +1,83 @@
+import { and, asc, eq, lte } from 'drizzle-orm'
+import { monotonicFactory } from 'ulid'
+import { db } from '@/db'
+import {
+  issueLogs as logsTable,
+  issuesLogsToolsCall as toolsTable,
+} from '@/db/schema'
+import type { TranscriptMessage } from './transcript'
+import { toTranscript } from './transcript'
+
+// Copies are inserted in one burst; a monotonic factory keeps ULID order
+// (and therefore transcript order) even within the same millisecond.
+const nextId = monotonicFactory()
+
+// Rows per INSERT, well under SQLite's bound-parameter limit
+const INSERT_BATCH = 200
+
+/**
+ * Copy an issue's visible log entries, up to and including `untilLogId`,
+ * into another issue with their turn/entry indexes and tool details.
+ * Returns the copied user and assistant messages, oldest first.
+ */
+export function copyLogsUntil(
+  sourceIssueId: string,
+  targetIssueId: string,
+  untilLogId: string,
+): TranscriptMessage[] {
+  return db.transaction((tx) => {
+    const rows = tx
+      .select()
+      .from(logsTable)
+      .where(
+        and(
+          eq(logsTable.issueId, sourceIssueId),
+          eq(logsTable.visible, 1),
+          eq(logsTable.isDeleted, 0),
+          lte(logsTable.id, untilLogId),
+        ),
+      )
+      .orderBy(asc(logsTable.id))
+      .all()
+    if (rows.length === 0) return []
+
+    const idMap = new Map(rows.map((row) => [row.id, nextId()]))
+    const tools = tx
+      .select()
+      .from(toolsTable)
+      .where(eq(toolsTable.issueId, sourceIssueId))
+      .all()
+      .filter((tool) => idMap.has(tool.logId))
+    const toolIdMap = new Map(tools.map((tool) => [tool.id, nextId()]))
+
+    const logCopies = rows.map((row) => ({
+      ...row,
+      id: idMap.get(row.id)!,
+      issueId: targetIssueId,
+      replyToMessageId: row.replyToMessageId
+        ? (idMap.get(row.replyToMessageId) ?? null)
+        : null,
+      toolCallRefId: row.toolCallRefId
+        ? (toolIdMap.get(row.toolCallRefId) ?? null)
+        : null,
+    }))
+    for (let i = 0; i < logCopies.length; i += INSERT_BATCH) {
+      tx.insert(logsTable)
+        .values(logCopies.slice(i, i + INSERT_BATCH))
+        .run()
+    }
+    const toolCopies = tools.map((tool) => ({
+      ...tool,
+      id: toolIdMap.get(tool.id)!,
+      logId: idMap.get(tool.logId)!,
+      issueId: targetIssueId,
+    }))
+    for (let i = 0; i < toolCopies.length; i += INSERT_BATCH) {
+      tx.insert(toolsTable)
+        .values(toolCopies.slice(i, i + INSERT_BATCH))
+        .run()
+    }
+
+    return toTranscript(rows)
+  })
+}
@@ -1,8 +1,13 @@
 export { persistEntry } from './entry'
+export { copyLogsUntil } from './fork'
 export { persistLogEntry } from './log-entry'
-export { getLogsFromDb, getNextTurnIndex } from './queries'
+export { getLogsFromDb, getNextTurnIndex, getTranscript } from './queries'
+export type { RewindResult } from './rewind'
+export { restoreRewind, rewindLogs } from './rewind'
 export {
   buildToolDetail,
   persistToolDetail,
   rawToToolAction,
 } from './tool-detail'
+export type { TranscriptMessage } from './transcript'
+export { persistTurnUsage } from './usage'
@@ -1,4 +1,4 @@
-import { and, asc, desc, eq, gt, inArray, lt, max } from 'drizzle-orm'
+import { and, asc, desc, eq, gt, inArray, lt, max, or, sql } from 'drizzle-orm'
 import { db } from '@/db'
 import {
   issueLogs as logsTable,
@@ -8,6 +8,8 @@ import { MAX_LOG_ENTRIES } from '@/engines/issue/constants'
 import { isVisibleForMode } from '@/engines/issue/utils/visibility'
 import type { NormalizedLogEntry } from '@/engines/types'
 import { rawToToolAction } from './tool-detail'
+import type { TranscriptMessage } from './transcript'
+import { toTranscript } from './transcript'
 
 /**
  * Fetch logs from DB with tool detail join.
@@ -24,18 +26,31 @@ export function getLogsFromDb(
     cursor?: string // ULID id — fetch entries strictly after this
     before?: string // ULID id — fetch entries strictly before this
     limit?: number
+    branchId?: string // read a rewound branch instead of the live transcript
   },
 ): NormalizedLogEntry[] {
   // visible=1 filter preserves pending-message dedup (dispatched entries set visible=0).
-  // Non-devMode pre-filters by entryType for performance (skips thinking, error-message, etc.).
-  const conditions = [eq(logsTable.issueId, issueId), eq(logsTable.visible, 1)]
+  // Non-devMode pre-filters by entryType for performance (skips thinking, error-message, etc.,
+  // except errors recording a guardrail block).
+  const conditions = [
+    eq(logsTable.issueId, issueId),
+    opts?.branchId
+      ? eq(logsTable.branchId, opts.branchId)
+      : eq(logsTable.visible, 1),
+  ]
   if (!devMode) {
     conditions.push(
-      inArray(logsTable.entryType, [
-        'user-message',
-        'assistant-message',
-        'system-message',
-      ]),
+      or(
+        inArray(logsTable.entryType, [
+          'user-message',
+          'assistant-message',
+          'system-message',
+        ]),
+        and(
+          eq(logsTable.entryType, 'error-message'),
+          sql`json_extract(${logsTable.metadata}, '$.subtype') = 'guardrail_denied'`,
+        ),
+      )!,
     )
   }
 
@@ -115,6 +130,27 @@ export function getLogsFromDb(
     .filter((entry) => isVisibleForMode(entry, devMode))
 }
 
+/** The visible user and assistant messages of an issue, oldest first. */
+export function getTranscript(issueId: string): TranscriptMessage[] {
+  const rows = db
+    .select({
+      entryType: logsTable.entryType,
+      content: logsTable.content,
+      metadata: logsTable.metadata,
+    })
+    .from(logsTable)
+    .where(
+      and(
+        eq(logsTable.issueId, issueId),
+        eq(logsTable.visible, 1),
+        eq(logsTable.isDeleted, 0),
+      ),
+    )
+    .orderBy(asc(logsTable.id))
+    .all()
+  return toTranscript(rows)
+}
+
 /** Get next turn index from DB for an issue. */
 export function getNextTurnIndex(issueId: string): number {
   const [row] = db
@@ -0,0 +1,93 @@
+import { and, asc, eq, gte, lt } from 'drizzle-orm'
+import { ulid } from 'ulid'
+import { db } from '@/db'
+import { issueLogs as logsTable } from '@/db/schema'
+import type { TranscriptMessage } from './transcript'
+import { parseMetadata, toTranscript } from './transcript'
+
+export interface RewindResult {
+  /** Groups the hidden entries; they stay readable as an alternate history */
+  branchId: string
+  /** Conversation before the rewound message */
+  transcript: TranscriptMessage[]
+  /** Engine message id of the last assistant reply kept that has one */
+  resumeAt: string | null
+}
+
+/**
+ * Hide an issue's visible log entries from `fromLogId` on (inclusive) under a
+ * new branch id. Rows are kept, so the dropped turns can still be shown.
+ */
+export function rewindLogs(issueId: string, fromLogId: string): RewindResult {
+  return db.transaction((tx) => {
+    const kept = tx
+      .select()
+      .from(logsTable)
+      .where(
+        and(
+          eq(logsTable.issueId, issueId),
+          eq(logsTable.visible, 1),
+          eq(logsTable.isDeleted, 0),
+          lt(logsTable.id, fromLogId),
+        ),
+      )
+      .orderBy(asc(logsTable.id))
+      .all()
+
+    const branchId = ulid()
+    tx.update(logsTable)
+      .set({ visible: 0, branchId })
+      .where(
+        and(
+          eq(logsTable.issueId, issueId),
+          eq(logsTable.visible, 1),
+          gte(logsTable.id, fromLogId),
+        ),
+      )
+      .run()
+
+    const transcript = toTranscript(kept)
+    let resumeAt: string | null = null
+    for (const row of kept) {
+      if (row.entryType !== 'assistant-message') continue
+      const metadata = parseMetadata(row.metadata)
+      if (metadata?.type === 'system') continue
+      if (typeof metadata?.messageId === 'string') resumeAt = metadata.messageId
+    }
+    return {
+      branchId,
+      transcript,
+      resumeAt,
+    }
+  })
+}
+
+/**
+ * Undo rewindLogs when the edited turn could not start: entries written
+ * since (the edited message) are dropped and the hidden branch is shown
+ * again, leaving the conversation as it was.
+ */
+export function restoreRewind(
+  issueId: string,
+  fromLogId: string,
+  branchId: string,
+): void {
+  db.transaction((tx) => {
+    tx.update(logsTable)
+      .set({ isDeleted: 1 })
+      .where(
+        and(
+          eq(logsTable.issueId, issueId),
+          eq(logsTable.visible, 1),
+          gte(logsTable.id, fromLogId),
+        ),
+      )
+      .run()
+    tx.update(logsTable)
+      .set({ visible: 1, branchId: null })
+      .where(
+        and(eq(logsTable.issueId, issueId), eq(logsTable.branchId, branchId)),
+      )
+      .run()
+  })
+}
@@ -110,6 +110,7 @@ export function rawToToolAction(
         kind: 'tool',
         toolName:
           (action?.toolName as string) ?? (rawData.toolName as string) ?? '',
+        server: action?.server as string | undefined,
       }
     default:
       return {
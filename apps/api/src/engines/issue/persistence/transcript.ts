@@ -0,0 +1,35 @@
+export interface TranscriptMessage {
+  entryType: 'user-message' | 'assistant-message'
+  content: string
+}
+
+/** The user and assistant messages among `rows`, in the given order. */
+export function toTranscript(
+  rows: Array<{ entryType: string; content: string; metadata: string | null }>,
+): TranscriptMessage[] {
+  return rows.flatMap((row) =>
+    (row.entryType === 'user-message' ||
+      row.entryType === 'assistant-message') &&
+    isConversational(row.metadata)
+      ? [{ entryType: row.entryType, content: row.content }]
+      : [],
+  )
+}
+
+// Meta turns (auto-title etc.) are engine chatter and turn results repeat
+// the reply; neither is part of the conversation
+function isConversational(metadata: string | null): boolean {
+  const parsed = parseMetadata(metadata)
+  return parsed?.type !== 'system' && parsed?.source !== 'result'
+}
+
+export function parseMetadata(
+  metadata: string | null,
+): Record<string, unknown> | null {
+  if (!metadata) return null
+  try {
+    return JSON.parse(metadata)
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,70 @@
+import { eq } from 'drizzle-orm'
+import { db } from '@/db'
+import { issues as issuesTable, issueUsage } from '@/db/schema'
+import type { NormalizedLogEntry } from '@/engines/types'
+import { logger } from '@/logger'
+
+function count(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0
+    ? value
+    : 0
+}
+
+/**
+ * Record the token usage and cost reported by a turn-completion entry.
+ * Entries that carry no usage at all (e.g. engines that don't report it)
+ * are skipped. Returns the inserted row id, or null when nothing was stored.
+ */
+export function persistTurnUsage(
+  issueId: string,
+  executionId: string,
+  entry: NormalizedLogEntry,
+): string | null {
+  const meta = entry.metadata ?? {}
+  const inputTokens = count(meta.inputTokens)
+  const outputTokens = count(meta.outputTokens)
+  const cacheReadTokens = count(meta.cacheReadTokens)
+  const cacheWriteTokens = count(meta.cacheWriteTokens)
+  const costUsd = count(meta.costUsd)
+  if (
+    inputTokens + outputTokens + cacheReadTokens + cacheWriteTokens === 0 &&
+    costUsd === 0
+  ) {
+    return null
+  }
+
+  try {
+    const issue = db
+      .select({
+        projectId: issuesTable.projectId,
+        engineType: issuesTable.engineType,
+        model: issuesTable.model,
+      })
+      .from(issuesTable)
+      .where(eq(issuesTable.id, issueId))
+      .get()
+    if (!issue) return null
+
+    const row = db
+      .insert(issueUsage)
+      .values({
+        issueId,
+        projectId: issue.projectId,
+        executionId,
+        turnIndex: entry.turnIndex ?? 0,
+        engineType: issue.engineType,
+        model: typeof meta.model === 'string' ? meta.model : issue.model,
+        inputTokens,
+        outputTokens,
+        cacheReadTokens,
+        cacheWriteTokens,
+        costUsd,
+      })
+      .returning({ id: issueUsage.id })
+      .get()
+    return row.id
+  } catch (error) {
+    logger.warn({ err: error, issueId, executionId }, 'persistTurnUsage failed')
+    return null
+  }
+}
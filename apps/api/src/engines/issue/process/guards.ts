@@ -1,3 +1,4 @@
+import { MAX_CONCURRENT_EXECUTIONS } from '@/engines/issue/constants'
 import type { EngineContext } from '@/engines/issue/context'
 import { getPidFromManaged } from '@/engines/issue/utils/pid'
 import { logger } from '@/logger'
@@ -17,6 +18,57 @@ export function ensureNoActiveProcess(
   }
 }
 
+/** Whether another process may start without exceeding the concurrency cap.
+ *  Executions between their slot check and registration count as running. */
+export function hasFreeSlot(ctx: EngineContext): boolean {
+  return (
+    ctx.pm.activeCount() + ctx.startingIssues.size < MAX_CONCURRENT_EXECUTIONS
+  )
+}
+
+/** Throw before spawning rather than orphan a process the process manager
+ *  would refuse to register. */
+export function assertFreeSlot(ctx: EngineContext): void {
+  if (!hasFreeSlot(ctx)) {
+    throw new Error(
+      `Concurrency limit reached (${MAX_CONCURRENT_EXECUTIONS} running). Try again when a running issue finishes.`,
+    )
+  }
+}
+
+/**
+ * Free a slot held by a conversational engine that finished its turn and is
+ * only idling for follow-up input. Its session stays resumable: the next
+ * follow-up spawns a fresh process on the same external session.
+ */
+export function reclaimIdleSlot(ctx: EngineContext): boolean {
+  const idle = ctx.pm
+    .getActive()
+    .filter(
+      (e) =>
+        e.meta.state === 'running' &&
+        e.meta.turnSettled &&
+        !e.meta.turnInFlight &&
+        e.meta.pendingInputs.length === 0 &&
+        !ctx.issueOpLocks.has(e.meta.issueId),
+    )
+    .sort(
+      (a, b) => a.meta.turnStartedAt.getTime() - b.meta.turnStartedAt.getTime(),
+    )[0]
+  if (!idle) return false
+
+  logger.info(
+    { issueId: idle.meta.issueId, executionId: idle.id },
+    'queue_reclaimed_idle_process',
+  )
+  void ctx.pm
+    .terminate(idle.id, () => idle.subprocess.kill())
+    .catch((error) => {
+      logger.warn({ executionId: idle.id, error }, 'queue_reclaim_failed')
+    })
+  return true
+}
+
 /** Kill any existing subprocess for this issue (regardless of managed state).
  *  Used as a safety guard before spawning a new follow-up process to prevent
  *  duplicate CLI processes for the same session. */
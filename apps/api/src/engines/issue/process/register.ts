@@ -1,3 +1,4 @@
+import { armBudgetTimer, checkBudget } from '@/engines/issue/budget'
 import { MAX_LOG_ENTRIES } from '@/engines/issue/constants'
 import type { EngineContext } from '@/engines/issue/context'
 import { emitStateChange } from '@/engines/issue/events'
@@ -33,7 +34,11 @@ export function register(
     process,
     state: 'running',
     startedAt: new Date(),
+    turnStartedAt: new Date(),
+    turnClockStopped: false,
+    reportedCostUsd: 0,
     logs: new RingBuffer<NormalizedLogEntry>(MAX_LOG_ENTRIES),
+    stdoutDrained: Promise.resolve(),
     retryCount: 0,
     turnInFlight: true,
     queueCancelRequested: false,
@@ -60,6 +65,7 @@ export function register(
     ctx.entryCounters.set(executionId, 0)
   }
   ctx.turnIndexes.set(executionId, turnIndex)
+  armBudgetTimer(ctx, managed)
   if (!alreadyInitialised) {
     emitStateChange(ctx, issueId, executionId, 'running')
   }
@@ -69,6 +75,8 @@ export function register(
     getTurnIndex: () => ctx.turnIndexes.get(executionId) ?? 0,
     onEntry: (entry) => handleStreamEntry(ctx, issueId, executionId, entry),
     onTurnCompleted,
+    onBudgetCheck: (turnCompleted) =>
+      checkBudget(ctx, issueId, executionId, turnCompleted),
     onStreamError: (error) =>
       handleStreamError(ctx, issueId, executionId, error),
   }
@@ -79,7 +87,7 @@ export function register(
       handleStderrEntry(ctx, issueId, executionId, entry),
   }
 
-  consumeStream(
+  managed.stdoutDrained = consumeStream(
     executionId,
     issueId,
     process.stdout,
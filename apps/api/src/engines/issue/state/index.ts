@@ -5,6 +5,9 @@ export function dispatch(managed: ManagedProcess, action: ManagedAction): void {
   switch (action.type) {
     case 'START_TURN':
       managed.turnInFlight = true
+      managed.turnStartedAt = new Date()
+      managed.turnClockStopped = false
+      managed.budgetExceeded = undefined
       managed.queueCancelRequested = false
       managed.turnSettled = false
       managed.logicalFailure = false
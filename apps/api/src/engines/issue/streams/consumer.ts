@@ -1,5 +1,7 @@
 import { setAppSetting } from '@/db/helpers'
+import { persistTurnUsage } from '@/engines/issue/persistence/usage'
 import type { ManagedProcess } from '@/engines/issue/types'
+import { scrubSecrets, scrubSecretText } from '@/engines/issue/utils/secrets'
 import { normalizeStream } from '@/engines/logs'
 import type { NormalizedLogEntry } from '@/engines/types'
 import { isCancelledNoiseEntry, isTurnCompletionEntry } from './classification'
@@ -16,12 +18,15 @@ export interface StreamCallbacks {
   getTurnIndex: () => number
   onEntry: (entry: NormalizedLogEntry) => void
   onTurnCompleted: () => void
+  /** Enforce budget limits; synchronous so a hit limit is seen by the settle. */
+  onBudgetCheck: (turnCompleted: boolean) => void
   onStreamError: (error: unknown) => void
 }
 
 // ---------- Helpers ----------
 
 function pushStderrEntry(
+  issueId: string,
   managed: ManagedProcess,
   content: string,
   turnIndex: number,
@@ -29,7 +34,7 @@ function pushStderrEntry(
 ): void {
   const entry: NormalizedLogEntry = {
     entryType: 'error-message',
-    content,
+    content: scrubSecretText(issueId, content),
     turnIndex,
     timestamp: new Date().toISOString(),
   }
@@ -37,6 +42,21 @@ function pushStderrEntry(
   onEntry(entry)
 }
 
+/**
+ * Turn a running cost total (Claude's, whose process lives on across
+ * follow-ups) into the cost of this turn alone.
+ */
+function toTurnCost(
+  managed: ManagedProcess,
+  entry: NormalizedLogEntry,
+): NormalizedLogEntry {
+  const total = entry.metadata?.costUsd
+  if (!entry.metadata?.costIsTotal || typeof total !== 'number') return entry
+  const costUsd = Math.max(0, total - managed.reportedCostUsd)
+  managed.reportedCostUsd = total
+  return { ...entry, metadata: { ...entry.metadata, costUsd } }
+}
+
 // ---------- Stream consumers ----------
 
 export async function consumeStream(
@@ -52,11 +72,12 @@ export async function consumeStream(
       if (!managed) break
       const turnIdx = callbacks.getTurnIndex()
 
-      const entry: NormalizedLogEntry = {
+      let entry = scrubSecrets(issueId, {
         ...rawEntry,
         turnIndex: turnIdx,
         timestamp: rawEntry.timestamp ?? new Date().toISOString(),
-      }
+      })
+      if (isTurnCompletionEntry(entry)) entry = toTurnCost(managed, entry)
 
       // Extract slash commands from SDK init message
       if (
@@ -77,6 +98,8 @@ export async function consumeStream(
       // rust-analyzer crash). If this turn was user-cancelled, suppress it.
       if (managed.cancelledByUser && isCancelledNoiseEntry(entry)) {
         if (isTurnCompletionEntry(entry)) {
+          // Tokens spent before the interrupt are still billed
+          persistTurnUsage(issueId, executionId, entry)
           callbacks.onTurnCompleted()
         }
         continue
@@ -84,9 +107,10 @@ export async function consumeStream(
 
       callbacks.onEntry(entry)
 
-      if (isTurnCompletionEntry(entry)) {
-        callbacks.onTurnCompleted()
-      }
+      const turnCompleted = isTurnCompletionEntry(entry)
+      if (turnCompleted) persistTurnUsage(issueId, executionId, entry)
+      callbacks.onBudgetCheck(turnCompleted)
+      if (turnCompleted) callbacks.onTurnCompleted()
     }
   } catch (error) {
     callbacks.onStreamError(error)
@@ -120,6 +144,7 @@ export async function consumeStderr(
           return
         }
         pushStderrEntry(
+          issueId,
           managed,
           line,
           callbacks.getTurnIndex(),
@@ -132,6 +157,7 @@ export async function consumeStderr(
       const managed = callbacks.getManaged()
       if (managed) {
         pushStderrEntry(
+          issueId,
           managed,
           buffer,
           callbacks.getTurnIndex(),
@@ -1,3 +1,4 @@
+import type { BudgetViolation } from '@/db/budgets'
 import type {
   NormalizedLogEntry,
   PermissionPolicy,
@@ -12,14 +13,26 @@ export interface ManagedProcess {
   process: SpawnedProcess
   state: ProcessStatus
   startedAt: Date
+  /** Start of the current turn — its wall-clock time counts toward the run time budget. */
+  turnStartedAt: Date
+  /** Set once the current turn's time has been added to the issue's run time. */
+  turnClockStopped: boolean
+  /** Fires checkBudget when the turn reaches the run time limit. */
+  budgetTimer?: ReturnType<typeof setTimeout>
+  /** Last running cost total the engine reported; a turn costs the difference. */
+  reportedCostUsd: number
   finishedAt?: Date
   exitCode?: number
   logs: RingBuffer<NormalizedLogEntry>
+  /** Resolves once the stdout consumer has processed every entry. */
+  stdoutDrained: Promise<void>
   retryCount: number
   turnInFlight: boolean
   queueCancelRequested: boolean
   logicalFailure: boolean
   logicalFailureReason?: string
+  /** Set when a budget limit stopped this run; suppresses retries and queued input. */
+  budgetExceeded?: BudgetViolation
   cancelledByUser: boolean
   /** True when handleTurnCompleted() has settled the issue (DB updated, events emitted)
    *  but the subprocess is still alive (conversational engines). Prevents monitorCompletion()
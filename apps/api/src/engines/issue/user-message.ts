@@ -1,5 +1,6 @@
 import type { NormalizedLogEntry } from '@/engines/types'
 import { logger } from '@/logger'
+import { armBudgetTimer } from './budget'
 import type { EngineContext } from './context'
 import { emitLog, emitStateChange } from './events'
 import { persistEntry } from './persistence/entry'
@@ -80,6 +81,7 @@ export function sendInputToRunningProcess(
     type: 'START_TURN',
     metaTurn: metadata?.type === 'system',
   })
+  armBudgetTimer(ctx, managed)
   // Emit running state BEFORE user message so the frontend resets doneReceivedRef
   // and accepts the subsequent user message SSE event.
   emitStateChange(ctx, issueId, managed.executionId, 'running')
@@ -0,0 +1,26 @@
+import { resolveGuardrails } from '@/db/guardrails'
+import { resolveMcpServers } from '@/db/mcp-servers'
+import type { ExecutionEnv } from '@/engines/types'
+import { bitkMcpServer } from '@/mcp/endpoint'
+import { loadProjectEnv } from './secrets'
+
+/**
+ * Env of an issue's agent process: the project's env vars, MCP servers and
+ * guardrails, plus BitK's own MCP server for managing the board.
+ */
+export async function buildExecutionEnv(
+  issueId: string,
+  projectId: string,
+  workingDir: string,
+): Promise<ExecutionEnv> {
+  const [vars, mcpServers, guardrails] = await Promise.all([
+    loadProjectEnv(projectId, issueId),
+    resolveMcpServers(projectId),
+    resolveGuardrails(projectId),
+  ])
+  const bitk = bitkMcpServer(issueId)
+  if (bitk && !mcpServers.some((server) => server.name === bitk.name)) {
+    mcpServers.push(bitk)
+  }
+  return { vars, workingDir, projectId, issueId, mcpServers, guardrails }
+}
@@ -3,7 +3,11 @@ import { resolve } from 'node:path'
 import { eq } from 'drizzle-orm'
 import { db } from '@/db'
 import { projects as projectsTable } from '@/db/schema'
-import type { EngineType, PermissionPolicy } from '@/engines/types'
+import type {
+  EngineProfile,
+  EngineType,
+  PermissionPolicy,
+} from '@/engines/types'
 import { BUILT_IN_PROFILES } from '@/engines/types'
 
 // ---------- Error classification ----------
@@ -13,19 +17,23 @@ export function isMissingExternalSessionError(error: unknown): boolean {
   const msg = error.message.toLowerCase()
   return (
     msg.includes('no conversation found with session id') ||
-    (msg.includes('no conversation found') && msg.includes('session id'))
+    (msg.includes('no conversation found') && msg.includes('session id')) ||
+    // ACP agents (Gemini) that cannot session/load the stored session
+    msg.includes('session not found')
   )
 }
 
 // ---------- Permission options ----------
 
+/** Permission mode for a turn; `engine` is an engine type or the profile it runs with. */
 export function getPermissionOptions(
-  engineType: EngineType,
+  engine: EngineType | EngineProfile,
   overridePolicy?: PermissionPolicy,
 ): {
   permissionMode: PermissionPolicy
 } {
-  const profile = BUILT_IN_PROFILES[engineType]
+  const profile =
+    typeof engine === 'string' ? BUILT_IN_PROFILES[engine] : engine
   const policy = overridePolicy ?? profile?.permissionPolicy ?? 'supervised'
 
   return { permissionMode: policy }
@@ -6,6 +6,7 @@ export {
 export type { LogNormalizer } from './normalizer'
 export { createLogNormalizer } from './normalizer'
 export { getPidFromManaged, getPidFromSubprocess } from './pid'
+export { loadProjectEnv, scrubSecrets, scrubSecretText } from './secrets'
 export {
   getIssueDevMode,
   isVisibleForMode,
@@ -0,0 +1,29 @@
+import type { TranscriptMessage } from '@/engines/issue/persistence'
+
+// Replayed transcripts keep the most recent context when they run long
+const MAX_REPLAY_CHARS = 100_000
+
+/** Prompt that hands a fresh session the conversation it continues from. */
+export function buildReplayPrompt(
+  transcript: TranscriptMessage[],
+  prompt: string,
+): string {
+  if (transcript.length === 0) return prompt
+  let history = transcript
+    .map(
+      (message) =>
+        `${message.entryType === 'user-message' ? 'User' : 'Assistant'}: ${message.content}`,
+    )
+    .join('\n\n')
+  if (history.length > MAX_REPLAY_CHARS) {
+    history = `…${history.slice(-MAX_REPLAY_CHARS)}`
+  }
+  return [
+    'This conversation continues an earlier session. The transcript so far:',
+    '<transcript>',
+    history,
+    '</transcript>',
+    'Continue from there. The next message is:',
+    prompt,
+  ].join('\n\n')
+}
@@ -0,0 +1,60 @@
+import { resolveProjectEnv } from '@/db/project-env'
+import type { NormalizedLogEntry } from '@/engines/types'
+
+// ---------- Project env ----------
+
+const MASK = '********'
+// Shorter values would mask ordinary words in the logs
+const MIN_SCRUB_LENGTH = 4
+
+const secretsCache = new Map<string, string[]>()
+
+/**
+ * Project env vars for an issue's agent process. The secret values are
+ * remembered so everything the process prints can be scrubbed of them.
+ */
+export async function loadProjectEnv(
+  projectId: string,
+  issueId: string,
+): Promise<Record<string, string>> {
+  const { vars, secrets } = await resolveProjectEnv(projectId)
+  const scrubbed = secrets
+    .filter((secret) => secret.length >= MIN_SCRUB_LENGTH)
+    // Longest first so a secret containing another is masked whole
+    .sort((a, b) => b.length - a.length)
+  if (scrubbed.length > 0) secretsCache.set(issueId, scrubbed)
+  else secretsCache.delete(issueId)
+  return vars
+}
+
+// ---------- Scrubbing ----------
+
+export function scrubSecretText(issueId: string, text: string): string {
+  const secrets = secretsCache.get(issueId)
+  if (!secrets) return text
+  let result = text
+  for (const secret of secrets) result = result.replaceAll(secret, MASK)
+  return result
+}
+
+/** Masks secrets anywhere in the entry, including metadata and tool actions. */
+export function scrubSecrets(
+  issueId: string,
+  entry: NormalizedLogEntry,
+): NormalizedLogEntry {
+  const secrets = secretsCache.get(issueId)
+  if (!secrets) return entry
+  const json = JSON.stringify(entry)
+  let scrubbed = json
+  for (const secret of secrets) {
+    // Match the value as it appears inside JSON strings
+    scrubbed = scrubbed.replaceAll(JSON.stringify(secret).slice(1, -1), MASK)
+  }
+  if (scrubbed === json) return entry
+  try {
+    return JSON.parse(scrubbed) as NormalizedLogEntry
+  } catch {
+    // The value spanned JSON syntax; fall back to the visible text
+    return { ...entry, content: scrubSecretText(issueId, entry.content) }
+  }
+}
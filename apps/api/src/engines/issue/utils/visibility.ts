@@ -25,10 +25,21 @@ export function isVisibleForMode(
   // Tool-use entries are only visible in dev mode
   if (entry.entryType === 'tool-use') return false
 
-  // System messages — only command output and compact boundary
+  // System messages — only command output, compact boundary, budget stops
+  // and verification results
   if (entry.entryType === 'system-message') {
     const subtype = entry.metadata?.subtype
-    return subtype === 'command_output' || subtype === 'compact_boundary'
+    return (
+      subtype === 'command_output' ||
+      subtype === 'compact_boundary' ||
+      subtype === 'budget_exceeded' ||
+      subtype === 'verification'
+    )
+  }
+
+  // Errors only when a guardrail blocked a tool call
+  if (entry.entryType === 'error-message') {
+    return entry.metadata?.subtype === 'guardrail_denied'
   }
 
   return false
@@ -0,0 +1,283 @@
+import { and, desc, eq } from 'drizzle-orm'
+import { db } from '@/db'
+import { findProject } from '@/db/helpers'
+import { issueLogs as logsTable } from '@/db/schema'
+import type { VerifyCommandRow } from '@/db/verify-commands'
+import { listVerifyCommands } from '@/db/verify-commands'
+import { getIssueWithSession, updateIssueSession } from '@/engines/engine-store'
+import type { EngineContext } from '@/engines/issue/context'
+import { emitLog } from '@/engines/issue/events'
+import { persistEntry } from '@/engines/issue/persistence/entry'
+import { parseMetadata } from '@/engines/issue/persistence/transcript'
+import type { ManagedProcess } from '@/engines/issue/types'
+import { resolveWorkingDir } from '@/engines/issue/utils/helpers'
+import { loadProjectEnv, scrubSecrets } from '@/engines/issue/utils/secrets'
+import { safeEnv } from '@/engines/safe-env'
+import type { NormalizedLogEntry } from '@/engines/types'
+import { emitIssueUpdated } from '@/events/issue-events'
+import { logger } from '@/logger'
+import { VERIFY_OUTPUT_MAX_CHARS, VERIFY_TIMEOUT_MS } from './constants'
+
+/** Metadata subtype of the follow-up that hands failures back to the agent */
+export const VERIFY_FIX_SUBTYPE = 'verification_fix'
+
+export interface VerifyResult {
+  name: string
+  command: string
+  exitCode: number | null
+  passed: boolean
+  timedOut: boolean
+  durationMs: number
+  output: string
+}
+
+// ---------- Running commands ----------
+
+function tail(text: string, max: number): string {
+  if (text.length <= max) return text
+  return `…${text.slice(text.length - max)}`
+}
+
+/** Kill the command's whole process group; its pipeline children too. */
+function killGroup(pid: number): void {
+  try {
+    process.kill(-pid, 'SIGKILL')
+  } catch {
+    // Group already gone
+  }
+}
+
+/**
+ * Run one command through the shell, stdout and stderr interleaved. The
+ * shell leads its own process group so a timeout kills every process it
+ * started; output read up to then is kept.
+ */
+export async function runVerifyCommand(
+  command: Pick<VerifyCommandRow, 'name' | 'command'>,
+  workingDir: string,
+  vars: Record<string, string>,
+  timeoutMs = VERIFY_TIMEOUT_MS,
+): Promise<VerifyResult> {
+  const startedAt = Date.now()
+  const proc = Bun.spawn(['sh', '-c', `exec 2>&1\n${command.command}`], {
+    cwd: workingDir,
+    stdin: 'ignore',
+    stdout: 'pipe',
+    stderr: 'ignore',
+    env: safeEnv(vars),
+    detached: true,
+  })
+
+  let output = ''
+  const decoder = new TextDecoder()
+  const reader = proc.stdout.getReader()
+  const reading = (async () => {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      output += decoder.decode(value, { stream: true })
+    }
+    output += decoder.decode()
+  })()
+
+  // A grandchild holding stdout open would stall the read past the kill,
+  // so the timer races the read instead of cancelling it
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const timeout = new Promise<null>((resolve) => {
+    timer = setTimeout(() => resolve(null), timeoutMs)
+  })
+  const exitCode = await Promise.race([
+    Promise.all([reading, proc.exited]).then(([, code]) => code),
+    timeout,
+  ]).finally(() => clearTimeout(timer))
+  const timedOut = exitCode === null
+  if (timedOut) {
+    killGroup(proc.pid)
+    reader.cancel().catch(() => {})
+    output += `\n[timed out after ${Math.round(timeoutMs / 1000)}s]`
+  }
+
+  return {
+    name: command.name,
+    command: command.command,
+    exitCode,
+    passed: exitCode === 0,
+    timedOut,
+    durationMs: Date.now() - startedAt,
+    output: tail(output.trim(), VERIFY_OUTPUT_MAX_CHARS),
+  }
+}
+
+function recordResult(
+  ctx: EngineContext,
+  issueId: string,
+  managed: ManagedProcess,
+  result: VerifyResult,
+): void {
+  const { output, ...summary } = result
+  const entry = scrubSecrets(issueId, {
+    entryType: 'system-message',
+    content: output || '(no output)',
+    turnIndex: ctx.turnIndexes.get(managed.executionId) ?? 0,
+    timestamp: new Date().toISOString(),
+    metadata: { subtype: 'verification', ...summary },
+  } satisfies NormalizedLogEntry)
+  const persisted = persistEntry(ctx, issueId, managed.executionId, entry)
+  managed.logs.push(persisted ?? entry)
+  if (persisted) emitLog(ctx, issueId, managed.executionId, persisted)
+}
+
+async function setVerifyStatus(
+  issueId: string,
+  verifyStatus: 'running' | 'passed' | 'failed',
+): Promise<void> {
+  await updateIssueSession(issueId, { verifyStatus })
+  emitIssueUpdated(issueId, { verifyStatus })
+}
+
+// ---------- Fix follow-ups ----------
+
+/** Fix follow-ups sent since the user last wrote to the issue. */
+function countFixAttempts(issueId: string, limit: number): number {
+  const rows = db
+    .select({ metadata: logsTable.metadata })
+    .from(logsTable)
+    .where(
+      and(
+        eq(logsTable.issueId, issueId),
+        eq(logsTable.entryType, 'user-message'),
+        eq(logsTable.visible, 1),
+      ),
+    )
+    .orderBy(desc(logsTable.id))
+    .limit(limit + 1)
+    .all()
+  let count = 0
+  for (const row of rows) {
+    const metadata = parseMetadata(row.metadata)
+    if (metadata?.subtype !== VERIFY_FIX_SUBTYPE) break
+    count++
+  }
+  return count
+}
+
+/** Newest visible user message of the issue; a later one means a new turn. */
+function latestUserMessageId(issueId: string): string | null {
+  const row = db
+    .select({ id: logsTable.id })
+    .from(logsTable)
+    .where(
+      and(
+        eq(logsTable.issueId, issueId),
+        eq(logsTable.entryType, 'user-message'),
+        eq(logsTable.visible, 1),
+      ),
+    )
+    .orderBy(desc(logsTable.id))
+    .limit(1)
+    .get()
+  return row?.id ?? null
+}
+
+export function formatFixPrompt(failures: VerifyResult[]): string {
+  const sections = failures.map((f) => {
+    const status = f.timedOut
+      ? 'timed out'
+      : `exit code ${f.exitCode ?? 'unknown'}`
+    const output = tail(f.output, VERIFY_OUTPUT_MAX_CHARS / failures.length)
+    return `## ${f.name} (\`${f.command}\`) — ${status}\n\n\`\`\`\n${output}\n\`\`\``
+  })
+  return [
+    "The project's verification checks failed after your last turn. Fix the problems below, then finish your turn; the checks run again afterwards.",
+    ...sections,
+  ].join('\n\n')
+}
+
+// ---------- Entry point ----------
+
+/**
+ * Run the project's enabled verification commands after a completed turn,
+ * in the issue's worktree or the project directory. Each result is logged
+ * on the issue and the outcome is stored as `verifyStatus`. When checks
+ * fail and the project allows it, the failing output is sent back to the
+ * agent as a follow-up, up to `verifyFixAttempts` times in a row.
+ *
+ * Returns true when a fix follow-up was sent, so the issue keeps working
+ * instead of moving to review.
+ */
+export async function verifyTurn(
+  ctx: EngineContext,
+  issueId: string,
+  managed: ManagedProcess,
+): Promise<boolean> {
+  const prompted = latestUserMessageId(issueId)
+  const issue = await getIssueWithSession(issueId)
+  if (!issue) return false
+  const commands = (await listVerifyCommands(issue.projectId)).filter(
+    (command) => command.enabled,
+  )
+  if (commands.length === 0) return false
+
+  await setVerifyStatus(issueId, 'running')
+  const workingDir =
+    managed.worktreePath ?? (await resolveWorkingDir(issue.projectId))
+  const vars = await loadProjectEnv(issue.projectId, issueId)
+
+  const results: VerifyResult[] = []
+  for (const command of commands) {
+    results.push(await runVerifyCommand(command, workingDir, vars))
+  }
+
+  // A follow-up sent while the checks ran has started a new turn, which
+  // gets checks of its own (and may already be done); these results and
+  // their fix are stale
+  const current = await getIssueWithSession(issueId)
+  if (
+    current?.sessionFields.sessionStatus !== 'completed' ||
+    latestUserMessageId(issueId) !== prompted
+  ) {
+    logger.info(
+      { issueId, executionId: managed.executionId },
+      'issue_verification_discarded_reactivated',
+    )
+    return false
+  }
+
+  const failures: VerifyResult[] = []
+  for (const result of results) {
+    recordResult(ctx, issueId, managed, result)
+    if (!result.passed) failures.push(result)
+  }
+  await setVerifyStatus(issueId, failures.length === 0 ? 'passed' : 'failed')
+  logger.info(
+    {
+      issueId,
+      executionId: managed.executionId,
+      checks: commands.length,
+      failed: failures.map((f) => f.name),
+    },
+    'issue_verification_finished',
+  )
+  if (failures.length === 0) return false
+
+  const project = await findProject(issue.projectId)
+  const maxAttempts = project?.verifyFixAttempts ?? 0
+  const attempt = countFixAttempts(issueId, maxAttempts) + 1
+  if (attempt > maxAttempts) return false
+
+  try {
+    await ctx.followUpIssue?.(
+      issueId,
+      formatFixPrompt(failures),
+      issue.model ?? undefined,
+      undefined,
+      'queue',
+      `Verification failed: ${failures.map((f) => f.name).join(', ')} — fix attempt ${attempt} of ${maxAttempts}`,
+      { subtype: VERIFY_FIX_SUBTYPE, attempt },
+    )
+    return true
+  } catch (error) {
+    logger.error({ issueId, error }, 'issue_verification_fix_failed')
+    return false
+  }
+}
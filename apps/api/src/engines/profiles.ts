@@ -0,0 +1,134 @@
+import type { EngineProfileRow } from '@/db/engine-profiles'
+import {
+  getEngineProfileRow,
+  listEngineProfileRows,
+} from '@/db/engine-profiles'
+import { engineRegistry } from '@/engines/executors'
+import type {
+  EngineCapability,
+  EngineExecutor,
+  EngineProfile,
+  EngineType,
+  PermissionPolicy,
+  SpawnOptions,
+} from '@/engines/types'
+import { BUILT_IN_PROFILES } from '@/engines/types'
+import { logger } from '@/logger'
+
+// ---------- Profiles ----------
+//
+// A user-defined profile derives from one built-in engine: it runs that
+// engine's executor and protocol with its own command, extra args, env,
+// default model and permission policy. Built-in profiles use the engine
+// type as their id, so either kind of id can be stored on an issue.
+
+function parseJson<T>(text: string | null, fallback: T): T {
+  if (!text) return fallback
+  try {
+    return JSON.parse(text) as T
+  } catch {
+    return fallback
+  }
+}
+
+export function isEngineType(value: string): value is EngineType {
+  return Object.hasOwn(BUILT_IN_PROFILES, value)
+}
+
+export function toEngineProfile(row: EngineProfileRow): EngineProfile {
+  const base = BUILT_IN_PROFILES[row.engineType as EngineType]
+  return {
+    id: row.id,
+    engineType: base.engineType,
+    name: row.name,
+    baseCommand: row.baseCommand,
+    protocol: base.protocol,
+    capabilities: parseJson<EngineCapability[]>(
+      row.capabilities,
+      base.capabilities,
+    ),
+    defaultModel: row.defaultModel ?? undefined,
+    permissionPolicy: (row.permissionPolicy ??
+      base.permissionPolicy) as PermissionPolicy,
+    args: parseJson<string[]>(row.args, []),
+    env: parseJson<Record<string, string>>(row.env, {}),
+    builtIn: false,
+  }
+}
+
+/** Built-in profiles followed by user-defined ones, oldest first. */
+export async function listEngineProfiles(): Promise<EngineProfile[]> {
+  const rows = await listEngineProfileRows()
+  return [...Object.values(BUILT_IN_PROFILES), ...rows.map(toEngineProfile)]
+}
+
+/** Built-in or user-defined profile by id; null when unknown or deleted. */
+export async function getEngineProfile(
+  profileId: string,
+): Promise<EngineProfile | null> {
+  if (isEngineType(profileId)) return BUILT_IN_PROFILES[profileId]
+  const row = await getEngineProfileRow(profileId)
+  return row ? toEngineProfile(row) : null
+}
+
+/**
+ * Profile to run `engineType` with: `profileId` when it still exists and
+ * derives from that engine, otherwise the engine's built-in profile.
+ */
+export async function resolveEngineProfile(
+  profileId: string | null | undefined,
+  engineType: EngineType,
+): Promise<EngineProfile> {
+  if (profileId) {
+    const profile = await getEngineProfile(profileId)
+    if (profile?.engineType === engineType) return profile
+    logger.warn(
+      { profileId, engineType, found: !!profile },
+      'engine_profile_unavailable_using_builtin',
+    )
+  }
+  return BUILT_IN_PROFILES[engineType]
+}
+
+// ---------- Executors ----------
+
+/**
+ * `executor` with a user-defined profile applied to every spawn. Built-in
+ * profiles return the executor unchanged. Capabilities can only be narrowed:
+ * a profile cannot claim features its engine lacks.
+ */
+export function applyEngineProfile(
+  executor: EngineExecutor,
+  profile: EngineProfile,
+): EngineExecutor {
+  if (profile.builtIn) return executor
+
+  const withProfile = <T extends SpawnOptions>(options: T): T => ({
+    ...options,
+    baseCommand: options.baseCommand ?? profile.baseCommand,
+    extraArgs: [...(profile.args ?? []), ...(options.extraArgs ?? [])],
+    env: { ...profile.env, ...options.env },
+    model: options.model ?? profile.defaultModel,
+  })
+
+  const wrapped = Object.create(executor) as EngineExecutor
+  return Object.assign(wrapped, {
+    capabilities: executor.capabilities.filter((c) =>
+      profile.capabilities.includes(c),
+    ),
+    spawn: (options, env) => executor.spawn(withProfile(options), env),
+    spawnFollowUp: (options, env) =>
+      executor.spawnFollowUp(withProfile(options), env),
+  } satisfies Partial<EngineExecutor>)
+}
+
+/** Executor for `engineType` with the issue's profile applied. */
+export async function resolveProfileExecutor(
+  profileId: string | null | undefined,
+  engineType: EngineType,
+): Promise<{ executor: EngineExecutor; profile: EngineProfile }> {
+  const executor = engineRegistry.get(engineType)
+  if (!executor) throw new Error(`No executor for engine type: ${engineType}`)
+  const profile = await resolveEngineProfile(profileId, engineType)
+  return { executor: applyEngineProfile(executor, profile), profile }
+}
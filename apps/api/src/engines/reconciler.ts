@@ -1,11 +1,14 @@
 import { and, eq, inArray } from 'drizzle-orm'
 import { cacheDel } from '@/cache'
 import { db } from '@/db'
+import { getQueuedIssueIds } from '@/db/execution-queue'
 import { ensureDefaultFilterRules } from '@/db/helpers'
+import { getProjectWorkflow } from '@/db/project-statuses'
 import { issues as issuesTable } from '@/db/schema'
 import { emitIssueUpdated } from '@/events/issue-events'
 import { logger } from '@/logger'
 import { issueEngine } from './issue'
+import { expireStaleApprovals } from './issue/approvals'
 
 // ---------- Constants ----------
 
@@ -14,64 +17,76 @@ const RECONCILE_INTERVAL_MS = 60 * 1000 // 1 minute
 // ---------- Core reconciliation logic ----------
 
 /**
- * Scan for issues with statusId='working' that have no active engine
- * process. Move them to 'review' and update sessionStatus to a terminal
- * state. This covers:
+ * Scan for issues sitting in their project's execution column that have no
+ * active engine process. Move them to the review column and update
+ * sessionStatus to a terminal state. This covers:
  *   - Server restart (processes lost)
  *   - Process crash without proper settle
- *   - Any race that leaves statusId stuck at working
+ *   - Any race that leaves an issue stuck in the execution column
  */
 export async function reconcileStaleWorkingIssues(): Promise<number> {
-  const staleIssues = await db
-    .select({
-      id: issuesTable.id,
-      projectId: issuesTable.projectId,
-      sessionStatus: issuesTable.sessionStatus,
-    })
+  const projectRows = await db
+    .selectDistinct({ projectId: issuesTable.projectId })
     .from(issuesTable)
-    .where(
-      and(eq(issuesTable.statusId, 'working'), eq(issuesTable.isDeleted, 0)),
-    )
-
-  if (staleIssues.length === 0) return 0
+    .where(eq(issuesTable.isDeleted, 0))
 
+  // Queued issues wait in the execution column without a process by design
+  const queued = await getQueuedIssueIds()
   let reconciled = 0
 
-  for (const issue of staleIssues) {
-    // Skip issues that genuinely have an active engine process
-    if (hasActiveProcess(issue.id)) {
-      continue
-    }
-
-    // No active process — this issue is stale. Determine the right sessionStatus.
-    const sessionStatus = issue.sessionStatus
-    const isTerminal =
-      sessionStatus === 'completed' ||
-      sessionStatus === 'failed' ||
-      sessionStatus === 'cancelled'
-
-    // If sessionStatus is still running/pending, mark it as failed
-    // (the process vanished without proper settlement)
-    if (!isTerminal) {
-      await db
-        .update(issuesTable)
-        .set({ sessionStatus: 'failed', statusId: 'review' })
-        .where(eq(issuesTable.id, issue.id))
-    } else {
-      // sessionStatus is already terminal but statusId is still working
-      await db
-        .update(issuesTable)
-        .set({ statusId: 'review' })
-        .where(eq(issuesTable.id, issue.id))
+  for (const { projectId } of projectRows) {
+    const workflow = await getProjectWorkflow(projectId)
+    const staleIssues = await db
+      .select({
+        id: issuesTable.id,
+        sessionStatus: issuesTable.sessionStatus,
+      })
+      .from(issuesTable)
+      .where(
+        and(
+          eq(issuesTable.projectId, projectId),
+          eq(issuesTable.statusId, workflow.execution.id),
+          eq(issuesTable.isDeleted, 0),
+        ),
+      )
+
+    for (const issue of staleIssues) {
+      // Skip issues that genuinely have an active engine process
+      if (hasActiveProcess(issue.id) || queued.has(issue.id)) {
+        continue
+      }
+
+      // No active process — this issue is stale. Determine the right sessionStatus.
+      const sessionStatus = issue.sessionStatus
+      const isTerminal =
+        sessionStatus === 'completed' ||
+        sessionStatus === 'failed' ||
+        sessionStatus === 'cancelled'
+      const statusId = workflow.review.id
+
+      // If sessionStatus is still running/pending, mark it as failed
+      // (the process vanished without proper settlement)
+      if (!isTerminal) {
+        await db
+          .update(issuesTable)
+          .set({ sessionStatus: 'failed', statusId })
+          .where(eq(issuesTable.id, issue.id))
+      } else {
+        // sessionStatus is already terminal but the issue is still in the execution column
+        await db
+          .update(issuesTable)
+          .set({ statusId })
+          .where(eq(issuesTable.id, issue.id))
+      }
+
+      await cacheDel(`issue:${projectId}:${issue.id}`)
+      emitIssueUpdated(issue.id, { statusId })
+      logger.info(
+        { issueId: issue.id, previousSessionStatus: sessionStatus },
+        'reconciler_moved_to_review',
+      )
+      reconciled++
     }
-
-    await cacheDel(`issue:${issue.projectId}:${issue.id}`)
-    emitIssueUpdated(issue.id, { statusId: 'review' })
-    logger.info(
-      { issueId: issue.id, previousSessionStatus: sessionStatus },
-      'reconciler_moved_to_review',
-    )
-    reconciled++
   }
 
   return reconciled
@@ -99,16 +114,20 @@ export async function startupReconciliation(): Promise<void> {
 
   // First, mark stale sessions (running/pending sessionStatus) as failed.
   // This was previously done by cleanupStaleSessions in db/helpers.
+  // Queued executions survive the restart and are dispatched afterwards.
   const staleStatuses = ['running', 'pending']
-  const staleRows = await db
-    .select({ id: issuesTable.id })
-    .from(issuesTable)
-    .where(
-      and(
-        inArray(issuesTable.sessionStatus, staleStatuses),
-        eq(issuesTable.isDeleted, 0),
-      ),
-    )
+  const queued = await getQueuedIssueIds()
+  const staleRows = (
+    await db
+      .select({ id: issuesTable.id })
+      .from(issuesTable)
+      .where(
+        and(
+          inArray(issuesTable.sessionStatus, staleStatuses),
+          eq(issuesTable.isDeleted, 0),
+        ),
+      )
+  ).filter((r) => !queued.has(r.id))
 
   if (staleRows.length > 0) {
     const ids = staleRows.map((r) => r.id)
@@ -122,12 +141,27 @@ export async function startupReconciliation(): Promise<void> {
     )
   }
 
+  // Approvals left pending by the previous run have no engine waiting on them
+  const expiredApprovals = expireStaleApprovals()
+  if (expiredApprovals > 0) {
+    logger.info(
+      { count: expiredApprovals },
+      'reconciler_expired_stale_approvals',
+    )
+  }
+
   // Now reconcile: any issue that is working with no active process
   // should move to review.
   const reconciled = await reconcileStaleWorkingIssues()
   if (reconciled > 0) {
     logger.info({ count: reconciled }, 'reconciler_startup_moved_to_review')
   }
+
+  // Every slot is free after a restart
+  const dispatched = await issueEngine.dispatchQueue()
+  if (dispatched > 0) {
+    logger.info({ count: dispatched }, 'reconciler_startup_dispatched_queue')
+  }
 }
 
 // ---------- Periodic reconciliation ----------
@@ -230,6 +230,45 @@ export async function forceProbeEngines(): Promise<ProbeResult> {
   return { engines, models, duration }
 }
 
+/**
+ * Re-probe one engine whose executor was replaced at runtime and merge the
+ * result into the cached and stored discovery. When nothing was discovered
+ * yet, the next lookup probes every engine anyway.
+ */
+export async function refreshEngineDiscovery(
+  engineType: EngineType,
+): Promise<void> {
+  const executor = engineRegistry.get(engineType)
+  if (!executor) return
+  const current = (await readFromCache()) ?? (await getProbeResults())
+  if (!current) return
+
+  const [availability, engineModels] = await Promise.all([
+    withTimeout(executor.getAvailability(), PER_ENGINE_TIMEOUT_MS, engineType),
+    withTimeout(
+      executor.getModels(),
+      PER_ENGINE_TIMEOUT_MS,
+      `${engineType}:models`,
+    ),
+  ])
+  const engines = [
+    ...current.engines.filter((e) => e.engineType !== engineType),
+    availability,
+  ]
+  const { [engineType]: _previous, ...models } = current.models
+  if (availability.installed && engineModels.length > 0) {
+    models[engineType] = engineModels
+  }
+  await Promise.all([
+    writeToCache(engines, models),
+    saveProbeResults(engines, models),
+  ])
+  logger.debug(
+    { engineType, installed: availability.installed },
+    'probe_engine_refreshed',
+  )
+}
+
 /**
  * Get cached models for a specific engine type. Falls back to live query.
  */
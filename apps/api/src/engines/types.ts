@@ -1,7 +1,7 @@
 // ---------- Enums / Literal Unions ----------
 
 // Supported AI engine types
-export type EngineType = 'claude-code' | 'codex' | 'gemini' | 'echo'
+export type EngineType = 'claude-code' | 'codex' | 'gemini' | 'echo' | 'custom'
 
 // Communication protocols
 export type EngineProtocol = 'stream-json' | 'json-rpc' | 'acp'
@@ -67,7 +67,14 @@ export type ToolAction =
     }
   | { kind: 'search'; query: string }
   | { kind: 'web-fetch'; url: string }
-  | { kind: 'tool'; toolName: string; arguments?: unknown; result?: unknown }
+  | {
+      kind: 'tool'
+      toolName: string
+      /** MCP server that provides the tool */
+      server?: string
+      arguments?: unknown
+      result?: unknown
+    }
   | { kind: 'other'; description: string }
 
 // Engine availability (discovery result)
@@ -92,17 +99,41 @@ export interface EngineModel {
 
 // Engine profile configuration
 export interface EngineProfile {
+  /** Engine type for built-in profiles, a short id for user-defined ones */
   id?: string
   engineType: EngineType
   name: string
+  /** Command or binary path; the executor appends its protocol flags */
   baseCommand: string
   protocol: EngineProtocol
   capabilities: EngineCapability[]
   defaultModel?: string
   permissionPolicy: PermissionPolicy
+  /** Extra CLI args appended after the executor's own */
+  args?: string[]
+  env?: Record<string, string>
+  builtIn?: boolean
   config?: Record<string, unknown>
 }
 
+// Tool permission request raised by an engine in supervised mode
+export interface ApprovalRequest {
+  toolName: string
+  input?: unknown
+  toolCallId?: string
+}
+
+// User answer to an approval request ('always-allow' also covers later calls to the same tool)
+export type ApprovalDecision = 'approve' | 'deny' | 'always-allow'
+
+// Resolves an approval request; executors call this instead of auto-approving
+export type ApprovalHandler = (
+  request: ApprovalRequest,
+) => Promise<ApprovalDecision>
+
+// Checks every tool call before the engine's permission flow; true blocks it
+export type ToolGuard = (request: ApprovalRequest) => boolean
+
 // Spawn options for initial execution
 export interface SpawnOptions {
   workingDir: string
@@ -110,14 +141,21 @@ export interface SpawnOptions {
   model?: string
   permissionMode?: PermissionPolicy
   env?: Record<string, string>
+  /** Replaces the executor's default command (engine profiles) */
+  baseCommand?: string
+  extraArgs?: string[]
   agent?: string
   externalSessionId?: string
+  /** Used when permissionMode is 'supervised'; without it requests are auto-approved. */
+  onApprovalRequest?: ApprovalHandler
 }
 
 // Follow-up options (extends spawn)
 export interface FollowUpOptions extends SpawnOptions {
   sessionId: string
   resetToMessageId?: string
+  /** Continue in a new session (`externalSessionId`) and leave `sessionId` untouched */
+  forkSession?: boolean
 }
 
 // Command builder output
@@ -182,6 +220,32 @@ export interface ExecutorConfig {
   permissionPolicy?: PermissionPolicy
 }
 
+// Stdio MCP server passed to an agent
+export interface McpServerConfig {
+  name: string
+  command: string
+  args: string[]
+  env: Record<string, string>
+}
+
+export type GuardrailKind = 'command' | 'path' | 'tool'
+export type GuardrailAction = 'deny' | 'allow'
+
+// Project rule checked before an agent may use a tool (deny wins over allow)
+export interface GuardrailRule {
+  id: string
+  kind: GuardrailKind
+  /**
+   * - command: words that must appear in order within one shell command,
+   *   `*` matching any text inside a word (`git push`, `curl | sh`)
+   * - path: glob; relative ones are matched against the path inside the
+   *   workspace, so `../**` covers everything outside it (`.env*`, `~/.ssh/**`)
+   * - tool: tool name, `*` matching any text (`WebFetch`, `mcp__github__*`)
+   */
+  pattern: string
+  action: GuardrailAction
+}
+
 // Execution environment
 export interface ExecutionEnv {
   vars: Record<string, string>
@@ -189,6 +253,10 @@ export interface ExecutionEnv {
   projectId?: string
   sessionId?: string
   issueId?: string
+  /** The project's enabled MCP servers */
+  mcpServers?: McpServerConfig[]
+  /** The project's enabled guardrails */
+  guardrails?: GuardrailRule[]
 }
 
 // ---------- Interfaces (Behavioral) ----------
@@ -232,41 +300,54 @@ export interface EngineRegistry {
 // Default built-in engine profiles
 export const BUILT_IN_PROFILES: Record<EngineType, EngineProfile> = {
   'claude-code': {
+    id: 'claude-code',
     engineType: 'claude-code',
     name: 'Claude Code',
     baseCommand: 'npx -y @anthropic-ai/claude-code@latest',
     protocol: 'stream-json',
     capabilities: ['session-fork', 'context-usage', 'plan-mode'],
     permissionPolicy: 'auto',
+    builtIn: true,
   },
   codex: {
+    id: 'codex',
     engineType: 'codex',
     name: 'Codex',
-    baseCommand: 'npx -y @openai/codex@latest app-server',
+    baseCommand: 'npx -y @openai/codex@latest',
     protocol: 'json-rpc',
-    capabilities: [
-      'session-fork',
-      'setup-helper',
-      'context-usage',
-      'sandbox',
-      'reasoning',
-    ],
+    capabilities: ['setup-helper', 'context-usage', 'sandbox', 'reasoning'],
     permissionPolicy: 'auto',
+    builtIn: true,
   },
   gemini: {
+    id: 'gemini',
     engineType: 'gemini',
     name: 'Gemini CLI',
     baseCommand: 'npx -y @google/gemini-cli@latest',
     protocol: 'acp',
-    capabilities: ['session-fork'],
+    capabilities: [],
     permissionPolicy: 'auto',
+    builtIn: true,
   },
   echo: {
+    id: 'echo',
     engineType: 'echo',
     name: 'Echo',
     baseCommand: 'echo',
     protocol: 'stream-json',
-    capabilities: ['session-fork'],
+    capabilities: [],
+    permissionPolicy: 'auto',
+    builtIn: true,
+  },
+  custom: {
+    id: 'custom',
+    engineType: 'custom',
+    name: 'Custom',
+    // Configured at runtime via PUT /api/engines/custom
+    baseCommand: '',
+    protocol: 'stream-json',
+    capabilities: [],
     permissionPolicy: 'auto',
+    builtIn: true,
   },
 }
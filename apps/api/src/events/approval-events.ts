@@ -0,0 +1,51 @@
+export interface ApprovalPayload {
+  id: string
+  issueId: string
+  executionId: string | null
+  engineType: string | null
+  toolName: string
+  toolCallId: string | null
+  input: unknown
+  status: string
+  decision: string | null
+  createdAt: string
+  resolvedAt: string | null
+  expiresAt: string | null
+}
+
+type ApprovalCallback = (approval: ApprovalPayload) => void
+
+const requestListeners = new Set<ApprovalCallback>()
+const resolvedListeners = new Set<ApprovalCallback>()
+
+export function onApprovalRequest(cb: ApprovalCallback): () => void {
+  requestListeners.add(cb)
+  return () => {
+    requestListeners.delete(cb)
+  }
+}
+
+export function onApprovalResolved(cb: ApprovalCallback): () => void {
+  resolvedListeners.add(cb)
+  return () => {
+    resolvedListeners.delete(cb)
+  }
+}
+
+function emit(listeners: Set<ApprovalCallback>, approval: ApprovalPayload) {
+  for (const cb of listeners) {
+    try {
+      cb(approval)
+    } catch {
+      /* ignore */
+    }
+  }
+}
+
+export function emitApprovalRequest(approval: ApprovalPayload): void {
+  emit(requestListeners, approval)
+}
+
+export function emitApprovalResolved(approval: ApprovalPayload): void {
+  emit(resolvedListeners, approval)
+}
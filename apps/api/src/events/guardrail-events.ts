@@ -0,0 +1,31 @@
+import type { GuardrailRule } from '@/engines/types'
+
+export interface GuardrailDenial {
+  issueId: string
+  toolName: string
+  toolCallId: string | null
+  /** Command or path that matched, when the tool call has one */
+  subject: string | null
+  rule: GuardrailRule
+}
+
+type GuardrailDeniedCallback = (denial: GuardrailDenial) => void
+
+const deniedListeners = new Set<GuardrailDeniedCallback>()
+
+export function onGuardrailDenied(cb: GuardrailDeniedCallback): () => void {
+  deniedListeners.add(cb)
+  return () => {
+    deniedListeners.delete(cb)
+  }
+}
+
+export function emitGuardrailDenied(denial: GuardrailDenial): void {
+  for (const cb of deniedListeners) {
+    try {
+      cb(denial)
+    } catch {
+      /* ignore */
+    }
+  }
+}
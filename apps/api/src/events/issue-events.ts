@@ -24,3 +24,27 @@ export function emitIssueUpdated(
     }
   }
 }
+
+type IssueCreatedCallback = (data: {
+  issueId: string
+  projectId: string
+}) => void
+
+const createdListeners = new Set<IssueCreatedCallback>()
+
+export function onIssueCreated(cb: IssueCreatedCallback): () => void {
+  createdListeners.add(cb)
+  return () => {
+    createdListeners.delete(cb)
+  }
+}
+
+export function emitIssueCreated(issueId: string, projectId: string): void {
+  for (const cb of createdListeners) {
+    try {
+      cb({ issueId, projectId })
+    } catch {
+      /* ignore */
+    }
+  }
+}
@@ -3,6 +3,8 @@ import { resolve } from 'node:path'
 import { serveStatic, websocket } from 'hono/bun'
 import app from './app'
 import { embeddedStatic } from './embedded-static'
+import { loadCustomEngine } from './engines/custom-engine'
+import { registerDependencyPromotion } from './engines/dependencies'
 import { issueEngine } from './engines/issue'
 import {
   registerSettledReconciliation,
@@ -11,8 +13,11 @@ import {
   stopPeriodicReconciliation,
 } from './engines/reconciler'
 import { startChangesSummaryWatcher } from './events/changes-summary'
+import { startScheduler } from './jobs/scheduler'
 import { startUploadCleanup } from './jobs/upload-cleanup'
+import { registerWebhookEvents, startWebhookDispatcher } from './jobs/webhooks'
 import { logger } from './logger'
+import { setMcpBaseUrl } from './mcp/endpoint'
 import { ROOT_DIR } from './root'
 import { staticAssets } from './static-assets'
 import { COMMIT, VERSION } from './version'
@@ -23,15 +28,26 @@ void startupReconciliation().catch((err) => {
   logger.error({ err }, 'startup_reconciliation_failed')
 })
 
+// Register the configured custom engine, if any
+void loadCustomEngine().catch((err) => {
+  logger.error({ err }, 'custom_engine_load_failed')
+})
+
 // Register event-driven reconciliation (fires after each process settles)
 registerSettledReconciliation()
 
+// Start downstream issues once everything they depend on has finished
+registerDependencyPromotion()
+
 // Start periodic reconciliation (fallback safety net)
 startPeriodicReconciliation()
 
 // Start watching for file changes to push summaries via SSE
 startChangesSummaryWatcher()
 
+// Turn issue lifecycle events into outbound webhook deliveries
+registerWebhookEvents()
+
 const listenHost = process.env.API_HOST ?? '0.0.0.0'
 const listenPort = Number(process.env.API_PORT ?? 3000)
 
@@ -97,9 +113,23 @@ logger.info(
   'server_started',
 )
 
+// Agents reach BitK's MCP endpoint over loopback unless bound to one host
+const mcpHost = ['0.0.0.0', '::'].includes(listenHost)
+  ? '127.0.0.1'
+  : listenHost.includes(':')
+    ? `[${listenHost}]`
+    : listenHost
+setMcpBaseUrl(`http://${mcpHost}:${http.port}`)
+
 // Start periodic upload cleanup (removes files older than 7 days)
 const stopUploadCleanup = startUploadCleanup()
 
+// Start the scheduler (fires due cron / one-shot schedules)
+const stopScheduler = startScheduler()
+
+// Retry failed webhook deliveries once their backoff has elapsed
+const stopWebhookDispatcher = startWebhookDispatcher()
+
 let isShuttingDown = false
 
 async function shutdown(signal: string) {
@@ -113,6 +143,8 @@ async function shutdown(signal: string) {
   // Stop periodic jobs before cancelling processes
   stopPeriodicReconciliation()
   stopUploadCleanup()
+  stopScheduler()
+  stopWebhookDispatcher()
 
   // Cancel all active engine processes before shutting down
   await issueEngine.cancelAll()
@@ -0,0 +1,210 @@
+import { eq } from 'drizzle-orm'
+import { cacheDel, cacheDelByPrefix } from '@/cache'
+import { db } from '@/db'
+import {
+  findProject,
+  getDefaultEngine,
+  getEngineDefaultModel,
+} from '@/db/helpers'
+import { getProjectWorkflow } from '@/db/project-statuses'
+import type { ScheduleRow, ScheduleRunStatus } from '@/db/schedules'
+import { getDueSchedules, recordScheduleRun } from '@/db/schedules'
+import { issues as issuesTable, schedules } from '@/db/schema'
+import { issueEngine } from '@/engines/issue'
+import { MAX_CONCURRENT_EXECUTIONS } from '@/engines/issue/constants'
+import type { EngineType } from '@/engines/types'
+import { emitIssueCreated, emitIssueUpdated } from '@/events/issue-events'
+import { logger } from '@/logger'
+import {
+  allocateIssueSlot,
+  getProjectOwnedIssue,
+  triggerIssueExecution,
+} from '@/routes/issues/_shared'
+import { nextCronRun } from '@/utils/cron'
+
+interface FireResult {
+  issueId: string | null
+  status: ScheduleRunStatus
+  error?: string
+}
+
+/** Create a fresh issue from the schedule's template and start it. */
+async function createScheduledIssue(
+  schedule: ScheduleRow,
+  directory: string | undefined,
+): Promise<FireResult> {
+  const workflow = await getProjectWorkflow(schedule.projectId)
+  const statusId = workflow.execution.id
+  const engineType = (schedule.engineType ??
+    ((await getDefaultEngine()) || 'echo')) as EngineType
+  const model =
+    schedule.model ?? (await getEngineDefaultModel(engineType)) ?? null
+
+  const [issue] = await db.transaction(async (tx) => {
+    const { issueNumber, sortOrder } = await allocateIssueSlot(
+      tx,
+      schedule.projectId,
+      statusId,
+    )
+    return tx
+      .insert(issuesTable)
+      .values({
+        projectId: schedule.projectId,
+        statusId,
+        issueNumber,
+        title: schedule.name,
+        sortOrder,
+        engineType,
+        model,
+        sessionStatus: 'pending',
+        prompt: schedule.prompt,
+      })
+      .returning()
+  })
+  await cacheDelByPrefix(`childCounts:${schedule.projectId}`)
+  await cacheDel(`projectIssueIds:${schedule.projectId}`)
+  emitIssueCreated(issue!.id, schedule.projectId)
+
+  triggerIssueExecution(
+    issue!.id,
+    { engineType, prompt: schedule.prompt, model },
+    directory,
+  )
+  return { issueId: issue!.id, status: 'started' }
+}
+
+/**
+ * Run the schedule's prompt on its issue again: a follow-up when the issue
+ * has a session, otherwise a first execution. The issue is moved back to
+ * the execution column first, wherever it currently sits.
+ */
+async function rerunScheduledIssue(
+  schedule: ScheduleRow,
+  issueId: string,
+  directory: string | undefined,
+): Promise<FireResult> {
+  const issue = await getProjectOwnedIssue(schedule.projectId, issueId)
+  if (!issue) return { issueId, status: 'failed', error: 'Issue not found' }
+  if (issueEngine.hasActiveProcessForIssue(issueId)) {
+    return { issueId, status: 'skipped', error: 'Issue is still running' }
+  }
+
+  const workflow = await getProjectWorkflow(schedule.projectId)
+  if (workflow.roleOf(issue.statusId) !== 'execution') {
+    const statusId = workflow.execution.id
+    await db
+      .update(issuesTable)
+      .set({ statusId })
+      .where(eq(issuesTable.id, issueId))
+    await cacheDel(`issue:${schedule.projectId}:${issueId}`)
+    emitIssueUpdated(issueId, { statusId })
+  }
+
+  if (issue.externalSessionId) {
+    await issueEngine.followUpIssue(
+      issueId,
+      schedule.prompt,
+      schedule.model ?? undefined,
+    )
+  } else {
+    await db
+      .update(issuesTable)
+      .set({ sessionStatus: 'pending' })
+      .where(eq(issuesTable.id, issueId))
+    await cacheDel(`issue:${schedule.projectId}:${issueId}`)
+    emitIssueUpdated(issueId, { sessionStatus: 'pending' })
+    triggerIssueExecution(
+      issueId,
+      {
+        engineType: schedule.engineType ?? issue.engineType,
+        prompt: schedule.prompt,
+        model: schedule.model ?? issue.model,
+      },
+      directory,
+    )
+  }
+  return { issueId, status: 'started' }
+}
+
+/**
+ * Start one run of a schedule now and record it. Failures are recorded on
+ * the run rather than thrown.
+ */
+export async function fireSchedule(schedule: ScheduleRow) {
+  let result: FireResult
+  try {
+    const project = await findProject(schedule.projectId)
+    if (!project) throw new Error('Project not found')
+    const directory = project.directory || undefined
+    result = schedule.issueId
+      ? await rerunScheduledIssue(schedule, schedule.issueId, directory)
+      : await createScheduledIssue(schedule, directory)
+  } catch (error) {
+    result = {
+      issueId: schedule.issueId,
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+    }
+  }
+
+  logger.info(
+    { scheduleId: schedule.id, projectId: schedule.projectId, ...result },
+    'schedule_fired',
+  )
+  return recordScheduleRun(schedule.id, result)
+}
+
+/**
+ * Fire every due schedule, as far as free execution slots allow; the rest
+ * stay due and are picked up by a later tick. Each schedule is advanced
+ * before it fires so a crash mid-run cannot fire it twice. Missed ticks
+ * (e.g. while the server was down) collapse into a single run.
+ */
+export async function runDueSchedules(now = new Date()): Promise<number> {
+  const due = await getDueSchedules(now)
+  let fired = 0
+  for (const [index, schedule] of due.entries()) {
+    // Executions start asynchronously, so count the ones fired this tick
+    if (issueEngine.activeCount() + fired >= MAX_CONCURRENT_EXECUTIONS) {
+      logger.info(
+        { remaining: due.length - index, limit: MAX_CONCURRENT_EXECUTIONS },
+        'schedules_deferred_concurrency_limit',
+      )
+      break
+    }
+
+    let nextRunAt: Date | null = null
+    if (schedule.cron) {
+      try {
+        nextRunAt = nextCronRun(schedule.cron, now)
+      } catch (error) {
+        logger.warn({ scheduleId: schedule.id, error }, 'schedule_cron_invalid')
+      }
+    }
+    await db
+      .update(schedules)
+      .set({ nextRunAt, lastRunAt: now, enabled: nextRunAt !== null })
+      .where(eq(schedules.id, schedule.id))
+
+    const run = await fireSchedule(schedule)
+    if (run.status === 'started') fired++
+  }
+  return fired
+}
+
+export function startScheduler(intervalMs = 30 * 1000): () => void {
+  let ticking = false
+  const timer = setInterval(async () => {
+    if (ticking) return
+    ticking = true
+    try {
+      await runDueSchedules()
+    } catch (err) {
+      logger.error({ err }, 'scheduler_tick_error')
+    } finally {
+      ticking = false
+    }
+  }, intervalMs)
+  if (timer && typeof timer === 'object' && 'unref' in timer) timer.unref()
+  return () => clearInterval(timer)
+}
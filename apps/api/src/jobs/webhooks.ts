@@ -0,0 +1,213 @@
+import { createHmac } from 'node:crypto'
+import { eq } from 'drizzle-orm'
+import { db } from '@/db'
+import { issues as issuesTable, projects } from '@/db/schema'
+import type { WebhookDeliveryRow, WebhookEvent } from '@/db/webhooks'
+import {
+  enqueueDeliveries,
+  getDueDeliveries,
+  recordDeliveryAttempt,
+} from '@/db/webhooks'
+import { issueEngine } from '@/engines/issue'
+import { onChangesSummary } from '@/events/changes-summary'
+import { onIssueCreated, onIssueUpdated } from '@/events/issue-events'
+import { logger } from '@/logger'
+import { VERSION } from '@/version'
+
+// Delay before each retry; a delivery is given up after the last one fails
+const RETRY_DELAYS_MS = [
+  30_000,
+  2 * 60_000,
+  10 * 60_000,
+  60 * 60_000,
+  6 * 60 * 60_000,
+]
+
+const REQUEST_TIMEOUT_MS = 10_000
+
+/** `sha256=<hex>` HMAC of the raw request body, sent as X-BitK-Signature. */
+export function signPayload(secret: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`
+}
+
+async function loadIssue(issueId: string) {
+  const [row] = await db
+    .select({
+      issue: {
+        id: issuesTable.id,
+        issueNumber: issuesTable.issueNumber,
+        title: issuesTable.title,
+        statusId: issuesTable.statusId,
+        priority: issuesTable.priority,
+        sessionStatus: issuesTable.sessionStatus,
+        engineType: issuesTable.engineType,
+        model: issuesTable.model,
+      },
+      project: {
+        id: projects.id,
+        name: projects.name,
+        alias: projects.alias,
+      },
+    })
+    .from(issuesTable)
+    .innerJoin(projects, eq(projects.id, issuesTable.projectId))
+    .where(eq(issuesTable.id, issueId))
+  return row ?? null
+}
+
+/**
+ * Queue `event` for the webhooks of the issue's project, then try to send
+ * it right away. The payload carries the issue as it is now plus `extra`.
+ */
+async function emitWebhookEvent(
+  event: WebhookEvent,
+  issueId: string,
+  extra: Record<string, unknown> = {},
+): Promise<void> {
+  const row = await loadIssue(issueId)
+  if (!row) return
+  const queued = await enqueueDeliveries(row.project.id, event, {
+    event,
+    occurredAt: new Date().toISOString(),
+    project: row.project,
+    issue: row.issue,
+    ...extra,
+  })
+  if (queued > 0) {
+    dispatchDeliveries().catch((err) => {
+      logger.error({ err }, 'webhook_dispatch_error')
+    })
+  }
+}
+
+async function deliver(
+  delivery: WebhookDeliveryRow,
+  url: string,
+  secret: string,
+): Promise<void> {
+  const attempts = delivery.attempts + 1
+  let responseStatus: number | null = null
+  let error: string | null = null
+  try {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': `BitK-Webhook/${VERSION}`,
+        'X-BitK-Event': delivery.event,
+        'X-BitK-Delivery': delivery.id,
+        'X-BitK-Signature': signPayload(secret, delivery.payload),
+      },
+      body: delivery.payload,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    })
+    responseStatus = res.status
+    if (!res.ok) error = `HTTP ${res.status}`
+    await res.body?.cancel()
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err)
+  }
+
+  if (!error) {
+    await recordDeliveryAttempt(delivery.id, {
+      status: 'delivered',
+      attempts,
+      responseStatus,
+      error: null,
+      nextAttemptAt: null,
+    })
+    return
+  }
+
+  const delay = RETRY_DELAYS_MS[attempts - 1]
+  await recordDeliveryAttempt(delivery.id, {
+    status: delay === undefined ? 'failed' : 'pending',
+    attempts,
+    responseStatus,
+    error,
+    nextAttemptAt: delay === undefined ? null : new Date(Date.now() + delay),
+  })
+  logger.warn(
+    {
+      deliveryId: delivery.id,
+      webhookId: delivery.webhookId,
+      event: delivery.event,
+      attempts,
+      error,
+    },
+    delay === undefined ? 'webhook_delivery_failed' : 'webhook_delivery_retry',
+  )
+}
+
+/** Send every due delivery once. Returns how many were attempted. */
+export async function runDueDeliveries(now = new Date()): Promise<number> {
+  let attempted = 0
+  while (true) {
+    const due = await getDueDeliveries(now)
+    if (due.length === 0) return attempted
+    for (const { delivery, url, secret } of due) {
+      await deliver(delivery, url, secret)
+      attempted++
+    }
+  }
+}
+
+let dispatching: Promise<number> = Promise.resolve(0)
+
+/**
+ * Run `runDueDeliveries` after any run already in progress, so a delivery
+ * is never sent twice concurrently.
+ */
+export function dispatchDeliveries(): Promise<number> {
+  dispatching = dispatching.catch(() => 0).then(() => runDueDeliveries())
+  return dispatching
+}
+
+/**
+ * Subscribe to issue lifecycle events and turn them into webhook
+ * deliveries. Returns a function that unsubscribes again.
+ */
+export function registerWebhookEvents(): () => void {
+  const report = (event: WebhookEvent) => (err: unknown) => {
+    logger.error({ err, event }, 'webhook_enqueue_failed')
+  }
+
+  const unsubs = [
+    onIssueCreated(({ issueId }) => {
+      void emitWebhookEvent('issue.created', issueId).catch(
+        report('issue.created'),
+      )
+    }),
+    onIssueUpdated(({ issueId, changes }) => {
+      if (typeof changes.statusId !== 'string') return
+      void emitWebhookEvent('issue.status_changed', issueId).catch(
+        report('issue.status_changed'),
+      )
+    }),
+    issueEngine.onIssueSettled((issueId, executionId, state) => {
+      void emitWebhookEvent('session.settled', issueId, {
+        executionId,
+        finalStatus: state,
+      }).catch(report('session.settled'))
+    }),
+    onChangesSummary(({ issueId, ...summary }) => {
+      void emitWebhookEvent('changes.summary', issueId, { summary }).catch(
+        report('changes.summary'),
+      )
+    }),
+  ]
+  return () => {
+    for (const unsub of unsubs) unsub()
+  }
+}
+
+/** Periodically retry deliveries whose backoff has elapsed. */
+export function startWebhookDispatcher(intervalMs = 15 * 1000): () => void {
+  const timer = setInterval(() => {
+    dispatchDeliveries().catch((err) => {
+      logger.error({ err }, 'webhook_dispatch_error')
+    })
+  }, intervalMs)
+  if (timer && typeof timer === 'object' && 'unref' in timer) timer.unref()
+  return () => clearInterval(timer)
+}
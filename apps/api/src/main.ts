@@ -0,0 +1,14 @@
+/**
+ * Entry point of the compiled `bitk` binary: client subcommands (`bitk issue
+ * …`, `bitk logs …`) run the command-line client against a running server;
+ * anything else starts the server itself.
+ */
+import process from 'node:process'
+import { isCliCommand, runCli } from './cli'
+
+const args = process.argv.slice(2)
+if (isCliCommand(args[0])) {
+  process.exit(await runCli(args))
+} else {
+  await import('./index')
+}
@@ -0,0 +1,29 @@
+import { resolve } from 'node:path'
+import type { McpServerConfig } from '@/engines/types'
+import { createIssueToken } from './token'
+
+/** Name of the injected server; a project server with this name replaces it. */
+export const BITK_MCP_SERVER = 'bitk'
+
+let baseUrl: string | null = null
+
+/** Record where this server listens; until then nothing is injected. */
+export function setMcpBaseUrl(url: string | null): void {
+  baseUrl = url
+}
+
+/**
+ * Stdio server config that connects an issue's agent to the board through
+ * `bitk mcp`, authenticated with a token bound to that issue.
+ */
+export function bitkMcpServer(issueId: string): McpServerConfig | null {
+  if (!baseUrl) return null
+  // The compiled binary is the CLI itself; in dev, run the entry script
+  const compiled = import.meta.dir.startsWith('/$bunfs')
+  return {
+    name: BITK_MCP_SERVER,
+    command: process.execPath,
+    args: compiled ? ['mcp'] : [resolve(import.meta.dir, '../main.ts'), 'mcp'],
+    env: { BITK_URL: baseUrl, BITK_TOKEN: createIssueToken(issueId) },
+  }
+}
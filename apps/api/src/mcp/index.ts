@@ -0,0 +1,135 @@
+/**
+ * BitK's own MCP server: lets agents read and manage the board they run
+ * on. Speaks JSON-RPC 2.0; `/api/mcp` serves it over streamable HTTP and
+ * `bitk mcp` bridges stdio to that endpoint.
+ */
+import * as z from 'zod'
+import { logger } from '@/logger'
+import { VERSION } from '@/version'
+import type { McpContext } from './tools'
+import { McpToolError, tools } from './tools'
+
+export type { McpContext } from './tools'
+
+/** Newest first; an unknown version requested by a client gets the first. */
+const PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05']
+
+export const PARSE_ERROR = -32700
+const INVALID_REQUEST = -32600
+const METHOD_NOT_FOUND = -32601
+const INVALID_PARAMS = -32602
+
+type RequestId = string | number | null
+
+export type JsonRpcResponse =
+  | { jsonrpc: '2.0'; id: RequestId; result: unknown }
+  | {
+      jsonrpc: '2.0'
+      id: RequestId
+      error: { code: number; message: string }
+    }
+
+const requestSchema = z.object({
+  jsonrpc: z.literal('2.0'),
+  id: z.union([z.string(), z.number(), z.null()]).optional(),
+  method: z.string(),
+  params: z.record(z.string(), z.unknown()).optional(),
+})
+
+export function rpcError(
+  id: RequestId,
+  code: number,
+  message: string,
+): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, error: { code, message } }
+}
+
+function toolList() {
+  return Object.entries(tools).map(([name, t]) => ({
+    name,
+    description: t.description,
+    inputSchema: z.toJSONSchema(t.input),
+  }))
+}
+
+type McpToolRun = (ctx: McpContext, args: unknown) => Promise<string>
+
+async function callTool(
+  ctx: McpContext,
+  params: Record<string, unknown>,
+): Promise<unknown> {
+  const name = String(params.name)
+  const t = Object.hasOwn(tools, name)
+    ? tools[name as keyof typeof tools]
+    : undefined
+  if (!t) return null
+
+  const text = (value: string, isError = false) => ({
+    content: [{ type: 'text', text: value }],
+    isError,
+  })
+  const args = t.input.safeParse(params.arguments ?? {})
+  if (!args.success) {
+    return text(args.error.issues.map((i) => i.message).join(', '), true)
+  }
+  try {
+    // Arguments were parsed against this tool's own schema above
+    return text(await (t.run as McpToolRun)(ctx, args.data))
+  } catch (error) {
+    if (error instanceof McpToolError) return text(error.message, true)
+    logger.error(
+      { tool: name, error: error instanceof Error ? error.message : error },
+      'mcp_tool_failed',
+    )
+    return text('Internal error', true)
+  }
+}
+
+/**
+ * Handle one JSON-RPC message. Resolves with the response, or null for
+ * notifications (which get none).
+ */
+export async function handleMcpMessage(
+  message: unknown,
+  ctx: McpContext,
+): Promise<JsonRpcResponse | null> {
+  const parsed = requestSchema.safeParse(message)
+  if (!parsed.success) {
+    return rpcError(null, INVALID_REQUEST, 'Invalid JSON-RPC request')
+  }
+  const { id, method, params = {} } = parsed.data
+  if (id === undefined) return null
+
+  const ok = (result: unknown): JsonRpcResponse => ({
+    jsonrpc: '2.0',
+    id,
+    result,
+  })
+  switch (method) {
+    case 'initialize': {
+      const requested = String(params.protocolVersion)
+      return ok({
+        protocolVersion: PROTOCOL_VERSIONS.includes(requested)
+          ? requested
+          : PROTOCOL_VERSIONS[0],
+        capabilities: { tools: {} },
+        serverInfo: { name: 'bitk', version: VERSION },
+        instructions: ctx.issueId
+          ? `You are the agent of BitK issue ${ctx.issueId}. Use these tools to inspect the board, split your work into sub-issues and talk to other issues.`
+          : 'Use these tools to inspect and manage the BitK board.',
+      })
+    }
+    case 'ping':
+      return ok({})
+    case 'tools/list':
+      return ok({ tools: toolList() })
+    case 'tools/call': {
+      const result = await callTool(ctx, params)
+      return result
+        ? ok(result)
+        : rpcError(id, INVALID_PARAMS, `Unknown tool: ${params.name}`)
+    }
+    default:
+      return rpcError(id, METHOD_NOT_FOUND, `Method not found: ${method}`)
+  }
+}
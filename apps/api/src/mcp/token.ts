@@ -0,0 +1,29 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto'
+
+const PREFIX = 'bitk_mcp'
+
+// Regenerated on every start: spawned agents die with the server, and a
+// re-spawn after a restart gets a fresh token
+const signingKey = randomBytes(32)
+
+function sign(issueId: string): string {
+  return createHmac('sha256', signingKey).update(issueId).digest('base64url')
+}
+
+/**
+ * Token handed to an issue's agent for the BitK MCP server. It is only
+ * accepted on `/api/mcp` and binds the caller to its own issue.
+ */
+export function createIssueToken(issueId: string): string {
+  return `${PREFIX}.${issueId}.${sign(issueId)}`
+}
+
+/** The issue an MCP token was issued for, or null if it is not one. */
+export function verifyIssueToken(token: string | null): string | null {
+  const [prefix, issueId, signature] = token?.split('.') ?? []
+  if (prefix !== PREFIX || !issueId || !signature) return null
+  const expected = Buffer.from(sign(issueId))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length) return null
+  return timingSafeEqual(expected, actual) ? issueId : null
+}
@@ -0,0 +1,236 @@
+import * as z from 'zod'
+import { lookupIssue } from '@/cli/issues'
+import { formatLogEntry } from '@/cli/output'
+import type { NormalizedLogEntry } from '@/engines/types'
+import apiRoutes from '@/routes/api'
+import type { serializeIssue } from '@/routes/issues/_shared'
+
+type Issue = ReturnType<typeof serializeIssue>
+
+type ApiResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string }
+
+/** Board the caller acts on; issue-scoped agents also know their own issue. */
+export interface McpContext {
+  projectId: string | null
+  issueId: string | null
+}
+
+/** Failure reported back to the agent as a tool error (not a protocol error). */
+export class McpToolError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'McpToolError'
+  }
+}
+
+interface McpTool<S extends z.ZodType> {
+  description: string
+  input: S
+  run: (ctx: McpContext, args: z.infer<S>) => Promise<string>
+}
+
+function tool<S extends z.ZodType>(definition: McpTool<S>): McpTool<S> {
+  return definition
+}
+
+/**
+ * Call an existing `/api` route in-process. Authentication already happened
+ * on `/api/mcp`, so the request goes straight to the route handlers.
+ */
+async function call<T>(
+  method: string,
+  path: string,
+  body?: unknown,
+): Promise<T> {
+  const res = await apiRoutes.request(path, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  })
+  const json = (await res.json()) as ApiResult<T>
+  if (!json.success) throw new McpToolError(json.error)
+  return json.data
+}
+
+function projectPath(ctx: McpContext): string {
+  if (!ctx.projectId) {
+    throw new McpToolError(
+      'No project: connect with X-BitK-Project (or BITK_PROJECT for stdio)',
+    )
+  }
+  return `/projects/${encodeURIComponent(ctx.projectId)}`
+}
+
+/** Look an issue up by id or number (`12` or `#12`); defaults to the caller's own. */
+async function resolveIssue(
+  ctx: McpContext,
+  ref: string | undefined,
+): Promise<Issue> {
+  const base = projectPath(ctx)
+  const target = ref ?? ctx.issueId
+  if (!target) throw new McpToolError('Missing issue (id or #number)')
+  return lookupIssue(
+    (path) => call('GET', path),
+    base,
+    target,
+    (message) => new McpToolError(message),
+  )
+}
+
+function summarize(issue: Issue) {
+  return {
+    id: issue.id,
+    number: issue.issueNumber,
+    title: issue.title,
+    statusId: issue.statusId,
+    priority: issue.priority,
+    parentIssueId: issue.parentIssueId,
+    sessionStatus: issue.sessionStatus,
+  }
+}
+
+const json = (data: unknown) => JSON.stringify(data, null, 2)
+
+const issueRef = z
+  .string()
+  .min(1)
+  .describe('Issue id or number (12 or #12); defaults to your own issue')
+
+export const tools = {
+  list_statuses: tool({
+    description: 'List the status columns of the board in order.',
+    input: z.object({}),
+    run: async (ctx) => json(await call('GET', `${projectPath(ctx)}/statuses`)),
+  }),
+
+  list_issues: tool({
+    description:
+      'List issues on the board, optionally filtered by status column or parent issue.',
+    input: z.object({
+      statusId: z.string().optional().describe('Only issues in this column'),
+      parentIssueId: z
+        .string()
+        .optional()
+        .describe('Only sub-issues of this issue id'),
+    }),
+    run: async (ctx, args) => {
+      const query = args.parentIssueId
+        ? `?parentId=${encodeURIComponent(args.parentIssueId)}`
+        : ''
+      const issues = await call<Issue[]>(
+        'GET',
+        `${projectPath(ctx)}/issues${query}`,
+      )
+      return json(
+        issues
+          .filter((i) => !args.statusId || i.statusId === args.statusId)
+          .sort((a, b) => a.issueNumber - b.issueNumber)
+          .map(summarize),
+      )
+    },
+  }),
+
+  create_sub_issue: tool({
+    description:
+      'Create a sub-issue under your issue (or under its parent when your issue is itself a sub-issue). It uses your engine and model.',
+    input: z.object({
+      title: z.string().min(1).max(500).describe('Title, also the prompt'),
+      priority: z.enum(['urgent', 'high', 'medium', 'low']).optional(),
+      statusId: z
+        .string()
+        .optional()
+        .describe('Column; defaults to the first one'),
+      run: z
+        .boolean()
+        .optional()
+        .describe('Place it in the execution column so it starts right away'),
+    }),
+    run: async (ctx, args) => {
+      const base = projectPath(ctx)
+      const current = await resolveIssue(ctx, undefined)
+      let statusId = args.statusId
+      if (!statusId) {
+        const statuses = await call<
+          { id: string; sortOrder: number; triggersExecution: boolean }[]
+        >('GET', `${base}/statuses`)
+        const ordered = [...statuses].sort((a, b) => a.sortOrder - b.sortOrder)
+        const column = args.run
+          ? ordered.find((s) => s.triggersExecution)
+          : ordered[0]
+        if (!column) throw new McpToolError('No matching status column')
+        statusId = column.id
+      }
+      const issue = await call<Issue>('POST', `${base}/issues`, {
+        title: args.title,
+        priority: args.priority,
+        statusId,
+        // Sub-issues are one level deep
+        parentIssueId: current.parentIssueId ?? current.id,
+        engineProfileId:
+          current.engineProfileId ?? current.engineType ?? undefined,
+        model: current.model ?? undefined,
+      })
+      return json(summarize(issue))
+    },
+  }),
+
+  update_status: tool({
+    description: 'Move an issue to another status column.',
+    input: z.object({
+      issue: issueRef.optional(),
+      statusId: z.string().min(1).describe('Target column id'),
+    }),
+    run: async (ctx, args) => {
+      const issue = await resolveIssue(ctx, args.issue)
+      const updated = await call<Issue>(
+        'PATCH',
+        `${projectPath(ctx)}/issues/${issue.id}`,
+        { statusId: args.statusId },
+      )
+      return json(summarize(updated))
+    },
+  }),
+
+  post_note: tool({
+    description:
+      "Send a message to another issue's agent. It waits in the queue while that agent is busy or the issue is not running.",
+    input: z.object({
+      issue: z.string().min(1).describe('Issue id or number (12 or #12)'),
+      text: z.string().min(1).max(32768),
+    }),
+    run: async (ctx, args) => {
+      const issue = await resolveIssue(ctx, args.issue)
+      const result = await call<{ queued?: boolean }>(
+        'POST',
+        `${projectPath(ctx)}/issues/${issue.id}/follow-up`,
+        { prompt: args.text, busyAction: 'queue' },
+      )
+      return result.queued
+        ? `Queued for #${issue.issueNumber}`
+        : `Sent to #${issue.issueNumber}`
+    },
+  }),
+
+  read_transcript: tool({
+    description: "Read the latest entries of an issue's session transcript.",
+    input: z.object({
+      issue: z.string().min(1).describe('Issue id or number (12 or #12)'),
+      limit: z.number().int().min(1).max(1000).optional(),
+    }),
+    run: async (ctx, args) => {
+      const issue = await resolveIssue(ctx, args.issue)
+      const { logs } = await call<{ logs: NormalizedLogEntry[] }>(
+        'GET',
+        `${projectPath(ctx)}/issues/${issue.id}/logs?limit=${args.limit ?? 100}`,
+      )
+      const lines = logs
+        .map(formatLogEntry)
+        .filter((line): line is string => line !== null)
+      return lines.length > 0
+        ? lines.join('\n')
+        : `#${issue.issueNumber} has no transcript yet`
+    },
+  }),
+}
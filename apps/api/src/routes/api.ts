@@ -1,10 +1,23 @@
 import { Hono } from 'hono'
 import { checkDbHealth } from '@/db'
 import { COMMIT, VERSION } from '@/version'
+import budget from './budget'
+import dependencies from './dependencies'
+import executionQueue from './execution-queue'
 import files from './files'
 import filesystem from './filesystem'
+import guardrails from './guardrails'
 import issues from './issues'
+import mcpServers from './mcp-servers'
+import projectEnv from './project-env'
 import projects from './projects'
+import schedules from './schedules'
+import search from './search'
+import statuses from './statuses'
+import triggers from './triggers'
+import usage from './usage'
+import verifyCommands from './verify-commands'
+import webhooks from './webhooks'
 
 const apiRoutes = new Hono()
 
@@ -12,6 +25,19 @@ const apiRoutes = new Hono()
 apiRoutes.route('/projects', projects)
 apiRoutes.route('/projects/:projectId/issues', issues)
 apiRoutes.route('/projects/:projectId/files', files)
+apiRoutes.route('/projects/:projectId/statuses', statuses)
+apiRoutes.route('/projects/:projectId/dependencies', dependencies)
+apiRoutes.route('/projects/:projectId/usage', usage)
+apiRoutes.route('/projects/:projectId/budget', budget)
+apiRoutes.route('/projects/:projectId/schedules', schedules)
+apiRoutes.route('/projects/:projectId/webhooks', webhooks)
+apiRoutes.route('/projects/:projectId/triggers', triggers)
+apiRoutes.route('/projects/:projectId/env', projectEnv)
+apiRoutes.route('/projects/:projectId/mcp-servers', mcpServers)
+apiRoutes.route('/projects/:projectId/guardrails', guardrails)
+apiRoutes.route('/projects/:projectId/verify-commands', verifyCommands)
+apiRoutes.route('/execution-queue', executionQueue)
+apiRoutes.route('/search', search)
 
 // Infrastructure routes
 apiRoutes.route('/filesystem', filesystem)
@@ -0,0 +1,261 @@
+import { zValidator } from '@hono/zod-validator'
+import type { Context } from 'hono'
+import { Hono } from 'hono'
+import { deleteCookie, setCookie } from 'hono/cookie'
+import * as z from 'zod'
+import {
+  countAdmins,
+  createSession,
+  createUser,
+  deleteUser,
+  findUser,
+  findUserByUsername,
+  hasUsers,
+  isAuthEnabled,
+  listUsers,
+  revokeOtherSessions,
+  revokeSession,
+  SESSION_COOKIE,
+  setPassword,
+  verifyCredentials,
+} from '@/auth'
+import { extractToken, requireAdmin } from '@/auth/middleware'
+import { logger } from '@/logger'
+
+const usernameSchema = z
+  .string()
+  .regex(
+    /^[\w.-]{1,64}$/,
+    'Username must be 1-64 letters, digits, dots, dashes or underscores',
+  )
+const passwordSchema = z
+  .string()
+  .min(8, 'Password must be at least 8 characters')
+  .max(256)
+
+const credentialsSchema = z.object({
+  username: usernameSchema,
+  password: z.string().min(1).max(256),
+})
+
+const createUserSchema = z.object({
+  username: usernameSchema,
+  password: passwordSchema,
+  role: z.enum(['admin', 'member']).default('member'),
+})
+
+const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1).max(256),
+  newPassword: passwordSchema,
+})
+
+/** Start a session for `userId`: set the cookie and return the raw token. */
+function startSession(c: Context, userId: string) {
+  const session = createSession(userId)
+  setCookie(c, SESSION_COOKIE, session.token, {
+    httpOnly: true,
+    sameSite: 'Lax',
+    secure: new URL(c.req.url).protocol === 'https:',
+    path: '/',
+    expires: session.expiresAt,
+  })
+  return { token: session.token, expiresAt: session.expiresAt.toISOString() }
+}
+
+const auth = new Hono()
+
+// GET /api/auth/status — Whether login is required and who the caller is
+auth.get('/status', (c) => {
+  return c.json({
+    success: true,
+    data: {
+      authEnabled: isAuthEnabled(),
+      needsSetup: !hasUsers(),
+      user: c.get('user'),
+    },
+  })
+})
+
+// POST /api/auth/setup — Create the first admin account
+auth.post(
+  '/setup',
+  zValidator(
+    'json',
+    z.object({ username: usernameSchema, password: passwordSchema }),
+    (result, c) => {
+      if (!result.success) {
+        return c.json(
+          {
+            success: false,
+            error: result.error.issues.map((i) => i.message).join(', '),
+          },
+          400,
+        )
+      }
+    },
+  ),
+  async (c) => {
+    if (hasUsers()) {
+      return c.json({ success: false, error: 'Setup already completed' }, 409)
+    }
+    // With API_SECRET configured, only its holder may claim the first account
+    if (isAuthEnabled() && !c.get('user')) {
+      return c.json({ success: false, error: 'Unauthorized' }, 401)
+    }
+
+    const { username, password } = c.req.valid('json')
+    const user = await createUser(username, password, 'admin')
+    logger.info({ userId: user.id, username }, 'auth_setup_completed')
+    return c.json(
+      { success: true, data: { user, ...startSession(c, user.id) } },
+      201,
+    )
+  },
+)
+
+// POST /api/auth/login — Exchange credentials for a session
+auth.post(
+  '/login',
+  zValidator('json', credentialsSchema, (result, c) => {
+    if (!result.success) {
+      return c.json(
+        {
+          success: false,
+          error: result.error.issues.map((i) => i.message).join(', '),
+        },
+        400,
+      )
+    }
+  }),
+  async (c) => {
+    const { username, password } = c.req.valid('json')
+    const user = await verifyCredentials(username, password)
+    if (!user) {
+      logger.warn({ username }, 'auth_login_failed')
+      return c.json(
+        { success: false, error: 'Invalid username or password' },
+        401,
+      )
+    }
+
+    logger.info({ userId: user.id }, 'auth_login')
+    return c.json({
+      success: true,
+      data: { user, ...startSession(c, user.id) },
+    })
+  },
+)
+
+// POST /api/auth/logout — Revoke the current session
+auth.post('/logout', (c) => {
+  const token = extractToken(c)
+  if (token) revokeSession(token)
+  deleteCookie(c, SESSION_COOKIE, { path: '/' })
+  return c.json({ success: true, data: null })
+})
+
+// GET /api/auth/me — Current user (null while auth is disabled)
+auth.get('/me', (c) => {
+  return c.json({ success: true, data: c.get('user') })
+})
+
+// PATCH /api/auth/me/password — Change own password, signing out other sessions
+auth.patch(
+  '/me/password',
+  zValidator('json', changePasswordSchema, (result, c) => {
+    if (!result.success) {
+      return c.json(
+        {
+          success: false,
+          error: result.error.issues.map((i) => i.message).join(', '),
+        },
+        400,
+      )
+    }
+  }),
+  async (c) => {
+    const current = c.get('user')
+    // API_SECRET callers have no account row
+    const row = current ? findUser(current.id) : null
+    if (!row) {
+      return c.json(
+        { success: false, error: 'Only user accounts have a password' },
+        400,
+      )
+    }
+
+    const { currentPassword, newPassword } = c.req.valid('json')
+    if (!(await verifyCredentials(row.username, currentPassword))) {
+      return c.json(
+        { success: false, error: 'Current password is incorrect' },
+        400,
+      )
+    }
+
+    await setPassword(row.id, newPassword)
+    revokeOtherSessions(row.id, extractToken(c) ?? undefined)
+    logger.info({ userId: row.id }, 'auth_password_changed')
+    return c.json({ success: true, data: null })
+  },
+)
+
+// --- User management (admin only) ---
+
+// GET /api/auth/users
+auth.get('/users', requireAdmin(), (c) => {
+  return c.json({ success: true, data: listUsers() })
+})
+
+// POST /api/auth/users
+auth.post(
+  '/users',
+  requireAdmin(),
+  zValidator('json', createUserSchema, (result, c) => {
+    if (!result.success) {
+      return c.json(
+        {
+          success: false,
+          error: result.error.issues.map((i) => i.message).join(', '),
+        },
+        400,
+      )
+    }
+  }),
+  async (c) => {
+    const { username, password, role } = c.req.valid('json')
+    if (findUserByUsername(username)) {
+      return c.json({ success: false, error: 'Username already exists' }, 409)
+    }
+    const user = await createUser(username, password, role)
+    logger.info({ userId: user.id, username, role }, 'auth_user_created')
+    return c.json({ success: true, data: user }, 201)
+  },
+)
+
+// DELETE /api/auth/users/:id
+auth.delete('/users/:id', requireAdmin(), (c) => {
+  const userId = c.req.param('id')
+  if (userId === c.get('user')?.id) {
+    return c.json(
+      { success: false, error: 'You cannot delete your own account' },
+      400,
+    )
+  }
+
+  const target = findUser(userId)
+  if (!target) {
+    return c.json({ success: false, error: 'User not found' }, 404)
+  }
+  if (target.role === 'admin' && countAdmins() <= 1) {
+    return c.json(
+      { success: false, error: 'Cannot delete the last admin' },
+      400,
+    )
+  }
+
+  deleteUser(userId)
+  logger.info({ userId }, 'auth_user_deleted')
+  return c.json({ success: true, data: { id: userId } })
+})
+
+export default auth
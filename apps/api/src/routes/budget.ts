@@ -0,0 +1,56 @@
+import { zValidator } from '@hono/zod-validator'
+import { Hono } from 'hono'
+import * as z from 'zod'
+import { getBudget, getRunSeconds, setBudget } from '@/db/budgets'
+import { findProject } from '@/db/helpers'
+import { getUsageTotals } from '@/db/usage'
+
+// Null clears a limit
+export const budgetSchema = z.object({
+  maxCostUsd: z.number().positive().nullable(),
+  maxTokens: z.number().int().positive().nullable(),
+  maxTurns: z.number().int().positive().nullable(),
+  maxDurationSeconds: z.number().int().positive().nullable(),
+})
+
+const budget = new Hono()
+
+// GET /api/projects/:projectId/budget — Project-wide limits and all-time usage
+budget.get('/', async (c) => {
+  const project = await findProject(c.req.param('projectId')!)
+  if (!project) {
+    return c.json({ success: false, error: 'Project not found' }, 404)
+  }
+  const limits = getBudget(project.id, null)
+  const usage = getUsageTotals({ projectId: project.id })
+  const runSeconds = getRunSeconds({ projectId: project.id })
+  return c.json({ success: true, data: { limits, usage, runSeconds } })
+})
+
+// PUT /api/projects/:projectId/budget — Replace the project-wide limits
+budget.put(
+  '/',
+  zValidator('json', budgetSchema, (result, c) => {
+    if (!result.success) {
+      return c.json(
+        {
+          success: false,
+          error: result.error.issues.map((i) => i.message).join(', '),
+        },
+        400,
+      )
+    }
+  }),
+  async (c) => {
+    const project = await findProject(c.req.param('projectId')!)
+    if (!project) {
+      return c.json({ success: false, error: 'Project not found' }, 404)
+    }
+    const limits = await setBudget(project.id, null, c.req.valid('json'))
+    const usage = getUsageTotals({ projectId: project.id })
+    const runSeconds = getRunSeconds({ projectId: project.id })
+    return c.json({ success: true, data: { limits, usage, runSeconds } })
+  },
+)
+
+export default budget
@@ -0,0 +1,19 @@
+import { Hono } from 'hono'
+import { findProject } from '@/db/helpers'
+import { listProjectDependencies } from '@/db/issue-dependencies'
+
+const dependencies = new Hono()
+
+// GET /api/projects/:projectId/dependencies — Every "blocked by" edge in the project
+dependencies.get('/', async (c) => {
+  const project = await findProject(c.req.param('projectId')!)
+  if (!project) {
+    return c.json({ success: false, error: 'Project not found' }, 404)
+  }
+  return c.json({
+    success: true,
+    data: await listProjectDependencies(project.id),
+  })
+})
+
+export default dependencies
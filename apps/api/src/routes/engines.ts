@@ -1,13 +1,26 @@
 import { zValidator } from '@hono/zod-validator'
+import { eq } from 'drizzle-orm'
 import { Hono } from 'hono'
 import * as z from 'zod'
+import { db } from '@/db'
+import { getEngineProfileRow } from '@/db/engine-profiles'
 import {
   getAllEngineDefaultModels,
   getDefaultEngine,
   setDefaultEngine,
   setEngineDefaultModel,
 } from '@/db/helpers'
+import { engineProfiles as engineProfilesTable } from '@/db/schema'
+import {
+  configureCustomEngine,
+  getCustomEngineConfig,
+} from '@/engines/custom-engine'
 import { engineRegistry } from '@/engines/executors'
+import {
+  isEngineType,
+  listEngineProfiles,
+  toEngineProfile,
+} from '@/engines/profiles'
 import {
   forceProbeEngines,
   getEngineDiscovery,
@@ -15,9 +28,75 @@ import {
 } from '@/engines/startup-probe'
 import { BUILT_IN_PROFILES } from '@/engines/types'
 
-const ENGINE_TYPES = ['claude-code', 'codex', 'gemini', 'echo'] as const
+const ENGINE_TYPES = [
+  'claude-code',
+  'codex',
+  'gemini',
+  'echo',
+  'custom',
+] as const
 const engineTypeEnum = z.enum(ENGINE_TYPES)
 
+const profileFields = {
+  name: z.string().trim().min(1).max(100),
+  baseCommand: z.string().trim().min(1).max(1000),
+  args: z.array(z.string().max(1000)).max(100),
+  env: z.record(
+    z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'Invalid env var name'),
+    z.string().max(10000),
+  ),
+  defaultModel: z
+    .string()
+    .regex(/^[\w.\-[\]]{1,100}$/)
+    .nullable(),
+  permissionPolicy: z.enum(['auto', 'supervised', 'plan']).nullable(),
+  capabilities: z
+    .array(
+      z.enum([
+        'session-fork',
+        'setup-helper',
+        'context-usage',
+        'plan-mode',
+        'sandbox',
+        'reasoning',
+      ]),
+    )
+    .nullable(),
+}
+
+// Omitted fields inherit from the built-in engine
+const createProfileSchema = z.object({
+  ...profileFields,
+  engineType: engineTypeEnum,
+  baseCommand: profileFields.baseCommand.optional(),
+  args: profileFields.args.default([]),
+  env: profileFields.env.default({}),
+  defaultModel: profileFields.defaultModel.optional(),
+  permissionPolicy: profileFields.permissionPolicy.optional(),
+  capabilities: profileFields.capabilities.optional(),
+})
+
+// The engine a profile derives from is fixed; issues rely on it
+const updateProfileSchema = z.object(profileFields).partial()
+
+const flagSchema = z.string().regex(/^--?[\w-]+$/, 'Invalid flag')
+
+const customEngineSchema = z.object({
+  command: z.string().trim().min(1).max(1000),
+  resumeFlag: flagSchema.default('--resume'),
+  modelFlag: flagSchema.default('--model'),
+  models: z
+    .array(
+      z.object({
+        id: z.string().regex(/^[\w.\-[\]]{1,100}$/),
+        name: z.string().trim().min(1).max(100),
+        isDefault: z.boolean().optional(),
+      }),
+    )
+    .max(50)
+    .default([]),
+})
+
 const engines = new Hono()
 
 // GET /api/engines/available — List detected engines + models (cache → DB → live probe)
@@ -26,12 +105,136 @@ engines.get('/available', async (c) => {
   return c.json({ success: true, data: { engines, models } })
 })
 
-// GET /api/engines/profiles — List engine profiles
-engines.get('/profiles', (c) => {
-  const profiles = Object.values(BUILT_IN_PROFILES)
-  return c.json({ success: true, data: profiles })
+// GET /api/engines/profiles — Built-in profiles, then user-defined ones
+engines.get('/profiles', async (c) => {
+  return c.json({ success: true, data: await listEngineProfiles() })
 })
 
+// POST /api/engines/profiles — Create a profile deriving from a built-in engine
+engines.post(
+  '/profiles',
+  zValidator('json', createProfileSchema, (result, c) => {
+    if (!result.success) {
+      return c.json(
+        {
+          success: false,
+          error: result.error.issues.map((i) => i.message).join(', '),
+        },
+        400,
+      )
+    }
+  }),
+  async (c) => {
+    const body = c.req.valid('json')
+    const [row] = await db
+      .insert(engineProfilesTable)
+      .values({
+        name: body.name,
+        engineType: body.engineType,
+        baseCommand:
+          body.baseCommand ?? BUILT_IN_PROFILES[body.engineType].baseCommand,
+        args: JSON.stringify(body.args),
+        env: JSON.stringify(body.env),
+        defaultModel: body.defaultModel ?? null,
+        permissionPolicy: body.permissionPolicy ?? null,
+        capabilities: body.capabilities
+          ? JSON.stringify(body.capabilities)
+          : null,
+      })
+      .returning()
+    return c.json({ success: true, data: toEngineProfile(row!) }, 201)
+  },
+)
+
+// PATCH /api/engines/profiles/:id — Update a user-defined profile
+engines.patch(
+  '/profiles/:id',
+  zValidator('json', updateProfileSchema, (result, c) => {
+    if (!result.success) {
+      return c.json(
+        {
+          success: false,
+          error: result.error.issues.map((i) => i.message).join(', '),
+        },
+        400,
+      )
+    }
+  }),
+  async (c) => {
+    const id = c.req.param('id')
+    if (isEngineType(id)) {
+      return c.json(
+        { success: false, error: 'Built-in profiles cannot be changed' },
+        400,
+      )
+    }
+    const existing = await getEngineProfileRow(id)
+    if (!existing) {
+      return c.json({ success: false, error: 'Engine profile not found' }, 404)
+    }
+    const { args, env, capabilities, ...rest } = c.req.valid('json')
+    const [row] = await db
+      .update(engineProfilesTable)
+      .set({
+        ...rest,
+        ...(args !== undefined && { args: JSON.stringify(args) }),
+        ...(env !== undefined && { env: JSON.stringify(env) }),
+        ...(capabilities !== undefined && {
+          capabilities: capabilities ? JSON.stringify(capabilities) : null,
+        }),
+      })
+      .where(eq(engineProfilesTable.id, existing.id))
+      .returning()
+    return c.json({ success: true, data: toEngineProfile(row!) })
+  },
+)
+
+// DELETE /api/engines/profiles/:id — Soft-delete; issues using it fall back to the built-in engine
+engines.delete('/profiles/:id', async (c) => {
+  const id = c.req.param('id')
+  if (isEngineType(id)) {
+    return c.json(
+      { success: false, error: 'Built-in profiles cannot be deleted' },
+      400,
+    )
+  }
+  const existing = await getEngineProfileRow(id)
+  if (!existing) {
+    return c.json({ success: false, error: 'Engine profile not found' }, 404)
+  }
+  await db
+    .update(engineProfilesTable)
+    .set({ isDeleted: 1 })
+    .where(eq(engineProfilesTable.id, existing.id))
+  return c.json({ success: true, data: { id: existing.id } })
+})
+
+// GET /api/engines/custom — Command, flags and models of the custom engine (null until configured)
+engines.get('/custom', async (c) => {
+  return c.json({ success: true, data: await getCustomEngineConfig() })
+})
+
+// PUT /api/engines/custom — Configure the custom engine and re-register its executor
+engines.put(
+  '/custom',
+  zValidator('json', customEngineSchema, (result, c) => {
+    if (!result.success) {
+      return c.json(
+        {
+          success: false,
+          error: result.error.issues.map((i) => i.message).join(', '),
+        },
+        400,
+      )
+    }
+  }),
+  async (c) => {
+    const config = c.req.valid('json')
+    await configureCustomEngine(config)
+    return c.json({ success: true, data: config })
+  },
+)
+
 // GET /api/engines/settings — Get all engine settings (default engine + per-engine default models)
 engines.get('/settings', async (c) => {
   const [defaults, defaultEngine] = await Promise.all([
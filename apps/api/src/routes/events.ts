@@ -1,6 +1,7 @@
 import { Hono } from 'hono'
 import { streamSSE } from 'hono/streaming'
 import { issueEngine } from '@/engines/issue'
+import { onApprovalRequest, onApprovalResolved } from '@/events/approval-events'
 import { onChangesSummary } from '@/events/changes-summary'
 import { onIssueUpdated } from '@/events/issue-events'
 import { logger } from '@/logger'
@@ -68,6 +69,18 @@ events.get('/', async (c) => {
         writeEvent('changes-summary', summary)
       })
 
+      // Tool approvals raised by engines in supervised mode
+      const unsubApprovalRequest = onApprovalRequest((approval) => {
+        writeEvent('approval-request', approval)
+      })
+      const unsubApprovalResolved = onApprovalResolved((approval) => {
+        writeEvent('approval-resolved', approval)
+      })
+
+      // Immediate heartbeat flushes the response headers, so clients know
+      // they are subscribed before they trigger anything worth watching
+      writeEvent('heartbeat', { ts: new Date().toISOString() })
+
       // Heartbeat every 15s — keeps connection alive and detects client disconnect
       const heartbeat = setInterval(() => {
         if (done) return
@@ -84,6 +97,8 @@ events.get('/', async (c) => {
         unsubSettled()
         unsubIssueUpdated()
         unsubChangesSummary()
+        unsubApprovalRequest()
+        unsubApprovalResolved()
         logger.debug('global_sse_closed')
       }
     })
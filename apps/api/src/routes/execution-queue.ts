@@ -0,0 +1,61 @@
+import { zValidator } from '@hono/zod-validator'
+import { Hono } from 'hono'
+import * as z from 'zod'
+import { listQueue, reorderQueue } from '@/db/execution-queue'
+import { issueEngine } from '@/engines/issue'
+import { emitIssueUpdated } from '@/events/issue-events'
+
+const reorderSchema = z.object({
+  // Queued issue ids in their new order; unlisted entries keep their place
+  issueIds: z.array(z.string().min(1)).min(1).max(500),
+})
+
+const executionQueue = new Hono()
+
+// GET /api/execution-queue — Executions waiting for a free slot, next first
+executionQueue.get('/', async (c) => {
+  return c.json({ success: true, data: await listQueue() })
+})
+
+// PUT /api/execution-queue — Reorder queued executions
+executionQueue.put(
+  '/',
+  zValidator('json', reorderSchema, (result, c) => {
+    if (!result.success) {
+      return c.json(
+        {
+          success: false,
+          error: result.error.issues.map((i) => i.message).join(', '),
+        },
+        400,
+      )
+    }
+  }),
+  async (c) => {
+    const { issueIds } = c.req.valid('json')
+    if (!(await reorderQueue(issueIds))) {
+      return c.json(
+        {
+          success: false,
+          error: 'Every issue must be queued and listed once',
+        },
+        400,
+      )
+    }
+    for (const issueId of issueIds) {
+      emitIssueUpdated(issueId, { queued: true })
+    }
+    return c.json({ success: true, data: await listQueue() })
+  },
+)
+
+// DELETE /api/execution-queue/:issueId — Drop a queued execution without running it
+executionQueue.delete('/:issueId', async (c) => {
+  const issueId = c.req.param('issueId')
+  if (!(await issueEngine.dequeueIssue(issueId))) {
+    return c.json({ success: false, error: 'Issue is not queued' }, 404)
+  }
+  return c.json({ success: true, data: { issueId } })
+})
+
+export default executionQueue
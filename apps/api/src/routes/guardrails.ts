@@ -0,0 +1,129 @@
+import { zValidator } from '@hono/zod-validator'
+import { eq } from 'drizzle-orm'
+import { Hono } from 'hono'
+import * as z from 'zod'
+import { db } from '@/db'
+import type { GuardrailRow } from '@/db/guardrails'
+import { getGuardrail, listGuardrails } from '@/db/guardrails'
+import { findProject } from '@/db/helpers'
+import { projectGuardrails } from '@/db/schema'
+import { toISO } from '@/utils/date'
+
+const guardrailFields = {
+  kind: z.enum(['command', 'path', 'tool']),
+  pattern: z.string().trim().min(1, 'Pattern is required').max(1024),
+  action: z.enum(['deny', 'allow']),
+  enabled: z.boolean(),
+}
+
+const createGuardrailSchema = z.object({
+  ...guardrailFields,
+  action: guardrailFields.action.default('deny'),
+  enabled: guardrailFields.enabled.default(true),
+})
+
+const updateGuardrailSchema = z.object(guardrailFields).partial()
+
+function serializeGuardrail(row: GuardrailRow) {
+  return {
+    id: row.id,
+    projectId: row.projectId,
+    kind: row.kind,
+    pattern: row.pattern,
+    action: row.action,
+    enabled: row.enabled,
+    createdAt: toISO(row.createdAt),
+    updatedAt: toISO(row.updatedAt),
+  }
+}
+
+const guardrails = new Hono()
+
+// GET /api/projects/:projectId/guardrails — All guardrails of the project
+guardrails.get('/', async (c) => {
+  const project = await findProject(c.req.param('projectId')!)
+  if (!project) {
+    return c.json({ success: false, error: 'Project not found' }, 404)
+  }
+  const rows = await listGuardrails(project.id)
+  return c.json({ success: true, data: rows.map(serializeGuardrail) })
+})
+
+// POST /api/projects/:projectId/guardrails — Add a rule on the project's agent tool calls
+guardrails.post(
+  '/',
+  zValidator('json', createGuardrailSchema, (result, c) => {
+    if (!result.success) {
+      return c.json(
+        {
+          success: false,
+          error: result.error.issues.map((i) => i.message).join(', '),
+        },
+        400,
+      )
+    }
+  }),
+  async (c) => {
+    const project = await findProject(c.req.param('projectId')!)
+    if (!project) {
+      return c.json({ success: false, error: 'Project not found' }, 404)
+    }
+    const body = c.req.valid('json')
+    const [row] = await db
+      .insert(projectGuardrails)
+      .values({ projectId: project.id, ...body })
+      .returning()
+    return c.json({ success: true, data: serializeGuardrail(row!) }, 201)
+  },
+)
+
+// PATCH /api/projects/:projectId/guardrails/:id — Update any field; applies from the next spawn
+guardrails.patch(
+  '/:id',
+  zValidator('json', updateGuardrailSchema, (result, c) => {
+    if (!result.success) {
+      return c.json(
+        {
+          success: false,
+          error: result.error.issues.map((i) => i.message).join(', '),
+        },
+        400,
+      )
+    }
+  }),
+  async (c) => {
+    const project = await findProject(c.req.param('projectId')!)
+    if (!project) {
+      return c.json({ success: false, error: 'Project not found' }, 404)
+    }
+    const existing = await getGuardrail(project.id, c.req.param('id')!)
+    if (!existing) {
+      return c.json({ success: false, error: 'Guardrail not found' }, 404)
+    }
+    const [row] = await db
+      .update(projectGuardrails)
+      .set(c.req.valid('json'))
+      .where(eq(projectGuardrails.id, existing.id))
+      .returning()
+    return c.json({ success: true, data: serializeGuardrail(row!) })
+  },
+)
+
+// DELETE /api/projects/:projectId/guardrails/:id — Soft-delete
+guardrails.delete('/:id', async (c) => {
+  const project = await findProject(c.req.param('projectId')!)
+  if (!project) {
+    return c.json({ success: false, error: 'Project not found' }, 404)
+  }
+  const existing = await getGuardrail(project.id, c.req.param('id')!)
+  if (!existing) {
+    return c.json({ success: false, error: 'Guardrail not found' }, 404)
+  }
+  await db
+    .update(projectGuardrails)
+    .set({ isDeleted: 1 })
+    .where(eq(projectGuardrails.id, existing.id))
+  return c.json({ success: true, data: { id: existing.id } })
+})
+
+export default guardrails
@@ -1,4 +1,6 @@
 export { default as apiRoutes } from './api'
+export { default as authRoutes } from './auth'
 export { default as engineRoutes } from './engines'
 export { default as eventRoutes } from './events'
+export { default as mcpRoutes } from './mcp'
 export { default as settingsRoutes } from './settings'
@@ -0,0 +1,72 @@
+import { stat } from 'node:fs/promises'
+import { resolve, sep } from 'node:path'
+import { cacheGetOrSet } from '@/cache'
+import { findProject } from '@/db/helpers'
+
+// ---------- Git helpers (shared by changes.ts & worktree.ts) ----------
+
+export function isPathInsideRoot(root: string, path: string): boolean {
+  const abs = resolve(root, path)
+  const rootPrefix = root.endsWith(sep) ? root : `${root}${sep}`
+  return abs === root || abs.startsWith(rootPrefix)
+}
+
+export function countTextLines(content: string): number {
+  if (!content) return 0
+  const normalized = content.replace(/\r\n/g, '\n')
+  const trimmed = normalized.endsWith('\n')
+    ? normalized.slice(0, -1)
+    : normalized
+  return trimmed ? trimmed.split('\n').length : 0
+}
+
+export async function resolveProjectDir(projectId: string): Promise<string> {
+  const project = await findProject(projectId)
+  const root = project?.directory ? resolve(project.directory) : process.cwd()
+  const s = await stat(root)
+  if (!s.isDirectory())
+    throw new Error(`Project directory is not a directory: ${root}`)
+  return root
+}
+
+export async function runGit(
+  args: string[],
+  cwd: string,
+  env?: Record<string, string>,
+): Promise<{ code: number; stdout: string; stderr: string }> {
+  const proc = Bun.spawn(['git', ...args], {
+    cwd,
+    ...(env && { env: { ...process.env, ...env } }),
+    stdout: 'pipe',
+    stderr: 'pipe',
+  })
+  // Drain both pipes concurrently so a chatty stderr cannot block the child
+  const [stdout, stderr] = await Promise.all([
+    proc.stdout ? new Response(proc.stdout).text() : '',
+    proc.stderr ? new Response(proc.stderr).text() : '',
+  ])
+  const code = await proc.exited
+  return { code, stdout, stderr }
+}
+
+export async function isGitRepo(cwd: string): Promise<boolean> {
+  return cacheGetOrSet(`gitRepo:${cwd}`, 120, async () => {
+    const { code, stdout } = await runGit(
+      ['rev-parse', '--is-inside-work-tree'],
+      cwd,
+    )
+    return code === 0 && stdout.trim() === 'true'
+  })
+}
+
+/** Per-path `[additions, deletions]` from `git diff --numstat` output. */
+export function parseNumstat(stdout: string): Map<string, [number, number]> {
+  const stats = new Map<string, [number, number]>()
+  for (const line of stdout.split('\n')) {
+    const [add, del, path] = line.split('\t')
+    if (!path) continue
+    // Binary files report "-" for both counts
+    stats.set(path, [Number(add) || 0, Number(del) || 0])
+  }
+  return stats
+}
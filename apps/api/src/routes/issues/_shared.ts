@@ -1,15 +1,15 @@
 import { mkdir, stat } from 'node:fs/promises'
 import { resolve } from 'node:path'
-import { and, eq } from 'drizzle-orm'
+import { and, eq, max } from 'drizzle-orm'
 import * as z from 'zod'
 import { cacheDel, cacheGetOrSet } from '@/cache'
-import { STATUS_IDS } from '@/config'
 import { db } from '@/db'
 import { getAppSetting } from '@/db/helpers'
 import {
   collectPendingWithAttachments,
   markPendingMessagesDispatched,
 } from '@/db/pending-messages'
+import { getProjectWorkflow } from '@/db/project-statuses'
 import { issues as issuesTable } from '@/db/schema'
 import { issueEngine } from '@/engines/issue'
 import type { EngineType } from '@/engines/types'
@@ -19,13 +19,20 @@ import { toISO } from '@/utils/date'
 
 export const priorityEnum = z.enum(['urgent', 'high', 'medium', 'low'])
 
+// Membership in the project's workflow is checked by each route
+const statusIdSchema = z.string().min(1).max(64)
+
 export const createIssueSchema = z.object({
   title: z.string().min(1).max(500),
   priority: priorityEnum.default('medium'),
-  statusId: z.enum(STATUS_IDS),
+  statusId: statusIdSchema,
   parentIssueId: z.string().optional(),
   useWorktree: z.boolean().optional(),
-  engineType: z.enum(['claude-code', 'codex', 'gemini', 'echo']).optional(),
+  engineType: z
+    .enum(['claude-code', 'codex', 'gemini', 'echo', 'custom'])
+    .optional(),
+  // Built-in engine type or user-defined profile id; decides engineType
+  engineProfileId: z.string().min(1).max(64).optional(),
   model: z
     .string()
     .regex(/^[\w.-]{1,100}$/)
@@ -38,7 +45,7 @@ export const bulkUpdateSchema = z.object({
     .array(
       z.object({
         id: z.string(),
-        statusId: z.enum(STATUS_IDS).optional(),
+        statusId: statusIdSchema.optional(),
         sortOrder: z.number().optional(),
         priority: priorityEnum.optional(),
       }),
@@ -49,14 +56,15 @@ export const bulkUpdateSchema = z.object({
 export const updateIssueSchema = z.object({
   title: z.string().min(1).max(500).optional(),
   priority: priorityEnum.optional(),
-  statusId: z.enum(STATUS_IDS).optional(),
+  statusId: statusIdSchema.optional(),
   sortOrder: z.number().optional(),
   parentIssueId: z.string().nullable().optional(),
   devMode: z.boolean().optional(),
 })
 
 export const executeIssueSchema = z.object({
-  engineType: z.enum(['claude-code', 'codex', 'gemini', 'echo']),
+  engineType: z.enum(['claude-code', 'codex', 'gemini', 'echo', 'custom']),
+  engineProfileId: z.string().min(1).max(64).nullable().optional(),
   prompt: z.string().min(1).max(32768),
   model: z
     .string()
@@ -98,16 +106,51 @@ export function serializeIssue(row: IssueRow, childCount?: number) {
     childCount: childCount ?? 0,
     // Session fields
     engineType: row.engineType ?? null,
+    engineProfileId: row.engineProfileId ?? null,
     sessionStatus: row.sessionStatus ?? null,
     prompt: row.prompt ?? null,
     externalSessionId: row.externalSessionId ?? null,
     model: row.model ?? null,
+    stopReason: row.stopReason ?? null,
+    verifyStatus: row.verifyStatus ?? null,
+    compareRun: row.compareRun,
+    compareWinnerId: row.compareWinnerId ?? null,
     devMode: row.devMode,
     createdAt: toISO(row.createdAt),
     updatedAt: toISO(row.updatedAt),
   }
 }
 
+/**
+ * Next issueNumber (computed across ALL issues, including soft-deleted, to
+ * avoid reuse) and the bottom sortOrder of the target status column.
+ * Run inside the inserting transaction.
+ */
+export async function allocateIssueSlot(
+  tx: Pick<typeof db, 'select'>,
+  projectId: string,
+  statusId: string,
+): Promise<{ issueNumber: number; sortOrder: number }> {
+  const [maxNumRow] = await tx
+    .select({ maxNum: max(issuesTable.issueNumber) })
+    .from(issuesTable)
+    .where(eq(issuesTable.projectId, projectId))
+  const [maxOrderRow] = await tx
+    .select({ maxOrder: max(issuesTable.sortOrder) })
+    .from(issuesTable)
+    .where(
+      and(
+        eq(issuesTable.projectId, projectId),
+        eq(issuesTable.statusId, statusId),
+        eq(issuesTable.isDeleted, 0),
+      ),
+    )
+  return {
+    issueNumber: (maxNumRow?.maxNum ?? 0) + 1,
+    sortOrder: (maxOrderRow?.maxOrder ?? -1) + 1,
+  }
+}
+
 export async function getProjectOwnedIssue(projectId: string, issueId: string) {
   return cacheGetOrSet(`issue:${projectId}:${issueId}`, 30, async () => {
     const [issue] = await db
@@ -192,31 +235,33 @@ export async function collectPendingMessages(
 }
 
 /**
- * Ensure an issue is in working status before AI execution begins.
- * - todo / done → reject (no execution allowed)
- * - review → move to working, then execute
- * - working → proceed as-is
+ * Ensure an issue is in the execution column before AI execution begins.
+ * - backlog / terminal → reject (no execution allowed)
+ * - review → move to the execution column, then execute
+ * - execution → proceed as-is
  */
 export async function ensureWorking(
   issue: IssueRow,
 ): Promise<{ ok: boolean; reason?: string }> {
-  if (issue.statusId === 'todo') {
+  const workflow = await getProjectWorkflow(issue.projectId)
+  const role = workflow.roleOf(issue.statusId)
+  if (role === 'backlog') {
     return {
       ok: false,
-      reason: 'Cannot execute a todo issue — move to working first',
+      reason: `Cannot execute a ${issue.statusId} issue — move to ${workflow.execution.id} first`,
     }
   }
-  if (issue.statusId === 'done') {
-    return { ok: false, reason: 'Cannot execute a done issue' }
+  if (role === 'terminal') {
+    return { ok: false, reason: `Cannot execute a ${issue.statusId} issue` }
   }
-  if (issue.statusId !== 'working') {
-    // review → working
+  if (role === 'review') {
+    const statusId = workflow.execution.id
     await db
       .update(issuesTable)
-      .set({ statusId: 'working' })
+      .set({ statusId })
       .where(eq(issuesTable.id, issue.id))
     await cacheDel(`issue:${issue.projectId}:${issue.id}`)
-    emitIssueUpdated(issue.id, { statusId: 'working' })
+    emitIssueUpdated(issue.id, { statusId })
     logger.info({ issueId: issue.id, from: issue.statusId }, 'moved_to_working')
   }
   return { ok: true }
@@ -0,0 +1,499 @@
+import { stat } from 'node:fs/promises'
+import { join } from 'node:path'
+import { deleteCheckpoints } from '@/engines/issue/checkpoints'
+import { WORKTREE_DIR } from '@/engines/issue/constants'
+import { logger } from '@/logger'
+import {
+  countTextLines,
+  isGitRepo,
+  isPathInsideRoot,
+  parseNumstat,
+  resolveProjectDir,
+  runGit,
+} from './_git'
+
+// ---------- Types ----------
+
+export type MergeStrategy = 'squash' | 'rebase'
+
+export interface WorktreeFile {
+  path: string
+  /** git name-status letter: A, M, D, T — or `?` for untracked */
+  status: string
+  additions: number
+  deletions: number
+}
+
+export interface MergeConflict {
+  path: string
+  /** Two-letter unmerged code from `git status --porcelain` */
+  status: string
+  reason: string
+}
+
+export interface WorktreeInfo {
+  branch: string
+  baseBranch: string | null
+  worktreePath: string
+  hasWorktree: boolean
+  hasBranch: boolean
+  /** Commits on the issue branch that the base lacks */
+  ahead: number
+  /** Commits on the base that the issue branch lacks */
+  behind: number
+  uncommittedFiles: number
+  files: WorktreeFile[]
+  additions: number
+  deletions: number
+}
+
+export type MergeResult =
+  | {
+      merged: true
+      strategy: MergeStrategy
+      commit: string
+      cleanedUp: boolean
+    }
+  | { merged: false; strategy: MergeStrategy; conflicts: MergeConflict[] }
+
+type Failure = { ok: false; status: 404 | 409; error: string }
+
+// ---------- Paths & refs ----------
+
+export function issueBranch(issueId: string) {
+  return `bitk/${issueId}`
+}
+
+export function issueWorktreeDir(root: string, issueId: string) {
+  return join(root, WORKTREE_DIR, issueId)
+}
+
+async function dirExists(path: string): Promise<boolean> {
+  try {
+    return (await stat(path)).isDirectory()
+  } catch {
+    return false
+  }
+}
+
+async function currentBranch(cwd: string): Promise<string | null> {
+  const { code, stdout } = await runGit(
+    ['symbolic-ref', '--quiet', '--short', 'HEAD'],
+    cwd,
+  )
+  return code === 0 ? stdout.trim() || null : null
+}
+
+async function branchExists(cwd: string, branch: string): Promise<boolean> {
+  const { code } = await runGit(
+    ['rev-parse', '--verify', '--quiet', `refs/heads/${branch}`],
+    cwd,
+  )
+  return code === 0
+}
+
+async function countPorcelain(cwd: string, args: string[] = []) {
+  const { stdout } = await runGit(['status', '--porcelain=v1', ...args], cwd)
+  return stdout.split('\n').filter(Boolean).length
+}
+
+async function aheadBehind(
+  cwd: string,
+  base: string,
+  branch: string,
+): Promise<{ ahead: number; behind: number }> {
+  const { code, stdout } = await runGit(
+    ['rev-list', '--left-right', '--count', `${base}...${branch}`],
+    cwd,
+  )
+  if (code !== 0) return { ahead: 0, behind: 0 }
+  const [behind, ahead] = stdout.trim().split(/\s+/).map(Number)
+  return { ahead: ahead || 0, behind: behind || 0 }
+}
+
+/**
+ * Whether `base` already holds everything on `branch`. A squash merge leaves
+ * the branch's commits "ahead" forever, so content decides: the branch is
+ * merged when its tree matches the base, or when merging it would not
+ * change the base tree.
+ */
+async function isBranchMerged(
+  cwd: string,
+  base: string,
+  branch: string,
+): Promise<boolean> {
+  if ((await aheadBehind(cwd, base, branch)).ahead === 0) return true
+  const diff = await runGit(['diff', '--quiet', base, branch], cwd)
+  if (diff.code === 0) return true
+  const [merged, baseTree] = await Promise.all([
+    runGit(['merge-tree', '--write-tree', base, branch], cwd),
+    runGit(['rev-parse', `${base}^{tree}`], cwd),
+  ])
+  // Conflicts or a git without --write-tree: treat the work as unmerged
+  if (merged.code !== 0 || baseTree.code !== 0) return false
+  return merged.stdout.split('\n')[0]?.trim() === baseTree.stdout.trim()
+}
+
+// ---------- Branch diff ----------
+
+/**
+ * Files changed on the issue branch since it forked from `base`. With a
+ * live worktree the diff runs against its working tree, so uncommitted
+ * agent edits and untracked files show up too.
+ */
+async function listBranchFiles(
+  root: string,
+  worktreeDir: string | null,
+  mergeBase: string,
+  branch: string,
+): Promise<WorktreeFile[]> {
+  const cwd = worktreeDir ?? root
+  const range = worktreeDir ? [mergeBase] : [mergeBase, branch]
+  const [nameStatus, numstat] = await Promise.all([
+    runGit(['diff', '--name-status', '--no-renames', ...range], cwd),
+    runGit(['diff', '--numstat', '--no-renames', ...range], cwd),
+  ])
+  const stats = parseNumstat(numstat.stdout)
+
+  const files: WorktreeFile[] = []
+  for (const line of nameStatus.stdout.split('\n')) {
+    const [status, path] = line.split('\t')
+    if (!status || !path) continue
+    const [additions, deletions] = stats.get(path) ?? [0, 0]
+    files.push({ path, status: status[0]!, additions, deletions })
+  }
+
+  if (worktreeDir) {
+    const untracked = await runGit(
+      ['ls-files', '--others', '--exclude-standard'],
+      worktreeDir,
+    )
+    for (const path of untracked.stdout.split('\n').filter(Boolean)) {
+      let additions = 0
+      try {
+        additions = countTextLines(
+          await Bun.file(join(worktreeDir, path)).text(),
+        )
+      } catch {
+        /* unreadable — report zero */
+      }
+      files.push({ path, status: '?', additions, deletions: 0 })
+    }
+  }
+
+  return files.sort((a, b) => a.path.localeCompare(b.path))
+}
+
+export async function getWorktreeInfo(
+  root: string,
+  issueId: string,
+): Promise<WorktreeInfo> {
+  const branch = issueBranch(issueId)
+  const worktreePath = issueWorktreeDir(root, issueId)
+  const [baseBranch, hasBranch, hasWorktree] = await Promise.all([
+    currentBranch(root),
+    branchExists(root, branch),
+    dirExists(worktreePath),
+  ])
+
+  const info: WorktreeInfo = {
+    branch,
+    baseBranch,
+    worktreePath,
+    hasWorktree,
+    hasBranch,
+    ahead: 0,
+    behind: 0,
+    uncommittedFiles: hasWorktree ? await countPorcelain(worktreePath) : 0,
+    files: [],
+    additions: 0,
+    deletions: 0,
+  }
+  if (!hasBranch || !baseBranch) return info
+
+  Object.assign(info, await aheadBehind(root, baseBranch, branch))
+  const mergeBase = await runGit(['merge-base', baseBranch, branch], root)
+  if (mergeBase.code !== 0) return info
+
+  info.files = await listBranchFiles(
+    root,
+    hasWorktree ? worktreePath : null,
+    mergeBase.stdout.trim(),
+    branch,
+  )
+  info.additions = info.files.reduce((sum, f) => sum + f.additions, 0)
+  info.deletions = info.files.reduce((sum, f) => sum + f.deletions, 0)
+  return info
+}
+
+/** Patch for one file of the branch diff (see `listBranchFiles`). */
+export async function getWorktreeFilePatch(
+  root: string,
+  issueId: string,
+  path: string,
+): Promise<string> {
+  const branch = issueBranch(issueId)
+  const baseBranch = await currentBranch(root)
+  if (!baseBranch || !(await branchExists(root, branch))) return ''
+  const mergeBase = await runGit(['merge-base', baseBranch, branch], root)
+  if (mergeBase.code !== 0) return ''
+
+  const worktreeDir = issueWorktreeDir(root, issueId)
+  if (!(await dirExists(worktreeDir))) {
+    const { stdout } = await runGit(
+      [
+        'diff',
+        '--no-color',
+        '--no-ext-diff',
+        '--no-renames',
+        mergeBase.stdout.trim(),
+        branch,
+        '--',
+        path,
+      ],
+      root,
+    )
+    return stdout
+  }
+
+  const tracked = await runGit(
+    [
+      'diff',
+      '--no-color',
+      '--no-ext-diff',
+      '--no-renames',
+      mergeBase.stdout.trim(),
+      '--',
+      path,
+    ],
+    worktreeDir,
+  )
+  if (tracked.stdout || !isPathInsideRoot(worktreeDir, path)) {
+    return tracked.stdout
+  }
+  const others = await runGit(
+    ['ls-files', '--others', '--exclude-standard', '--', path],
+    worktreeDir,
+  )
+  if (!others.stdout.trim()) return ''
+  // Untracked file — diff against /dev/null like the workspace view does
+  const untracked = await runGit(
+    [
+      'diff',
+      '--no-color',
+      '--no-ext-diff',
+      '--no-index',
+      '--',
+      '/dev/null',
+      path,
+    ],
+    worktreeDir,
+  )
+  return untracked.stdout
+}
+
+// ---------- Conflicts ----------
+
+const CONFLICT_REASONS: Record<string, string> = {
+  UU: 'both modified',
+  AA: 'both added',
+  DD: 'both deleted',
+  AU: 'added by us',
+  UA: 'added by them',
+  DU: 'deleted by us',
+  UD: 'deleted by them',
+}
+
+async function listConflicts(cwd: string): Promise<MergeConflict[]> {
+  const { stdout } = await runGit(['status', '--porcelain=v1'], cwd)
+  const conflicts: MergeConflict[] = []
+  for (const line of stdout.split('\n')) {
+    const status = line.slice(0, 2)
+    const reason = CONFLICT_REASONS[status]
+    if (reason) conflicts.push({ path: line.slice(3).trim(), status, reason })
+  }
+  return conflicts
+}
+
+// ---------- Merge & cleanup ----------
+
+/**
+ * Bring the issue branch back into the branch checked out in the project
+ * directory. Uncommitted worktree edits are committed first so nothing the
+ * agent left behind is lost. Conflicts abort the operation and are returned
+ * instead of leaving either checkout mid-merge.
+ */
+export async function mergeIssueBranch(
+  root: string,
+  issueId: string,
+  opts: { strategy: MergeStrategy; message: string; cleanup: boolean },
+): Promise<({ ok: true } & MergeResult) | Failure> {
+  const branch = issueBranch(issueId)
+  const worktreeDir = issueWorktreeDir(root, issueId)
+  const base = await currentBranch(root)
+  if (!base) {
+    return {
+      ok: false,
+      status: 409,
+      error: 'Project directory is not on a branch',
+    }
+  }
+  if (!(await branchExists(root, branch))) {
+    return { ok: false, status: 404, error: 'Issue branch not found' }
+  }
+  if ((await countPorcelain(root, ['--untracked-files=no'])) > 0) {
+    return {
+      ok: false,
+      status: 409,
+      error: 'Project directory has uncommitted changes',
+    }
+  }
+
+  const hasWorktree = await dirExists(worktreeDir)
+  if (hasWorktree && (await countPorcelain(worktreeDir)) > 0) {
+    await runGit(['add', '-A'], worktreeDir)
+    const commit = await runGit(['commit', '-m', opts.message], worktreeDir)
+    if (commit.code !== 0) {
+      return {
+        ok: false,
+        status: 409,
+        error: `Failed to commit worktree changes: ${commit.stderr.trim()}`,
+      }
+    }
+  }
+
+  if (await isBranchMerged(root, base, branch)) {
+    return { ok: false, status: 409, error: 'Nothing to merge' }
+  }
+
+  if (opts.strategy === 'squash') {
+    const merge = await runGit(['merge', '--squash', branch], root)
+    if (merge.code !== 0) {
+      const conflicts = await listConflicts(root)
+      await runGit(['reset', '--merge'], root)
+      if (conflicts.length === 0) {
+        return { ok: false, status: 409, error: merge.stderr.trim() }
+      }
+      return { ok: true, merged: false, strategy: 'squash', conflicts }
+    }
+    const commit = await runGit(['commit', '-m', opts.message], root)
+    if (commit.code !== 0) {
+      await runGit(['reset', '--merge'], root)
+      return { ok: false, status: 409, error: 'Nothing to merge' }
+    }
+  } else {
+    // The branch is checked out in the worktree, so it must be rebased there
+    if (!hasWorktree) {
+      return {
+        ok: false,
+        status: 409,
+        error: 'Rebase needs the issue worktree; use squash instead',
+      }
+    }
+    const rebase = await runGit(['rebase', base], worktreeDir)
+    if (rebase.code !== 0) {
+      const conflicts = await listConflicts(worktreeDir)
+      await runGit(['rebase', '--abort'], worktreeDir)
+      if (conflicts.length === 0) {
+        return { ok: false, status: 409, error: rebase.stderr.trim() }
+      }
+      return { ok: true, merged: false, strategy: 'rebase', conflicts }
+    }
+    const ff = await runGit(['merge', '--ff-only', branch], root)
+    if (ff.code !== 0) {
+      return { ok: false, status: 409, error: ff.stderr.trim() }
+    }
+  }
+
+  const head = await runGit(['rev-parse', 'HEAD'], root)
+  logger.info(
+    { issueId, branch, base, strategy: opts.strategy },
+    'worktree_branch_merged',
+  )
+
+  let cleanedUp = false
+  if (opts.cleanup) {
+    cleanedUp = (await removeIssueWorktree(root, issueId, { force: true })).ok
+  }
+  return {
+    ok: true,
+    merged: true,
+    strategy: opts.strategy,
+    commit: head.stdout.trim(),
+    cleanedUp,
+  }
+}
+
+/**
+ * Remove the issue worktree and delete its branch. Without `force` this
+ * refuses while the worktree has uncommitted edits or the branch has changes
+ * the base lacks, so unmerged work is never thrown away silently.
+ */
+export async function removeIssueWorktree(
+  root: string,
+  issueId: string,
+  opts: { force: boolean },
+): Promise<{ ok: true } | Failure> {
+  const branch = issueBranch(issueId)
+  const worktreeDir = issueWorktreeDir(root, issueId)
+  const [hasBranch, hasWorktree] = await Promise.all([
+    branchExists(root, branch),
+    dirExists(worktreeDir),
+  ])
+  if (!hasBranch && !hasWorktree) {
+    return { ok: false, status: 404, error: 'Issue has no worktree' }
+  }
+
+  if (!opts.force) {
+    if (hasWorktree && (await countPorcelain(worktreeDir)) > 0) {
+      return {
+        ok: false,
+        status: 409,
+        error: 'Worktree has uncommitted changes',
+      }
+    }
+    const base = await currentBranch(root)
+    if (hasBranch && base && !(await isBranchMerged(root, base, branch))) {
+      return { ok: false, status: 409, error: 'Branch has unmerged commits' }
+    }
+  }
+
+  if (hasWorktree) {
+    await runGit(['worktree', 'remove', '--force', worktreeDir], root)
+  }
+  await runGit(['worktree', 'prune'], root)
+  if (hasBranch) {
+    await runGit(['branch', '-D', branch], root)
+  }
+  // Checkpoints snapshot the worktree, which is gone now
+  await deleteCheckpoints(issueId, root)
+  logger.info({ issueId, branch, worktreeDir }, 'worktree_removed')
+  return { ok: true }
+}
+
+/**
+ * Fire-and-forget cleanup when an issue is closed. Runs after the session is
+ * cancelled; a worktree holding unmerged or uncommitted work is kept.
+ */
+export function cleanupClosedIssueWorktree(
+  projectId: string,
+  issueId: string,
+  cancelled: Promise<unknown>,
+): void {
+  void (async () => {
+    await cancelled.catch(() => {})
+    try {
+      const root = await resolveProjectDir(projectId)
+      if (!(await isGitRepo(root))) return
+      const result = await removeIssueWorktree(root, issueId, { force: false })
+      if (!result.ok && result.status !== 404) {
+        logger.info(
+          { issueId, reason: result.error },
+          'worktree_cleanup_skipped',
+        )
+      }
+    } catch (err) {
+      logger.warn({ issueId, err }, 'worktree_cleanup_failed')
+    }
+  })()
+}
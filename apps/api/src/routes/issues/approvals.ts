@@ -0,0 +1,84 @@
+import { zValidator } from '@hono/zod-validator'
+import { Hono } from 'hono'
+import * as z from 'zod'
+import { findProject } from '@/db/helpers'
+import {
+  findApproval,
+  listPendingApprovals,
+  resolveApproval,
+} from '@/engines/issue/approvals'
+import { getProjectOwnedIssue } from './_shared'
+
+const resolveApprovalSchema = z.object({
+  decision: z.enum(['approve', 'deny', 'always-allow']),
+})
+
+const approvals = new Hono()
+
+// GET /api/projects/:projectId/issues/:id/approvals — Pending tool approvals
+approvals.get('/:id/approvals', async (c) => {
+  const projectId = c.req.param('projectId')!
+  const project = await findProject(projectId)
+  if (!project) {
+    return c.json({ success: false, error: 'Project not found' }, 404)
+  }
+
+  const issueId = c.req.param('id')!
+  const issue = await getProjectOwnedIssue(project.id, issueId)
+  if (!issue) {
+    return c.json({ success: false, error: 'Issue not found' }, 404)
+  }
+
+  return c.json({ success: true, data: listPendingApprovals(issueId) })
+})
+
+// POST /api/projects/:projectId/issues/:id/approvals/:requestId — Answer a tool approval
+approvals.post(
+  '/:id/approvals/:requestId',
+  zValidator('json', resolveApprovalSchema, (result, c) => {
+    if (!result.success) {
+      return c.json(
+        {
+          success: false,
+          error: result.error.issues.map((i) => i.message).join(', '),
+        },
+        400,
+      )
+    }
+  }),
+  async (c) => {
+    const projectId = c.req.param('projectId')!
+    const project = await findProject(projectId)
+    if (!project) {
+      return c.json({ success: false, error: 'Project not found' }, 404)
+    }
+
+    const issueId = c.req.param('id')!
+    const issue = await getProjectOwnedIssue(project.id, issueId)
+    if (!issue) {
+      return c.json({ success: false, error: 'Issue not found' }, 404)
+    }
+
+    const requestId = c.req.param('requestId')
+    const existing = findApproval(issueId, requestId)
+    if (!existing) {
+      return c.json({ success: false, error: 'Approval not found' }, 404)
+    }
+
+    const { decision } = c.req.valid('json')
+    const resolved = resolveApproval(requestId, decision)
+    if (!resolved) {
+      return c.json(
+        {
+          success: false,
+          error: `Approval is no longer pending (${existing.status})`,
+        },
+        409,
+      )
+    }
+
+    return c.json({ success: true, data: resolved })
+  },
+)
+
+export default approvals
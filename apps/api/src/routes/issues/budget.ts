@@ -0,0 +1,59 @@
+import { zValidator } from '@hono/zod-validator'
+import { Hono } from 'hono'
+import { getBudget, getRunSeconds, setBudget } from '@/db/budgets'
+import { findProject } from '@/db/helpers'
+import { getUsageTotals } from '@/db/usage'
+import { budgetSchema } from '@/routes/budget'
+import { getProjectOwnedIssue } from './_shared'
+
+const budget = new Hono()
+
+// GET /api/projects/:projectId/issues/:id/budget — Issue limits and all-time usage
+budget.get('/:id/budget', async (c) => {
+  const project = await findProject(c.req.param('projectId')!)
+  if (!project) {
+    return c.json({ success: false, error: 'Project not found' }, 404)
+  }
+  const issueId = c.req.param('id')!
+  const issue = await getProjectOwnedIssue(project.id, issueId)
+  if (!issue) {
+    return c.json({ success: false, error: 'Issue not found' }, 404)
+  }
+  const limits = getBudget(project.id, issueId)
+  const usage = getUsageTotals({ issueId })
+  const runSeconds = getRunSeconds({ issueId })
+  return c.json({ success: true, data: { limits, usage, runSeconds } })
+})
+
+// PUT /api/projects/:projectId/issues/:id/budget — Replace the issue limits
+budget.put(
+  '/:id/budget',
+  zValidator('json', budgetSchema, (result, c) => {
+    if (!result.success) {
+      return c.json(
+        {
+          success: false,
+          error: result.error.issues.map((i) => i.message).join(', '),
+        },
+        400,
+      )
+    }
+  }),
+  async (c) => {
+    const project = await findProject(c.req.param('projectId')!)
+    if (!project) {
+      return c.json({ success: false, error: 'Project not found' }, 404)
+    }
+    const issueId = c.req.param('id')!
+    const issue = await getProjectOwnedIssue(project.id, issueId)
+    if (!issue) {
+      return c.json({ success: false, error: 'Issue not found' }, 404)
+    }
+    const limits = await setBudget(project.id, issueId, c.req.valid('json'))
+    const usage = getUsageTotals({ issueId })
+    const runSeconds = getRunSeconds({ issueId })
+    return c.json({ success: true, data: { limits, usage, runSeconds } })
+  },
+)
+
+export default budget
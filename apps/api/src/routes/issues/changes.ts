@@ -1,8 +1,13 @@
-import { stat } from 'node:fs/promises'
-import { resolve, sep } from 'node:path'
+import { resolve } from 'node:path'
 import { Hono } from 'hono'
-import { cacheGetOrSet } from '@/cache'
 import { findProject } from '@/db/helpers'
+import {
+  countTextLines,
+  isGitRepo,
+  isPathInsideRoot,
+  resolveProjectDir,
+  runGit,
+} from './_git'
 import { getProjectOwnedIssue } from './_shared'
 
 // ---------- Types ----------
@@ -26,55 +31,7 @@ interface GitChangedFile {
   deletions?: number
 }
 
-// ---------- Git helpers ----------
-
-function isPathInsideRoot(root: string, path: string): boolean {
-  const abs = resolve(root, path)
-  const rootPrefix = root.endsWith(sep) ? root : `${root}${sep}`
-  return abs === root || abs.startsWith(rootPrefix)
-}
-
-function countTextLines(content: string): number {
-  if (!content) return 0
-  const normalized = content.replace(/\r\n/g, '\n')
-  const trimmed = normalized.endsWith('\n')
-    ? normalized.slice(0, -1)
-    : normalized
-  return trimmed ? trimmed.split('\n').length : 0
-}
-
-async function resolveProjectDir(projectId: string): Promise<string> {
-  const project = await findProject(projectId)
-  const root = project?.directory ? resolve(project.directory) : process.cwd()
-  const s = await stat(root)
-  if (!s.isDirectory())
-    throw new Error(`Project directory is not a directory: ${root}`)
-  return root
-}
-
-async function runGit(
-  args: string[],
-  cwd: string,
-): Promise<{ code: number; stdout: string; stderr: string }> {
-  const proc = Bun.spawn(['git', ...args], {
-    cwd,
-    stdout: 'pipe',
-    stderr: 'ignore',
-  })
-  const stdout = proc.stdout ? await new Response(proc.stdout).text() : ''
-  const code = await proc.exited
-  return { code, stdout, stderr: '' }
-}
-
-async function isGitRepo(cwd: string): Promise<boolean> {
-  return cacheGetOrSet(`gitRepo:${cwd}`, 120, async () => {
-    const { code, stdout } = await runGit(
-      ['rev-parse', '--is-inside-work-tree'],
-      cwd,
-    )
-    return code === 0 && stdout.trim() === 'true'
-  })
-}
+// ---------- Changed files ----------
 
 function parsePorcelainLine(line: string): GitChangedFile | null {
   if (line.length < 3) return null
@@ -0,0 +1,212 @@
+import { zValidator } from '@hono/zod-validator'
+import { Hono } from 'hono'
+import * as z from 'zod'
+import { findProject } from '@/db/helpers'
+import { issueEngine } from '@/engines/issue'
+import {
+  captureCheckpoint,
+  diffCheckpointFile,
+  diffCheckpoints,
+  listCheckpoints,
+  resolveCheckpointDir,
+  restoreCheckpoint,
+} from '@/engines/issue/checkpoints'
+import { isGitRepo, isPathInsideRoot } from './_git'
+import { getProjectOwnedIssue } from './_shared'
+
+const createSchema = z.object({
+  label: z.string().trim().min(1).max(200).optional(),
+})
+
+const MAX_PATCH_CHARS = 200_000
+
+/** Resolve project, issue and the directory its turns run in. */
+async function loadCheckpointIssue(projectParam: string, issueId: string) {
+  const project = await findProject(projectParam)
+  if (!project) {
+    return { error: 'Project not found', status: 404 as const }
+  }
+  const issue = await getProjectOwnedIssue(project.id, issueId)
+  if (!issue) {
+    return { error: 'Issue not found', status: 404 as const }
+  }
+  const cwd = await resolveCheckpointDir(
+    project.id,
+    issue.id,
+    !!issue.useWorktree,
+  )
+  // Without a directory of its own the project has no workspace to snapshot
+  if (!cwd) return { issue, cwd: '', gitRepo: false }
+  return { issue, cwd, gitRepo: await isGitRepo(cwd) }
+}
+
+const notGitRepo = {
+  success: false,
+  error: 'Project directory is not a Git repository',
+} as const
+
+/** `from`/`to` query pair; `to` omitted means the current workspace. */
+function diffRange(c: { req: { query: (key: string) => string | undefined } }) {
+  const from = c.req.query('from')?.trim()
+  const to = c.req.query('to')?.trim() || null
+  return from ? { from, to } : null
+}
+
+const checkpoints = new Hono()
+
+// GET /api/projects/:projectId/issues/:id/checkpoints — Workspace snapshots, oldest first
+checkpoints.get('/:id/checkpoints', async (c) => {
+  const loaded = await loadCheckpointIssue(
+    c.req.param('projectId')!,
+    c.req.param('id')!,
+  )
+  if ('error' in loaded) {
+    return c.json({ success: false, error: loaded.error }, loaded.status)
+  }
+  if (!loaded.gitRepo) {
+    return c.json({ success: true, data: { gitRepo: false, checkpoints: [] } })
+  }
+  return c.json({
+    success: true,
+    data: {
+      gitRepo: true,
+      checkpoints: await listCheckpoints(loaded.issue.id, loaded.cwd),
+    },
+  })
+})
+
+// POST /api/projects/:projectId/issues/:id/checkpoints — Snapshot the workspace now
+checkpoints.post(
+  '/:id/checkpoints',
+  zValidator('json', createSchema, (result, c) => {
+    if (!result.success) {
+      return c.json(
+        {
+          success: false,
+          error: result.error.issues.map((i) => i.message).join(', '),
+        },
+        400,
+      )
+    }
+  }),
+  async (c) => {
+    const loaded = await loadCheckpointIssue(
+      c.req.param('projectId')!,
+      c.req.param('id')!,
+    )
+    if ('error' in loaded) {
+      return c.json({ success: false, error: loaded.error }, loaded.status)
+    }
+    if (!loaded.gitRepo) return c.json(notGitRepo, 400)
+
+    const { label } = c.req.valid('json')
+    const checkpoint = await captureCheckpoint(
+      loaded.issue.id,
+      loaded.cwd,
+      label ?? 'Manual checkpoint',
+    )
+    return c.json({ success: true, data: checkpoint }, 201)
+  },
+)
+
+// GET /api/projects/:projectId/issues/:id/checkpoints/diff?from=...&to=... — Files changed between two checkpoints (or the workspace)
+checkpoints.get('/:id/checkpoints/diff', async (c) => {
+  const loaded = await loadCheckpointIssue(
+    c.req.param('projectId')!,
+    c.req.param('id')!,
+  )
+  if ('error' in loaded) {
+    return c.json({ success: false, error: loaded.error }, loaded.status)
+  }
+  if (!loaded.gitRepo) return c.json(notGitRepo, 400)
+
+  const range = diffRange(c)
+  if (!range) return c.json({ success: false, error: 'Missing from' }, 400)
+  const files = await diffCheckpoints(
+    loaded.issue.id,
+    loaded.cwd,
+    range.from,
+    range.to,
+  )
+  if (!files) {
+    return c.json({ success: false, error: 'Checkpoint not found' }, 404)
+  }
+  return c.json({
+    success: true,
+    data: {
+      ...range,
+      files,
+      additions: files.reduce((sum, f) => sum + f.additions, 0),
+      deletions: files.reduce((sum, f) => sum + f.deletions, 0),
+    },
+  })
+})
+
+// GET /api/projects/:projectId/issues/:id/checkpoints/diff/file?from=...&to=...&path=... — Patch for one file of a checkpoint diff
+checkpoints.get('/:id/checkpoints/diff/file', async (c) => {
+  const loaded = await loadCheckpointIssue(
+    c.req.param('projectId')!,
+    c.req.param('id')!,
+  )
+  if ('error' in loaded) {
+    return c.json({ success: false, error: loaded.error }, loaded.status)
+  }
+  if (!loaded.gitRepo) return c.json(notGitRepo, 400)
+
+  const range = diffRange(c)
+  if (!range) return c.json({ success: false, error: 'Missing from' }, 400)
+  const path = c.req.query('path')?.trim()
+  if (!path) return c.json({ success: false, error: 'Missing path' }, 400)
+  // SEC-019: Same path rules as the workspace diff
+  if (
+    path.startsWith('-') ||
+    path.includes(':') ||
+    !isPathInsideRoot(loaded.cwd, path)
+  ) {
+    return c.json({ success: false, error: 'Invalid path' }, 400)
+  }
+
+  let patch = await diffCheckpointFile(
+    loaded.issue.id,
+    loaded.cwd,
+    range.from,
+    range.to,
+    path,
+  )
+  if (patch === null) {
+    return c.json({ success: false, error: 'Checkpoint not found' }, 404)
+  }
+  const truncated = patch.length > MAX_PATCH_CHARS
+  if (truncated) patch = `${patch.slice(0, MAX_PATCH_CHARS)}\n\n... [truncated]`
+  return c.json({ success: true, data: { path, patch, truncated } })
+})
+
+// POST /api/projects/:projectId/issues/:id/checkpoints/:checkpointId/restore — Reset the workspace to a checkpoint
+checkpoints.post('/:id/checkpoints/:checkpointId/restore', async (c) => {
+  const loaded = await loadCheckpointIssue(
+    c.req.param('projectId')!,
+    c.req.param('id')!,
+  )
+  if ('error' in loaded) {
+    return c.json({ success: false, error: loaded.error }, loaded.status)
+  }
+  if (!loaded.gitRepo) return c.json(notGitRepo, 400)
+  if (issueEngine.isTurnInFlight(loaded.issue.id)) {
+    return c.json(
+      { success: false, error: 'Issue is still running; wait or cancel it' },
+      409,
+    )
+  }
+
+  const result = await restoreCheckpoint(
+    loaded.issue.id,
+    loaded.cwd,
+    c.req.param('checkpointId')!,
+  )
+  if (!result) {
+    return c.json({ success: false, error: 'Checkpoint not found' }, 404)
+  }
+  return c.json({ success: true, data: result })
+})
+
+export default checkpoints
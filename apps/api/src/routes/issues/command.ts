@@ -116,6 +116,7 @@ command.post(
         await collectPendingMessages(issueId, prompt)
       const result = await issueEngine.executeIssue(issueId, {
         engineType: body.engineType,
+        engineProfileId: body.engineProfileId,
         prompt: effectivePrompt,
         workingDir: effectiveWorkingDir,
         model: body.model,
@@ -128,6 +129,7 @@ command.post(
           executionId: result.executionId,
           issueId,
           messageId: result.messageId,
+          queued: result.queued,
         },
       })
     } catch (error) {
@@ -0,0 +1,377 @@
+import { zValidator } from '@hono/zod-validator'
+import { and, asc, eq, inArray, sql } from 'drizzle-orm'
+import { Hono } from 'hono'
+import * as z from 'zod'
+import { cacheDelByPrefix } from '@/cache'
+import { db } from '@/db'
+import { findProject } from '@/db/helpers'
+import { getProjectWorkflow } from '@/db/project-statuses'
+import { issueLogs, issues as issuesTable } from '@/db/schema'
+import { getUsageTotals } from '@/db/usage'
+import { getCustomEngineConfig } from '@/engines/custom-engine'
+import { issueEngine } from '@/engines/issue'
+import { getEngineProfile } from '@/engines/profiles'
+import { emitIssueUpdated } from '@/events/issue-events'
+import { logger } from '@/logger'
+import { isGitRepo, resolveProjectDir } from './_git'
+import type { IssueRow } from './_shared'
+import {
+  createIssueSchema,
+  getProjectOwnedIssue,
+  invalidateIssueCache,
+  normalizePrompt,
+  serializeIssue,
+} from './_shared'
+import { getWorktreeInfo, removeIssueWorktree } from './_worktree'
+import type { CreateIssueInput } from './create'
+import { createProjectIssue, startProjectIssue } from './create'
+import { settleClosedIssue } from './update'
+
+const compareSchema = z.object({
+  runs: z
+    .array(
+      createIssueSchema.pick({
+        engineType: true,
+        engineProfileId: true,
+        model: true,
+      }),
+    )
+    .min(2, 'Compare at least two runs')
+    .max(4, 'Compare at most four runs'),
+  prompt: z.string().min(1).max(32768).optional(),
+  permissionMode: z.enum(['auto', 'supervised', 'plan']).optional(),
+})
+
+const winnerSchema = z.object({
+  issueId: z.string().min(1),
+})
+
+/** Compare runs started from `parentId`, oldest first. */
+async function listCompareRuns(parentId: string): Promise<IssueRow[]> {
+  return db
+    .select()
+    .from(issuesTable)
+    .where(
+      and(
+        eq(issuesTable.parentIssueId, parentId),
+        eq(issuesTable.compareRun, true),
+        eq(issuesTable.isDeleted, 0),
+      ),
+    )
+    .orderBy(asc(issuesTable.issueNumber))
+}
+
+/** Time between the first and the last log entry of an issue. */
+function getRunDuration(issueId: string): number | null {
+  const row = db
+    .select({
+      first: sql<string | null>`min(${issueLogs.timestamp})`,
+      last: sql<string | null>`max(${issueLogs.timestamp})`,
+    })
+    .from(issueLogs)
+    .where(and(eq(issueLogs.issueId, issueId), eq(issueLogs.isDeleted, 0)))
+    .get()
+  if (!row?.first || !row.last) return null
+  const duration = Date.parse(row.last) - Date.parse(row.first)
+  return Number.isNaN(duration) ? null : duration
+}
+
+async function getComparison(projectId: string, parent: IssueRow) {
+  const root = await resolveProjectDir(projectId)
+  const gitRepo = await isGitRepo(root)
+  const runs = await Promise.all(
+    (await listCompareRuns(parent.id)).map(async (run) => {
+      const worktree = gitRepo ? await getWorktreeInfo(root, run.id) : null
+      const usage = getUsageTotals({ issueId: run.id })
+      return {
+        issue: serializeIssue(run),
+        durationMs: getRunDuration(run.id),
+        costUsd: usage.costUsd,
+        turns: usage.turns,
+        worktree:
+          worktree && (worktree.hasBranch || worktree.hasWorktree)
+            ? worktree
+            : null,
+      }
+    }),
+  )
+  return { winnerId: parent.compareWinnerId ?? null, runs }
+}
+
+/**
+ * Label of one run in its issue title: profile or engine, then model.
+ * Throws when the run could not be created or started, so a bad run is
+ * caught before any of them exists.
+ */
+async function describeRun(
+  run: z.infer<typeof compareSchema>['runs'][number],
+): Promise<string> {
+  const profile = run.engineProfileId
+    ? await getEngineProfile(run.engineProfileId)
+    : null
+  if (run.engineProfileId && !profile) {
+    throw new Error(`Unknown engine profile: ${run.engineProfileId}`)
+  }
+  if (profile && run.engineType && run.engineType !== profile.engineType) {
+    throw new Error(
+      `Engine profile ${profile.name} runs ${profile.engineType}, not ${run.engineType}`,
+    )
+  }
+  const engineType = profile?.engineType ?? run.engineType
+  if (engineType === 'custom' && !(await getCustomEngineConfig())) {
+    throw new Error('Custom engine is not configured')
+  }
+  const engine = profile?.name ?? run.engineType ?? 'default engine'
+  return run.model ? `${engine} · ${run.model}` : engine
+}
+
+/** Soft-delete runs of a compare that failed part way; none were started. */
+async function discardRuns(projectId: string, runs: IssueRow[]) {
+  if (runs.length === 0) return
+  await db
+    .update(issuesTable)
+    .set({ isDeleted: 1 })
+    .where(
+      inArray(
+        issuesTable.id,
+        runs.map((run) => run.id),
+      ),
+    )
+  for (const run of runs) await invalidateIssueCache(projectId, run.id)
+  await cacheDelByPrefix(`projectIssueIds:${projectId}`)
+  await cacheDelByPrefix(`childCounts:${projectId}`)
+}
+
+const compare = new Hono()
+
+// POST /api/projects/:projectId/issues/:id/compare — Run the issue's prompt on
+// several engines/models at once, each as a sub-issue in its own worktree
+compare.post(
+  '/:id/compare',
+  zValidator('json', compareSchema, (result, c) => {
+    if (!result.success) {
+      return c.json(
+        {
+          success: false,
+          error: result.error.issues.map((i) => i.message).join(', '),
+        },
+        400,
+      )
+    }
+  }),
+  async (c) => {
+    const project = await findProject(c.req.param('projectId')!)
+    if (!project) {
+      return c.json({ success: false, error: 'Project not found' }, 404)
+    }
+    const parent = await getProjectOwnedIssue(project.id, c.req.param('id')!)
+    if (!parent) {
+      return c.json({ success: false, error: 'Issue not found' }, 404)
+    }
+    if (parent.parentIssueId) {
+      return c.json(
+        {
+          success: false,
+          error: 'Cannot compare a sub-issue (max depth is 1)',
+        },
+        400,
+      )
+    }
+    if (parent.compareWinnerId) {
+      return c.json(
+        { success: false, error: 'A winner was already picked' },
+        409,
+      )
+    }
+    if (!(await isGitRepo(await resolveProjectDir(project.id)))) {
+      return c.json(
+        {
+          success: false,
+          error: 'Project directory is not a Git repository',
+        },
+        400,
+      )
+    }
+
+    const body = c.req.valid('json')
+    const prompt = normalizePrompt(body.prompt ?? parent.prompt ?? parent.title)
+    if (!prompt) {
+      return c.json({ success: false, error: 'Prompt is required' }, 400)
+    }
+
+    let labels: string[]
+    try {
+      labels = await Promise.all(body.runs.map(describeRun))
+    } catch (error) {
+      return c.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Invalid run',
+        },
+        400,
+      )
+    }
+
+    // Runs start only once all of them exist, so a failure part way leaves
+    // nothing running to clean up
+    const workflow = await getProjectWorkflow(project.id)
+    const created: IssueRow[] = []
+    for (const [i, run] of body.runs.entries()) {
+      try {
+        const { issue } = await createProjectIssue(project, {
+          ...run,
+          title: `${parent.title} [${labels[i]}]`.slice(0, 500),
+          priority: parent.priority as CreateIssueInput['priority'],
+          statusId: workflow.execution.id,
+          parentIssueId: parent.id,
+          useWorktree: true,
+          compareRun: true,
+          permissionMode: body.permissionMode,
+          prompt,
+          deferStart: true,
+        })
+        created.push(issue)
+      } catch (error) {
+        logger.warn(
+          { issueId: parent.id, run, error },
+          'issue_compare_run_create_failed',
+        )
+        await discardRuns(project.id, created)
+        return c.json(
+          {
+            success: false,
+            error:
+              error instanceof Error ? error.message : 'Compare run failed',
+          },
+          400,
+        )
+      }
+    }
+    for (const issue of created) {
+      startProjectIssue(project, issue, body.permissionMode)
+    }
+    logger.info(
+      { issueId: parent.id, runs: created.map((run) => run.id) },
+      'issue_compare_started',
+    )
+
+    return c.json(
+      { success: true, data: created.map((issue) => serializeIssue(issue)) },
+      201,
+    )
+  },
+)
+
+// GET /api/projects/:projectId/issues/:id/compare — Diff, cost, duration and
+// checks of every compare run
+compare.get('/:id/compare', async (c) => {
+  const project = await findProject(c.req.param('projectId')!)
+  if (!project) {
+    return c.json({ success: false, error: 'Project not found' }, 404)
+  }
+  const parent = await getProjectOwnedIssue(project.id, c.req.param('id')!)
+  if (!parent) {
+    return c.json({ success: false, error: 'Issue not found' }, 404)
+  }
+  return c.json({
+    success: true,
+    data: await getComparison(project.id, parent),
+  })
+})
+
+// POST /api/projects/:projectId/issues/:id/compare/winner — Keep one run's
+// branch; cancel the others, delete their worktrees and close them
+compare.post(
+  '/:id/compare/winner',
+  zValidator('json', winnerSchema, (result, c) => {
+    if (!result.success) {
+      return c.json(
+        {
+          success: false,
+          error: result.error.issues.map((i) => i.message).join(', '),
+        },
+        400,
+      )
+    }
+  }),
+  async (c) => {
+    const project = await findProject(c.req.param('projectId')!)
+    if (!project) {
+      return c.json({ success: false, error: 'Project not found' }, 404)
+    }
+    const parent = await getProjectOwnedIssue(project.id, c.req.param('id')!)
+    if (!parent) {
+      return c.json({ success: false, error: 'Issue not found' }, 404)
+    }
+    if (parent.compareWinnerId) {
+      return c.json(
+        { success: false, error: 'A winner was already picked' },
+        409,
+      )
+    }
+
+    const { issueId } = c.req.valid('json')
+    const runs = await listCompareRuns(parent.id)
+    const winner = runs.find((run) => run.id === issueId)
+    if (!winner) {
+      return c.json({ success: false, error: 'Compare run not found' }, 404)
+    }
+    if (issueEngine.hasActiveProcessForIssue(winner.id)) {
+      return c.json(
+        { success: false, error: 'Issue is still running; wait or cancel it' },
+        409,
+      )
+    }
+
+    const root = await resolveProjectDir(project.id)
+    const gitRepo = await isGitRepo(root)
+    const workflow = await getProjectWorkflow(project.id)
+    const closed = workflow.statuses.find((s) => s.isTerminal)
+    for (const loser of runs.filter((run) => run.id !== winner.id)) {
+      try {
+        await issueEngine.cancelIssue(loser.id)
+      } catch (error) {
+        logger.warn({ issueId: loser.id, error }, 'issue_compare_cancel_failed')
+      }
+      if (gitRepo) {
+        const removed = await removeIssueWorktree(root, loser.id, {
+          force: true,
+        })
+        if (!removed.ok && removed.status !== 404) {
+          logger.warn(
+            { issueId: loser.id, reason: removed.error },
+            'issue_compare_worktree_remove_failed',
+          )
+        }
+      }
+      if (closed && workflow.roleOf(loser.statusId) !== 'terminal') {
+        await db
+          .update(issuesTable)
+          .set({ statusId: closed.id })
+          .where(eq(issuesTable.id, loser.id))
+        await invalidateIssueCache(project.id, loser.id)
+        emitIssueUpdated(loser.id, { statusId: closed.id })
+        settleClosedIssue(project.id, loser)
+      }
+    }
+
+    const [updated] = await db
+      .update(issuesTable)
+      .set({ compareWinnerId: winner.id })
+      .where(eq(issuesTable.id, parent.id))
+      .returning()
+    await invalidateIssueCache(project.id, parent.id)
+    emitIssueUpdated(parent.id, { compareWinnerId: winner.id })
+    logger.info(
+      { issueId: parent.id, winnerId: winner.id },
+      'issue_compare_winner_picked',
+    )
+
+    return c.json({
+      success: true,
+      data: await getComparison(project.id, updated!),
+    })
+  },
+)
+
+export default compare
@@ -1,6 +1,7 @@
 import { zValidator } from '@hono/zod-validator'
-import { and, eq, max } from 'drizzle-orm'
+import { and, eq } from 'drizzle-orm'
 import { Hono } from 'hono'
+import type * as z from 'zod'
 import { cacheDel, cacheDelByPrefix } from '@/cache'
 import { db } from '@/db'
 import {
@@ -8,15 +9,167 @@ import {
   getDefaultEngine,
   getEngineDefaultModel,
 } from '@/db/helpers'
+import { getProjectWorkflow } from '@/db/project-statuses'
 import { issues as issuesTable } from '@/db/schema'
 import { engineRegistry } from '@/engines/executors'
+import { getEngineProfile } from '@/engines/profiles'
 import type { EngineType } from '@/engines/types'
+import { emitIssueCreated } from '@/events/issue-events'
+import type { IssueRow } from './_shared'
 import {
+  allocateIssueSlot,
   createIssueSchema,
   serializeIssue,
   triggerIssueExecution,
 } from './_shared'
 
+type ProjectRow = NonNullable<Awaited<ReturnType<typeof findProject>>>
+
+export type CreateIssueInput = z.infer<typeof createIssueSchema> & {
+  /** Prompt for the first run; defaults to the title */
+  prompt?: string
+  /** Marks the issue as one run of a comparison under its parent */
+  compareRun?: boolean
+  /** Leave an executing issue pending; the caller runs `startProjectIssue` */
+  deferStart?: boolean
+}
+
+/** Start the first run of an issue created in the execution column. */
+export function startProjectIssue(
+  project: ProjectRow,
+  issue: IssueRow,
+  permissionMode?: CreateIssueInput['permissionMode'],
+): void {
+  triggerIssueExecution(
+    issue.id,
+    {
+      engineType: issue.engineType,
+      prompt: issue.prompt,
+      model: issue.model,
+      permissionMode,
+    },
+    project.directory || undefined,
+  )
+}
+
+/**
+ * Create an issue in `project` and, when it lands in the execution (or
+ * review) column, start running it. Throws on invalid input.
+ */
+export async function createProjectIssue(
+  project: ProjectRow,
+  body: CreateIssueInput,
+): Promise<{ issue: IssueRow; executing: boolean }> {
+  const workflow = await getProjectWorkflow(project.id)
+  if (!workflow.has(body.statusId)) {
+    throw new Error(`Unknown status: ${body.statusId}`)
+  }
+
+  // A profile fixes the engine and may carry its own default model
+  const profile = body.engineProfileId
+    ? await getEngineProfile(body.engineProfileId)
+    : null
+  if (body.engineProfileId && !profile) {
+    throw new Error(`Unknown engine profile: ${body.engineProfileId}`)
+  }
+  if (profile && body.engineType && body.engineType !== profile.engineType) {
+    throw new Error(
+      `Engine profile ${profile.name} runs ${profile.engineType}, not ${body.engineType}`,
+    )
+  }
+
+  // Resolve engine/model defaults when not explicitly provided
+  // Falls back to 'echo' / 'auto' when no settings exist
+  let resolvedEngine = profile?.engineType ?? body.engineType ?? null
+  let resolvedModel = body.model ?? profile?.defaultModel ?? null
+
+  if (!resolvedEngine) {
+    resolvedEngine = ((await getDefaultEngine()) || 'echo') as EngineType
+  }
+  if (!resolvedModel) {
+    const savedModel = await getEngineDefaultModel(resolvedEngine!)
+    if (savedModel) {
+      resolvedModel = savedModel
+    } else {
+      const models = await engineRegistry.getModels(
+        resolvedEngine as EngineType,
+      )
+      resolvedModel =
+        models.find((m) => m.isDefault)?.id ?? models[0]?.id ?? 'auto'
+    }
+  }
+
+  const issuePrompt = body.prompt ?? body.title
+  const role = workflow.roleOf(body.statusId)
+  const shouldExecute = role === 'execution' || role === 'review'
+  // review → execution column: auto-downgrade so the engine picks it up
+  const effectiveStatusId =
+    role === 'review' ? workflow.execution.id : body.statusId
+
+  const [newIssue] = await db.transaction(async (tx) => {
+    // Validate parentIssueId if provided
+    if (body.parentIssueId) {
+      const [parent] = await tx
+        .select()
+        .from(issuesTable)
+        .where(
+          and(
+            eq(issuesTable.id, body.parentIssueId),
+            eq(issuesTable.projectId, project.id),
+            eq(issuesTable.isDeleted, 0),
+          ),
+        )
+      if (!parent) {
+        throw new Error('Parent issue not found in this project')
+      }
+      // Depth=1 only: parent must not itself be a sub-issue
+      if (parent.parentIssueId) {
+        throw new Error(
+          'Cannot create sub-issue of a sub-issue (max depth is 1)',
+        )
+      }
+    }
+
+    const { issueNumber, sortOrder } = await allocateIssueSlot(
+      tx,
+      project.id,
+      effectiveStatusId,
+    )
+
+    return tx
+      .insert(issuesTable)
+      .values({
+        projectId: project.id,
+        statusId: effectiveStatusId,
+        issueNumber,
+        title: body.title,
+        priority: body.priority,
+        sortOrder,
+        parentIssueId: body.parentIssueId ?? null,
+        useWorktree: body.useWorktree ?? false,
+        compareRun: body.compareRun ?? false,
+        engineType: resolvedEngine,
+        engineProfileId: profile && !profile.builtIn ? profile.id! : null,
+        model: resolvedModel,
+        sessionStatus: shouldExecute ? 'pending' : null,
+        prompt: issuePrompt,
+      })
+      .returning()
+  })
+
+  // After successful creation, invalidate relevant caches
+  await cacheDelByPrefix(`childCounts:${project.id}`)
+  await cacheDel(`projectIssueIds:${project.id}`)
+  emitIssueCreated(newIssue!.id, project.id)
+
+  // Only auto-execute when created in the execution (or review) column
+  if (shouldExecute && !body.deferStart) {
+    startProjectIssue(project, newIssue!, body.permissionMode)
+  }
+
+  return { issue: newIssue!, executing: shouldExecute }
+}
+
 const create = new Hono()
 
 // POST /api/projects/:projectId/issues — Create issue
@@ -40,121 +193,14 @@ create.post(
       return c.json({ success: false, error: 'Project not found' }, 404)
     }
 
-    const body = c.req.valid('json')
-
-    // Resolve engine/model defaults when not explicitly provided
-    // Falls back to 'echo' / 'auto' when no settings exist
-    let resolvedEngine = body.engineType ?? null
-    let resolvedModel = body.model ?? null
-
-    if (!resolvedEngine) {
-      resolvedEngine = ((await getDefaultEngine()) || 'echo') as EngineType
-    }
-    if (!resolvedModel) {
-      const savedModel = await getEngineDefaultModel(resolvedEngine!)
-      if (savedModel) {
-        resolvedModel = savedModel
-      } else {
-        const models = await engineRegistry.getModels(
-          resolvedEngine as EngineType,
-        )
-        resolvedModel =
-          models.find((m) => m.isDefault)?.id ?? models[0]?.id ?? 'auto'
-      }
-    }
-
     try {
-      const issuePrompt = body.title
-      const shouldExecute =
-        body.statusId === 'working' || body.statusId === 'review'
-      // review → working: auto-downgrade so the execution engine picks it up
-      const effectiveStatusId =
-        body.statusId === 'review' ? 'working' : body.statusId
-
-      const [newIssue] = await db.transaction(async (tx) => {
-        // Validate parentIssueId if provided
-        if (body.parentIssueId) {
-          const [parent] = await tx
-            .select()
-            .from(issuesTable)
-            .where(
-              and(
-                eq(issuesTable.id, body.parentIssueId),
-                eq(issuesTable.projectId, project.id),
-                eq(issuesTable.isDeleted, 0),
-              ),
-            )
-          if (!parent) {
-            throw new Error('Parent issue not found in this project')
-          }
-          // Depth=1 only: parent must not itself be a sub-issue
-          if (parent.parentIssueId) {
-            throw new Error(
-              'Cannot create sub-issue of a sub-issue (max depth is 1)',
-            )
-          }
-        }
-
-        // Compute next issueNumber across ALL issues (including soft-deleted) to avoid reuse
-        const [maxNumRow] = await tx
-          .select({ maxNum: max(issuesTable.issueNumber) })
-          .from(issuesTable)
-          .where(eq(issuesTable.projectId, project.id))
-        const issueNumber = (maxNumRow?.maxNum ?? 0) + 1
-
-        // Compute max sortOrder within the target status column
-        const [maxOrderRow] = await tx
-          .select({ maxOrder: max(issuesTable.sortOrder) })
-          .from(issuesTable)
-          .where(
-            and(
-              eq(issuesTable.projectId, project.id),
-              eq(issuesTable.statusId, effectiveStatusId),
-              eq(issuesTable.isDeleted, 0),
-            ),
-          )
-        const sortOrder = (maxOrderRow?.maxOrder ?? -1) + 1
-
-        return tx
-          .insert(issuesTable)
-          .values({
-            projectId: project.id,
-            statusId: effectiveStatusId,
-            issueNumber,
-            title: body.title,
-            priority: body.priority,
-            sortOrder,
-            parentIssueId: body.parentIssueId ?? null,
-            useWorktree: body.useWorktree ?? false,
-            engineType: resolvedEngine,
-            model: resolvedModel,
-            sessionStatus: shouldExecute ? 'pending' : null,
-            prompt: issuePrompt,
-          })
-          .returning()
-      })
-
-      // After successful creation, invalidate relevant caches
-      await cacheDelByPrefix(`childCounts:${project.id}`)
-      await cacheDel(`projectIssueIds:${project.id}`)
-
-      // Only auto-execute when created directly in working
-      if (shouldExecute) {
-        triggerIssueExecution(
-          newIssue!.id,
-          {
-            engineType: resolvedEngine,
-            prompt: issuePrompt,
-            model: resolvedModel,
-            permissionMode: body.permissionMode,
-          },
-          project.directory || undefined,
-        )
-      }
-
+      const { issue, executing } = await createProjectIssue(
+        project,
+        c.req.valid('json'),
+      )
       return c.json(
-        { success: true, data: serializeIssue(newIssue!) },
-        shouldExecute ? 202 : 201,
+        { success: true, data: serializeIssue(issue) },
+        executing ? 202 : 201,
       )
     } catch (error) {
       return c.json(
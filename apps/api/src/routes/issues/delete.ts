@@ -5,7 +5,10 @@ import { db } from '@/db'
 import { findProject } from '@/db/helpers'
 import { issues as issuesTable } from '@/db/schema'
 import { issueEngine } from '@/engines/issue'
+import { forgetAlwaysAllowed } from '@/engines/issue/approvals'
+import { deleteCheckpoints } from '@/engines/issue/checkpoints'
 import { logger } from '@/logger'
+import { resolveProjectDir } from './_git'
 
 const del = new Hono()
 
@@ -42,6 +45,17 @@ del.delete('/:id', async (c) => {
     })
   }
 
+  const children = await db
+    .select({ id: issuesTable.id })
+    .from(issuesTable)
+    .where(
+      and(
+        eq(issuesTable.parentIssueId, issueId),
+        eq(issuesTable.projectId, project.id),
+        eq(issuesTable.isDeleted, 0),
+      ),
+    )
+
   await db.transaction(async (tx) => {
     // Soft-delete the issue
     await tx
@@ -67,6 +81,17 @@ del.delete('/:id', async (c) => {
   await cacheDelByPrefix(`projectIssueIds:${project.id}`)
   await cacheDelByPrefix(`childCounts:${project.id}`)
 
+  const deletedIds = [issueId, ...children.map((child) => child.id)]
+  for (const id of deletedIds) forgetAlwaysAllowed(id)
+
+  // Checkpoint refs would otherwise keep their snapshots alive forever
+  void (async () => {
+    const root = await resolveProjectDir(project.id)
+    for (const id of deletedIds) await deleteCheckpoints(id, root)
+  })().catch((err) => {
+    logger.warn({ issueId, err }, 'delete_checkpoints_failed')
+  })
+
   logger.info({ projectId: project.id, issueId }, 'issue_deleted')
 
   return c.json({ success: true, data: { id: issueId } })
@@ -0,0 +1,116 @@
+import { zValidator } from '@hono/zod-validator'
+import { Hono } from 'hono'
+import * as z from 'zod'
+import { findProject } from '@/db/helpers'
+import {
+  addDependency,
+  getBlockers,
+  getDependents,
+  removeDependency,
+  wouldCreateCycle,
+} from '@/db/issue-dependencies'
+import { getProjectOwnedIssue, serializeIssue } from './_shared'
+
+const addDependencySchema = z.object({
+  dependsOnIssueId: z.string().min(1),
+})
+
+const dependencies = new Hono()
+
+// GET /api/projects/:projectId/issues/:id/dependencies — Both directions of the graph
+dependencies.get('/:id/dependencies', async (c) => {
+  const project = await findProject(c.req.param('projectId')!)
+  if (!project) {
+    return c.json({ success: false, error: 'Project not found' }, 404)
+  }
+
+  const issueId = c.req.param('id')!
+  const issue = await getProjectOwnedIssue(project.id, issueId)
+  if (!issue) {
+    return c.json({ success: false, error: 'Issue not found' }, 404)
+  }
+
+  const [blockedBy, blocks] = await Promise.all([
+    getBlockers(issueId),
+    getDependents(issueId),
+  ])
+  return c.json({
+    success: true,
+    data: {
+      blockedBy: blockedBy.map((r) => serializeIssue(r)),
+      blocks: blocks.map((r) => serializeIssue(r)),
+    },
+  })
+})
+
+// POST /api/projects/:projectId/issues/:id/dependencies — Mark the issue as blocked by another
+dependencies.post(
+  '/:id/dependencies',
+  zValidator('json', addDependencySchema, (result, c) => {
+    if (!result.success) {
+      return c.json(
+        {
+          success: false,
+          error: result.error.issues.map((i) => i.message).join(', '),
+        },
+        400,
+      )
+    }
+  }),
+  async (c) => {
+    const project = await findProject(c.req.param('projectId')!)
+    if (!project) {
+      return c.json({ success: false, error: 'Project not found' }, 404)
+    }
+
+    const issueId = c.req.param('id')!
+    const issue = await getProjectOwnedIssue(project.id, issueId)
+    if (!issue) {
+      return c.json({ success: false, error: 'Issue not found' }, 404)
+    }
+
+    const { dependsOnIssueId } = c.req.valid('json')
+    const upstream = await getProjectOwnedIssue(project.id, dependsOnIssueId)
+    if (!upstream) {
+      return c.json(
+        { success: false, error: 'Upstream issue not found in this project' },
+        400,
+      )
+    }
+    if (await wouldCreateCycle(project.id, issueId, dependsOnIssueId)) {
+      return c.json(
+        { success: false, error: 'Dependency would create a cycle' },
+        400,
+      )
+    }
+
+    const created = await addDependency(issueId, dependsOnIssueId)
+    return c.json(
+      { success: true, data: { issueId, dependsOnIssueId } },
+      created ? 201 : 200,
+    )
+  },
+)
+
+// DELETE /api/projects/:projectId/issues/:id/dependencies/:dependsOnIssueId — Remove an edge
+dependencies.delete('/:id/dependencies/:dependsOnIssueId', async (c) => {
+  const project = await findProject(c.req.param('projectId')!)
+  if (!project) {
+    return c.json({ success: false, error: 'Project not found' }, 404)
+  }
+
+  const issueId = c.req.param('id')!
+  const issue = await getProjectOwnedIssue(project.id, issueId)
+  if (!issue) {
+    return c.json({ success: false, error: 'Issue not found' }, 404)
+  }
+
+  const dependsOnIssueId = c.req.param('dependsOnIssueId')!
+  const removed = await removeDependency(issueId, dependsOnIssueId)
+  if (!removed) {
+    return c.json({ success: false, error: 'Dependency not found' }, 404)
+  }
+  return c.json({ success: true, data: { issueId, dependsOnIssueId } })
+})
+
+export default dependencies
@@ -0,0 +1,162 @@
+import { zValidator } from '@hono/zod-validator'
+import { and, eq } from 'drizzle-orm'
+import { Hono } from 'hono'
+import * as z from 'zod'
+import { cacheDel, cacheDelByPrefix } from '@/cache'
+import { db } from '@/db'
+import { findProject } from '@/db/helpers'
+import { getProjectWorkflow } from '@/db/project-statuses'
+import { issueLogs, issues as issuesTable } from '@/db/schema'
+import { updateIssueSession } from '@/engines/engine-store'
+import { issueEngine } from '@/engines/issue'
+import { copyLogsUntil } from '@/engines/issue/persistence'
+import { emitIssueCreated, emitIssueUpdated } from '@/events/issue-events'
+import { logger } from '@/logger'
+import {
+  allocateIssueSlot,
+  getProjectOwnedIssue,
+  normalizePrompt,
+  serializeIssue,
+} from './_shared'
+
+const forkIssueSchema = z.object({
+  /** Assistant message (log entry id) to fork after */
+  messageId: z.string().min(1),
+  prompt: z.string().min(1).max(32768),
+  title: z.string().min(1).max(500).optional(),
+  permissionMode: z.enum(['auto', 'supervised', 'plan']).optional(),
+})
+
+const fork = new Hono()
+
+// POST /api/projects/:projectId/issues/:id/fork — Continue the session from
+// one assistant message in a new sub-issue
+fork.post(
+  '/:id/fork',
+  zValidator('json', forkIssueSchema, (result, c) => {
+    if (!result.success) {
+      return c.json(
+        {
+          success: false,
+          error: result.error.issues.map((i) => i.message).join(', '),
+        },
+        400,
+      )
+    }
+  }),
+  async (c) => {
+    const project = await findProject(c.req.param('projectId')!)
+    if (!project) {
+      return c.json({ success: false, error: 'Project not found' }, 404)
+    }
+    const source = await getProjectOwnedIssue(project.id, c.req.param('id')!)
+    if (!source) {
+      return c.json({ success: false, error: 'Issue not found' }, 404)
+    }
+
+    const body = c.req.valid('json')
+    const prompt = normalizePrompt(body.prompt)
+    if (!prompt) {
+      return c.json({ success: false, error: 'Prompt is required' }, 400)
+    }
+
+    const [target] = await db
+      .select()
+      .from(issueLogs)
+      .where(
+        and(
+          eq(issueLogs.id, body.messageId),
+          eq(issueLogs.issueId, source.id),
+          eq(issueLogs.isDeleted, 0),
+        ),
+      )
+    if (!target) {
+      return c.json({ success: false, error: 'Message not found' }, 404)
+    }
+    if (target.entryType !== 'assistant-message') {
+      return c.json(
+        { success: false, error: 'Only assistant messages can be forked' },
+        400,
+      )
+    }
+
+    const workflow = await getProjectWorkflow(project.id)
+    const statusId = workflow.execution.id
+    // Forks of a sub-issue become its siblings (max depth is 1)
+    const parentIssueId = source.parentIssueId ?? source.id
+
+    const [child] = await db.transaction(async (tx) => {
+      const { issueNumber, sortOrder } = await allocateIssueSlot(
+        tx,
+        project.id,
+        statusId,
+      )
+      return tx
+        .insert(issuesTable)
+        .values({
+          projectId: project.id,
+          statusId,
+          issueNumber,
+          title: body.title ?? `${source.title} (fork)`.slice(0, 500),
+          priority: source.priority,
+          sortOrder,
+          parentIssueId,
+          useWorktree: source.useWorktree,
+          engineType: source.engineType,
+          engineProfileId: source.engineProfileId,
+          model: source.model,
+          sessionStatus: 'pending',
+          prompt,
+        })
+        .returning()
+    })
+
+    const transcript = copyLogsUntil(source.id, child!.id, target.id)
+
+    await cacheDelByPrefix(`childCounts:${project.id}`)
+    await cacheDel(`projectIssueIds:${project.id}`)
+    emitIssueCreated(child!.id, project.id)
+
+    let resetToMessageId: string | null = null
+    try {
+      const metadata = target.metadata ? JSON.parse(target.metadata) : null
+      if (typeof metadata?.messageId === 'string') {
+        resetToMessageId = metadata.messageId
+      }
+    } catch {
+      // Not an engine message id — the fork replays the transcript instead
+    }
+
+    try {
+      await issueEngine.forkIssue(child!.id, {
+        prompt,
+        transcript,
+        sourceSessionId: source.externalSessionId,
+        resetToMessageId,
+        permissionMode: body.permissionMode,
+      })
+    } catch (error) {
+      logger.warn(
+        { issueId: source.id, forkId: child!.id, error },
+        'issue_fork_start_failed',
+      )
+      await updateIssueSession(child!.id, { sessionStatus: 'failed' })
+      emitIssueUpdated(child!.id, { sessionStatus: 'failed' })
+      return c.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Fork failed',
+        },
+        400,
+      )
+    }
+
+    const [forked] = await db
+      .select()
+      .from(issuesTable)
+      .where(eq(issuesTable.id, child!.id))
+    return c.json({ success: true, data: serializeIssue(forked!) }, 202)
+  },
+)
+
+export default fork
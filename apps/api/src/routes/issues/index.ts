@@ -1,14 +1,23 @@
 import { Hono } from 'hono'
+import approvals from './approvals'
 import attachments from './attachments'
+import budget from './budget'
 import changes from './changes'
+import checkpoints from './checkpoints'
 import command from './command'
+import compare from './compare'
 import create from './create'
 import del from './delete'
+import dependencies from './dependencies'
+import fork from './fork'
 import logs from './logs'
 import message from './message'
 import query from './query'
+import rewind from './rewind'
 import title from './title'
 import update from './update'
+import usage from './usage'
+import worktree from './worktree'
 
 const issues = new Hono()
 issues.route('/', query)
@@ -18,8 +27,17 @@ issues.route('/', del)
 issues.route('/', title)
 issues.route('/', command)
 issues.route('/', message)
+issues.route('/', fork)
+issues.route('/', compare)
+issues.route('/', rewind)
 issues.route('/', attachments)
 issues.route('/', logs)
 issues.route('/', changes)
+issues.route('/', checkpoints)
+issues.route('/', approvals)
+issues.route('/', dependencies)
+issues.route('/', worktree)
+issues.route('/', usage)
+issues.route('/', budget)
 
 export default issues
@@ -71,4 +71,28 @@ logs.get('/:id/logs', async (c) => {
   })
 })
 
+// GET /api/projects/:projectId/issues/:id/branches/:branchId — Entries an
+// edit rewound out of the transcript
+logs.get('/:id/branches/:branchId', async (c) => {
+  const project = await findProject(c.req.param('projectId')!)
+  if (!project) {
+    return c.json({ success: false, error: 'Project not found' }, 404)
+  }
+  const issueId = c.req.param('id')!
+  const issue = await getProjectOwnedIssue(project.id, issueId)
+  if (!issue) {
+    return c.json({ success: false, error: 'Issue not found' }, 404)
+  }
+
+  const branchLogs = issueEngine.getBranchLogs(
+    issueId,
+    c.req.param('branchId')!,
+    issue.devMode,
+  )
+  if (branchLogs.length === 0) {
+    return c.json({ success: false, error: 'Branch not found' }, 404)
+  }
+  return c.json({ success: true, data: { logs: branchLogs } })
+})
+
 export default logs
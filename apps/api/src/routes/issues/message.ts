@@ -2,6 +2,7 @@ import { eq, max } from 'drizzle-orm'
 import { Hono } from 'hono'
 import { db } from '@/db'
 import { findProject } from '@/db/helpers'
+import { getProjectWorkflow } from '@/db/project-statuses'
 import { attachments, issueLogs } from '@/db/schema'
 import { issueEngine } from '@/engines/issue'
 import { logger } from '@/logger'
@@ -206,14 +207,17 @@ message.post('/:id/follow-up', async (c) => {
       ? { attachments: savedFiles.map(savedFileToMeta) }
       : {}
 
-  // Queue message for todo/done issues instead of rejecting
+  // Queue message for backlog/terminal issues instead of rejecting
   // Always store original prompt for engine use; displayPrompt goes in metadata for UI display
   const pendingMeta = (type: string) => ({
     type,
     ...attachmentsMeta,
     ...(parsed.displayPrompt ? { displayPrompt: parsed.displayPrompt } : {}),
   })
-  if (issue.statusId === 'todo') {
+  const role = (await getProjectWorkflow(issue.projectId)).roleOf(
+    issue.statusId,
+  )
+  if (role === 'backlog') {
     const messageId = await persistPendingMessage(
       issueId,
       prompt,
@@ -223,7 +227,7 @@ message.post('/:id/follow-up', async (c) => {
       await insertAttachmentRecords(issueId, messageId, savedFiles)
     return c.json({ success: true, data: { issueId, messageId, queued: true } })
   }
-  if (issue.statusId === 'done') {
+  if (role === 'terminal') {
     const messageId = await persistPendingMessage(
       issueId,
       prompt,
@@ -236,7 +240,7 @@ message.post('/:id/follow-up', async (c) => {
 
   // When the engine is actively processing a turn, queue message as pending
   // so it won't be ignored mid-turn. It will be auto-flushed after the turn settles.
-  if (issue.statusId === 'working' && issueEngine.isTurnInFlight(issueId)) {
+  if (role === 'execution' && issueEngine.isTurnInFlight(issueId)) {
     const messageId = await persistPendingMessage(
       issueId,
       prompt,
@@ -0,0 +1,103 @@
+import { zValidator } from '@hono/zod-validator'
+import { and, eq } from 'drizzle-orm'
+import { Hono } from 'hono'
+import * as z from 'zod'
+import { db } from '@/db'
+import { findProject } from '@/db/helpers'
+import { issueLogs } from '@/db/schema'
+import { issueEngine } from '@/engines/issue'
+import { ensureWorking, getProjectOwnedIssue, normalizePrompt } from './_shared'
+
+const rewindSchema = z.object({
+  /** User message (log entry id) to replace */
+  messageId: z.string().min(1),
+  prompt: z.string().min(1).max(32768),
+  permissionMode: z.enum(['auto', 'supervised', 'plan']).optional(),
+})
+
+// Queued, meta and parked messages never reached the engine as a turn
+const NON_EDITABLE_TYPES = new Set(['pending', 'done', 'system'])
+
+const rewind = new Hono()
+
+// POST /api/projects/:projectId/issues/:id/rewind — Edit a past user message
+// and resend it; later entries are kept as an alternate branch
+rewind.post(
+  '/:id/rewind',
+  zValidator('json', rewindSchema, (result, c) => {
+    if (!result.success) {
+      return c.json(
+        {
+          success: false,
+          error: result.error.issues.map((i) => i.message).join(', '),
+        },
+        400,
+      )
+    }
+  }),
+  async (c) => {
+    const project = await findProject(c.req.param('projectId')!)
+    if (!project) {
+      return c.json({ success: false, error: 'Project not found' }, 404)
+    }
+    const issueId = c.req.param('id')!
+    const issue = await getProjectOwnedIssue(project.id, issueId)
+    if (!issue) {
+      return c.json({ success: false, error: 'Issue not found' }, 404)
+    }
+
+    const body = c.req.valid('json')
+    const prompt = normalizePrompt(body.prompt)
+    if (!prompt) {
+      return c.json({ success: false, error: 'Prompt is required' }, 400)
+    }
+
+    const [target] = await db
+      .select()
+      .from(issueLogs)
+      .where(
+        and(
+          eq(issueLogs.id, body.messageId),
+          eq(issueLogs.issueId, issueId),
+          eq(issueLogs.visible, 1),
+          eq(issueLogs.isDeleted, 0),
+        ),
+      )
+    if (!target) {
+      return c.json({ success: false, error: 'Message not found' }, 404)
+    }
+    const metadata = target.metadata ? JSON.parse(target.metadata) : null
+    if (
+      target.entryType !== 'user-message' ||
+      NON_EDITABLE_TYPES.has(metadata?.type)
+    ) {
+      return c.json(
+        { success: false, error: 'Only sent user messages can be edited' },
+        400,
+      )
+    }
+
+    try {
+      const guard = await ensureWorking(issue)
+      if (!guard.ok) {
+        return c.json({ success: false, error: guard.reason! }, 400)
+      }
+      const result = await issueEngine.rewindIssue(issueId, {
+        messageId: target.id,
+        prompt,
+        permissionMode: body.permissionMode,
+      })
+      return c.json({ success: true, data: { issueId, ...result } })
+    } catch (error) {
+      return c.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Rewind failed',
+        },
+        400,
+      )
+    }
+  },
+)
+
+export default rewind
@@ -4,7 +4,9 @@ import { Hono } from 'hono'
 import { cacheDel, cacheDelByPrefix, cacheGetOrSet } from '@/cache'
 import { db } from '@/db'
 import { findProject } from '@/db/helpers'
+import { getProjectWorkflow } from '@/db/project-statuses'
 import { issues as issuesTable } from '@/db/schema'
+import { promoteReadyDependents } from '@/engines/dependencies'
 import { issueEngine, setIssueDevMode } from '@/engines/issue'
 import { emitIssueUpdated } from '@/events/issue-events'
 import { logger } from '@/logger'
@@ -15,6 +17,29 @@ import {
   triggerIssueExecution,
   updateIssueSchema,
 } from './_shared'
+import { cleanupClosedIssueWorktree } from './_worktree'
+
+/**
+ * Fire-and-forget work for an issue that entered a terminal column, however
+ * it got there: its session is cancelled, its worktree cleaned up and its
+ * dependency edges resolved.
+ */
+export function settleClosedIssue(
+  projectId: string,
+  issue: { id: string; useWorktree: boolean },
+): void {
+  const issueId = issue.id
+  const cancelled = issueEngine.cancelIssue(issueId)
+  void cancelled.catch((err) => {
+    logger.error({ issueId, err }, 'done_transition_cancel_failed')
+  })
+  if (issue.useWorktree) {
+    cleanupClosedIssueWorktree(projectId, issueId, cancelled)
+  }
+  void promoteReadyDependents(issueId).catch((err) => {
+    logger.error({ issueId, err }, 'dependency_promotion_failed')
+  })
+}
 
 const update = new Hono()
 
@@ -40,6 +65,16 @@ update.patch(
     }
 
     const body = c.req.valid('json')
+    const workflow = await getProjectWorkflow(project.id)
+    const unknown = body.updates.find(
+      (u) => u.statusId !== undefined && !workflow.has(u.statusId),
+    )
+    if (unknown) {
+      return c.json(
+        { success: false, error: `Unknown status: ${unknown.statusId}` },
+        400,
+      )
+    }
 
     // Get all project issue IDs for ownership validation
     const projectIssueIds = await cacheGetOrSet<string[]>(
@@ -71,7 +106,11 @@ update.patch(
     // Collect issues that already have a session but need pending messages flushed
     const toFlush: Array<{ id: string; model: string | null }> = []
     // Collect issues transitioning to done that need active processes cancelled
-    const toCancel: string[] = []
+    const toCancel: Array<{ id: string; useWorktree: boolean }> = []
+    // Collect issues leaving the execution column that may still be queued
+    const toDequeue: string[] = []
+    // Collect other column moves to broadcast once the transaction commits
+    const toAnnounce: Array<{ id: string; statusId: string }> = []
 
     await db.transaction(async (tx) => {
       for (const u of body.updates) {
@@ -84,13 +123,23 @@ update.patch(
 
         if (Object.keys(changes).length === 0) continue
 
-        // Check if this is a transition to working that should trigger execution
-        if (u.statusId === 'working') {
+        // Reorders within a column also carry statusId; only moves count
+        let previousStatusId: string | undefined
+        if (u.statusId !== undefined) {
+          const [current] = await tx
+            .select({ statusId: issuesTable.statusId })
+            .from(issuesTable)
+            .where(eq(issuesTable.id, u.id))
+          previousStatusId = current?.statusId
+        }
+
+        // Check if this is a transition to the execution column
+        if (u.statusId === workflow.execution.id) {
           const [existing] = await tx
             .select()
             .from(issuesTable)
             .where(eq(issuesTable.id, u.id))
-          if (existing && existing.statusId !== 'working') {
+          if (existing && existing.statusId !== workflow.execution.id) {
             if (
               !existing.sessionStatus ||
               existing.sessionStatus === 'pending'
@@ -113,17 +162,34 @@ update.patch(
           }
         }
 
-        // Check if transitioning to done → cancel active processes
-        if (u.statusId === 'done') {
+        // Check if transitioning to a terminal column → cancel active processes
+        if (u.statusId && workflow.roleOf(u.statusId) === 'terminal') {
           const [existing] = await tx
             .select()
             .from(issuesTable)
             .where(eq(issuesTable.id, u.id))
-          if (existing && existing.statusId !== 'done') {
-            toCancel.push(u.id)
+          if (existing && workflow.roleOf(existing.statusId) !== 'terminal') {
+            toCancel.push({ id: u.id, useWorktree: existing.useWorktree })
           }
         }
 
+        if (
+          u.statusId !== undefined &&
+          u.statusId !== workflow.execution.id &&
+          workflow.roleOf(u.statusId) !== 'terminal'
+        ) {
+          toDequeue.push(u.id)
+        }
+
+        if (
+          u.statusId !== undefined &&
+          previousStatusId !== undefined &&
+          u.statusId !== previousStatusId &&
+          changes.sessionStatus === undefined
+        ) {
+          toAnnounce.push({ id: u.id, statusId: u.statusId })
+        }
+
         const [row] = await tx
           .update(issuesTable)
           .set(changes)
@@ -135,22 +201,29 @@ update.patch(
       }
     })
 
-    // Fire-and-forget execution for issues that transitioned to working
+    // Fire-and-forget execution for issues that entered the execution column
     for (const issue of toExecute) {
       emitIssueUpdated(issue.id, {
-        statusId: 'working',
+        statusId: workflow.execution.id,
         sessionStatus: 'pending',
       })
       triggerIssueExecution(issue.id, issue, project.directory || undefined)
     }
+    for (const { id, statusId } of toAnnounce) {
+      emitIssueUpdated(id, { statusId })
+    }
     // Flush pending messages for issues with existing sessions
     for (const issue of toFlush) {
       flushPendingAsFollowUp(issue.id, issue)
     }
-    // Cancel active processes for issues that transitioned to done
-    for (const issueId of toCancel) {
-      void issueEngine.cancelIssue(issueId).catch((err) => {
-        logger.error({ issueId, err }, 'done_transition_cancel_failed')
+    // Cancel active processes for issues that moved to a terminal column
+    for (const issue of toCancel) {
+      settleClosedIssue(project.id, issue)
+    }
+
+    for (const issueId of toDequeue) {
+      void issueEngine.dequeueIssue(issueId).catch((err) => {
+        logger.error({ issueId, err }, 'issue_dequeue_failed')
       })
     }
 
@@ -200,6 +273,14 @@ update.patch(
     }
 
     const body = c.req.valid('json')
+    const workflow = await getProjectWorkflow(project.id)
+    if (body.statusId !== undefined && !workflow.has(body.statusId)) {
+      return c.json(
+        { success: false, error: `Unknown status: ${body.statusId}` },
+        400,
+      )
+    }
+
     const updates: Record<string, unknown> = {}
     if (body.title !== undefined) updates.title = body.title
     if (body.priority !== undefined) updates.priority = body.priority
@@ -257,9 +338,10 @@ update.patch(
       return c.json({ success: true, data: serializeIssue(existing) })
     }
 
-    // Check if transitioning to working → trigger execution or flush
+    // Check if entering the execution column → trigger execution or flush
     const transitioningToWorking =
-      body.statusId === 'working' && existing.statusId !== 'working'
+      body.statusId === workflow.execution.id &&
+      existing.statusId !== workflow.execution.id
     const shouldExecute =
       transitioningToWorking &&
       (!existing.sessionStatus || existing.sessionStatus === 'pending')
@@ -270,9 +352,11 @@ update.patch(
         existing.sessionStatus ?? '',
       )
 
-    // Check if transitioning to done → cancel active processes
+    // Check if entering a terminal column → cancel active processes
     const transitioningToDone =
-      body.statusId === 'done' && existing.statusId !== 'done'
+      body.statusId !== undefined &&
+      workflow.roleOf(body.statusId) === 'terminal' &&
+      workflow.roleOf(existing.statusId) !== 'terminal'
 
     if (shouldExecute) {
       updates.sessionStatus = 'pending'
@@ -293,9 +377,17 @@ update.patch(
       await cacheDelByPrefix(`childCounts:${project.id}`)
     }
 
+    if (
+      body.statusId !== undefined &&
+      body.statusId !== existing.statusId &&
+      !shouldExecute
+    ) {
+      emitIssueUpdated(issueId, { statusId: body.statusId })
+    }
+
     if (shouldExecute) {
       emitIssueUpdated(issueId, {
-        statusId: 'working',
+        statusId: workflow.execution.id,
         sessionStatus: 'pending',
       })
       triggerIssueExecution(
@@ -311,10 +403,18 @@ update.patch(
       flushPendingAsFollowUp(issueId, { model: existing.model })
     }
 
-    // Fire-and-forget cancel for done transition
     if (transitioningToDone) {
-      void issueEngine.cancelIssue(issueId).catch((err) => {
-        logger.error({ issueId, err }, 'done_transition_cancel_failed')
+      settleClosedIssue(project.id, existing)
+    }
+
+    // A queued issue moved back out of the execution column no longer runs
+    if (
+      body.statusId !== undefined &&
+      body.statusId !== workflow.execution.id &&
+      !transitioningToDone
+    ) {
+      void issueEngine.dequeueIssue(issueId).catch((err) => {
+        logger.error({ issueId, err }, 'issue_dequeue_failed')
       })
     }
 
@@ -0,0 +1,32 @@
+import { Hono } from 'hono'
+import { findProject } from '@/db/helpers'
+import { getIssueUsage } from '@/db/usage'
+import { getProjectOwnedIssue } from './_shared'
+
+const usage = new Hono()
+
+// GET /api/projects/:projectId/issues/:id/usage?days=30 — Token & cost totals for one issue
+usage.get('/:id/usage', async (c) => {
+  const project = await findProject(c.req.param('projectId')!)
+  if (!project) {
+    return c.json({ success: false, error: 'Project not found' }, 404)
+  }
+
+  const issueId = c.req.param('id')!
+  const issue = await getProjectOwnedIssue(project.id, issueId)
+  if (!issue) {
+    return c.json({ success: false, error: 'Issue not found' }, 404)
+  }
+
+  const daysParam = c.req.query('days')
+  const days = daysParam
+    ? Math.min(Math.max(Number(daysParam) || 30, 1), 365)
+    : undefined
+
+  return c.json({
+    success: true,
+    data: await getIssueUsage(issueId, days),
+  })
+})
+
+export default usage
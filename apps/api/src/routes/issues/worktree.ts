@@ -0,0 +1,160 @@
+import { zValidator } from '@hono/zod-validator'
+import { Hono } from 'hono'
+import * as z from 'zod'
+import { findProject } from '@/db/helpers'
+import { issueEngine } from '@/engines/issue'
+import { isGitRepo, isPathInsideRoot, resolveProjectDir } from './_git'
+import { getProjectOwnedIssue } from './_shared'
+import {
+  getWorktreeFilePatch,
+  getWorktreeInfo,
+  mergeIssueBranch,
+  removeIssueWorktree,
+} from './_worktree'
+
+const mergeSchema = z.object({
+  strategy: z.enum(['squash', 'rebase']).default('squash'),
+  message: z.string().min(1).max(2000).optional(),
+  // Remove the worktree and branch once merged
+  cleanup: z.boolean().default(true),
+})
+
+const MAX_PATCH_CHARS = 200_000
+
+/** Resolve project, issue and repo root, or the error response to return. */
+async function loadWorktreeIssue(projectParam: string, issueId: string) {
+  const project = await findProject(projectParam)
+  if (!project) {
+    return { error: 'Project not found', status: 404 as const }
+  }
+  const issue = await getProjectOwnedIssue(project.id, issueId)
+  if (!issue) {
+    return { error: 'Issue not found', status: 404 as const }
+  }
+  if (!issue.useWorktree) {
+    return { error: 'Issue does not use a worktree', status: 400 as const }
+  }
+  const root = await resolveProjectDir(project.id)
+  if (!(await isGitRepo(root))) {
+    return {
+      error: 'Project directory is not a Git repository',
+      status: 400 as const,
+    }
+  }
+  return { issue, root }
+}
+
+const worktree = new Hono()
+
+// GET /api/projects/:projectId/issues/:id/worktree — Branch status and diff against its base
+worktree.get('/:id/worktree', async (c) => {
+  const loaded = await loadWorktreeIssue(
+    c.req.param('projectId')!,
+    c.req.param('id')!,
+  )
+  if ('error' in loaded) {
+    return c.json({ success: false, error: loaded.error }, loaded.status)
+  }
+  return c.json({
+    success: true,
+    data: await getWorktreeInfo(loaded.root, loaded.issue.id),
+  })
+})
+
+// GET /api/projects/:projectId/issues/:id/worktree/file?path=... — Patch for one file of the branch diff
+worktree.get('/:id/worktree/file', async (c) => {
+  const loaded = await loadWorktreeIssue(
+    c.req.param('projectId')!,
+    c.req.param('id')!,
+  )
+  if ('error' in loaded) {
+    return c.json({ success: false, error: loaded.error }, loaded.status)
+  }
+
+  const path = c.req.query('path')?.trim()
+  if (!path) return c.json({ success: false, error: 'Missing path' }, 400)
+  // SEC-019: Same path rules as the workspace diff
+  if (
+    path.startsWith('-') ||
+    path.includes(':') ||
+    !isPathInsideRoot(loaded.root, path)
+  ) {
+    return c.json({ success: false, error: 'Invalid path' }, 400)
+  }
+
+  let patch = await getWorktreeFilePatch(loaded.root, loaded.issue.id, path)
+  const truncated = patch.length > MAX_PATCH_CHARS
+  if (truncated) patch = `${patch.slice(0, MAX_PATCH_CHARS)}\n\n... [truncated]`
+  return c.json({ success: true, data: { path, patch, truncated } })
+})
+
+// POST /api/projects/:projectId/issues/:id/worktree/merge — Squash-merge or rebase onto the base branch
+worktree.post(
+  '/:id/worktree/merge',
+  zValidator('json', mergeSchema, (result, c) => {
+    if (!result.success) {
+      return c.json(
+        {
+          success: false,
+          error: result.error.issues.map((i) => i.message).join(', '),
+        },
+        400,
+      )
+    }
+  }),
+  async (c) => {
+    const loaded = await loadWorktreeIssue(
+      c.req.param('projectId')!,
+      c.req.param('id')!,
+    )
+    if ('error' in loaded) {
+      return c.json({ success: false, error: loaded.error }, loaded.status)
+    }
+    const { issue, root } = loaded
+    if (issueEngine.hasActiveProcessForIssue(issue.id)) {
+      return c.json(
+        { success: false, error: 'Issue is still running; wait or cancel it' },
+        409,
+      )
+    }
+
+    const body = c.req.valid('json')
+    const result = await mergeIssueBranch(root, issue.id, {
+      strategy: body.strategy,
+      message: body.message ?? `#${issue.issueNumber} ${issue.title}`,
+      cleanup: body.cleanup,
+    })
+    if (!result.ok) {
+      return c.json({ success: false, error: result.error }, result.status)
+    }
+    const { ok: _ok, ...data } = result
+    return c.json({ success: true, data })
+  },
+)
+
+// DELETE /api/projects/:projectId/issues/:id/worktree — Remove the worktree and its branch
+worktree.delete('/:id/worktree', async (c) => {
+  const loaded = await loadWorktreeIssue(
+    c.req.param('projectId')!,
+    c.req.param('id')!,
+  )
+  if ('error' in loaded) {
+    return c.json({ success: false, error: loaded.error }, loaded.status)
+  }
+  if (issueEngine.hasActiveProcessForIssue(loaded.issue.id)) {
+    return c.json(
+      { success: false, error: 'Issue is still running; wait or cancel it' },
+      409,
+    )
+  }
+
+  const result = await removeIssueWorktree(loaded.root, loaded.issue.id, {
+    force: c.req.query('force') === 'true',
+  })
+  if (!result.ok) {
+    return c.json({ success: false, error: result.error }, result.status)
+  }
+  return c.json({ success: true, data: { issueId: loaded.issue.id } })
+})
+
+export default worktree
@@ -0,0 +1,213 @@
+import { zValidator } from '@hono/zod-validator'
+import { and, eq } from 'drizzle-orm'
+import { Hono } from 'hono'
+import * as z from 'zod'
+import { db } from '@/db'
+import { findProject } from '@/db/helpers'
+import type { McpServerRow } from '@/db/mcp-servers'
+import {
+  getMcpServer,
+  listMcpServers,
+  toMcpServerConfig,
+} from '@/db/mcp-servers'
+import { projectMcpServers } from '@/db/schema'
+import { toISO } from '@/utils/date'
+
+const envKey = z
+  .string()
+  .regex(/^[A-Z_]\w*$/i, 'Env keys must be valid variable names')
+  .max(128)
+const envValue = z.string().max(32768)
+
+const mcpServerFields = {
+  // Becomes part of tool names (`mcp__<name>__<tool>` in Claude)
+  name: z
+    .string()
+    .regex(/^[\w-]+$/, 'Name may only contain letters, digits, _ and -')
+    .max(64),
+  command: z.string().trim().min(1).max(1024),
+  args: z.array(z.string().max(4096)).max(100),
+  env: z.record(envKey, envValue),
+  enabled: z.boolean(),
+}
+
+const createMcpServerSchema = z.object({
+  ...mcpServerFields,
+  args: mcpServerFields.args.default([]),
+  env: mcpServerFields.env.default({}),
+  enabled: mcpServerFields.enabled.default(true),
+})
+
+// A null env value keeps the one already stored, since values are not returned
+const updateMcpServerSchema = z
+  .object({
+    ...mcpServerFields,
+    env: z.record(envKey, envValue.nullable()),
+  })
+  .partial()
+
+// Env values usually hold tokens, so like secrets they are write-only
+function serializeMcpServer(row: McpServerRow) {
+  const { args, env } = toMcpServerConfig(row)
+  return {
+    id: row.id,
+    projectId: row.projectId,
+    name: row.name,
+    command: row.command,
+    args,
+    env: Object.fromEntries(Object.keys(env).map((key) => [key, null])),
+    enabled: row.enabled,
+    createdAt: toISO(row.createdAt),
+    updatedAt: toISO(row.updatedAt),
+  }
+}
+
+async function nameTaken(projectId: string, name: string) {
+  const [row] = await db
+    .select({ id: projectMcpServers.id })
+    .from(projectMcpServers)
+    .where(
+      and(
+        eq(projectMcpServers.projectId, projectId),
+        eq(projectMcpServers.name, name),
+        eq(projectMcpServers.isDeleted, 0),
+      ),
+    )
+  return !!row
+}
+
+const mcpServers = new Hono()
+
+// GET /api/projects/:projectId/mcp-servers — All MCP servers of the project
+mcpServers.get('/', async (c) => {
+  const project = await findProject(c.req.param('projectId')!)
+  if (!project) {
+    return c.json({ success: false, error: 'Project not found' }, 404)
+  }
+  const rows = await listMcpServers(project.id)
+  return c.json({ success: true, data: rows.map(serializeMcpServer) })
+})
+
+// POST /api/projects/:projectId/mcp-servers — Add a stdio server for the project's agents
+mcpServers.post(
+  '/',
+  zValidator('json', createMcpServerSchema, (result, c) => {
+    if (!result.success) {
+      return c.json(
+        {
+          success: false,
+          error: result.error.issues.map((i) => i.message).join(', '),
+        },
+        400,
+      )
+    }
+  }),
+  async (c) => {
+    const project = await findProject(c.req.param('projectId')!)
+    if (!project) {
+      return c.json({ success: false, error: 'Project not found' }, 404)
+    }
+    const body = c.req.valid('json')
+    if (await nameTaken(project.id, body.name)) {
+      return c.json(
+        { success: false, error: `MCP server ${body.name} already exists` },
+        409,
+      )
+    }
+    const [row] = await db
+      .insert(projectMcpServers)
+      .values({
+        projectId: project.id,
+        name: body.name,
+        command: body.command,
+        args: JSON.stringify(body.args),
+        env: JSON.stringify(body.env),
+        enabled: body.enabled,
+      })
+      .returning()
+    return c.json({ success: true, data: serializeMcpServer(row!) }, 201)
+  },
+)
+
+// PATCH /api/projects/:projectId/mcp-servers/:id — Update any field; applies from the next spawn
+mcpServers.patch(
+  '/:id',
+  zValidator('json', updateMcpServerSchema, (result, c) => {
+    if (!result.success) {
+      return c.json(
+        {
+          success: false,
+          error: result.error.issues.map((i) => i.message).join(', '),
+        },
+        400,
+      )
+    }
+  }),
+  async (c) => {
+    const project = await findProject(c.req.param('projectId')!)
+    if (!project) {
+      return c.json({ success: false, error: 'Project not found' }, 404)
+    }
+    const existing = await getMcpServer(project.id, c.req.param('id')!)
+    if (!existing) {
+      return c.json({ success: false, error: 'MCP server not found' }, 404)
+    }
+    const { args, env, ...body } = c.req.valid('json')
+    if (
+      body.name !== undefined &&
+      body.name !== existing.name &&
+      (await nameTaken(project.id, body.name))
+    ) {
+      return c.json(
+        { success: false, error: `MCP server ${body.name} already exists` },
+        409,
+      )
+    }
+    let nextEnv: Record<string, string> | undefined
+    if (env !== undefined) {
+      const stored = toMcpServerConfig(existing).env
+      const missing = Object.keys(env).find(
+        (key) => env[key] === null && stored[key] === undefined,
+      )
+      if (missing) {
+        return c.json(
+          { success: false, error: `No stored value for ${missing}` },
+          400,
+        )
+      }
+      nextEnv = {}
+      for (const [key, value] of Object.entries(env)) {
+        nextEnv[key] = value ?? stored[key]!
+      }
+    }
+    const [row] = await db
+      .update(projectMcpServers)
+      .set({
+        ...body,
+        ...(args !== undefined ? { args: JSON.stringify(args) } : {}),
+        ...(nextEnv !== undefined ? { env: JSON.stringify(nextEnv) } : {}),
+      })
+      .where(eq(projectMcpServers.id, existing.id))
+      .returning()
+    return c.json({ success: true, data: serializeMcpServer(row!) })
+  },
+)
+
+// DELETE /api/projects/:projectId/mcp-servers/:id — Soft-delete
+mcpServers.delete('/:id', async (c) => {
+  const project = await findProject(c.req.param('projectId')!)
+  if (!project) {
+    return c.json({ success: false, error: 'Project not found' }, 404)
+  }
+  const existing = await getMcpServer(project.id, c.req.param('id')!)
+  if (!existing) {
+    return c.json({ success: false, error: 'MCP server not found' }, 404)
+  }
+  await db
+    .update(projectMcpServers)
+    .set({ isDeleted: 1 })
+    .where(eq(projectMcpServers.id, existing.id))
+  return c.json({ success: true, data: { id: existing.id } })
+})
+
+export default mcpServers
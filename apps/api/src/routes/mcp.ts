@@ -0,0 +1,67 @@
+import type { Context } from 'hono'
+import { Hono } from 'hono'
+import { extractToken } from '@/auth/middleware'
+import { findProject } from '@/db/helpers'
+import { getIssueWithSession } from '@/engines/engine-store'
+import type { McpContext } from '@/mcp'
+import { handleMcpMessage, PARSE_ERROR, rpcError } from '@/mcp'
+import { verifyIssueToken } from '@/mcp/token'
+import { getProjectOwnedIssue } from './issues/_shared'
+
+/**
+ * Agents connect with a token bound to their issue. Other clients (API
+ * secret or user session) pick the board with X-BitK-Project and may
+ * name an issue to act as with X-BitK-Issue.
+ */
+async function resolveContext(
+  c: Context,
+): Promise<McpContext | { error: string }> {
+  const agentIssueId = verifyIssueToken(extractToken(c))
+  if (agentIssueId) {
+    const issue = await getIssueWithSession(agentIssueId)
+    if (!issue) return { error: 'Issue not found' }
+    return { projectId: issue.projectId, issueId: issue.id }
+  }
+
+  const projectParam = c.req.header('X-BitK-Project')
+  if (!projectParam) return { projectId: null, issueId: null }
+  const project = await findProject(projectParam)
+  if (!project) return { error: 'Project not found' }
+  const issueId = c.req.header('X-BitK-Issue')
+  if (issueId && !(await getProjectOwnedIssue(project.id, issueId))) {
+    return { error: 'Issue not found' }
+  }
+  return { projectId: project.id, issueId: issueId ?? null }
+}
+
+const mcp = new Hono()
+
+// POST /api/mcp — MCP over streamable HTTP (JSON responses, no SSE)
+mcp.post('/', async (c) => {
+  const context = await resolveContext(c)
+  if ('error' in context) {
+    return c.json({ success: false, error: context.error }, 404)
+  }
+
+  let body: unknown
+  try {
+    body = await c.req.json()
+  } catch {
+    return c.json(rpcError(null, PARSE_ERROR, 'Parse error'), 400)
+  }
+
+  // Batches are only part of older protocol versions
+  const messages = Array.isArray(body) ? body : [body]
+  const responses = (
+    await Promise.all(messages.map((m) => handleMcpMessage(m, context)))
+  ).filter((r) => r !== null)
+  if (responses.length === 0) return c.body(null, 202)
+  return c.json(Array.isArray(body) ? responses : responses[0])
+})
+
+// GET /api/mcp, DELETE /api/mcp — No server-initiated stream or sessions
+mcp.on(['GET', 'DELETE'], '/', (c) =>
+  c.json({ success: false, error: 'Method not allowed' }, 405),
+)
+
+export default mcp
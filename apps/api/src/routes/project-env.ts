@@ -0,0 +1,197 @@
+import { zValidator } from '@hono/zod-validator'
+import { and, eq } from 'drizzle-orm'
+import { Hono } from 'hono'
+import * as z from 'zod'
+import { db } from '@/db'
+import { findProject } from '@/db/helpers'
+import type { ProjectEnvVarRow } from '@/db/project-env'
+import {
+  getProjectEnvVar,
+  listProjectEnvVars,
+  readProjectEnvValue,
+} from '@/db/project-env'
+import { projectEnvVars } from '@/db/schema'
+import { encryptSecret } from '@/secrets'
+import { toISO } from '@/utils/date'
+
+const envVarFields = {
+  key: z
+    .string()
+    .regex(/^[A-Z_]\w*$/i, 'Key must be a valid environment variable name')
+    .max(128),
+  value: z.string().max(32768),
+  isSecret: z.boolean(),
+}
+
+const createEnvVarSchema = z.object({
+  ...envVarFields,
+  isSecret: envVarFields.isSecret.default(false),
+})
+
+const updateEnvVarSchema = z.object(envVarFields).partial()
+
+// Secret values are write-only
+function serializeEnvVar(row: ProjectEnvVarRow) {
+  return {
+    id: row.id,
+    projectId: row.projectId,
+    key: row.key,
+    value: row.isSecret ? null : row.value,
+    isSecret: row.isSecret,
+    createdAt: toISO(row.createdAt),
+    updatedAt: toISO(row.updatedAt),
+  }
+}
+
+function storedValue(value: string, isSecret: boolean): string {
+  return isSecret ? encryptSecret(value) : value
+}
+
+async function findByKey(projectId: string, key: string) {
+  const [row] = await db
+    .select({ id: projectEnvVars.id })
+    .from(projectEnvVars)
+    .where(
+      and(
+        eq(projectEnvVars.projectId, projectId),
+        eq(projectEnvVars.key, key),
+        eq(projectEnvVars.isDeleted, 0),
+      ),
+    )
+  return row ?? null
+}
+
+const projectEnv = new Hono()
+
+// GET /api/projects/:projectId/env — All variables of the project, secrets masked
+projectEnv.get('/', async (c) => {
+  const project = await findProject(c.req.param('projectId')!)
+  if (!project) {
+    return c.json({ success: false, error: 'Project not found' }, 404)
+  }
+  const rows = await listProjectEnvVars(project.id)
+  return c.json({ success: true, data: rows.map(serializeEnvVar) })
+})
+
+// POST /api/projects/:projectId/env — Add a variable; secrets are encrypted at rest
+projectEnv.post(
+  '/',
+  zValidator('json', createEnvVarSchema, (result, c) => {
+    if (!result.success) {
+      return c.json(
+        {
+          success: false,
+          error: result.error.issues.map((i) => i.message).join(', '),
+        },
+        400,
+      )
+    }
+  }),
+  async (c) => {
+    const project = await findProject(c.req.param('projectId')!)
+    if (!project) {
+      return c.json({ success: false, error: 'Project not found' }, 404)
+    }
+    const body = c.req.valid('json')
+    if (await findByKey(project.id, body.key)) {
+      return c.json(
+        { success: false, error: `Variable ${body.key} already exists` },
+        409,
+      )
+    }
+    const [row] = await db
+      .insert(projectEnvVars)
+      .values({
+        projectId: project.id,
+        key: body.key,
+        value: storedValue(body.value, body.isSecret),
+        isSecret: body.isSecret,
+      })
+      .returning()
+    return c.json({ success: true, data: serializeEnvVar(row!) }, 201)
+  },
+)
+
+// PATCH /api/projects/:projectId/env/:id — Rename, change the value or toggle secrecy
+projectEnv.patch(
+  '/:id',
+  zValidator('json', updateEnvVarSchema, (result, c) => {
+    if (!result.success) {
+      return c.json(
+        {
+          success: false,
+          error: result.error.issues.map((i) => i.message).join(', '),
+        },
+        400,
+      )
+    }
+  }),
+  async (c) => {
+    const project = await findProject(c.req.param('projectId')!)
+    if (!project) {
+      return c.json({ success: false, error: 'Project not found' }, 404)
+    }
+    const existing = await getProjectEnvVar(project.id, c.req.param('id')!)
+    if (!existing) {
+      return c.json({ success: false, error: 'Variable not found' }, 404)
+    }
+    const body = c.req.valid('json')
+    if (body.key !== undefined && body.key !== existing.key) {
+      if (await findByKey(project.id, body.key)) {
+        return c.json(
+          { success: false, error: `Variable ${body.key} already exists` },
+          409,
+        )
+      }
+    }
+
+    const isSecret = body.isSecret ?? existing.isSecret
+    let value: string | undefined
+    if (body.value !== undefined) {
+      value = storedValue(body.value, isSecret)
+    } else if (isSecret !== existing.isSecret) {
+      // Toggling secrecy re-stores the current value
+      try {
+        value = storedValue(readProjectEnvValue(existing), isSecret)
+      } catch {
+        return c.json(
+          {
+            success: false,
+            error: 'Secret cannot be decrypted; set a new value',
+          },
+          409,
+        )
+      }
+    }
+
+    const [row] = await db
+      .update(projectEnvVars)
+      .set({
+        key: body.key,
+        isSecret,
+        ...(value !== undefined ? { value } : {}),
+      })
+      .where(eq(projectEnvVars.id, existing.id))
+      .returning()
+    return c.json({ success: true, data: serializeEnvVar(row!) })
+  },
+)
+
+// DELETE /api/projects/:projectId/env/:id — Soft-delete
+projectEnv.delete('/:id', async (c) => {
+  const project = await findProject(c.req.param('projectId')!)
+  if (!project) {
+    return c.json({ success: false, error: 'Project not found' }, 404)
+  }
+  const existing = await getProjectEnvVar(project.id, c.req.param('id')!)
+  if (!existing) {
+    return c.json({ success: false, error: 'Variable not found' }, 404)
+  }
+  await db
+    .update(projectEnvVars)
+    .set({ isDeleted: 1 })
+    .where(eq(projectEnvVars.id, existing.id))
+  return c.json({ success: true, data: { id: existing.id } })
+})
+
+export default projectEnv
@@ -31,6 +31,7 @@ const updateProjectSchema = z.object({
   description: z.string().max(5000).optional(),
   directory: z.string().max(1000).optional(),
   repositoryUrl: z.string().url().optional().or(z.literal('')),
+  verifyFixAttempts: z.number().int().min(0).max(10).optional(),
 })
 
 type ProjectRow = typeof projectsTable.$inferSelect
@@ -43,6 +44,7 @@ function serializeProject(row: ProjectRow) {
     description: row.description ?? undefined,
     directory: row.directory ?? undefined,
     repositoryUrl: row.repositoryUrl ?? undefined,
+    verifyFixAttempts: row.verifyFixAttempts,
     createdAt: toISO(row.createdAt),
     updatedAt: toISO(row.updatedAt),
   }
@@ -187,6 +189,9 @@ projects.patch(
       updates.repositoryUrl =
         body.repositoryUrl === '' ? null : body.repositoryUrl
     }
+    if (body.verifyFixAttempts !== undefined) {
+      updates.verifyFixAttempts = body.verifyFixAttempts
+    }
 
     if (Object.keys(updates).length === 0) {
       return c.json({ success: true, data: serializeProject(existing) })
@@ -0,0 +1,268 @@
+import { zValidator } from '@hono/zod-validator'
+import { eq } from 'drizzle-orm'
+import { Hono } from 'hono'
+import * as z from 'zod'
+import { db } from '@/db'
+import { findProject } from '@/db/helpers'
+import type { ScheduleRow } from '@/db/schedules'
+import {
+  firstRunAt,
+  getSchedule,
+  listScheduleRuns,
+  listSchedules,
+} from '@/db/schedules'
+import { schedules as schedulesTable } from '@/db/schema'
+import { fireSchedule } from '@/jobs/scheduler'
+import { nextCronRun } from '@/utils/cron'
+import { toISO } from '@/utils/date'
+import { getProjectOwnedIssue } from './issues/_shared'
+
+const scheduleFields = {
+  name: z.string().min(1).max(200),
+  // Exactly one of cron / runAt
+  cron: z.string().min(1).max(100).nullable(),
+  runAt: z.iso.datetime({ offset: true }).nullable(),
+  // Re-run this issue on every tick instead of creating a new one
+  issueId: z.string().min(1).nullable(),
+  prompt: z.string().min(1).max(32768),
+  engineType: z
+    .enum(['claude-code', 'codex', 'gemini', 'echo', 'custom'])
+    .nullable(),
+  model: z
+    .string()
+    .regex(/^[\w.-]{1,100}$/)
+    .nullable(),
+  enabled: z.boolean(),
+}
+
+const createScheduleSchema = z.object({
+  ...scheduleFields,
+  cron: scheduleFields.cron.optional(),
+  runAt: scheduleFields.runAt.optional(),
+  issueId: scheduleFields.issueId.optional(),
+  engineType: scheduleFields.engineType.optional(),
+  model: scheduleFields.model.optional(),
+  enabled: scheduleFields.enabled.default(true),
+})
+
+const updateScheduleSchema = z.object(scheduleFields).partial()
+
+function serializeSchedule(row: ScheduleRow) {
+  return {
+    id: row.id,
+    projectId: row.projectId,
+    name: row.name,
+    cron: row.cron ?? null,
+    runAt: row.runAt ? toISO(row.runAt) : null,
+    issueId: row.issueId ?? null,
+    prompt: row.prompt,
+    engineType: row.engineType ?? null,
+    model: row.model ?? null,
+    enabled: row.enabled,
+    nextRunAt: row.nextRunAt ? toISO(row.nextRunAt) : null,
+    lastRunAt: row.lastRunAt ? toISO(row.lastRunAt) : null,
+    createdAt: toISO(row.createdAt),
+    updatedAt: toISO(row.updatedAt),
+  }
+}
+
+/** Error message for an invalid timing, or null when it is usable. */
+function validateTiming(
+  cron: string | null,
+  runAt: Date | null,
+): string | null {
+  if (!cron === !runAt) return 'Provide either a cron expression or runAt'
+  if (cron) {
+    try {
+      nextCronRun(cron, new Date())
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Invalid cron expression'
+    }
+  }
+  return null
+}
+
+const schedules = new Hono()
+
+// GET /api/projects/:projectId/schedules — All schedules of the project
+schedules.get('/', async (c) => {
+  const project = await findProject(c.req.param('projectId')!)
+  if (!project) {
+    return c.json({ success: false, error: 'Project not found' }, 404)
+  }
+  const rows = await listSchedules(project.id)
+  return c.json({ success: true, data: rows.map(serializeSchedule) })
+})
+
+// POST /api/projects/:projectId/schedules — Create a schedule
+schedules.post(
+  '/',
+  zValidator('json', createScheduleSchema, (result, c) => {
+    if (!result.success) {
+      return c.json(
+        {
+          success: false,
+          error: result.error.issues.map((i) => i.message).join(', '),
+        },
+        400,
+      )
+    }
+  }),
+  async (c) => {
+    const project = await findProject(c.req.param('projectId')!)
+    if (!project) {
+      return c.json({ success: false, error: 'Project not found' }, 404)
+    }
+
+    const body = c.req.valid('json')
+    const cron = body.cron ?? null
+    const runAt = body.runAt ? new Date(body.runAt) : null
+    const timingError = validateTiming(cron, runAt)
+    if (timingError) {
+      return c.json({ success: false, error: timingError }, 400)
+    }
+    if (
+      body.issueId &&
+      !(await getProjectOwnedIssue(project.id, body.issueId))
+    ) {
+      return c.json(
+        { success: false, error: 'Issue not found in this project' },
+        400,
+      )
+    }
+
+    const [row] = await db
+      .insert(schedulesTable)
+      .values({
+        projectId: project.id,
+        name: body.name,
+        cron,
+        runAt,
+        issueId: body.issueId ?? null,
+        prompt: body.prompt,
+        engineType: body.engineType ?? null,
+        model: body.model ?? null,
+        enabled: body.enabled,
+        nextRunAt: body.enabled
+          ? firstRunAt({ cron, runAt }, new Date())
+          : null,
+      })
+      .returning()
+    return c.json({ success: true, data: serializeSchedule(row!) }, 201)
+  },
+)
+
+// PATCH /api/projects/:projectId/schedules/:id — Update; the next run is recomputed
+schedules.patch(
+  '/:id',
+  zValidator('json', updateScheduleSchema, (result, c) => {
+    if (!result.success) {
+      return c.json(
+        {
+          success: false,
+          error: result.error.issues.map((i) => i.message).join(', '),
+        },
+        400,
+      )
+    }
+  }),
+  async (c) => {
+    const project = await findProject(c.req.param('projectId')!)
+    if (!project) {
+      return c.json({ success: false, error: 'Project not found' }, 404)
+    }
+    const existing = await getSchedule(project.id, c.req.param('id')!)
+    if (!existing) {
+      return c.json({ success: false, error: 'Schedule not found' }, 404)
+    }
+
+    const body = c.req.valid('json')
+    const cron = body.cron !== undefined ? body.cron : existing.cron
+    const runAt =
+      body.runAt !== undefined
+        ? body.runAt
+          ? new Date(body.runAt)
+          : null
+        : existing.runAt
+    const timingError = validateTiming(cron, runAt)
+    if (timingError) {
+      return c.json({ success: false, error: timingError }, 400)
+    }
+    if (
+      body.issueId &&
+      !(await getProjectOwnedIssue(project.id, body.issueId))
+    ) {
+      return c.json(
+        { success: false, error: 'Issue not found in this project' },
+        400,
+      )
+    }
+
+    const enabled = body.enabled ?? existing.enabled
+    const [row] = await db
+      .update(schedulesTable)
+      .set({
+        ...body,
+        cron,
+        runAt,
+        enabled,
+        nextRunAt: enabled ? firstRunAt({ cron, runAt }, new Date()) : null,
+      })
+      .where(eq(schedulesTable.id, existing.id))
+      .returning()
+    return c.json({ success: true, data: serializeSchedule(row!) })
+  },
+)
+
+// DELETE /api/projects/:projectId/schedules/:id — Soft-delete; past runs are kept
+schedules.delete('/:id', async (c) => {
+  const project = await findProject(c.req.param('projectId')!)
+  if (!project) {
+    return c.json({ success: false, error: 'Project not found' }, 404)
+  }
+  const existing = await getSchedule(project.id, c.req.param('id')!)
+  if (!existing) {
+    return c.json({ success: false, error: 'Schedule not found' }, 404)
+  }
+  await db
+    .update(schedulesTable)
+    .set({ isDeleted: 1, enabled: false, nextRunAt: null })
+    .where(eq(schedulesTable.id, existing.id))
+  return c.json({ success: true, data: { id: existing.id } })
+})
+
+// GET /api/projects/:projectId/schedules/:id/runs — Past runs, newest first
+schedules.get('/:id/runs', async (c) => {
+  const project = await findProject(c.req.param('projectId')!)
+  if (!project) {
+    return c.json({ success: false, error: 'Project not found' }, 404)
+  }
+  const existing = await getSchedule(project.id, c.req.param('id')!)
+  if (!existing) {
+    return c.json({ success: false, error: 'Schedule not found' }, 404)
+  }
+  return c.json({ success: true, data: await listScheduleRuns(existing.id) })
+})
+
+// POST /api/projects/:projectId/schedules/:id/run — Fire once now, off-schedule
+schedules.post('/:id/run', async (c) => {
+  const project = await findProject(c.req.param('projectId')!)
+  if (!project) {
+    return c.json({ success: false, error: 'Project not found' }, 404)
+  }
+  const existing = await getSchedule(project.id, c.req.param('id')!)
+  if (!existing) {
+    return c.json({ success: false, error: 'Schedule not found' }, 404)
+  }
+  await db
+    .update(schedulesTable)
+    .set({ lastRunAt: new Date() })
+    .where(eq(schedulesTable.id, existing.id))
+  const run = await fireSchedule(existing)
+  return c.json({
+    success: true,
+    data: { ...run, createdAt: toISO(run.createdAt) },
+  })
+})
+
+export default schedules
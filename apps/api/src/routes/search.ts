@@ -0,0 +1,54 @@
+import { zValidator } from '@hono/zod-validator'
+import { Hono } from 'hono'
+import * as z from 'zod'
+import { findProject } from '@/db/helpers'
+import { searchIndex } from '@/db/search'
+
+const searchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  // Project id or alias; all projects when omitted
+  projectId: z.string().min(1).optional(),
+  // Comma-separated log entry types, plus `issue` for titles/prompts
+  types: z
+    .string()
+    .regex(/^[\w-]+(,[\w-]+)*$/)
+    .optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+})
+
+const search = new Hono()
+
+// GET /api/search — Full-text search over issues and their transcripts
+search.get(
+  '/',
+  zValidator('query', searchQuerySchema, (result, c) => {
+    if (!result.success) {
+      return c.json(
+        {
+          success: false,
+          error: result.error.issues.map((i) => i.message).join(', '),
+        },
+        400,
+      )
+    }
+  }),
+  async (c) => {
+    const { q, projectId, types, limit } = c.req.valid('query')
+    let scope: string | undefined
+    if (projectId) {
+      const project = await findProject(projectId)
+      if (!project) {
+        return c.json({ success: false, error: 'Project not found' }, 404)
+      }
+      scope = project.id
+    }
+    const results = await searchIndex(q, {
+      projectId: scope,
+      types: types?.split(','),
+      limit,
+    })
+    return c.json({ success: true, data: results })
+  },
+)
+
+export default search
@@ -5,6 +5,10 @@ import { zValidator } from '@hono/zod-validator'
 import { Hono } from 'hono'
 import * as z from 'zod'
 import { getAppSetting, setAppSetting } from '@/db/helpers'
+import {
+  APPROVAL_POLICY_KEY,
+  loadApprovalPolicy,
+} from '@/engines/issue/approvals'
 import type { WriteFilterRule } from '@/engines/write-filter'
 import {
   DEFAULT_FILTER_RULES,
@@ -116,6 +120,30 @@ settings.patch(
   },
 )
 
+// --- Approval Policy (supervised mode) ---
+
+const approvalPolicySchema = z.object({
+  timeoutSeconds: z.number().int().min(0).max(86_400),
+  onTimeout: z.enum(['approve', 'deny']),
+})
+
+// GET /api/settings/approval-policy
+settings.get('/approval-policy', async (c) => {
+  const policy = await loadApprovalPolicy()
+  return c.json({ success: true, data: policy })
+})
+
+// PUT /api/settings/approval-policy
+settings.put(
+  '/approval-policy',
+  zValidator('json', approvalPolicySchema),
+  async (c) => {
+    const policy = c.req.valid('json')
+    await setAppSetting(APPROVAL_POLICY_KEY, JSON.stringify(policy))
+    return c.json({ success: true, data: policy })
+  },
+)
+
 // --- Slash Commands (cached from engine init) ---
 
 const SLASH_COMMANDS_KEY = 'engine:slashCommands'
@@ -0,0 +1,83 @@
+import { zValidator } from '@hono/zod-validator'
+import { Hono } from 'hono'
+import * as z from 'zod'
+import { findProject } from '@/db/helpers'
+import {
+  getProjectStatuses,
+  MAX_PROJECT_STATUSES,
+  replaceProjectStatuses,
+  validateStatuses,
+} from '@/db/project-statuses'
+
+const statusSchema = z.object({
+  id: z
+    .string()
+    .regex(
+      /^[a-z0-9][a-z0-9_-]{0,31}$/,
+      'Status id must be a lowercase slug (letters, digits, - or _)',
+    ),
+  name: z.string().min(1).max(64),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a #rrggbb hex'),
+  triggersExecution: z.boolean().default(false),
+  isTerminal: z.boolean().default(false),
+})
+
+const replaceStatusesSchema = z.object({
+  // Column order is the array order
+  statuses: z.array(statusSchema).min(1).max(MAX_PROJECT_STATUSES),
+})
+
+const statuses = new Hono()
+
+// GET /api/projects/:projectId/statuses — Workflow columns in board order
+statuses.get('/', async (c) => {
+  const project = await findProject(c.req.param('projectId')!)
+  if (!project) {
+    return c.json({ success: false, error: 'Project not found' }, 404)
+  }
+  return c.json({ success: true, data: await getProjectStatuses(project.id) })
+})
+
+// PUT /api/projects/:projectId/statuses — Replace the project's columns
+statuses.put(
+  '/',
+  zValidator('json', replaceStatusesSchema, (result, c) => {
+    if (!result.success) {
+      return c.json(
+        {
+          success: false,
+          error: result.error.issues.map((i) => i.message).join(', '),
+        },
+        400,
+      )
+    }
+  }),
+  async (c) => {
+    const project = await findProject(c.req.param('projectId')!)
+    if (!project) {
+      return c.json({ success: false, error: 'Project not found' }, 404)
+    }
+
+    const next = c.req
+      .valid('json')
+      .statuses.map((s, sortOrder) => ({ ...s, sortOrder }))
+    const invalid = validateStatuses(next)
+    if (invalid) {
+      return c.json({ success: false, error: invalid }, 400)
+    }
+
+    const result = await replaceProjectStatuses(project.id, next)
+    if (!result.ok) {
+      return c.json(
+        {
+          success: false,
+          error: `Move issues out of these statuses first: ${result.inUse.join(', ')}`,
+        },
+        409,
+      )
+    }
+    return c.json({ success: true, data: next })
+  },
+)
+
+export default statuses
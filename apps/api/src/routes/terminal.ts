@@ -1,13 +1,17 @@
+import { existsSync } from 'node:fs'
 import { zValidator } from '@hono/zod-validator'
 import { Hono } from 'hono'
 import { upgradeWebSocket } from 'hono/bun'
 import * as z from 'zod'
+import { findProject } from '@/db/helpers'
+import { resolveProjectEnv } from '@/db/project-env'
 import { ProcessManager } from '@/engines/process-manager'
 import { logger } from '@/logger'
 
 // Server-internal secrets that must never be forwarded to terminal PTY processes
 const TERMINAL_STRIP_KEYS = new Set([
   'API_SECRET',
+  'SECRETS_KEY',
   'DB_PATH',
   'ALLOWED_ORIGIN',
   'ENABLE_RUNTIME_ENDPOINT',
@@ -111,63 +115,85 @@ if (typeof expiryTimer === 'object' && 'unref' in expiryTimer) {
 
 const app = new Hono()
 
-// POST /terminal — Create a new terminal session (spawn PTY)
-app.post('/terminal', (c) => {
-  const id = crypto.randomUUID()
-
-  // We need a reference the PTY data callback can close over
-  // to forward output to the attached WS. The meta object is
-  // shared by reference with the PM entry.
-  const meta: TerminalMeta = { wsRaw: null, graceTimer: null }
-
-  const proc = Bun.spawn([defaultShell, '-l'], {
-    terminal: {
-      cols: 80,
-      rows: 24,
-      data(_terminal, data) {
-        // Forward PTY output to attached WS (if any)
-        if (meta.wsRaw) {
-          try {
-            meta.wsRaw.send(data)
-          } catch {
-            /* WS gone */
+// POST /terminal — Create a new terminal session (spawn PTY). With a
+// projectId the shell starts in the project directory with its env vars.
+app.post(
+  '/terminal',
+  zValidator('json', z.object({ projectId: z.string().optional() })),
+  async (c) => {
+    const { projectId } = c.req.valid('json')
+    let cwd = process.env.HOME || '/'
+    let projectVars: Record<string, string> = {}
+    if (projectId) {
+      const project = await findProject(projectId)
+      if (!project) {
+        return c.json({ success: false, error: 'Project not found' }, 404)
+      }
+      if (project.directory && existsSync(project.directory)) {
+        cwd = project.directory
+      }
+      projectVars = (await resolveProjectEnv(project.id)).vars
+    }
+
+    const id = crypto.randomUUID()
+
+    // We need a reference the PTY data callback can close over
+    // to forward output to the attached WS. The meta object is
+    // shared by reference with the PM entry.
+    const meta: TerminalMeta = { wsRaw: null, graceTimer: null }
+
+    const proc = Bun.spawn([defaultShell, '-l'], {
+      terminal: {
+        cols: 80,
+        rows: 24,
+        data(_terminal, data) {
+          // Forward PTY output to attached WS (if any)
+          if (meta.wsRaw) {
+            try {
+              meta.wsRaw.send(data)
+            } catch {
+              /* WS gone */
+            }
           }
-        }
+        },
+      },
+      cwd,
+      env: {
+        ...(Object.fromEntries(
+          Object.entries(process.env).filter(
+            ([k]) => !TERMINAL_STRIP_KEYS.has(k),
+          ),
+        ) as Record<string, string>),
+        ...projectVars,
+        TERM: 'xterm-256color',
+        LANG: process.env.LANG || 'C.UTF-8',
+        LC_CTYPE: process.env.LC_CTYPE || 'C.UTF-8',
       },
-    },
-    cwd: process.env.HOME || '/',
-    env: {
-      ...(Object.fromEntries(
-        Object.entries(process.env).filter(
-          ([k]) => !TERMINAL_STRIP_KEYS.has(k),
-        ),
-      ) as Record<string, string>),
-      TERM: 'xterm-256color',
-      LANG: process.env.LANG || 'C.UTF-8',
-      LC_CTYPE: process.env.LC_CTYPE || 'C.UTF-8',
-    },
-  })
-
-  try {
-    terminalPM.register(id, proc, meta, {
-      group: 'terminal',
-      startAsRunning: true,
     })
-  } catch {
-    // Concurrency limit reached
-    proc.kill()
-    return c.json({ success: false, error: 'Session limit reached' }, 429)
-  }
 
-  logger.info(
-    { id, pid: proc.pid, shell: defaultShell },
-    'terminal_session_created',
-  )
+    try {
+      terminalPM.register(id, proc, meta, {
+        group: 'terminal',
+        startAsRunning: true,
+      })
+    } catch {
+      // Concurrency limit reached
+      proc.kill()
+      return c.json({ success: false, error: 'Session limit reached' }, 429)
+    }
 
-  return c.json({ success: true, data: { id } })
-})
+    logger.info(
+      { id, pid: proc.pid, shell: defaultShell, projectId },
+      'terminal_session_created',
+    )
+
+    return c.json({ success: true, data: { id } })
+  },
+)
 
-// GET /terminal/ws/:id — WebSocket for bidirectional I/O on an existing session
+// GET /terminal/ws/:id — WebSocket for bidirectional I/O on an existing session.
+// Auth runs in the global /api/* middleware before the upgrade; clients that
+// cannot send a cookie or header pass their session token as ?token=.
 app.get(
   '/terminal/ws/:id',
   // Reject before upgrade if session doesn't exist
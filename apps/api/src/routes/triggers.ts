@@ -0,0 +1,308 @@
+import { createHmac, timingSafeEqual } from 'node:crypto'
+import { zValidator } from '@hono/zod-validator'
+import { eq } from 'drizzle-orm'
+import { Hono } from 'hono'
+import * as z from 'zod'
+import { db } from '@/db'
+import { findProject } from '@/db/helpers'
+import { getProjectWorkflow } from '@/db/project-statuses'
+import { triggers as triggersTable } from '@/db/schema'
+import type { TriggerRow } from '@/db/triggers'
+import {
+  admitTriggerFire,
+  getTrigger,
+  listTriggerFires,
+  listTriggers,
+  setFireIssue,
+} from '@/db/triggers'
+import type { EngineType } from '@/engines/types'
+import { logger } from '@/logger'
+import { toISO } from '@/utils/date'
+import { renderTemplate } from '@/utils/template'
+import { createProjectIssue } from './issues/create'
+
+// Signed requests older (or newer) than this are rejected as replays
+const MAX_CLOCK_SKEW_SECONDS = 5 * 60
+
+const triggerFields = {
+  name: z.string().min(1).max(200),
+  secret: z.string().min(16).max(256),
+  titleTemplate: z.string().min(1).max(500),
+  promptTemplate: z.string().min(1).max(32768),
+  engineType: z
+    .enum(['claude-code', 'codex', 'gemini', 'echo', 'custom'])
+    .nullable(),
+  model: z
+    .string()
+    .regex(/^[\w.-]{1,100}$/)
+    .nullable(),
+  permissionMode: z.enum(['auto', 'supervised', 'plan']).nullable(),
+  useWorktree: z.boolean(),
+  maxPerHour: z.number().int().min(1).max(1000),
+  enabled: z.boolean(),
+}
+
+const createTriggerSchema = z.object({
+  ...triggerFields,
+  titleTemplate: triggerFields.titleTemplate.optional(),
+  engineType: triggerFields.engineType.optional(),
+  model: triggerFields.model.optional(),
+  permissionMode: triggerFields.permissionMode.optional(),
+  useWorktree: triggerFields.useWorktree.default(false),
+  maxPerHour: triggerFields.maxPerHour.default(10),
+  enabled: triggerFields.enabled.default(true),
+})
+
+const updateTriggerSchema = z.object(triggerFields).partial()
+
+// The secret is write-only
+function serializeTrigger(row: TriggerRow) {
+  return {
+    id: row.id,
+    projectId: row.projectId,
+    name: row.name,
+    titleTemplate: row.titleTemplate,
+    promptTemplate: row.promptTemplate,
+    engineType: row.engineType ?? null,
+    model: row.model ?? null,
+    permissionMode: row.permissionMode ?? null,
+    useWorktree: row.useWorktree,
+    maxPerHour: row.maxPerHour,
+    enabled: row.enabled,
+    createdAt: toISO(row.createdAt),
+    updatedAt: toISO(row.updatedAt),
+  }
+}
+
+/**
+ * Check `X-BitK-Signature: sha256=<hex>` against an HMAC of
+ * `<timestamp>.<raw body>` keyed with the trigger's secret.
+ */
+function verifySignature(
+  secret: string,
+  timestamp: string,
+  body: string,
+  signature: string,
+): boolean {
+  const expected = Buffer.from(
+    `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`,
+  )
+  const given = Buffer.from(signature)
+  return expected.length === given.length && timingSafeEqual(expected, given)
+}
+
+const triggers = new Hono()
+
+// GET /api/projects/:projectId/triggers — All triggers of the project
+triggers.get('/', async (c) => {
+  const project = await findProject(c.req.param('projectId')!)
+  if (!project) {
+    return c.json({ success: false, error: 'Project not found' }, 404)
+  }
+  const rows = await listTriggers(project.id)
+  return c.json({ success: true, data: rows.map(serializeTrigger) })
+})
+
+// POST /api/projects/:projectId/triggers — Create a trigger
+triggers.post(
+  '/',
+  zValidator('json', createTriggerSchema, (result, c) => {
+    if (!result.success) {
+      return c.json(
+        {
+          success: false,
+          error: result.error.issues.map((i) => i.message).join(', '),
+        },
+        400,
+      )
+    }
+  }),
+  async (c) => {
+    const project = await findProject(c.req.param('projectId')!)
+    if (!project) {
+      return c.json({ success: false, error: 'Project not found' }, 404)
+    }
+    const body = c.req.valid('json')
+    const [row] = await db
+      .insert(triggersTable)
+      .values({
+        ...body,
+        projectId: project.id,
+        titleTemplate: body.titleTemplate ?? body.name,
+        engineType: body.engineType ?? null,
+        model: body.model ?? null,
+        permissionMode: body.permissionMode ?? null,
+      })
+      .returning()
+    return c.json({ success: true, data: serializeTrigger(row!) }, 201)
+  },
+)
+
+// PATCH /api/projects/:projectId/triggers/:id — Update a trigger
+triggers.patch(
+  '/:id',
+  zValidator('json', updateTriggerSchema, (result, c) => {
+    if (!result.success) {
+      return c.json(
+        {
+          success: false,
+          error: result.error.issues.map((i) => i.message).join(', '),
+        },
+        400,
+      )
+    }
+  }),
+  async (c) => {
+    const project = await findProject(c.req.param('projectId')!)
+    if (!project) {
+      return c.json({ success: false, error: 'Project not found' }, 404)
+    }
+    const existing = await getTrigger(project.id, c.req.param('id')!)
+    if (!existing) {
+      return c.json({ success: false, error: 'Trigger not found' }, 404)
+    }
+    const [row] = await db
+      .update(triggersTable)
+      .set(c.req.valid('json'))
+      .where(eq(triggersTable.id, existing.id))
+      .returning()
+    return c.json({ success: true, data: serializeTrigger(row!) })
+  },
+)
+
+// DELETE /api/projects/:projectId/triggers/:id — Soft-delete; past fires are kept
+triggers.delete('/:id', async (c) => {
+  const project = await findProject(c.req.param('projectId')!)
+  if (!project) {
+    return c.json({ success: false, error: 'Project not found' }, 404)
+  }
+  const existing = await getTrigger(project.id, c.req.param('id')!)
+  if (!existing) {
+    return c.json({ success: false, error: 'Trigger not found' }, 404)
+  }
+  await db
+    .update(triggersTable)
+    .set({ isDeleted: 1, enabled: false })
+    .where(eq(triggersTable.id, existing.id))
+  return c.json({ success: true, data: { id: existing.id } })
+})
+
+// GET /api/projects/:projectId/triggers/:id/fires — Accepted calls, newest first
+triggers.get('/:id/fires', async (c) => {
+  const project = await findProject(c.req.param('projectId')!)
+  if (!project) {
+    return c.json({ success: false, error: 'Project not found' }, 404)
+  }
+  const existing = await getTrigger(project.id, c.req.param('id')!)
+  if (!existing) {
+    return c.json({ success: false, error: 'Trigger not found' }, 404)
+  }
+  return c.json({ success: true, data: await listTriggerFires(existing.id) })
+})
+
+// POST /api/projects/:projectId/triggers/:id — Fire the trigger (signed, no session)
+// Renders the payload into a new issue in the execution column and runs it
+triggers.post('/:id', async (c) => {
+  const project = await findProject(c.req.param('projectId')!)
+  const trigger = project
+    ? await getTrigger(project.id, c.req.param('id')!)
+    : null
+  if (!project || !trigger?.enabled) {
+    return c.json({ success: false, error: 'Trigger not found' }, 404)
+  }
+
+  const timestamp = c.req.header('X-BitK-Timestamp') ?? ''
+  const signature = c.req.header('X-BitK-Signature') ?? ''
+  const rawBody = await c.req.text()
+  const sentAt = Number(timestamp)
+  if (
+    !/^\d+$/.test(timestamp) ||
+    Math.abs(Date.now() / 1000 - sentAt) > MAX_CLOCK_SKEW_SECONDS
+  ) {
+    return c.json(
+      { success: false, error: 'Missing or expired X-BitK-Timestamp' },
+      401,
+    )
+  }
+  if (!verifySignature(trigger.secret, timestamp, rawBody, signature)) {
+    return c.json({ success: false, error: 'Invalid signature' }, 401)
+  }
+
+  let payload: unknown
+  try {
+    payload = rawBody ? JSON.parse(rawBody) : {}
+  } catch {
+    return c.json({ success: false, error: 'Invalid JSON' }, 400)
+  }
+
+  const admission = admitTriggerFire(trigger, signature)
+  if (!admission.ok) {
+    logger.warn(
+      { triggerId: trigger.id, reason: admission.reason },
+      'trigger_fire_rejected',
+    )
+    if (admission.reason === 'replayed') {
+      return c.json(
+        { success: false, error: 'Request was already processed' },
+        409,
+      )
+    }
+    c.header('Retry-After', '3600')
+    return c.json(
+      {
+        success: false,
+        error: `Rate limit reached (${trigger.maxPerHour} per hour)`,
+      },
+      429,
+    )
+  }
+
+  const workflow = await getProjectWorkflow(project.id)
+  const title =
+    renderTemplate(trigger.titleTemplate, payload).trim().slice(0, 500) ||
+    trigger.name
+  const prompt = renderTemplate(trigger.promptTemplate, payload)
+    .trim()
+    .slice(0, 32768)
+  try {
+    const { issue } = await createProjectIssue(project, {
+      title,
+      prompt: prompt || title,
+      statusId: workflow.execution.id,
+      priority: 'medium',
+      useWorktree: trigger.useWorktree,
+      engineType: (trigger.engineType as EngineType | null) ?? undefined,
+      model: trigger.model ?? undefined,
+      permissionMode:
+        (trigger.permissionMode as 'auto' | 'supervised' | 'plan' | null) ??
+        undefined,
+    })
+    await setFireIssue(admission.fireId, issue.id)
+    logger.info(
+      { triggerId: trigger.id, projectId: project.id, issueId: issue.id },
+      'trigger_fired',
+    )
+    return c.json(
+      {
+        success: true,
+        data: {
+          fireId: admission.fireId,
+          issueId: issue.id,
+          issueNumber: issue.issueNumber,
+        },
+      },
+      202,
+    )
+  } catch (error) {
+    return c.json(
+      {
+        success: false,
+        error:
+          error instanceof Error ? error.message : 'Failed to create issue',
+      },
+      400,
+    )
+  }
+})
+
+export default triggers
@@ -0,0 +1,25 @@
+import { Hono } from 'hono'
+import { findProject } from '@/db/helpers'
+import { getProjectUsage } from '@/db/usage'
+
+const usage = new Hono()
+
+// GET /api/projects/:projectId/usage?days=30 — Token & cost totals, daily and per-issue
+usage.get('/', async (c) => {
+  const project = await findProject(c.req.param('projectId')!)
+  if (!project) {
+    return c.json({ success: false, error: 'Project not found' }, 404)
+  }
+
+  const daysParam = c.req.query('days')
+  const days = daysParam
+    ? Math.min(Math.max(Number(daysParam) || 30, 1), 365)
+    : undefined
+
+  return c.json({
+    success: true,
+    data: await getProjectUsage(project.id, days),
+  })
+})
+
+export default usage
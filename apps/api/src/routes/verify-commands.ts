@@ -0,0 +1,131 @@
+import { zValidator } from '@hono/zod-validator'
+import { eq } from 'drizzle-orm'
+import { Hono } from 'hono'
+import * as z from 'zod'
+import { db } from '@/db'
+import { findProject } from '@/db/helpers'
+import { projectVerifyCommands } from '@/db/schema'
+import type { VerifyCommandRow } from '@/db/verify-commands'
+import { getVerifyCommand, listVerifyCommands } from '@/db/verify-commands'
+import { toISO } from '@/utils/date'
+
+const verifyCommandFields = {
+  name: z.string().trim().min(1, 'Name is required').max(64),
+  command: z.string().trim().min(1, 'Command is required').max(4096),
+  enabled: z.boolean(),
+}
+
+const createVerifyCommandSchema = z.object({
+  ...verifyCommandFields,
+  enabled: verifyCommandFields.enabled.default(true),
+})
+
+const updateVerifyCommandSchema = z.object(verifyCommandFields).partial()
+
+function serializeVerifyCommand(row: VerifyCommandRow) {
+  return {
+    id: row.id,
+    projectId: row.projectId,
+    name: row.name,
+    command: row.command,
+    enabled: row.enabled,
+    createdAt: toISO(row.createdAt),
+    updatedAt: toISO(row.updatedAt),
+  }
+}
+
+const verifyCommands = new Hono()
+
+// GET /api/projects/:projectId/verify-commands — All verification commands of the project
+verifyCommands.get('/', async (c) => {
+  const project = await findProject(c.req.param('projectId')!)
+  if (!project) {
+    return c.json({ success: false, error: 'Project not found' }, 404)
+  }
+  const rows = await listVerifyCommands(project.id)
+  return c.json({ success: true, data: rows.map(serializeVerifyCommand) })
+})
+
+// POST /api/projects/:projectId/verify-commands — Add a check run after each agent turn
+verifyCommands.post(
+  '/',
+  zValidator('json', createVerifyCommandSchema, (result, c) => {
+    if (!result.success) {
+      return c.json(
+        {
+          success: false,
+          error: result.error.issues.map((i) => i.message).join(', '),
+        },
+        400,
+      )
+    }
+  }),
+  async (c) => {
+    const project = await findProject(c.req.param('projectId')!)
+    if (!project) {
+      return c.json({ success: false, error: 'Project not found' }, 404)
+    }
+    const [row] = await db
+      .insert(projectVerifyCommands)
+      .values({ projectId: project.id, ...c.req.valid('json') })
+      .returning()
+    return c.json({ success: true, data: serializeVerifyCommand(row!) }, 201)
+  },
+)
+
+// PATCH /api/projects/:projectId/verify-commands/:id — Update any field; applies from the next turn
+verifyCommands.patch(
+  '/:id',
+  zValidator('json', updateVerifyCommandSchema, (result, c) => {
+    if (!result.success) {
+      return c.json(
+        {
+          success: false,
+          error: result.error.issues.map((i) => i.message).join(', '),
+        },
+        400,
+      )
+    }
+  }),
+  async (c) => {
+    const project = await findProject(c.req.param('projectId')!)
+    if (!project) {
+      return c.json({ success: false, error: 'Project not found' }, 404)
+    }
+    const existing = await getVerifyCommand(project.id, c.req.param('id')!)
+    if (!existing) {
+      return c.json(
+        { success: false, error: 'Verification command not found' },
+        404,
+      )
+    }
+    const [row] = await db
+      .update(projectVerifyCommands)
+      .set(c.req.valid('json'))
+      .where(eq(projectVerifyCommands.id, existing.id))
+      .returning()
+    return c.json({ success: true, data: serializeVerifyCommand(row!) })
+  },
+)
+
+// DELETE /api/projects/:projectId/verify-commands/:id — Soft-delete
+verifyCommands.delete('/:id', async (c) => {
+  const project = await findProject(c.req.param('projectId')!)
+  if (!project) {
+    return c.json({ success: false, error: 'Project not found' }, 404)
+  }
+  const existing = await getVerifyCommand(project.id, c.req.param('id')!)
+  if (!existing) {
+    return c.json(
+      { success: false, error: 'Verification command not found' },
+      404,
+    )
+  }
+  await db
+    .update(projectVerifyCommands)
+    .set({ isDeleted: 1 })
+    .where(eq(projectVerifyCommands.id, existing.id))
+  return c.json({ success: true, data: { id: existing.id } })
+})
+
+export default verifyCommands
@@ -0,0 +1,186 @@
+import { zValidator } from '@hono/zod-validator'
+import { eq } from 'drizzle-orm'
+import { Hono } from 'hono'
+import * as z from 'zod'
+import { db } from '@/db'
+import { findProject } from '@/db/helpers'
+import { webhooks as webhooksTable } from '@/db/schema'
+import type { WebhookRow } from '@/db/webhooks'
+import {
+  abandonPendingDeliveries,
+  getDelivery,
+  getWebhook,
+  listDeliveries,
+  listWebhooks,
+  parseWebhookEvents,
+  requeueDelivery,
+  serializeDelivery,
+  WEBHOOK_EVENTS,
+} from '@/db/webhooks'
+import { dispatchDeliveries } from '@/jobs/webhooks'
+import { toISO } from '@/utils/date'
+
+const webhookFields = {
+  url: z.url({ protocol: /^https?$/, error: 'URL must be http(s)' }).max(2048),
+  secret: z.string().min(1).max(256),
+  // Empty = every event
+  events: z.array(z.enum(WEBHOOK_EVENTS)),
+  enabled: z.boolean(),
+}
+
+const createWebhookSchema = z.object({
+  ...webhookFields,
+  events: webhookFields.events.default([]),
+  enabled: webhookFields.enabled.default(true),
+})
+
+const updateWebhookSchema = z.object(webhookFields).partial()
+
+// The secret is write-only
+function serializeWebhook(row: WebhookRow) {
+  return {
+    id: row.id,
+    projectId: row.projectId,
+    url: row.url,
+    events: parseWebhookEvents(row),
+    enabled: row.enabled,
+    createdAt: toISO(row.createdAt),
+    updatedAt: toISO(row.updatedAt),
+  }
+}
+
+const webhooks = new Hono()
+
+// GET /api/projects/:projectId/webhooks — All webhooks of the project
+webhooks.get('/', async (c) => {
+  const project = await findProject(c.req.param('projectId')!)
+  if (!project) {
+    return c.json({ success: false, error: 'Project not found' }, 404)
+  }
+  const rows = await listWebhooks(project.id)
+  return c.json({ success: true, data: rows.map(serializeWebhook) })
+})
+
+// POST /api/projects/:projectId/webhooks — Register an endpoint
+webhooks.post(
+  '/',
+  zValidator('json', createWebhookSchema, (result, c) => {
+    if (!result.success) {
+      return c.json(
+        {
+          success: false,
+          error: result.error.issues.map((i) => i.message).join(', '),
+        },
+        400,
+      )
+    }
+  }),
+  async (c) => {
+    const project = await findProject(c.req.param('projectId')!)
+    if (!project) {
+      return c.json({ success: false, error: 'Project not found' }, 404)
+    }
+    const body = c.req.valid('json')
+    const [row] = await db
+      .insert(webhooksTable)
+      .values({
+        projectId: project.id,
+        url: body.url,
+        secret: body.secret,
+        events: JSON.stringify(body.events),
+        enabled: body.enabled,
+      })
+      .returning()
+    return c.json({ success: true, data: serializeWebhook(row!) }, 201)
+  },
+)
+
+// PATCH /api/projects/:projectId/webhooks/:id — Update url, secret, events or enabled
+webhooks.patch(
+  '/:id',
+  zValidator('json', updateWebhookSchema, (result, c) => {
+    if (!result.success) {
+      return c.json(
+        {
+          success: false,
+          error: result.error.issues.map((i) => i.message).join(', '),
+        },
+        400,
+      )
+    }
+  }),
+  async (c) => {
+    const project = await findProject(c.req.param('projectId')!)
+    if (!project) {
+      return c.json({ success: false, error: 'Project not found' }, 404)
+    }
+    const existing = await getWebhook(project.id, c.req.param('id')!)
+    if (!existing) {
+      return c.json({ success: false, error: 'Webhook not found' }, 404)
+    }
+    const { events, ...body } = c.req.valid('json')
+    const [row] = await db
+      .update(webhooksTable)
+      .set({
+        ...body,
+        ...(events !== undefined ? { events: JSON.stringify(events) } : {}),
+      })
+      .where(eq(webhooksTable.id, existing.id))
+      .returning()
+    return c.json({ success: true, data: serializeWebhook(row!) })
+  },
+)
+
+// DELETE /api/projects/:projectId/webhooks/:id — Soft-delete; pending deliveries are dropped
+webhooks.delete('/:id', async (c) => {
+  const project = await findProject(c.req.param('projectId')!)
+  if (!project) {
+    return c.json({ success: false, error: 'Project not found' }, 404)
+  }
+  const existing = await getWebhook(project.id, c.req.param('id')!)
+  if (!existing) {
+    return c.json({ success: false, error: 'Webhook not found' }, 404)
+  }
+  await db
+    .update(webhooksTable)
+    .set({ isDeleted: 1, enabled: false })
+    .where(eq(webhooksTable.id, existing.id))
+  await abandonPendingDeliveries(existing.id, 'Webhook deleted')
+  return c.json({ success: true, data: { id: existing.id } })
+})
+
+// GET /api/projects/:projectId/webhooks/:id/deliveries — Delivery log, newest first
+webhooks.get('/:id/deliveries', async (c) => {
+  const project = await findProject(c.req.param('projectId')!)
+  if (!project) {
+    return c.json({ success: false, error: 'Project not found' }, 404)
+  }
+  const existing = await getWebhook(project.id, c.req.param('id')!)
+  if (!existing) {
+    return c.json({ success: false, error: 'Webhook not found' }, 404)
+  }
+  return c.json({ success: true, data: await listDeliveries(existing.id) })
+})
+
+// POST /api/projects/:projectId/webhooks/:id/deliveries/:deliveryId/redeliver
+// Send the same payload again as a new delivery and wait for the attempt
+webhooks.post('/:id/deliveries/:deliveryId/redeliver', async (c) => {
+  const project = await findProject(c.req.param('projectId')!)
+  if (!project) {
+    return c.json({ success: false, error: 'Project not found' }, 404)
+  }
+  const existing = await getWebhook(project.id, c.req.param('id')!)
+  if (!existing) {
+    return c.json({ success: false, error: 'Webhook not found' }, 404)
+  }
+  const source = await getDelivery(existing.id, c.req.param('deliveryId')!)
+  if (!source) {
+    return c.json({ success: false, error: 'Delivery not found' }, 404)
+  }
+  const queued = await requeueDelivery(source)
+  await dispatchDeliveries()
+  const delivery = await getDelivery(existing.id, queued.id)
+  return c.json({ success: true, data: serializeDelivery(delivery!) }, 201)
+})
+
+export default webhooks
@@ -0,0 +1,75 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from 'node:crypto'
+import { existsSync, readFileSync, writeFileSync } from 'node:fs'
+import { dirname, join } from 'node:path'
+import { dbPath } from '@/db'
+import { logger } from '@/logger'
+
+// ---------- Master key ----------
+//
+// Secrets are encrypted with AES-256-GCM. The key is derived from
+// SECRETS_KEY when set; otherwise a random key is generated once and kept
+// in `secrets.key` next to the database, readable only by the server user.
+
+const PREFIX = 'v1'
+
+let masterKey: Buffer | null = null
+
+function loadMasterKey(): Buffer {
+  const fromEnv = process.env.SECRETS_KEY
+  if (fromEnv) return createHash('sha256').update(fromEnv).digest()
+
+  const keyPath = join(dirname(dbPath), 'secrets.key')
+  if (existsSync(keyPath)) {
+    return Buffer.from(readFileSync(keyPath, 'utf8').trim(), 'base64')
+  }
+  const key = randomBytes(32)
+  writeFileSync(keyPath, `${key.toString('base64')}\n`, { mode: 0o600 })
+  logger.info({ keyPath }, 'secrets_master_key_created')
+  return key
+}
+
+function getMasterKey(): Buffer {
+  masterKey ??= loadMasterKey()
+  return masterKey
+}
+
+// ---------- Encryption ----------
+
+/** `v1:<iv>:<auth tag>:<ciphertext>`, each part base64. */
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv('aes-256-gcm', getMasterKey(), iv)
+  const ciphertext = Buffer.concat([
+    cipher.update(plaintext, 'utf8'),
+    cipher.final(),
+  ])
+  return [
+    PREFIX,
+    iv.toString('base64'),
+    cipher.getAuthTag().toString('base64'),
+    ciphertext.toString('base64'),
+  ].join(':')
+}
+
+/** Throws when the value was encrypted under another key or was tampered with. */
+export function decryptSecret(encrypted: string): string {
+  const [prefix, iv, tag, ciphertext] = encrypted.split(':')
+  if (prefix !== PREFIX || !iv || !tag || ciphertext === undefined) {
+    throw new Error('Unrecognized secret format')
+  }
+  const decipher = createDecipheriv(
+    'aes-256-gcm',
+    getMasterKey(),
+    Buffer.from(iv, 'base64'),
+  )
+  decipher.setAuthTag(Buffer.from(tag, 'base64'))
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64')),
+    decipher.final(),
+  ]).toString('utf8')
+}
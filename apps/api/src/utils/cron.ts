@@ -0,0 +1,173 @@
+// Minimal 5-field cron (minute hour day-of-month month day-of-week),
+// evaluated in the server's local time zone like the classic cron daemon.
+
+interface CronField {
+  values: Set<number>
+  /** False for `*` — matters for the day-of-month / day-of-week rule */
+  restricted: boolean
+}
+
+export interface CronSchedule {
+  minute: CronField
+  hour: CronField
+  dayOfMonth: CronField
+  month: CronField
+  dayOfWeek: CronField
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+}
+
+const MONTH_NAMES = [
+  'jan',
+  'feb',
+  'mar',
+  'apr',
+  'may',
+  'jun',
+  'jul',
+  'aug',
+  'sep',
+  'oct',
+  'nov',
+  'dec',
+]
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat']
+
+// How far ahead nextCronRun searches before giving up (e.g. `0 0 30 2 *`)
+const MAX_SEARCH_YEARS = 5
+
+function parseValue(
+  raw: string,
+  min: number,
+  max: number,
+  names?: string[],
+): number {
+  const nameIndex = names?.indexOf(raw.toLowerCase()) ?? -1
+  const value = nameIndex >= 0 ? nameIndex + min : Number(raw)
+  if (!/^\d+$/.test(raw) && nameIndex < 0) {
+    throw new Error(`Invalid cron value "${raw}"`)
+  }
+  if (value < min || value > max) {
+    throw new Error(`Cron value ${raw} out of range ${min}-${max}`)
+  }
+  return value
+}
+
+function parseField(
+  raw: string,
+  min: number,
+  max: number,
+  names?: string[],
+): CronField {
+  const values = new Set<number>()
+  for (const part of raw.split(',')) {
+    const [range, stepRaw] = part.split('/')
+    const step = stepRaw === undefined ? 1 : Number(stepRaw)
+    if (!range || !Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron field "${raw}"`)
+    }
+    let start: number
+    let end: number
+    if (range === '*') {
+      start = min
+      end = max
+    } else if (range.includes('-')) {
+      const [a, b] = range.split('-')
+      start = parseValue(a ?? '', min, max, names)
+      end = parseValue(b ?? '', min, max, names)
+      if (start > end) throw new Error(`Invalid cron range "${range}"`)
+    } else {
+      start = parseValue(range, min, max, names)
+      // `5/15` means "from 5, every 15"
+      end = stepRaw === undefined ? start : max
+    }
+    for (let v = start; v <= end; v += step) values.add(v)
+  }
+  return { values, restricted: raw !== '*' }
+}
+
+/** Parse a cron expression or macro (`@daily`). Throws on invalid input. */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim()
+  const fields = (MACROS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/)
+  if (fields.length !== 5) {
+    throw new Error(
+      `Cron expression must have 5 fields (minute hour day month weekday), got ${fields.length}`,
+    )
+  }
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields as [
+    string,
+    string,
+    string,
+    string,
+    string,
+  ]
+  const dow = parseField(dayOfWeek, 0, 7, DAY_NAMES)
+  // 7 is an alias for Sunday
+  if (dow.values.delete(7)) dow.values.add(0)
+  return {
+    minute: parseField(minute, 0, 59),
+    hour: parseField(hour, 0, 23),
+    dayOfMonth: parseField(dayOfMonth, 1, 31),
+    month: parseField(month, 1, 12, MONTH_NAMES),
+    dayOfWeek: dow,
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const { dayOfMonth, dayOfWeek } = schedule
+  const domMatch = dayOfMonth.values.has(date.getDate())
+  const dowMatch = dayOfWeek.values.has(date.getDay())
+  // Classic cron: when both are restricted, either one may match
+  if (dayOfMonth.restricted && dayOfWeek.restricted) return domMatch || dowMatch
+  return domMatch && dowMatch
+}
+
+/**
+ * First minute strictly after `after` that matches the expression.
+ * Throws when the expression is invalid or never fires.
+ */
+export function nextCronRun(
+  expression: string | CronSchedule,
+  after: Date,
+): Date {
+  const schedule =
+    typeof expression === 'string' ? parseCron(expression) : expression
+  const next = new Date(after)
+  next.setSeconds(0, 0)
+  next.setMinutes(next.getMinutes() + 1)
+
+  const limit = new Date(after)
+  limit.setFullYear(limit.getFullYear() + MAX_SEARCH_YEARS)
+
+  while (next <= limit) {
+    if (!schedule.month.values.has(next.getMonth() + 1)) {
+      next.setMonth(next.getMonth() + 1, 1)
+      next.setHours(0, 0, 0, 0)
+      continue
+    }
+    if (!matchesDay(schedule, next)) {
+      next.setDate(next.getDate() + 1)
+      next.setHours(0, 0, 0, 0)
+      continue
+    }
+    if (!schedule.hour.values.has(next.getHours())) {
+      next.setHours(next.getHours() + 1, 0, 0, 0)
+      continue
+    }
+    if (!schedule.minute.values.has(next.getMinutes())) {
+      next.setMinutes(next.getMinutes() + 1, 0, 0)
+      continue
+    }
+    return next
+  }
+  throw new Error('Cron expression never fires')
+}
@@ -0,0 +1,28 @@
+// Mustache-style `{{ path }}` substitution for trigger prompt templates.
+// Paths are dot-separated keys or array indices (`{{ jobs.0.name }}`);
+// `{{ payload }}` is the whole payload. Objects render as indented JSON,
+// missing values as an empty string. There are no sections or escaping.
+
+const PLACEHOLDER = /\{\{\s*([\w.-]+)\s*\}\}/g
+
+function lookup(payload: unknown, path: string): unknown {
+  if (path === 'payload') return payload
+  let value = payload
+  for (const key of path.split('.')) {
+    if (value === null || typeof value !== 'object') return undefined
+    value = (value as Record<string, unknown>)[key]
+  }
+  return value
+}
+
+function stringify(value: unknown): string {
+  if (value === undefined || value === null) return ''
+  if (typeof value === 'object') return JSON.stringify(value, null, 2)
+  return String(value)
+}
+
+export function renderTemplate(template: string, payload: unknown): string {
+  return template.replace(PLACEHOLDER, (_match, path: string) =>
+    stringify(lookup(payload, path)),
+  )
+}
@@ -0,0 +1,194 @@
+import { beforeAll, describe, expect, test } from 'bun:test'
+import { issueEngine } from '@/engines/issue'
+import {
+  cancelPendingApprovals,
+  createApprovalHandler,
+  resolveApproval,
+} from '@/engines/issue/approvals'
+import type { ApprovalPayload } from '@/events/approval-events'
+import { onApprovalRequest, onApprovalResolved } from '@/events/approval-events'
+import {
+  api,
+  createTestIssue,
+  createTestProject,
+  expectError,
+  expectSuccess,
+  get,
+  post,
+} from './helpers'
+/**
+ * Tool approval API tests (supervised mode).
+ */
+import './setup'
+
+let projectId: string
+let issueId: string
+
+beforeAll(async () => {
+  projectId = await createTestProject('Approvals Test Project')
+  const issue = expectSuccess(await createTestIssue(projectId))
+  issueId = issue.id as string
+})
+
+/** Raise a request through the engine-side handler and wait for its broadcast. */
+async function raise(
+  toolName: string,
+  input: unknown = { command: 'ls' },
+  forIssue = issueId,
+) {
+  let approval: ApprovalPayload | undefined
+  const unsub = onApprovalRequest((a) => {
+    approval = a
+  })
+  const handler = createApprovalHandler(forIssue, 'exec-1', 'echo')
+  const decision = handler({ toolName, input, toolCallId: 'call-1' })
+  await Bun.sleep(10)
+  unsub()
+  return { approval, decision }
+}
+
+function approvalsPath(requestId?: string) {
+  const base = `/api/projects/${projectId}/issues/${issueId}/approvals`
+  return requestId ? `${base}/${requestId}` : base
+}
+
+describe('tool approvals', () => {
+  test('request is persisted, broadcast and listed as pending', async () => {
+    const { approval } = await raise('Bash')
+    expect(approval).toBeDefined()
+    expect(approval!.status).toBe('pending')
+    expect(approval!.input).toEqual({ command: 'ls' })
+    expect(approval!.expiresAt).toBeTruthy()
+
+    const pending = expectSuccess(await get<ApprovalPayload[]>(approvalsPath()))
+    expect(pending.map((a) => a.id)).toContain(approval!.id)
+
+    cancelPendingApprovals(issueId)
+  })
+
+  test('resolving unblocks the engine with the decision', async () => {
+    const { approval, decision } = await raise('Bash')
+    let resolved: ApprovalPayload | undefined
+    const unsub = onApprovalResolved((a) => {
+      resolved = a
+    })
+
+    const result = await post<ApprovalPayload>(approvalsPath(approval!.id), {
+      decision: 'deny',
+    })
+    unsub()
+
+    const data = expectSuccess(result)
+    expect(data.status).toBe('denied')
+    expect(data.decision).toBe('deny')
+    expect(await decision).toBe('deny')
+    expect(resolved?.id).toBe(approval!.id)
+
+    const pending = expectSuccess(await get<ApprovalPayload[]>(approvalsPath()))
+    expect(pending).toHaveLength(0)
+  })
+
+  test('answering twice returns 409', async () => {
+    const { approval } = await raise('Bash')
+    await post(approvalsPath(approval!.id), { decision: 'approve' })
+    const again = await post(approvalsPath(approval!.id), {
+      decision: 'approve',
+    })
+    expectError(again, 409)
+  })
+
+  test('unknown request returns 404', async () => {
+    const result = await post(approvalsPath('missing'), { decision: 'approve' })
+    expectError(result, 404)
+  })
+
+  test('invalid decision returns 400', async () => {
+    const { approval } = await raise('Bash')
+    const result = await post(approvalsPath(approval!.id), {
+      decision: 'maybe',
+    })
+    expectError(result, 400)
+    cancelPendingApprovals(issueId)
+  })
+
+  test('always-allow skips later requests for the same tool', async () => {
+    const { approval, decision } = await raise('Write')
+    await post(approvalsPath(approval!.id), { decision: 'always-allow' })
+    expect(await decision).toBe('always-allow')
+
+    const second = await raise('Write')
+    expect(second.approval).toBeUndefined()
+    expect(await second.decision).toBe('approve')
+  })
+
+  test('always-allow ends with the execution and the issue', async () => {
+    const other = expectSuccess(await createTestIssue(projectId)).id as string
+    const requestRead = () => raise('Read', { path: 'a.txt' }, other)
+    const allowAlways = async () => {
+      const { approval } = await requestRead()
+      resolveApproval(approval!.id, 'always-allow')
+    }
+
+    await allowAlways()
+    await issueEngine.cancelIssue(other)
+    expect((await requestRead()).approval).toBeDefined()
+    cancelPendingApprovals(other)
+
+    await allowAlways()
+    expectSuccess(
+      await api('DELETE', `/api/projects/${projectId}/issues/${other}`),
+    )
+    expect((await requestRead()).approval).toBeDefined()
+    cancelPendingApprovals(other)
+  })
+
+  test('cancelling denies pending requests', async () => {
+    const { approval, decision } = await raise('Edit')
+    expect(cancelPendingApprovals(issueId)).toBe(1)
+    expect(await decision).toBe('deny')
+
+    const again = await post(approvalsPath(approval!.id), {
+      decision: 'approve',
+    })
+    expectError(again, 409)
+  })
+
+  test('timeout applies the policy decision', async () => {
+    await api('PUT', '/api/settings/approval-policy', {
+      timeoutSeconds: 1,
+      onTimeout: 'approve',
+    })
+    try {
+      const { approval, decision } = await raise('Bash')
+      expect(await decision).toBe('approve')
+      const again = await post(approvalsPath(approval!.id), {
+        decision: 'deny',
+      })
+      expect(expectError(again, 409)).toContain('timed_out')
+    } finally {
+      await api('PUT', '/api/settings/approval-policy', {
+        timeoutSeconds: 600,
+        onTimeout: 'deny',
+      })
+    }
+  })
+})
+
+describe('/api/settings/approval-policy', () => {
+  test('returns the default policy', async () => {
+    const data = expectSuccess(
+      await get<{ timeoutSeconds: number; onTimeout: string }>(
+        '/api/settings/approval-policy',
+      ),
+    )
+    expect(data).toEqual({ timeoutSeconds: 600, onTimeout: 'deny' })
+  })
+
+  test('rejects an invalid timeout decision', async () => {
+    const result = await api('PUT', '/api/settings/approval-policy', {
+      timeoutSeconds: 10,
+      onTimeout: 'ask',
+    })
+    expect(result.status).toBe(400)
+  })
+})
@@ -0,0 +1,233 @@
+import { afterAll, describe, expect, test } from 'bun:test'
+import app from '@/app'
+import type { AuthUser } from '@/auth'
+import { db } from '@/db'
+import { userSessions, users } from '@/db/schema'
+import { api, expectSuccess, get, patch, post } from './helpers'
+/**
+ * Authentication tests — users, sessions, API_SECRET and the /api/* guard.
+ */
+import './setup'
+
+interface AuthStatus {
+  authEnabled: boolean
+  needsSetup: boolean
+  user: AuthUser | null
+}
+
+interface Session {
+  user: AuthUser
+  token: string
+}
+
+/** Headers that authenticate a request with `token` */
+function bearer(token: string) {
+  return { Authorization: `Bearer ${token}` }
+}
+
+async function login(username: string, password: string) {
+  return expectSuccess(
+    await post<Session>('/api/auth/login', { username, password }),
+  )
+}
+
+// The test DB is shared across files — remove accounts so later files run unauthenticated
+afterAll(() => {
+  db.delete(userSessions).run()
+  db.delete(users).run()
+})
+
+let adminToken: string
+
+describe('auth disabled (no users, no API_SECRET)', () => {
+  test('routes are open and status reports setup needed', async () => {
+    const status = expectSuccess(await get<AuthStatus>('/api/auth/status'))
+    expect(status.authEnabled).toBe(false)
+    expect(status.needsSetup).toBe(true)
+
+    const projects = await get('/api/projects')
+    expect(projects.status).toBe(200)
+  })
+
+  test('user management requires an admin', async () => {
+    const result = await get('/api/auth/users')
+    expect(result.status).toBe(403)
+  })
+})
+
+describe('setup and login', () => {
+  test('setup rejects a short password', async () => {
+    const result = await post('/api/auth/setup', {
+      username: 'admin',
+      password: 'short',
+    })
+    expect(result.status).toBe(400)
+  })
+
+  test('setup creates the first admin and a session cookie', async () => {
+    const result = await post<Session>('/api/auth/setup', {
+      username: 'admin',
+      password: 'correct-horse',
+    })
+    expect(result.status).toBe(201)
+    const session = expectSuccess(result)
+    expect(session.user.role).toBe('admin')
+    expect(session.token).toBeTruthy()
+    expect(result.headers.get('Set-Cookie')).toContain('bitk_session=')
+    expect(result.headers.get('Set-Cookie')).toContain('HttpOnly')
+    adminToken = session.token
+  })
+
+  test('setup cannot run twice', async () => {
+    const result = await post('/api/auth/setup', {
+      username: 'other',
+      password: 'correct-horse',
+    })
+    expect(result.status).toBe(409)
+  })
+
+  test('unauthenticated requests now get 401', async () => {
+    expect((await get('/api/projects')).status).toBe(401)
+    expect((await get('/api/events')).status).toBe(401)
+    expect((await get('/api/terminal/ws/abc')).status).toBe(401)
+  })
+
+  test('health and status stay public', async () => {
+    expect((await get('/api/health')).status).toBe(200)
+    const status = expectSuccess(await get<AuthStatus>('/api/auth/status'))
+    expect(status.authEnabled).toBe(true)
+    expect(status.needsSetup).toBe(false)
+    expect(status.user).toBeNull()
+  })
+
+  test('bearer token and cookie both authenticate', async () => {
+    const viaBearer = expectSuccess(
+      await get<AuthUser>('/api/auth/me', bearer(adminToken)),
+    )
+    expect(viaBearer.username).toBe('admin')
+
+    const viaCookie = await get('/api/projects', {
+      Cookie: `bitk_session=${adminToken}`,
+    })
+    expect(viaCookie.status).toBe(200)
+  })
+
+  test('query token is only accepted for websocket upgrades', async () => {
+    const plain = await get(`/api/projects?token=${adminToken}`)
+    expect(plain.status).toBe(401)
+
+    const res = await app.request(
+      `http://localhost/api/terminal/ws/missing?token=${adminToken}`,
+      { headers: { Upgrade: 'websocket' } },
+    )
+    // Passes auth, then fails the session lookup
+    expect(res.status).toBe(404)
+  })
+
+  test('wrong password is rejected', async () => {
+    const result = await post('/api/auth/login', {
+      username: 'admin',
+      password: 'wrong-password',
+    })
+    expect(result.status).toBe(401)
+  })
+
+  test('logout revokes the session', async () => {
+    const { token } = expectSuccess(
+      await post<Session>('/api/auth/login', {
+        username: 'admin',
+        password: 'correct-horse',
+      }),
+    )
+
+    const logout = await post('/api/auth/logout', undefined, bearer(token))
+    expect(logout.status).toBe(200)
+    expect((await get('/api/auth/me', bearer(token))).status).toBe(401)
+  })
+})
+
+describe('user management', () => {
+  let memberId: string
+
+  test('admin creates a member', async () => {
+    const credentials = { username: 'dev', password: 'member-pass' }
+    const result = await post<AuthUser>(
+      '/api/auth/users',
+      credentials,
+      bearer(adminToken),
+    )
+    expect(result.status).toBe(201)
+    const member = expectSuccess(result)
+    expect(member.role).toBe('member')
+    memberId = member.id
+
+    const dup = await post('/api/auth/users', credentials, bearer(adminToken))
+    expect(dup.status).toBe(409)
+  })
+
+  test('members cannot manage users', async () => {
+    const { token } = await login('dev', 'member-pass')
+    expect((await get('/api/projects', bearer(token))).status).toBe(200)
+    expect((await get('/api/auth/users', bearer(token))).status).toBe(403)
+  })
+
+  test('password change keeps the current session only', async () => {
+    const keep = (await login('dev', 'member-pass')).token
+    const other = (await login('dev', 'member-pass')).token
+
+    const wrong = await patch(
+      '/api/auth/me/password',
+      { currentPassword: 'nope', newPassword: 'new-member-pass' },
+      bearer(keep),
+    )
+    expect(wrong.status).toBe(400)
+
+    const changed = await patch(
+      '/api/auth/me/password',
+      { currentPassword: 'member-pass', newPassword: 'new-member-pass' },
+      bearer(keep),
+    )
+    expect(changed.status).toBe(200)
+    expect((await get('/api/auth/me', bearer(keep))).status).toBe(200)
+    expect((await get('/api/auth/me', bearer(other))).status).toBe(401)
+  })
+
+  test('admin cannot delete themselves; deleting a member revokes access', async () => {
+    const me = expectSuccess(
+      await get<AuthUser>('/api/auth/me', bearer(adminToken)),
+    )
+    const self = await api(
+      'DELETE',
+      `/api/auth/users/${me.id}`,
+      undefined,
+      bearer(adminToken),
+    )
+    expect(self.status).toBe(400)
+
+    const memberToken = (await login('dev', 'new-member-pass')).token
+
+    const removed = await api(
+      'DELETE',
+      `/api/auth/users/${memberId}`,
+      undefined,
+      bearer(adminToken),
+    )
+    expect(removed.status).toBe(200)
+    expect((await get('/api/auth/me', bearer(memberToken))).status).toBe(401)
+  })
+})
+
+describe('API_SECRET', () => {
+  test('acts as an admin bearer token', async () => {
+    const previous = process.env.API_SECRET
+    process.env.API_SECRET = 'test-secret'
+    try {
+      const ok = await get('/api/auth/users', bearer('test-secret'))
+      expect(ok.status).toBe(200)
+      const bad = await get('/api/projects', bearer('nope'))
+      expect(bad.status).toBe(401)
+    } finally {
+      process.env.API_SECRET = previous
+    }
+  })
+})
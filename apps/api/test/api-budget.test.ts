@@ -0,0 +1,227 @@
+import { describe, expect, test } from 'bun:test'
+import { join } from 'node:path'
+import { findViolation, NO_LIMITS } from '@/db/budgets'
+import {
+  api,
+  createScriptProfile,
+  expectError,
+  expectSuccess,
+  fakeClaude,
+  get,
+  patch,
+  post,
+  useTempProject,
+  waitFor,
+} from './helpers'
+/**
+ * Budget tests — limit CRUD, limit evaluation, and stopping a run that
+ * reaches its budget with a distinct stop reason, including an agent that
+ * goes silent past the run time limit.
+ */
+import './setup'
+
+interface Issue {
+  id: string
+  sessionStatus: string | null
+  stopReason: string | null
+}
+
+interface Limits {
+  maxCostUsd: number | null
+  maxTokens: number | null
+  maxTurns: number | null
+  maxDurationSeconds: number | null
+}
+
+interface BudgetStatus {
+  limits: Limits
+  usage: { turns: number; costUsd: number }
+  runSeconds: number
+}
+
+interface LogEntry {
+  entryType: string
+  content: string
+  metadata?: Record<string, unknown>
+}
+
+// Says nothing after the prompt; only an interrupt ends the turn
+const SILENT_CLAUDE = fakeClaude(`
+  if (msg.type === 'control_request' && msg.request.subtype === 'interrupt') {
+    emit({ type: 'result', subtype: 'error_during_execution', is_error: true })
+    process.exit(1)
+  }
+`)
+
+const project = useTempProject('Budget Test')
+
+function issuePath(issueId: string) {
+  return `/api/projects/${project.id}/issues/${issueId}`
+}
+
+async function createIssue(title: string) {
+  return expectSuccess(
+    await post<Issue>(`/api/projects/${project.id}/issues`, {
+      title,
+      statusId: 'todo',
+      engineType: 'echo',
+      model: 'auto',
+    }),
+  )
+}
+
+async function getIssue(issueId: string) {
+  return expectSuccess(await get<Issue>(issuePath(issueId)))
+}
+
+describe('budget limits', () => {
+  test('project budget defaults to no limits and can be replaced', async () => {
+    const initial = expectSuccess(
+      await get<BudgetStatus>(`/api/projects/${project.id}/budget`),
+    )
+    expect(initial.limits).toEqual(NO_LIMITS)
+
+    const limits = { ...NO_LIMITS, maxCostUsd: 50, maxDurationSeconds: 3600 }
+    const res = await api<BudgetStatus>(
+      'PUT',
+      `/api/projects/${project.id}/budget`,
+      limits,
+    )
+    expect(expectSuccess(res).limits).toEqual(limits)
+    const after = expectSuccess(
+      await get<BudgetStatus>(`/api/projects/${project.id}/budget`),
+    )
+    expect(after.limits).toEqual(limits)
+
+    // Clear again so other tests in this file run unconstrained
+    expectSuccess(
+      await api('PUT', `/api/projects/${project.id}/budget`, NO_LIMITS),
+    )
+  })
+
+  test('rejects non-positive limits', async () => {
+    const issue = await createIssue('Invalid budget')
+    const res = await api('PUT', `${issuePath(issue.id)}/budget`, {
+      ...NO_LIMITS,
+      maxTurns: 0,
+    })
+    expectError(res, 400)
+  })
+
+  test('findViolation reports the first reached limit', () => {
+    const usage = {
+      turns: 2,
+      inputTokens: 600,
+      outputTokens: 500,
+      cacheReadTokens: 0,
+      cacheWriteTokens: 0,
+      costUsd: 0.5,
+    }
+    expect(
+      findViolation('issue', { ...NO_LIMITS, maxCostUsd: 1 }, usage, 0),
+    ).toBeNull()
+    expect(
+      findViolation('issue', { ...NO_LIMITS, maxTokens: 1000 }, usage, 0),
+    ).toEqual({ scope: 'issue', kind: 'tokens', limit: 1000, used: 1100 })
+    // Usage-based limits are skipped without usage; wall-clock still applies
+    expect(
+      findViolation(
+        'project',
+        { ...NO_LIMITS, maxTurns: 1, maxDurationSeconds: 60 },
+        null,
+        61,
+      ),
+    ).toEqual({ scope: 'project', kind: 'duration', limit: 60, used: 61 })
+  })
+})
+
+describe('budget enforcement', () => {
+  test('a run that reaches its turn limit settles with a budget reason', async () => {
+    const issue = await createIssue('Limited')
+    expectSuccess(
+      await api('PUT', `${issuePath(issue.id)}/budget`, {
+        ...NO_LIMITS,
+        maxTurns: 1,
+      }),
+    )
+
+    expectSuccess(await patch(issuePath(issue.id), { statusId: 'working' }))
+    await waitFor(
+      async () => (await getIssue(issue.id)).sessionStatus === 'failed',
+      8000,
+    )
+
+    const settled = await getIssue(issue.id)
+    expect(settled.stopReason).toBe('budget:turns')
+
+    const { logs } = expectSuccess(
+      await get<{ logs: LogEntry[] }>(`${issuePath(issue.id)}/logs`),
+    )
+    const notice = logs.find((l) => l.metadata?.subtype === 'budget_exceeded')
+    expect(notice?.metadata?.kind).toBe('turns')
+    expect(notice?.content).toContain('1 turns reached the issue limit of 1')
+
+    // Further turns are refused until the limit is raised
+    const followUp = await post(`${issuePath(issue.id)}/follow-up`, {
+      prompt: 'One more',
+    })
+    expectError(followUp, 400)
+    if (!followUp.json.success) {
+      expect(followUp.json.error).toContain('Budget exceeded')
+    }
+
+    expectSuccess(
+      await api('PUT', `${issuePath(issue.id)}/budget`, {
+        ...NO_LIMITS,
+        maxTurns: 5,
+      }),
+    )
+    expectSuccess(
+      await post(`${issuePath(issue.id)}/follow-up`, { prompt: 'One more' }),
+    )
+    await waitFor(
+      async () => (await getIssue(issue.id)).sessionStatus === 'completed',
+      8000,
+    )
+    expect((await getIssue(issue.id)).stopReason).toBeNull()
+  })
+
+  test('a silent run is stopped at the run time limit', async () => {
+    const profile = await createScriptProfile(
+      join(project.scriptDir, 'claude.ts'),
+      SILENT_CLAUDE,
+      { name: 'Silent Claude', engineType: 'claude-code' },
+    )
+    const issue = expectSuccess(
+      await post<Issue>(`/api/projects/${project.id}/issues`, {
+        title: 'Hangs',
+        statusId: 'todo',
+        engineProfileId: profile.id,
+      }),
+    )
+    expectSuccess(
+      await api('PUT', `${issuePath(issue.id)}/budget`, {
+        ...NO_LIMITS,
+        maxDurationSeconds: 1,
+      }),
+    )
+
+    expectSuccess(await patch(issuePath(issue.id), { statusId: 'working' }))
+    await waitFor(
+      async () => (await getIssue(issue.id)).stopReason === 'budget:duration',
+      8000,
+    )
+
+    // The stopped turn's time counts, so another one is refused outright
+    await waitFor(async () => {
+      const status = expectSuccess(
+        await get<BudgetStatus>(`${issuePath(issue.id)}/budget`),
+      )
+      return status.runSeconds >= 1
+    }, 8000)
+    const followUp = await post(`${issuePath(issue.id)}/follow-up`, {
+      prompt: 'Try again',
+    })
+    expectError(followUp, 400)
+  })
+})
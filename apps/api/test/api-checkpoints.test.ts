@@ -0,0 +1,229 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import {
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { api, expectError, expectSuccess, get, post, waitFor } from './helpers'
+/**
+ * Checkpoint tests — turn-start snapshots as hidden refs, diffs between
+ * them and restoring the workspace, against a throwaway git repository.
+ */
+import './setup'
+
+interface Checkpoint {
+  id: string
+  commit: string
+  label: string
+  createdAt: string
+}
+
+interface CheckpointDiff {
+  files: Array<{
+    path: string
+    status: string
+    additions: number
+    deletions: number
+  }>
+  additions: number
+  deletions: number
+}
+
+let repo: string
+let projectId: string
+
+function git(args: string[], cwd = repo) {
+  const proc = Bun.spawnSync(['git', ...args], { cwd })
+  return proc.stdout.toString().trim()
+}
+
+function checkpointsPath(issueId: string) {
+  return `/api/projects/${projectId}/issues/${issueId}/checkpoints`
+}
+
+async function listCheckpoints(issueId: string) {
+  const data = expectSuccess(
+    await get<{ gitRepo: boolean; checkpoints: Checkpoint[] }>(
+      checkpointsPath(issueId),
+    ),
+  )
+  return data.checkpoints
+}
+
+/** Echo issue whose first turn has completed in the test repository */
+async function runIssue(title: string, useWorktree = false) {
+  const issue = expectSuccess(
+    await post<{ id: string }>(`/api/projects/${projectId}/issues`, {
+      title,
+      statusId: 'working',
+      engineType: 'echo',
+      useWorktree,
+    }),
+  )
+  await waitFor(async () => {
+    const current = expectSuccess(
+      await get<{ sessionStatus: string | null }>(
+        `/api/projects/${projectId}/issues/${issue.id}`,
+      ),
+    )
+    return current.sessionStatus === 'completed'
+  }, 5000)
+  return issue.id
+}
+
+beforeAll(async () => {
+  repo = mkdtempSync(join(tmpdir(), 'bitk-checkpoint-test-'))
+  git(['init', '-q', '-b', 'main'])
+  git(['config', 'user.email', 'test@example.com'])
+  git(['config', 'user.name', 'Test'])
+  writeFileSync(join(repo, 'a.txt'), 'one\ntwo\n')
+  git(['add', 'a.txt'])
+  git(['commit', '-q', '-m', 'init'])
+
+  const project = expectSuccess(
+    await post<{ id: string }>('/api/projects', {
+      name: 'Checkpoint Test',
+      directory: repo,
+    }),
+  )
+  projectId = project.id
+})
+
+afterAll(() => {
+  rmSync(repo, { recursive: true, force: true })
+})
+
+describe('checkpoints', () => {
+  test('snapshots the workspace when a turn starts', async () => {
+    const issueId = await runIssue('Tidy the readme')
+    const [first] = await listCheckpoints(issueId)
+    expect(first!.label).toBe('Tidy the readme')
+    expect(
+      git(['rev-parse', `refs/bitk/checkpoints/${issueId}/${first!.id}`]),
+    ).toBe(first!.commit)
+    // The user's branch and index are untouched
+    expect(git(['rev-list', '--count', 'HEAD'])).toBe('1')
+    expect(git(['status', '--porcelain'])).toBe('')
+  })
+
+  test('diffs checkpoints and restores one', async () => {
+    const issueId = await runIssue('Rewrite a.txt')
+    const [start] = await listCheckpoints(issueId)
+
+    writeFileSync(join(repo, 'a.txt'), 'one\nTWO\nthree\n')
+    writeFileSync(join(repo, 'new.txt'), 'hello\n')
+    const edited = expectSuccess(
+      await post<Checkpoint>(checkpointsPath(issueId), { label: 'Edited' }),
+    )
+
+    const diff = expectSuccess(
+      await get<CheckpointDiff>(
+        `${checkpointsPath(issueId)}/diff?from=${start!.id}&to=${edited.id}`,
+      ),
+    )
+    expect(diff.files).toEqual([
+      { path: 'a.txt', status: 'M', additions: 2, deletions: 1 },
+      { path: 'new.txt', status: 'A', additions: 1, deletions: 0 },
+    ])
+    // Without `to` the diff runs against the current workspace
+    const live = expectSuccess(
+      await get<CheckpointDiff>(
+        `${checkpointsPath(issueId)}/diff?from=${start!.id}`,
+      ),
+    )
+    expect(live.files).toEqual(diff.files)
+    const file = expectSuccess(
+      await get<{ patch: string }>(
+        `${checkpointsPath(issueId)}/diff/file?from=${start!.id}&path=a.txt`,
+      ),
+    )
+    expect(file.patch).toContain('+TWO')
+
+    const restored = expectSuccess(
+      await post<{ restored: Checkpoint; backup: Checkpoint }>(
+        `${checkpointsPath(issueId)}/${start!.id}/restore`,
+        {},
+      ),
+    )
+    expect(restored.restored.id).toBe(start!.id)
+    expect(readFileSync(join(repo, 'a.txt'), 'utf8')).toBe('one\ntwo\n')
+    expect(existsSync(join(repo, 'new.txt'))).toBe(false)
+    expect(git(['status', '--porcelain'])).toBe('')
+
+    // The state before the restore was saved and can be restored in turn
+    expect((await listCheckpoints(issueId)).at(-1)!.id).toBe(restored.backup.id)
+    expectSuccess(
+      await post(
+        `${checkpointsPath(issueId)}/${restored.backup.id}/restore`,
+        {},
+      ),
+    )
+    expect(readFileSync(join(repo, 'new.txt'), 'utf8')).toBe('hello\n')
+    rmSync(join(repo, 'new.txt'))
+    git(['checkout', '--', 'a.txt'])
+  })
+
+  test('rejects unknown checkpoints and bad queries', async () => {
+    const issueId = await runIssue('Nothing to see')
+    const base = checkpointsPath(issueId)
+    const unknown = '01ARZ3NDEKTSV4RRFFQ69G5FAV'
+
+    expectError(await get(`${base}/diff`), 400)
+    expectError(await get(`${base}/diff?from=${unknown}`), 404)
+    expectError(await get(`${base}/diff?from=not-an-id`), 404)
+    expectError(await post(`${base}/${unknown}/restore`, {}), 404)
+    expectError(await get(`${base}/diff/file?from=${unknown}&path=-rf`), 400)
+  })
+
+  test('refs are deleted with the issue or its worktree', async () => {
+    const refs = (issueId: string) =>
+      git(['for-each-ref', `refs/bitk/checkpoints/${issueId}/`])
+    const deleted = await runIssue('Short lived')
+    const worktreeIssue = await runIssue('In a worktree', true)
+    expect(refs(deleted)).not.toBe('')
+    expect(refs(worktreeIssue)).not.toBe('')
+
+    expectSuccess(
+      await api('DELETE', `/api/projects/${projectId}/issues/${deleted}`),
+    )
+    await waitFor(async () => refs(deleted) === '')
+
+    const url = `/api/projects/${projectId}/issues/${worktreeIssue}/worktree`
+    expectSuccess(await api('DELETE', `${url}?force=true`))
+    expect(refs(worktreeIssue)).toBe('')
+  })
+
+  test('reports non-git projects', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'bitk-checkpoint-plain-'))
+    const { id: plainProject } = expectSuccess(
+      await post<{ id: string }>('/api/projects', {
+        name: 'Plain Checkpoints',
+        directory: dir,
+      }),
+    )
+    const issue = expectSuccess(
+      await post<{ id: string }>(`/api/projects/${plainProject}/issues`, {
+        title: 'No repo',
+        statusId: 'todo',
+      }),
+    )
+    const data = expectSuccess(
+      await get<{ gitRepo: boolean; checkpoints: Checkpoint[] }>(
+        `/api/projects/${plainProject}/issues/${issue.id}/checkpoints`,
+      ),
+    )
+    expect(data.gitRepo).toBe(false)
+    expectError(
+      await post(
+        `/api/projects/${plainProject}/issues/${issue.id}/checkpoints`,
+        {},
+      ),
+      400,
+    )
+    rmSync(dir, { recursive: true, force: true })
+  })
+})
@@ -0,0 +1,213 @@
+import { beforeAll, describe, expect, test } from 'bun:test'
+import { existsSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import type { EngineProfile } from '@/engines/types'
+import {
+  createScriptProfile,
+  expectError,
+  expectSuccess,
+  fakeClaude,
+  get,
+  post,
+  useTempProject,
+  waitFor,
+} from './helpers'
+/**
+ * Compare run tests — one prompt on several engine profiles, each a
+ * sub-issue in its own worktree, then keeping one run and dropping the rest.
+ */
+import './setup'
+
+interface Issue {
+  id: string
+  title: string
+  statusId: string
+  parentIssueId: string | null
+  useWorktree: boolean
+  compareRun: boolean
+  compareWinnerId: string | null
+  sessionStatus: string | null
+}
+
+interface Comparison {
+  winnerId: string | null
+  runs: Array<{
+    issue: Issue
+    durationMs: number | null
+    costUsd: number
+    worktree: {
+      hasWorktree: boolean
+      files: Array<{ path: string; status: string }>
+    } | null
+  }>
+}
+
+// Writes $ANSWER to answer.txt in its working directory, then finishes
+const FAKE_CLAUDE = fakeClaude(`
+  if (msg.type !== 'user') continue
+  await Bun.write('answer.txt', process.env.ANSWER + '\\n')
+  reply('Wrote ' + process.env.ANSWER, { total_cost_usd: 0.5 })
+`)
+
+const project = useTempProject('Compare', (dir) => {
+  const git = (args: string[]) => Bun.spawnSync(['git', ...args], { cwd: dir })
+  git(['init', '-q', '-b', 'main'])
+  git(['config', 'user.email', 'test@example.com'])
+  git(['config', 'user.name', 'Test'])
+  writeFileSync(join(dir, 'README.md'), '# Compare\n')
+  git(['add', 'README.md'])
+  git(['commit', '-q', '-m', 'init'])
+})
+let profiles: EngineProfile[]
+
+beforeAll(async () => {
+  const script = join(project.scriptDir, 'claude.ts')
+  profiles = []
+  for (const answer of ['a', 'b']) {
+    profiles.push(
+      await createScriptProfile(script, FAKE_CLAUDE, {
+        name: `Claude ${answer.toUpperCase()}`,
+        engineType: 'claude-code',
+        env: { ANSWER: answer },
+      }),
+    )
+  }
+})
+
+const issuesUrl = () => `/api/projects/${project.id}/issues`
+
+describe('compare runs', () => {
+  test('need two to four runs and a top-level issue', async () => {
+    const parent = expectSuccess(
+      await post<Issue>(issuesUrl(), { title: 'Solo', statusId: 'todo' }),
+    )
+    expectError(
+      await post(`${issuesUrl()}/${parent.id}/compare`, {
+        runs: [{ engineType: 'echo' }],
+      }),
+      400,
+    )
+    const child = expectSuccess(
+      await post<Issue>(issuesUrl(), {
+        title: 'Child',
+        statusId: 'todo',
+        parentIssueId: parent.id,
+      }),
+    )
+    expectError(
+      await post(`${issuesUrl()}/${child.id}/compare`, {
+        runs: [{ engineType: 'echo' }, { engineType: 'echo' }],
+      }),
+      400,
+    )
+    expectError(
+      await post(`${issuesUrl()}/${parent.id}/compare`, {
+        runs: [{ engineProfileId: 'missing' }, { engineType: 'echo' }],
+      }),
+      400,
+    )
+  })
+
+  test('a bad run is rejected before any run is created', async () => {
+    const parent = expectSuccess(
+      await post<Issue>(issuesUrl(), { title: 'Mixed', statusId: 'todo' }),
+    )
+    expectError(
+      await post(`${issuesUrl()}/${parent.id}/compare`, {
+        runs: [
+          { engineType: 'echo' },
+          { engineType: 'codex', engineProfileId: profiles[0]!.id },
+        ],
+      }),
+      400,
+    )
+    const comparison = expectSuccess(
+      await get<Comparison>(`${issuesUrl()}/${parent.id}/compare`),
+    )
+    expect(comparison.runs).toEqual([])
+  })
+
+  test('runs each profile in a worktree and keeps the winner', async () => {
+    const parent = expectSuccess(
+      await post<Issue>(issuesUrl(), {
+        title: 'Write the answer',
+        statusId: 'todo',
+      }),
+    )
+    const runs = expectSuccess(
+      await post<Issue[]>(`${issuesUrl()}/${parent.id}/compare`, {
+        runs: profiles.map((p) => ({ engineProfileId: p.id })),
+      }),
+    )
+    expect(runs.map((run) => run.title)).toEqual([
+      'Write the answer [Claude A]',
+      'Write the answer [Claude B]',
+    ])
+    for (const run of runs) {
+      expect(run).toMatchObject({
+        parentIssueId: parent.id,
+        useWorktree: true,
+        compareRun: true,
+      })
+    }
+
+    const url = `${issuesUrl()}/${parent.id}/compare`
+    let comparison: Comparison = { winnerId: null, runs: [] }
+    await waitFor(async () => {
+      comparison = expectSuccess(await get<Comparison>(url))
+      return comparison.runs.every(
+        (run) =>
+          run.issue.statusId === 'review' &&
+          run.worktree?.files.some((f) => f.path === 'answer.txt'),
+      )
+    }, 15000)
+    expect(comparison.runs[0]!.costUsd).toBe(0.5)
+    expect(comparison.runs[0]!.durationMs).toBeGreaterThanOrEqual(0)
+    for (const [i, run] of runs.entries()) {
+      expect(
+        await Bun.file(
+          join(project.dir, '.bitk', 'worktrees', run.id, 'answer.txt'),
+        ).text(),
+      ).toBe(`${['a', 'b'][i]}\n`)
+    }
+
+    const [winner, loser] = runs
+    // Closing the loser starts what waits on it, as closing it by hand would
+    const dependent = expectSuccess(
+      await post<Issue>(issuesUrl(), {
+        title: 'After the answer',
+        statusId: 'todo',
+        engineType: 'echo',
+        model: 'auto',
+      }),
+    )
+    expectSuccess(
+      await post(`${issuesUrl()}/${dependent.id}/dependencies`, {
+        dependsOnIssueId: loser!.id,
+      }),
+    )
+    const picked = expectSuccess(
+      await post<Comparison>(`${url}/winner`, { issueId: winner!.id }),
+    )
+    expect(picked.winnerId).toBe(winner!.id)
+    const byId = new Map(picked.runs.map((run) => [run.issue.id, run]))
+    expect(byId.get(winner!.id)!.worktree?.hasWorktree).toBe(true)
+    expect(byId.get(loser!.id)!.worktree).toBeNull()
+    expect(byId.get(loser!.id)!.issue.statusId).toBe('done')
+    expect(existsSync(join(project.dir, '.bitk', 'worktrees', loser!.id))).toBe(
+      false,
+    )
+
+    const updated = expectSuccess(
+      await get<Issue>(`${issuesUrl()}/${parent.id}`),
+    )
+    expect(updated.compareWinnerId).toBe(winner!.id)
+    expectError(await post(`${url}/winner`, { issueId: loser!.id }), 409)
+    await waitFor(async () => {
+      const issue = expectSuccess(
+        await get<Issue>(`${issuesUrl()}/${dependent.id}`),
+      )
+      return issue.statusId !== 'todo'
+    })
+  })
+})
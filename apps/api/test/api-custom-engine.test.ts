@@ -0,0 +1,213 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { engineRegistry } from '@/engines/executors'
+import { normalizeCustomLine } from '@/engines/executors/custom'
+import type { EngineProfile } from '@/engines/types'
+import { api, expectError, expectSuccess, get, post, waitFor } from './helpers'
+/**
+ * Custom engine tests — the stdout dialect, runtime configuration, and a
+ * scripted agent that answers over stdin or exits and is resumed.
+ */
+import './setup'
+
+interface LogEntry {
+  entryType: string
+  content: string
+  metadata?: Record<string, unknown>
+}
+
+// Answers each user line; `--once` exits after the first turn
+const AGENT_SCRIPT = `
+const arg = (flag) => {
+  const i = process.argv.indexOf(flag)
+  return i >= 0 ? process.argv[i + 1] : 'none'
+}
+const emit = (line) => console.log(JSON.stringify(line))
+for await (const raw of console) {
+  const msg = JSON.parse(raw)
+  if (msg.type !== 'user') continue
+  emit({ type: 'tool-use', toolName: 'Bash', toolCallId: 't1', content: 'ls',
+    action: { kind: 'command-run', command: 'ls' } })
+  emit({ type: 'assistant-message', content: [
+    'reply:' + msg.content,
+    'session:' + process.env.BITK_SESSION_ID,
+    'resume:' + arg('--resume'),
+    'model:' + arg('--model'),
+  ].join(' ') })
+  emit({ type: 'result', inputTokens: 10, outputTokens: 5 })
+  if (process.argv.includes('--once')) process.exit(0)
+}
+`
+
+let dir: string
+let projectId: string
+
+beforeAll(async () => {
+  dir = mkdtempSync(join(tmpdir(), 'bitk-custom-engine-'))
+  const script = join(dir, 'agent.ts')
+  writeFileSync(script, AGENT_SCRIPT)
+  projectId = expectSuccess(
+    await post<{ id: string }>('/api/projects', {
+      name: 'Custom Engine',
+      directory: dir,
+    }),
+  ).id
+  expectSuccess(
+    await api('PUT', '/api/engines/custom', {
+      command: `${process.execPath} ${script}`,
+      models: [{ id: 'fast', name: 'Fast', isDefault: true }],
+    }),
+  )
+})
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true })
+})
+
+const issueUrl = (issueId: string) =>
+  `/api/projects/${projectId}/issues/${issueId}`
+
+async function waitForTurns(issueId: string, turns: number) {
+  let replies: string[] = []
+  await waitFor(async () => {
+    const data = expectSuccess(
+      await get<{ logs: LogEntry[] }>(`${issueUrl(issueId)}/logs?limit=100`),
+    )
+    replies = data.logs
+      .filter((log) => log.entryType === 'assistant-message')
+      .map((log) => log.content)
+    const issue = expectSuccess(
+      await get<{ sessionStatus: string | null }>(issueUrl(issueId)),
+    )
+    return replies.length >= turns && issue.sessionStatus === 'completed'
+  }, 10000)
+  return replies
+}
+
+async function startIssue(body: Record<string, unknown>) {
+  return expectSuccess(
+    await post<{ id: string }>(`/api/projects/${projectId}/issues`, {
+      statusId: 'working',
+      ...body,
+    }),
+  )
+}
+
+describe('normalizeCustomLine', () => {
+  test('maps dialect lines onto log entries', () => {
+    expect(
+      normalizeCustomLine(
+        '{"type":"assistant-message","content":"Hi","id":"m1"}',
+      ),
+    ).toMatchObject({
+      entryType: 'assistant-message',
+      content: 'Hi',
+      metadata: { messageId: 'm1' },
+    })
+    expect(
+      normalizeCustomLine(
+        '{"type":"tool-use","toolName":"Read","toolCallId":"t1","isResult":true,"content":"x"}',
+      ),
+    ).toMatchObject({
+      entryType: 'tool-use',
+      metadata: { toolName: 'Read', toolCallId: 't1', isResult: true },
+      toolAction: { kind: 'tool', toolName: 'Read' },
+    })
+    expect(normalizeCustomLine('plain text')).toEqual({
+      entryType: 'system-message',
+      content: 'plain text',
+    })
+    expect(normalizeCustomLine('{"type":"user-message"}')).toBeNull()
+    expect(normalizeCustomLine('')).toBeNull()
+  })
+
+  test('ends turns with result lines', () => {
+    expect(
+      normalizeCustomLine(
+        '{"type":"result","inputTokens":3,"costUsd":0.5,"durationMs":10}',
+      ),
+    ).toMatchObject({
+      entryType: 'system-message',
+      metadata: {
+        turnCompleted: true,
+        resultSubtype: 'success',
+        inputTokens: 3,
+        costUsd: 0.5,
+        duration: 10,
+      },
+    })
+    expect(
+      normalizeCustomLine('{"type":"result","isError":true,"content":"boom"}'),
+    ).toMatchObject({
+      entryType: 'error-message',
+      metadata: { resultSubtype: 'error', isError: true, error: 'boom' },
+    })
+  })
+})
+
+describe('custom engine', () => {
+  test('is configured and probed at runtime', async () => {
+    const config = expectSuccess(
+      await get<{ resumeFlag: string }>('/api/engines/custom'),
+    )
+    expect(config.resumeFlag).toBe('--resume')
+    // The registered executor was swapped for one using the command
+    const availability = await engineRegistry.get('custom')!.getAvailability()
+    expect(availability.installed).toBe(true)
+    const models = expectSuccess(
+      await get<{ defaultModel: string }>('/api/engines/custom/models'),
+    )
+    expect(models.defaultModel).toBe('fast')
+
+    expectError(
+      await api('PUT', '/api/engines/custom', {
+        command: 'x',
+        resumeFlag: ';',
+      }),
+      400,
+    )
+  })
+
+  test('sends follow-ups over stdin to a running agent', async () => {
+    const issue = await startIssue({
+      title: 'First task',
+      engineType: 'custom',
+      model: 'fast',
+    })
+    const [first] = await waitForTurns(issue.id, 1)
+    expect(first).toMatch(
+      /^reply:First task session:\S+ resume:none model:fast$/,
+    )
+
+    expectSuccess(
+      await post(`${issueUrl(issue.id)}/follow-up`, { prompt: 'Again' }),
+    )
+    const replies = await waitForTurns(issue.id, 2)
+    // Same process, so no resume flag
+    expect(replies[1]).toMatch(/^reply:Again .* resume:none /)
+  })
+
+  test('resumes agents that exit after a turn', async () => {
+    const profile = expectSuccess(
+      await post<EngineProfile>('/api/engines/profiles', {
+        name: 'One-shot agent',
+        engineType: 'custom',
+        args: ['--once'],
+      }),
+    )
+    const issue = await startIssue({
+      title: 'Once',
+      engineProfileId: profile.id,
+    })
+    const [first] = await waitForTurns(issue.id, 1)
+    const sessionId = first!.match(/session:(\S+)/)![1]
+
+    expectSuccess(
+      await post(`${issueUrl(issue.id)}/follow-up`, { prompt: 'Later' }),
+    )
+    const replies = await waitForTurns(issue.id, 2)
+    expect(replies[1]).toContain(`resume:${sessionId}`)
+  })
+})
@@ -0,0 +1,159 @@
+import { beforeAll, describe, expect, test } from 'bun:test'
+import { registerDependencyPromotion } from '@/engines/dependencies'
+import {
+  api,
+  createTestProject,
+  expectError,
+  expectSuccess,
+  get,
+  patch,
+  post,
+  waitFor,
+} from './helpers'
+/**
+ * Issue dependency tests — edge CRUD, cycle detection and automatic
+ * promotion of unblocked downstream issues when an upstream run completes.
+ */
+import './setup'
+
+interface Issue {
+  id: string
+  statusId: string
+  sessionStatus: string | null
+}
+
+interface Edge {
+  issueId: string
+  dependsOnIssueId: string
+}
+
+let projectId: string
+
+function issuePath(issueId: string) {
+  return `/api/projects/${projectId}/issues/${issueId}`
+}
+
+async function createIssue(title: string) {
+  return expectSuccess(
+    await post<Issue>(`/api/projects/${projectId}/issues`, {
+      title,
+      statusId: 'todo',
+      engineType: 'echo',
+      model: 'auto',
+    }),
+  )
+}
+
+function addEdge(issueId: string, dependsOnIssueId: string) {
+  return post<Edge>(`${issuePath(issueId)}/dependencies`, { dependsOnIssueId })
+}
+
+async function getIssue(issueId: string) {
+  return expectSuccess(await get<Issue>(issuePath(issueId)))
+}
+
+beforeAll(async () => {
+  projectId = await createTestProject('Dependencies Test')
+  registerDependencyPromotion()
+})
+
+describe('dependency edges', () => {
+  test('add, list and remove an edge', async () => {
+    const a = await createIssue('Upstream')
+    const b = await createIssue('Downstream')
+
+    const added = await addEdge(b.id, a.id)
+    expect(added.status).toBe(201)
+    // Adding the same edge again is idempotent
+    expect((await addEdge(b.id, a.id)).status).toBe(200)
+
+    const graph = expectSuccess(
+      await get<{ blockedBy: Issue[]; blocks: Issue[] }>(
+        `${issuePath(b.id)}/dependencies`,
+      ),
+    )
+    expect(graph.blockedBy.map((i) => i.id)).toEqual([a.id])
+    expect(graph.blocks).toEqual([])
+
+    const edges = expectSuccess(
+      await get<Edge[]>(`/api/projects/${projectId}/dependencies`),
+    )
+    expect(edges).toContainEqual({ issueId: b.id, dependsOnIssueId: a.id })
+
+    const path = `${issuePath(b.id)}/dependencies/${a.id}`
+    expectSuccess(await api('DELETE', path))
+    expectError(await api('DELETE', path), 404)
+  })
+
+  test('rejects self-dependencies and cycles', async () => {
+    const a = await createIssue('Cycle A')
+    const b = await createIssue('Cycle B')
+    const c = await createIssue('Cycle C')
+
+    expectError(await addEdge(a.id, a.id), 400)
+    expectSuccess(await addEdge(b.id, a.id))
+    expectSuccess(await addEdge(c.id, b.id))
+    expect(expectError(await addEdge(a.id, c.id), 400)).toContain('cycle')
+  })
+
+  test('rejects upstream issues from another project', async () => {
+    const otherProjectId = await createTestProject('Dependencies Other')
+    const foreign = expectSuccess(
+      await post<Issue>(`/api/projects/${otherProjectId}/issues`, {
+        title: 'Foreign',
+        statusId: 'todo',
+      }),
+    )
+    const local = await createIssue('Local')
+    expectError(await addEdge(local.id, foreign.id), 400)
+  })
+})
+
+describe('downstream promotion', () => {
+  test('completed upstream starts a waiting dependent', async () => {
+    const a = await createIssue('Step 1')
+    const b = await createIssue('Step 2')
+    expectSuccess(await addEdge(b.id, a.id))
+
+    expectSuccess(await patch(issuePath(a.id), { statusId: 'working' }))
+
+    await waitFor(async () => {
+      const issue = await getIssue(b.id)
+      return issue.statusId !== 'todo'
+    }, 8000)
+    // The dependent ran through the execution column like a manual move
+    await waitFor(async () => {
+      const issue = await getIssue(b.id)
+      return issue.statusId === 'review'
+    }, 8000)
+  })
+
+  test('dependents wait for every blocker', async () => {
+    const a = await createIssue('Blocker A')
+    const b = await createIssue('Blocker B')
+    const c = await createIssue('Needs both')
+    expectSuccess(await addEdge(c.id, a.id))
+    expectSuccess(await addEdge(c.id, b.id))
+
+    expectSuccess(await patch(issuePath(a.id), { statusId: 'working' }))
+    await waitFor(
+      async () => (await getIssue(a.id)).statusId === 'review',
+      8000,
+    )
+    // Give the settle callback a moment to run
+    await Bun.sleep(200)
+    expect((await getIssue(c.id)).statusId).toBe('todo')
+
+    expectSuccess(await patch(issuePath(b.id), { statusId: 'working' }))
+    await waitFor(async () => (await getIssue(c.id)).statusId !== 'todo', 8000)
+  })
+
+  test('closing upstream by hand starts a waiting dependent', async () => {
+    const a = await createIssue('Done elsewhere')
+    const b = await createIssue('Follow-up')
+    expectSuccess(await addEdge(b.id, a.id))
+
+    expectSuccess(await patch(issuePath(a.id), { statusId: 'done' }))
+    await waitFor(async () => (await getIssue(b.id)).statusId !== 'todo', 8000)
+  })
+})
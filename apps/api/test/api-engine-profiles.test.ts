@@ -0,0 +1,253 @@
+import { beforeAll, describe, expect, test } from 'bun:test'
+import { applyEngineProfile } from '@/engines/profiles'
+import type {
+  EngineExecutor,
+  EngineProfile,
+  SpawnedProcess,
+  SpawnOptions,
+} from '@/engines/types'
+import {
+  api,
+  createTestProject,
+  expectError,
+  expectSuccess,
+  get,
+  patch,
+  post,
+  waitFor,
+} from './helpers'
+/**
+ * Engine profile tests — CRUD for user-defined profiles, issues that run
+ * with a profile, and how a profile is applied to its engine's spawns.
+ */
+import './setup'
+
+let projectId: string
+
+beforeAll(async () => {
+  projectId = await createTestProject('Engine Profiles')
+})
+
+function createProfile(body: Record<string, unknown>) {
+  return post<EngineProfile>('/api/engines/profiles', body)
+}
+
+describe('engine profile CRUD', () => {
+  test('creates, updates and deletes a profile', async () => {
+    const created = expectSuccess(
+      await createProfile({
+        name: 'Pinned Claude',
+        engineType: 'claude-code',
+        baseCommand: '/opt/claude/1.0.0/bin/claude',
+        args: ['--max-turns', '20'],
+        env: { HTTPS_PROXY: 'http://proxy:3128' },
+      }),
+    )
+    expect(created).toMatchObject({
+      engineType: 'claude-code',
+      protocol: 'stream-json',
+      baseCommand: '/opt/claude/1.0.0/bin/claude',
+      args: ['--max-turns', '20'],
+      env: { HTTPS_PROXY: 'http://proxy:3128' },
+      permissionPolicy: 'auto',
+      builtIn: false,
+    })
+    // Capabilities default to the engine's
+    expect(created.capabilities).toContain('session-fork')
+
+    const profiles = expectSuccess(
+      await get<EngineProfile[]>('/api/engines/profiles'),
+    )
+    expect(profiles.find((p) => p.id === 'claude-code')?.builtIn).toBe(true)
+    expect(profiles.some((p) => p.id === created.id)).toBe(true)
+
+    const updated = expectSuccess(
+      await patch<EngineProfile>(`/api/engines/profiles/${created.id}`, {
+        defaultModel: 'claude-opus-4-6',
+        permissionPolicy: 'supervised',
+        capabilities: ['context-usage'],
+      }),
+    )
+    expect(updated.defaultModel).toBe('claude-opus-4-6')
+    expect(updated.permissionPolicy).toBe('supervised')
+    expect(updated.capabilities).toEqual(['context-usage'])
+    expect(updated.args).toEqual(['--max-turns', '20'])
+
+    expectSuccess(await api('DELETE', `/api/engines/profiles/${created.id}`))
+    expectError(
+      await patch(`/api/engines/profiles/${created.id}`, { name: 'Gone' }),
+      404,
+    )
+  })
+
+  test('defaults the command to the built-in one', async () => {
+    const created = expectSuccess(
+      await createProfile({ name: 'Tuned Codex', engineType: 'codex' }),
+    )
+    expect(created.baseCommand).toBe('npx -y @openai/codex@latest')
+  })
+
+  test('rejects invalid profiles and built-in changes', async () => {
+    expectError(
+      await createProfile({ name: 'Bad', engineType: 'unknown' }),
+      400,
+    )
+    expectError(
+      await createProfile({
+        name: 'Bad env',
+        engineType: 'echo',
+        env: { 'NOT-VALID': 'x' },
+      }),
+      400,
+    )
+    expectError(await patch('/api/engines/profiles/echo', { name: 'X' }), 400)
+    expectError(await api('DELETE', '/api/engines/profiles/codex'), 400)
+  })
+})
+
+describe('issues with a profile', () => {
+  test('take engine and default model from the profile', async () => {
+    const profile = expectSuccess(
+      await createProfile({
+        name: 'Echo variant',
+        engineType: 'echo',
+        defaultModel: 'echo-tuned',
+      }),
+    )
+    const issue = expectSuccess(
+      await post<Record<string, unknown>>(`/api/projects/${projectId}/issues`, {
+        title: 'Profiled',
+        statusId: 'todo',
+        engineProfileId: profile.id,
+      }),
+    )
+    expect(issue.engineType).toBe('echo')
+    expect(issue.engineProfileId).toBe(profile.id)
+    expect(issue.model).toBe('echo-tuned')
+
+    // Built-in ids pick the bare engine
+    const builtIn = expectSuccess(
+      await post<Record<string, unknown>>(`/api/projects/${projectId}/issues`, {
+        title: 'Built-in',
+        statusId: 'todo',
+        engineProfileId: 'echo',
+      }),
+    )
+    expect(builtIn.engineType).toBe('echo')
+    expect(builtIn.engineProfileId).toBeNull()
+  })
+
+  test('run through the profile', async () => {
+    const profile = expectSuccess(
+      await createProfile({ name: 'Echo runner', engineType: 'echo' }),
+    )
+    const issue = expectSuccess(
+      await post<{ id: string }>(`/api/projects/${projectId}/issues`, {
+        title: 'Run me',
+        statusId: 'working',
+        engineProfileId: profile.id,
+      }),
+    )
+    await waitFor(async () => {
+      const current = expectSuccess(
+        await get<{ sessionStatus: string | null }>(
+          `/api/projects/${projectId}/issues/${issue.id}`,
+        ),
+      )
+      return current.sessionStatus === 'completed'
+    }, 5000)
+    const current = expectSuccess(
+      await get<{ engineProfileId: string | null }>(
+        `/api/projects/${projectId}/issues/${issue.id}`,
+      ),
+    )
+    expect(current.engineProfileId).toBe(profile.id!)
+  })
+
+  test('rejects unknown or mismatched profiles', async () => {
+    const path = `/api/projects/${projectId}/issues`
+    expectError(
+      await post(path, {
+        title: 'x',
+        statusId: 'todo',
+        engineProfileId: 'missing1',
+      }),
+      400,
+    )
+    expectError(
+      await post(path, {
+        title: 'x',
+        statusId: 'todo',
+        engineType: 'codex',
+        engineProfileId: 'echo',
+      }),
+      400,
+    )
+  })
+})
+
+describe('applyEngineProfile', () => {
+  function fakeExecutor(calls: SpawnOptions[]): EngineExecutor {
+    const spawn = async (options: SpawnOptions) => {
+      calls.push(options)
+      return {} as SpawnedProcess
+    }
+    return {
+      engineType: 'claude-code',
+      protocol: 'stream-json',
+      capabilities: ['session-fork', 'context-usage'],
+      spawn,
+      spawnFollowUp: spawn,
+      cancel: async () => {},
+      getAvailability: async () => ({
+        engineType: 'claude-code',
+        installed: true,
+        authStatus: 'unknown',
+      }),
+      getModels: async () => [],
+      normalizeLog: () => null,
+    }
+  }
+
+  const profile: EngineProfile = {
+    id: 'pinned01',
+    engineType: 'claude-code',
+    name: 'Pinned',
+    baseCommand: '/opt/claude',
+    protocol: 'stream-json',
+    capabilities: ['context-usage', 'plan-mode'],
+    defaultModel: 'claude-sonnet-4-6',
+    permissionPolicy: 'auto',
+    args: ['--verbose'],
+    env: { HTTPS_PROXY: 'http://proxy', SHARED: 'profile' },
+    builtIn: false,
+  }
+
+  test('injects command, args, env and model into spawns', async () => {
+    const calls: SpawnOptions[] = []
+    const executor = applyEngineProfile(fakeExecutor(calls), profile)
+    await executor.spawn(
+      { workingDir: '/tmp', prompt: 'hi', env: { SHARED: 'caller' } },
+      { vars: {}, workingDir: '/tmp' },
+    )
+    await executor.spawnFollowUp(
+      { workingDir: '/tmp', prompt: 'again', sessionId: 's', model: 'x' },
+      { vars: {}, workingDir: '/tmp' },
+    )
+    expect(calls[0]).toMatchObject({
+      baseCommand: '/opt/claude',
+      extraArgs: ['--verbose'],
+      env: { HTTPS_PROXY: 'http://proxy', SHARED: 'caller' },
+      model: 'claude-sonnet-4-6',
+    })
+    expect(calls[1]!.model).toBe('x')
+    // Capabilities narrow to those the engine actually has
+    expect(executor.capabilities).toEqual(['context-usage'])
+    expect(executor.engineType).toBe('claude-code')
+  })
+
+  test('leaves executors alone for built-in profiles', () => {
+    const base = fakeExecutor([])
+    expect(applyEngineProfile(base, { ...profile, builtIn: true })).toBe(base)
+  })
+})
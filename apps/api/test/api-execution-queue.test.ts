@@ -0,0 +1,163 @@
+import { beforeAll, describe, expect, test } from 'bun:test'
+import { enqueueExecution, listQueue } from '@/db/execution-queue'
+import {
+  api,
+  createTestIssue,
+  createTestProject,
+  expectError,
+  expectSuccess,
+  get,
+  patch,
+} from './helpers'
+/**
+ * Execution queue tests — priority ordering, reordering and removal through
+ * the API, plus a bulk move into Working that exceeds the concurrency cap.
+ */
+import './setup'
+
+interface QueuedExecution {
+  issueId: string
+  projectId: string
+  priority: string
+  position: number
+}
+
+interface Issue {
+  id: string
+  statusId: string
+  sessionStatus: string | null
+}
+
+let projectId: string
+
+async function createIssue(title: string, priority = 'medium') {
+  const issue = expectSuccess(
+    await createTestIssue(projectId, { title, priority }),
+  ) as unknown as Issue
+  return issue.id
+}
+
+async function queuedIds() {
+  const queue = expectSuccess(
+    await get<QueuedExecution[]>('/api/execution-queue'),
+  )
+  return queue.filter((q) => q.projectId === projectId).map((q) => q.issueId)
+}
+
+function enqueue(issueId: string) {
+  return enqueueExecution({
+    issueId,
+    projectId,
+    engineType: 'echo',
+    prompt: 'queued',
+  })
+}
+
+beforeAll(async () => {
+  projectId = await createTestProject('Queue Project')
+})
+
+describe('Queue ordering', () => {
+  test('orders by priority, then by arrival', async () => {
+    const low = await createIssue('low', 'low')
+    const medium1 = await createIssue('medium 1')
+    const urgent = await createIssue('urgent', 'urgent')
+    const medium2 = await createIssue('medium 2')
+    const high = await createIssue('high', 'high')
+    for (const id of [low, medium1, urgent, medium2, high]) {
+      await enqueue(id)
+    }
+
+    expect(await queuedIds()).toEqual([urgent, high, medium1, medium2, low])
+    const queue = await listQueue()
+    expect(queue.map((q) => q.position)).toEqual([1, 2, 3, 4, 5])
+
+    // Re-queueing keeps the existing place
+    await enqueue(medium1)
+    expect(await queuedIds()).toEqual([urgent, high, medium1, medium2, low])
+
+    for (const id of [low, medium1, urgent, medium2, high]) {
+      expectSuccess(await api('DELETE', `/api/execution-queue/${id}`))
+    }
+    expect(await queuedIds()).toEqual([])
+  })
+
+  test('reorders a subset and keeps the other entries in place', async () => {
+    const a = await createIssue('a')
+    const b = await createIssue('b')
+    const c = await createIssue('c')
+    const d = await createIssue('d')
+    for (const id of [a, b, c, d]) await enqueue(id)
+
+    const reordered = expectSuccess(
+      await api<QueuedExecution[]>('PUT', '/api/execution-queue', {
+        issueIds: [d, b],
+      }),
+    )
+    expect(
+      reordered.filter((q) => q.projectId === projectId).map((q) => q.issueId),
+    ).toEqual([a, d, c, b])
+
+    for (const id of [a, b, c, d]) {
+      expectSuccess(await api('DELETE', `/api/execution-queue/${id}`))
+    }
+  })
+
+  test('rejects unknown or duplicate ids', async () => {
+    const a = await createIssue('dup')
+    await enqueue(a)
+    expectError(
+      await api('PUT', '/api/execution-queue', { issueIds: [a, a] }),
+      400,
+    )
+    expectError(
+      await api('PUT', '/api/execution-queue', { issueIds: [a, 'nope'] }),
+      400,
+    )
+    expectSuccess(await api('DELETE', `/api/execution-queue/${a}`))
+    expectError(await api('DELETE', `/api/execution-queue/${a}`), 404)
+  })
+
+  test('moving a queued issue out of the execution column dequeues it', async () => {
+    const id = await createIssue('leaves working')
+    await enqueue(id)
+    expectSuccess(
+      await patch(`/api/projects/${projectId}/issues/${id}`, {
+        statusId: 'todo',
+      }),
+    )
+    await Bun.sleep(50)
+    expect(await queuedIds()).not.toContain(id)
+  })
+})
+
+describe('Concurrency cap', () => {
+  test('moving more issues into Working than there are slots runs them all', async () => {
+    const ids: string[] = []
+    for (let i = 0; i < 10; i++) ids.push(await createIssue(`bulk ${i}`))
+
+    expectSuccess(
+      await patch(`/api/projects/${projectId}/issues/bulk`, {
+        updates: ids.map((id) => ({ id, statusId: 'working' })),
+      }),
+    )
+
+    const deadline = Date.now() + 30000
+    let issues: Issue[] = []
+    while (Date.now() < deadline) {
+      issues = await Promise.all(
+        ids.map(async (id) =>
+          expectSuccess(
+            await get<Issue>(`/api/projects/${projectId}/issues/${id}`),
+          ),
+        ),
+      )
+      if (issues.every((i) => i.sessionStatus === 'completed')) break
+      await Bun.sleep(200)
+    }
+    expect(issues.map((i) => i.sessionStatus)).toEqual(
+      ids.map(() => 'completed'),
+    )
+    expect(await queuedIds()).toEqual([])
+  }, 40000)
+})
@@ -0,0 +1,256 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { and, asc, eq } from 'drizzle-orm'
+import { monotonicFactory } from 'ulid'
+import { db } from '@/db'
+import { issueLogs } from '@/db/schema'
+import { MAX_CONCURRENT_EXECUTIONS } from '@/engines/issue/constants'
+import type { EngineProfile } from '@/engines/types'
+import {
+  api,
+  createTestIssue,
+  createTestProject,
+  expectError,
+  expectSuccess,
+  get,
+  post,
+  waitFor,
+} from './helpers'
+/**
+ * Fork tests — a sub-issue copies the transcript up to an assistant message
+ * and continues from it (echo has no native fork, so the run replays it),
+ * waiting in the execution queue when every slot is taken.
+ */
+import './setup'
+
+interface Issue {
+  id: string
+  parentIssueId: string | null
+  title: string
+  sessionStatus: string | null
+  engineType: string | null
+  [key: string]: unknown
+}
+
+// Holds its slot without a word until it is interrupted
+const SILENT_CLAUDE = `
+for await (const raw of console) {
+  const msg = JSON.parse(raw)
+  if (msg.type === 'control_request' && msg.request.subtype === 'interrupt') {
+    process.exit(1)
+  }
+}
+`
+
+let projectId: string
+let dir: string
+// Seeded in one burst; keep ULID (transcript) order within a millisecond
+const nextId = monotonicFactory()
+
+beforeAll(async () => {
+  projectId = await createTestProject('Fork Test Project')
+  dir = mkdtempSync(join(tmpdir(), 'bitk-fork-'))
+})
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true })
+})
+
+async function seedConversation() {
+  const issue = expectSuccess(
+    await createTestIssue(projectId, {
+      title: 'Pick a cache',
+      statusId: 'todo',
+      engineType: 'echo',
+    }),
+  ) as Issue
+  const ids: string[] = []
+  for (const [entryType, content] of [
+    ['user-message', 'Which cache should we use?'],
+    ['assistant-message', 'Redis fits the access pattern.'],
+    ['user-message', 'What about memcached?'],
+    ['assistant-message', 'Memcached lacks persistence.'],
+  ] as const) {
+    const [row] = await db
+      .insert(issueLogs)
+      .values({
+        id: nextId(),
+        issueId: issue.id,
+        entryType,
+        content,
+        entryIndex: 0,
+      })
+      .returning()
+    ids.push(row!.id)
+  }
+  return { issue, ids }
+}
+
+function forkUrl(issueId: string) {
+  return `/api/projects/${projectId}/issues/${issueId}/fork`
+}
+
+function logsOf(issueId: string) {
+  return db
+    .select()
+    .from(issueLogs)
+    .where(and(eq(issueLogs.issueId, issueId), eq(issueLogs.visible, 1)))
+    .orderBy(asc(issueLogs.id))
+}
+
+describe('POST /api/projects/:projectId/issues/:id/fork', () => {
+  test('creates a sub-issue that continues from the chosen message', async () => {
+    const { issue, ids } = await seedConversation()
+    const result = await post<Issue>(forkUrl(issue.id), {
+      messageId: ids[1],
+      prompt: 'Compare Redis with Valkey',
+    })
+    expect(result.status).toBe(202)
+    const child = expectSuccess(result)
+    expect(child.parentIssueId).toBe(issue.id)
+    expect(child.title).toBe('Pick a cache (fork)')
+    expect(child.engineType).toBe('echo')
+
+    await waitFor(async () => {
+      const current = expectSuccess(
+        await get<Issue>(`/api/projects/${projectId}/issues/${child.id}`),
+      )
+      return current.sessionStatus === 'completed'
+    }, 5000)
+
+    const logs = await logsOf(child.id)
+    const messages = logs.filter(
+      (log) =>
+        log.entryType === 'user-message' ||
+        log.entryType === 'assistant-message',
+    )
+    expect(messages.slice(0, 3).map((log) => log.content)).toEqual([
+      'Which cache should we use?',
+      'Redis fits the access pattern.',
+      'Compare Redis with Valkey',
+    ])
+    expect(logs.some((log) => log.content.includes('memcached'))).toBe(false)
+
+    // Echo replies with its prompt: the replayed transcript plus the new message
+    const reply = messages[3]!.content
+    expect(reply).toContain('Assistant: Redis fits the access pattern.')
+    expect(reply).toContain('Compare Redis with Valkey')
+
+    // The source transcript is untouched
+    expect((await logsOf(issue.id)).length).toBe(4)
+  })
+
+  test('forks of a sub-issue become its siblings', async () => {
+    const { issue, ids } = await seedConversation()
+    const child = expectSuccess(
+      await post<Issue>(forkUrl(issue.id), {
+        messageId: ids[1],
+        prompt: 'First branch',
+        title: 'Branch one',
+      }),
+    )
+    expect(child.title).toBe('Branch one')
+    await waitFor(async () => {
+      const current = expectSuccess(
+        await get<Issue>(`/api/projects/${projectId}/issues/${child.id}`),
+      )
+      return current.sessionStatus === 'completed'
+    }, 5000)
+
+    const [copied] = (await logsOf(child.id)).filter(
+      (log) => log.entryType === 'assistant-message',
+    )
+    const grandchild = expectSuccess(
+      await post<Issue>(forkUrl(child.id), {
+        messageId: copied!.id,
+        prompt: 'Second branch',
+      }),
+    )
+    expect(grandchild.parentIssueId).toBe(issue.id)
+  })
+
+  test('waits in the execution queue when every slot is taken', async () => {
+    const script = join(dir, 'claude.ts')
+    writeFileSync(script, SILENT_CLAUDE)
+    const profile = expectSuccess(
+      await post<EngineProfile>('/api/engines/profiles', {
+        name: 'Busy Claude',
+        engineType: 'claude-code',
+        baseCommand: `${process.execPath} ${script}`,
+      }),
+    )
+    const busy: string[] = []
+    for (let i = 0; i < MAX_CONCURRENT_EXECUTIONS; i++) {
+      const issue = expectSuccess(
+        await post<Issue>(`/api/projects/${projectId}/issues`, {
+          title: `Busy ${i}`,
+          statusId: 'working',
+          engineProfileId: profile.id,
+        }),
+      )
+      busy.push(issue.id)
+    }
+    const issueUrl = (id: string) => `/api/projects/${projectId}/issues/${id}`
+    await waitFor(async () => {
+      const issues = await Promise.all(
+        busy.map(async (id) => expectSuccess(await get<Issue>(issueUrl(id)))),
+      )
+      return issues.every((issue) => issue.sessionStatus === 'running')
+    }, 10000)
+
+    try {
+      const { issue, ids } = await seedConversation()
+      const result = await post<Issue>(forkUrl(issue.id), {
+        messageId: ids[1],
+        prompt: 'Queued branch',
+      })
+      expect(result.status).toBe(202)
+      const child = expectSuccess(result)
+      const queue = expectSuccess(
+        await get<Array<{ issueId: string }>>('/api/execution-queue'),
+      )
+      expect(queue.map((q) => q.issueId)).toContain(child.id)
+      expect(
+        expectSuccess(await get<Issue>(issueUrl(child.id))).sessionStatus,
+      ).toBe('pending')
+
+      // A freed slot starts the fork from its copied transcript
+      expectSuccess(await post(`${issueUrl(busy[0]!)}/cancel`, {}))
+      await waitFor(
+        async () =>
+          expectSuccess(await get<Issue>(issueUrl(child.id))).sessionStatus ===
+          'completed',
+        10000,
+      )
+      const messages = (await logsOf(child.id)).filter(
+        (log) => log.entryType === 'assistant-message',
+      )
+      expect(messages.at(-1)?.content).toContain(
+        'Assistant: Redis fits the access pattern.',
+      )
+    } finally {
+      for (const id of busy) await api('POST', `${issueUrl(id)}/cancel`, {})
+    }
+  }, 30000)
+
+  test('rejects messages that cannot be forked', async () => {
+    const { issue, ids } = await seedConversation()
+    const other = await seedConversation()
+
+    expectError(
+      await post(forkUrl(issue.id), { messageId: ids[0], prompt: 'x' }),
+      400,
+    )
+    expectError(
+      await post(forkUrl(issue.id), { messageId: other.ids[1], prompt: 'x' }),
+      404,
+    )
+    expectError(await post(forkUrl(issue.id), { messageId: ids[1] }), 400)
+    expectError(
+      await post(forkUrl('missing'), { messageId: ids[1], prompt: 'x' }),
+      404,
+    )
+  })
+})
@@ -0,0 +1,209 @@
+import { describe, expect, test } from 'bun:test'
+import { join } from 'node:path'
+import {
+  api,
+  createScriptProfile,
+  expectError,
+  expectSuccess,
+  fakeClaude,
+  get,
+  patch,
+  post,
+  useTempProject,
+  waitFor,
+} from './helpers'
+/**
+ * Guardrail tests — CRUD per project and enforcement at the permission
+ * requests of a Claude process (played by a script that asks to push).
+ */
+import './setup'
+
+interface Guardrail {
+  id: string
+  kind: string
+  pattern: string
+  action: string
+  enabled: boolean
+}
+
+interface LogEntry {
+  entryType: string
+  content: string
+  metadata?: Record<string, unknown>
+}
+
+// Asks to run `git push`, then reports the answer and its permission flags
+const FAKE_CLAUDE = fakeClaude(
+  `
+  if (msg.type === 'user' && !asked) {
+    asked = true
+    emit({ type: 'control_request', request_id: 'r1', request: {
+      subtype: 'can_use_tool', tool_name: 'Bash', tool_use_id: 'toolu_1',
+      input: { command: 'git push origin main' } } })
+    continue
+  }
+  if (msg.type !== 'control_response') continue
+  const { behavior } = msg.response.response
+  reply(JSON.stringify({ behavior, skips }))
+`,
+  `
+const skips = process.argv.includes('--dangerously-skip-permissions')
+let asked = false
+`,
+)
+
+// Reads .env through the PreToolUse hook BitK registers, as Claude does for
+// calls it would not ask permission for, then reports the hook's decision
+const HOOKED_CLAUDE = fakeClaude(
+  `
+  if (msg.type === 'control_request' && msg.request.subtype === 'initialize') {
+    hookId = msg.request.hooks.PreToolUse[0].hookCallbackIds[0]
+    continue
+  }
+  if (msg.type === 'user') {
+    emit({ type: 'control_request', request_id: 'h1', request: {
+      subtype: 'hook_callback', callback_id: hookId, tool_use_id: 'toolu_2',
+      input: { hook_event_name: 'PreToolUse', tool_name: 'Read',
+        tool_use_id: 'toolu_2', tool_input: { file_path: process.cwd() + '/.env' } } } })
+    continue
+  }
+  if (msg.type !== 'control_response') continue
+  const output = msg.response.response.hookSpecificOutput ?? {}
+  reply(JSON.stringify({ hookId, decision: output.permissionDecision ?? null }))
+`,
+  'let hookId = null',
+)
+
+const project = useTempProject('Guardrails')
+
+const guardrailsUrl = () => `/api/projects/${project.id}/guardrails`
+
+describe('guardrail CRUD', () => {
+  test('creates, updates and deletes a rule', async () => {
+    const created = expectSuccess(
+      await post<Guardrail>(guardrailsUrl(), {
+        kind: 'path',
+        pattern: '.env*',
+      }),
+    )
+    expect(created).toMatchObject({
+      kind: 'path',
+      pattern: '.env*',
+      action: 'deny',
+      enabled: true,
+    })
+
+    const updated = expectSuccess(
+      await patch<Guardrail>(`${guardrailsUrl()}/${created.id}`, {
+        action: 'allow',
+        enabled: false,
+      }),
+    )
+    expect(updated).toMatchObject({ action: 'allow', enabled: false })
+
+    expectSuccess(await api('DELETE', `${guardrailsUrl()}/${created.id}`))
+    expect(expectSuccess(await get<Guardrail[]>(guardrailsUrl()))).toEqual([])
+  })
+
+  test('rejects unknown kinds and empty patterns', async () => {
+    expectError(
+      await post(guardrailsUrl(), { kind: 'network', pattern: 'x' }),
+      400,
+    )
+    expectError(
+      await post(guardrailsUrl(), { kind: 'command', pattern: '  ' }),
+      400,
+    )
+    expectError(await patch(`${guardrailsUrl()}/missing`, {}), 404)
+  })
+})
+
+describe('agent processes', () => {
+  test('Claude is denied a matching command and the block is logged', async () => {
+    expectSuccess(
+      await post(guardrailsUrl(), { kind: 'command', pattern: 'git push' }),
+    )
+    const profile = await createScriptProfile(
+      join(project.scriptDir, 'claude.ts'),
+      FAKE_CLAUDE,
+      { name: 'Guarded Claude', engineType: 'claude-code' },
+    )
+    const issue = expectSuccess(
+      await post<{ id: string }>(`/api/projects/${project.id}/issues`, {
+        title: 'Ship it',
+        statusId: 'working',
+        engineProfileId: profile.id,
+      }),
+    )
+
+    let logs: LogEntry[] = []
+    await waitFor(async () => {
+      const data = expectSuccess(
+        await get<{ logs: LogEntry[] }>(
+          `/api/projects/${project.id}/issues/${issue.id}/logs?limit=100`,
+        ),
+      )
+      logs = data.logs
+      return logs.some((log) => log.entryType === 'assistant-message')
+    }, 10000)
+
+    const reply = logs.find((log) => log.entryType === 'assistant-message')
+    expect(JSON.parse(reply!.content)).toEqual({
+      behavior: 'deny',
+      skips: false,
+    })
+    const blocked = logs.find((log) => log.entryType === 'error-message')
+    expect(blocked?.content).toBe(
+      'Blocked by guardrail: Bash (git push origin main) matches command rule "git push"',
+    )
+    expect(blocked?.metadata).toMatchObject({
+      subtype: 'guardrail_denied',
+      toolName: 'Bash',
+      toolCallId: 'toolu_1',
+      kind: 'command',
+    })
+  })
+
+  test('Claude reads unprompted in auto mode are checked by a hook', async () => {
+    expectSuccess(
+      await post(guardrailsUrl(), { kind: 'path', pattern: '**/.env' }),
+    )
+    const profile = await createScriptProfile(
+      join(project.scriptDir, 'hooked-claude.ts'),
+      HOOKED_CLAUDE,
+      { name: 'Hooked Claude', engineType: 'claude-code' },
+    )
+    const issue = expectSuccess(
+      await post<{ id: string }>(`/api/projects/${project.id}/issues`, {
+        title: 'Read the secrets',
+        statusId: 'working',
+        engineProfileId: profile.id,
+        permissionMode: 'auto',
+      }),
+    )
+
+    let logs: LogEntry[] = []
+    await waitFor(async () => {
+      const data = expectSuccess(
+        await get<{ logs: LogEntry[] }>(
+          `/api/projects/${project.id}/issues/${issue.id}/logs?limit=100`,
+        ),
+      )
+      logs = data.logs
+      return logs.some((log) => log.entryType === 'assistant-message')
+    }, 10000)
+
+    const reply = logs.find((log) => log.entryType === 'assistant-message')
+    expect(JSON.parse(reply!.content)).toEqual({
+      hookId: expect.any(String),
+      decision: 'deny',
+    })
+    const blocked = logs.find((log) => log.entryType === 'error-message')
+    expect(blocked?.metadata).toMatchObject({
+      subtype: 'guardrail_denied',
+      toolName: 'Read',
+      toolCallId: 'toolu_2',
+      kind: 'path',
+    })
+  })
+})
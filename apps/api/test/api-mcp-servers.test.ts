@@ -0,0 +1,209 @@
+import { describe, expect, test } from 'bun:test'
+import { existsSync, readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { resolveMcpServers } from '@/db/mcp-servers'
+import {
+  api,
+  createScriptProfile,
+  expectError,
+  expectSuccess,
+  fakeClaude,
+  get,
+  patch,
+  post,
+  useTempProject,
+  waitFor,
+} from './helpers'
+/**
+ * MCP server tests — CRUD per project, the `--mcp-config` file handed
+ * to a Claude process (played by a script that echoes it back) and the
+ * servers Codex is told to start (played by a script that starts them).
+ */
+import './setup'
+
+interface McpServer {
+  id: string
+  name: string
+  command: string
+  args: string[]
+  env: Record<string, null>
+  enabled: boolean
+}
+
+interface LogEntry {
+  entryType: string
+  content: string
+}
+
+// Answers the first user message with the contents of --mcp-config
+const FAKE_CLAUDE = fakeClaude(
+  `if (msg.type === 'user') reply(config)`,
+  `
+const flag = process.argv.find((arg) => arg.startsWith('--mcp-config='))
+const config = flag ? await Bun.file(flag.split('=')[1]).text() : 'none'
+`,
+)
+
+// Starts the \`docs\` server from its \`-c mcp_servers.docs.*\` overrides and
+// records what the server printed along with its own argv
+const fakeCodex = (out: string) => `
+const argv = process.argv.slice(2)
+const override = (field) => {
+  const flag = argv.find((arg) => arg.startsWith('mcp_servers.docs.' + field + '='))
+  return JSON.parse(flag.slice(flag.indexOf('=') + 1))
+}
+const server = Bun.spawnSync([override('command'), ...override('args')])
+await Bun.write(${JSON.stringify(out)}, JSON.stringify({
+  argv, output: server.stdout.toString().trim(),
+}))
+process.exit(1)
+`
+
+const project = useTempProject('MCP Servers')
+
+const serversUrl = () => `/api/projects/${project.id}/mcp-servers`
+
+describe('MCP server CRUD', () => {
+  test('creates, updates and deletes a server', async () => {
+    const created = expectSuccess(
+      await post<McpServer>(serversUrl(), {
+        name: 'docs',
+        command: 'npx',
+        args: ['-y', '@acme/docs-mcp'],
+        env: { DOCS_TOKEN: 't0k' },
+      }),
+    )
+    expect(created).toMatchObject({
+      name: 'docs',
+      args: ['-y', '@acme/docs-mcp'],
+      env: { DOCS_TOKEN: null },
+      enabled: true,
+    })
+
+    const updated = expectSuccess(
+      await patch<McpServer>(`${serversUrl()}/${created.id}`, {
+        enabled: false,
+        args: ['@acme/docs-mcp@2'],
+      }),
+    )
+    expect(updated).toMatchObject({
+      enabled: false,
+      args: ['@acme/docs-mcp@2'],
+    })
+
+    expectSuccess(await api('DELETE', `${serversUrl()}/${created.id}`))
+    expect(expectSuccess(await get<McpServer[]>(serversUrl()))).toEqual([])
+  })
+
+  test('env values are write-only and kept when sent back as null', async () => {
+    const created = expectSuccess(
+      await post<McpServer>(serversUrl(), {
+        name: 'wiki',
+        command: 'wiki-mcp',
+        env: { WIKI_TOKEN: 'w1k1', WIKI_URL: 'https://wiki' },
+      }),
+    )
+    const listed = expectSuccess(await get<McpServer[]>(serversUrl()))
+    expect(listed[0]!.env).toEqual({ WIKI_TOKEN: null, WIKI_URL: null })
+
+    expectError(
+      await patch(`${serversUrl()}/${created.id}`, {
+        env: { UNKNOWN: null },
+      }),
+      400,
+    )
+    const updated = expectSuccess(
+      await patch<McpServer>(`${serversUrl()}/${created.id}`, {
+        env: { WIKI_TOKEN: null, WIKI_SPACE: 'eng' },
+      }),
+    )
+    expect(updated.env).toEqual({ WIKI_TOKEN: null, WIKI_SPACE: null })
+    const [resolved] = await resolveMcpServers(project.id)
+    expect(resolved!.env).toEqual({ WIKI_TOKEN: 'w1k1', WIKI_SPACE: 'eng' })
+
+    expectSuccess(await api('DELETE', `${serversUrl()}/${created.id}`))
+  })
+
+  test('rejects invalid and duplicate names', async () => {
+    expectError(
+      await post(serversUrl(), { name: 'has space', command: 'x' }),
+      400,
+    )
+    expectError(await post(serversUrl(), { name: 'ok', command: '' }), 400)
+    expectSuccess(await post(serversUrl(), { name: 'git', command: 'git-mcp' }))
+    expectError(
+      await post(serversUrl(), { name: 'git', command: 'other' }),
+      409,
+    )
+  })
+})
+
+describe('agent processes', () => {
+  test('Claude gets the enabled servers as --mcp-config', async () => {
+    expectSuccess(
+      await post(serversUrl(), {
+        name: 'off',
+        command: 'unused',
+        enabled: false,
+      }),
+    )
+    const profile = await createScriptProfile(
+      join(project.scriptDir, 'claude.ts'),
+      FAKE_CLAUDE,
+      { name: 'Scripted Claude', engineType: 'claude-code' },
+    )
+    const issue = expectSuccess(
+      await post<{ id: string }>(`/api/projects/${project.id}/issues`, {
+        title: 'List MCP servers',
+        statusId: 'working',
+        engineProfileId: profile.id,
+      }),
+    )
+
+    let reply: LogEntry | undefined
+    await waitFor(async () => {
+      const data = expectSuccess(
+        await get<{ logs: LogEntry[] }>(
+          `/api/projects/${project.id}/issues/${issue.id}/logs?limit=100`,
+        ),
+      )
+      reply = data.logs.find((log) => log.entryType === 'assistant-message')
+      return !!reply
+    }, 10000)
+
+    expect(JSON.parse(reply!.content)).toEqual({
+      mcpServers: {
+        git: { type: 'stdio', command: 'git-mcp', args: [], env: {} },
+      },
+    })
+  })
+  test('Codex servers get their env without it reaching the argv', async () => {
+    expectSuccess(
+      await post(serversUrl(), {
+        name: 'docs',
+        command: 'printenv',
+        args: ['DOCS_TOKEN'],
+        env: { DOCS_TOKEN: "s3cr'et token" },
+      }),
+    )
+    const out = join(project.scriptDir, 'codex-out.json')
+    const profile = await createScriptProfile(
+      join(project.scriptDir, 'codex.ts'),
+      fakeCodex(out),
+      { name: 'Scripted Codex', engineType: 'codex' },
+    )
+    expectSuccess(
+      await post(`/api/projects/${project.id}/issues`, {
+        title: 'Start MCP servers',
+        statusId: 'working',
+        engineProfileId: profile.id,
+        model: 'gpt-5-codex',
+      }),
+    )
+
+    await waitFor(async () => existsSync(out))
+    const recorded = JSON.parse(readFileSync(out, 'utf8'))
+    expect(recorded.output).toBe("s3cr'et token")
+    expect(recorded.argv.join(' ')).not.toContain('s3cr')
+  })
+})
@@ -0,0 +1,237 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { resolve } from 'node:path'
+import app from '@/app'
+import { buildExecutionEnv } from '@/engines/issue/utils/execution-env'
+import { setMcpBaseUrl } from '@/mcp/endpoint'
+import { createIssueToken, verifyIssueToken } from '@/mcp/token'
+import { createTestIssue, createTestProject, expectSuccess } from './helpers'
+/**
+ * BitK MCP server tests — JSON-RPC over `/api/mcp` with an issue-bound
+ * agent token, injection into spawned sessions and the `bitk mcp` bridge.
+ */
+import './setup'
+
+interface Issue {
+  id: string
+  issueNumber: number
+}
+
+interface ToolResult {
+  content: { type: string; text: string }[]
+  isError: boolean
+}
+
+let projectId: string
+let parent: Issue
+let token: string
+
+beforeAll(async () => {
+  projectId = await createTestProject('MCP Board')
+  parent = expectSuccess(
+    await createTestIssue(projectId, { title: 'Plan the release' }),
+  ) as unknown as Issue
+  token = createIssueToken(parent.id)
+})
+
+let nextId = 1
+
+async function rpc(
+  method: string,
+  params: Record<string, unknown> = {},
+  headers: Record<string, string> = { Authorization: `Bearer ${token}` },
+) {
+  const res = await app.request('http://localhost/api/mcp', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify({ jsonrpc: '2.0', id: nextId++, method, params }),
+  })
+  return (await res.json()) as {
+    result?: unknown
+    error?: { code: number; message: string }
+  }
+}
+
+async function callTool(name: string, args: Record<string, unknown> = {}) {
+  const { result } = await rpc('tools/call', { name, arguments: args })
+  return result as ToolResult
+}
+
+describe('MCP over HTTP', () => {
+  test('initializes and lists the board tools', async () => {
+    const init = await rpc('initialize', {
+      protocolVersion: '2025-06-18',
+      capabilities: {},
+      clientInfo: { name: 'test', version: '1' },
+    })
+    expect(init.result).toMatchObject({
+      protocolVersion: '2025-06-18',
+      capabilities: { tools: {} },
+      serverInfo: { name: 'bitk' },
+    })
+
+    const { result } = await rpc('tools/list')
+    const names = (result as { tools: { name: string }[] }).tools.map(
+      (t) => t.name,
+    )
+    expect(names).toEqual(
+      expect.arrayContaining([
+        'list_issues',
+        'create_sub_issue',
+        'update_status',
+        'post_note',
+        'read_transcript',
+      ]),
+    )
+  })
+
+  test('notifications are accepted without a reply', async () => {
+    const res = await app.request('http://localhost/api/mcp', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        method: 'notifications/initialized',
+      }),
+    })
+    expect(res.status).toBe(202)
+  })
+
+  test('an agent manages sub-issues of its own issue', async () => {
+    const created = await callTool('create_sub_issue', {
+      title: 'Write the changelog',
+    })
+    expect(created.isError).toBe(false)
+    const child = JSON.parse(created.content[0]!.text)
+    expect(child).toMatchObject({
+      parentIssueId: parent.id,
+      statusId: 'todo',
+    })
+
+    const moved = await callTool('update_status', {
+      issue: `#${child.number}`,
+      statusId: 'done',
+    })
+    expect(JSON.parse(moved.content[0]!.text).statusId).toBe('done')
+
+    const listed = await callTool('list_issues', { parentIssueId: parent.id })
+    expect(JSON.parse(listed.content[0]!.text)).toEqual([
+      expect.objectContaining({ id: child.id, statusId: 'done' }),
+    ])
+
+    const note = await callTool('post_note', {
+      issue: child.id,
+      text: 'Mention the new MCP tools',
+    })
+    expect(note.content[0]!.text).toBe(`Queued for #${child.number}`)
+
+    const transcript = await callTool('read_transcript', { issue: child.id })
+    expect(transcript.content[0]!.text).toContain(
+      '[user] Mention the new MCP tools',
+    )
+  })
+
+  test('reports tool failures as tool errors', async () => {
+    const missing = await callTool('update_status', {
+      issue: '#9999',
+      statusId: 'done',
+    })
+    expect(missing).toMatchObject({
+      isError: true,
+      content: [{ text: 'Issue #9999 not found' }],
+    })
+
+    const unknown = await rpc('tools/call', { name: 'drop_table' })
+    expect(unknown.error?.code).toBe(-32602)
+  })
+
+  test('a forged token is not bound to any board', async () => {
+    const forged = `${token.slice(0, token.lastIndexOf('.'))}.forged`
+    expect(verifyIssueToken(forged)).toBeNull()
+    const { result } = await rpc(
+      'tools/call',
+      { name: 'list_issues', arguments: {} },
+      { Authorization: `Bearer ${forged}` },
+    )
+    expect(result).toMatchObject({ isError: true })
+  })
+
+  test('other clients pick the board with X-BitK-Project', async () => {
+    const { result } = await rpc(
+      'tools/call',
+      { name: 'list_statuses', arguments: {} },
+      { 'X-BitK-Project': projectId },
+    )
+    expect((result as ToolResult).isError).toBe(false)
+    expect((result as ToolResult).content[0]!.text).toContain('"todo"')
+  })
+})
+
+describe('spawned sessions', () => {
+  test('get the BitK server once the server listens', async () => {
+    expect(
+      (await buildExecutionEnv(parent.id, projectId, '/tmp')).mcpServers,
+    ).toEqual([])
+
+    setMcpBaseUrl('http://127.0.0.1:3000')
+    try {
+      const env = await buildExecutionEnv(parent.id, projectId, '/tmp')
+      const bitk = env.mcpServers?.find((s) => s.name === 'bitk')
+      expect(bitk?.args.at(-1)).toBe('mcp')
+      expect(bitk?.env.BITK_URL).toBe('http://127.0.0.1:3000')
+      expect(verifyIssueToken(bitk?.env.BITK_TOKEN ?? null)).toBe(parent.id)
+    } finally {
+      setMcpBaseUrl(null)
+    }
+  })
+})
+
+describe('bitk mcp', () => {
+  let server: ReturnType<typeof Bun.serve>
+
+  beforeAll(() => {
+    server = Bun.serve({ port: 0, fetch: app.fetch })
+  })
+
+  afterAll(() => {
+    server.stop(true)
+  })
+
+  test('bridges stdio to the HTTP endpoint', async () => {
+    const proc = Bun.spawn(
+      [process.execPath, resolve(import.meta.dir, '../src/main.ts'), 'mcp'],
+      {
+        stdin: 'pipe',
+        stdout: 'pipe',
+        stderr: 'ignore',
+        env: {
+          ...process.env,
+          BITK_URL: `http://127.0.0.1:${server.port}`,
+          BITK_TOKEN: token,
+        },
+      },
+    )
+    const lines = [
+      { jsonrpc: '2.0', id: 1, method: 'ping' },
+      { jsonrpc: '2.0', method: 'notifications/initialized' },
+      {
+        jsonrpc: '2.0',
+        id: 2,
+        method: 'tools/call',
+        params: { name: 'list_issues', arguments: {} },
+      },
+    ]
+    proc.stdin.write(lines.map((l) => `${JSON.stringify(l)}\n`).join(''))
+    await proc.stdin.end()
+
+    const output = await new Response(proc.stdout).text()
+    expect(await proc.exited).toBe(0)
+    const replies = output
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line))
+      .sort((a, b) => a.id - b.id)
+    expect(replies).toHaveLength(2)
+    expect(replies[0]).toEqual({ jsonrpc: '2.0', id: 1, result: {} })
+    expect(replies[1].result.content[0].text).toContain('Plan the release')
+  }, 15000)
+})
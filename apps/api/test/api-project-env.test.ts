@@ -0,0 +1,169 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { eq } from 'drizzle-orm'
+import { db } from '@/db'
+import { projectEnvVars } from '@/db/schema'
+import type { EngineProfile } from '@/engines/types'
+import { decryptSecret } from '@/secrets'
+import {
+  api,
+  expectError,
+  expectSuccess,
+  get,
+  patch,
+  post,
+  waitFor,
+} from './helpers'
+/**
+ * Project env tests — CRUD with write-only secrets, encryption at rest, and
+ * an agent that sees the vars while its logs have the secrets scrubbed.
+ */
+import './setup'
+
+interface EnvVar {
+  id: string
+  key: string
+  value: string | null
+  isSecret: boolean
+}
+
+interface LogEntry {
+  entryType: string
+  content: string
+}
+
+// Prints its env on stdout and the secret on stderr
+const AGENT_SCRIPT = `
+const emit = (line) => console.log(JSON.stringify(line))
+for await (const raw of console) {
+  if (JSON.parse(raw).type !== 'user') continue
+  console.error('token=' + process.env.API_TOKEN)
+  emit({ type: 'assistant-message', content:
+    'region:' + process.env.REGION + ' token:' + process.env.API_TOKEN })
+  emit({ type: 'result' })
+  process.exit(0)
+}
+`
+
+const SECRET = 'sk-live-0123456789'
+
+let dir: string
+let projectId: string
+
+beforeAll(async () => {
+  dir = mkdtempSync(join(tmpdir(), 'bitk-project-env-'))
+  projectId = expectSuccess(
+    await post<{ id: string }>('/api/projects', {
+      name: 'Project Env',
+      directory: dir,
+    }),
+  ).id
+})
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true })
+})
+
+const envUrl = () => `/api/projects/${projectId}/env`
+
+async function storedRow(id: string) {
+  const [row] = await db
+    .select()
+    .from(projectEnvVars)
+    .where(eq(projectEnvVars.id, id))
+  return row!
+}
+
+describe('project env CRUD', () => {
+  test('masks secrets and encrypts them at rest', async () => {
+    const region = expectSuccess(
+      await post<EnvVar>(envUrl(), { key: 'REGION', value: 'eu-west-1' }),
+    )
+    expect(region).toMatchObject({ value: 'eu-west-1', isSecret: false })
+
+    const token = expectSuccess(
+      await post<EnvVar>(envUrl(), {
+        key: 'API_TOKEN',
+        value: SECRET,
+        isSecret: true,
+      }),
+    )
+    expect(token.value).toBeNull()
+    const row = await storedRow(token.id)
+    expect(row.value).not.toContain(SECRET)
+    expect(decryptSecret(row.value)).toBe(SECRET)
+
+    const list = expectSuccess(await get<EnvVar[]>(envUrl()))
+    expect(list.map((v) => [v.key, v.value])).toEqual([
+      ['API_TOKEN', null],
+      ['REGION', 'eu-west-1'],
+    ])
+  })
+
+  test('rejects invalid and duplicate keys', async () => {
+    expectError(await post(envUrl(), { key: '1BAD', value: 'x' }), 400)
+    expectError(await post(envUrl(), { key: 'REGION', value: 'x' }), 409)
+    expectError(
+      await post(`/api/projects/missing/env`, { key: 'A', value: 'x' }),
+      404,
+    )
+  })
+
+  test('toggles secrecy and deletes', async () => {
+    const created = expectSuccess(
+      await post<EnvVar>(envUrl(), { key: 'TEMP', value: 'plain' }),
+    )
+    const hidden = expectSuccess(
+      await patch<EnvVar>(`${envUrl()}/${created.id}`, { isSecret: true }),
+    )
+    expect(hidden.value).toBeNull()
+    expect(decryptSecret((await storedRow(created.id)).value)).toBe('plain')
+
+    const shown = expectSuccess(
+      await patch<EnvVar>(`${envUrl()}/${created.id}`, { isSecret: false }),
+    )
+    expect(shown.value).toBe('plain')
+
+    expectSuccess(await api('DELETE', `${envUrl()}/${created.id}`))
+    const list = expectSuccess(await get<EnvVar[]>(envUrl()))
+    expect(list.some((v) => v.key === 'TEMP')).toBe(false)
+  })
+})
+
+describe('agent processes', () => {
+  test('receive the env with secrets scrubbed from logs', async () => {
+    const script = join(dir, 'agent.ts')
+    writeFileSync(script, AGENT_SCRIPT)
+    const profile = expectSuccess(
+      await post<EngineProfile>('/api/engines/profiles', {
+        name: 'Env agent',
+        engineType: 'custom',
+        baseCommand: `${process.execPath} ${script}`,
+      }),
+    )
+    const issue = expectSuccess(
+      await post<{ id: string }>(`/api/projects/${projectId}/issues`, {
+        title: 'Print env',
+        statusId: 'working',
+        engineProfileId: profile.id,
+      }),
+    )
+
+    let logs: LogEntry[] = []
+    await waitFor(async () => {
+      const data = expectSuccess(
+        await get<{ logs: LogEntry[] }>(
+          `/api/projects/${projectId}/issues/${issue.id}/logs?limit=100`,
+        ),
+      )
+      logs = data.logs
+      return logs.some((log) => log.entryType === 'assistant-message')
+    }, 10000)
+
+    const reply = logs.find((log) => log.entryType === 'assistant-message')!
+    expect(reply.content).toBe('region:eu-west-1 token:********')
+    expect(JSON.stringify(logs)).not.toContain(SECRET)
+  })
+})
@@ -0,0 +1,158 @@
+import { beforeAll, describe, expect, test } from 'bun:test'
+import { eq } from 'drizzle-orm'
+import { db } from '@/db'
+import { issues } from '@/db/schema'
+import {
+  createTestIssue,
+  createTestProject,
+  expectError,
+  expectSuccess,
+  get,
+  post,
+  waitFor,
+} from './helpers'
+/**
+ * Rewind tests — editing a past user message hides later entries as an
+ * alternate branch and resends the edit (echo replays the kept transcript).
+ */
+import './setup'
+
+interface Issue {
+  id: string
+  sessionStatus: string | null
+  [key: string]: unknown
+}
+
+interface LogEntry {
+  messageId?: string
+  entryType: string
+  content: string
+  metadata?: Record<string, unknown>
+}
+
+let projectId: string
+
+beforeAll(async () => {
+  projectId = await createTestProject('Rewind Test Project')
+})
+
+const issueUrl = (issueId: string) =>
+  `/api/projects/${projectId}/issues/${issueId}`
+
+async function waitForCompleted(issueId: string) {
+  await waitFor(async () => {
+    const issue = expectSuccess(await get<Issue>(issueUrl(issueId)))
+    return issue.sessionStatus === 'completed'
+  }, 5000)
+}
+
+async function messagesOf(issueId: string) {
+  const data = expectSuccess(
+    await get<{ logs: LogEntry[] }>(`${issueUrl(issueId)}/logs?limit=100`),
+  )
+  return data.logs.filter(
+    (log) =>
+      log.entryType === 'user-message' || log.entryType === 'assistant-message',
+  )
+}
+
+/** Issue with two completed turns: its title, then `second` */
+async function twoTurnIssue(title: string, second: string) {
+  const issue = expectSuccess(
+    await createTestIssue(projectId, {
+      title,
+      statusId: 'working',
+      engineType: 'echo',
+    }),
+  ) as Issue
+  await waitForCompleted(issue.id)
+  expectSuccess(
+    await post(`${issueUrl(issue.id)}/follow-up`, { prompt: second }),
+  )
+  await waitFor(
+    async () =>
+      (await messagesOf(issue.id)).some((log) => log.content === second),
+    5000,
+  )
+  await waitForCompleted(issue.id)
+  return issue
+}
+
+describe('POST /api/projects/:projectId/issues/:id/rewind', () => {
+  test('replaces a user message and keeps the old turns as a branch', async () => {
+    const issue = await twoTurnIssue('Draft the changelog', 'Use emoji')
+    const edited = (await messagesOf(issue.id)).find(
+      (log) => log.entryType === 'user-message' && log.content === 'Use emoji',
+    )!
+
+    const result = await post<{ branchId: string; messageId: string }>(
+      `${issueUrl(issue.id)}/rewind`,
+      { messageId: edited.messageId, prompt: 'Keep it plain text' },
+    )
+    const data = expectSuccess(result)
+    expect(data.branchId).toBeTruthy()
+    await waitForCompleted(issue.id)
+
+    const after = await messagesOf(issue.id)
+    expect(after.some((log) => log.content === 'Use emoji')).toBe(false)
+    const users = after.filter((log) => log.entryType === 'user-message')
+    expect(users.map((log) => log.content)).toEqual([
+      'Draft the changelog',
+      'Keep it plain text',
+    ])
+    expect(users[1]!.messageId).toBe(data.messageId)
+    expect(users[1]!.metadata?.branchId).toBe(data.branchId)
+
+    // Echo replies with its prompt: the kept transcript plus the edit
+    const reply = after[after.indexOf(users[1]!) + 1]!
+    expect(reply.content).toContain('Assistant: Draft the changelog')
+    expect(reply.content).toContain('Keep it plain text')
+
+    const branch = expectSuccess(
+      await get<{ logs: LogEntry[] }>(
+        `${issueUrl(issue.id)}/branches/${data.branchId}`,
+      ),
+    )
+    expect(branch.logs[0]!.content).toBe('Use emoji')
+    expect(branch.logs.every((log) => log.content === 'Use emoji')).toBe(true)
+  })
+
+  test('restores the conversation when the edited turn cannot start', async () => {
+    const issue = await twoTurnIssue('Sketch the schema', 'Add indexes')
+    const before = await messagesOf(issue.id)
+    const edited = before.find((log) => log.content === 'Add indexes')!
+
+    // No executor is registered for this engine, so the spawn throws
+    await db
+      .update(issues)
+      .set({ engineType: 'retired-engine' })
+      .where(eq(issues.id, issue.id))
+
+    expectError(
+      await post(`${issueUrl(issue.id)}/rewind`, {
+        messageId: edited.messageId,
+        prompt: 'Skip the indexes',
+      }),
+      400,
+    )
+    const after = await messagesOf(issue.id)
+    expect(after.map((log) => log.content)).toEqual(
+      before.map((log) => log.content),
+    )
+  })
+
+  test('rejects messages that cannot be edited', async () => {
+    const issue = await twoTurnIssue('Rename the module', 'Call it core')
+    const messages = await messagesOf(issue.id)
+    const rewind = (body: Record<string, unknown>) =>
+      post(`${issueUrl(issue.id)}/rewind`, body)
+
+    expectError(
+      await rewind({ messageId: messages[1]!.messageId, prompt: 'x' }),
+      400,
+    )
+    expectError(await rewind({ messageId: 'missing', prompt: 'x' }), 404)
+    expectError(await rewind({ messageId: messages[0]!.messageId }), 400)
+    expectError(await get(`${issueUrl(issue.id)}/branches/missing-branch`), 404)
+  })
+})
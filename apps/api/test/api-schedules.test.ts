@@ -0,0 +1,223 @@
+import { beforeAll, describe, expect, test } from 'bun:test'
+import { runDueSchedules } from '@/jobs/scheduler'
+import {
+  api,
+  createTestIssue,
+  createTestProject,
+  expectError,
+  expectSuccess,
+  get,
+  patch,
+  post,
+  waitFor,
+} from './helpers'
+/**
+ * Schedule tests — CRUD and validation, plus firing due one-shot and cron
+ * schedules that create or re-run issues and record their runs.
+ */
+import './setup'
+
+interface Schedule {
+  id: string
+  name: string
+  cron: string | null
+  runAt: string | null
+  issueId: string | null
+  enabled: boolean
+  nextRunAt: string | null
+  lastRunAt: string | null
+}
+
+interface ScheduleRun {
+  id: string
+  issueId: string | null
+  issueNumber: number | null
+  status: string
+  error: string | null
+}
+
+interface Issue {
+  id: string
+  title: string
+  statusId: string
+  sessionStatus: string | null
+}
+
+let projectId: string
+
+function schedulesPath() {
+  return `/api/projects/${projectId}/schedules`
+}
+
+async function createSchedule(body: Record<string, unknown>) {
+  return expectSuccess(
+    await post<Schedule>(schedulesPath(), {
+      name: 'Nightly audit',
+      prompt: 'Audit the dependencies',
+      engineType: 'echo',
+      model: 'auto',
+      ...body,
+    }),
+  )
+}
+
+async function getRuns(scheduleId: string) {
+  return expectSuccess(
+    await get<ScheduleRun[]>(`${schedulesPath()}/${scheduleId}/runs`),
+  )
+}
+
+async function waitForSettled(issueId: string) {
+  await waitFor(async () => {
+    const issue = expectSuccess(
+      await get<Issue>(`/api/projects/${projectId}/issues/${issueId}`),
+    )
+    return issue.sessionStatus === 'completed'
+  }, 10000)
+}
+
+beforeAll(async () => {
+  projectId = await createTestProject('Schedules Project')
+})
+
+describe('Schedule CRUD', () => {
+  test('creates, lists, updates and deletes a cron schedule', async () => {
+    const before = Date.now()
+    const schedule = await createSchedule({ cron: '*/5 * * * *' })
+    expect(schedule.enabled).toBe(true)
+    const next = new Date(schedule.nextRunAt!).getTime()
+    expect(next).toBeGreaterThan(before)
+    expect(next - before).toBeLessThanOrEqual(5 * 60 * 1000)
+
+    const list = expectSuccess(await get<Schedule[]>(schedulesPath()))
+    expect(list.map((s) => s.id)).toContain(schedule.id)
+
+    const disabled = expectSuccess(
+      await patch<Schedule>(`${schedulesPath()}/${schedule.id}`, {
+        enabled: false,
+      }),
+    )
+    expect(disabled.nextRunAt).toBeNull()
+
+    expectSuccess(await api('DELETE', `${schedulesPath()}/${schedule.id}`))
+    const after = expectSuccess(await get<Schedule[]>(schedulesPath()))
+    expect(after.map((s) => s.id)).not.toContain(schedule.id)
+  })
+
+  test('requires exactly one of cron and runAt', async () => {
+    expectError(await post(schedulesPath(), { name: 'x', prompt: 'x' }), 400)
+    expectError(
+      await post(schedulesPath(), {
+        name: 'x',
+        prompt: 'x',
+        cron: '@daily',
+        runAt: new Date().toISOString(),
+      }),
+      400,
+    )
+  })
+
+  test('rejects invalid cron expressions and foreign issues', async () => {
+    const bad = await post(schedulesPath(), {
+      name: 'x',
+      prompt: 'x',
+      cron: '61 * * * *',
+    })
+    expect(expectError(bad, 400)).toContain('out of range')
+
+    expectError(
+      await post(schedulesPath(), {
+        name: 'x',
+        prompt: 'x',
+        cron: '@daily',
+        issueId: 'nope',
+      }),
+      400,
+    )
+  })
+})
+
+describe('Firing schedules', () => {
+  test('a due one-shot creates an issue, records the run and disables itself', async () => {
+    const schedule = await createSchedule({
+      name: 'Draft changelog',
+      runAt: new Date(Date.now() - 60_000).toISOString(),
+    })
+
+    expect(await runDueSchedules()).toBe(1)
+
+    const runs = await getRuns(schedule.id)
+    expect(runs).toHaveLength(1)
+    expect(runs[0]!.status).toBe('started')
+    expect(runs[0]!.issueNumber).toBeGreaterThan(0)
+
+    const issue = expectSuccess(
+      await get<Issue>(`/api/projects/${projectId}/issues/${runs[0]!.issueId}`),
+    )
+    expect(issue.title).toBe('Draft changelog')
+    await waitForSettled(issue.id)
+
+    const [after] = expectSuccess(
+      await get<Schedule[]>(schedulesPath()),
+    ).filter((s) => s.id === schedule.id)
+    expect(after!.enabled).toBe(false)
+    expect(after!.nextRunAt).toBeNull()
+    expect(after!.lastRunAt).not.toBeNull()
+
+    // Nothing left to fire
+    expect(await runDueSchedules()).toBe(0)
+  })
+
+  test('a cron schedule advances to its next run after firing', async () => {
+    const schedule = await createSchedule({ cron: '0 3 * * *' })
+    const due = new Date(schedule.nextRunAt!)
+
+    expect(await runDueSchedules(due)).toBe(1)
+
+    const [after] = expectSuccess(
+      await get<Schedule[]>(schedulesPath()),
+    ).filter((s) => s.id === schedule.id)
+    expect(after!.enabled).toBe(true)
+    expect(new Date(after!.nextRunAt!).getTime()).toBe(
+      due.getTime() + 24 * 60 * 60 * 1000,
+    )
+
+    const [run] = await getRuns(schedule.id)
+    await waitForSettled(run!.issueId!)
+
+    // Disable so later ticks in this file ignore it
+    expectSuccess(
+      await patch(`${schedulesPath()}/${schedule.id}`, { enabled: false }),
+    )
+  })
+
+  test('a schedule bound to an issue re-runs that issue', async () => {
+    const issue = expectSuccess(
+      await createTestIssue(projectId, { title: 'Flaky test sweep' }),
+    ) as unknown as Issue
+    const schedule = await createSchedule({
+      cron: '@weekly',
+      issueId: issue.id,
+      enabled: false,
+    })
+
+    // First run executes the idle issue from the todo column
+    const first = expectSuccess(
+      await post<ScheduleRun>(`${schedulesPath()}/${schedule.id}/run`, {}),
+    )
+    expect(first.status).toBe('started')
+    expect(first.issueId).toBe(issue.id)
+    await waitForSettled(issue.id)
+
+    // Second run follows up on the existing session
+    const second = expectSuccess(
+      await post<ScheduleRun>(`${schedulesPath()}/${schedule.id}/run`, {}),
+    )
+    expect(second.status).toBe('started')
+    await waitForSettled(issue.id)
+
+    const runs = await getRuns(schedule.id)
+    expect(runs).toHaveLength(2)
+    expect(runs.every((r) => r.issueId === issue.id)).toBe(true)
+  })
+})
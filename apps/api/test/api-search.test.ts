@@ -0,0 +1,152 @@
+import { describe, expect, test } from 'bun:test'
+import { eq } from 'drizzle-orm'
+import { db } from '@/db'
+import { issueLogs } from '@/db/schema'
+import { toMatchQuery } from '@/db/search'
+import {
+  api,
+  createTestIssue,
+  createTestProject,
+  expectError,
+  expectSuccess,
+  get,
+  patch,
+} from './helpers'
+/**
+ * Search tests — FTS5 index sync on insert/update, project and entry-type
+ * scoping, highlighted snippets, and hidden/deleted rows staying out.
+ */
+import './setup'
+
+interface SearchResult {
+  kind: 'issue' | 'log'
+  projectId: string
+  projectAlias: string
+  issueId: string
+  issueNumber: number
+  messageId: string | null
+  entryType: string | null
+  snippet: Array<{ text: string; highlight: boolean }>
+}
+
+async function seedIssue(projectId: string, title: string) {
+  const issue = expectSuccess(await createTestIssue(projectId, { title })) as {
+    id: string
+  }
+  return issue.id
+}
+
+async function addLog(
+  issueId: string,
+  entryType: string,
+  content: string,
+  visible = 1,
+) {
+  const [row] = await db
+    .insert(issueLogs)
+    .values({ issueId, entryType, content, entryIndex: 0, visible })
+    .returning()
+  return row!.id
+}
+
+function search(query: string) {
+  return get<SearchResult[]>(`/api/search?${query}`)
+}
+
+describe('toMatchQuery', () => {
+  test('quotes words and makes the last one a prefix', () => {
+    expect(toMatchQuery('flaky  web-sock')).toBe('"flaky" "web" "sock"*')
+    expect(toMatchQuery('"OR" NOT')).toBe('"OR" "NOT"*')
+    expect(toMatchQuery('  ** ')).toBeNull()
+  })
+})
+
+describe('GET /api/search', () => {
+  test('finds issue titles and log entries with highlighted snippets', async () => {
+    const projectId = await createTestProject('Search Project')
+    const issueId = await seedIssue(projectId, 'Quokka reconnect storm')
+    const messageId = await addLog(
+      issueId,
+      'assistant-message',
+      'The quokka socket retries without any backoff, so it floods the server.',
+    )
+
+    const results = expectSuccess(await search('q=quokka'))
+    const issueHit = results.find((r) => r.kind === 'issue')
+    const logHit = results.find((r) => r.kind === 'log')
+    expect(issueHit?.issueId).toBe(issueId)
+    expect(logHit?.messageId).toBe(messageId)
+    expect(logHit?.entryType).toBe('assistant-message')
+    expect(logHit?.snippet.filter((s) => s.highlight)).toEqual([
+      { text: 'quokka', highlight: true },
+    ])
+
+    // Prefix match on the last word
+    expect(expectSuccess(await search('q=quok')).length).toBe(2)
+  })
+
+  test('keeps the index in sync with edits', async () => {
+    const projectId = await createTestProject('Search Sync')
+    const issueId = await seedIssue(projectId, 'Wombat cache')
+    const messageId = await addLog(issueId, 'user-message', 'first draft')
+
+    await patch(`/api/projects/${projectId}/issues/${issueId}`, {
+      title: 'Numbat cache',
+    })
+    await db
+      .update(issueLogs)
+      .set({ content: 'numbat notes' })
+      .where(eq(issueLogs.id, messageId))
+
+    const scope = `projectId=${projectId}`
+    expect(expectSuccess(await search(`q=draft&${scope}`))).toEqual([])
+    const hits = expectSuccess(await search(`q=numbat&${scope}`))
+    expect(hits.map((r) => r.kind).sort()).toEqual(['issue', 'log'])
+  })
+
+  test('scopes by project and entry type', async () => {
+    const first = await createTestProject('Search Scope A')
+    const second = await createTestProject('Search Scope B')
+    const a = await seedIssue(first, 'Axolotl parser')
+    await addLog(a, 'tool-use', 'axolotl grep output')
+    await addLog(a, 'user-message', 'fix the axolotl parser please')
+    await seedIssue(second, 'Axolotl renderer')
+
+    const scoped = expectSuccess(await search(`q=axolotl&projectId=${first}`))
+    expect(new Set(scoped.map((r) => r.projectId))).toEqual(new Set([first]))
+    expect(scoped.length).toBe(3)
+
+    const messagesOnly = expectSuccess(
+      await search(`q=axolotl&projectId=${first}&types=user-message`),
+    )
+    expect(messagesOnly.map((r) => r.entryType)).toEqual(['user-message'])
+
+    const issuesOnly = expectSuccess(await search('q=axolotl&types=issue'))
+    expect(issuesOnly.every((r) => r.kind === 'issue')).toBe(true)
+    expect(issuesOnly.length).toBe(2)
+
+    expectError(await search('q=axolotl&projectId=missing'), 404)
+    expectError(await search('q=axolotl&types=a;b'), 400)
+    expectError(await search('q='), 400)
+  })
+
+  test('leaves out hidden entries and deleted issues', async () => {
+    const projectId = await createTestProject('Search Hidden')
+    const issueId = await seedIssue(projectId, 'Pangolin build')
+    await addLog(issueId, 'system-message', 'pangolin meta turn', 0)
+    expect(expectSuccess(await search('q=pangolin')).length).toBe(1)
+
+    const other = await seedIssue(projectId, 'Pangolin deploy')
+    await addLog(other, 'assistant-message', 'pangolin deployed')
+    await db
+      .update(issueLogs)
+      .set({ isDeleted: 1 })
+      .where(eq(issueLogs.issueId, other))
+    expect(expectSuccess(await search('q=pangolin')).length).toBe(2)
+
+    expectSuccess(
+      await api('DELETE', `/api/projects/${projectId}/issues/${issueId}`),
+    )
+    expect(expectSuccess(await search('q=pangolin')).length).toBe(1)
+  })
+})
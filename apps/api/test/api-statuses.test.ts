@@ -0,0 +1,184 @@
+import { beforeAll, describe, expect, test } from 'bun:test'
+import {
+  api,
+  createTestProject,
+  expectError,
+  expectSuccess,
+  get,
+  patch,
+  post,
+  waitFor,
+} from './helpers'
+/**
+ * Per-project workflow status tests — custom columns, validation and the
+ * engine's flag-driven transitions (execute / settle / cancel).
+ */
+import './setup'
+
+interface Status {
+  id: string
+  name: string
+  color: string
+  sortOrder: number
+  triggersExecution: boolean
+  isTerminal: boolean
+}
+
+interface Issue {
+  id: string
+  statusId: string
+  sessionStatus: string | null
+}
+
+const CUSTOM_WORKFLOW = [
+  { id: 'backlog', name: 'Backlog', color: '#6b7280' },
+  { id: 'ready', name: 'Ready', color: '#8b5cf6' },
+  {
+    id: 'agent',
+    name: 'Agent running',
+    color: '#3b82f6',
+    triggersExecution: true,
+  },
+  { id: 'qa', name: 'QA', color: '#f59e0b' },
+  { id: 'shipped', name: 'Shipped', color: '#22c55e', isTerminal: true },
+  { id: 'wontfix', name: "Won't fix", color: '#ef4444', isTerminal: true },
+]
+
+let projectId: string
+
+function statusesPath() {
+  return `/api/projects/${projectId}/statuses`
+}
+
+function putStatuses(statuses: unknown[]) {
+  return api<Status[]>('PUT', statusesPath(), { statuses })
+}
+
+async function createIssue(statusId: string) {
+  return post<Issue>(`/api/projects/${projectId}/issues`, {
+    title: `Workflow issue ${Date.now()}`,
+    statusId,
+    engineType: 'echo',
+    model: 'auto',
+  })
+}
+
+beforeAll(async () => {
+  projectId = await createTestProject('Workflow Statuses Test')
+})
+
+describe('GET /statuses', () => {
+  test('new projects use the default four columns', async () => {
+    const statuses = expectSuccess(await get<Status[]>(statusesPath()))
+    expect(statuses.map((s) => s.id)).toEqual([
+      'todo',
+      'working',
+      'review',
+      'done',
+    ])
+    expect(statuses.find((s) => s.triggersExecution)?.id).toBe('working')
+    expect(statuses.find((s) => s.isTerminal)?.id).toBe('done')
+  })
+
+  test('unknown project returns 404', async () => {
+    expectError(await get('/api/projects/nope/statuses'), 404)
+  })
+})
+
+describe('PUT /statuses validation', () => {
+  test('requires exactly one execution column', async () => {
+    const none = CUSTOM_WORKFLOW.map((s) => ({
+      ...s,
+      triggersExecution: false,
+    }))
+    expect(expectError(await putStatuses(none), 400)).toContain(
+      'trigger execution',
+    )
+  })
+
+  test('execution column cannot be last', async () => {
+    const result = await putStatuses([
+      { id: 'todo', name: 'Todo', color: '#6b7280' },
+      {
+        id: 'working',
+        name: 'Working',
+        color: '#3b82f6',
+        triggersExecution: true,
+      },
+    ])
+    expectError(result, 400)
+  })
+
+  test('rejects duplicate ids and bad colors', async () => {
+    expectError(
+      await putStatuses([...CUSTOM_WORKFLOW, CUSTOM_WORKFLOW[0]]),
+      400,
+    )
+    expectError(
+      await putStatuses([
+        { ...CUSTOM_WORKFLOW[0], color: 'red' },
+        ...CUSTOM_WORKFLOW.slice(1),
+      ]),
+      400,
+    )
+  })
+})
+
+describe('custom workflow', () => {
+  test('replaces the columns in array order', async () => {
+    const saved = expectSuccess(await putStatuses(CUSTOM_WORKFLOW))
+    expect(saved.map((s) => s.sortOrder)).toEqual([0, 1, 2, 3, 4, 5])
+
+    const statuses = expectSuccess(await get<Status[]>(statusesPath()))
+    expect(statuses.map((s) => s.id)).toEqual(CUSTOM_WORKFLOW.map((s) => s.id))
+  })
+
+  test('rejects issues in unknown statuses', async () => {
+    expectError(await createIssue('todo'), 400)
+  })
+
+  test('backlog columns do not execute', async () => {
+    const issue = expectSuccess(await createIssue('ready'))
+    expect(issue.statusId).toBe('ready')
+    expect(issue.sessionStatus).toBeNull()
+  })
+
+  test('execution column runs the engine and settles into the review column', async () => {
+    const created = await createIssue('backlog')
+    const issue = expectSuccess(created)
+
+    const moved = expectSuccess(
+      await patch<Issue>(`/api/projects/${projectId}/issues/${issue.id}`, {
+        statusId: 'agent',
+      }),
+    )
+    expect(moved.sessionStatus).toBe('pending')
+
+    await waitFor(async () => {
+      const r = expectSuccess(
+        await get<Issue>(`/api/projects/${projectId}/issues/${issue.id}`),
+      )
+      return r.statusId === 'qa'
+    }, 5000)
+  })
+
+  test('creating in the review column starts in the execution column', async () => {
+    const result = await createIssue('qa')
+    expect(result.status).toBe(202)
+    expect(expectSuccess(result).statusId).toBe('agent')
+  })
+
+  test('removing a column that still holds issues is rejected', async () => {
+    const withoutReady = CUSTOM_WORKFLOW.filter((s) => s.id !== 'ready')
+    expect(expectError(await putStatuses(withoutReady), 409)).toContain('ready')
+  })
+
+  test('terminal columns queue follow-up messages', async () => {
+    const issue = expectSuccess(await createIssue('wontfix'))
+    const result = await post<{ queued?: boolean }>(
+      `/api/projects/${projectId}/issues/${issue.id}/follow-up`,
+      { prompt: 'one more thing' },
+    )
+    expect(expectSuccess(result).queued).toBe(true)
+  })
+})
@@ -0,0 +1,235 @@
+import { describe, expect, test } from 'bun:test'
+import { createHmac } from 'node:crypto'
+import app from '@/app'
+import { admitTriggerFire } from '@/db/triggers'
+import { renderTemplate } from '@/utils/template'
+import {
+  api,
+  createTestProject,
+  expectError,
+  expectSuccess,
+  get,
+  patch,
+  post,
+  waitFor,
+} from './helpers'
+/**
+ * Trigger tests — CRUD, template rendering, and signed firing with replay
+ * protection and a per-trigger rate limit.
+ */
+import './setup'
+
+interface Trigger {
+  id: string
+  name: string
+  titleTemplate: string
+  maxPerHour: number
+  secret?: string
+}
+
+interface Issue {
+  id: string
+  title: string
+  prompt: string | null
+  statusId: string
+  sessionStatus: string | null
+  engineType: string | null
+}
+
+const SECRET = 'trigger-secret-0123456789'
+
+async function createTrigger(body: Record<string, unknown> = {}) {
+  const projectId = await createTestProject('Trigger Project')
+  const trigger = expectSuccess(
+    await post<Trigger>(`/api/projects/${projectId}/triggers`, {
+      name: 'Nightly build failed',
+      secret: SECRET,
+      titleTemplate: 'Fix {{ job }} on {{ branch }}',
+      promptTemplate: 'The {{ job }} job failed:\n\n{{ log }}',
+      engineType: 'echo',
+      ...body,
+    }),
+  )
+  return { projectId, trigger }
+}
+
+/** POST a signed payload the way an external system would. */
+async function fire(
+  projectId: string,
+  triggerId: string,
+  payload: unknown,
+  opts: { secret?: string; timestamp?: number; token?: string } = {},
+) {
+  const body = JSON.stringify(payload)
+  const timestamp = String(opts.timestamp ?? Math.floor(Date.now() / 1000))
+  const signature = `sha256=${createHmac('sha256', opts.secret ?? SECRET)
+    .update(`${timestamp}.${body}`)
+    .digest('hex')}`
+  const res = await app.request(
+    `http://localhost/api/projects/${projectId}/triggers/${triggerId}`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-BitK-Timestamp': timestamp,
+        'X-BitK-Signature': signature,
+      },
+      body,
+    },
+  )
+  return {
+    status: res.status,
+    json: (await res.json()) as {
+      success: boolean
+      data?: { issueId: string; issueNumber: number }
+      error?: string
+    },
+  }
+}
+
+describe('renderTemplate', () => {
+  test('substitutes paths, array indices and the whole payload', () => {
+    const payload = { job: 'lint', steps: [{ name: 'bun' }], meta: { a: 1 } }
+    expect(renderTemplate('{{job}} / {{ steps.0.name }}', payload)).toBe(
+      'lint / bun',
+    )
+    expect(renderTemplate('{{ meta }}', payload)).toBe('{\n  "a": 1\n}')
+    expect(renderTemplate('[{{ missing.key }}]', payload)).toBe('[]')
+    expect(renderTemplate('{{payload}}', 'raw')).toBe('raw')
+  })
+})
+
+describe('trigger CRUD', () => {
+  test('hides the secret and validates input', async () => {
+    const { projectId, trigger } = await createTrigger()
+    expect(trigger.secret).toBeUndefined()
+    expect(trigger.maxPerHour).toBe(10)
+
+    const listed = expectSuccess(
+      await get<Trigger[]>(`/api/projects/${projectId}/triggers`),
+    )
+    expect(listed.map((t) => t.id)).toEqual([trigger.id])
+
+    const updated = expectSuccess(
+      await patch<Trigger>(
+        `/api/projects/${projectId}/triggers/${trigger.id}`,
+        { maxPerHour: 2 },
+      ),
+    )
+    expect(updated.maxPerHour).toBe(2)
+
+    expectError(
+      await post(`/api/projects/${projectId}/triggers`, {
+        name: 'Weak',
+        secret: 'short',
+        promptTemplate: 'x',
+      }),
+      400,
+    )
+
+    expectSuccess(
+      await api('DELETE', `/api/projects/${projectId}/triggers/${trigger.id}`),
+    )
+    const res = await fire(projectId, trigger.id, {})
+    expect(res.status).toBe(404)
+  })
+})
+
+describe('firing a trigger', () => {
+  test('creates an issue from the templates and runs it', async () => {
+    const { projectId, trigger } = await createTrigger()
+    const res = await fire(projectId, trigger.id, {
+      job: 'e2e',
+      branch: 'main',
+      log: 'Error: timeout',
+    })
+    expect(res.status).toBe(202)
+    const issueId = res.json.data!.issueId
+
+    const issue = expectSuccess(
+      await get<Issue>(`/api/projects/${projectId}/issues/${issueId}`),
+    )
+    expect(issue.title).toBe('Fix e2e on main')
+    expect(issue.prompt).toBe('The e2e job failed:\n\nError: timeout')
+    expect(issue.engineType).toBe('echo')
+
+    await waitFor(async () => {
+      const current = expectSuccess(
+        await get<Issue>(`/api/projects/${projectId}/issues/${issueId}`),
+      )
+      return current.sessionStatus === 'completed'
+    }, 10000)
+
+    const fires = expectSuccess(
+      await get<Array<{ issueId: string }>>(
+        `/api/projects/${projectId}/triggers/${trigger.id}/fires`,
+      ),
+    )
+    expect(fires.map((f) => f.issueId)).toEqual([issueId])
+  })
+
+  test('rejects bad signatures, stale timestamps and replays', async () => {
+    const { projectId, trigger } = await createTrigger()
+    const payload = { job: 'unit' }
+
+    const forged = await fire(projectId, trigger.id, payload, {
+      secret: 'not-the-secret-at-all',
+    })
+    expect(forged.status).toBe(401)
+
+    const stale = await fire(projectId, trigger.id, payload, {
+      timestamp: Math.floor(Date.now() / 1000) - 3600,
+    })
+    expect(stale.status).toBe(401)
+
+    const timestamp = Math.floor(Date.now() / 1000)
+    expect(
+      (await fire(projectId, trigger.id, payload, { timestamp })).status,
+    ).toBe(202)
+    const replay = await fire(projectId, trigger.id, payload, { timestamp })
+    expect(replay.status).toBe(409)
+  })
+
+  test('enforces the per-trigger hourly limit', async () => {
+    const { projectId, trigger } = await createTrigger({ maxPerHour: 2 })
+    expect((await fire(projectId, trigger.id, { n: 1 })).status).toBe(202)
+    expect((await fire(projectId, trigger.id, { n: 2 })).status).toBe(202)
+    const limited = await fire(projectId, trigger.id, { n: 3 })
+    expect(limited.status).toBe(429)
+  })
+
+  test('holds the limit and replay check for concurrent calls', async () => {
+    const { trigger } = await createTrigger({ maxPerHour: 2 })
+    const burst = await Promise.all(
+      ['a', 'b', 'c', 'd'].map(async (sig) => admitTriggerFire(trigger, sig)),
+    )
+    expect(burst.filter((r) => r.ok)).toHaveLength(2)
+
+    const other = await createTrigger()
+    const replays = await Promise.all(
+      [1, 2, 3].map(async () => admitTriggerFire(other.trigger, 'same')),
+    )
+    expect(replays.map((r) => (r.ok ? 'ok' : r.reason))).toEqual([
+      'ok',
+      'replayed',
+      'replayed',
+    ])
+  })
+
+  test('needs no session when auth is enabled', async () => {
+    const { projectId, trigger } = await createTrigger()
+    const previous = process.env.API_SECRET
+    process.env.API_SECRET = 'admin-secret'
+    try {
+      const listed = await app.request(
+        `http://localhost/api/projects/${projectId}/triggers`,
+      )
+      expect(listed.status).toBe(401)
+      expect((await fire(projectId, trigger.id, { job: 'auth' })).status).toBe(
+        202,
+      )
+    } finally {
+      process.env.API_SECRET = previous
+    }
+  })
+})
@@ -0,0 +1,170 @@
+import { beforeAll, describe, expect, test } from 'bun:test'
+import { ClaudeLogNormalizer } from '@/engines/executors/claude/normalizer'
+import { persistTurnUsage } from '@/engines/issue/persistence/usage'
+import { consumeStream } from '@/engines/issue/streams/consumer'
+import type { ManagedProcess } from '@/engines/issue/types'
+import {
+  createTestProject,
+  expectError,
+  expectSuccess,
+  get,
+  post,
+  waitFor,
+} from './helpers'
+/**
+ * Usage accounting tests — per-turn rows written by the stream consumer
+ * and the issue / project aggregation endpoints.
+ */
+import './setup'
+
+interface Issue {
+  id: string
+  sessionStatus: string | null
+}
+
+interface UsageTotals {
+  turns: number
+  inputTokens: number
+  outputTokens: number
+  cacheReadTokens: number
+  cacheWriteTokens: number
+  costUsd: number
+}
+
+interface UsageSummary {
+  totals: UsageTotals
+  daily: (UsageTotals & { date: string })[]
+  byModel: (UsageTotals & { engineType: string | null; model: string | null })[]
+  byIssue?: (UsageTotals & { issueId: string; title: string })[]
+}
+
+let projectId: string
+
+async function createIssue(title: string, statusId: string) {
+  return expectSuccess(
+    await post<Issue>(`/api/projects/${projectId}/issues`, {
+      title,
+      statusId,
+      engineType: 'echo',
+      model: 'auto',
+    }),
+  )
+}
+
+function issueUsage(issueId: string) {
+  return get<UsageSummary>(`/api/projects/${projectId}/issues/${issueId}/usage`)
+}
+
+beforeAll(async () => {
+  projectId = await createTestProject('Usage Test')
+})
+
+describe('usage accounting', () => {
+  test('an executed turn records its token usage', async () => {
+    const issue = await createIssue('Count my tokens', 'working')
+    await waitFor(async () => {
+      const usage = expectSuccess(await issueUsage(issue.id))
+      return usage.totals.turns > 0
+    }, 8000)
+
+    const usage = expectSuccess(await issueUsage(issue.id))
+    expect(usage.totals.turns).toBe(1)
+    expect(usage.totals.inputTokens).toBeGreaterThan(0)
+    expect(usage.totals.outputTokens).toBeGreaterThan(0)
+    expect(usage.daily).toHaveLength(1)
+    expect(usage.daily[0]!.date).toBe(new Date().toISOString().slice(0, 10))
+    expect(usage.byModel[0]!.engineType).toBe('echo')
+  })
+
+  test('project usage aggregates across issues', async () => {
+    const a = await createIssue('Usage A', 'todo')
+    const b = await createIssue('Usage B', 'todo')
+    const turn = (inputTokens: number, costUsd: number) => ({
+      entryType: 'system-message' as const,
+      content: '',
+      turnIndex: 0,
+      metadata: {
+        turnCompleted: true,
+        inputTokens,
+        outputTokens: 10,
+        cacheReadTokens: 5,
+        costUsd,
+        model: 'test-model',
+      },
+    })
+    expect(persistTurnUsage(a.id, 'exec-a', turn(100, 0.5))).not.toBeNull()
+    expect(persistTurnUsage(a.id, 'exec-a', turn(50, 0.25))).not.toBeNull()
+    expect(persistTurnUsage(b.id, 'exec-b', turn(20, 1))).not.toBeNull()
+
+    const usage = expectSuccess(
+      await get<UsageSummary>(`/api/projects/${projectId}/usage?days=7`),
+    )
+    const rowA = usage.byIssue!.find((r) => r.issueId === a.id)!
+    expect(rowA.turns).toBe(2)
+    expect(rowA.inputTokens).toBe(150)
+    expect(rowA.cacheReadTokens).toBe(10)
+    expect(rowA.costUsd).toBeCloseTo(0.75)
+    // Sorted by cost, most expensive first
+    expect(usage.byIssue![0]!.issueId).toBe(b.id)
+    expect(usage.totals.costUsd).toBeGreaterThanOrEqual(1.75)
+    expect(usage.byModel.find((m) => m.model === 'test-model')!.turns).toBe(3)
+  })
+
+  test('Claude turns of one process are charged their own cost', async () => {
+    const issue = await createIssue('Two turns', 'todo')
+    // Claude reports the process's running total after every turn
+    const result = (total: number) =>
+      JSON.stringify({
+        type: 'result',
+        subtype: 'success',
+        total_cost_usd: total,
+        usage: { input_tokens: 10, output_tokens: 5 },
+      })
+    const stream = new Response(`${result(0.5)}\n${result(0.8)}\n`)
+      .body as ReadableStream<Uint8Array>
+    const managed = {
+      reportedCostUsd: 0,
+      metaTurn: false,
+      cancelledByUser: false,
+    } as ManagedProcess
+    const normalizer = new ClaudeLogNormalizer()
+
+    await consumeStream(
+      'exec-claude',
+      issue.id,
+      stream,
+      normalizer.parse.bind(normalizer),
+      {
+        getManaged: () => managed,
+        getTurnIndex: () => 0,
+        onEntry: () => {},
+        onTurnCompleted: () => {},
+        onBudgetCheck: () => {},
+        onStreamError: (error) => {
+          throw error
+        },
+      },
+    )
+
+    const usage = expectSuccess(await issueUsage(issue.id))
+    expect(usage.totals.turns).toBe(2)
+    expect(usage.totals.costUsd).toBeCloseTo(0.8)
+  })
+
+  test('turns without usage are not recorded', async () => {
+    const issue = await createIssue('No usage', 'todo')
+    const id = persistTurnUsage(issue.id, 'exec-none', {
+      entryType: 'system-message',
+      content: 'Turn completed',
+      metadata: { turnCompleted: true },
+    })
+    expect(id).toBeNull()
+    const usage = expectSuccess(await issueUsage(issue.id))
+    expect(usage.totals.turns).toBe(0)
+    expect(usage.daily).toEqual([])
+  })
+
+  test('unknown issue returns 404', async () => {
+    expectError(await issueUsage('nonexistent'), 404)
+  })
+})
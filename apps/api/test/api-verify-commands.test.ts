@@ -0,0 +1,229 @@
+import { describe, expect, test } from 'bun:test'
+import { join } from 'node:path'
+import { runVerifyCommand } from '@/engines/issue/verification'
+import {
+  api,
+  createScriptProfile,
+  expectError,
+  expectSuccess,
+  fakeClaude,
+  get,
+  patch,
+  post,
+  useTempProject,
+  waitFor,
+} from './helpers'
+/**
+ * Verification command tests — CRUD per project, running a command, and the
+ * checks after a Claude turn (played by a script that answers every prompt).
+ */
+import './setup'
+
+interface VerifyCommand {
+  id: string
+  name: string
+  command: string
+  enabled: boolean
+}
+
+interface LogEntry {
+  entryType: string
+  content: string
+  metadata?: Record<string, unknown>
+}
+
+// Answers one prompt and exits; follow-ups start a new process
+const FAKE_CLAUDE = fakeClaude(`if (msg.type === 'user') reply('All done')`)
+
+const project = useTempProject('Verification')
+
+const verifyUrl = () => `/api/projects/${project.id}/verify-commands`
+
+describe('verification command CRUD', () => {
+  test('creates, updates and deletes a command', async () => {
+    const created = expectSuccess(
+      await post<VerifyCommand>(verifyUrl(), {
+        name: ' lint ',
+        command: 'bun run lint',
+      }),
+    )
+    expect(created).toMatchObject({
+      name: 'lint',
+      command: 'bun run lint',
+      enabled: true,
+    })
+
+    const updated = expectSuccess(
+      await patch<VerifyCommand>(`${verifyUrl()}/${created.id}`, {
+        enabled: false,
+      }),
+    )
+    expect(updated.enabled).toBe(false)
+
+    expectSuccess(await api('DELETE', `${verifyUrl()}/${created.id}`))
+    expect(expectSuccess(await get<VerifyCommand[]>(verifyUrl()))).toEqual([])
+  })
+
+  test('rejects empty commands and unknown ids', async () => {
+    expectError(await post(verifyUrl(), { name: 'test', command: ' ' }), 400)
+    expectError(await patch(`${verifyUrl()}/missing`, {}), 404)
+  })
+
+  test('the project stores how many fixes to ask for', async () => {
+    const updated = expectSuccess(
+      await patch<{ verifyFixAttempts: number }>(
+        `/api/projects/${project.id}`,
+        {
+          verifyFixAttempts: 1,
+        },
+      ),
+    )
+    expect(updated.verifyFixAttempts).toBe(1)
+    expectError(
+      await patch(`/api/projects/${project.id}`, { verifyFixAttempts: -1 }),
+      400,
+    )
+  })
+})
+
+describe('runVerifyCommand', () => {
+  test('captures stdout and stderr in the working directory', async () => {
+    const result = await runVerifyCommand(
+      { name: 'check', command: 'pwd; echo "$GREETING" >&2; exit 3' },
+      project.dir,
+      { GREETING: 'hello' },
+    )
+    expect(result).toMatchObject({
+      exitCode: 3,
+      passed: false,
+      timedOut: false,
+    })
+    expect(result.output.split('\n')).toEqual([project.dir, 'hello'])
+  })
+
+  test('a timeout kills the whole pipeline and keeps partial output', async () => {
+    const result = await runVerifyCommand(
+      { name: 'slow', command: 'echo started; sleep 8 | cat' },
+      project.dir,
+      {},
+      500,
+    )
+    expect(result).toMatchObject({
+      exitCode: null,
+      passed: false,
+      timedOut: true,
+    })
+    expect(result.durationMs).toBeLessThan(3000)
+    expect(result.output).toStartWith('started\n')
+    expect(result.output).toContain('timed out')
+  })
+})
+
+describe('after a turn', () => {
+  test('failing checks are logged, sent back once, then the issue settles', async () => {
+    expectSuccess(
+      await post(verifyUrl(), { name: 'test', command: 'echo broken; exit 1' }),
+    )
+    const profile = await createScriptProfile(
+      join(project.scriptDir, 'claude.ts'),
+      FAKE_CLAUDE,
+      { name: 'Verified Claude', engineType: 'claude-code' },
+    )
+    const issue = expectSuccess(
+      await post<{ id: string }>(`/api/projects/${project.id}/issues`, {
+        title: 'Fix the build',
+        statusId: 'working',
+        engineProfileId: profile.id,
+      }),
+    )
+
+    let logs: LogEntry[] = []
+    await waitFor(async () => {
+      const data = expectSuccess(
+        await get<{ logs: LogEntry[] }>(
+          `/api/projects/${project.id}/issues/${issue.id}/logs?limit=100`,
+        ),
+      )
+      logs = data.logs
+      const current = expectSuccess(
+        await get<{ statusId: string }>(
+          `/api/projects/${project.id}/issues/${issue.id}`,
+        ),
+      )
+      return current.statusId === 'review'
+    }, 15000)
+
+    const checks = logs.filter(
+      (log) => log.metadata?.subtype === 'verification',
+    )
+    expect(checks).toHaveLength(2)
+    expect(checks[0]!.content).toBe('broken')
+    expect(checks[0]!.metadata).toMatchObject({
+      name: 'test',
+      exitCode: 1,
+      passed: false,
+    })
+    const fixes = logs.filter(
+      (log) => log.metadata?.subtype === 'verification_fix',
+    )
+    expect(fixes).toHaveLength(1)
+    expect(fixes[0]!.metadata?.attempt).toBe(1)
+
+    const settled = expectSuccess(
+      await get<{ verifyStatus: string | null }>(
+        `/api/projects/${project.id}/issues/${issue.id}`,
+      ),
+    )
+    expect(settled.verifyStatus).toBe('failed')
+  })
+  test('checks of a turn superseded by a follow-up are dropped', async () => {
+    expectSuccess(
+      await patch(`/api/projects/${project.id}`, { verifyFixAttempts: 0 }),
+    )
+    for (const command of expectSuccess(
+      await get<VerifyCommand[]>(verifyUrl()),
+    )) {
+      await patch(`${verifyUrl()}/${command.id}`, { enabled: false })
+    }
+    expectSuccess(
+      await post(verifyUrl(), {
+        name: 'slow',
+        command:
+          'n=$(($(cat runs 2>/dev/null) + 1)); echo $n > runs; echo run $n; sleep 1; exit 1',
+      }),
+    )
+    const profile = await createScriptProfile(
+      join(project.scriptDir, 'claude.ts'),
+      FAKE_CLAUDE,
+      { name: 'Interrupted Claude', engineType: 'claude-code' },
+    )
+    const issue = expectSuccess(
+      await post<{ id: string }>(`/api/projects/${project.id}/issues`, {
+        title: 'Keep going',
+        statusId: 'working',
+        engineProfileId: profile.id,
+      }),
+    )
+    const url = `/api/projects/${project.id}/issues/${issue.id}`
+    const current = async () =>
+      expectSuccess(
+        await get<{ statusId: string; verifyStatus: string | null }>(url),
+      )
+
+    await waitFor(async () => (await current()).verifyStatus === 'running')
+    expectSuccess(await post(`${url}/follow-up`, { prompt: 'One more thing' }))
+    await waitFor(async () => {
+      const latest = await current()
+      return latest.statusId === 'review' && latest.verifyStatus === 'failed'
+    }, 15000)
+
+    // Only the follow-up's turn was checked
+    const { logs } = expectSuccess(
+      await get<{ logs: LogEntry[] }>(`${url}/logs?limit=100`),
+    )
+    const checks = logs.filter(
+      (log) => log.metadata?.subtype === 'verification',
+    )
+    expect(checks.map((check) => check.content)).toEqual(['run 2'])
+  })
+})
@@ -0,0 +1,265 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import {
+  registerWebhookEvents,
+  runDueDeliveries,
+  signPayload,
+} from '@/jobs/webhooks'
+import {
+  api,
+  createTestIssue,
+  createTestProject,
+  expectError,
+  expectSuccess,
+  get,
+  patch,
+  post,
+  waitFor,
+} from './helpers'
+/**
+ * Webhook tests — CRUD and validation, signed delivery of issue lifecycle
+ * events to a local receiver, retries with backoff, and redelivery.
+ */
+import './setup'
+
+interface Webhook {
+  id: string
+  url: string
+  events: string[]
+  enabled: boolean
+  secret?: string
+}
+
+interface Delivery {
+  id: string
+  event: string
+  status: string
+  attempts: number
+  responseStatus: number | null
+  error: string | null
+  nextAttemptAt: string | null
+}
+
+interface Received {
+  event: string | null
+  delivery: string | null
+  signature: string | null
+  body: string
+  payload: {
+    event: string
+    issue: { id: string; statusId: string }
+    finalStatus?: string
+  }
+}
+
+const SECRET = 'test-secret'
+
+let receiver: ReturnType<typeof Bun.serve>
+let received: Received[] = []
+let failNext = 0
+let unregister: () => void
+
+beforeAll(() => {
+  receiver = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const body = await req.text()
+      received.push({
+        event: req.headers.get('X-BitK-Event'),
+        delivery: req.headers.get('X-BitK-Delivery'),
+        signature: req.headers.get('X-BitK-Signature'),
+        body,
+        payload: JSON.parse(body),
+      })
+      if (failNext > 0) {
+        failNext--
+        return new Response('nope', { status: 500 })
+      }
+      return new Response('ok')
+    },
+  })
+  unregister = registerWebhookEvents()
+})
+
+afterAll(() => {
+  unregister()
+  receiver.stop(true)
+})
+
+function receiverUrl() {
+  return `http://localhost:${receiver.port}/hook`
+}
+
+async function setup(events: string[] = []) {
+  const projectId = await createTestProject('Webhook Project')
+  const hook = expectSuccess(
+    await post<Webhook>(`/api/projects/${projectId}/webhooks`, {
+      url: receiverUrl(),
+      secret: SECRET,
+      events,
+    }),
+  )
+  received = []
+  return { projectId, hook }
+}
+
+async function deliveries(projectId: string, hookId: string) {
+  return expectSuccess(
+    await get<Delivery[]>(
+      `/api/projects/${projectId}/webhooks/${hookId}/deliveries`,
+    ),
+  )
+}
+
+describe('webhook CRUD', () => {
+  test('creates, lists, updates and deletes without exposing the secret', async () => {
+    const { projectId, hook } = await setup(['issue.created'])
+    expect(hook.events).toEqual(['issue.created'])
+    expect(hook.secret).toBeUndefined()
+
+    const listed = expectSuccess(
+      await get<Webhook[]>(`/api/projects/${projectId}/webhooks`),
+    )
+    expect(listed.map((h) => h.id)).toEqual([hook.id])
+
+    const updated = expectSuccess(
+      await patch<Webhook>(`/api/projects/${projectId}/webhooks/${hook.id}`, {
+        events: [],
+        enabled: false,
+      }),
+    )
+    expect(updated.events).toEqual([])
+    expect(updated.enabled).toBe(false)
+
+    expectSuccess(
+      await api('DELETE', `/api/projects/${projectId}/webhooks/${hook.id}`),
+    )
+    const after = expectSuccess(
+      await get<Webhook[]>(`/api/projects/${projectId}/webhooks`),
+    )
+    expect(after).toHaveLength(0)
+  })
+
+  test('rejects non-http URLs, missing secrets and unknown events', async () => {
+    const projectId = await createTestProject('Webhook Validation')
+    const path = `/api/projects/${projectId}/webhooks`
+    expectError(
+      await post(path, { url: 'ftp://example.com', secret: SECRET }),
+      400,
+    )
+    expectError(await post(path, { url: receiverUrl() }), 400)
+    expectError(
+      await post(path, {
+        url: receiverUrl(),
+        secret: SECRET,
+        events: ['issue.exploded'],
+      }),
+      400,
+    )
+  })
+})
+
+describe('webhook delivery', () => {
+  test('sends signed issue.created and status change events', async () => {
+    const { projectId, hook } = await setup([
+      'issue.created',
+      'issue.status_changed',
+    ])
+    const issue = expectSuccess(
+      await createTestIssue(projectId, { title: 'Hooked' }),
+    ) as { id: string }
+    await waitFor(async () => received.length >= 1)
+
+    const [created] = received
+    expect(created!.event).toBe('issue.created')
+    expect(created!.payload.issue.id).toBe(issue.id)
+    expect(created!.signature).toBe(signPayload(SECRET, created!.body))
+
+    expectSuccess(
+      await patch(`/api/projects/${projectId}/issues/${issue.id}`, {
+        statusId: 'done',
+      }),
+    )
+    await waitFor(async () => received.length >= 2)
+    expect(received[1]!.event).toBe('issue.status_changed')
+    expect(received[1]!.payload.issue.statusId).toBe('done')
+
+    const log = await deliveries(projectId, hook.id)
+    expect(log).toHaveLength(2)
+    expect(log.every((d) => d.status === 'delivered')).toBe(true)
+  })
+
+  test('reports the final status when a session settles', async () => {
+    const { projectId } = await setup(['session.settled'])
+    const issue = expectSuccess(
+      await createTestIssue(projectId, { statusId: 'working' }),
+    ) as { id: string }
+
+    await waitFor(async () => received.length >= 1, 10000)
+    expect(received[0]!.event).toBe('session.settled')
+    expect(received[0]!.payload.issue.id).toBe(issue.id)
+    expect(received[0]!.payload.finalStatus).toBe('completed')
+  })
+
+  test('retries failed deliveries with backoff and supports redelivery', async () => {
+    const { projectId, hook } = await setup(['issue.created'])
+    failNext = 1
+    expectSuccess(await createTestIssue(projectId, { title: 'Flaky' }))
+
+    await waitFor(async () => {
+      const [d] = await deliveries(projectId, hook.id)
+      return d?.attempts === 1
+    })
+    const [pending] = await deliveries(projectId, hook.id)
+    expect(pending!.status).toBe('pending')
+    expect(pending!.responseStatus).toBe(500)
+    expect(new Date(pending!.nextAttemptAt!).getTime()).toBeGreaterThan(
+      Date.now(),
+    )
+
+    // Once the backoff has elapsed the next tick delivers it
+    await runDueDeliveries(new Date(Date.now() + 60 * 60_000))
+    const [retried] = await deliveries(projectId, hook.id)
+    expect(retried!.status).toBe('delivered')
+    expect(retried!.attempts).toBe(2)
+
+    const again = expectSuccess(
+      await post<Delivery>(
+        `/api/projects/${projectId}/webhooks/${hook.id}/deliveries/${retried!.id}/redeliver`,
+        {},
+      ),
+    )
+    expect(again.id).not.toBe(retried!.id)
+    expect(again.status).toBe('delivered')
+    expect(received).toHaveLength(3)
+    expect(received[2]!.body).toBe(received[0]!.body)
+    expect(received[2]!.delivery).toBe(again.id)
+  })
+
+  test('holds queued retries while the webhook is disabled', async () => {
+    const { projectId, hook } = await setup(['issue.created'])
+    failNext = 1
+    expectSuccess(await createTestIssue(projectId, { title: 'Paused' }))
+    await waitFor(async () => {
+      const [d] = await deliveries(projectId, hook.id)
+      return d?.attempts === 1
+    })
+
+    expectSuccess(
+      await patch(`/api/projects/${projectId}/webhooks/${hook.id}`, {
+        enabled: false,
+      }),
+    )
+    const later = new Date(Date.now() + 60 * 60_000)
+    expect(await runDueDeliveries(later)).toBe(0)
+    expect(received).toHaveLength(1)
+
+    expectSuccess(
+      await patch(`/api/projects/${projectId}/webhooks/${hook.id}`, {
+        enabled: true,
+      }),
+    )
+    expect(await runDueDeliveries(later)).toBe(1)
+    const [resumed] = await deliveries(projectId, hook.id)
+    expect(resumed!.status).toBe('delivered')
+  })
+})
@@ -0,0 +1,249 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { createWorktree } from '@/engines/issue/utils/worktree'
+import {
+  api,
+  expectError,
+  expectSuccess,
+  get,
+  patch,
+  post,
+  waitFor,
+} from './helpers'
+/**
+ * Worktree integration tests — branch diff, squash / rebase merges,
+ * structured conflicts and cleanup, against a throwaway git repository.
+ */
+import './setup'
+
+interface WorktreeInfo {
+  branch: string
+  baseBranch: string | null
+  hasWorktree: boolean
+  hasBranch: boolean
+  ahead: number
+  behind: number
+  uncommittedFiles: number
+  files: Array<{
+    path: string
+    status: string
+    additions: number
+    deletions: number
+  }>
+}
+
+type MergeResult =
+  | { merged: true; commit: string; cleanedUp: boolean }
+  | {
+      merged: false
+      conflicts: Array<{ path: string; status: string; reason: string }>
+    }
+
+let repo: string
+let projectId: string
+
+function git(args: string[], cwd = repo) {
+  const proc = Bun.spawnSync(['git', ...args], { cwd })
+  return proc.stdout.toString().trim()
+}
+
+function commitFile(cwd: string, file: string, content: string) {
+  writeFileSync(join(cwd, file), content)
+  git(['add', file], cwd)
+  git(['commit', '-q', '-m', `update ${file}`], cwd)
+}
+
+async function createWorktreeIssue(title: string) {
+  const issue = expectSuccess(
+    await post<{ id: string }>(`/api/projects/${projectId}/issues`, {
+      title,
+      statusId: 'todo',
+      useWorktree: true,
+    }),
+  )
+  const dir = await createWorktree(repo, issue.id)
+  return { id: issue.id, dir }
+}
+
+function worktreePath(issueId: string) {
+  return `/api/projects/${projectId}/issues/${issueId}/worktree`
+}
+
+beforeAll(async () => {
+  repo = mkdtempSync(join(tmpdir(), 'bitk-worktree-test-'))
+  git(['init', '-q', '-b', 'main'])
+  git(['config', 'user.email', 'test@example.com'])
+  git(['config', 'user.name', 'Test'])
+  commitFile(repo, 'a.txt', 'one\ntwo\nthree\n')
+
+  const project = expectSuccess(
+    await post<{ id: string }>('/api/projects', {
+      name: 'Worktree Test',
+      directory: repo,
+    }),
+  )
+  projectId = project.id
+})
+
+afterAll(() => {
+  rmSync(repo, { recursive: true, force: true })
+})
+
+describe('GET /worktree', () => {
+  test('diffs the branch and its working tree against the base', async () => {
+    const { id, dir } = await createWorktreeIssue('Diff')
+    commitFile(dir, 'a.txt', 'one\ntwo\nthree\nfour\n')
+    writeFileSync(join(dir, 'new.txt'), 'hello\n')
+
+    const info = expectSuccess(await get<WorktreeInfo>(worktreePath(id)))
+    expect(info.branch).toBe(`bitk/${id}`)
+    expect(info.baseBranch).toBe('main')
+    expect(info.ahead).toBe(1)
+    expect(info.uncommittedFiles).toBe(1)
+    expect(info.files).toEqual([
+      { path: 'a.txt', status: 'M', additions: 1, deletions: 0 },
+      { path: 'new.txt', status: '?', additions: 1, deletions: 0 },
+    ])
+
+    const file = expectSuccess(
+      await get<{ patch: string }>(`${worktreePath(id)}/file?path=new.txt`),
+    )
+    expect(file.patch).toContain('+hello')
+    expectError(await get(`${worktreePath(id)}/file?path=../x`), 400)
+  })
+
+  test('issues without a worktree are rejected', async () => {
+    const issue = expectSuccess(
+      await post<{ id: string }>(`/api/projects/${projectId}/issues`, {
+        title: 'Plain',
+        statusId: 'todo',
+      }),
+    )
+    expectError(await get(worktreePath(issue.id)), 400)
+  })
+})
+
+describe('POST /worktree/merge', () => {
+  test('squash-merges uncommitted work and cleans up', async () => {
+    const { id, dir } = await createWorktreeIssue('Squash')
+    writeFileSync(join(dir, 'squash.txt'), 'squashed\n')
+
+    const result = expectSuccess(
+      await post<MergeResult>(`${worktreePath(id)}/merge`, {
+        strategy: 'squash',
+        message: 'Squash merge',
+      }),
+    )
+    expect(result.merged).toBe(true)
+    expect(existsSync(join(repo, 'squash.txt'))).toBe(true)
+    expect(git(['log', '-1', '--format=%s'])).toBe('Squash merge')
+    expect(existsSync(dir)).toBe(false)
+    expect(git(['branch', '--list', `bitk/${id}`])).toBe('')
+  })
+
+  test('rebases the branch and fast-forwards the base', async () => {
+    const { id, dir } = await createWorktreeIssue('Rebase')
+    commitFile(dir, 'rebased.txt', 'rebased\n')
+    commitFile(repo, 'base.txt', 'moved on\n')
+
+    const result = expectSuccess(
+      await post<MergeResult>(`${worktreePath(id)}/merge`, {
+        strategy: 'rebase',
+      }),
+    )
+    expect(result.merged).toBe(true)
+    expect(git(['log', '-2', '--format=%s'])).toBe(
+      'update rebased.txt\nupdate base.txt',
+    )
+  })
+
+  test('reports conflicts and leaves both checkouts clean', async () => {
+    const { id, dir } = await createWorktreeIssue('Conflict')
+    commitFile(dir, 'a.txt', 'ours\n')
+    commitFile(repo, 'a.txt', 'theirs\n')
+
+    for (const strategy of ['squash', 'rebase']) {
+      const result = expectSuccess(
+        await post<MergeResult>(`${worktreePath(id)}/merge`, { strategy }),
+      )
+      expect(result.merged).toBe(false)
+      if (!result.merged) {
+        expect(result.conflicts).toEqual([
+          { path: 'a.txt', status: 'UU', reason: 'both modified' },
+        ])
+      }
+      expect(git(['status', '--porcelain', '--untracked-files=no'])).toBe('')
+      expect(git(['status', '--porcelain'], dir)).toBe('')
+    }
+  })
+
+  test('refuses to merge over a dirty project directory', async () => {
+    const { id, dir } = await createWorktreeIssue('Dirty base')
+    commitFile(dir, 'dirty.txt', 'x\n')
+    writeFileSync(join(repo, 'a.txt'), 'uncommitted\n')
+    try {
+      expectError(await post(`${worktreePath(id)}/merge`, {}), 409)
+    } finally {
+      git(['checkout', '--', 'a.txt'])
+    }
+  })
+})
+
+describe('worktree cleanup', () => {
+  test('DELETE keeps unmerged work unless forced', async () => {
+    const { id, dir } = await createWorktreeIssue('Unmerged')
+    commitFile(dir, 'unmerged.txt', 'keep me\n')
+
+    expectError(await api('DELETE', worktreePath(id)), 409)
+    expectSuccess(await api('DELETE', `${worktreePath(id)}?force=true`))
+    expect(existsSync(dir)).toBe(false)
+  })
+
+  test('closing an issue removes a worktree with nothing to merge', async () => {
+    const { id, dir } = await createWorktreeIssue('Close')
+    expectSuccess(
+      await patch(`/api/projects/${projectId}/issues/${id}`, {
+        statusId: 'done',
+      }),
+    )
+    // The branch is deleted after the directory, so wait for both
+    await waitFor(
+      async () =>
+        !existsSync(dir) && git(['branch', '--list', `bitk/${id}`]) === '',
+      5000,
+    )
+    expect(existsSync(dir)).toBe(false)
+    expect(git(['branch', '--list', `bitk/${id}`])).toBe('')
+  })
+  test('a squash-merged branch is cleaned up when the issue closes', async () => {
+    const { id, dir } = await createWorktreeIssue('Squash then close')
+    commitFile(dir, 'kept.txt', 'kept\n')
+    expectSuccess(
+      await post<MergeResult>(`${worktreePath(id)}/merge`, {
+        strategy: 'squash',
+        message: 'Squash kept',
+        cleanup: false,
+      }),
+    )
+    commitFile(repo, 'later.txt', 'base moved on\n')
+
+    // The squash commit already holds the branch, so it is not merged twice
+    expectError(
+      await post(`${worktreePath(id)}/merge`, { strategy: 'squash' }),
+      409,
+    )
+    expectSuccess(
+      await patch(`/api/projects/${projectId}/issues/${id}`, {
+        statusId: 'done',
+      }),
+    )
+    await waitFor(
+      async () =>
+        !existsSync(dir) && git(['branch', '--list', `bitk/${id}`]) === '',
+      5000,
+    )
+    expect(existsSync(dir)).toBe(false)
+  })
+})
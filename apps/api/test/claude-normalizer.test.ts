@@ -99,6 +99,24 @@ describe('ClaudeLogNormalizer', () => {
       expect(entries[0]!.toolAction?.kind).toBe('command-run')
     })
 
+    test('MCP tool_use carries the server name', () => {
+      const entries = parseAll(
+        normalizer,
+        line({
+          type: 'tool_use',
+          name: 'mcp__docs__search',
+          id: 'tu_3',
+          input: { q: 'hooks' },
+        }),
+      )
+      expect(entries[0]!.toolAction).toEqual({
+        kind: 'tool',
+        toolName: 'search',
+        server: 'docs',
+        arguments: { q: 'hooks' },
+      })
+    })
+
     test('tool_result', () => {
       const entries = parseAll(
         normalizer,
@@ -155,6 +173,32 @@ describe('ClaudeLogNormalizer', () => {
       expect(entries[0]!.metadata?.turnCompleted).toBe(true)
     })
 
+    test('result with nested usage and total cost', () => {
+      const entries = parseAll(
+        normalizer,
+        line({
+          type: 'result',
+          subtype: 'success',
+          total_cost_usd: 0.25,
+          usage: {
+            input_tokens: 12,
+            output_tokens: 340,
+            cache_read_input_tokens: 9000,
+            cache_creation_input_tokens: 1200,
+          },
+          modelUsage: { 'claude-sonnet-4-5': { inputTokens: 12 } },
+        }),
+      )
+      expect(entries[0]!.metadata).toMatchObject({
+        costUsd: 0.25,
+        inputTokens: 12,
+        outputTokens: 340,
+        cacheReadTokens: 9000,
+        cacheWriteTokens: 1200,
+        model: 'claude-sonnet-4-5',
+      })
+    })
+
     test('thinking-only blocks return null', () => {
       const result = normalizer.parse(
         line({
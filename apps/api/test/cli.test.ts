@@ -0,0 +1,124 @@
+import { afterAll, beforeAll, describe, expect, spyOn, test } from 'bun:test'
+import app from '@/app'
+import { runCli } from '@/cli'
+import { createTestProject, patch } from './helpers'
+/**
+ * CLI tests — run `bitk` commands against a live server on a random port
+ * and check their output and exit codes.
+ */
+import './setup'
+
+let server: ReturnType<typeof Bun.serve>
+let projectId: string
+
+async function bitk(...args: string[]) {
+  const chunks: string[] = []
+  const stdout = spyOn(process.stdout, 'write').mockImplementation(
+    (chunk: string | Uint8Array) => {
+      chunks.push(String(chunk))
+      return true
+    },
+  )
+  const stderr = spyOn(process.stderr, 'write').mockImplementation(() => true)
+  try {
+    const code = await runCli([
+      ...args,
+      '--url',
+      `http://localhost:${server.port}`,
+      '--project',
+      projectId,
+    ])
+    return { code, out: chunks.join('') }
+  } finally {
+    stdout.mockRestore()
+    stderr.mockRestore()
+  }
+}
+
+beforeAll(async () => {
+  server = Bun.serve({ port: 0, idleTimeout: 60, fetch: app.fetch })
+  projectId = await createTestProject('CLI Project')
+})
+
+afterAll(() => {
+  server.stop(true)
+})
+
+describe('bitk issue', () => {
+  test('create prints the new issue as JSON', async () => {
+    const { code, out } = await bitk(
+      'issue',
+      'create',
+      'Write',
+      'release',
+      'notes',
+      '--engine',
+      'echo',
+      '--json',
+    )
+    expect(code).toBe(0)
+    const issue = JSON.parse(out)
+    expect(issue.title).toBe('Write release notes')
+    expect(issue.sessionStatus).toBeNull()
+
+    const status = await bitk('issue', 'status', `#${issue.issueNumber}`)
+    expect(status.code).toBe(0)
+    expect(status.out).toContain(`#${issue.issueNumber} Write release notes`)
+  })
+
+  test('create --run --follow streams the run and exits when it completes', async () => {
+    const { code, out } = await bitk(
+      'issue',
+      'create',
+      'Summarise the diff',
+      '--run',
+      '--engine',
+      'echo',
+      '--follow',
+      '--json',
+    )
+    expect(code).toBe(0)
+    const entries = out
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line) as { entryType: string })
+    expect(entries.some((e) => e.entryType === 'assistant-message')).toBe(true)
+  }, 15000)
+
+  test('execute, follow-up and logs --follow on an existing issue', async () => {
+    const issue = JSON.parse(
+      (
+        await bitk(
+          'issue',
+          'create',
+          'Check lint',
+          '--engine',
+          'echo',
+          '--json',
+        )
+      ).out,
+    ) as { id: string }
+    // Backlog issues cannot run; review issues move to the execution column
+    await patch(`/api/projects/${projectId}/issues/${issue.id}`, {
+      statusId: 'review',
+    })
+
+    const run = await bitk('issue', 'execute', issue.id, '--follow')
+    expect(run.code).toBe(0)
+    expect(run.out).toContain('[assistant]')
+
+    const followUp = await bitk('issue', 'follow-up', issue.id, 'again', '-f')
+    expect(followUp.code).toBe(0)
+
+    // The run has settled, so --follow prints the history and exits
+    const logs = await bitk('logs', issue.id, '--follow')
+    expect(logs.code).toBe(0)
+    expect(logs.out).toContain('[user] Check lint')
+    expect(logs.out).toContain('[user] again')
+  }, 20000)
+
+  test('unknown issues and commands fail with a non-zero code', async () => {
+    expect((await bitk('issue', 'status', '#9999')).code).toBe(1)
+    expect((await bitk('issue', 'frobnicate')).code).toBe(2)
+  })
+})
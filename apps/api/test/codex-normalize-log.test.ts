@@ -68,6 +68,26 @@ describe('CodexExecutor.normalizeLog', () => {
       expect(entry).toBeNull()
     })
 
+    test('mcpToolCall returns tool-use tagged with the server', () => {
+      const entry = normalize('item/started', {
+        item: {
+          type: 'mcpToolCall',
+          id: 'mcp-1',
+          server: 'docs',
+          tool: 'search',
+          arguments: { q: 'hooks' },
+        },
+      })
+      expect(entry!.entryType).toBe('tool-use')
+      expect(entry!.metadata?.streaming).toBe(true)
+      expect(entry!.toolAction).toEqual({
+        kind: 'tool',
+        toolName: 'search',
+        server: 'docs',
+        arguments: { q: 'hooks' },
+      })
+    })
+
     test('unknown item type returns null', () => {
       const entry = normalize('item/started', {
         item: { type: 'unknown_type' },
@@ -160,6 +180,35 @@ describe('CodexExecutor.normalizeLog', () => {
       expect(entry!.content).toBe('Done!')
     })
 
+    test('mcpToolCall returns the text result', () => {
+      const entry = normalize('item/completed', {
+        item: {
+          type: 'mcpToolCall',
+          id: 'mcp-1',
+          server: 'docs',
+          tool: 'search',
+          result: { content: [{ type: 'text', text: '3 matches' }] },
+        },
+      })
+      expect(entry!.content).toBe('3 matches')
+      expect(entry!.metadata?.isResult).toBe(true)
+      expect(entry!.toolAction).toMatchObject({
+        kind: 'tool',
+        server: 'docs',
+        result: '3 matches',
+      })
+
+      const failed = normalize('item/completed', {
+        item: {
+          type: 'mcpToolCall',
+          server: 'docs',
+          tool: 'search',
+          error: { message: 'server crashed' },
+        },
+      })
+      expect(failed!.content).toBe('server crashed')
+    })
+
     test('reasoning returns null', () => {
       const entry = normalize('item/completed', {
         item: { type: 'reasoning' },
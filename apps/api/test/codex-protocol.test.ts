@@ -213,6 +213,128 @@ describe('CodexProtocolHandler', () => {
     stdout.close()
   })
 
+  test('forwards approval requests to the approval handler', async () => {
+    const { sink, written } = createMockStdin()
+    const stdout = createMockStdout()
+    const requests: unknown[] = []
+
+    const handler = new CodexProtocolHandler(
+      sink,
+      stdout.stream,
+      5000,
+      async (request) => {
+        requests.push(request)
+        return 'deny'
+      },
+    )
+    await tick()
+
+    stdout.push(
+      JSON.stringify({
+        id: 101,
+        method: 'item/commandExecution/requestApproval',
+        params: { itemId: 'item-1', command: 'rm -rf build' },
+      }),
+    )
+    await tick()
+
+    expect(requests).toEqual([
+      {
+        toolName: 'Bash',
+        input: { itemId: 'item-1', command: 'rm -rf build' },
+        toolCallId: 'item-1',
+      },
+    ])
+    const approvalResp = written.find((w) => {
+      try {
+        const p = JSON.parse(w)
+        return p.id === 101 && p.result?.decision === 'decline'
+      } catch {
+        return false
+      }
+    })
+    expect(approvalResp).toBeTruthy()
+
+    handler.close()
+    stdout.close()
+  })
+
+  test('always-allow maps to acceptForSession', async () => {
+    const { sink, written } = createMockStdin()
+    const stdout = createMockStdout()
+
+    const handler = new CodexProtocolHandler(
+      sink,
+      stdout.stream,
+      5000,
+      async () => 'always-allow',
+    )
+    await tick()
+
+    stdout.push(
+      JSON.stringify({
+        id: 102,
+        method: 'item/fileChange/requestApproval',
+        params: { itemId: 'item-2' },
+      }),
+    )
+    await tick()
+
+    const approvalResp = written.find((w) => {
+      try {
+        const p = JSON.parse(w)
+        return p.id === 102 && p.result?.decision === 'acceptForSession'
+      } catch {
+        return false
+      }
+    })
+    expect(approvalResp).toBeTruthy()
+
+    handler.close()
+    stdout.close()
+  })
+
+  test('file change approvals carry the paths of the started item', async () => {
+    const { sink } = createMockStdin()
+    const stdout = createMockStdout()
+    const inputs: unknown[] = []
+
+    const handler = new CodexProtocolHandler(
+      sink,
+      stdout.stream,
+      5000,
+      async (request) => {
+        inputs.push(request.input)
+        return 'approve'
+      },
+    )
+    await tick()
+
+    stdout.push(
+      JSON.stringify({
+        method: 'item/started',
+        params: {
+          item: { type: 'fileChange', id: 'item-3', path: '.env.local' },
+        },
+      }),
+    )
+    stdout.push(
+      JSON.stringify({
+        id: 103,
+        method: 'item/fileChange/requestApproval',
+        params: { itemId: 'item-3' },
+      }),
+    )
+    await tick()
+
+    expect(inputs).toEqual([
+      { path: '.env.local', changes: undefined, itemId: 'item-3' },
+    ])
+
+    handler.close()
+    stdout.close()
+  })
+
   test('rejects unknown server requests with error', async () => {
     const { sink, written } = createMockStdin()
     const stdout = createMockStdout()
@@ -0,0 +1,69 @@
+import { describe, expect, test } from 'bun:test'
+import { nextCronRun, parseCron } from '@/utils/cron'
+
+/**
+ * Cron parser tests — field syntax and next-run computation. Dates are
+ * built in local time because schedules follow the server's time zone.
+ */
+
+function at(
+  year: number,
+  month: number,
+  day: number,
+  hour = 0,
+  minute = 0,
+): Date {
+  return new Date(year, month - 1, day, hour, minute)
+}
+
+describe('parseCron', () => {
+  test('expands lists, ranges and steps', () => {
+    const schedule = parseCron('0,30 9-17/4 * 1-3 mon-fri')
+    expect([...schedule.minute.values]).toEqual([0, 30])
+    expect([...schedule.hour.values]).toEqual([9, 13, 17])
+    expect([...schedule.month.values]).toEqual([1, 2, 3])
+    expect([...schedule.dayOfWeek.values]).toEqual([1, 2, 3, 4, 5])
+    expect(schedule.dayOfMonth.restricted).toBe(false)
+  })
+
+  test('accepts macros and 7 as Sunday', () => {
+    expect([...parseCron('@daily').hour.values]).toEqual([0])
+    expect([...parseCron('0 0 * * 7').dayOfWeek.values]).toEqual([0])
+  })
+
+  test('rejects malformed expressions', () => {
+    expect(() => parseCron('* * * *')).toThrow('5 fields')
+    expect(() => parseCron('60 * * * *')).toThrow('out of range')
+    expect(() => parseCron('*/0 * * * *')).toThrow('Invalid cron field')
+    expect(() => parseCron('5-1 * * * *')).toThrow('Invalid cron range')
+    expect(() => parseCron('x * * * *')).toThrow('Invalid cron value')
+  })
+})
+
+describe('nextCronRun', () => {
+  test('returns the next matching minute strictly after the given time', () => {
+    const after = at(2026, 3, 10, 14, 7)
+    expect(nextCronRun('*/15 * * * *', after)).toEqual(at(2026, 3, 10, 14, 15))
+    expect(nextCronRun('7 14 * * *', after)).toEqual(at(2026, 3, 11, 14, 7))
+  })
+
+  test('rolls over days, months and years', () => {
+    expect(nextCronRun('0 2 * * *', at(2026, 12, 31, 3))).toEqual(
+      at(2027, 1, 1, 2),
+    )
+    expect(nextCronRun('0 0 1 * *', at(2026, 1, 15))).toEqual(at(2026, 2, 1))
+  })
+
+  test('matches either day field when both are restricted', () => {
+    // 2026-03-10 is a Tuesday; next is the 13th (Friday) before the 15th
+    expect(nextCronRun('0 9 15 * fri', at(2026, 3, 10))).toEqual(
+      at(2026, 3, 13, 9),
+    )
+  })
+
+  test('throws for expressions that never fire', () => {
+    expect(() => nextCronRun('0 0 30 2 *', at(2026, 1, 1))).toThrow(
+      'never fires',
+    )
+  })
+})
@@ -0,0 +1,201 @@
+/**
+ * Scripted fake ACP agent used by the Gemini executor tests.
+ *
+ * Speaks JSON-RPC 2.0 over stdio like `gemini --experimental-acp`. Every
+ * prompt runs the same short script: stream a reply, make a read tool call,
+ * ask for permission to run a command, then finish the turn. Prompts
+ * containing a keyword change the script:
+ *   - "wait-for-cancel": stream one chunk, then block until session/cancel
+ *   - "fail": answer the prompt with a JSON-RPC error
+ *
+ * Flags:
+ *   --no-load-session  advertise `loadSession: false` in initialize
+ */
+import { createInterface } from 'node:readline'
+
+type Message = {
+  jsonrpc?: '2.0'
+  id?: number | string
+  method?: string
+  params?: Record<string, unknown>
+  result?: unknown
+  error?: unknown
+}
+
+const loadSession = !process.argv.includes('--no-load-session')
+const pendingAgentRequests = new Map<string, (result: unknown) => void>()
+const cancelWaiters = new Map<string, () => void>()
+let sessionCounter = 0
+let requestCounter = 0
+
+function send(message: Message): void {
+  process.stdout.write(`${JSON.stringify({ jsonrpc: '2.0', ...message })}\n`)
+}
+
+function update(sessionId: string, payload: Record<string, unknown>): void {
+  send({ method: 'session/update', params: { sessionId, update: payload } })
+}
+
+function requestFromClient(
+  method: string,
+  params: Record<string, unknown>,
+): Promise<unknown> {
+  const id = `agent-${++requestCounter}`
+  return new Promise((resolve) => {
+    pendingAgentRequests.set(id, resolve)
+    send({ id, method, params })
+  })
+}
+
+async function runPrompt(id: Message['id'], params: Record<string, unknown>) {
+  const sessionId = String(params.sessionId)
+  const blocks = (params.prompt ?? []) as Array<{ text?: string }>
+  const text = blocks.map((b) => b.text ?? '').join('')
+
+  if (text.includes('fail')) {
+    send({ id, error: { code: -32603, message: 'scripted failure' } })
+    return
+  }
+
+  if (text.includes('wait-for-cancel')) {
+    update(sessionId, {
+      sessionUpdate: 'agent_message_chunk',
+      content: { type: 'text', text: 'Working...' },
+    })
+    await new Promise<void>((resolve) => cancelWaiters.set(sessionId, resolve))
+    send({ id, result: { stopReason: 'cancelled' } })
+    return
+  }
+
+  update(sessionId, {
+    sessionUpdate: 'agent_message_chunk',
+    content: { type: 'text', text: 'You said: ' },
+  })
+  update(sessionId, {
+    sessionUpdate: 'agent_message_chunk',
+    content: { type: 'text', text },
+  })
+  update(sessionId, {
+    sessionUpdate: 'tool_call',
+    toolCallId: 'call-read',
+    title: 'ReadFile',
+    kind: 'read',
+    status: 'pending',
+    locations: [{ path: 'README.md' }],
+    rawInput: { absolute_path: 'README.md' },
+  })
+  update(sessionId, {
+    sessionUpdate: 'tool_call_update',
+    toolCallId: 'call-read',
+    status: 'completed',
+    content: [{ type: 'content', content: { type: 'text', text: '# Readme' } }],
+  })
+
+  const toolCall = {
+    toolCallId: 'call-exec',
+    title: 'ls -la',
+    kind: 'execute',
+    status: 'pending',
+    rawInput: { command: 'ls -la' },
+  }
+  update(sessionId, { sessionUpdate: 'tool_call', ...toolCall })
+  const permission = (await requestFromClient('session/request_permission', {
+    sessionId,
+    toolCall,
+    options: [
+      { optionId: 'allow', name: 'Allow', kind: 'allow_once' },
+      { optionId: 'reject', name: 'Reject', kind: 'reject_once' },
+    ],
+  })) as { outcome?: { outcome?: string; optionId?: string } }
+  const allowed = permission?.outcome?.optionId === 'allow'
+  update(sessionId, {
+    sessionUpdate: 'tool_call_update',
+    toolCallId: 'call-exec',
+    status: allowed ? 'completed' : 'failed',
+    content: [
+      {
+        type: 'content',
+        content: { type: 'text', text: allowed ? 'total 0' : 'denied' },
+      },
+    ],
+  })
+
+  update(sessionId, {
+    sessionUpdate: 'agent_message_chunk',
+    content: { type: 'text', text: 'Done.' },
+  })
+  send({
+    id,
+    result: {
+      stopReason: 'end_turn',
+      usage: { inputTokens: 12, outputTokens: 5 },
+    },
+  })
+}
+
+function handle(msg: Message): void {
+  // Response to a request this agent sent
+  if (msg.method === undefined && msg.id !== undefined) {
+    const resolve = pendingAgentRequests.get(String(msg.id))
+    pendingAgentRequests.delete(String(msg.id))
+    resolve?.(msg.result)
+    return
+  }
+
+  const params = msg.params ?? {}
+  switch (msg.method) {
+    case 'initialize':
+      send({
+        id: msg.id,
+        result: {
+          protocolVersion: 1,
+          agentCapabilities: { loadSession },
+          authMethods: [],
+        },
+      })
+      return
+    case 'session/new':
+      send({ id: msg.id, result: { sessionId: `fake-${++sessionCounter}` } })
+      return
+    case 'session/load': {
+      const sessionId = String(params.sessionId)
+      if (!sessionId.startsWith('fake-')) {
+        send({
+          id: msg.id,
+          error: { code: -32002, message: `Session not found: ${sessionId}` },
+        })
+        return
+      }
+      // Replay history before answering, as real agents do
+      update(sessionId, {
+        sessionUpdate: 'agent_message_chunk',
+        content: { type: 'text', text: 'replayed history' },
+      })
+      send({ id: msg.id, result: null })
+      return
+    }
+    case 'session/prompt':
+      void runPrompt(msg.id, params)
+      return
+    case 'session/cancel': {
+      const sessionId = String(params.sessionId)
+      cancelWaiters.get(sessionId)?.()
+      cancelWaiters.delete(sessionId)
+      return
+    }
+    default:
+      if (msg.id !== undefined) {
+        send({
+          id: msg.id,
+          error: { code: -32601, message: `Method not found: ${msg.method}` },
+        })
+      }
+  }
+}
+
+const rl = createInterface({ input: process.stdin })
+rl.on('line', (line) => {
+  if (!line.trim()) return
+  handle(JSON.parse(line) as Message)
+})
+rl.on('close', () => process.exit(0))
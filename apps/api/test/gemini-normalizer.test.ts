@@ -0,0 +1,266 @@
+import { describe, expect, test } from 'bun:test'
+import { GeminiLogNormalizer } from '@/engines/executors/gemini'
+import type { NormalizedLogEntry } from '@/engines/types'
+import type { WriteFilterRule } from '@/engines/write-filter'
+
+const READ_RULE: WriteFilterRule = {
+  id: 'read',
+  type: 'tool-name',
+  match: 'Read',
+  enabled: true,
+}
+
+function update(payload: Record<string, unknown>): string {
+  return JSON.stringify({
+    jsonrpc: '2.0',
+    method: 'session/update',
+    params: { sessionId: 's1', update: payload },
+  })
+}
+
+function completed(params: Record<string, unknown>): string {
+  return JSON.stringify({
+    jsonrpc: '2.0',
+    method: '_bitk/prompt_completed',
+    params: { sessionId: 's1', ...params },
+  })
+}
+
+function chunk(text: string): string {
+  return update({
+    sessionUpdate: 'agent_message_chunk',
+    content: { type: 'text', text },
+  })
+}
+
+// Helper to flatten parse result into array
+function parseAll(
+  normalizer: GeminiLogNormalizer,
+  rawLine: string,
+): NormalizedLogEntry[] {
+  const result = normalizer.parse(rawLine)
+  if (!result) return []
+  return Array.isArray(result) ? result : [result]
+}
+
+describe('GeminiLogNormalizer', () => {
+  describe('agent message chunks', () => {
+    test('buffers chunks until the turn completes', () => {
+      const normalizer = new GeminiLogNormalizer()
+      expect(normalizer.parse(chunk('Hello '))).toBeNull()
+      expect(normalizer.parse(chunk('world'))).toBeNull()
+
+      const entries = parseAll(
+        normalizer,
+        completed({ stopReason: 'end_turn' }),
+      )
+      expect(entries).toHaveLength(2)
+      expect(entries[0]!.entryType).toBe('assistant-message')
+      expect(entries[0]!.content).toBe('Hello world')
+      expect(entries[1]!.metadata?.turnCompleted).toBe(true)
+    })
+
+    test('flushes buffered text before a tool call', () => {
+      const normalizer = new GeminiLogNormalizer()
+      normalizer.parse(chunk('Let me look.'))
+
+      const entries = parseAll(
+        normalizer,
+        update({
+          sessionUpdate: 'tool_call',
+          toolCallId: 'c1',
+          title: 'grep TODO',
+          kind: 'search',
+          rawInput: { pattern: 'TODO' },
+        }),
+      )
+      expect(entries.map((e) => e.entryType)).toEqual([
+        'assistant-message',
+        'tool-use',
+      ])
+      expect(entries[1]!.metadata?.toolName).toBe('Grep')
+      expect(entries[1]!.toolAction).toEqual({ kind: 'search', query: 'TODO' })
+    })
+
+    test('skips thought chunks', () => {
+      const normalizer = new GeminiLogNormalizer()
+      const entry = normalizer.parse(
+        update({
+          sessionUpdate: 'agent_thought_chunk',
+          content: { type: 'text', text: 'thinking...' },
+        }),
+      )
+      expect(entry).toBeNull()
+    })
+  })
+
+  describe('tool calls', () => {
+    test('edit with diff content maps to file-edit with changes', () => {
+      const normalizer = new GeminiLogNormalizer()
+      const entries = parseAll(
+        normalizer,
+        update({
+          sessionUpdate: 'tool_call',
+          toolCallId: 'c2',
+          title: 'Edit src/a.ts',
+          kind: 'edit',
+          content: [
+            { type: 'diff', path: 'src/a.ts', oldText: 'a', newText: 'b' },
+          ],
+        }),
+      )
+      expect(entries[0]!.metadata?.toolName).toBe('Edit')
+      expect(entries[0]!.toolAction).toEqual({
+        kind: 'file-edit',
+        path: 'src/a.ts',
+        changes: [{ oldText: 'a', newText: 'b' }],
+      })
+    })
+
+    test('unknown kinds map to a generic tool action', () => {
+      const normalizer = new GeminiLogNormalizer()
+      const entries = parseAll(
+        normalizer,
+        update({
+          sessionUpdate: 'tool_call',
+          toolCallId: 'c3',
+          title: 'save_memory',
+          kind: 'other',
+          rawInput: { fact: 'x' },
+        }),
+      )
+      expect(entries[0]!.toolAction).toEqual({
+        kind: 'tool',
+        toolName: 'save_memory',
+        arguments: { fact: 'x' },
+      })
+    })
+
+    test('completed update becomes a tool result', () => {
+      const normalizer = new GeminiLogNormalizer()
+      normalizer.parse(
+        update({
+          sessionUpdate: 'tool_call',
+          toolCallId: 'c4',
+          kind: 'execute',
+        }),
+      )
+      const entries = parseAll(
+        normalizer,
+        update({
+          sessionUpdate: 'tool_call_update',
+          toolCallId: 'c4',
+          status: 'completed',
+          content: [{ type: 'content', content: { type: 'text', text: 'ok' } }],
+        }),
+      )
+      expect(entries).toHaveLength(1)
+      expect(entries[0]!.entryType).toBe('tool-use')
+      expect(entries[0]!.content).toBe('ok')
+      expect(entries[0]!.metadata).toMatchObject({
+        toolName: 'Bash',
+        toolCallId: 'c4',
+        isResult: true,
+      })
+    })
+
+    test('failed update becomes an error-message', () => {
+      const normalizer = new GeminiLogNormalizer()
+      const entries = parseAll(
+        normalizer,
+        update({
+          sessionUpdate: 'tool_call_update',
+          toolCallId: 'c5',
+          status: 'failed',
+          rawOutput: 'permission denied',
+        }),
+      )
+      expect(entries[0]!.entryType).toBe('error-message')
+      expect(entries[0]!.content).toBe('permission denied')
+    })
+
+    test('in-progress updates are skipped', () => {
+      const normalizer = new GeminiLogNormalizer()
+      const entry = normalizer.parse(
+        update({
+          sessionUpdate: 'tool_call_update',
+          toolCallId: 'c6',
+          status: 'in_progress',
+        }),
+      )
+      expect(entry).toBeNull()
+    })
+
+    test('filter rules drop the call and its result', () => {
+      const normalizer = new GeminiLogNormalizer([READ_RULE])
+      const call = normalizer.parse(
+        update({
+          sessionUpdate: 'tool_call',
+          toolCallId: 'c7',
+          kind: 'read',
+          locations: [{ path: 'a.ts' }],
+        }),
+      )
+      const result = normalizer.parse(
+        update({
+          sessionUpdate: 'tool_call_update',
+          toolCallId: 'c7',
+          status: 'completed',
+        }),
+      )
+      expect(call).toBeNull()
+      expect(result).toBeNull()
+    })
+  })
+
+  describe('turn completion', () => {
+    test('cancelled turns are not errors', () => {
+      const normalizer = new GeminiLogNormalizer()
+      const entries = parseAll(
+        normalizer,
+        completed({ stopReason: 'cancelled' }),
+      )
+      expect(entries[0]!.entryType).toBe('system-message')
+      expect(entries[0]!.metadata?.isError).toBe(false)
+    })
+
+    test('abnormal stop reasons are logical failures', () => {
+      const normalizer = new GeminiLogNormalizer()
+      const entries = parseAll(
+        normalizer,
+        completed({ stopReason: 'max_tokens' }),
+      )
+      expect(entries[0]!.entryType).toBe('error-message')
+      expect(entries[0]!.content).toBe('Execution max_tokens')
+      expect(entries[0]!.metadata).toMatchObject({
+        turnCompleted: true,
+        isError: true,
+      })
+    })
+  })
+
+  test('plan updates become system messages', () => {
+    const normalizer = new GeminiLogNormalizer()
+    const entries = parseAll(
+      normalizer,
+      update({
+        sessionUpdate: 'plan',
+        entries: [
+          { content: 'Read code', status: 'completed' },
+          { content: 'Write fix', status: 'in_progress' },
+        ],
+      }),
+    )
+    expect(entries[0]!.metadata?.subtype).toBe('plan')
+    expect(entries[0]!.content).toBe(
+      '[completed] Read code\n[in_progress] Write fix',
+    )
+  })
+
+  test('non-JSON lines become system messages', () => {
+    const normalizer = new GeminiLogNormalizer()
+    const entries = parseAll(normalizer, 'Loaded cached credentials.')
+    expect(entries[0]!.entryType).toBe('system-message')
+    expect(entries[0]!.content).toBe('Loaded cached credentials.')
+  })
+})
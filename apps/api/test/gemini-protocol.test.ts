@@ -0,0 +1,540 @@
+import { describe, expect, test } from 'bun:test'
+import { resolve } from 'node:path'
+import {
+  GeminiExecutor,
+  GeminiProtocolHandler,
+} from '@/engines/executors/gemini'
+import { normalizeStream } from '@/engines/logs'
+import type { NormalizedLogEntry, SpawnedProcess } from '@/engines/types'
+
+const FAKE_AGENT = resolve(import.meta.dir, 'fixtures/fake-acp-agent.ts')
+
+/** Create a mock stdin (FileSink-like) that captures written data. */
+function createMockStdin() {
+  const written: string[] = []
+  return {
+    sink: {
+      write(data: string) {
+        written.push(data)
+      },
+      flush() {},
+      end() {},
+    } as unknown as import('bun').FileSink,
+    written,
+  }
+}
+
+/** Create a mock stdout (ReadableStream) that we can push data into. */
+function createMockStdout() {
+  let controller!: ReadableStreamDefaultController<Uint8Array>
+  const stream = new ReadableStream<Uint8Array>({
+    start(c) {
+      controller = c
+    },
+  })
+
+  const encoder = new TextEncoder()
+  return {
+    stream,
+    push(line: string) {
+      controller.enqueue(encoder.encode(`${line}\n`))
+    },
+    close() {
+      controller.close()
+    },
+  }
+}
+
+/** Small delay for async background reader processing. */
+const tick = () => new Promise((r) => setTimeout(r, 30))
+
+/** Read notification lines until one matches, returning all lines seen. */
+async function readUntil(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  predicate: (msg: Record<string, unknown>) => boolean,
+): Promise<Record<string, unknown>[]> {
+  const decoder = new TextDecoder()
+  const seen: Record<string, unknown>[] = []
+  while (true) {
+    const { value, done } = await reader.read()
+    if (done) return seen
+    for (const line of decoder.decode(value).split('\n')) {
+      if (!line.trim()) continue
+      const msg = JSON.parse(line) as Record<string, unknown>
+      seen.push(msg)
+      if (predicate(msg)) return seen
+    }
+  }
+}
+
+/** Collect normalized entries until the turn-completion entry arrives. */
+async function collectTurn(
+  executor: GeminiExecutor,
+  spawned: SpawnedProcess,
+): Promise<NormalizedLogEntry[]> {
+  const normalizer = executor.createNormalizer([])
+  const entries: NormalizedLogEntry[] = []
+  for await (const entry of normalizeStream(spawned.stdout, (line) =>
+    normalizer.parse(line),
+  )) {
+    entries.push(entry)
+    if (entry.metadata?.turnCompleted === true) break
+  }
+  return entries
+}
+
+describe('GeminiProtocolHandler', () => {
+  test('initialize negotiates protocol version and capabilities', async () => {
+    const { sink, written } = createMockStdin()
+    const stdout = createMockStdout()
+
+    const handler = new GeminiProtocolHandler(sink, stdout.stream, 5000)
+
+    const initPromise = handler.initialize()
+    await tick()
+
+    const req = JSON.parse(written[0]!)
+    expect(req.jsonrpc).toBe('2.0')
+    expect(req.method).toBe('initialize')
+    expect(req.params.protocolVersion).toBe(1)
+    expect(req.params.clientCapabilities.fs.readTextFile).toBe(false)
+
+    stdout.push(
+      JSON.stringify({
+        jsonrpc: '2.0',
+        id: req.id,
+        result: {
+          protocolVersion: 1,
+          agentCapabilities: { loadSession: true },
+        },
+      }),
+    )
+
+    const result = await initPromise
+    expect(result).toEqual({ protocolVersion: 1, loadSession: true })
+    expect(handler.loadSessionSupported).toBe(true)
+
+    handler.close()
+    stdout.close()
+  })
+
+  test('newSession resolves session ID and stores it', async () => {
+    const { sink, written } = createMockStdin()
+    const stdout = createMockStdout()
+
+    const handler = new GeminiProtocolHandler(sink, stdout.stream, 5000)
+
+    const sessionPromise = handler.newSession('/tmp/project')
+    await tick()
+
+    const req = JSON.parse(written[0]!)
+    expect(req.method).toBe('session/new')
+    expect(req.params).toEqual({ cwd: '/tmp/project', mcpServers: [] })
+
+    stdout.push(
+      JSON.stringify({
+        jsonrpc: '2.0',
+        id: req.id,
+        result: { sessionId: 's1' },
+      }),
+    )
+
+    expect(await sessionPromise).toBe('s1')
+    expect(handler.sessionId).toBe('s1')
+
+    handler.close()
+    stdout.close()
+  })
+
+  test('newSession throws when sessionId is missing', async () => {
+    const { sink } = createMockStdin()
+    const stdout = createMockStdout()
+
+    const handler = new GeminiProtocolHandler(sink, stdout.stream, 5000)
+
+    const sessionPromise = handler.newSession('/tmp')
+    await tick()
+    stdout.push(JSON.stringify({ jsonrpc: '2.0', id: 1, result: {} }))
+
+    await expect(sessionPromise).rejects.toThrow(
+      'session/new response missing sessionId',
+    )
+
+    handler.close()
+    stdout.close()
+  })
+
+  test('loadSession fails without the loadSession capability', async () => {
+    const { sink, written } = createMockStdin()
+    const stdout = createMockStdout()
+
+    const handler = new GeminiProtocolHandler(sink, stdout.stream, 5000)
+
+    await expect(handler.loadSession('s1', '/tmp')).rejects.toThrow(
+      'Session not found: s1',
+    )
+    expect(written).toHaveLength(0)
+
+    handler.close()
+    stdout.close()
+  })
+
+  test('loadSession drops replayed session/update notifications', async () => {
+    const { sink, written } = createMockStdin()
+    const stdout = createMockStdout()
+
+    const handler = new GeminiProtocolHandler(sink, stdout.stream, 5000)
+    const reader = handler.notifications.getReader()
+
+    const initPromise = handler.initialize()
+    await tick()
+    stdout.push(
+      JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        result: {
+          protocolVersion: 1,
+          agentCapabilities: { loadSession: true },
+        },
+      }),
+    )
+    await initPromise
+
+    const loadPromise = handler.loadSession('s1', '/tmp')
+    await tick()
+    const req = JSON.parse(written[1]!)
+    expect(req.method).toBe('session/load')
+
+    // Replayed history arrives before the response
+    stdout.push(
+      JSON.stringify({
+        jsonrpc: '2.0',
+        method: 'session/update',
+        params: {
+          sessionId: 's1',
+          update: {
+            sessionUpdate: 'agent_message_chunk',
+            content: { type: 'text', text: 'old' },
+          },
+        },
+      }),
+    )
+    stdout.push(JSON.stringify({ jsonrpc: '2.0', id: req.id, result: null }))
+    await loadPromise
+    expect(handler.sessionId).toBe('s1')
+
+    // Live updates after the load are forwarded
+    stdout.push(
+      JSON.stringify({
+        jsonrpc: '2.0',
+        method: 'session/update',
+        params: {
+          sessionId: 's1',
+          update: {
+            sessionUpdate: 'agent_message_chunk',
+            content: { type: 'text', text: 'new' },
+          },
+        },
+      }),
+    )
+
+    const [first] = await readUntil(reader, () => true)
+    const params = first!.params as { update: { content: { text: string } } }
+    expect(params.update.content.text).toBe('new')
+
+    reader.releaseLock()
+    handler.close()
+    stdout.close()
+  })
+
+  test('prompt completion is pushed as a synthetic notification', async () => {
+    const { sink, written } = createMockStdin()
+    const stdout = createMockStdout()
+
+    const handler = new GeminiProtocolHandler(sink, stdout.stream, 5000)
+    const reader = handler.notifications.getReader()
+
+    const sessionPromise = handler.newSession('/tmp')
+    await tick()
+    stdout.push(
+      JSON.stringify({ jsonrpc: '2.0', id: 1, result: { sessionId: 's1' } }),
+    )
+    await sessionPromise
+
+    handler.startPrompt('Hello')
+    await tick()
+    expect(handler.promptInFlight).toBe(true)
+
+    const req = JSON.parse(written[1]!)
+    expect(req.method).toBe('session/prompt')
+    expect(req.params).toEqual({
+      sessionId: 's1',
+      prompt: [{ type: 'text', text: 'Hello' }],
+    })
+
+    stdout.push(
+      JSON.stringify({
+        jsonrpc: '2.0',
+        id: req.id,
+        result: { stopReason: 'end_turn' },
+      }),
+    )
+
+    const seen = await readUntil(reader, () => true)
+    expect(seen[0]!.method).toBe('_bitk/prompt_completed')
+    expect(seen[0]!.params).toEqual({ sessionId: 's1', stopReason: 'end_turn' })
+    expect(handler.promptInFlight).toBe(false)
+
+    reader.releaseLock()
+    handler.close()
+    stdout.close()
+  })
+
+  test('interrupt sends session/cancel notification', async () => {
+    const { sink, written } = createMockStdin()
+    const stdout = createMockStdout()
+
+    const handler = new GeminiProtocolHandler(sink, stdout.stream, 5000)
+
+    const sessionPromise = handler.newSession('/tmp')
+    await tick()
+    stdout.push(
+      JSON.stringify({ jsonrpc: '2.0', id: 1, result: { sessionId: 's1' } }),
+    )
+    await sessionPromise
+
+    await handler.interrupt()
+
+    const notif = JSON.parse(written[1]!)
+    expect(notif.method).toBe('session/cancel')
+    expect(notif.params).toEqual({ sessionId: 's1' })
+    expect(notif.id).toBeUndefined()
+
+    handler.close()
+    stdout.close()
+  })
+
+  test('auto-approves permission requests with an allow option', async () => {
+    const { sink, written } = createMockStdin()
+    const stdout = createMockStdout()
+
+    const handler = new GeminiProtocolHandler(sink, stdout.stream, 5000)
+    await tick()
+
+    stdout.push(
+      JSON.stringify({
+        jsonrpc: '2.0',
+        id: 7,
+        method: 'session/request_permission',
+        params: {
+          sessionId: 's1',
+          toolCall: { toolCallId: 'c1' },
+          options: [
+            { optionId: 'no', kind: 'reject_once' },
+            { optionId: 'always', kind: 'allow_always' },
+            { optionId: 'once', kind: 'allow_once' },
+          ],
+        },
+      }),
+    )
+    await tick()
+
+    const resp = JSON.parse(written[0]!)
+    expect(resp.id).toBe(7)
+    expect(resp.result).toEqual({
+      outcome: { outcome: 'selected', optionId: 'once' },
+    })
+
+    handler.close()
+    stdout.close()
+  })
+
+  test('rejects unknown agent requests with error', async () => {
+    const { sink, written } = createMockStdin()
+    const stdout = createMockStdout()
+
+    const handler = new GeminiProtocolHandler(sink, stdout.stream, 5000)
+    await tick()
+
+    stdout.push(
+      JSON.stringify({
+        jsonrpc: '2.0',
+        id: 8,
+        method: 'fs/read_text_file',
+        params: { path: '/etc/passwd' },
+      }),
+    )
+    await tick()
+
+    const resp = JSON.parse(written[0]!)
+    expect(resp.id).toBe(8)
+    expect(resp.error.code).toBe(-32601)
+
+    handler.close()
+    stdout.close()
+  })
+
+  test('agent exit rejects pending requests', async () => {
+    const { sink } = createMockStdin()
+    const stdout = createMockStdout()
+
+    const handler = new GeminiProtocolHandler(sink, stdout.stream, 5000)
+
+    const promise = handler.newSession('/tmp')
+    await tick()
+    stdout.close()
+
+    await expect(promise).rejects.toThrow('Agent process exited')
+
+    handler.close()
+  })
+})
+
+describe('GeminiExecutor with fake ACP agent', () => {
+  test('spawn runs a full turn and maps tool calls', async () => {
+    const executor = new GeminiExecutor(`bun ${FAKE_AGENT}`)
+    const spawned = await executor.spawn(
+      { workingDir: process.cwd(), prompt: 'hi', permissionMode: 'auto' },
+      { vars: {}, workingDir: process.cwd() },
+    )
+
+    expect(spawned.externalSessionId).toBe('fake-1')
+
+    const entries = await collectTurn(executor, spawned)
+    expect(entries.map((e) => e.entryType)).toEqual([
+      'assistant-message',
+      'tool-use',
+      'tool-use',
+      'tool-use',
+      'tool-use',
+      'assistant-message',
+      'system-message',
+    ])
+    expect(entries[0]!.content).toBe('You said: hi')
+    expect(entries[1]!.toolAction).toEqual({
+      kind: 'file-read',
+      path: 'README.md',
+    })
+    expect(entries[2]!.content).toBe('# Readme')
+    expect(entries[3]!.toolAction).toEqual({
+      kind: 'command-run',
+      command: 'ls -la',
+      category: 'read',
+    })
+    // Permission request was auto-approved
+    expect(entries[4]!.content).toBe('total 0')
+    expect(entries[5]!.content).toBe('Done.')
+    expect(entries[6]!.metadata).toMatchObject({
+      turnCompleted: true,
+      stopReason: 'end_turn',
+      isError: false,
+      inputTokens: 12,
+      outputTokens: 5,
+    })
+
+    spawned.protocolHandler!.close()
+    expect(await spawned.subprocess.exited).toBe(0)
+  })
+
+  test('supervised mode routes permission requests to the approval handler', async () => {
+    const executor = new GeminiExecutor(`bun ${FAKE_AGENT}`)
+    const requests: unknown[] = []
+    const spawned = await executor.spawn(
+      {
+        workingDir: process.cwd(),
+        prompt: 'hi',
+        permissionMode: 'supervised',
+        onApprovalRequest: async (request) => {
+          requests.push(request)
+          return 'deny'
+        },
+      },
+      { vars: {}, workingDir: process.cwd() },
+    )
+
+    const entries = await collectTurn(executor, spawned)
+    expect(requests).toEqual([
+      {
+        toolName: 'Bash',
+        input: { command: 'ls -la' },
+        toolCallId: 'call-exec',
+      },
+    ])
+    // Denied command fails instead of running
+    const failed = entries.find((e) => e.entryType === 'error-message')
+    expect(failed?.content).toBe('denied')
+
+    spawned.protocolHandler!.close()
+    expect(await spawned.subprocess.exited).toBe(0)
+  })
+
+  test('spawnFollowUp loads the session without replaying history', async () => {
+    const executor = new GeminiExecutor(`bun ${FAKE_AGENT}`)
+    const spawned = await executor.spawnFollowUp(
+      { workingDir: process.cwd(), prompt: 'again', sessionId: 'fake-9' },
+      { vars: {}, workingDir: process.cwd() },
+    )
+
+    expect(spawned.externalSessionId).toBe('fake-9')
+
+    const entries = await collectTurn(executor, spawned)
+    expect(entries[0]!.content).toBe('You said: again')
+    expect(entries.some((e) => e.content.includes('replayed'))).toBe(false)
+
+    spawned.protocolHandler!.close()
+    await spawned.subprocess.exited
+  })
+
+  test('spawnFollowUp reports a missing session when load is unsupported', async () => {
+    const executor = new GeminiExecutor(`bun ${FAKE_AGENT} --no-load-session`)
+    await expect(
+      executor.spawnFollowUp(
+        { workingDir: process.cwd(), prompt: 'again', sessionId: 'fake-1' },
+        { vars: {}, workingDir: process.cwd() },
+      ),
+    ).rejects.toThrow('Session not found')
+  })
+
+  test('interrupt cancels the in-flight turn', async () => {
+    const executor = new GeminiExecutor(`bun ${FAKE_AGENT}`)
+    const spawned = await executor.spawn(
+      { workingDir: process.cwd(), prompt: 'wait-for-cancel' },
+      { vars: {}, workingDir: process.cwd() },
+    )
+
+    const turn = collectTurn(executor, spawned)
+    await tick()
+    await spawned.protocolHandler!.interrupt()
+
+    const entries = await turn
+    const last = entries.at(-1)!
+    expect(last.entryType).toBe('system-message')
+    expect(last.metadata).toMatchObject({
+      stopReason: 'cancelled',
+      isError: false,
+    })
+
+    spawned.protocolHandler!.close()
+    await spawned.subprocess.exited
+  })
+
+  test('failed prompt completes the turn as an error', async () => {
+    const executor = new GeminiExecutor(`bun ${FAKE_AGENT}`)
+    const spawned = await executor.spawn(
+      { workingDir: process.cwd(), prompt: 'fail please' },
+      { vars: {}, workingDir: process.cwd() },
+    )
+
+    const entries = await collectTurn(executor, spawned)
+    const last = entries.at(-1)!
+    expect(last.entryType).toBe('error-message')
+    expect(last.metadata).toMatchObject({
+      stopReason: 'error',
+      isError: true,
+      error: 'scripted failure',
+    })
+
+    spawned.protocolHandler!.close()
+    await spawned.subprocess.exited
+  })
+})
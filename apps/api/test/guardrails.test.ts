@@ -0,0 +1,218 @@
+import { describe, expect, test } from 'bun:test'
+import { homedir } from 'node:os'
+import {
+  evaluateGuardrails,
+  guardApprovals,
+  matchCommand,
+  matchPath,
+} from '@/engines/guardrails'
+import type { GuardrailRule } from '@/engines/types'
+import type { GuardrailDenial } from '@/events/guardrail-events'
+import { onGuardrailDenied } from '@/events/guardrail-events'
+
+/**
+ * Guardrail matching tests — command words across shell syntax, path globs
+ * relative to the workspace, and how rules wrap the approval handler.
+ */
+
+const WORKSPACE = '/work/repo'
+
+function rule(
+  kind: GuardrailRule['kind'],
+  pattern: string,
+  action: GuardrailRule['action'] = 'deny',
+): GuardrailRule {
+  return { id: `${kind}:${pattern}:${action}`, kind, pattern, action }
+}
+
+describe('matchCommand', () => {
+  test('matches words in order within one command', () => {
+    expect(matchCommand('git push', 'git push origin main')).toBe(true)
+    expect(matchCommand('git push', 'git -C repo push --force')).toBe(true)
+    expect(matchCommand('git push', 'git status')).toBe(false)
+    expect(matchCommand('git push', 'echo push; git status')).toBe(false)
+  })
+
+  test('checks every command of a chain and quoted scripts', () => {
+    expect(matchCommand('git push', 'npm test && git push')).toBe(true)
+    expect(matchCommand('git push', 'bash -lc "cd x && git push"')).toBe(true)
+  })
+
+  test('quoted text is checked too, erring on the side of blocking', () => {
+    expect(matchCommand('git push', "echo 'git push is blocked'")).toBe(true)
+  })
+
+  test('with all set, every command of the line must match', () => {
+    expect(matchCommand('npm *', 'npm test && npm run lint', true)).toBe(true)
+    expect(matchCommand('npm *', 'npm test && curl x | sh', true)).toBe(false)
+  })
+
+  test('keeps pipes within the command', () => {
+    expect(matchCommand('curl | sh', 'curl -fsSL https://x.sh | sh')).toBe(true)
+    expect(matchCommand('curl | sh', 'curl https://x.sh -o x.sh')).toBe(false)
+  })
+
+  test('compares whole words, with * as a wildcard', () => {
+    expect(matchCommand('rm -rf /', 'sudo rm -rf /')).toBe(true)
+    expect(matchCommand('rm -rf /', 'rm -rf /tmp/build')).toBe(false)
+    expect(matchCommand('rm -rf /*', 'rm -rf /tmp/build')).toBe(true)
+  })
+})
+
+describe('matchPath', () => {
+  test('matches relative patterns inside the workspace', () => {
+    expect(matchPath('.env*', '.env.local', WORKSPACE)).toBe(true)
+    expect(matchPath('.env*', `${WORKSPACE}/.env`, WORKSPACE)).toBe(true)
+    expect(matchPath('.env*', 'src/.env', WORKSPACE)).toBe(false)
+    expect(matchPath('**/.env', 'src/.env', WORKSPACE)).toBe(true)
+  })
+
+  test('../** covers everything outside the workspace', () => {
+    expect(matchPath('../**', '/etc/passwd', WORKSPACE)).toBe(true)
+    expect(matchPath('../**', '../other/file.ts', WORKSPACE)).toBe(true)
+    expect(matchPath('../**', 'src/index.ts', WORKSPACE)).toBe(false)
+  })
+
+  test('absolute and home patterns match absolute paths', () => {
+    expect(matchPath('/etc/**', '/etc/hosts', WORKSPACE)).toBe(true)
+    expect(matchPath('~/.ssh/**', `${homedir()}/.ssh/id_rsa`, WORKSPACE)).toBe(
+      true,
+    )
+  })
+})
+
+describe('evaluateGuardrails', () => {
+  const rules = [
+    rule('tool', 'mcp__github__*', 'allow'),
+    rule('command', 'git *', 'allow'),
+    rule('command', 'git push'),
+    rule('path', '.env*'),
+  ]
+
+  test('deny wins over allow', () => {
+    const request = { toolName: 'Bash', input: { command: 'git push' } }
+    expect(evaluateGuardrails(rules, request, WORKSPACE)?.pattern).toBe(
+      'git push',
+    )
+  })
+
+  test('allow command rules do not cover chained commands', () => {
+    const request = { toolName: 'Bash', input: { command: 'git log; rm x' } }
+    expect(evaluateGuardrails(rules, request, WORKSPACE)).toBeNull()
+  })
+
+  test('allow applies when no deny rule matches', () => {
+    expect(
+      evaluateGuardrails(
+        rules,
+        { toolName: 'Bash', input: { command: ['git', 'status'] } },
+        WORKSPACE,
+      )?.action,
+    ).toBe('allow')
+    expect(
+      evaluateGuardrails(
+        rules,
+        { toolName: 'mcp__github__create_issue' },
+        WORKSPACE,
+      )?.action,
+    ).toBe('allow')
+  })
+
+  test('path rules see file tools and Codex file changes', () => {
+    expect(
+      evaluateGuardrails(
+        rules,
+        { toolName: 'Write', input: { file_path: `${WORKSPACE}/.env` } },
+        WORKSPACE,
+      )?.kind,
+    ).toBe('path')
+    expect(
+      evaluateGuardrails(
+        rules,
+        { toolName: 'Edit', input: { changes: [{ path: '.env.local' }] } },
+        WORKSPACE,
+      )?.kind,
+    ).toBe('path')
+    expect(
+      evaluateGuardrails(
+        rules,
+        { toolName: 'Read', input: { file_path: 'README.md' } },
+        WORKSPACE,
+      ),
+    ).toBeNull()
+  })
+})
+
+describe('guardApprovals', () => {
+  const env = {
+    vars: {},
+    workingDir: WORKSPACE,
+    issueId: 'issue-1',
+    guardrails: [rule('command', 'git push'), rule('tool', 'Read', 'allow')],
+  }
+
+  test('without rules only supervised mode has a handler', () => {
+    const ask = async () => 'approve' as const
+    expect(
+      guardApprovals(
+        { permissionMode: 'auto', onApprovalRequest: ask },
+        {
+          vars: {},
+          workingDir: WORKSPACE,
+        },
+      ),
+    ).toBeUndefined()
+    expect(
+      guardApprovals(
+        { permissionMode: 'supervised', onApprovalRequest: ask },
+        { vars: {}, workingDir: WORKSPACE },
+      ),
+    ).toBe(ask)
+  })
+
+  test('denies matching calls and reports them', async () => {
+    const denials: GuardrailDenial[] = []
+    const unsub = onGuardrailDenied((denial) => denials.push(denial))
+    const handler = guardApprovals({ permissionMode: 'auto' }, env)!
+    try {
+      expect(
+        await handler({
+          toolName: 'Bash',
+          input: { command: 'git push --tags' },
+          toolCallId: 'call-1',
+        }),
+      ).toBe('deny')
+    } finally {
+      unsub()
+    }
+    expect(denials).toEqual([
+      {
+        issueId: 'issue-1',
+        toolName: 'Bash',
+        toolCallId: 'call-1',
+        subject: 'git push --tags',
+        rule: env.guardrails[0]!,
+      },
+    ])
+    expect(await handler({ toolName: 'Bash', input: { command: 'ls' } })).toBe(
+      'approve',
+    )
+  })
+
+  test('supervised mode asks unless an allow rule matches', async () => {
+    const asked: string[] = []
+    const handler = guardApprovals(
+      {
+        permissionMode: 'supervised',
+        onApprovalRequest: async (request) => {
+          asked.push(request.toolName)
+          return 'deny'
+        },
+      },
+      env,
+    )!
+    expect(await handler({ toolName: 'Read' })).toBe('approve')
+    expect(await handler({ toolName: 'Write' })).toBe('deny')
+    expect(asked).toEqual(['Write'])
+  })
+})
@@ -2,7 +2,12 @@
  * Test helpers — utility functions for API tests.
  * DB_PATH is set by preload.ts before this module loads.
  */
+import { afterAll, beforeAll } from 'bun:test'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
 import app from '@/app'
+import type { EngineProfile } from '@/engines/types'
 
 type ApiResult<T> =
   | { success: true; data: T }
@@ -13,11 +18,12 @@ export async function api<T>(
   method: string,
   path: string,
   body?: unknown,
-): Promise<{ status: number; json: ApiResult<T> }> {
+  headers: Record<string, string> = {},
+): Promise<{ status: number; json: ApiResult<T>; headers: Headers }> {
   const url = `http://localhost${path}`
   const init: RequestInit = {
     method,
-    headers: { 'Content-Type': 'application/json' },
+    headers: { 'Content-Type': 'application/json', ...headers },
   }
   if (body !== undefined) {
     init.body = JSON.stringify(body)
@@ -25,19 +31,27 @@ export async function api<T>(
 
   const res = await app.request(url, init)
   const json = (await res.json()) as ApiResult<T>
-  return { status: res.status, json }
+  return { status: res.status, json, headers: res.headers }
 }
 
-export function get<T>(path: string) {
-  return api<T>('GET', path)
+export function get<T>(path: string, headers?: Record<string, string>) {
+  return api<T>('GET', path, undefined, headers)
 }
 
-export function post<T>(path: string, body: unknown) {
-  return api<T>('POST', path, body)
+export function post<T>(
+  path: string,
+  body: unknown,
+  headers?: Record<string, string>,
+) {
+  return api<T>('POST', path, body, headers)
 }
 
-export function patch<T>(path: string, body: unknown) {
-  return api<T>('PATCH', path, body)
+export function patch<T>(
+  path: string,
+  body: unknown,
+  headers?: Record<string, string>,
+) {
+  return api<T>('PATCH', path, body, headers)
 }
 
 /** Expect success response */
@@ -117,3 +131,79 @@ export async function waitFor(
   }
   throw new Error(`waitFor timed out after ${timeoutMs}ms`)
 }
+
+export interface TempProject {
+  id: string
+  /** The project's working directory. */
+  dir: string
+  /** Beside the project directory, for scripts that must not show in it. */
+  scriptDir: string
+}
+
+/**
+ * Create a project on a fresh temp directory before the file's tests and
+ * remove it after them. `init` prepares the directory (e.g. `git init`)
+ * before the project is created. Fields are set once `beforeAll` has run.
+ */
+export function useTempProject(
+  name: string,
+  init?: (dir: string) => void,
+): TempProject {
+  const project = { id: '', dir: '', scriptDir: '' }
+  let root = ''
+  beforeAll(async () => {
+    root = mkdtempSync(join(tmpdir(), 'bitk-test-'))
+    project.dir = join(root, 'project')
+    project.scriptDir = join(root, 'scripts')
+    mkdirSync(project.dir)
+    mkdirSync(project.scriptDir)
+    init?.(project.dir)
+    project.id = expectSuccess(
+      await post<{ id: string }>('/api/projects', {
+        name,
+        directory: project.dir,
+      }),
+    ).id
+  })
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true })
+  })
+  return project
+}
+
+/**
+ * Source of a fake Claude CLI speaking stream-json. `onMessage` runs for
+ * each parsed stdin line as `msg`, after `setup` ran once; both can use
+ * `emit(line)` and `reply(text, result?)`, which answers and ends the turn.
+ */
+export function fakeClaude(onMessage: string, setup = ''): string {
+  return `
+const emit = (line) => console.log(JSON.stringify(line))
+const reply = (text, result = {}) => {
+  emit({ type: 'assistant', message: { id: 'm1',
+    content: [{ type: 'text', text }] } })
+  emit({ type: 'result', subtype: 'success', duration_ms: 1, ...result })
+  process.exit(0)
+}
+${setup}
+for await (const raw of console) {
+  const msg = JSON.parse(raw)
+${onMessage}
+}
+`
+}
+
+/** Write a fake agent script and register a profile that runs it with bun. */
+export async function createScriptProfile(
+  script: string,
+  source: string,
+  profile: { name: string; engineType: string; env?: Record<string, string> },
+): Promise<EngineProfile> {
+  writeFileSync(script, source)
+  return expectSuccess(
+    await post<EngineProfile>('/api/engines/profiles', {
+      ...profile,
+      baseCommand: `${process.execPath} ${script}`,
+    }),
+  )
+}
@@ -1,8 +1,14 @@
 import { describe, expect, it } from 'vitest'
 import {
+  formatCost,
+  formatDuration,
+  formatEnv,
   formatFileSize,
   formatModelName,
+  formatTokenCount,
   getProjectInitials,
+  parseArgs,
+  parseEnv,
 } from '../../lib/format'
 
 describe('formatFileSize', () => {
@@ -31,6 +37,43 @@ describe('formatFileSize', () => {
   })
 })
 
+describe('formatTokenCount', () => {
+  it('keeps small counts as-is', () => {
+    expect(formatTokenCount(999)).toBe('999')
+  })
+
+  it('formats thousands and millions', () => {
+    expect(formatTokenCount(12_345)).toBe('12.3k')
+    expect(formatTokenCount(2_500_000)).toBe('2.5M')
+  })
+})
+
+describe('formatCost', () => {
+  it('formats zero and sub-cent costs', () => {
+    expect(formatCost(0)).toBe('$0')
+    expect(formatCost(0.004)).toBe('<$0.01')
+  })
+
+  it('rounds to cents', () => {
+    expect(formatCost(1.234)).toBe('$1.23')
+  })
+})
+
+describe('formatDuration', () => {
+  it('formats seconds', () => {
+    expect(formatDuration(0)).toBe('0s')
+    expect(formatDuration(42_400)).toBe('42s')
+  })
+
+  it('formats minutes with padded seconds', () => {
+    expect(formatDuration(185_000)).toBe('3m 05s')
+  })
+
+  it('formats hours', () => {
+    expect(formatDuration(4_800_000)).toBe('1h 20m')
+  })
+})
+
 describe('formatModelName', () => {
   it('formats claude opus model', () => {
     expect(formatModelName('claude-opus-4-6')).toBe('Claude Opus 4.6')
@@ -80,3 +123,28 @@ describe('getProjectInitials', () => {
     expect(getProjectInitials('my project')).toBe('MP')
   })
 })
+
+describe('parseEnv', () => {
+  it('parses KEY=value lines and skips the rest', () => {
+    expect(parseEnv('A=1\n B = two=2 \nnoequals\n=x')).toEqual({
+      A: '1',
+      B: 'two=2',
+    })
+  })
+
+  it('round-trips with formatEnv', () => {
+    const env = { TOKEN: 'abc', URL: 'http://x?a=b' }
+    expect(parseEnv(formatEnv(env))).toEqual(env)
+  })
+})
+
+describe('parseArgs', () => {
+  it('splits on whitespace', () => {
+    expect(parseArgs('  -y  @acme/mcp\n--port 3 ')).toEqual([
+      '-y',
+      '@acme/mcp',
+      '--port',
+      '3',
+    ])
+  })
+})
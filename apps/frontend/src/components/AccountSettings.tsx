@@ -0,0 +1,278 @@
+import { Loader2, LogOut, Trash2 } from 'lucide-react'
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Field } from '@/components/ui/field'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  useAuthStatus,
+  useChangePassword,
+  useCreateUser,
+  useDeleteUser,
+  useLogout,
+  useSetupAuth,
+  useUsers,
+} from '@/hooks/use-auth'
+import type { UserRole } from '@/types/kanban'
+
+/**
+ * Account block of the settings dialog. With auth off it offers to create
+ * the first admin; when signed in it shows the session, password change and
+ * (for admins) user management.
+ */
+export function AccountSettings({ open }: { open: boolean }) {
+  const { t } = useTranslation()
+  const { data: status } = useAuthStatus()
+  const logout = useLogout()
+
+  if (!status) return null
+
+  if (!status.authEnabled) {
+    return (
+      <Field className="mb-4">
+        <Label>{t('auth.account')}</Label>
+        <p className="text-[11px] text-muted-foreground">
+          {t('auth.disabledHint')}
+        </p>
+        <SetupForm />
+      </Field>
+    )
+  }
+
+  if (!status.user) return null
+  const isAdmin = status.user.role === 'admin'
+
+  return (
+    <Field className="mb-4">
+      <Label>{t('auth.account')}</Label>
+      <div className="mt-1.5 flex items-center gap-2">
+        <span className="flex-1 truncate text-sm">
+          {t('auth.signedInAs', { username: status.user.username })}
+        </span>
+        <Badge variant="secondary">{t(`auth.role.${status.user.role}`)}</Badge>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => logout.mutate()}
+          disabled={logout.isPending}
+        >
+          <LogOut className="size-3.5" />
+          {t('auth.signOut')}
+        </Button>
+      </div>
+      <ChangePasswordForm />
+      {isAdmin ? (
+        <UserManagement open={open} currentUserId={status.user.id} />
+      ) : null}
+    </Field>
+  )
+}
+
+function SetupForm() {
+  const { t } = useTranslation()
+  const setup = useSetupAuth()
+  const [username, setUsername] = useState('')
+  const [password, setPassword] = useState('')
+
+  return (
+    <form
+      className="mt-1.5 flex flex-col gap-1.5"
+      onSubmit={(e) => {
+        e.preventDefault()
+        setup.mutate({ username, password })
+      }}
+    >
+      <div className="grid grid-cols-2 gap-1.5">
+        <Input
+          placeholder={t('auth.username')}
+          autoComplete="username"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+        />
+        <Input
+          type="password"
+          placeholder={t('auth.password')}
+          autoComplete="new-password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+        />
+      </div>
+      {setup.error ? (
+        <p className="text-xs text-destructive">{setup.error.message}</p>
+      ) : null}
+      <Button
+        type="submit"
+        size="sm"
+        disabled={!username || !password || setup.isPending}
+      >
+        {setup.isPending ? <Loader2 className="size-3.5 animate-spin" /> : null}
+        {t('auth.createAdmin')}
+      </Button>
+    </form>
+  )
+}
+
+function ChangePasswordForm() {
+  const { t } = useTranslation()
+  const changePassword = useChangePassword()
+  const [currentPassword, setCurrentPassword] = useState('')
+  const [newPassword, setNewPassword] = useState('')
+
+  return (
+    <form
+      className="mt-2 flex flex-col gap-1.5"
+      onSubmit={(e) => {
+        e.preventDefault()
+        changePassword.mutate(
+          { currentPassword, newPassword },
+          {
+            onSuccess: () => {
+              setCurrentPassword('')
+              setNewPassword('')
+            },
+          },
+        )
+      }}
+    >
+      <div className="grid grid-cols-[1fr_1fr_auto] gap-1.5">
+        <Input
+          type="password"
+          placeholder={t('auth.currentPassword')}
+          autoComplete="current-password"
+          value={currentPassword}
+          onChange={(e) => setCurrentPassword(e.target.value)}
+        />
+        <Input
+          type="password"
+          placeholder={t('auth.newPassword')}
+          autoComplete="new-password"
+          value={newPassword}
+          onChange={(e) => setNewPassword(e.target.value)}
+        />
+        <Button
+          type="submit"
+          variant="outline"
+          size="sm"
+          disabled={
+            !currentPassword || !newPassword || changePassword.isPending
+          }
+        >
+          {t('auth.changePassword')}
+        </Button>
+      </div>
+      {changePassword.error ? (
+        <p className="text-xs text-destructive">
+          {changePassword.error.message}
+        </p>
+      ) : changePassword.isSuccess ? (
+        <p className="text-xs text-muted-foreground">
+          {t('auth.passwordChanged')}
+        </p>
+      ) : null}
+    </form>
+  )
+}
+
+function UserManagement({
+  open,
+  currentUserId,
+}: {
+  open: boolean
+  currentUserId: string
+}) {
+  const { t } = useTranslation()
+  const { data: users } = useUsers(open)
+  const createUser = useCreateUser()
+  const deleteUser = useDeleteUser()
+  const [username, setUsername] = useState('')
+  const [password, setPassword] = useState('')
+  const [role, setRole] = useState<UserRole>('member')
+
+  return (
+    <div className="mt-3 flex flex-col gap-1.5">
+      <Label>{t('auth.users')}</Label>
+      <div className="flex flex-col divide-y rounded-md border">
+        {users?.map((user) => (
+          <div
+            key={user.id}
+            className="flex items-center gap-2 px-2 py-1 text-sm"
+          >
+            <span className="flex-1 truncate">{user.username}</span>
+            <Badge variant="outline">{t(`auth.role.${user.role}`)}</Badge>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="size-7"
+              aria-label={t('auth.deleteUser')}
+              disabled={user.id === currentUserId || deleteUser.isPending}
+              onClick={() => deleteUser.mutate(user.id)}
+            >
+              <Trash2 className="size-3.5 text-muted-foreground" />
+            </Button>
+          </div>
+        ))}
+      </div>
+      {deleteUser.error ? (
+        <p className="text-xs text-destructive">{deleteUser.error.message}</p>
+      ) : null}
+
+      <form
+        className="grid grid-cols-[1fr_1fr_auto_auto] gap-1.5"
+        onSubmit={(e) => {
+          e.preventDefault()
+          createUser.mutate(
+            { username, password, role },
+            {
+              onSuccess: () => {
+                setUsername('')
+                setPassword('')
+              },
+            },
+          )
+        }}
+      >
+        <Input
+          placeholder={t('auth.username')}
+          autoComplete="off"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+        />
+        <Input
+          type="password"
+          placeholder={t('auth.password')}
+          autoComplete="new-password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+        />
+        <Select value={role} onValueChange={(v) => setRole(v as UserRole)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="member">{t('auth.role.member')}</SelectItem>
+            <SelectItem value="admin">{t('auth.role.admin')}</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button
+          type="submit"
+          size="sm"
+          disabled={!username || !password || createUser.isPending}
+        >
+          {t('auth.addUser')}
+        </Button>
+      </form>
+      {createUser.error ? (
+        <p className="text-xs text-destructive">{createUser.error.message}</p>
+      ) : null}
+    </div>
+  )
+}
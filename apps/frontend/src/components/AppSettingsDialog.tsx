@@ -8,8 +8,10 @@ import {
 } from 'lucide-react'
 import { useMemo, useState } from 'react'
 import { useTranslation } from 'react-i18next'
+import { AccountSettings } from '@/components/AccountSettings'
 import { DirectoryPicker } from '@/components/DirectoryPicker'
 import { EngineIcon } from '@/components/EngineIcons'
+import { EngineProfileSettings } from '@/components/EngineProfileSettings'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import {
@@ -28,10 +30,12 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 import {
+  useApprovalPolicy,
   useEngineAvailability,
   useEngineProfiles,
   useEngineSettings,
   useProbeEngines,
+  useUpdateApprovalPolicy,
   useUpdateDefaultEngine,
   useUpdateEngineModelSetting,
   useUpdateWorkspacePath,
@@ -52,6 +56,9 @@ const THEME_OPTIONS = [
   { id: 'dark' as const, labelKey: 'theme.dark' },
 ]
 
+/** Approval timeout choices in seconds; 0 waits indefinitely. */
+const APPROVAL_TIMEOUT_OPTIONS = [60, 300, 600, 1800, 0]
+
 export function AppSettingsDialog({
   open,
   onOpenChange,
@@ -88,6 +95,9 @@ export function AppSettingsDialog({
     updateWsPath.mutate(path)
   }
 
+  const { data: approvalPolicy } = useApprovalPolicy(open)
+  const updateApprovalPolicy = useUpdateApprovalPolicy()
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent aria-describedby={undefined}>
@@ -96,6 +106,8 @@ export function AppSettingsDialog({
         </DialogHeader>
 
         <div className="max-h-[70dvh] overflow-y-auto">
+          <AccountSettings open={open} />
+
           <Field className="mb-4">
             <Label>{t('settings.workspacePath')}</Label>
             <div className="mt-1.5 flex items-center gap-1.5">
@@ -163,15 +175,71 @@ export function AppSettingsDialog({
             </Field>
           </div>
 
+          {/* Supervised-mode approval timeout */}
+          {approvalPolicy ? (
+            <Field className="mb-4">
+              <Label>{t('settings.approvalTimeout')}</Label>
+              <div className="mt-1.5 grid grid-cols-2 gap-4">
+                <Select
+                  value={String(approvalPolicy.timeoutSeconds)}
+                  onValueChange={(value) =>
+                    updateApprovalPolicy.mutate({
+                      ...approvalPolicy,
+                      timeoutSeconds: Number(value),
+                    })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {APPROVAL_TIMEOUT_OPTIONS.map((seconds) => (
+                      <SelectItem key={seconds} value={String(seconds)}>
+                        {seconds === 0
+                          ? t('settings.approvalNoTimeout')
+                          : t('settings.approvalMinutes', {
+                              count: seconds / 60,
+                            })}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={approvalPolicy.onTimeout}
+                  disabled={approvalPolicy.timeoutSeconds === 0}
+                  onValueChange={(value) =>
+                    updateApprovalPolicy.mutate({
+                      ...approvalPolicy,
+                      onTimeout: value as 'approve' | 'deny',
+                    })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="deny">
+                      {t('settings.approvalOnTimeoutDeny')}
+                    </SelectItem>
+                    <SelectItem value="approve">
+                      {t('settings.approvalOnTimeoutApprove')}
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <p className="text-[11px] text-muted-foreground">
+                {t('settings.approvalTimeoutHint')}
+              </p>
+            </Field>
+          ) : null}
+
           {/* Default Engine */}
           {!enginesLoading && availableEngines.length > 0 ? (
             <Field className="mb-4">
               <Label>{t('settings.defaultEngine')}</Label>
               <div className="mt-1.5 flex flex-wrap gap-1.5">
                 {availableEngines.map((eng) => {
-                  const profile = profiles?.find(
-                    (p) => p.engineType === eng.engineType,
-                  )
+                  const profile = profiles?.find((p) => p.id === eng.engineType)
                   const isSelected =
                     eng.engineType === engineSettings?.defaultEngine ||
                     (!engineSettings?.defaultEngine &&
@@ -232,7 +300,7 @@ export function AppSettingsDialog({
             ) : (
               availableEngines.map((engine) => {
                 const profile = profiles?.find(
-                  (p) => p.engineType === engine.engineType,
+                  (p) => p.id === engine.engineType,
                 )
                 const engineModels = models?.[engine.engineType] ?? []
                 const savedDefault =
@@ -254,6 +322,9 @@ export function AppSettingsDialog({
                 )
               })
             )}
+            {profiles && availableEngines.length > 0 ? (
+              <EngineProfileSettings profiles={profiles} />
+            ) : null}
           </div>
         </div>
       </DialogContent>
@@ -0,0 +1,138 @@
+import { Loader2 } from 'lucide-react'
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { formatCost, formatDuration, formatTokenCount } from '@/lib/format'
+import type { BudgetLimits, BudgetStatus } from '@/types/kanban'
+
+type Draft = Record<keyof BudgetLimits, string>
+
+function toDraft(limits: BudgetLimits): Draft {
+  return {
+    maxCostUsd: limits.maxCostUsd?.toString() ?? '',
+    maxTokens: limits.maxTokens?.toString() ?? '',
+    maxTurns: limits.maxTurns?.toString() ?? '',
+    // Edited in minutes, stored in seconds
+    maxDurationSeconds:
+      limits.maxDurationSeconds !== null
+        ? String(limits.maxDurationSeconds / 60)
+        : '',
+  }
+}
+
+function parseLimit(value: string): number | null {
+  const n = Number(value)
+  return value.trim() && Number.isFinite(n) && n > 0 ? n : null
+}
+
+function fromDraft(draft: Draft): BudgetLimits {
+  const minutes = parseLimit(draft.maxDurationSeconds)
+  const tokens = parseLimit(draft.maxTokens)
+  const turns = parseLimit(draft.maxTurns)
+  return {
+    maxCostUsd: parseLimit(draft.maxCostUsd),
+    maxTokens: tokens !== null ? Math.round(tokens) : null,
+    maxTurns: turns !== null ? Math.round(turns) : null,
+    maxDurationSeconds: minutes !== null ? Math.round(minutes * 60) : null,
+  }
+}
+
+/**
+ * Editor for the four budget limits. Blank fields mean no limit; the
+ * current usage is shown next to each usage-based limit.
+ */
+export function BudgetForm({
+  status,
+  isSaving,
+  error,
+  onSave,
+}: {
+  status: BudgetStatus
+  isSaving: boolean
+  error?: Error | null
+  onSave: (limits: BudgetLimits) => void
+}) {
+  const { t } = useTranslation()
+  const [draft, setDraft] = useState<Draft>(() => toDraft(status.limits))
+
+  useEffect(() => {
+    setDraft(toDraft(status.limits))
+  }, [status.limits])
+
+  const { usage } = status
+  const fields: Array<{
+    key: keyof BudgetLimits
+    label: string
+    step: string
+    used?: string
+  }> = [
+    {
+      key: 'maxCostUsd',
+      label: t('budget.maxCost'),
+      step: '0.01',
+      used: formatCost(usage.costUsd),
+    },
+    {
+      key: 'maxTokens',
+      label: t('budget.maxTokens'),
+      step: '1000',
+      used: formatTokenCount(usage.inputTokens + usage.outputTokens),
+    },
+    {
+      key: 'maxTurns',
+      label: t('budget.maxTurns'),
+      step: '1',
+      used: String(usage.turns),
+    },
+    {
+      key: 'maxDurationSeconds',
+      label: t('budget.maxMinutes'),
+      step: '1',
+      used: formatDuration(status.runSeconds * 1000),
+    },
+  ]
+
+  return (
+    <form
+      className="flex flex-col gap-2"
+      onSubmit={(e) => {
+        e.preventDefault()
+        onSave(fromDraft(draft))
+      }}
+    >
+      <div className="grid grid-cols-2 gap-2">
+        {fields.map(({ key, label, step, used }) => (
+          <label key={key} className="flex flex-col gap-1 text-xs">
+            <span className="flex items-center gap-1 text-muted-foreground">
+              {label}
+              {used !== undefined ? (
+                <span className="ml-auto tabular-nums text-muted-foreground/70">
+                  {t('budget.used', { value: used })}
+                </span>
+              ) : null}
+            </span>
+            <Input
+              type="number"
+              min="0"
+              step={step}
+              inputMode="decimal"
+              placeholder={t('budget.noLimit')}
+              value={draft[key]}
+              onChange={(e) =>
+                setDraft((d) => ({ ...d, [key]: e.target.value }))
+              }
+            />
+          </label>
+        ))}
+      </div>
+      {error ? (
+        <p className="text-xs text-destructive">{error.message}</p>
+      ) : null}
+      <Button type="submit" size="sm" className="self-end" disabled={isSaving}>
+        {isSaving ? <Loader2 className="size-3.5 animate-spin" /> : null}
+        {t('budget.save')}
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,306 @@
+import { ChevronRight, Loader2, Plus, Trash2 } from 'lucide-react'
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { EngineIcon } from '@/components/EngineIcons'
+import { Button } from '@/components/ui/button'
+import { Field } from '@/components/ui/field'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  useCreateEngineProfile,
+  useDeleteEngineProfile,
+  useUpdateEngineProfile,
+} from '@/hooks/use-kanban'
+import { formatEnv, parseArgs, parseEnv } from '@/lib/format'
+import { cn } from '@/lib/utils'
+import type {
+  EngineProfile,
+  EngineProfileInput,
+  EngineType,
+} from '@/types/kanban'
+
+const INHERIT = 'inherit'
+const POLICIES = ['auto', 'supervised', 'plan'] as const
+
+/** `KEY=value` per line; blank lines and lines without `=` are skipped. */
+type FormState = {
+  name: string
+  engineType: EngineType
+  baseCommand: string
+  args: string
+  env: string
+  defaultModel: string
+  permissionPolicy: string
+}
+
+function toFormState(
+  profile: EngineProfile | undefined,
+  fallback: EngineProfile | undefined,
+): FormState {
+  return {
+    name: profile?.name ?? '',
+    engineType: profile?.engineType ?? fallback?.engineType ?? 'claude-code',
+    baseCommand: profile?.baseCommand ?? fallback?.baseCommand ?? '',
+    args: profile?.args?.join(' ') ?? '',
+    env: formatEnv(profile?.env),
+    defaultModel: profile?.defaultModel ?? '',
+    permissionPolicy:
+      profile?.builtIn === false ? profile.permissionPolicy : INHERIT,
+  }
+}
+
+function ProfileForm({
+  builtIns,
+  profile,
+  pending,
+  error,
+  onSubmit,
+}: {
+  builtIns: EngineProfile[]
+  /** Profile being edited; omitted when creating */
+  profile?: EngineProfile
+  pending: boolean
+  error: Error | null
+  onSubmit: (input: EngineProfileInput, reset: () => void) => void
+}) {
+  const { t } = useTranslation()
+  const [form, setForm] = useState(() => toFormState(profile, builtIns[0]))
+  const set = (changes: Partial<FormState>) =>
+    setForm((prev) => ({ ...prev, ...changes }))
+
+  return (
+    <form
+      className="flex flex-col gap-1.5"
+      onSubmit={(e) => {
+        e.preventDefault()
+        onSubmit(
+          {
+            name: form.name.trim(),
+            engineType: form.engineType,
+            baseCommand: form.baseCommand.trim() || undefined,
+            args: parseArgs(form.args),
+            env: parseEnv(form.env),
+            defaultModel: form.defaultModel.trim() || null,
+            permissionPolicy:
+              form.permissionPolicy === INHERIT
+                ? null
+                : (form.permissionPolicy as EngineProfileInput['permissionPolicy']),
+          },
+          () => setForm(toFormState(undefined, builtIns[0])),
+        )
+      }}
+    >
+      <div className="flex gap-1.5">
+        <Input
+          className="flex-1"
+          placeholder={t('engineProfile.name')}
+          value={form.name}
+          onChange={(e) => set({ name: e.target.value })}
+        />
+        <Select
+          value={form.engineType}
+          disabled={!!profile}
+          onValueChange={(value) =>
+            set({
+              engineType: value as EngineType,
+              baseCommand:
+                builtIns.find((p) => p.engineType === value)?.baseCommand ?? '',
+            })
+          }
+        >
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {builtIns.map((p) => (
+              <SelectItem key={p.id} value={p.engineType}>
+                {p.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <Input
+        className="font-mono text-xs"
+        placeholder={t('engineProfile.command')}
+        value={form.baseCommand}
+        onChange={(e) => set({ baseCommand: e.target.value })}
+      />
+      <Input
+        className="font-mono text-xs"
+        placeholder={t('engineProfile.args')}
+        value={form.args}
+        onChange={(e) => set({ args: e.target.value })}
+      />
+      <Textarea
+        rows={2}
+        className="font-mono text-xs"
+        placeholder={t('engineProfile.env')}
+        value={form.env}
+        onChange={(e) => set({ env: e.target.value })}
+      />
+      <div className="flex gap-1.5">
+        <Input
+          className="flex-1"
+          placeholder={t('engineProfile.defaultModel')}
+          value={form.defaultModel}
+          onChange={(e) => set({ defaultModel: e.target.value })}
+        />
+        <Select
+          value={form.permissionPolicy}
+          onValueChange={(value) => set({ permissionPolicy: value })}
+        >
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={INHERIT}>
+              {t('engineProfile.policyInherit')}
+            </SelectItem>
+            {POLICIES.map((policy) => (
+              <SelectItem key={policy} value={policy}>
+                {t(`engineProfile.policy.${policy}`)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {error ? (
+        <p className="text-xs text-destructive">{error.message}</p>
+      ) : null}
+      <Button
+        type="submit"
+        variant="outline"
+        size="sm"
+        className="self-end"
+        disabled={!form.name.trim() || pending}
+      >
+        {pending ? (
+          <Loader2 className="size-3.5 animate-spin" />
+        ) : profile ? null : (
+          <Plus className="size-3.5" />
+        )}
+        {profile ? t('common.save') : t('engineProfile.add')}
+      </Button>
+    </form>
+  )
+}
+
+function ProfileRow({
+  profile,
+  builtIns,
+}: {
+  profile: EngineProfile
+  builtIns: EngineProfile[]
+}) {
+  const { t } = useTranslation()
+  const [expanded, setExpanded] = useState(false)
+  const update = useUpdateEngineProfile()
+  const remove = useDeleteEngineProfile()
+
+  return (
+    <div className="px-2 py-1">
+      <div className="flex items-center gap-1.5">
+        <button
+          type="button"
+          onClick={() => setExpanded((v) => !v)}
+          className="flex min-w-0 flex-1 items-center gap-1.5 text-left"
+        >
+          <ChevronRight
+            className={cn(
+              'h-3 w-3 shrink-0 text-muted-foreground transition-transform',
+              expanded && 'rotate-90',
+            )}
+          />
+          <EngineIcon
+            engineType={profile.engineType}
+            className="h-3.5 w-3.5 shrink-0 text-muted-foreground"
+          />
+          <span className="shrink-0 text-xs font-medium">{profile.name}</span>
+          <span className="truncate font-mono text-[10px] text-muted-foreground">
+            {[profile.baseCommand, ...(profile.args ?? [])].join(' ')}
+          </span>
+        </button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="size-7"
+          aria-label={t('engineProfile.delete')}
+          disabled={remove.isPending}
+          onClick={() => remove.mutate(profile.id)}
+        >
+          <Trash2 className="size-3.5 text-muted-foreground" />
+        </Button>
+      </div>
+      {expanded ? (
+        <div className="mt-1 border-t border-border/40 pt-1.5">
+          <ProfileForm
+            builtIns={builtIns}
+            profile={profile}
+            pending={update.isPending}
+            error={update.error}
+            onSubmit={({ engineType: _engineType, ...input }) =>
+              update.mutate(
+                { id: profile.id, ...input },
+                { onSuccess: () => setExpanded(false) },
+              )
+            }
+          />
+        </div>
+      ) : null}
+    </div>
+  )
+}
+
+/**
+ * User-defined engine profiles: a built-in engine run with its own
+ * command, extra args, env, default model and permission policy.
+ */
+export function EngineProfileSettings({
+  profiles,
+}: {
+  profiles: EngineProfile[]
+}) {
+  const { t } = useTranslation()
+  const create = useCreateEngineProfile()
+  const builtIns = profiles.filter((p) => p.builtIn)
+  const custom = profiles.filter((p) => !p.builtIn)
+
+  return (
+    <Field className="mt-4">
+      <Label>{t('engineProfile.title')}</Label>
+      <p className="text-[11px] text-muted-foreground">
+        {t('engineProfile.hint')}
+      </p>
+      {custom.length > 0 ? (
+        <div className="mt-1.5 flex flex-col divide-y rounded-md border">
+          {custom.map((profile) => (
+            <ProfileRow
+              key={profile.id}
+              profile={profile}
+              builtIns={builtIns}
+            />
+          ))}
+        </div>
+      ) : null}
+      {builtIns.length > 0 ? (
+        <ProfileForm
+          builtIns={builtIns}
+          pending={create.isPending}
+          error={create.error}
+          onSubmit={(input, reset) =>
+            create.mutate(input, { onSuccess: reset })
+          }
+        />
+      ) : null}
+    </Field>
+  )
+}
@@ -0,0 +1,181 @@
+import { Loader2, Plus, Trash2 } from 'lucide-react'
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Button } from '@/components/ui/button'
+import { Field } from '@/components/ui/field'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Switch } from '@/components/ui/switch'
+import {
+  useCreateGuardrail,
+  useDeleteGuardrail,
+  useGuardrails,
+  useUpdateGuardrail,
+} from '@/hooks/use-kanban'
+import { cn } from '@/lib/utils'
+import type { Guardrail, GuardrailKind } from '@/types/kanban'
+
+const KINDS: GuardrailKind[] = ['command', 'path', 'tool']
+const ACTIONS: Guardrail['action'][] = ['deny', 'allow']
+
+function GuardrailRow({
+  projectId,
+  guardrail,
+}: {
+  projectId: string
+  guardrail: Guardrail
+}) {
+  const { t } = useTranslation()
+  const update = useUpdateGuardrail(projectId)
+  const remove = useDeleteGuardrail(projectId)
+
+  return (
+    <div className="flex items-center gap-1.5 px-2 py-1">
+      <span
+        className={cn(
+          'w-10 shrink-0 text-[10px] font-medium uppercase',
+          guardrail.action === 'deny'
+            ? 'text-destructive'
+            : 'text-emerald-600 dark:text-emerald-400',
+        )}
+      >
+        {t(`guardrail.action.${guardrail.action}`)}
+      </span>
+      <span className="w-14 shrink-0 text-[10px] text-muted-foreground">
+        {t(`guardrail.kind.${guardrail.kind}`)}
+      </span>
+      <span className="min-w-0 flex-1 truncate font-mono text-xs">
+        {guardrail.pattern}
+      </span>
+      <Switch
+        size="sm"
+        checked={guardrail.enabled}
+        disabled={update.isPending}
+        onCheckedChange={(enabled) =>
+          update.mutate({ id: guardrail.id, enabled })
+        }
+        aria-label={t('guardrail.enabled')}
+      />
+      <Button
+        variant="ghost"
+        size="icon"
+        className="size-7"
+        aria-label={t('guardrail.delete')}
+        disabled={remove.isPending}
+        onClick={() => remove.mutate(guardrail.id)}
+      >
+        <Trash2 className="size-3.5 text-muted-foreground" />
+      </Button>
+    </div>
+  )
+}
+
+/**
+ * Guardrails of a project. Every tool call of the project's Claude and Codex
+ * agents is checked against the enabled rules before it runs.
+ */
+export function GuardrailSettings({
+  open,
+  projectId,
+}: {
+  open: boolean
+  projectId: string
+}) {
+  const { t } = useTranslation()
+  const { data: guardrails } = useGuardrails(open ? projectId : '')
+  const create = useCreateGuardrail(projectId)
+  const [kind, setKind] = useState<GuardrailKind>('command')
+  const [action, setAction] = useState<Guardrail['action']>('deny')
+  const [pattern, setPattern] = useState('')
+
+  return (
+    <Field>
+      <Label>{t('guardrail.title')}</Label>
+      <p className="text-[11px] text-muted-foreground">{t('guardrail.hint')}</p>
+      {guardrails && guardrails.length > 0 ? (
+        <div className="mt-1.5 flex flex-col divide-y rounded-md border">
+          {guardrails.map((guardrail) => (
+            <GuardrailRow
+              key={guardrail.id}
+              projectId={projectId}
+              guardrail={guardrail}
+            />
+          ))}
+        </div>
+      ) : null}
+      <form
+        className="flex flex-col gap-1.5"
+        onSubmit={(e) => {
+          e.preventDefault()
+          create.mutate(
+            { kind, action, pattern: pattern.trim() },
+            { onSuccess: () => setPattern('') },
+          )
+        }}
+      >
+        <div className="flex gap-1.5">
+          <Select
+            value={action}
+            onValueChange={(value) => setAction(value as Guardrail['action'])}
+          >
+            <SelectTrigger className="w-24">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ACTIONS.map((a) => (
+                <SelectItem key={a} value={a}>
+                  {t(`guardrail.action.${a}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={kind}
+            onValueChange={(value) => setKind(value as GuardrailKind)}
+          >
+            <SelectTrigger className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {KINDS.map((k) => (
+                <SelectItem key={k} value={k}>
+                  {t(`guardrail.kind.${k}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            className="flex-1 font-mono text-xs"
+            placeholder={t(`guardrail.placeholder.${kind}`)}
+            value={pattern}
+            onChange={(e) => setPattern(e.target.value)}
+          />
+        </div>
+        {create.error ? (
+          <p className="text-xs text-destructive">{create.error.message}</p>
+        ) : null}
+        <Button
+          type="submit"
+          variant="outline"
+          size="sm"
+          className="self-end"
+          disabled={!pattern.trim() || create.isPending}
+        >
+          {create.isPending ? (
+            <Loader2 className="size-3.5 animate-spin" />
+          ) : (
+            <Plus className="size-3.5" />
+          )}
+          {t('guardrail.add')}
+        </Button>
+      </form>
+    </Field>
+  )
+}
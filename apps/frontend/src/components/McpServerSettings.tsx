@@ -0,0 +1,237 @@
+import { ChevronRight, Loader2, Plus, Trash2 } from 'lucide-react'
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Button } from '@/components/ui/button'
+import { Field } from '@/components/ui/field'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  useCreateMcpServer,
+  useDeleteMcpServer,
+  useMcpServers,
+  useUpdateMcpServer,
+} from '@/hooks/use-kanban'
+import { parseArgs, parseEnv } from '@/lib/format'
+import { cn } from '@/lib/utils'
+import type { McpServer, McpServerInput } from '@/types/kanban'
+
+type FormState = {
+  name: string
+  command: string
+  args: string
+  env: string
+}
+
+function toFormState(server?: McpServer): FormState {
+  return {
+    name: server?.name ?? '',
+    command: server?.command ?? '',
+    args: server?.args.join(' ') ?? '',
+    // Stored values are not returned; an empty value keeps the stored one
+    env: Object.keys(server?.env ?? {})
+      .map((key) => `${key}=`)
+      .join('\n'),
+  }
+}
+
+function toInputEnv(
+  text: string,
+  server?: McpServer,
+): Record<string, string | null> {
+  const env: Record<string, string | null> = parseEnv(text)
+  for (const [key, value] of Object.entries(env)) {
+    if (value === '' && server && key in server.env) env[key] = null
+  }
+  return env
+}
+
+function McpServerForm({
+  server,
+  pending,
+  error,
+  onSubmit,
+}: {
+  server?: McpServer
+  pending: boolean
+  error: Error | null
+  onSubmit: (data: McpServerInput, reset: () => void) => void
+}) {
+  const { t } = useTranslation()
+  const [form, setForm] = useState(() => toFormState(server))
+  const set = (patch: Partial<FormState>) =>
+    setForm((prev) => ({ ...prev, ...patch }))
+
+  return (
+    <form
+      className="flex flex-col gap-1.5"
+      onSubmit={(e) => {
+        e.preventDefault()
+        onSubmit(
+          {
+            name: form.name.trim(),
+            command: form.command.trim(),
+            args: parseArgs(form.args),
+            env: toInputEnv(form.env, server),
+          },
+          () => setForm(toFormState()),
+        )
+      }}
+    >
+      <div className="flex gap-1.5">
+        <Input
+          className="w-32 font-mono text-xs"
+          placeholder={t('mcpServer.name')}
+          value={form.name}
+          onChange={(e) => set({ name: e.target.value })}
+        />
+        <Input
+          className="flex-1 font-mono text-xs"
+          placeholder={t('mcpServer.command')}
+          value={form.command}
+          onChange={(e) => set({ command: e.target.value })}
+        />
+      </div>
+      <Input
+        className="font-mono text-xs"
+        placeholder={t('mcpServer.args')}
+        value={form.args}
+        onChange={(e) => set({ args: e.target.value })}
+      />
+      <Textarea
+        rows={2}
+        className="font-mono text-xs"
+        placeholder={t('mcpServer.env')}
+        value={form.env}
+        onChange={(e) => set({ env: e.target.value })}
+      />
+      {error ? (
+        <p className="text-xs text-destructive">{error.message}</p>
+      ) : null}
+      <Button
+        type="submit"
+        variant="outline"
+        size="sm"
+        className="self-end"
+        disabled={!form.name.trim() || !form.command.trim() || pending}
+      >
+        {pending ? (
+          <Loader2 className="size-3.5 animate-spin" />
+        ) : server ? null : (
+          <Plus className="size-3.5" />
+        )}
+        {server ? t('common.save') : t('mcpServer.add')}
+      </Button>
+    </form>
+  )
+}
+
+function McpServerRow({
+  projectId,
+  server,
+}: {
+  projectId: string
+  server: McpServer
+}) {
+  const { t } = useTranslation()
+  const [expanded, setExpanded] = useState(false)
+  const update = useUpdateMcpServer(projectId)
+  const remove = useDeleteMcpServer(projectId)
+
+  return (
+    <div className="px-2 py-1">
+      <div className="flex items-center gap-1.5">
+        <button
+          type="button"
+          onClick={() => setExpanded((v) => !v)}
+          className="flex min-w-0 flex-1 items-center gap-1.5 text-left"
+        >
+          <ChevronRight
+            className={cn(
+              'h-3 w-3 shrink-0 text-muted-foreground transition-transform',
+              expanded && 'rotate-90',
+            )}
+          />
+          <span className="shrink-0 font-mono text-xs">{server.name}</span>
+          <span className="truncate font-mono text-[10px] text-muted-foreground">
+            {[server.command, ...server.args].join(' ')}
+          </span>
+        </button>
+        <Switch
+          size="sm"
+          checked={server.enabled}
+          disabled={update.isPending}
+          onCheckedChange={(enabled) =>
+            update.mutate({ id: server.id, enabled })
+          }
+          aria-label={t('mcpServer.enabled')}
+        />
+        <Button
+          variant="ghost"
+          size="icon"
+          className="size-7"
+          aria-label={t('mcpServer.delete')}
+          disabled={remove.isPending}
+          onClick={() => remove.mutate(server.id)}
+        >
+          <Trash2 className="size-3.5 text-muted-foreground" />
+        </Button>
+      </div>
+      {expanded ? (
+        <div className="mt-1 border-t border-border/40 pt-1.5">
+          <McpServerForm
+            server={server}
+            pending={update.isPending}
+            error={update.error}
+            onSubmit={(data) =>
+              update.mutate(
+                { id: server.id, ...data },
+                { onSuccess: () => setExpanded(false) },
+              )
+            }
+          />
+        </div>
+      ) : null}
+    </div>
+  )
+}
+
+/**
+ * MCP servers of a project. Enabled servers are handed to every agent the
+ * project starts, on top of the agent's own MCP setup.
+ */
+export function McpServerSettings({
+  open,
+  projectId,
+}: {
+  open: boolean
+  projectId: string
+}) {
+  const { t } = useTranslation()
+  const { data: servers } = useMcpServers(open ? projectId : '')
+  const create = useCreateMcpServer(projectId)
+
+  return (
+    <Field>
+      <Label>{t('mcpServer.title')}</Label>
+      <p className="text-[11px] text-muted-foreground">{t('mcpServer.hint')}</p>
+      {servers && servers.length > 0 ? (
+        <div className="mt-1.5 flex flex-col divide-y rounded-md border">
+          {servers.map((server) => (
+            <McpServerRow
+              key={server.id}
+              projectId={projectId}
+              server={server}
+            />
+          ))}
+        </div>
+      ) : null}
+      <McpServerForm
+        pending={create.isPending}
+        error={create.error}
+        onSubmit={(data, reset) => create.mutate(data, { onSuccess: reset })}
+      />
+    </Field>
+  )
+}
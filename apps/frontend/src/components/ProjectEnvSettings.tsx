@@ -0,0 +1,224 @@
+import { Check, Loader2, Lock, Pencil, Plus, Trash2, X } from 'lucide-react'
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Button } from '@/components/ui/button'
+import { Field } from '@/components/ui/field'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import {
+  useCreateProjectEnvVar,
+  useDeleteProjectEnvVar,
+  useProjectEnv,
+  useUpdateProjectEnvVar,
+} from '@/hooks/use-kanban'
+import type { ProjectEnvVar } from '@/types/kanban'
+
+const MASKED_VALUE = '••••••••'
+
+function EnvVarRow({
+  projectId,
+  envVar,
+}: {
+  projectId: string
+  envVar: ProjectEnvVar
+}) {
+  const { t } = useTranslation()
+  const [editing, setEditing] = useState(false)
+  const [value, setValue] = useState('')
+  const update = useUpdateProjectEnvVar(projectId)
+  const remove = useDeleteProjectEnvVar(projectId)
+
+  const startEditing = () => {
+    // Secrets are write-only, so they are always replaced
+    setValue(envVar.value ?? '')
+    setEditing(true)
+  }
+
+  return (
+    <div className="flex items-center gap-1.5 px-2 py-1">
+      <span className="shrink-0 font-mono text-xs">{envVar.key}</span>
+      {editing ? (
+        <form
+          className="flex min-w-0 flex-1 items-center gap-1"
+          onSubmit={(e) => {
+            e.preventDefault()
+            update.mutate(
+              { id: envVar.id, value },
+              { onSuccess: () => setEditing(false) },
+            )
+          }}
+        >
+          <Input
+            type={envVar.isSecret ? 'password' : 'text'}
+            className="h-7 flex-1 font-mono text-xs"
+            placeholder={envVar.isSecret ? t('projectEnv.newSecret') : ''}
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            autoComplete="new-password"
+            autoFocus
+          />
+          <Button
+            type="submit"
+            variant="ghost"
+            size="icon"
+            className="size-7"
+            aria-label={t('common.save')}
+            disabled={update.isPending}
+          >
+            <Check className="size-3.5" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="size-7"
+            aria-label={t('common.cancel')}
+            onClick={() => setEditing(false)}
+          >
+            <X className="size-3.5 text-muted-foreground" />
+          </Button>
+        </form>
+      ) : (
+        <>
+          <span className="min-w-0 flex-1 truncate font-mono text-xs text-muted-foreground">
+            {envVar.isSecret ? MASKED_VALUE : envVar.value}
+          </span>
+          <Switch
+            size="sm"
+            checked={envVar.isSecret}
+            disabled={update.isPending}
+            onCheckedChange={(isSecret) =>
+              update.mutate({ id: envVar.id, isSecret })
+            }
+            aria-label={t('projectEnv.secret')}
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            className="size-7"
+            aria-label={t('projectEnv.edit')}
+            onClick={startEditing}
+          >
+            <Pencil className="size-3.5 text-muted-foreground" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="size-7"
+            aria-label={t('projectEnv.delete')}
+            disabled={remove.isPending}
+            onClick={() => remove.mutate(envVar.id)}
+          >
+            <Trash2 className="size-3.5 text-muted-foreground" />
+          </Button>
+        </>
+      )}
+    </div>
+  )
+}
+
+function CreateEnvVarForm({ projectId }: { projectId: string }) {
+  const { t } = useTranslation()
+  const create = useCreateProjectEnvVar(projectId)
+  const [key, setKey] = useState('')
+  const [value, setValue] = useState('')
+  const [isSecret, setIsSecret] = useState(false)
+
+  return (
+    <form
+      className="flex flex-col gap-1.5"
+      onSubmit={(e) => {
+        e.preventDefault()
+        create.mutate(
+          { key: key.trim(), value, isSecret },
+          {
+            onSuccess: () => {
+              setKey('')
+              setValue('')
+              setIsSecret(false)
+            },
+          },
+        )
+      }}
+    >
+      <div className="flex gap-1.5">
+        <Input
+          className="w-40 font-mono"
+          placeholder="API_TOKEN"
+          value={key}
+          onChange={(e) => setKey(e.target.value)}
+        />
+        <Input
+          type={isSecret ? 'password' : 'text'}
+          className="flex-1 font-mono"
+          placeholder={t('projectEnv.value')}
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          autoComplete="new-password"
+        />
+      </div>
+      {create.error ? (
+        <p className="text-xs text-destructive">{create.error.message}</p>
+      ) : null}
+      <div className="flex items-center gap-1.5">
+        <Switch
+          size="sm"
+          checked={isSecret}
+          onCheckedChange={setIsSecret}
+          aria-label={t('projectEnv.secret')}
+        />
+        <span className="flex items-center gap-1 text-[11px] text-muted-foreground">
+          <Lock className="size-3" />
+          {t('projectEnv.secret')}
+        </span>
+        <Button
+          type="submit"
+          variant="outline"
+          size="sm"
+          className="ml-auto"
+          disabled={!key.trim() || create.isPending}
+        >
+          {create.isPending ? (
+            <Loader2 className="size-3.5 animate-spin" />
+          ) : (
+            <Plus className="size-3.5" />
+          )}
+          {t('projectEnv.add')}
+        </Button>
+      </div>
+    </form>
+  )
+}
+
+/**
+ * Env vars passed to the project's agents and terminals. Secrets are
+ * encrypted on the server, never shown again and masked in session logs.
+ */
+export function ProjectEnvSettings({
+  open,
+  projectId,
+}: {
+  open: boolean
+  projectId: string
+}) {
+  const { t } = useTranslation()
+  const { data: envVars } = useProjectEnv(open ? projectId : '')
+
+  return (
+    <Field>
+      <Label>{t('projectEnv.title')}</Label>
+      <p className="text-[11px] text-muted-foreground">
+        {t('projectEnv.hint')}
+      </p>
+      {envVars && envVars.length > 0 ? (
+        <div className="mt-1.5 flex flex-col divide-y rounded-md border">
+          {envVars.map((envVar) => (
+            <EnvVarRow key={envVar.id} projectId={projectId} envVar={envVar} />
+          ))}
+        </div>
+      ) : null}
+      <CreateEnvVarForm projectId={projectId} />
+    </Field>
+  )
+}
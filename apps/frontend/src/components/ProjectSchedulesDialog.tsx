@@ -0,0 +1,341 @@
+import { ChevronRight, Loader2, Play, Trash2 } from 'lucide-react'
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useNavigate } from 'react-router-dom'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  useCreateSchedule,
+  useDeleteSchedule,
+  useRunSchedule,
+  useScheduleRuns,
+  useSchedules,
+  useUpdateSchedule,
+} from '@/hooks/use-kanban'
+import { cn } from '@/lib/utils'
+import type { Project, Schedule, ScheduleRunStatus } from '@/types/kanban'
+
+const RUN_STATUS_STYLES: Record<ScheduleRunStatus, string> = {
+  started: 'text-emerald-600 dark:text-emerald-400',
+  skipped: 'text-muted-foreground',
+  failed: 'text-destructive',
+}
+
+function formatDateTime(iso: string) {
+  return new Date(iso).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+function ScheduleRuns({
+  project,
+  scheduleId,
+  onNavigate,
+}: {
+  project: Project
+  scheduleId: string
+  onNavigate: () => void
+}) {
+  const { t } = useTranslation()
+  const navigate = useNavigate()
+  const { data: runs } = useScheduleRuns(project.id, scheduleId)
+
+  if (!runs) return null
+  if (runs.length === 0) {
+    return (
+      <p className="px-1 text-[11px] text-muted-foreground">
+        {t('schedule.noRuns')}
+      </p>
+    )
+  }
+  return (
+    <div className="max-h-32 overflow-y-auto">
+      {runs.map((run) => (
+        <button
+          key={run.id}
+          type="button"
+          disabled={!run.issueId}
+          onClick={() => {
+            onNavigate()
+            void navigate(`/projects/${project.alias}/issues/${run.issueId}`)
+          }}
+          className="flex w-full items-center gap-2 rounded-sm px-1 py-0.5 text-left text-[11px] hover:bg-accent/50 disabled:hover:bg-transparent"
+          title={run.error ?? undefined}
+        >
+          <span className="shrink-0 tabular-nums text-muted-foreground">
+            {formatDateTime(run.createdAt)}
+          </span>
+          <span className={cn('shrink-0', RUN_STATUS_STYLES[run.status])}>
+            {t(`schedule.runStatus.${run.status}`)}
+          </span>
+          {run.issueNumber !== null ? (
+            <span className="truncate">
+              #{run.issueNumber} {run.issueTitle}
+            </span>
+          ) : null}
+        </button>
+      ))}
+    </div>
+  )
+}
+
+function ScheduleRow({
+  project,
+  schedule,
+  onNavigate,
+}: {
+  project: Project
+  schedule: Schedule
+  onNavigate: () => void
+}) {
+  const { t } = useTranslation()
+  const [expanded, setExpanded] = useState(false)
+  const update = useUpdateSchedule(project.id)
+  const remove = useDeleteSchedule(project.id)
+  const run = useRunSchedule(project.id)
+
+  const timing = schedule.cron
+    ? schedule.cron
+    : schedule.runAt
+      ? t('schedule.onceAt', { time: formatDateTime(schedule.runAt) })
+      : ''
+
+  return (
+    <div className="rounded-md border border-border/60 px-2 py-1.5">
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={() => setExpanded((v) => !v)}
+          className="flex min-w-0 flex-1 items-center gap-1.5 text-left"
+        >
+          <ChevronRight
+            className={cn(
+              'h-3 w-3 shrink-0 text-muted-foreground transition-transform',
+              expanded && 'rotate-90',
+            )}
+          />
+          <span className="truncate text-xs font-medium">{schedule.name}</span>
+          <span className="shrink-0 font-mono text-[10px] text-muted-foreground">
+            {timing}
+          </span>
+        </button>
+        {schedule.nextRunAt ? (
+          <span className="hidden shrink-0 text-[10px] text-muted-foreground tabular-nums md:inline">
+            {t('schedule.nextRun', {
+              time: formatDateTime(schedule.nextRunAt),
+            })}
+          </span>
+        ) : null}
+        <Switch
+          size="sm"
+          checked={schedule.enabled}
+          disabled={update.isPending}
+          onCheckedChange={(enabled) =>
+            update.mutate({ id: schedule.id, enabled })
+          }
+          aria-label={t('schedule.enabled')}
+        />
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 text-muted-foreground hover:text-foreground"
+          title={t('schedule.runNow')}
+          disabled={run.isPending}
+          onClick={() => run.mutate(schedule.id)}
+        >
+          {run.isPending ? (
+            <Loader2 className="h-3 w-3 animate-spin" />
+          ) : (
+            <Play className="h-3 w-3" />
+          )}
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 text-muted-foreground hover:text-destructive"
+          title={t('schedule.delete')}
+          disabled={remove.isPending}
+          onClick={() => remove.mutate(schedule.id)}
+        >
+          <Trash2 className="h-3 w-3" />
+        </Button>
+      </div>
+      {expanded ? (
+        <div className="mt-1.5 space-y-1 border-t border-border/40 pt-1.5">
+          <p className="line-clamp-2 px-1 text-[11px] text-muted-foreground">
+            {schedule.prompt}
+          </p>
+          <ScheduleRuns
+            project={project}
+            scheduleId={schedule.id}
+            onNavigate={onNavigate}
+          />
+        </div>
+      ) : null}
+    </div>
+  )
+}
+
+function CreateScheduleForm({ project }: { project: Project }) {
+  const { t } = useTranslation()
+  const create = useCreateSchedule(project.id)
+  const [name, setName] = useState('')
+  const [prompt, setPrompt] = useState('')
+  const [recurring, setRecurring] = useState(true)
+  const [cron, setCron] = useState('')
+  const [runAt, setRunAt] = useState('')
+
+  const timingValid = recurring ? !!cron.trim() : !!runAt
+
+  return (
+    <form
+      className="flex flex-col gap-1.5"
+      onSubmit={(e) => {
+        e.preventDefault()
+        create.mutate(
+          {
+            name: name.trim(),
+            prompt: prompt.trim(),
+            // datetime-local is wall-clock time; send it as an instant
+            ...(recurring
+              ? { cron: cron.trim() }
+              : { runAt: new Date(runAt).toISOString() }),
+          },
+          {
+            onSuccess: () => {
+              setName('')
+              setPrompt('')
+              setCron('')
+              setRunAt('')
+            },
+          },
+        )
+      }}
+    >
+      <Input
+        placeholder={t('schedule.name')}
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+      />
+      <Textarea
+        placeholder={t('schedule.prompt')}
+        className="min-h-16 text-xs"
+        value={prompt}
+        onChange={(e) => setPrompt(e.target.value)}
+      />
+      <div className="flex items-center gap-2">
+        <div className="flex items-center rounded-md border border-border bg-muted/30 p-0.5">
+          {[true, false].map((value) => (
+            <button
+              key={String(value)}
+              type="button"
+              onClick={() => setRecurring(value)}
+              className={cn(
+                'rounded-sm px-2 py-1 text-xs transition-colors',
+                recurring === value
+                  ? 'bg-background text-foreground shadow-sm'
+                  : 'text-muted-foreground hover:text-foreground',
+              )}
+            >
+              {value ? t('schedule.recurring') : t('schedule.once')}
+            </button>
+          ))}
+        </div>
+        {recurring ? (
+          <Input
+            className="flex-1 font-mono"
+            placeholder="0 3 * * *"
+            value={cron}
+            onChange={(e) => setCron(e.target.value)}
+            title={t('schedule.cronHint')}
+          />
+        ) : (
+          <Input
+            type="datetime-local"
+            className="flex-1"
+            value={runAt}
+            onChange={(e) => setRunAt(e.target.value)}
+          />
+        )}
+      </div>
+      {create.error ? (
+        <p className="text-xs text-destructive">{create.error.message}</p>
+      ) : null}
+      <Button
+        type="submit"
+        size="sm"
+        className="self-end"
+        disabled={
+          !name.trim() || !prompt.trim() || !timingValid || create.isPending
+        }
+      >
+        {create.isPending ? (
+          <Loader2 className="size-3.5 animate-spin" />
+        ) : null}
+        {t('schedule.create')}
+      </Button>
+    </form>
+  )
+}
+
+/**
+ * Recurring and one-shot agent runs of a project. Each run creates an issue
+ * from the schedule's prompt (or re-runs a bound issue).
+ */
+export function ProjectSchedulesDialog({
+  open,
+  onOpenChange,
+  project,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  project: Project
+}) {
+  const { t } = useTranslation()
+  const { data: schedules, isLoading } = useSchedules(open ? project.id : '')
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="md:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t('schedule.title')}</DialogTitle>
+          <DialogDescription>{t('schedule.description')}</DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !schedules ? (
+          <p className="text-xs text-muted-foreground">{t('common.loading')}</p>
+        ) : schedules.length === 0 ? (
+          <p className="text-xs text-muted-foreground">{t('schedule.empty')}</p>
+        ) : (
+          <div className="max-h-64 space-y-1.5 overflow-y-auto">
+            {schedules.map((schedule) => (
+              <ScheduleRow
+                key={schedule.id}
+                project={project}
+                schedule={schedule}
+                onNavigate={() => onOpenChange(false)}
+              />
+            ))}
+          </div>
+        )}
+
+        <section className="space-y-1.5 border-t border-border/60 pt-3">
+          <h3 className="text-xs font-medium">{t('schedule.new')}</h3>
+          <CreateScheduleForm project={project} />
+        </section>
+      </DialogContent>
+    </Dialog>
+  )
+}
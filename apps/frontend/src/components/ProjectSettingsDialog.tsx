@@ -3,6 +3,9 @@ import { useEffect, useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import { useNavigate } from 'react-router-dom'
 import { DirectoryPicker } from '@/components/DirectoryPicker'
+import { GuardrailSettings } from '@/components/GuardrailSettings'
+import { McpServerSettings } from '@/components/McpServerSettings'
+import { ProjectEnvSettings } from '@/components/ProjectEnvSettings'
 import { Button } from '@/components/ui/button'
 import {
   Dialog,
@@ -16,6 +19,9 @@ import { Field, FieldGroup } from '@/components/ui/field'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
+import { VerifyCommandSettings } from '@/components/VerifyCommandSettings'
+import { WebhookSettings } from '@/components/WebhookSettings'
+import { WorkflowSettings } from '@/components/WorkflowSettings'
 import { useDeleteProject, useUpdateProject } from '@/hooks/use-kanban'
 import type { Project } from '@/types/kanban'
 
@@ -160,7 +166,7 @@ export function ProjectSettingsDialog({
   return (
     <>
       <Dialog open={open} onOpenChange={onOpenChange}>
-        <DialogContent className="md:max-w-lg">
+        <DialogContent className="max-h-[90vh] overflow-y-auto md:max-w-lg">
           <DialogHeader>
             <div>
               <DialogTitle>{t('project.settings')}</DialogTitle>
@@ -235,6 +241,18 @@ export function ProjectSettingsDialog({
             </Field>
 
             {error ? <p className="text-sm text-destructive">{error}</p> : null}
+
+            <WorkflowSettings open={open} projectId={project.id} />
+
+            <ProjectEnvSettings open={open} projectId={project.id} />
+
+            <McpServerSettings open={open} projectId={project.id} />
+
+            <GuardrailSettings open={open} projectId={project.id} />
+
+            <VerifyCommandSettings open={open} project={project} />
+
+            <WebhookSettings open={open} projectId={project.id} />
           </FieldGroup>
 
           <DialogFooter>
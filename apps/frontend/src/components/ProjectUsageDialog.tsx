@@ -0,0 +1,203 @@
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useNavigate } from 'react-router-dom'
+import { BudgetForm } from '@/components/BudgetForm'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  useProjectBudget,
+  useProjectUsage,
+  useUpdateProjectBudget,
+} from '@/hooks/use-kanban'
+import { formatCost, formatModelName, formatTokenCount } from '@/lib/format'
+import { cn } from '@/lib/utils'
+import type { DailyUsage, Project, UsageTotals } from '@/types/kanban'
+
+const RANGES = [7, 30, 90] as const
+
+function tokensOf(usage: UsageTotals) {
+  return usage.inputTokens + usage.outputTokens
+}
+
+function DailyChart({
+  daily,
+  byCost,
+}: {
+  daily: DailyUsage[]
+  byCost: boolean
+}) {
+  const value = (d: DailyUsage) => (byCost ? d.costUsd : tokensOf(d))
+  const max = Math.max(...daily.map(value), 0)
+  if (max === 0) return null
+
+  return (
+    <div className="flex h-20 items-end gap-0.5">
+      {daily.map((d) => (
+        <div
+          key={d.date}
+          className="flex-1 min-w-[3px] rounded-t-sm bg-primary/60 hover:bg-primary"
+          style={{ height: `${Math.max((value(d) / max) * 100, 2)}%` }}
+          title={`${d.date} · ${formatTokenCount(tokensOf(d))} · ${formatCost(d.costUsd)}`}
+        />
+      ))}
+    </div>
+  )
+}
+
+/**
+ * Token and cost totals for a project: a daily chart plus breakdowns by
+ * model and by issue. Clicking an issue opens it.
+ */
+export function ProjectUsageDialog({
+  open,
+  onOpenChange,
+  project,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  project: Project
+}) {
+  const { t } = useTranslation()
+  const navigate = useNavigate()
+  const [days, setDays] = useState<number | undefined>(30)
+  const { data: usage, isLoading } = useProjectUsage(
+    open ? project.id : '',
+    days,
+  )
+  const { data: budget } = useProjectBudget(open ? project.id : '')
+  const updateBudget = useUpdateProjectBudget(project.id)
+
+  const byCost = (usage?.totals.costUsd ?? 0) > 0
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="md:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t('usage.title')}</DialogTitle>
+          <DialogDescription>{t('usage.description')}</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center rounded-md border border-border bg-muted/30 p-0.5 self-start">
+          {[...RANGES, undefined].map((range) => (
+            <button
+              key={range ?? 'all'}
+              type="button"
+              onClick={() => setDays(range)}
+              className={cn(
+                'rounded-sm px-2 py-1 text-xs transition-colors',
+                days === range
+                  ? 'bg-background text-foreground shadow-sm'
+                  : 'text-muted-foreground hover:text-foreground',
+              )}
+            >
+              {range ? t('usage.lastDays', { count: range }) : t('usage.all')}
+            </button>
+          ))}
+        </div>
+
+        {isLoading || !usage ? (
+          <p className="text-xs text-muted-foreground">{t('common.loading')}</p>
+        ) : usage.totals.turns === 0 ? (
+          <p className="text-xs text-muted-foreground">{t('usage.empty')}</p>
+        ) : (
+          <div className="space-y-4 min-w-0">
+            <div className="grid grid-cols-4 gap-2 text-center">
+              {[
+                [t('usage.cost'), formatCost(usage.totals.costUsd)],
+                [t('usage.input'), formatTokenCount(usage.totals.inputTokens)],
+                [
+                  t('usage.output'),
+                  formatTokenCount(usage.totals.outputTokens),
+                ],
+                [
+                  t('usage.cacheRead'),
+                  formatTokenCount(usage.totals.cacheReadTokens),
+                ],
+              ].map(([label, value]) => (
+                <div
+                  key={label}
+                  className="rounded-md border border-border/60 bg-muted/20 px-2 py-1.5"
+                >
+                  <div className="text-sm font-semibold tabular-nums">
+                    {value}
+                  </div>
+                  <div className="text-[10px] text-muted-foreground">
+                    {label}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <DailyChart daily={usage.daily} byCost={byCost} />
+
+            <section className="space-y-1">
+              <h3 className="text-xs font-medium">{t('usage.byModel')}</h3>
+              {usage.byModel.map((row) => (
+                <div
+                  key={`${row.engineType}:${row.model}`}
+                  className="flex items-center gap-2 text-xs"
+                >
+                  <span className="truncate">
+                    {row.model ? formatModelName(row.model) : row.engineType}
+                  </span>
+                  <span className="ml-auto shrink-0 tabular-nums text-muted-foreground">
+                    {formatTokenCount(tokensOf(row))} ·{' '}
+                    {formatCost(row.costUsd)}
+                  </span>
+                </div>
+              ))}
+            </section>
+
+            <section className="space-y-1">
+              <h3 className="text-xs font-medium">{t('usage.byIssue')}</h3>
+              <div className="max-h-48 overflow-y-auto">
+                {usage.byIssue.map((row) => (
+                  <button
+                    key={row.issueId}
+                    type="button"
+                    onClick={() => {
+                      onOpenChange(false)
+                      void navigate(
+                        `/projects/${project.alias}/issues/${row.issueId}`,
+                      )
+                    }}
+                    className="flex w-full items-center gap-2 rounded-sm px-1 py-0.5 text-left text-xs hover:bg-accent/50"
+                  >
+                    <span className="shrink-0 text-muted-foreground tabular-nums">
+                      #{row.issueNumber}
+                    </span>
+                    <span className="truncate">{row.title}</span>
+                    <span className="ml-auto shrink-0 tabular-nums text-muted-foreground">
+                      {formatTokenCount(tokensOf(row))} ·{' '}
+                      {formatCost(row.costUsd)}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </section>
+          </div>
+        )}
+
+        {budget ? (
+          <section className="space-y-1.5 border-t border-border/60 pt-3">
+            <h3 className="text-xs font-medium">{t('budget.projectTitle')}</h3>
+            <p className="text-[11px] text-muted-foreground">
+              {t('budget.projectDescription')}
+            </p>
+            <BudgetForm
+              status={budget}
+              isSaving={updateBudget.isPending}
+              error={updateBudget.error}
+              onSave={(limits) => updateBudget.mutate(limits)}
+            />
+          </section>
+        ) : null}
+      </DialogContent>
+    </Dialog>
+  )
+}
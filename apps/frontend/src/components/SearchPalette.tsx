@@ -0,0 +1,209 @@
+import {
+  AlertCircle,
+  Bot,
+  CircleDot,
+  MessageSquare,
+  User,
+  Wrench,
+} from 'lucide-react'
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useMatch, useNavigate } from 'react-router-dom'
+import {
+  Command,
+  CommandDialog,
+  CommandEmpty,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command'
+import { useSearch } from '@/hooks/use-kanban'
+import { cn } from '@/lib/utils'
+import type { SearchResult, SnippetSegment } from '@/types/kanban'
+
+const FILTERS = {
+  all: undefined,
+  issues: ['issue'],
+  messages: ['user-message', 'assistant-message'],
+  tools: ['tool-use'],
+  errors: ['error-message'],
+} satisfies Record<string, string[] | undefined>
+
+type Filter = keyof typeof FILTERS
+
+const DEBOUNCE_MS = 200
+
+function ResultIcon({ result }: { result: SearchResult }) {
+  const className = 'h-3.5 w-3.5 text-muted-foreground'
+  if (result.kind === 'issue') return <CircleDot className={className} />
+  switch (result.entryType) {
+    case 'user-message':
+      return <User className={className} />
+    case 'assistant-message':
+      return <Bot className={className} />
+    case 'tool-use':
+      return <Wrench className={className} />
+    case 'error-message':
+      return <AlertCircle className={className} />
+    default:
+      return <MessageSquare className={className} />
+  }
+}
+
+function Snippet({ segments }: { segments: SnippetSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, i) =>
+        segment.highlight ? (
+          <mark
+            // biome-ignore lint/suspicious/noArrayIndexKey: segments are static per result
+            key={i}
+            className="rounded-sm bg-amber-200/70 px-0.5 text-foreground dark:bg-amber-500/30"
+          >
+            {segment.text}
+          </mark>
+        ) : (
+          // biome-ignore lint/suspicious/noArrayIndexKey: segments are static per result
+          <span key={i}>{segment.text}</span>
+        ),
+      )}
+    </>
+  )
+}
+
+/**
+ * Full-text search over issue titles, prompts and session logs. Picking a
+ * log match opens the issue and scrolls its transcript to that entry.
+ */
+export function SearchPalette({
+  open,
+  onOpenChange,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}) {
+  const { t } = useTranslation()
+  const navigate = useNavigate()
+  const projectMatch = useMatch('/projects/:projectId/*')
+  const currentProject = projectMatch?.params.projectId
+  const [input, setInput] = useState('')
+  const [query, setQuery] = useState('')
+  const [filter, setFilter] = useState<Filter>('all')
+  const [allProjects, setAllProjects] = useState(false)
+
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(input), DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [input])
+
+  const scope = allProjects ? undefined : currentProject
+  const { data: results = [], isFetching } = useSearch(open ? query : '', {
+    projectId: scope,
+    types: FILTERS[filter],
+  })
+
+  const openResult = (result: SearchResult) => {
+    onOpenChange(false)
+    const target = `/projects/${result.projectAlias}/issues/${result.issueId}`
+    void navigate(
+      result.messageId
+        ? `${target}?message=${encodeURIComponent(result.messageId)}`
+        : target,
+    )
+  }
+
+  const toggleClass = (active: boolean) =>
+    cn(
+      'rounded-sm px-2 py-1 text-xs transition-colors',
+      active
+        ? 'bg-background text-foreground shadow-sm'
+        : 'text-muted-foreground hover:text-foreground',
+    )
+
+  return (
+    <CommandDialog
+      open={open}
+      onOpenChange={onOpenChange}
+      title={t('search.title')}
+      description={t('search.placeholder')}
+      className="md:max-w-xl"
+    >
+      <Command shouldFilter={false}>
+        <CommandInput
+          value={input}
+          onValueChange={setInput}
+          placeholder={t('search.placeholder')}
+        />
+        <div className="flex flex-wrap items-center gap-2 px-2 pt-2">
+          <div className="flex items-center rounded-md border border-border bg-muted/30 p-0.5">
+            {(Object.keys(FILTERS) as Filter[]).map((key) => (
+              <button
+                key={key}
+                type="button"
+                onClick={() => setFilter(key)}
+                className={toggleClass(filter === key)}
+              >
+                {t(`search.filter.${key}`)}
+              </button>
+            ))}
+          </div>
+          {currentProject ? (
+            <div className="flex items-center rounded-md border border-border bg-muted/30 p-0.5">
+              <button
+                type="button"
+                onClick={() => setAllProjects(false)}
+                className={toggleClass(!allProjects)}
+              >
+                {t('search.thisProject')}
+              </button>
+              <button
+                type="button"
+                onClick={() => setAllProjects(true)}
+                className={toggleClass(allProjects)}
+              >
+                {t('search.allProjects')}
+              </button>
+            </div>
+          ) : null}
+        </div>
+        <CommandList className="max-h-96">
+          {query.trim() ? (
+            <CommandEmpty className="py-6 text-center text-xs text-muted-foreground">
+              {isFetching ? t('common.loading') : t('search.empty')}
+            </CommandEmpty>
+          ) : null}
+          {results.map((result) => (
+            <CommandItem
+              key={`${result.issueId}:${result.messageId ?? ''}`}
+              value={`${result.issueId}:${result.messageId ?? ''}`}
+              onSelect={() => openResult(result)}
+              className="items-start"
+            >
+              <span className="mt-0.5">
+                <ResultIcon result={result} />
+              </span>
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center gap-1.5 text-xs">
+                  <span className="shrink-0 tabular-nums text-muted-foreground">
+                    #{result.issueNumber}
+                  </span>
+                  <span className="truncate font-medium">
+                    {result.issueTitle}
+                  </span>
+                  {scope ? null : (
+                    <span className="shrink-0 text-muted-foreground">
+                      · {result.projectAlias}
+                    </span>
+                  )}
+                </div>
+                <p className="mt-0.5 line-clamp-2 break-words text-xs text-muted-foreground">
+                  <Snippet segments={result.snippet} />
+                </p>
+              </div>
+            </CommandItem>
+          ))}
+        </CommandList>
+      </Command>
+    </CommandDialog>
+  )
+}
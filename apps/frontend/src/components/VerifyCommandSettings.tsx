@@ -0,0 +1,178 @@
+import { Loader2, Plus, Trash2 } from 'lucide-react'
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Button } from '@/components/ui/button'
+import { Field } from '@/components/ui/field'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Switch } from '@/components/ui/switch'
+import {
+  useCreateVerifyCommand,
+  useDeleteVerifyCommand,
+  useUpdateProject,
+  useUpdateVerifyCommand,
+  useVerifyCommands,
+} from '@/hooks/use-kanban'
+import type { Project, VerifyCommand } from '@/types/kanban'
+
+const FIX_ATTEMPTS = [0, 1, 2, 3, 5]
+
+function VerifyCommandRow({
+  projectId,
+  verifyCommand,
+}: {
+  projectId: string
+  verifyCommand: VerifyCommand
+}) {
+  const { t } = useTranslation()
+  const update = useUpdateVerifyCommand(projectId)
+  const remove = useDeleteVerifyCommand(projectId)
+
+  return (
+    <div className="flex items-center gap-1.5 px-2 py-1">
+      <span className="w-20 shrink-0 truncate text-xs font-medium">
+        {verifyCommand.name}
+      </span>
+      <span className="min-w-0 flex-1 truncate font-mono text-xs text-muted-foreground">
+        {verifyCommand.command}
+      </span>
+      <Switch
+        size="sm"
+        checked={verifyCommand.enabled}
+        disabled={update.isPending}
+        onCheckedChange={(enabled) =>
+          update.mutate({ id: verifyCommand.id, enabled })
+        }
+        aria-label={t('verify.enabled')}
+      />
+      <Button
+        variant="ghost"
+        size="icon"
+        className="size-7"
+        aria-label={t('verify.delete')}
+        disabled={remove.isPending}
+        onClick={() => remove.mutate(verifyCommand.id)}
+      >
+        <Trash2 className="size-3.5 text-muted-foreground" />
+      </Button>
+    </div>
+  )
+}
+
+/**
+ * Verification commands of a project, run in the issue's working directory
+ * after every completed agent turn, and how many times failures are sent
+ * back to the agent before the issue moves to review.
+ */
+export function VerifyCommandSettings({
+  open,
+  project,
+}: {
+  open: boolean
+  project: Project
+}) {
+  const { t } = useTranslation()
+  const { data: verifyCommands } = useVerifyCommands(open ? project.id : '')
+  const create = useCreateVerifyCommand(project.id)
+  const updateProject = useUpdateProject()
+  const [name, setName] = useState('')
+  const [command, setCommand] = useState('')
+
+  return (
+    <Field>
+      <Label>{t('verify.title')}</Label>
+      <p className="text-[11px] text-muted-foreground">{t('verify.hint')}</p>
+      {verifyCommands && verifyCommands.length > 0 ? (
+        <div className="mt-1.5 flex flex-col divide-y rounded-md border">
+          {verifyCommands.map((verifyCommand) => (
+            <VerifyCommandRow
+              key={verifyCommand.id}
+              projectId={project.id}
+              verifyCommand={verifyCommand}
+            />
+          ))}
+        </div>
+      ) : null}
+      <form
+        className="flex flex-col gap-1.5"
+        onSubmit={(e) => {
+          e.preventDefault()
+          create.mutate(
+            { name: name.trim(), command: command.trim() },
+            {
+              onSuccess: () => {
+                setName('')
+                setCommand('')
+              },
+            },
+          )
+        }}
+      >
+        <div className="flex gap-1.5">
+          <Input
+            className="w-28"
+            placeholder={t('verify.name')}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <Input
+            className="flex-1 font-mono text-xs"
+            placeholder={t('verify.command')}
+            value={command}
+            onChange={(e) => setCommand(e.target.value)}
+          />
+        </div>
+        {create.error ? (
+          <p className="text-xs text-destructive">{create.error.message}</p>
+        ) : null}
+        <div className="flex items-center gap-1.5">
+          <span className="text-xs text-muted-foreground">
+            {t('verify.fixAttempts')}
+          </span>
+          <Select
+            value={String(project.verifyFixAttempts)}
+            disabled={updateProject.isPending}
+            onValueChange={(value) =>
+              updateProject.mutate({
+                id: project.id,
+                verifyFixAttempts: Number(value),
+              })
+            }
+          >
+            <SelectTrigger className="w-20" size="sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {FIX_ATTEMPTS.map((n) => (
+                <SelectItem key={n} value={String(n)}>
+                  {n === 0 ? t('verify.noFixes') : n}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            type="submit"
+            variant="outline"
+            size="sm"
+            className="ml-auto"
+            disabled={!name.trim() || !command.trim() || create.isPending}
+          >
+            {create.isPending ? (
+              <Loader2 className="size-3.5 animate-spin" />
+            ) : (
+              <Plus className="size-3.5" />
+            )}
+            {t('verify.add')}
+          </Button>
+        </div>
+      </form>
+    </Field>
+  )
+}
@@ -0,0 +1,289 @@
+import { ChevronRight, Loader2, Plus, RotateCcw, Trash2 } from 'lucide-react'
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Button } from '@/components/ui/button'
+import { Field } from '@/components/ui/field'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import {
+  useCreateWebhook,
+  useDeleteWebhook,
+  useRedeliverWebhook,
+  useUpdateWebhook,
+  useWebhookDeliveries,
+  useWebhooks,
+} from '@/hooks/use-kanban'
+import { cn } from '@/lib/utils'
+import type {
+  Webhook,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+} from '@/types/kanban'
+
+const WEBHOOK_EVENTS: WebhookEvent[] = [
+  'issue.created',
+  'issue.status_changed',
+  'session.settled',
+  'changes.summary',
+]
+
+const DELIVERY_STATUS_STYLES: Record<WebhookDeliveryStatus, string> = {
+  pending: 'text-amber-600 dark:text-amber-400',
+  delivered: 'text-emerald-600 dark:text-emerald-400',
+  failed: 'text-destructive',
+}
+
+function formatDateTime(iso: string) {
+  return new Date(iso).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+function WebhookDeliveries({
+  projectId,
+  webhookId,
+}: {
+  projectId: string
+  webhookId: string
+}) {
+  const { t } = useTranslation()
+  const { data: deliveries } = useWebhookDeliveries(projectId, webhookId)
+  const redeliver = useRedeliverWebhook(projectId, webhookId)
+
+  if (!deliveries) return null
+  if (deliveries.length === 0) {
+    return (
+      <p className="px-1 text-[11px] text-muted-foreground">
+        {t('webhook.noDeliveries')}
+      </p>
+    )
+  }
+  return (
+    <div className="max-h-32 overflow-y-auto">
+      {deliveries.map((delivery) => (
+        <div
+          key={delivery.id}
+          className="flex items-center gap-2 px-1 py-0.5 text-[11px]"
+          title={delivery.error ?? undefined}
+        >
+          <span className="shrink-0 tabular-nums text-muted-foreground">
+            {formatDateTime(delivery.createdAt)}
+          </span>
+          <span className="truncate font-mono">{delivery.event}</span>
+          <span
+            className={cn(
+              'ml-auto shrink-0',
+              DELIVERY_STATUS_STYLES[delivery.status],
+            )}
+          >
+            {t(`webhook.status.${delivery.status}`)}
+            {delivery.responseStatus !== null
+              ? ` · ${delivery.responseStatus}`
+              : null}
+          </span>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="size-5 text-muted-foreground hover:text-foreground"
+            title={t('webhook.redeliver')}
+            disabled={redeliver.isPending}
+            onClick={() => redeliver.mutate(delivery.id)}
+          >
+            {redeliver.isPending && redeliver.variables === delivery.id ? (
+              <Loader2 className="size-3 animate-spin" />
+            ) : (
+              <RotateCcw className="size-3" />
+            )}
+          </Button>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function WebhookRow({
+  projectId,
+  webhook,
+}: {
+  projectId: string
+  webhook: Webhook
+}) {
+  const { t } = useTranslation()
+  const [expanded, setExpanded] = useState(false)
+  const update = useUpdateWebhook(projectId)
+  const remove = useDeleteWebhook(projectId)
+
+  return (
+    <div className="px-2 py-1">
+      <div className="flex items-center gap-1.5">
+        <button
+          type="button"
+          onClick={() => setExpanded((v) => !v)}
+          className="flex min-w-0 flex-1 items-center gap-1.5 text-left"
+        >
+          <ChevronRight
+            className={cn(
+              'h-3 w-3 shrink-0 text-muted-foreground transition-transform',
+              expanded && 'rotate-90',
+            )}
+          />
+          <span className="truncate font-mono text-xs">{webhook.url}</span>
+          <span className="shrink-0 text-[10px] text-muted-foreground">
+            {webhook.events.length === 0
+              ? t('webhook.allEvents')
+              : t('webhook.eventCount', { count: webhook.events.length })}
+          </span>
+        </button>
+        <Switch
+          size="sm"
+          checked={webhook.enabled}
+          disabled={update.isPending}
+          onCheckedChange={(enabled) =>
+            update.mutate({ id: webhook.id, enabled })
+          }
+          aria-label={t('webhook.enabled')}
+        />
+        <Button
+          variant="ghost"
+          size="icon"
+          className="size-7"
+          aria-label={t('webhook.delete')}
+          disabled={remove.isPending}
+          onClick={() => remove.mutate(webhook.id)}
+        >
+          <Trash2 className="size-3.5 text-muted-foreground" />
+        </Button>
+      </div>
+      {expanded ? (
+        <div className="mt-1 border-t border-border/40 pt-1">
+          <WebhookDeliveries projectId={projectId} webhookId={webhook.id} />
+        </div>
+      ) : null}
+    </div>
+  )
+}
+
+function CreateWebhookForm({ projectId }: { projectId: string }) {
+  const { t } = useTranslation()
+  const create = useCreateWebhook(projectId)
+  const [url, setUrl] = useState('')
+  const [secret, setSecret] = useState('')
+  const [events, setEvents] = useState<WebhookEvent[]>([])
+
+  const toggle = (event: WebhookEvent) =>
+    setEvents((prev) =>
+      prev.includes(event) ? prev.filter((e) => e !== event) : [...prev, event],
+    )
+
+  return (
+    <form
+      className="flex flex-col gap-1.5"
+      onSubmit={(e) => {
+        e.preventDefault()
+        create.mutate(
+          { url: url.trim(), secret, events },
+          {
+            onSuccess: () => {
+              setUrl('')
+              setSecret('')
+              setEvents([])
+            },
+          },
+        )
+      }}
+    >
+      <div className="flex gap-1.5">
+        <Input
+          type="url"
+          className="flex-1"
+          placeholder="https://example.com/hooks/bitk"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+        />
+        <Input
+          type="password"
+          className="w-32"
+          placeholder={t('webhook.secret')}
+          value={secret}
+          onChange={(e) => setSecret(e.target.value)}
+          autoComplete="new-password"
+        />
+      </div>
+      <div className="flex flex-wrap items-center gap-1">
+        {WEBHOOK_EVENTS.map((event) => (
+          <button
+            key={event}
+            type="button"
+            onClick={() => toggle(event)}
+            className={cn(
+              'rounded-sm border px-1.5 py-0.5 font-mono text-[10px] transition-colors',
+              events.includes(event)
+                ? 'border-primary bg-primary/10 text-foreground'
+                : 'border-border text-muted-foreground hover:text-foreground',
+            )}
+          >
+            {event}
+          </button>
+        ))}
+        <span className="text-[10px] text-muted-foreground">
+          {events.length === 0 ? t('webhook.allEventsHint') : null}
+        </span>
+      </div>
+      {create.error ? (
+        <p className="text-xs text-destructive">{create.error.message}</p>
+      ) : null}
+      <Button
+        type="submit"
+        variant="outline"
+        size="sm"
+        className="self-end"
+        disabled={!url.trim() || !secret || create.isPending}
+      >
+        {create.isPending ? (
+          <Loader2 className="size-3.5 animate-spin" />
+        ) : (
+          <Plus className="size-3.5" />
+        )}
+        {t('webhook.add')}
+      </Button>
+    </form>
+  )
+}
+
+/**
+ * Outbound webhooks of a project. Each delivery is signed with the
+ * endpoint's secret and retried with backoff until it succeeds.
+ */
+export function WebhookSettings({
+  open,
+  projectId,
+}: {
+  open: boolean
+  projectId: string
+}) {
+  const { t } = useTranslation()
+  const { data: webhooks } = useWebhooks(open ? projectId : '')
+
+  return (
+    <Field>
+      <Label>{t('webhook.title')}</Label>
+      <p className="text-[11px] text-muted-foreground">{t('webhook.hint')}</p>
+      {webhooks && webhooks.length > 0 ? (
+        <div className="mt-1.5 flex flex-col divide-y rounded-md border">
+          {webhooks.map((webhook) => (
+            <WebhookRow
+              key={webhook.id}
+              projectId={projectId}
+              webhook={webhook}
+            />
+          ))}
+        </div>
+      ) : null}
+      <CreateWebhookForm projectId={projectId} />
+    </Field>
+  )
+}
@@ -0,0 +1,215 @@
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react'
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Button } from '@/components/ui/button'
+import { Field } from '@/components/ui/field'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  useProjectStatuses,
+  useUpdateProjectStatuses,
+} from '@/hooks/use-kanban'
+import type { StatusDefinition } from '@/lib/statuses'
+
+type ColumnKind = 'normal' | 'execution' | 'terminal'
+
+type DraftStatus = Omit<StatusDefinition, 'sortOrder'>
+
+function kindOf(status: DraftStatus): ColumnKind {
+  if (status.triggersExecution) return 'execution'
+  return status.isTerminal ? 'terminal' : 'normal'
+}
+
+function slugify(name: string, taken: Set<string>) {
+  const base =
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9_-]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 24) || 'status'
+  let id = base
+  for (let i = 2; taken.has(id); i++) id = `${base}-${i}`
+  return id
+}
+
+/**
+ * Column editor for a project's workflow. Exactly one column triggers
+ * execution; finished runs land in the first column after it.
+ */
+export function WorkflowSettings({
+  open,
+  projectId,
+}: {
+  open: boolean
+  projectId: string
+}) {
+  const { t } = useTranslation()
+  const { data: statuses } = useProjectStatuses(projectId)
+  const updateStatuses = useUpdateProjectStatuses(projectId)
+  const [draft, setDraft] = useState<DraftStatus[]>([])
+
+  useEffect(() => {
+    if (open && statuses) {
+      setDraft(statuses.map(({ sortOrder: _sortOrder, ...status }) => status))
+    }
+  }, [open, statuses])
+
+  const update = (index: number, patch: Partial<DraftStatus>) => {
+    setDraft((prev) =>
+      prev.map((s, i) => (i === index ? { ...s, ...patch } : s)),
+    )
+  }
+
+  const setKind = (index: number, kind: ColumnKind) => {
+    setDraft((prev) =>
+      prev.map((s, i) => {
+        if (i === index) {
+          return {
+            ...s,
+            triggersExecution: kind === 'execution',
+            isTerminal: kind === 'terminal',
+          }
+        }
+        // Only one column may trigger execution
+        return kind === 'execution' ? { ...s, triggersExecution: false } : s
+      }),
+    )
+  }
+
+  const move = (index: number, delta: number) => {
+    setDraft((prev) => {
+      const next = [...prev]
+      const [item] = next.splice(index, 1)
+      next.splice(index + delta, 0, item)
+      return next
+    })
+  }
+
+  const addColumn = () => {
+    const name = t('workflow.newColumn')
+    setDraft((prev) => [
+      ...prev,
+      {
+        id: slugify(name, new Set(prev.map((s) => s.id))),
+        name,
+        color: '#6b7280',
+        triggersExecution: false,
+        isTerminal: false,
+      },
+    ])
+  }
+
+  const hasChanges =
+    !!statuses &&
+    JSON.stringify(draft) !==
+      JSON.stringify(statuses.map(({ sortOrder: _s, ...status }) => status))
+
+  return (
+    <Field>
+      <Label>{t('workflow.title')}</Label>
+      <p className="text-[11px] text-muted-foreground">{t('workflow.hint')}</p>
+      <div className="mt-1.5 flex flex-col divide-y rounded-md border">
+        {draft.map((status, index) => (
+          <div key={status.id} className="flex items-center gap-1.5 px-2 py-1">
+            <input
+              type="color"
+              value={status.color}
+              onChange={(e) => update(index, { color: e.target.value })}
+              aria-label={t('workflow.color')}
+              className="size-6 shrink-0 cursor-pointer rounded border-0 bg-transparent p-0"
+            />
+            <Input
+              value={status.name}
+              onChange={(e) => update(index, { name: e.target.value })}
+              className="h-7 flex-1"
+            />
+            <Select
+              value={kindOf(status)}
+              onValueChange={(v) => setKind(index, v as ColumnKind)}
+            >
+              <SelectTrigger className="h-7 w-28 shrink-0">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="normal">
+                  {t('workflow.kind.normal')}
+                </SelectItem>
+                <SelectItem value="execution">
+                  {t('workflow.kind.execution')}
+                </SelectItem>
+                <SelectItem value="terminal">
+                  {t('workflow.kind.terminal')}
+                </SelectItem>
+              </SelectContent>
+            </Select>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="size-7"
+              aria-label={t('workflow.moveUp')}
+              disabled={index === 0}
+              onClick={() => move(index, -1)}
+            >
+              <ArrowUp className="size-3.5 text-muted-foreground" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="size-7"
+              aria-label={t('workflow.moveDown')}
+              disabled={index === draft.length - 1}
+              onClick={() => move(index, 1)}
+            >
+              <ArrowDown className="size-3.5 text-muted-foreground" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="size-7"
+              aria-label={t('workflow.remove')}
+              disabled={draft.length === 1}
+              onClick={() =>
+                setDraft((prev) => prev.filter((_, i) => i !== index))
+              }
+            >
+              <Trash2 className="size-3.5 text-muted-foreground" />
+            </Button>
+          </div>
+        ))}
+      </div>
+      {updateStatuses.error ? (
+        <p className="text-xs text-destructive">
+          {updateStatuses.error.message}
+        </p>
+      ) : null}
+      <div className="flex justify-between gap-1.5">
+        <Button variant="outline" size="sm" onClick={addColumn}>
+          <Plus className="size-3.5" />
+          {t('workflow.addColumn')}
+        </Button>
+        <Button
+          size="sm"
+          disabled={
+            !hasChanges ||
+            draft.some((s) => !s.name.trim()) ||
+            updateStatuses.isPending
+          }
+          onClick={() =>
+            updateStatuses.mutate(
+              draft.map((s) => ({ ...s, name: s.name.trim() })),
+            )
+          }
+        >
+          {t('workflow.save')}
+        </Button>
+      </div>
+    </Field>
+  )
+}
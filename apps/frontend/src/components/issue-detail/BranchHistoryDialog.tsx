@@ -0,0 +1,54 @@
+import { lazy, Suspense } from 'react'
+import { useTranslation } from 'react-i18next'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { useIssueBranch } from '@/hooks/use-kanban'
+
+const LazySessionMessages = lazy(() =>
+  import('./SessionMessages').then((m) => ({ default: m.SessionMessages })),
+)
+
+/** Read-only view of the turns an edit replaced; `branchId` null keeps it closed. */
+export function BranchHistoryDialog({
+  projectId,
+  issueId,
+  branchId,
+  onClose,
+}: {
+  projectId: string
+  issueId: string
+  branchId: string | null
+  onClose: () => void
+}) {
+  const { t } = useTranslation()
+  const { data, isLoading } = useIssueBranch(projectId, issueId, branchId)
+
+  return (
+    <Dialog open={!!branchId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="md:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{t('session.edit.previousTitle')}</DialogTitle>
+          <DialogDescription>
+            {t('session.edit.previousDescription')}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="max-h-[65vh] overflow-y-auto overflow-x-hidden">
+          {isLoading ? (
+            <p className="px-5 py-2 text-xs text-muted-foreground">
+              {t('common.loading')}
+            </p>
+          ) : (
+            <Suspense fallback={null}>
+              <LazySessionMessages logs={data?.logs ?? []} />
+            </Suspense>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,4 +1,12 @@
-import { ArrowLeft, Check, Link, Plus, Sparkles } from 'lucide-react'
+import {
+  ArrowLeft,
+  Check,
+  Gauge,
+  GitCompare,
+  Link,
+  Plus,
+  Sparkles,
+} from 'lucide-react'
 import { lazy, Suspense, useCallback, useEffect, useRef, useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import { useNavigate } from 'react-router-dom'
@@ -6,11 +14,15 @@ import { Button } from '@/components/ui/button'
 import { useAutoTitleIssue, useIssue, useUpdateIssue } from '@/hooks/use-kanban'
 import { useIsMobile } from '@/hooks/use-mobile'
 import { ChatBody } from './ChatBody'
+import { IssueBudgetDialog } from './IssueBudgetDialog'
 import { SubIssueDialog } from './SubIssueDialog'
 
 const LazyDiffPanel = lazy(() =>
   import('./DiffPanel').then((m) => ({ default: m.DiffPanel })),
 )
+const LazyCompareDialog = lazy(() =>
+  import('./CompareDialog').then((m) => ({ default: m.CompareDialog })),
+)
 
 export function ChatArea({
   projectId,
@@ -36,6 +48,8 @@ export function ChatArea({
   const { data: issue, isLoading, isError } = useIssue(projectId, issueId)
   const scrollRef = useRef<HTMLDivElement>(null)
   const [showSubIssue, setShowSubIssue] = useState(false)
+  const [showBudget, setShowBudget] = useState(false)
+  const [showCompare, setShowCompare] = useState(false)
   const [copied, setCopied] = useState(false)
   const [editingTitle, setEditingTitle] = useState(false)
   const [titleDraft, setTitleDraft] = useState('')
@@ -205,6 +219,15 @@ export function ChatArea({
           >
             <Sparkles className="h-3.5 w-3.5" />
           </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 shrink-0 text-muted-foreground hover:text-foreground transition-colors"
+            title={t('budget.issueTitle')}
+            onClick={() => setShowBudget(true)}
+          >
+            <Gauge className="h-3.5 w-3.5" />
+          </Button>
           {!issue.parentIssueId ? (
             <Button
               variant="ghost"
@@ -216,6 +239,21 @@ export function ChatArea({
               <Plus className="h-3.5 w-3.5" />
             </Button>
           ) : null}
+          {!issue.parentIssueId ? (
+            <Button
+              variant="ghost"
+              size="icon"
+              className={`h-7 w-7 shrink-0 transition-colors ${
+                issue.compareWinnerId
+                  ? 'text-emerald-600 dark:text-emerald-400'
+                  : 'text-muted-foreground hover:text-foreground'
+              }`}
+              title={t('compare.title')}
+              onClick={() => setShowCompare(true)}
+            >
+              <GitCompare className="h-3.5 w-3.5" />
+            </Button>
+          ) : null}
           <Button
             variant="ghost"
             size="icon"
@@ -240,6 +278,15 @@ export function ChatArea({
           </Button>
         </div>
 
+        {issue.stopReason?.startsWith('budget:') &&
+        issue.sessionStatus !== 'running' &&
+        issue.sessionStatus !== 'pending' ? (
+          <BudgetStopBanner
+            kind={issue.stopReason.slice('budget:'.length)}
+            onEdit={() => setShowBudget(true)}
+          />
+        ) : null}
+
         {/* Shared chat body: messages + metadata bar + input */}
         <ChatBody
           projectId={projectId}
@@ -292,6 +339,24 @@ export function ChatArea({
         )
       ) : null}
 
+      <IssueBudgetDialog
+        projectId={projectId}
+        issueId={issueId}
+        open={showBudget}
+        onOpenChange={setShowBudget}
+      />
+
+      {showCompare ? (
+        <Suspense fallback={null}>
+          <LazyCompareDialog
+            projectId={projectId}
+            issue={issue}
+            open={showCompare}
+            onOpenChange={setShowCompare}
+          />
+        </Suspense>
+      ) : null}
+
       {/* Sub-issue dialog */}
       <SubIssueDialog
         projectId={projectId}
@@ -302,3 +367,31 @@ export function ChatArea({
     </div>
   )
 }
+
+function BudgetStopBanner({
+  kind,
+  onEdit,
+}: {
+  kind: string
+  onEdit: () => void
+}) {
+  const { t } = useTranslation()
+  return (
+    <div className="flex items-center gap-2 px-3 py-1.5 border-b border-amber-500/25 bg-amber-500/[0.08] text-xs text-amber-700 dark:text-amber-300 shrink-0">
+      <Gauge className="h-3.5 w-3.5 shrink-0" />
+      <span className="flex-1 min-w-0 truncate">
+        {t(`budget.stopped.${kind}`, {
+          defaultValue: t('budget.stopped.generic'),
+        })}
+      </span>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 px-2 text-xs text-amber-700 hover:text-amber-800 dark:text-amber-300 dark:hover:text-amber-200"
+        onClick={onEdit}
+      >
+        {t('budget.edit')}
+      </Button>
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 import { ArrowDownToLine, ArrowUpToLine } from 'lucide-react'
 import { lazy, Suspense, useCallback, useEffect, useRef, useState } from 'react'
 import { useTranslation } from 'react-i18next'
+import { useSearchParams } from 'react-router-dom'
 import { toast } from 'sonner'
 import {
   AlertDialog,
@@ -12,17 +13,22 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog'
+import { useIssueApprovals } from '@/hooks/use-issue-approvals'
 import { useIssueStream } from '@/hooks/use-issue-stream'
 import {
   useCancelIssue,
   useDeleteIssue,
   useGlobalSlashCommands,
+  useProjectStatuses,
   useSlashCommands,
   useUpdateIssue,
 } from '@/hooks/use-kanban'
-import { STATUS_MAP } from '@/lib/statuses'
+import { getStatusRole } from '@/lib/statuses'
 import type { Issue, NormalizedLogEntry } from '@/types/kanban'
+import { BranchHistoryDialog } from './BranchHistoryDialog'
 import { ChatInput } from './ChatInput'
+import { EditMessageDialog } from './EditMessageDialog'
+import { ForkMessageDialog } from './ForkMessageDialog'
 import { IssueDetail } from './IssueDetail'
 
 const LazySessionMessages = lazy(() =>
@@ -63,9 +69,11 @@ export function useSessionState(
   issueId: string | null,
   issue: Issue | null | undefined,
 ) {
+  const { data: statuses = [] } = useProjectStatuses(projectId)
+  const statusRole = getStatusRole(statuses, issue?.statusId)
   const hasSession = !!issue?.sessionStatus
-  const isTodo = issue?.statusId === 'todo'
-  const isDone = issue?.statusId === 'done'
+  const isTodo = statusRole === 'backlog'
+  const isDone = statusRole === 'terminal'
   const streamEnabled = hasSession || isTodo || isDone
 
   const {
@@ -74,6 +82,7 @@ export function useSessionState(
     isLoadingOlder,
     loadOlderLogs,
     appendServerMessage,
+    dropRange,
   } = useIssueStream({
     projectId,
     issueId: streamEnabled ? issueId : null,
@@ -102,12 +111,15 @@ export function useSessionState(
     logs,
     isThinking,
     workingStep,
+    statuses,
+    statusRole,
     isTodo,
     isDone,
     hasOlderLogs,
     isLoadingOlder,
     loadOlderLogs,
     appendServerMessage,
+    dropRange,
   }
 }
 
@@ -138,6 +150,26 @@ export function ChatBody({
   const cancelIssue = useCancelIssue(projectId)
   const deleteIssueMutation = useDeleteIssue(projectId)
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
+  const [forkMessageId, setForkMessageId] = useState<string | null>(null)
+  const [editEntry, setEditEntry] = useState<NormalizedLogEntry | null>(null)
+  const [branchId, setBranchId] = useState<string | null>(null)
+  const [searchParams, setSearchParams] = useSearchParams()
+  // Set by search results to jump straight to one log entry
+  const focusMessageId = searchParams.get('message')
+
+  const handleFocusSettled = useCallback(
+    (found: boolean) => {
+      if (!found) toast.info(t('search.entryHidden'))
+      setSearchParams(
+        (params) => {
+          params.delete('message')
+          return params
+        },
+        { replace: true },
+      )
+    },
+    [setSearchParams, t],
+  )
 
   const handleDelete = useCallback(() => {
     setDeleteDialogOpen(true)
@@ -162,14 +194,22 @@ export function ChatBody({
     logs,
     isThinking,
     workingStep,
+    statuses,
+    statusRole,
     isTodo,
     isDone,
     hasOlderLogs,
     isLoadingOlder,
     loadOlderLogs,
     appendServerMessage,
+    dropRange,
   } = useSessionState(projectId, issueId, issue)
 
+  const { approvals, resolveApproval, resolvingId } = useIssueApprovals(
+    projectId,
+    issueId,
+  )
+
   // Show toast when execution transitions to failed
   const prevStatusRef = useRef(issue.sessionStatus)
   useEffect(() => {
@@ -236,6 +276,14 @@ export function ChatBody({
                 hasOlderLogs={hasOlderLogs}
                 isLoadingOlder={isLoadingOlder}
                 onLoadOlder={loadOlderLogs}
+                approvals={approvals}
+                resolvingApprovalId={resolvingId}
+                onResolveApproval={resolveApproval}
+                focusMessageId={focusMessageId}
+                onFocusSettled={handleFocusSettled}
+                onForkMessage={setForkMessageId}
+                onEditMessage={isThinking ? undefined : setEditEntry}
+                onShowBranch={setBranchId}
               />
             </Suspense>
           </div>
@@ -269,7 +317,8 @@ export function ChatBody({
       {/* Issue metadata bar — fixed above input */}
       <IssueDetail
         issue={issue}
-        status={STATUS_MAP.get(issue.statusId)}
+        status={statuses.find((s) => s.id === issue.statusId)}
+        statuses={statuses}
         onUpdate={(fields) => updateIssue.mutate({ id: issueId, ...fields })}
         onDelete={handleDelete}
         isDeleting={deleteIssueMutation.isPending}
@@ -285,7 +334,7 @@ export function ChatBody({
         engineType={issue.engineType ?? undefined}
         model={issue.model ?? undefined}
         sessionStatus={issue.sessionStatus}
-        statusId={issue.statusId}
+        statusRole={statusRole}
         isThinking={isThinking}
         slashCommands={slashCommands}
         onMessageSent={(messageId, prompt, metadata) => {
@@ -293,6 +342,34 @@ export function ChatBody({
         }}
       />
 
+      <ForkMessageDialog
+        projectId={projectId}
+        issueId={issueId}
+        messageId={forkMessageId}
+        onClose={() => setForkMessageId(null)}
+      />
+      <EditMessageDialog
+        projectId={projectId}
+        issueId={issueId}
+        entry={editEntry}
+        onClose={() => setEditEntry(null)}
+        onRewound={(editedId, result, prompt) => {
+          dropRange(editedId, result.messageId)
+          if (result.messageId) {
+            appendServerMessage(result.messageId, prompt, {
+              branchId: result.branchId,
+              editedFrom: editedId,
+            })
+          }
+        }}
+      />
+      <BranchHistoryDialog
+        projectId={projectId}
+        issueId={issueId}
+        branchId={branchId}
+        onClose={() => setBranchId(null)}
+      />
+
       <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
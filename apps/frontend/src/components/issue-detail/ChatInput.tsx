@@ -38,6 +38,7 @@ import { Textarea } from '@/components/ui/textarea'
 import { useChangesSummary } from '@/hooks/use-changes-summary'
 import { useEngineAvailability, useFollowUpIssue } from '@/hooks/use-kanban'
 import { formatFileSize, formatModelName } from '@/lib/format'
+import type { StatusRole } from '@/lib/statuses'
 import type { BusyAction, EngineModel, SessionStatus } from '@/types/kanban'
 
 const MAX_FILE_SIZE = 10 * 1024 * 1024 // 10 MB
@@ -64,7 +65,7 @@ export function ChatInput({
   engineType,
   model,
   sessionStatus,
-  statusId,
+  statusRole,
   isThinking = false,
   onMessageSent,
   slashCommands = [],
@@ -77,7 +78,7 @@ export function ChatInput({
   engineType?: string
   model?: string
   sessionStatus?: SessionStatus | null
-  statusId?: string
+  statusRole?: StatusRole
   isThinking?: boolean
   onMessageSent?: (
     messageId: string,
@@ -197,9 +198,9 @@ export function ChatInput({
     }
     setSendError(null)
     try {
-      const isTodo = statusId === 'todo'
-      const isDone = statusId === 'done'
-      const isWorking = statusId === 'working'
+      const isTodo = statusRole === 'backlog'
+      const isDone = statusRole === 'terminal'
+      const isWorking = statusRole === 'execution'
       const result = await followUp.mutateAsync({
         issueId,
         prompt,
@@ -404,7 +405,7 @@ export function ChatInput({
               }, 100)
             }}
             placeholder={
-              statusId === 'todo'
+              statusRole === 'backlog'
                 ? t('chat.placeholderTodo')
                 : t('chat.placeholder')
             }
@@ -0,0 +1,191 @@
+import { Camera, Loader2, RotateCcw } from 'lucide-react'
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Button } from '@/components/ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  useCreateIssueCheckpoint,
+  useRestoreIssueCheckpoint,
+} from '@/hooks/use-kanban'
+import { cn } from '@/lib/utils'
+import type { Checkpoint } from '@/types/kanban'
+
+const WORKSPACE = 'workspace'
+
+function formatTime(iso: string) {
+  return new Date(iso).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+/**
+ * Workspace checkpoints of an issue, newest first. Picking one diffs from
+ * it to a later checkpoint or the current workspace; each can be restored.
+ */
+export function CheckpointTimeline({
+  projectId,
+  issueId,
+  checkpoints,
+  from,
+  to,
+  onRangeChange,
+}: {
+  projectId: string
+  issueId: string
+  /** Oldest first, as the API returns them */
+  checkpoints: Checkpoint[]
+  from: string | null
+  to: string | null
+  onRangeChange: (range: { from: string; to: string | null }) => void
+}) {
+  const { t } = useTranslation()
+  const create = useCreateIssueCheckpoint(projectId, issueId)
+  const restore = useRestoreIssueCheckpoint(projectId, issueId)
+  const [restoreTarget, setRestoreTarget] = useState<Checkpoint | null>(null)
+
+  const fromIndex = checkpoints.findIndex((c) => c.id === from)
+  const later = fromIndex >= 0 ? checkpoints.slice(fromIndex + 1) : []
+  const error = create.error ?? restore.error
+
+  return (
+    <div className="border-b border-border/60 shrink-0">
+      <div className="flex items-center gap-1.5 px-4 py-2">
+        <span className="text-[11px] text-muted-foreground shrink-0">
+          {t('diff.checkpoints.compareWith')}
+        </span>
+        <Select
+          value={to ?? WORKSPACE}
+          onValueChange={(value) =>
+            from &&
+            onRangeChange({ from, to: value === WORKSPACE ? null : value })
+          }
+          disabled={!from}
+        >
+          <SelectTrigger size="sm" className="min-w-0 flex-1 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={WORKSPACE}>
+              {t('diff.checkpoints.workspace')}
+            </SelectItem>
+            {later.map((checkpoint) => (
+              <SelectItem key={checkpoint.id} value={checkpoint.id}>
+                {checkpoint.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          size="xs"
+          variant="outline"
+          disabled={create.isPending}
+          onClick={() => create.mutate(undefined)}
+        >
+          {create.isPending ? <Loader2 className="animate-spin" /> : <Camera />}
+          {t('diff.checkpoints.save')}
+        </Button>
+      </div>
+
+      <ol className="max-h-48 overflow-y-auto px-2 pb-2">
+        {[...checkpoints].reverse().map((checkpoint) => {
+          const selected = checkpoint.id === from
+          return (
+            <li key={checkpoint.id} className="group/checkpoint relative">
+              <button
+                type="button"
+                onClick={() => onRangeChange({ from: checkpoint.id, to: null })}
+                className={cn(
+                  'flex w-full items-center gap-2 rounded-md px-2 py-1.5 pr-9 text-left transition-colors',
+                  selected ? 'bg-accent' : 'hover:bg-accent/50',
+                )}
+              >
+                <span
+                  className={cn(
+                    'h-2 w-2 shrink-0 rounded-full border',
+                    selected
+                      ? 'border-primary bg-primary'
+                      : 'border-muted-foreground/50',
+                  )}
+                />
+                <span className="min-w-0 flex-1 truncate text-xs">
+                  {checkpoint.label}
+                </span>
+                <span className="shrink-0 text-[11px] text-muted-foreground tabular-nums">
+                  {formatTime(checkpoint.createdAt)}
+                </span>
+              </button>
+              <button
+                type="button"
+                onClick={() => setRestoreTarget(checkpoint)}
+                className="absolute right-1.5 top-1/2 -translate-y-1/2 flex h-6 w-6 items-center justify-center rounded-md text-muted-foreground opacity-0 transition-opacity hover:bg-background hover:text-foreground group-hover/checkpoint:opacity-100 focus-visible:opacity-100"
+                aria-label={t('diff.checkpoints.restore')}
+                title={t('diff.checkpoints.restore')}
+              >
+                <RotateCcw className="h-3.5 w-3.5" />
+              </button>
+            </li>
+          )
+        })}
+      </ol>
+      {error ? (
+        <p className="px-4 pb-2 text-[11px] text-destructive">
+          {error.message}
+        </p>
+      ) : null}
+
+      <AlertDialog
+        open={!!restoreTarget}
+        onOpenChange={(open) => !open && setRestoreTarget(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {t('diff.checkpoints.restoreTitle')}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {t('diff.checkpoints.restoreConfirm', {
+                label: restoreTarget?.label ?? '',
+              })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={restore.isPending}>
+              {t('common.cancel')}
+            </AlertDialogCancel>
+            <AlertDialogAction
+              disabled={restore.isPending}
+              onClick={(event) => {
+                event.preventDefault()
+                if (!restoreTarget) return
+                restore.mutate(restoreTarget.id, {
+                  onSettled: () => setRestoreTarget(null),
+                })
+              }}
+            >
+              {t('diff.checkpoints.restore')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,475 @@
+import {
+  CheckCircle2,
+  ExternalLink,
+  Loader2,
+  Plus,
+  Trash2,
+  Trophy,
+  XCircle,
+} from 'lucide-react'
+import { useEffect, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useNavigate } from 'react-router-dom'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  useComparison,
+  useEngineAvailability,
+  useEngineProfiles,
+  useIssueWorktreeFilePatch,
+  usePickCompareWinner,
+  useStartComparison,
+} from '@/hooks/use-kanban'
+import { formatCost, formatDuration, formatModelName } from '@/lib/format'
+import { cn } from '@/lib/utils'
+import type { CompareRun, EngineProfile, Issue } from '@/types/kanban'
+import { PatchDiffView } from './DiffPanel'
+
+const DEFAULT_MODEL = 'default'
+const MIN_RUNS = 2
+const MAX_RUNS = 4
+
+interface RunDraft {
+  profileId: string
+  model: string
+}
+
+function profileLabel(profiles: EngineProfile[], issue: Issue): string {
+  const profile = profiles.find(
+    (p) => p.id === (issue.engineProfileId ?? issue.engineType),
+  )
+  const engine = profile?.name ?? issue.engineType ?? ''
+  return issue.model ? `${engine} · ${formatModelName(issue.model)}` : engine
+}
+
+// ── New comparison ──────────────────────────────────
+
+function CompareForm({
+  projectId,
+  issue,
+  onStarted,
+}: {
+  projectId: string
+  issue: Issue
+  onStarted: () => void
+}) {
+  const { t } = useTranslation()
+  const { data: discovery } = useEngineAvailability(true)
+  const { data: profiles } = useEngineProfiles(true)
+  const start = useStartComparison(projectId, issue.id)
+  const [prompt, setPrompt] = useState(issue.prompt ?? issue.title)
+  const [runs, setRuns] = useState<RunDraft[]>([])
+
+  // Profiles whose engine is installed, built-in ones first
+  const available = useMemo(() => {
+    const installed = new Set(
+      discovery?.engines
+        .filter((e) => e.installed && e.executable !== false)
+        .map((e) => e.engineType) ?? [],
+    )
+    return (profiles ?? []).filter((p) => installed.has(p.engineType))
+  }, [discovery, profiles])
+
+  // Start with the first two engines side by side
+  useEffect(() => {
+    if (runs.length === 0 && available.length > 0) {
+      setRuns(
+        Array.from({ length: MIN_RUNS }, (_, i) => ({
+          profileId: available[i % available.length]!.id,
+          model: DEFAULT_MODEL,
+        })),
+      )
+    }
+  }, [available, runs.length])
+
+  const updateRun = (index: number, change: Partial<RunDraft>) =>
+    setRuns((prev) =>
+      prev.map((run, i) => (i === index ? { ...run, ...change } : run)),
+    )
+
+  const submit = () => {
+    if (!prompt.trim() || runs.length < MIN_RUNS) return
+    start.mutate(
+      {
+        prompt: prompt.trim(),
+        runs: runs.map((run) => ({
+          engineProfileId: run.profileId,
+          model: run.model === DEFAULT_MODEL ? undefined : run.model,
+        })),
+      },
+      { onSuccess: onStarted },
+    )
+  }
+
+  return (
+    <>
+      <Textarea
+        value={prompt}
+        onChange={(e) => setPrompt(e.target.value)}
+        placeholder={t('compare.promptPlaceholder')}
+        rows={4}
+      />
+      <div className="flex flex-col gap-1.5">
+        {runs.map((run, index) => {
+          const profile = available.find((p) => p.id === run.profileId)
+          const models = profile
+            ? (discovery?.models[profile.engineType] ?? [])
+            : []
+          return (
+            // biome-ignore lint/suspicious/noArrayIndexKey: rows have no identity besides their position
+            <div key={index} className="flex items-center gap-1.5">
+              <Select
+                value={run.profileId}
+                onValueChange={(profileId) =>
+                  updateRun(index, { profileId, model: DEFAULT_MODEL })
+                }
+              >
+                <SelectTrigger className="flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {available.map((p) => (
+                    <SelectItem key={p.id} value={p.id}>
+                      {p.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={run.model}
+                onValueChange={(model) => updateRun(index, { model })}
+              >
+                <SelectTrigger className="flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_MODEL}>
+                    {t('compare.defaultModel')}
+                  </SelectItem>
+                  {models.map((m) => (
+                    <SelectItem key={m.id} value={m.id}>
+                      {m.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="size-8"
+                aria-label={t('compare.removeRun')}
+                disabled={runs.length <= MIN_RUNS}
+                onClick={() =>
+                  setRuns((prev) => prev.filter((_, i) => i !== index))
+                }
+              >
+                <Trash2 className="size-3.5 text-muted-foreground" />
+              </Button>
+            </div>
+          )
+        })}
+        <Button
+          variant="outline"
+          size="sm"
+          className="self-start"
+          disabled={runs.length >= MAX_RUNS || available.length === 0}
+          onClick={() =>
+            setRuns((prev) => [
+              ...prev,
+              { profileId: available[0]!.id, model: DEFAULT_MODEL },
+            ])
+          }
+        >
+          <Plus className="size-3.5" />
+          {t('compare.addRun')}
+        </Button>
+      </div>
+      {start.error ? (
+        <p className="text-xs text-destructive">{start.error.message}</p>
+      ) : null}
+      <DialogFooter>
+        <Button
+          onClick={submit}
+          disabled={!prompt.trim() || runs.length < MIN_RUNS || start.isPending}
+        >
+          {start.isPending ? (
+            <Loader2 className="size-3.5 animate-spin" />
+          ) : null}
+          {t('compare.start', { count: runs.length })}
+        </Button>
+      </DialogFooter>
+    </>
+  )
+}
+
+// ── Side-by-side results ────────────────────────────
+
+function RunColumn({
+  projectId,
+  run,
+  label,
+  isWinner,
+  canPick,
+  isPicking,
+  onPick,
+  onOpen,
+}: {
+  projectId: string
+  run: CompareRun
+  label: string
+  isWinner: boolean
+  canPick: boolean
+  isPicking: boolean
+  onPick: () => void
+  onOpen: () => void
+}) {
+  const { t } = useTranslation()
+  const [path, setPath] = useState<string | null>(null)
+  const { data: filePatch } = useIssueWorktreeFilePatch(
+    projectId,
+    run.issue.id,
+    path,
+    !!run.worktree,
+  )
+  const running =
+    run.issue.sessionStatus === 'running' ||
+    run.issue.sessionStatus === 'pending'
+
+  return (
+    <div
+      className={cn(
+        'flex min-w-[240px] flex-1 flex-col gap-2 rounded-lg border p-3',
+        isWinner && 'border-emerald-500/50 bg-emerald-500/[0.04]',
+      )}
+    >
+      <div className="flex items-center gap-1.5">
+        {isWinner ? (
+          <Trophy className="size-3.5 shrink-0 text-emerald-600 dark:text-emerald-400" />
+        ) : null}
+        <span className="min-w-0 flex-1 truncate text-sm font-medium">
+          {label}
+        </span>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="size-6"
+          title={t('compare.openRun')}
+          onClick={onOpen}
+        >
+          <ExternalLink className="size-3.5 text-muted-foreground" />
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-[11px] text-muted-foreground">
+        {run.issue.sessionStatus ? (
+          <span className="flex items-center gap-1">
+            {running ? <Loader2 className="size-3 animate-spin" /> : null}
+            {t(`session.status.${run.issue.sessionStatus}`)}
+          </span>
+        ) : null}
+        {run.issue.verifyStatus === 'passed' ? (
+          <span className="flex items-center gap-1 text-emerald-600 dark:text-emerald-400">
+            <CheckCircle2 className="size-3" />
+            {t('kanban.verify.passed')}
+          </span>
+        ) : run.issue.verifyStatus === 'failed' ? (
+          <span className="flex items-center gap-1 text-destructive">
+            <XCircle className="size-3" />
+            {t('kanban.verify.failed')}
+          </span>
+        ) : null}
+        <span>{formatCost(run.costUsd)}</span>
+        {run.durationMs !== null ? (
+          <span>{formatDuration(run.durationMs)}</span>
+        ) : null}
+        {run.worktree ? (
+          <span className="font-mono">
+            <span className="text-emerald-600 dark:text-emerald-400">
+              +{run.worktree.additions}
+            </span>{' '}
+            <span className="text-destructive">−{run.worktree.deletions}</span>
+          </span>
+        ) : null}
+      </div>
+
+      {run.worktree ? (
+        run.worktree.files.length > 0 ? (
+          <div className="flex flex-col divide-y rounded-md border text-xs">
+            {run.worktree.files.map((file) => (
+              <button
+                key={file.path}
+                type="button"
+                className={cn(
+                  'flex items-center gap-1.5 px-2 py-1 text-left hover:bg-muted/40',
+                  path === file.path && 'bg-muted/60',
+                )}
+                onClick={() =>
+                  setPath((prev) => (prev === file.path ? null : file.path))
+                }
+              >
+                <span className="w-3 shrink-0 font-mono text-muted-foreground">
+                  {file.status}
+                </span>
+                <span className="min-w-0 flex-1 truncate font-mono">
+                  {file.path}
+                </span>
+                <span className="shrink-0 font-mono text-[10px] text-muted-foreground">
+                  +{file.additions} −{file.deletions}
+                </span>
+              </button>
+            ))}
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            {t('compare.noChanges')}
+          </p>
+        )
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          {t('compare.noWorktree')}
+        </p>
+      )}
+
+      {path && filePatch ? (
+        <div className="max-h-80 overflow-auto rounded-md border">
+          <PatchDiffView patch={filePatch.patch} />
+        </div>
+      ) : null}
+
+      {canPick ? (
+        <Button
+          variant="outline"
+          size="sm"
+          className="mt-auto"
+          disabled={running || isPicking}
+          onClick={onPick}
+        >
+          <Trophy className="size-3.5" />
+          {t('compare.pickWinner')}
+        </Button>
+      ) : null}
+    </div>
+  )
+}
+
+/**
+ * Run an issue's prompt on several engine/model combinations, each as a
+ * sub-issue in its own worktree, then compare their diffs, cost, duration
+ * and checks side by side and keep one branch.
+ */
+export function CompareDialog({
+  projectId,
+  issue,
+  open,
+  onOpenChange,
+}: {
+  projectId: string
+  issue: Issue
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}) {
+  const { t } = useTranslation()
+  const navigate = useNavigate()
+  const { data: comparison } = useComparison(projectId, issue.id, open)
+  const { data: profiles = [] } = useEngineProfiles(open)
+  const pick = usePickCompareWinner(projectId, issue.id)
+  const [confirmId, setConfirmId] = useState<string | null>(null)
+
+  const runs = comparison?.runs ?? []
+  const winnerId = comparison?.winnerId ?? null
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto md:max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>{t('compare.title')}</DialogTitle>
+          <DialogDescription>
+            {runs.length > 0
+              ? winnerId
+                ? t('compare.decided')
+                : t('compare.resultsDescription')
+              : t('compare.description')}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!comparison ? (
+          <p className="text-xs text-muted-foreground">{t('common.loading')}</p>
+        ) : runs.length === 0 ? (
+          <CompareForm
+            projectId={projectId}
+            issue={issue}
+            onStarted={() => {}}
+          />
+        ) : (
+          <>
+            <div className="flex gap-3 overflow-x-auto pb-1">
+              {runs.map((run) => (
+                <RunColumn
+                  key={run.issue.id}
+                  projectId={projectId}
+                  run={run}
+                  label={profileLabel(profiles, run.issue)}
+                  isWinner={run.issue.id === winnerId}
+                  canPick={!winnerId}
+                  isPicking={pick.isPending}
+                  onPick={() => setConfirmId(run.issue.id)}
+                  onOpen={() => {
+                    onOpenChange(false)
+                    void navigate(
+                      `/projects/${projectId}/issues/${run.issue.id}`,
+                    )
+                  }}
+                />
+              ))}
+            </div>
+            {confirmId ? (
+              <div className="flex items-center gap-2 rounded-md border border-amber-500/25 bg-amber-500/[0.08] px-3 py-2 text-xs text-amber-700 dark:text-amber-300">
+                <span className="flex-1">{t('compare.confirmWinner')}</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setConfirmId(null)}
+                  disabled={pick.isPending}
+                >
+                  {t('common.cancel')}
+                </Button>
+                <Button
+                  size="sm"
+                  disabled={pick.isPending}
+                  onClick={() =>
+                    pick.mutate(confirmId, {
+                      onSuccess: () => setConfirmId(null),
+                    })
+                  }
+                >
+                  {pick.isPending ? (
+                    <Loader2 className="size-3.5 animate-spin" />
+                  ) : null}
+                  {t('compare.keepBranch')}
+                </Button>
+              </div>
+            ) : null}
+            {pick.error ? (
+              <p className="text-xs text-destructive">{pick.error.message}</p>
+            ) : null}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,9 +1,21 @@
-import { X } from 'lucide-react'
+import { History, X } from 'lucide-react'
 import { lazy, Suspense, useMemo, useRef, useState } from 'react'
 import { useTranslation } from 'react-i18next'
-import { useIssueChanges, useIssueFilePatch } from '@/hooks/use-kanban'
+import {
+  useIssue,
+  useIssueChanges,
+  useIssueCheckpointDiff,
+  useIssueCheckpointFilePatch,
+  useIssueCheckpoints,
+  useIssueFilePatch,
+  useIssueWorktree,
+  useIssueWorktreeFilePatch,
+} from '@/hooks/use-kanban'
 import { useTheme } from '@/hooks/use-theme'
+import { cn } from '@/lib/utils'
+import { CheckpointTimeline } from './CheckpointTimeline'
 import { DIFF_MIN_WIDTH } from './diff-constants'
+import { WorktreeBar } from './WorktreeBar'
 
 const LazyMultiFileDiff = lazy(() =>
   import('@pierre/diffs/react').then((m) => ({ default: m.MultiFileDiff })),
@@ -43,8 +55,51 @@ export function DiffPanel({
   fullScreen?: boolean
 }) {
   const { t } = useTranslation()
-  const changesQuery = useIssueChanges(projectId, issueId, true)
-  const files = changesQuery.data?.files ?? []
+  const { data: issue } = useIssue(projectId, issueId)
+  // Worktree issues show their branch against its base instead of the
+  // project checkout
+  const worktree = !!issue?.useWorktree
+  const [showCheckpoints, setShowCheckpoints] = useState(false)
+  const [range, setRange] = useState<{
+    from: string | null
+    to: string | null
+  }>({ from: null, to: null })
+  const changesQuery = useIssueChanges(
+    projectId,
+    issueId,
+    !worktree && !showCheckpoints,
+  )
+  const worktreeQuery = useIssueWorktree(projectId, issueId, worktree)
+  const checkpointsQuery = useIssueCheckpoints(
+    projectId,
+    issueId,
+    showCheckpoints,
+  )
+  const checkpoints = checkpointsQuery.data?.checkpoints ?? []
+  // Until one is picked, show what changed since the latest checkpoint
+  const from = range.from ?? checkpoints.at(-1)?.id ?? null
+  const checkpointRange = from ? { from, to: range.to } : null
+  const checkpointDiffQuery = useIssueCheckpointDiff(
+    projectId,
+    issueId,
+    showCheckpoints ? from : null,
+    range.to,
+  )
+  const activeQuery = showCheckpoints
+    ? checkpointsQuery.isSuccess && from
+      ? checkpointDiffQuery
+      : checkpointsQuery
+    : worktree
+      ? worktreeQuery
+      : changesQuery
+  const notGitRepo = showCheckpoints
+    ? !checkpointsQuery.data?.gitRepo
+    : !worktree && !changesQuery.data?.gitRepo
+  const files = showCheckpoints
+    ? (checkpointDiffQuery.data?.files ?? [])
+    : worktree
+      ? (worktreeQuery.data?.files ?? [])
+      : (changesQuery.data?.files ?? [])
 
   return (
     <div
@@ -63,40 +118,82 @@ export function DiffPanel({
         <div className="flex items-center justify-between px-4 py-2.5 border-b border-border/60 shrink-0 min-h-[45px] bg-background/80 backdrop-blur-sm">
           <div className="flex items-center gap-2">
             <span className="text-sm font-semibold tracking-tight">
-              {t('diff.changes')}
+              {showCheckpoints
+                ? t('diff.checkpoints.title')
+                : t('diff.changes')}
             </span>
             <span className="text-[11px] font-medium text-muted-foreground/60 bg-muted/50 rounded-full px-1.5 py-0.5 tabular-nums">
               {files.length}
             </span>
           </div>
-          <button
-            type="button"
-            onClick={onClose}
-            className="flex items-center justify-center h-7 w-7 rounded-lg text-muted-foreground hover:text-foreground hover:bg-accent transition-all duration-150"
-            aria-label={t('diff.closeDiffPanel')}
-          >
-            <X className="h-4 w-4" />
-          </button>
+          <div className="flex items-center gap-1">
+            <button
+              type="button"
+              onClick={() => setShowCheckpoints((v) => !v)}
+              className={cn(
+                'flex items-center justify-center h-7 w-7 rounded-lg text-muted-foreground hover:text-foreground hover:bg-accent transition-all duration-150',
+                showCheckpoints && 'bg-accent text-foreground',
+              )}
+              aria-label={t('diff.checkpoints.toggle')}
+              aria-pressed={showCheckpoints}
+              title={t('diff.checkpoints.toggle')}
+            >
+              <History className="h-4 w-4" />
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex items-center justify-center h-7 w-7 rounded-lg text-muted-foreground hover:text-foreground hover:bg-accent transition-all duration-150"
+              aria-label={t('diff.closeDiffPanel')}
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
         </div>
 
-        {changesQuery.isLoading ? (
+        {showCheckpoints && checkpoints.length > 0 ? (
+          <CheckpointTimeline
+            projectId={projectId}
+            issueId={issueId}
+            checkpoints={checkpoints}
+            from={from}
+            to={range.to}
+            onRangeChange={setRange}
+          />
+        ) : null}
+
+        {!showCheckpoints && worktree && worktreeQuery.data ? (
+          <WorktreeBar
+            projectId={projectId}
+            issueId={issueId}
+            info={worktreeQuery.data}
+          />
+        ) : null}
+
+        {activeQuery.isLoading ? (
           <div className="flex-1 flex items-center justify-center px-4">
             <span className="text-sm text-muted-foreground text-center">
               {t('common.loading')}
             </span>
           </div>
-        ) : changesQuery.isError ? (
+        ) : activeQuery.isError ? (
           <div className="flex-1 flex items-center justify-center px-4">
             <span className="text-sm text-muted-foreground text-center">
-              {String(changesQuery.error.message || t('diff.loadFailed'))}
+              {String(activeQuery.error.message || t('diff.loadFailed'))}
             </span>
           </div>
-        ) : !changesQuery.data?.gitRepo ? (
+        ) : notGitRepo ? (
           <div className="flex-1 flex items-center justify-center px-4">
             <span className="text-sm text-muted-foreground text-center">
               {t('diff.notGitRepo')}
             </span>
           </div>
+        ) : showCheckpoints && checkpoints.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center px-4">
+            <span className="text-sm text-muted-foreground text-center">
+              {t('diff.checkpoints.empty')}
+            </span>
+          </div>
         ) : files.length === 0 ? (
           <div className="flex-1 flex items-center justify-center px-4">
             <span className="text-sm text-muted-foreground text-center">
@@ -113,6 +210,8 @@ export function DiffPanel({
                 path={file.path}
                 additions={file.additions}
                 deletions={file.deletions}
+                worktree={worktree}
+                checkpointRange={showCheckpoints ? checkpointRange : null}
               />
             ))}
           </div>
@@ -130,17 +229,45 @@ function DiffFileCard({
   path,
   additions,
   deletions,
+  worktree,
+  checkpointRange,
 }: {
   projectId: string
   issueId: string
   path: string
   additions?: number
   deletions?: number
+  worktree?: boolean
+  /** Show the file's diff between checkpoints instead of the live one */
+  checkpointRange?: { from: string; to: string | null } | null
 }) {
   const { t } = useTranslation()
   const { resolved } = useTheme()
   const [isOpen, setIsOpen] = useState(false)
-  const patchQuery = useIssueFilePatch(projectId, issueId, path, isOpen)
+  const workspacePatchQuery = useIssueFilePatch(
+    projectId,
+    issueId,
+    path,
+    isOpen && !worktree && !checkpointRange,
+  )
+  const worktreePatchQuery = useIssueWorktreeFilePatch(
+    projectId,
+    issueId,
+    path,
+    isOpen && !!worktree && !checkpointRange,
+  )
+  const checkpointPatchQuery = useIssueCheckpointFilePatch(
+    projectId,
+    issueId,
+    checkpointRange ?? null,
+    path,
+    isOpen,
+  )
+  const patchQuery = checkpointRange
+    ? checkpointPatchQuery
+    : worktree
+      ? worktreePatchQuery
+      : workspacePatchQuery
   const patch = patchQuery.data
   const patchText = patch?.patch ?? ''
   const stats = useMemo(() => getPatchStats(patchText), [patchText])
@@ -237,7 +364,7 @@ function DiffFileCard({
   )
 }
 
-function PatchDiffView({ patch }: { patch: string }) {
+export function PatchDiffView({ patch }: { patch: string }) {
   const { resolved } = useTheme()
   const isLikelyPatch = useMemo(
     () => patch.includes('@@') || patch.includes('\ndiff --git '),
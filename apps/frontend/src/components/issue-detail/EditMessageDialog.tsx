@@ -0,0 +1,106 @@
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Textarea } from '@/components/ui/textarea'
+import { useRewindIssue } from '@/hooks/use-kanban'
+import type { NormalizedLogEntry } from '@/types/kanban'
+
+/**
+ * Edit a sent user message and resend it. The turns after it are hidden on
+ * the server and kept as an alternate branch; `entry` null keeps it closed.
+ */
+export function EditMessageDialog({
+  projectId,
+  issueId,
+  entry,
+  onClose,
+  onRewound,
+}: {
+  projectId: string
+  issueId: string
+  entry: NormalizedLogEntry | null
+  onClose: () => void
+  onRewound: (
+    editedId: string,
+    result: { messageId?: string | null; branchId: string },
+    prompt: string,
+  ) => void
+}) {
+  const { t } = useTranslation()
+  const rewind = useRewindIssue(projectId, issueId)
+  const [prompt, setPrompt] = useState('')
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: reset only when a new message is picked
+  useEffect(() => {
+    if (entry) {
+      setPrompt(entry.content)
+      rewind.reset()
+    }
+  }, [entry])
+
+  const submit = () => {
+    const messageId = entry?.messageId
+    const text = prompt.trim()
+    if (!messageId || !text) return
+    rewind.mutate(
+      { messageId, prompt: text },
+      {
+        onSuccess: (result) => {
+          onClose()
+          onRewound(messageId, result, text)
+        },
+      },
+    )
+  }
+
+  return (
+    <Dialog open={!!entry} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="md:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t('session.edit.title')}</DialogTitle>
+          <DialogDescription>{t('session.edit.description')}</DialogDescription>
+        </DialogHeader>
+        <Textarea
+          value={prompt}
+          onChange={(e) => setPrompt(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+              e.preventDefault()
+              submit()
+            }
+          }}
+          rows={6}
+          autoFocus
+        />
+        {rewind.error ? (
+          <p className="text-xs text-destructive">{rewind.error.message}</p>
+        ) : null}
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={onClose}
+            disabled={rewind.isPending}
+          >
+            {t('common.cancel')}
+          </Button>
+          <Button
+            onClick={submit}
+            disabled={!prompt.trim() || rewind.isPending}
+          >
+            {rewind.isPending
+              ? t('session.edit.sending')
+              : t('session.edit.submit')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,106 @@
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useNavigate } from 'react-router-dom'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { useForkIssue } from '@/hooks/use-kanban'
+
+/**
+ * Continue the session from one assistant message in a new sub-issue, then
+ * open it. `messageId` is the log entry to fork after; null keeps it closed.
+ */
+export function ForkMessageDialog({
+  projectId,
+  issueId,
+  messageId,
+  onClose,
+}: {
+  projectId: string
+  issueId: string
+  messageId: string | null
+  onClose: () => void
+}) {
+  const { t } = useTranslation()
+  const navigate = useNavigate()
+  const fork = useForkIssue(projectId, issueId)
+  const [title, setTitle] = useState('')
+  const [prompt, setPrompt] = useState('')
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: reset only when a new message is picked
+  useEffect(() => {
+    if (messageId) {
+      setTitle('')
+      setPrompt('')
+      fork.reset()
+    }
+  }, [messageId])
+
+  const submit = () => {
+    if (!messageId || !prompt.trim()) return
+    fork.mutate(
+      {
+        messageId,
+        prompt: prompt.trim(),
+        ...(title.trim() ? { title: title.trim() } : {}),
+      },
+      {
+        onSuccess: (child) => {
+          onClose()
+          void navigate(`/projects/${projectId}/issues/${child.id}`)
+        },
+      },
+    )
+  }
+
+  return (
+    <Dialog open={!!messageId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="md:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t('session.fork.title')}</DialogTitle>
+          <DialogDescription>{t('session.fork.description')}</DialogDescription>
+        </DialogHeader>
+        <Input
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder={t('session.fork.titlePlaceholder')}
+          maxLength={500}
+        />
+        <Textarea
+          value={prompt}
+          onChange={(e) => setPrompt(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+              e.preventDefault()
+              submit()
+            }
+          }}
+          placeholder={t('session.fork.promptPlaceholder')}
+          rows={4}
+          autoFocus
+        />
+        {fork.error ? (
+          <p className="text-xs text-destructive">{fork.error.message}</p>
+        ) : null}
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={fork.isPending}>
+            {t('common.cancel')}
+          </Button>
+          <Button onClick={submit} disabled={!prompt.trim() || fork.isPending}>
+            {fork.isPending
+              ? t('session.fork.forking')
+              : t('session.fork.submit')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
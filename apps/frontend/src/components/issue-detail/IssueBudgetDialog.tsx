@@ -0,0 +1,53 @@
+import { useTranslation } from 'react-i18next'
+import { BudgetForm } from '@/components/BudgetForm'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { useIssueBudget, useUpdateIssueBudget } from '@/hooks/use-kanban'
+
+/** Limits for a single issue; project-wide limits still apply on top. */
+export function IssueBudgetDialog({
+  projectId,
+  issueId,
+  open,
+  onOpenChange,
+}: {
+  projectId: string
+  issueId: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}) {
+  const { t } = useTranslation()
+  const { data: status } = useIssueBudget(
+    open ? projectId : '',
+    open ? issueId : '',
+  )
+  const update = useUpdateIssueBudget(projectId, issueId)
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="md:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t('budget.issueTitle')}</DialogTitle>
+          <DialogDescription>{t('budget.issueDescription')}</DialogDescription>
+        </DialogHeader>
+        {status ? (
+          <BudgetForm
+            status={status}
+            isSaving={update.isPending}
+            error={update.error}
+            onSave={(limits) =>
+              update.mutate(limits, { onSuccess: () => onOpenChange(false) })
+            }
+          />
+        ) : (
+          <p className="text-xs text-muted-foreground">{t('common.loading')}</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
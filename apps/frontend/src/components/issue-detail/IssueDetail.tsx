@@ -1,12 +1,13 @@
-import { Bug, Calendar, ChevronDown, Trash2 } from 'lucide-react'
-import { useRef, useState } from 'react'
+import { Bug, Calendar, ChevronDown, Coins, Trash2 } from 'lucide-react'
+import { useEffect, useRef, useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import { PriorityIcon } from '@/components/kanban/PriorityIcon'
 import { Button } from '@/components/ui/button'
 import { useClickOutside } from '@/hooks/use-click-outside'
+import { useIssueUsage } from '@/hooks/use-kanban'
+import { formatCost, formatTokenCount } from '@/lib/format'
 import { tPriority, tStatus } from '@/lib/i18n-utils'
-import type { StatusDefinition, StatusId } from '@/lib/statuses'
-import { STATUSES } from '@/lib/statuses'
+import type { StatusDefinition } from '@/lib/statuses'
 import type { Issue, Priority } from '@/types/kanban'
 
 export const PRIORITIES: Priority[] = ['urgent', 'high', 'medium', 'low']
@@ -30,12 +31,14 @@ function formatDate(iso: string, lang: string) {
 export function IssueDetail({
   issue,
   status,
+  statuses,
   onUpdate,
   onDelete,
   isDeleting = false,
 }: {
   issue: Issue
   status?: StatusDefinition
+  statuses: StatusDefinition[]
   onUpdate?: (
     fields: Partial<Pick<Issue, 'statusId' | 'priority' | 'devMode'>>,
   ) => void
@@ -49,6 +52,7 @@ export function IssueDetail({
       {/* Status — editable */}
       <StatusSelect
         status={status}
+        statuses={statuses}
         onChange={(id) => onUpdate?.({ statusId: id })}
       />
 
@@ -91,6 +95,7 @@ export function IssueDetail({
           <Bug className="h-3 w-3" />
           <span>{t('issue.dev')}</span>
         </Button>
+        <UsageBadge issue={issue} />
         <span
           className={`${badgeBase} border-border/50 bg-muted/20 text-muted-foreground/80`}
         >
@@ -102,12 +107,45 @@ export function IssueDetail({
   )
 }
 
+function UsageBadge({ issue }: { issue: Issue }) {
+  const { t } = useTranslation()
+  const { data: usage, refetch } = useIssueUsage(issue.projectId, issue.id)
+
+  // Usage is recorded when a turn completes, which also settles the session
+  useEffect(() => {
+    if (issue.sessionStatus && issue.sessionStatus !== 'running') {
+      void refetch()
+    }
+  }, [issue.sessionStatus, refetch])
+
+  if (!usage || usage.totals.turns === 0) return null
+  const { totals } = usage
+
+  return (
+    <span
+      className={`${badgeBase} border-border/50 bg-muted/20 text-muted-foreground/80 tabular-nums`}
+      title={t('usage.issueSummary', {
+        input: totals.inputTokens,
+        output: totals.outputTokens,
+        cacheRead: totals.cacheReadTokens,
+        turns: totals.turns,
+      })}
+    >
+      <Coins className="h-3 w-3" />
+      {formatTokenCount(totals.inputTokens + totals.outputTokens)}
+      {totals.costUsd > 0 ? ` · ${formatCost(totals.costUsd)}` : null}
+    </span>
+  )
+}
+
 export function StatusSelect({
   status,
+  statuses,
   onChange,
 }: {
   status?: StatusDefinition
-  onChange: (id: StatusId) => void
+  statuses: StatusDefinition[]
+  onChange: (id: string) => void
 }) {
   const { t } = useTranslation()
   const [open, setOpen] = useState(false)
@@ -138,7 +176,7 @@ export function StatusSelect({
       </Button>
       {open ? (
         <div className="absolute left-0 bottom-full mb-1.5 z-50 min-w-[120px] rounded-xl border border-border/60 bg-popover/95 backdrop-blur-sm py-1 shadow-xl text-xs text-popover-foreground">
-          {STATUSES.map((s) => {
+          {statuses.map((s) => {
             const isActive = s.id === status.id
             return (
               <button
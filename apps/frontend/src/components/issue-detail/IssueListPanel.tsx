@@ -4,10 +4,9 @@ import { useTranslation } from 'react-i18next'
 import { useNavigate } from 'react-router-dom'
 import { ProjectSettingsDialog } from '@/components/ProjectSettingsDialog'
 import { Button } from '@/components/ui/button'
-import { useIssues, useProject } from '@/hooks/use-kanban'
+import { useIssues, useProject, useProjectStatuses } from '@/hooks/use-kanban'
 import { tStatus } from '@/lib/i18n-utils'
 import type { StatusDefinition } from '@/lib/statuses'
-import { STATUSES } from '@/lib/statuses'
 import { usePanelStore } from '@/stores/panel-store'
 import type { Issue } from '@/types/kanban'
 
@@ -26,6 +25,7 @@ export function IssueListPanel({
   const navigate = useNavigate()
   const { data: issues } = useIssues(projectId)
   const { data: project } = useProject(projectId)
+  const { data: statuses } = useProjectStatuses(projectId)
   const openCreateDialog = usePanelStore((s) => s.openCreateDialog)
   const [search, setSearch] = useState('')
   const [showSettings, setShowSettings] = useState(false)
@@ -54,7 +54,7 @@ export function IssueListPanel({
   }, [filtered])
 
   const grouped = useMemo(() => {
-    if (!issues) return []
+    if (!issues || !statuses) return []
     const rootIssues = filtered.filter((i) => !i.parentIssueId)
     const map = new Map<string, Issue[]>()
     for (const issue of rootIssues) {
@@ -62,13 +62,13 @@ export function IssueListPanel({
       list.push(issue)
       map.set(issue.statusId, list)
     }
-    return STATUSES.map((status) => ({
+    return statuses.map((status) => ({
       status,
       issues: (map.get(status.id) ?? []).sort(
         (a, b) => a.sortOrder - b.sortOrder,
       ),
     }))
-  }, [filtered, issues])
+  }, [filtered, issues, statuses])
 
   const toggleCollapse = (statusId: string) => {
     setCollapsed((prev) => ({ ...prev, [statusId]: !prev[statusId] }))
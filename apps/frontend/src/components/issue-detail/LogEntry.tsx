@@ -5,13 +5,16 @@ import {
   Clock,
   FileEdit,
   FileText,
+  Gauge,
   Globe,
   Image,
   ListTodo,
   Loader2,
   Search,
+  ShieldAlert,
   Terminal,
   Wrench,
+  XCircle,
 } from 'lucide-react'
 import { useTranslation } from 'react-i18next'
 import { getCommandPreview } from '@/lib/command-preview'
@@ -66,7 +69,9 @@ function getToolLabel(
     case 'web-fetch':
       return `${t('session.tool.webFetch')}: ${action.url}`
     case 'tool':
-      return action.toolName
+      return action.server
+        ? `${action.server} · ${action.toolName}`
+        : action.toolName
     case 'other':
       return action.description
   }
@@ -308,6 +313,57 @@ export function LogEntry({
       if (entry.metadata?.subtype === 'hook_completed') return null
       if (entry.metadata?.source === 'result') return null
       if (typeof entry.metadata?.duration === 'number') return null
+      // Verification check after a turn: pass/fail line, output collapsed
+      if (entry.metadata?.subtype === 'verification') {
+        const name = String(entry.metadata.name ?? '')
+        const passed = entry.metadata.passed === true
+        const status = passed
+          ? t('verify.passed', { name })
+          : entry.metadata.timedOut
+            ? t('verify.timedOut', { name })
+            : t('verify.failed', { name })
+        const durationMs = Number(entry.metadata.durationMs ?? 0)
+        return (
+          <div className="mx-5 my-1.5 animate-message-enter">
+            <details
+              className={`rounded-lg border transition-all duration-200 ${
+                passed
+                  ? 'bg-muted/40 border-border/30 open:bg-muted/20'
+                  : 'bg-destructive/[0.06] border-destructive/20'
+              }`}
+            >
+              <summary className="flex cursor-pointer list-none items-center gap-2 px-3 py-2 text-xs">
+                {passed ? (
+                  <CheckCircle2 className="h-3.5 w-3.5 shrink-0 text-emerald-500" />
+                ) : (
+                  <XCircle className="h-3.5 w-3.5 shrink-0 text-destructive" />
+                )}
+                <span
+                  className={
+                    passed ? 'text-foreground/80' : 'text-destructive/90'
+                  }
+                >
+                  {status}
+                </span>
+                <code className="min-w-0 truncate font-mono text-[11px] text-muted-foreground">
+                  {String(entry.metadata.command ?? '')}
+                </code>
+                <span className="ml-auto shrink-0 text-[10px] text-muted-foreground/70">
+                  {!passed && typeof entry.metadata.exitCode === 'number'
+                    ? `${t('verify.exitCode', { code: entry.metadata.exitCode })} · `
+                    : ''}
+                  {(durationMs / 1000).toFixed(1)}s
+                </span>
+              </summary>
+              <div className="px-4 pb-3 pt-1.5 border-t border-border/20">
+                <pre className="text-xs text-foreground/80 whitespace-pre-wrap font-mono leading-relaxed overflow-x-auto">
+                  {entry.content}
+                </pre>
+              </div>
+            </details>
+          </div>
+        )
+      }
       // Command output (e.g. /context, /cost): collapsed by default
       if (entry.metadata?.subtype === 'command_output') {
         const firstLine =
@@ -327,6 +383,17 @@ export function LogEntry({
           </div>
         )
       }
+      // Budget limit hit: the run was stopped on purpose, not by an error
+      if (entry.metadata?.subtype === 'budget_exceeded') {
+        return (
+          <div className="flex gap-2 mx-5 my-1.5 rounded-lg bg-amber-500/[0.08] border border-amber-500/25 px-3 py-2 animate-message-enter">
+            <Gauge className="h-3.5 w-3.5 shrink-0 text-amber-600 dark:text-amber-400 mt-0.5" />
+            <p className="text-xs text-amber-700 dark:text-amber-300 break-words leading-relaxed">
+              {entry.content}
+            </p>
+          </div>
+        )
+      }
       // Compact boundary: show a visual divider
       if (entry.metadata?.subtype === 'compact_boundary') {
         return (
@@ -346,6 +413,17 @@ export function LogEntry({
       )
 
     case 'error-message':
+      // Guardrail block: the agent was stopped by a project rule
+      if (entry.metadata?.subtype === 'guardrail_denied') {
+        return (
+          <div className="flex gap-2 mx-5 my-1.5 rounded-lg bg-destructive/[0.06] border border-destructive/20 px-3 py-2 animate-message-enter">
+            <ShieldAlert className="h-3.5 w-3.5 shrink-0 text-destructive mt-0.5" />
+            <p className="text-xs text-destructive/90 break-words leading-relaxed font-mono">
+              {entry.content}
+            </p>
+          </div>
+        )
+      }
       return (
         <div className="flex gap-2 mx-5 my-1.5 rounded-lg bg-destructive/[0.06] border border-destructive/20 px-3 py-2 animate-message-enter">
           <AlertCircle className="h-3.5 w-3.5 shrink-0 text-destructive mt-0.5" />
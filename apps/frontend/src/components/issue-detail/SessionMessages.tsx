@@ -1,11 +1,22 @@
 import DOMPurify from 'dompurify'
-import { FileEdit, FileText } from 'lucide-react'
+import {
+  FileEdit,
+  FileText,
+  GitBranch,
+  History,
+  Pencil,
+  ShieldQuestion,
+} from 'lucide-react'
 import { lazy, Suspense, useEffect, useRef, useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import { useTheme } from '@/hooks/use-theme'
 import { getCommandPreview } from '@/lib/command-preview'
 import { codeToHtml } from '@/lib/shiki'
-import type { NormalizedLogEntry } from '@/types/kanban'
+import type {
+  ApprovalDecision,
+  NormalizedLogEntry,
+  ToolApproval,
+} from '@/types/kanban'
 import { LogEntry } from './LogEntry'
 
 const LazyMultiFileDiff = lazy(() =>
@@ -346,6 +357,120 @@ function FileToolGroup({
   )
 }
 
+/** Pick the most readable preview of a tool's input for the approval card. */
+function approvalInputPreview(input: unknown): {
+  content: string
+  language: string
+} {
+  if (input && typeof input === 'object') {
+    const obj = input as Record<string, unknown>
+    const command = obj.command
+    if (typeof command === 'string')
+      return { content: command, language: 'shell' }
+    if (Array.isArray(command)) {
+      return { content: command.join(' '), language: 'shell' }
+    }
+  }
+  return { content: stringifyPretty(input), language: 'json' }
+}
+
+function ApprovalCard({
+  approval,
+  isResolving,
+  onResolve,
+}: {
+  approval: ToolApproval
+  isResolving: boolean
+  onResolve: (requestId: string, decision: ApprovalDecision) => void
+}) {
+  const { t } = useTranslation()
+  const preview = approvalInputPreview(approval.input)
+  const buttonClass =
+    'rounded-md border px-2.5 py-1 text-xs font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed'
+
+  return (
+    <div className="mx-5 my-1.5 rounded-lg border border-amber-500/40 bg-amber-500/5 p-3 animate-message-enter">
+      <div className="flex items-center gap-2 text-xs">
+        <ShieldQuestion className="h-3.5 w-3.5 shrink-0 text-amber-600 dark:text-amber-400" />
+        <span className="font-medium text-foreground/90">
+          {t('session.approval.title', { tool: approval.toolName })}
+        </span>
+        {approval.expiresAt ? (
+          <span className="ml-auto text-[11px] text-muted-foreground">
+            {t('session.approval.expiresAt', {
+              time: new Date(approval.expiresAt).toLocaleTimeString(),
+            })}
+          </span>
+        ) : null}
+      </div>
+      {preview.content ? (
+        <div className="mt-2">
+          <CodeBlock
+            content={preview.content}
+            language={preview.language}
+            collapsible
+          />
+        </div>
+      ) : null}
+      <div className="mt-2.5 flex flex-wrap items-center gap-1.5">
+        <button
+          type="button"
+          disabled={isResolving}
+          onClick={() => onResolve(approval.id, 'approve')}
+          className={`${buttonClass} border-emerald-500/40 bg-emerald-500/10 text-emerald-700 hover:bg-emerald-500/20 dark:text-emerald-300`}
+        >
+          {t('session.approval.approve')}
+        </button>
+        <button
+          type="button"
+          disabled={isResolving}
+          onClick={() => onResolve(approval.id, 'always-allow')}
+          className={`${buttonClass} border-border/40 bg-background/80 text-foreground/70 hover:bg-accent`}
+        >
+          {t('session.approval.alwaysAllow', { tool: approval.toolName })}
+        </button>
+        <button
+          type="button"
+          disabled={isResolving}
+          onClick={() => onResolve(approval.id, 'deny')}
+          className={`${buttonClass} border-destructive/40 bg-destructive/5 text-destructive hover:bg-destructive/10`}
+        >
+          {t('session.approval.deny')}
+        </button>
+      </div>
+    </div>
+  )
+}
+
+// Queued, meta and parked messages never ran as a turn, so can't be edited
+const NON_EDITABLE_TYPES = new Set(['pending', 'done', 'system', 'command'])
+
+function RowAction({
+  icon: Icon,
+  label,
+  onClick,
+  alwaysVisible = false,
+}: {
+  icon: React.ComponentType<{ className?: string }>
+  label: string
+  onClick: () => void
+  alwaysVisible?: boolean
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={`flex items-center gap-1 rounded-md border border-border/50 bg-background/90 px-1.5 py-0.5 text-[11px] text-muted-foreground shadow-sm transition-opacity hover:text-foreground focus-visible:opacity-100 ${
+        alwaysVisible ? '' : 'opacity-0 group-hover/row:opacity-100'
+      }`}
+      title={label}
+    >
+      <Icon className="h-3 w-3" />
+      {label}
+    </button>
+  )
+}
+
 export function SessionMessages({
   logs,
   scrollRef,
@@ -357,6 +482,14 @@ export function SessionMessages({
   hasOlderLogs = false,
   isLoadingOlder = false,
   onLoadOlder,
+  approvals = [],
+  resolvingApprovalId,
+  onResolveApproval,
+  focusMessageId,
+  onFocusSettled,
+  onForkMessage,
+  onEditMessage,
+  onShowBranch,
 }: {
   logs: NormalizedLogEntry[]
   scrollRef?: React.RefObject<HTMLDivElement | null>
@@ -368,8 +501,22 @@ export function SessionMessages({
   hasOlderLogs?: boolean
   isLoadingOlder?: boolean
   onLoadOlder?: () => void
+  approvals?: ToolApproval[]
+  resolvingApprovalId?: string
+  onResolveApproval?: (requestId: string, decision: ApprovalDecision) => void
+  /** Log entry to scroll to and flash, e.g. a search result */
+  focusMessageId?: string | null
+  /** Called once the focused entry was shown, or found not to be visible */
+  onFocusSettled?: (found: boolean) => void
+  /** Offer "fork from here" on assistant messages */
+  onForkMessage?: (messageId: string) => void
+  /** Offer "edit" on sent user messages */
+  onEditMessage?: (entry: NormalizedLogEntry) => void
+  /** Open the turns an edit replaced */
+  onShowBranch?: (branchId: string) => void
 }) {
   const { t } = useTranslation()
+  const [flashId, setFlashId] = useState<string | null>(null)
 
   const todoCallIds = new Set(
     logs
@@ -420,9 +567,37 @@ export function SessionMessages({
     }
     prevLenRef.current = visibleLogs.length
     prevFirstIdRef.current = firstId
-  }, [visibleLogs.length, isRunning, scrollRef])
+  }, [visibleLogs.length, approvals.length, isRunning, scrollRef])
 
-  if (visibleLogs.length === 0 && !isRunning) return null
+  // Page back through history until the focused entry is rendered, then
+  // bring it into view. Gives up once there is nothing older to load.
+  // biome-ignore lint/correctness/useExhaustiveDependencies: re-check whenever the rendered window changes
+  useEffect(() => {
+    if (!focusMessageId || visibleLogs.length === 0) return
+    const target = (scrollRef?.current ?? document).querySelector(
+      `[data-message-ids~="${CSS.escape(focusMessageId)}"]`,
+    )
+    if (target) {
+      requestAnimationFrame(() =>
+        target.scrollIntoView({ block: 'center', behavior: 'smooth' }),
+      )
+      setFlashId(focusMessageId)
+      onFocusSettled?.(true)
+    } else if (hasOlderLogs) {
+      if (!isLoadingOlder) onLoadOlder?.()
+    } else {
+      onFocusSettled?.(false)
+    }
+  }, [focusMessageId, visibleLogs.length, hasOlderLogs, isLoadingOlder])
+
+  useEffect(() => {
+    if (!flashId) return
+    const timer = setTimeout(() => setFlashId(null), 2500)
+    return () => clearTimeout(timer)
+  }, [flashId])
+
+  if (visibleLogs.length === 0 && !isRunning && approvals.length === 0)
+    return null
 
   const durationMap = buildDurationMap(visibleLogs)
 
@@ -467,6 +642,25 @@ export function SessionMessages({
   const consumedCommandOutputs = new Set(commandOutputByIdx.values())
 
   const rows: React.ReactNode[] = []
+  // Wrap a row so it can be found (and flashed) by any entry it renders
+  const pushRow = (
+    key: string,
+    messageIds: Array<string | undefined>,
+    node: React.ReactNode,
+  ) => {
+    const ids = messageIds.filter((id): id is string => !!id)
+    rows.push(
+      <div
+        key={key}
+        data-message-ids={ids.join(' ') || undefined}
+        className={`rounded-lg transition-colors duration-700 ${
+          flashId && ids.includes(flashId) ? 'bg-primary/10' : ''
+        }`}
+      >
+        {node}
+      </div>,
+    )
+  }
 
   for (let i = 0; i < visibleLogs.length; i++) {
     const entry = visibleLogs[i]
@@ -484,11 +678,10 @@ export function SessionMessages({
     ) {
       const outputIdx = commandOutputByIdx.get(i)
       const output = outputIdx !== undefined ? visibleLogs[outputIdx] : null
-      rows.push(
-        <div
-          key={`cmd-group-${entry.messageId ?? `${entry.turnIndex ?? 0}-${i}`}`}
-          className="mx-5 my-1.5 animate-message-enter"
-        >
+      pushRow(
+        `cmd-group-${entry.messageId ?? `${entry.turnIndex ?? 0}-${i}`}`,
+        [entry.messageId, output?.messageId],
+        <div className="mx-5 my-1.5 animate-message-enter">
           <details className="rounded-lg border border-border/30 bg-muted/10 transition-all duration-200 open:bg-muted/20">
             <summary className="cursor-pointer list-none px-3 py-2 text-xs text-muted-foreground hover:bg-muted/20 transition-colors">
               <code className="font-mono text-foreground/70">
@@ -527,11 +720,10 @@ export function SessionMessages({
       consumedResults.add(matchedResultIdx)
       const actionKind = entry.toolAction?.kind
       if (actionKind === 'file-edit' || actionKind === 'file-read') {
-        rows.push(
-          <div
-            key={`file-tool-group-${entry.messageId ?? `${entry.turnIndex ?? 0}-${i}`}`}
-            className="px-5 py-0.5 animate-message-enter"
-          >
+        pushRow(
+          `file-tool-group-${entry.messageId ?? `${entry.turnIndex ?? 0}-${i}`}`,
+          [entry.messageId, matchedResult.messageId],
+          <div className="px-5 py-0.5 animate-message-enter">
             <FileToolGroup actionEntry={entry} resultEntry={matchedResult} />
           </div>,
         )
@@ -548,11 +740,10 @@ export function SessionMessages({
           90,
         ).isTruncated
         const showFullCommand = isTruncatedInTitle || fullCommand.includes('\n')
-        rows.push(
-          <div
-            key={`tool-group-${entry.messageId ?? `${entry.turnIndex ?? 0}-${i}`}`}
-            className="px-5 py-0.5 animate-message-enter"
-          >
+        pushRow(
+          `tool-group-${entry.messageId ?? `${entry.turnIndex ?? 0}-${i}`}`,
+          [entry.messageId, matchedResult.messageId],
+          <div className="px-5 py-0.5 animate-message-enter">
             <ToolPanel
               collapsible
               summary={<LogEntry entry={entry} inToolGroup />}
@@ -581,11 +772,10 @@ export function SessionMessages({
         continue
       }
 
-      rows.push(
-        <div
-          key={`tool-group-${entry.messageId ?? `${entry.turnIndex ?? 0}-${i}`}`}
-          className="px-5 py-0.5 animate-message-enter"
-        >
+      pushRow(
+        `tool-group-${entry.messageId ?? `${entry.turnIndex ?? 0}-${i}`}`,
+        [entry.messageId, matchedResult.messageId],
+        <div className="px-5 py-0.5 animate-message-enter">
           <ToolPanel
             collapsible
             summary={<LogEntry entry={entry} inToolGroup />}
@@ -600,14 +790,56 @@ export function SessionMessages({
       continue
     }
 
-    rows.push(
-      <LogEntry
-        key={
-          entry.messageId ?? `${entry.turnIndex ?? 0}-${i}-${entry.entryType}`
-        }
-        entry={entry}
-        durationMs={durationMap.get(i)}
-      />,
+    const forkFrom =
+      onForkMessage && entry.entryType === 'assistant-message'
+        ? entry.messageId
+        : undefined
+    const canEdit =
+      !!onEditMessage &&
+      entry.entryType === 'user-message' &&
+      !!entry.messageId &&
+      !NON_EDITABLE_TYPES.has(String(entry.metadata?.type))
+    const branchId =
+      onShowBranch &&
+      entry.entryType === 'user-message' &&
+      typeof entry.metadata?.branchId === 'string'
+        ? entry.metadata.branchId
+        : undefined
+    const logEntry = <LogEntry entry={entry} durationMs={durationMap.get(i)} />
+    pushRow(
+      entry.messageId ?? `${entry.turnIndex ?? 0}-${i}-${entry.entryType}`,
+      [entry.messageId],
+      forkFrom || canEdit || branchId ? (
+        <div className="group/row relative">
+          {logEntry}
+          <div className="absolute right-5 top-1 flex items-center gap-1">
+            {branchId ? (
+              <RowAction
+                icon={History}
+                label={t('session.edit.showPrevious')}
+                onClick={() => onShowBranch?.(branchId)}
+                alwaysVisible
+              />
+            ) : null}
+            {canEdit ? (
+              <RowAction
+                icon={Pencil}
+                label={t('session.edit.action')}
+                onClick={() => onEditMessage?.(entry)}
+              />
+            ) : null}
+            {forkFrom ? (
+              <RowAction
+                icon={GitBranch}
+                label={t('session.fork.action')}
+                onClick={() => onForkMessage?.(forkFrom)}
+              />
+            ) : null}
+          </div>
+        </div>
+      ) : (
+        logEntry
+      ),
     )
   }
 
@@ -626,6 +858,16 @@ export function SessionMessages({
         </div>
       ) : null}
       {rows}
+      {onResolveApproval
+        ? approvals.map((approval) => (
+            <ApprovalCard
+              key={approval.id}
+              approval={approval}
+              isResolving={resolvingApprovalId === approval.id}
+              onResolve={onResolveApproval}
+            />
+          ))
+        : null}
       {isRunning ? (
         <div className="flex items-center gap-2.5 mx-5 my-2 px-3 py-2 text-xs text-muted-foreground animate-message-enter">
           <span className="thinking-dots flex items-center gap-[3px] text-violet-500/70 dark:text-violet-400/70">
@@ -0,0 +1,179 @@
+import { GitBranch, GitMerge, Loader2, Trash2 } from 'lucide-react'
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Button } from '@/components/ui/button'
+import {
+  useMergeIssueWorktree,
+  useRemoveIssueWorktree,
+} from '@/hooks/use-kanban'
+import type {
+  MergeStrategy,
+  WorktreeInfo,
+  WorktreeMergeResult,
+} from '@/types/kanban'
+
+/**
+ * Branch summary and integration actions for a worktree issue: squash-merge
+ * or rebase onto the base branch, and remove the worktree when done.
+ */
+export function WorktreeBar({
+  projectId,
+  issueId,
+  info,
+}: {
+  projectId: string
+  issueId: string
+  info: WorktreeInfo
+}) {
+  const { t } = useTranslation()
+  const merge = useMergeIssueWorktree(projectId, issueId)
+  const remove = useRemoveIssueWorktree(projectId, issueId)
+  const [result, setResult] = useState<WorktreeMergeResult | null>(null)
+  const [confirmDiscard, setConfirmDiscard] = useState(false)
+
+  const busy = merge.isPending || remove.isPending
+  const canMerge =
+    !!info.baseBranch &&
+    info.hasBranch &&
+    (info.ahead > 0 || info.uncommittedFiles > 0)
+
+  const runMerge = (strategy: MergeStrategy) => {
+    setResult(null)
+    merge.mutate({ strategy }, { onSuccess: setResult })
+  }
+
+  const error = merge.error ?? remove.error
+
+  if (!info.hasBranch && !info.hasWorktree) {
+    return (
+      <div className="px-4 py-2 border-b border-border/60 text-[11px] text-muted-foreground">
+        {result?.merged
+          ? t('worktree.merged', { commit: result.commit.slice(0, 7) })
+          : t('worktree.none')}
+      </div>
+    )
+  }
+
+  return (
+    <div className="px-4 py-2 border-b border-border/60 space-y-1.5">
+      <div className="flex items-center gap-1.5 text-[11px] text-muted-foreground min-w-0">
+        <GitBranch className="h-3.5 w-3.5 shrink-0" />
+        <span className="font-mono truncate">{info.branch}</span>
+        <span className="shrink-0">→</span>
+        <span className="font-mono truncate">
+          {info.baseBranch ?? t('worktree.detached')}
+        </span>
+        <span className="ml-auto shrink-0 tabular-nums">
+          {t('worktree.aheadBehind', {
+            ahead: info.ahead,
+            behind: info.behind,
+          })}
+          {info.uncommittedFiles > 0
+            ? ` · ${t('worktree.uncommitted', { count: info.uncommittedFiles })}`
+            : null}
+        </span>
+      </div>
+
+      <div className="flex items-center gap-1.5">
+        <Button
+          size="xs"
+          disabled={!canMerge || busy}
+          onClick={() => runMerge('squash')}
+        >
+          {merge.isPending && merge.variables?.strategy === 'squash' ? (
+            <Loader2 className="animate-spin" />
+          ) : (
+            <GitMerge />
+          )}
+          {t('worktree.squashMerge')}
+        </Button>
+        <Button
+          size="xs"
+          variant="outline"
+          disabled={!canMerge || !info.hasWorktree || busy}
+          onClick={() => runMerge('rebase')}
+        >
+          {merge.isPending && merge.variables?.strategy === 'rebase' ? (
+            <Loader2 className="animate-spin" />
+          ) : null}
+          {t('worktree.rebase')}
+        </Button>
+        <Button
+          size="xs"
+          variant="ghost"
+          className="ml-auto text-muted-foreground"
+          disabled={busy}
+          onClick={() => {
+            // Unmerged work needs an explicit confirmation (forced removal)
+            if (info.ahead > 0 || info.uncommittedFiles > 0) {
+              setConfirmDiscard(true)
+            } else {
+              remove.mutate(false)
+            }
+          }}
+        >
+          <Trash2 />
+          {t('worktree.remove')}
+        </Button>
+      </div>
+
+      {result && !result.merged ? (
+        <div className="rounded-md border border-destructive/30 bg-destructive/5 px-2 py-1.5 text-[11px]">
+          <div className="font-medium text-destructive">
+            {t('worktree.conflicts', { count: result.conflicts.length })}
+          </div>
+          <ul className="mt-1 space-y-0.5">
+            {result.conflicts.map((conflict) => (
+              <li key={conflict.path} className="flex gap-2">
+                <span className="font-mono truncate">{conflict.path}</span>
+                <span className="ml-auto shrink-0 text-muted-foreground">
+                  {conflict.reason}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+      {error ? (
+        <p className="text-[11px] text-destructive">{error.message}</p>
+      ) : null}
+
+      <AlertDialog open={confirmDiscard} onOpenChange={setConfirmDiscard}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('worktree.discardTitle')}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t('worktree.discardConfirm')}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={remove.isPending}>
+              {t('common.cancel')}
+            </AlertDialogCancel>
+            <AlertDialogAction
+              disabled={remove.isPending}
+              onClick={(event) => {
+                event.preventDefault()
+                remove.mutate(true, {
+                  onSettled: () => setConfirmDiscard(false),
+                })
+              }}
+            >
+              {t('worktree.discard')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -25,10 +25,10 @@ import {
   useEngineAvailability,
   useEngineProfiles,
   useEngineSettings,
+  useProjectStatuses,
 } from '@/hooks/use-kanban'
 import { tPriority, tStatus } from '@/lib/i18n-utils'
 import type { StatusDefinition } from '@/lib/statuses'
-import { STATUSES } from '@/lib/statuses'
 import { usePanelStore } from '@/stores/panel-store'
 import type {
   EngineAvailability,
@@ -67,6 +67,7 @@ export function CreateIssueForm({
 }) {
   const { t } = useTranslation()
   const createIssue = useCreateIssue(projectId)
+  const { data: statuses = [] } = useProjectStatuses(projectId)
 
   // Engine discovery data
   const { data: discovery } = useEngineAvailability(true)
@@ -80,26 +81,37 @@ export function CreateIssueForm({
     [discovery],
   )
   const allModels = discovery?.models ?? {}
+  // Built-in and user-defined profiles whose engine is installed
+  const availableProfiles = useMemo(
+    () =>
+      (profiles ?? []).filter((p) =>
+        installedEngines.some((e) => e.engineType === p.engineType),
+      ),
+    [profiles, installedEngines],
+  )
 
   const textareaRef = useRef<HTMLTextAreaElement>(null)
 
-  const firstStatusId = STATUSES[0].id
   const [input, setInput] = useState('')
-  const [statusId, setStatusId] = useState(initialStatusId ?? firstStatusId)
+  const [selectedStatusId, setStatusId] = useState(initialStatusId)
+  // Default to the first column once the project's workflow has loaded
+  const statusId = selectedStatusId ?? statuses[0]?.id
   const [priority, setPriority] = useState<Priority>('medium')
-  const [engineType, setEngineType] = useState('')
+  const [profileId, setProfileId] = useState('')
   const [modelId, setModelId] = useState('')
   const [permission, setPermission] = useState<PermissionId>('auto')
   const [useWorktree, setUseWorktree] = useState(false)
 
+  const selectedProfile = availableProfiles.find((p) => p.id === profileId)
+
   // Resolve the effective engine type ('' means use system default)
   const resolvedEngineType = useMemo(() => {
-    if (engineType) return engineType
+    if (selectedProfile) return selectedProfile.engineType
     const defaultEng = engineSettings?.defaultEngine
     if (defaultEng && installedEngines.some((e) => e.engineType === defaultEng))
       return defaultEng
     return installedEngines[0]?.engineType ?? ''
-  }, [engineType, engineSettings, installedEngines])
+  }, [selectedProfile, engineSettings, installedEngines])
 
   // Models for the resolved engine
   const currentModels = useMemo(
@@ -107,15 +119,25 @@ export function CreateIssueForm({
     [resolvedEngineType, allModels],
   )
 
-  // When engine changes, reset model to "default" (system auto)
-  const handleEngineChange = useCallback((newEngine: string) => {
-    setEngineType(newEngine)
-    setModelId('')
-  }, [])
+  // When the profile changes, reset model to "default" (the profile's or
+  // system auto) and follow a custom profile's permission policy
+  const handleProfileChange = useCallback(
+    (newProfileId: string) => {
+      setProfileId(newProfileId)
+      setModelId('')
+      const profile = availableProfiles.find((p) => p.id === newProfileId)
+      if (profile && !profile.builtIn) {
+        setPermission(
+          profile.permissionPolicy === 'supervised' ? 'ask' : 'auto',
+        )
+      }
+    },
+    [availableProfiles],
+  )
 
   useEffect(() => {
-    setStatusId(initialStatusId ?? firstStatusId)
-  }, [initialStatusId, firstStatusId])
+    setStatusId(initialStatusId)
+  }, [initialStatusId])
 
   useEffect(() => {
     if (autoFocus) {
@@ -138,13 +160,14 @@ export function CreateIssueForm({
         useWorktree,
         parentIssueId,
         engineType: resolvedEngineType || undefined,
+        engineProfileId: selectedProfile?.id,
         model: modelId || undefined,
         permissionMode: permissionMap[permission],
       },
       {
         onSuccess: () => {
           setInput('')
-          setEngineType('')
+          setProfileId('')
           setModelId('')
           setPriority('medium')
           setPermission('auto')
@@ -161,6 +184,7 @@ export function CreateIssueForm({
     useWorktree,
     parentIssueId,
     resolvedEngineType,
+    selectedProfile,
     modelId,
     createIssue,
     onCreated,
@@ -214,7 +238,7 @@ export function CreateIssueForm({
         <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
           <PropertyRow label={t('issue.status')}>
             <StatusSelect
-              statuses={STATUSES}
+              statuses={statuses}
               value={statusId}
               onChange={setStatusId}
             />
@@ -228,9 +252,9 @@ export function CreateIssueForm({
           <PropertyRow label={t('createIssue.engine')}>
             <EngineSelect
               engines={installedEngines}
-              profiles={profiles ?? []}
-              value={engineType}
-              onChange={handleEngineChange}
+              profiles={availableProfiles}
+              value={profileId}
+              onChange={handleProfileChange}
             />
           </PropertyRow>
           <PropertyRow label={t('createIssue.model')}>
@@ -409,6 +433,7 @@ function PrioritySelect({
   )
 }
 
+/** Picks an engine profile by id; '' follows the default engine. */
 function EngineSelect({
   engines,
   profiles,
@@ -423,10 +448,11 @@ function EngineSelect({
   const { t } = useTranslation()
 
   const isDefault = !value
-  const currentProfile = profiles.find((p) => p.engineType === value)
+  const currentProfile = profiles.find((p) => p.id === value)
   const currentName = isDefault
     ? t('createIssue.modelDefault')
     : (currentProfile?.name ?? value)
+  const customProfiles = profiles.filter((p) => !p.builtIn)
 
   return (
     <DropdownMenu>
@@ -435,9 +461,9 @@ function EngineSelect({
           type="button"
           className="flex items-center gap-1.5 text-sm hover:text-foreground transition-colors w-full"
         >
-          {value ? (
+          {currentProfile ? (
             <EngineIcon
-              engineType={value}
+              engineType={currentProfile.engineType}
               className="h-3.5 w-3.5 text-muted-foreground shrink-0"
             />
           ) : null}
@@ -455,29 +481,52 @@ function EngineSelect({
             ({t('createIssue.modelDefaultHint')})
           </span>
         </DropdownMenuItem>
-        {engines.map((a) => {
-          const profile = profiles.find((p) => p.engineType === a.engineType)
-          return (
-            <DropdownMenuItem
-              key={a.engineType}
-              onSelect={() => onChange(a.engineType)}
-              className={a.engineType === value ? 'bg-accent/50' : ''}
-            >
-              <EngineIcon
-                engineType={a.engineType}
-                className="h-3.5 w-3.5 text-muted-foreground shrink-0"
-              />
-              <span className="font-medium">
-                {profile?.name ?? a.engineType}
-              </span>
-              {a.version ? (
-                <span className="text-[10px] text-muted-foreground ml-1">
-                  v{a.version}
-                </span>
-              ) : null}
-            </DropdownMenuItem>
-          )
-        })}
+        {profiles
+          .filter((p) => p.builtIn)
+          .map((profile) => {
+            const engine = engines.find(
+              (a) => a.engineType === profile.engineType,
+            )
+            return (
+              <DropdownMenuItem
+                key={profile.id}
+                onSelect={() => onChange(profile.id)}
+                className={profile.id === value ? 'bg-accent/50' : ''}
+              >
+                <EngineIcon
+                  engineType={profile.engineType}
+                  className="h-3.5 w-3.5 text-muted-foreground shrink-0"
+                />
+                <span className="font-medium">{profile.name}</span>
+                {engine?.version ? (
+                  <span className="text-[10px] text-muted-foreground ml-1">
+                    v{engine.version}
+                  </span>
+                ) : null}
+              </DropdownMenuItem>
+            )
+          })}
+        {customProfiles.length > 0 ? (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel className="text-xs font-semibold text-muted-foreground">
+              {t('createIssue.customProfiles')}
+            </DropdownMenuLabel>
+            {customProfiles.map((profile) => (
+              <DropdownMenuItem
+                key={profile.id}
+                onSelect={() => onChange(profile.id)}
+                className={profile.id === value ? 'bg-accent/50' : ''}
+              >
+                <EngineIcon
+                  engineType={profile.engineType}
+                  className="h-3.5 w-3.5 text-muted-foreground shrink-0"
+                />
+                <span className="font-medium truncate">{profile.name}</span>
+              </DropdownMenuItem>
+            ))}
+          </>
+        ) : null}
       </DropdownMenuContent>
     </DropdownMenu>
   )
@@ -1,8 +1,13 @@
 import { DragDropProvider } from '@dnd-kit/react'
 import { useEffect, useMemo } from 'react'
 import { useTranslation } from 'react-i18next'
-import { useBulkUpdateIssues, useIssues } from '@/hooks/use-kanban'
-import { STATUSES } from '@/lib/statuses'
+import {
+  useBulkUpdateIssues,
+  useIssues,
+  useProjectDependencies,
+  useProjectStatuses,
+} from '@/hooks/use-kanban'
+import { isDependencyResolved } from '@/lib/statuses'
 import { useBoardStore } from '@/stores/board-store'
 import { useSelectedIssueId } from '@/stores/panel-store'
 import type { Issue } from '@/types/kanban'
@@ -19,6 +24,9 @@ export function KanbanBoard({
 }) {
   const { t } = useTranslation()
   const { data: issues, isLoading: issuesLoading } = useIssues(projectId)
+  const { data: statuses, isLoading: statusesLoading } =
+    useProjectStatuses(projectId)
+  const { data: dependencies } = useProjectDependencies(projectId)
   const bulkUpdate = useBulkUpdateIssues(projectId)
 
   const { groupedItems, syncFromServer, applyDragOver, applyDragEnd } =
@@ -26,14 +34,14 @@ export function KanbanBoard({
   const selectedIssueId = useSelectedIssueId()
 
   useEffect(() => {
-    if (!issues) return
-    syncFromServer(issues)
-  }, [issues, syncFromServer])
+    if (!issues || !statuses) return
+    syncFromServer(issues, statuses)
+  }, [issues, statuses, syncFromServer])
 
   const issuesByStatus = useMemo(() => {
     const map = new Map<string, Issue[]>()
     const query = searchQuery?.trim().toLowerCase()
-    for (const status of STATUSES) {
+    for (const status of statuses ?? []) {
       let items = groupedItems[status.id] ?? []
       if (query) {
         items = items.filter(
@@ -45,9 +53,22 @@ export function KanbanBoard({
       map.set(status.id, items)
     }
     return map
-  }, [groupedItems, searchQuery])
+  }, [groupedItems, searchQuery, statuses])
 
-  if (issuesLoading) {
+  // Number of unfinished upstream issues per blocked issue
+  const blockerCounts = useMemo(() => {
+    const counts = new Map<string, number>()
+    if (!issues || !statuses || !dependencies) return counts
+    const byId = new Map(issues.map((issue) => [issue.id, issue]))
+    for (const dep of dependencies) {
+      const upstream = byId.get(dep.dependsOnIssueId)
+      if (!upstream || isDependencyResolved(statuses, upstream)) continue
+      counts.set(dep.issueId, (counts.get(dep.issueId) ?? 0) + 1)
+    }
+    return counts
+  }, [issues, statuses, dependencies])
+
+  if (issuesLoading || statusesLoading) {
     return (
       <div className="flex items-center justify-center py-20">
         <div className="text-sm text-muted-foreground">
@@ -68,11 +89,12 @@ export function KanbanBoard({
       }}
     >
       <div className="flex h-full gap-3 overflow-x-auto p-3 snap-x snap-mandatory md:snap-none">
-        {STATUSES.map((status) => (
+        {statuses?.map((status) => (
           <KanbanColumn
             key={status.id}
             status={status}
             issues={issuesByStatus.get(status.id) ?? []}
+            blockerCounts={blockerCounts}
             selectedIssueId={selectedIssueId}
             onCardClick={onCardClick}
           />
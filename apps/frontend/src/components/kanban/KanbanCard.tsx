@@ -1,22 +1,53 @@
 import { useSortable } from '@dnd-kit/react/sortable'
-import { GitBranchPlus } from 'lucide-react'
+import {
+  CheckCircle2,
+  GitBranchPlus,
+  Hourglass,
+  Loader2,
+  Lock,
+  XCircle,
+} from 'lucide-react'
 import { memo } from 'react'
-import type { Issue } from '@/types/kanban'
+import { useTranslation } from 'react-i18next'
+import { useQueuePosition } from '@/hooks/use-kanban'
+import type { Issue, VerifyStatus } from '@/types/kanban'
 import { PriorityIcon } from './PriorityIcon'
 
+const VERIFY_BADGES: Record<
+  VerifyStatus,
+  { Icon: typeof CheckCircle2; className: string }
+> = {
+  running: {
+    Icon: Loader2,
+    className: 'bg-muted text-muted-foreground [&_svg]:animate-spin',
+  },
+  passed: {
+    Icon: CheckCircle2,
+    className: 'bg-emerald-500/10 text-emerald-600 dark:text-emerald-400',
+  },
+  failed: {
+    Icon: XCircle,
+    className: 'bg-destructive/10 text-destructive',
+  },
+}
+
 export const KanbanCard = memo(function KanbanCard({
   issue,
   index,
   columnStatusId,
+  blockerCount = 0,
   isSelected,
   onCardClick,
 }: {
   issue: Issue
   index: number
   columnStatusId: string
+  blockerCount?: number
   isSelected?: boolean
   onCardClick?: (issue: Issue) => void
 }) {
+  const { t } = useTranslation()
+  const { data: queuePosition } = useQueuePosition(issue.id)
   const { ref, isDragging } = useSortable({
     id: issue.id,
     index,
@@ -24,6 +55,9 @@ export const KanbanCard = memo(function KanbanCard({
     type: 'item',
     data: { issue },
   })
+  const verifyBadge = issue.verifyStatus
+    ? VERIFY_BADGES[issue.verifyStatus]
+    : null
 
   return (
     <div
@@ -53,11 +87,45 @@ export const KanbanCard = memo(function KanbanCard({
         {issue.title}
       </p>
 
-      {/* Sub-issue count badge */}
-      {issue.childCount && issue.childCount > 0 ? (
-        <div className="mt-1.5 flex items-center gap-1 text-[10px] text-muted-foreground/60">
-          <GitBranchPlus className="h-3 w-3" />
-          <span>{issue.childCount}</span>
+      {/* Sub-issue count, blocked, queued and verification badges */}
+      {(issue.childCount && issue.childCount > 0) ||
+      blockerCount > 0 ||
+      queuePosition ||
+      verifyBadge ? (
+        <div className="mt-1.5 flex items-center gap-2 text-[10px] text-muted-foreground/60">
+          {issue.childCount && issue.childCount > 0 ? (
+            <span className="flex items-center gap-1">
+              <GitBranchPlus className="h-3 w-3" />
+              <span>{issue.childCount}</span>
+            </span>
+          ) : null}
+          {blockerCount > 0 ? (
+            <span
+              className="flex items-center gap-1 rounded bg-amber-500/10 px-1 py-px text-amber-600 dark:text-amber-400"
+              title={t('kanban.blockedBy', { count: blockerCount })}
+            >
+              <Lock className="h-3 w-3" />
+              <span>{t('kanban.blocked')}</span>
+            </span>
+          ) : null}
+          {queuePosition ? (
+            <span
+              className="flex items-center gap-1 rounded bg-sky-500/10 px-1 py-px text-sky-600 dark:text-sky-400"
+              title={t('kanban.queuedHint')}
+            >
+              <Hourglass className="h-3 w-3" />
+              <span>{t('kanban.queued', { position: queuePosition })}</span>
+            </span>
+          ) : null}
+          {verifyBadge && issue.verifyStatus ? (
+            <span
+              className={`flex items-center gap-1 rounded px-1 py-px ${verifyBadge.className}`}
+              title={t('kanban.verifyHint')}
+            >
+              <verifyBadge.Icon className="h-3 w-3" />
+              <span>{t(`kanban.verify.${issue.verifyStatus}`)}</span>
+            </span>
+          ) : null}
         </div>
       ) : null}
     </div>
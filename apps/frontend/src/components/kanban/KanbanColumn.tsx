@@ -14,11 +14,13 @@ import { KanbanCard } from './KanbanCard'
 export function KanbanColumn({
   status,
   issues,
+  blockerCounts,
   selectedIssueId,
   onCardClick,
 }: {
   status: StatusDefinition
   issues: Issue[]
+  blockerCounts?: Map<string, number>
   selectedIssueId?: string | null
   onCardClick?: (issue: Issue) => void
 }) {
@@ -79,6 +81,7 @@ export function KanbanColumn({
             issue={issue}
             index={index}
             columnStatusId={status.id}
+            blockerCount={blockerCounts?.get(issue.id) ?? 0}
             isSelected={selectedIssueId === issue.id}
             onCardClick={onCardClick}
           />
@@ -1,19 +1,25 @@
 import {
+  CalendarClock,
+  ChartColumn,
   LayoutGrid,
   List,
   Plus,
   Search,
   Settings,
   SlidersHorizontal,
+  TextSearch,
 } from 'lucide-react'
 import { useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import { useNavigate } from 'react-router-dom'
+import { ProjectSchedulesDialog } from '@/components/ProjectSchedulesDialog'
 import { ProjectSettingsDialog } from '@/components/ProjectSettingsDialog'
+import { ProjectUsageDialog } from '@/components/ProjectUsageDialog'
 import { Button } from '@/components/ui/button'
 import { Separator } from '@/components/ui/separator'
 import { cn } from '@/lib/utils'
 import { usePanelStore } from '@/stores/panel-store'
+import { useSearchStore } from '@/stores/search-store'
 import { useViewModeStore } from '@/stores/view-mode-store'
 import type { Project } from '@/types/kanban'
 
@@ -35,8 +41,11 @@ export function KanbanHeader({
   const { t } = useTranslation()
   const navigate = useNavigate()
   const openCreateDialog = usePanelStore((s) => s.openCreateDialog)
+  const openSearch = useSearchStore((s) => s.open)
   const { mode, setMode } = useViewModeStore()
   const [showSettings, setShowSettings] = useState(false)
+  const [showUsage, setShowUsage] = useState(false)
+  const [showSchedules, setShowSchedules] = useState(false)
   const isListView = mode === 'list'
 
   return (
@@ -57,6 +66,33 @@ export function KanbanHeader({
           >
             <Settings className="h-3.5 w-3.5" />
           </button>
+          <button
+            type="button"
+            onClick={() => setShowUsage(true)}
+            className="rounded-md p-1 text-muted-foreground hover:text-foreground hover:bg-foreground/[0.07] transition-colors shrink-0"
+            aria-label={t('usage.title')}
+            title={t('usage.title')}
+          >
+            <ChartColumn className="h-3.5 w-3.5" />
+          </button>
+          <button
+            type="button"
+            onClick={() => setShowSchedules(true)}
+            className="rounded-md p-1 text-muted-foreground hover:text-foreground hover:bg-foreground/[0.07] transition-colors shrink-0"
+            aria-label={t('schedule.title')}
+            title={t('schedule.title')}
+          >
+            <CalendarClock className="h-3.5 w-3.5" />
+          </button>
+          <button
+            type="button"
+            onClick={openSearch}
+            className="rounded-md p-1 text-muted-foreground hover:text-foreground hover:bg-foreground/[0.07] transition-colors shrink-0"
+            aria-label={t('search.shortcut')}
+            title={t('search.shortcut')}
+          >
+            <TextSearch className="h-3.5 w-3.5" />
+          </button>
           <span className="text-xs text-muted-foreground tabular-nums hidden md:inline">
             {t('project.issueCount', { count: issueCount })}
           </span>
@@ -139,6 +175,16 @@ export function KanbanHeader({
         onOpenChange={setShowSettings}
         project={project}
       />
+      <ProjectUsageDialog
+        open={showUsage}
+        onOpenChange={setShowUsage}
+        project={project}
+      />
+      <ProjectSchedulesDialog
+        open={showSchedules}
+        onOpenChange={setShowSchedules}
+        project={project}
+      />
     </div>
   )
 }
@@ -26,8 +26,17 @@ function encodeResize(cols: number, rows: number): ArrayBuffer {
 
 // --- API helpers ---
 
+// Sessions opened inside a project start in its directory with its env vars
+function currentProjectId(): string | undefined {
+  return location.pathname.match(/^\/projects\/([^/]+)/)?.[1]
+}
+
 async function createSession(): Promise<string> {
-  const res = await fetch('/api/terminal', { method: 'POST' })
+  const res = await fetch('/api/terminal', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ projectId: currentProjectId() }),
+  })
   const json = await res.json()
   if (!json.success) throw new Error(json.error)
   return json.data.id as string
@@ -0,0 +1,108 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useEffect } from 'react'
+import { kanbanApi, onUnauthorized } from '@/lib/kanban-api'
+import type { AuthStatus, UserRole } from '@/types/kanban'
+import { queryKeys } from './use-kanban'
+
+/**
+ * Server auth state: whether login is required and who is signed in.
+ * Any 401 from the API (expired or revoked session) triggers a refetch,
+ * which drops the app back to the login page.
+ */
+export function useAuthStatus() {
+  const queryClient = useQueryClient()
+
+  useEffect(() => {
+    return onUnauthorized(() => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.authStatus() })
+    })
+  }, [queryClient])
+
+  return useQuery({
+    queryKey: queryKeys.authStatus(),
+    queryFn: () => kanbanApi.getAuthStatus(),
+    staleTime: Number.POSITIVE_INFINITY,
+  })
+}
+
+function useSessionMutation(
+  mutationFn: (args: { username: string; password: string }) => Promise<{
+    user: AuthStatus['user']
+  }>,
+) {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn,
+    onSuccess: ({ user }) => {
+      queryClient.setQueryData<AuthStatus>(queryKeys.authStatus(), {
+        authEnabled: true,
+        needsSetup: false,
+        user,
+      })
+    },
+  })
+}
+
+export function useLogin() {
+  return useSessionMutation(({ username, password }) =>
+    kanbanApi.login(username, password),
+  )
+}
+
+/** Create the first admin account, which turns auth on. */
+export function useSetupAuth() {
+  return useSessionMutation(({ username, password }) =>
+    kanbanApi.setupAuth(username, password),
+  )
+}
+
+export function useLogout() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: () => kanbanApi.logout(),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: queryKeys.authStatus() })
+      // Drop the previous user's cached data
+      queryClient.removeQueries({ predicate: (q) => q.queryKey[0] !== 'auth' })
+    },
+  })
+}
+
+export function useChangePassword() {
+  return useMutation({
+    mutationFn: (args: { currentPassword: string; newPassword: string }) =>
+      kanbanApi.changePassword(args.currentPassword, args.newPassword),
+  })
+}
+
+export function useUsers(enabled = false) {
+  return useQuery({
+    queryKey: queryKeys.users(),
+    queryFn: () => kanbanApi.listUsers(),
+    enabled,
+  })
+}
+
+export function useCreateUser() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (data: {
+      username: string
+      password: string
+      role: UserRole
+    }) => kanbanApi.createUser(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.users() })
+    },
+  })
+}
+
+export function useDeleteUser() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (id: string) => kanbanApi.deleteUser(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.users() })
+    },
+  })
+}
@@ -0,0 +1,57 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useEffect } from 'react'
+import { eventBus } from '@/lib/event-bus'
+import { kanbanApi } from '@/lib/kanban-api'
+import type { ApprovalDecision, ToolApproval } from '@/types/kanban'
+import { queryKeys } from './use-kanban'
+
+/**
+ * Pending tool approvals for an issue running in supervised mode.
+ *
+ * Initial list comes from the REST `/approvals` endpoint; SSE
+ * `approval-request` / `approval-resolved` events patch the cached list
+ * so cards appear and disappear without refetching.
+ */
+export function useIssueApprovals(projectId: string, issueId: string) {
+  const queryClient = useQueryClient()
+  const queryKey = queryKeys.issueApprovals(projectId, issueId)
+
+  const { data: approvals = [] } = useQuery({
+    queryKey,
+    queryFn: () => kanbanApi.getIssueApprovals(projectId, issueId),
+    enabled: !!projectId && !!issueId,
+  })
+
+  useEffect(() => {
+    if (!projectId || !issueId) return
+    const key = queryKeys.issueApprovals(projectId, issueId)
+    return eventBus.onApproval((approval) => {
+      if (approval.issueId !== issueId) return
+      queryClient.setQueryData<ToolApproval[]>(key, (prev = []) => {
+        const rest = prev.filter((a) => a.id !== approval.id)
+        return approval.status === 'pending' ? [...rest, approval] : rest
+      })
+    })
+  }, [projectId, issueId, queryClient])
+
+  const resolve = useMutation({
+    mutationFn: (args: { requestId: string; decision: ApprovalDecision }) =>
+      kanbanApi.resolveApproval(
+        projectId,
+        issueId,
+        args.requestId,
+        args.decision,
+      ),
+    onSettled: () => {
+      // Also covers 409s for requests that timed out in the meantime
+      queryClient.invalidateQueries({ queryKey })
+    },
+  })
+
+  return {
+    approvals,
+    resolveApproval: (requestId: string, decision: ApprovalDecision) =>
+      resolve.mutate({ requestId, decision }),
+    resolvingId: resolve.isPending ? resolve.variables?.requestId : undefined,
+  }
+}
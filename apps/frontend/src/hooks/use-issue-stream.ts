@@ -25,6 +25,8 @@ interface UseIssueStreamReturn {
     content: string,
     metadata?: Record<string, unknown>,
   ) => void
+  /** Drop entries from `fromMessageId` up to (not including) `untilMessageId` */
+  dropRange: (fromMessageId: string, untilMessageId?: string | null) => void
 }
 
 const TERMINAL: Set<string> = new Set(['completed', 'failed', 'cancelled'])
@@ -187,6 +189,23 @@ export function useIssueStream({
     [appendEntry],
   )
 
+  /** Remove entries a rewind hid on the server */
+  const dropRange = useCallback(
+    (fromMessageId: string, untilMessageId?: string | null) => {
+      const dropped = (entry: NormalizedLogEntry) =>
+        !!entry.messageId &&
+        entry.messageId >= fromMessageId &&
+        (!untilMessageId || entry.messageId < untilMessageId)
+      const keep = (entries: NormalizedLogEntry[]) => {
+        const kept = entries.filter((entry) => !dropped(entry))
+        return kept.length === entries.length ? entries : kept
+      }
+      setLiveLogs(keep)
+      setOlderLogs(keep)
+    },
+    [],
+  )
+
   /** Load older logs into the separate olderLogs array (no cap) */
   const loadOlderLogs = useCallback(() => {
     if (!issueId || !olderCursorRef.current || isLoadingOlder) return
@@ -317,7 +336,13 @@ export function useIssueStream({
 
     cleanup.unsub = eventBus.subscribe(issueId, {
       onLog: (entry) => {
-        if (doneReceivedRef.current) return
+        // Verification results arrive after the turn has settled
+        if (
+          doneReceivedRef.current &&
+          entry.metadata?.subtype !== 'verification'
+        ) {
+          return
+        }
         appendEntry(entry)
       },
       onState: (data) => {
@@ -369,5 +394,6 @@ export function useIssueStream({
     loadOlderLogs,
     clearLogs,
     appendServerMessage,
+    dropRange,
   }
 }
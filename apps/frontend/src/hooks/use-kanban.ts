@@ -1,7 +1,27 @@
-import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import {
+  keepPreviousData,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from '@tanstack/react-query'
 import { kanbanApi } from '@/lib/kanban-api'
 import { useBoardStore } from '@/stores/board-store'
-import type { ExecuteIssueRequest, Issue } from '@/types/kanban'
+import type {
+  ApprovalPolicy,
+  BudgetLimits,
+  CompareRequest,
+  EngineProfileInput,
+  ExecuteIssueRequest,
+  GuardrailInput,
+  Issue,
+  McpServerInput,
+  MergeStrategy,
+  ProjectEnvVarInput,
+  ScheduleInput,
+  StatusDefinition,
+  VerifyCommandInput,
+  WebhookInput,
+} from '@/types/kanban'
 
 export const queryKeys = {
   workspacePath: () => ['settings', 'workspacePath'] as const,
@@ -10,6 +30,31 @@ export const queryKeys = {
   engineSettings: () => ['engines', 'settings'] as const,
   projects: () => ['projects'] as const,
   project: (id: string) => ['projects', id] as const,
+  projectStatuses: (projectId: string) =>
+    ['projects', projectId, 'statuses'] as const,
+  projectDependencies: (projectId: string) =>
+    ['projects', projectId, 'dependencies'] as const,
+  projectUsage: (projectId: string, days?: number) =>
+    ['projects', projectId, 'usage', days ?? 'all'] as const,
+  projectBudget: (projectId: string) =>
+    ['projects', projectId, 'budget'] as const,
+  schedules: (projectId: string) =>
+    ['projects', projectId, 'schedules'] as const,
+  scheduleRuns: (projectId: string, scheduleId: string) =>
+    ['projects', projectId, 'schedules', scheduleId, 'runs'] as const,
+  webhooks: (projectId: string) => ['projects', projectId, 'webhooks'] as const,
+  webhookDeliveries: (projectId: string, webhookId: string) =>
+    ['projects', projectId, 'webhooks', webhookId, 'deliveries'] as const,
+  projectEnv: (projectId: string) => ['projects', projectId, 'env'] as const,
+  mcpServers: (projectId: string) =>
+    ['projects', projectId, 'mcp-servers'] as const,
+  guardrails: (projectId: string) =>
+    ['projects', projectId, 'guardrails'] as const,
+  verifyCommands: (projectId: string) =>
+    ['projects', projectId, 'verify-commands'] as const,
+  executionQueue: () => ['execution-queue'] as const,
+  search: (query: string, projectId?: string, types?: string[]) =>
+    ['search', query, projectId ?? 'all', types?.join(',') ?? 'all'] as const,
   issues: (projectId: string) => ['projects', projectId, 'issues'] as const,
   issue: (projectId: string, issueId: string) =>
     ['projects', projectId, 'issues', issueId] as const,
@@ -25,8 +70,70 @@ export const queryKeys = {
       'file',
       path,
     ] as const,
+  issueUsage: (projectId: string, issueId: string) =>
+    ['projects', projectId, 'issues', issueId, 'usage'] as const,
+  issueBudget: (projectId: string, issueId: string) =>
+    ['projects', projectId, 'issues', issueId, 'budget'] as const,
+  issueBranch: (projectId: string, issueId: string, branchId: string) =>
+    ['projects', projectId, 'issues', issueId, 'branches', branchId] as const,
+  issueCheckpoints: (projectId: string, issueId: string) =>
+    ['projects', projectId, 'issues', issueId, 'checkpoints'] as const,
+  issueCheckpointDiff: (
+    projectId: string,
+    issueId: string,
+    from: string,
+    to: string | null,
+  ) =>
+    [
+      'projects',
+      projectId,
+      'issues',
+      issueId,
+      'checkpoints',
+      'diff',
+      from,
+      to ?? 'workspace',
+    ] as const,
+  issueCheckpointFilePatch: (
+    projectId: string,
+    issueId: string,
+    from: string,
+    to: string | null,
+    path: string,
+  ) =>
+    [
+      'projects',
+      projectId,
+      'issues',
+      issueId,
+      'checkpoints',
+      'diff',
+      from,
+      to ?? 'workspace',
+      'file',
+      path,
+    ] as const,
+  issueComparison: (projectId: string, issueId: string) =>
+    ['projects', projectId, 'issues', issueId, 'compare'] as const,
+  issueWorktree: (projectId: string, issueId: string) =>
+    ['projects', projectId, 'issues', issueId, 'worktree'] as const,
+  issueWorktreeFilePatch: (projectId: string, issueId: string, path: string) =>
+    [
+      'projects',
+      projectId,
+      'issues',
+      issueId,
+      'worktree',
+      'file',
+      path,
+    ] as const,
   childIssues: (projectId: string, parentId: string) =>
     ['projects', projectId, 'issues', 'children', parentId] as const,
+  issueApprovals: (projectId: string, issueId: string) =>
+    ['projects', projectId, 'issues', issueId, 'approvals'] as const,
+  approvalPolicy: () => ['settings', 'approvalPolicy'] as const,
+  authStatus: () => ['auth', 'status'] as const,
+  users: () => ['auth', 'users'] as const,
   slashCommands: (projectId: string, issueId: string) =>
     ['projects', projectId, 'issues', issueId, 'slash-commands'] as const,
   projectFiles: (projectId: string, path: string) =>
@@ -65,6 +172,7 @@ export function useUpdateProject() {
       description?: string
       directory?: string
       repositoryUrl?: string
+      verifyFixAttempts?: number
     }) => {
       const { id, ...rest } = data
       return kanbanApi.updateProject(id, rest)
@@ -96,6 +204,415 @@ export function useProject(projectId: string) {
   })
 }
 
+/** Workflow columns for a project, in board order. */
+export function useProjectStatuses(projectId: string) {
+  return useQuery({
+    queryKey: queryKeys.projectStatuses(projectId),
+    queryFn: () => kanbanApi.getProjectStatuses(projectId),
+    enabled: !!projectId,
+    staleTime: 1000 * 60 * 5,
+  })
+}
+
+export function useUpdateProjectStatuses(projectId: string) {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (statuses: Array<Omit<StatusDefinition, 'sortOrder'>>) =>
+      kanbanApi.updateProjectStatuses(projectId, statuses),
+    onSuccess: (data) => {
+      queryClient.setQueryData(queryKeys.projectStatuses(projectId), data)
+    },
+  })
+}
+
+export function useProjectDependencies(projectId: string) {
+  return useQuery({
+    queryKey: queryKeys.projectDependencies(projectId),
+    queryFn: () => kanbanApi.getProjectDependencies(projectId),
+    enabled: !!projectId,
+  })
+}
+
+export function useProjectUsage(projectId: string, days?: number) {
+  return useQuery({
+    queryKey: queryKeys.projectUsage(projectId, days),
+    queryFn: () => kanbanApi.getProjectUsage(projectId, days),
+    enabled: !!projectId,
+  })
+}
+
+export function useProjectBudget(projectId: string) {
+  return useQuery({
+    queryKey: queryKeys.projectBudget(projectId),
+    queryFn: () => kanbanApi.getProjectBudget(projectId),
+    enabled: !!projectId,
+  })
+}
+
+export function useUpdateProjectBudget(projectId: string) {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (limits: BudgetLimits) =>
+      kanbanApi.updateProjectBudget(projectId, limits),
+    onSuccess: (data) => {
+      queryClient.setQueryData(queryKeys.projectBudget(projectId), data)
+    },
+  })
+}
+
+export function useSchedules(projectId: string) {
+  return useQuery({
+    queryKey: queryKeys.schedules(projectId),
+    queryFn: () => kanbanApi.getSchedules(projectId),
+    enabled: !!projectId,
+  })
+}
+
+/** 1-based place of the issue in the execution queue, or null when not queued */
+export function useQueuePosition(issueId: string) {
+  return useQuery({
+    queryKey: queryKeys.executionQueue(),
+    queryFn: () => kanbanApi.getExecutionQueue(),
+    select: (queue) =>
+      queue.find((q) => q.issueId === issueId)?.position ?? null,
+  })
+}
+
+/** Full-text matches across issues and transcripts; idle while `query` is blank */
+export function useSearch(
+  query: string,
+  opts: { projectId?: string; types?: string[] } = {},
+) {
+  const q = query.trim()
+  return useQuery({
+    queryKey: queryKeys.search(q, opts.projectId, opts.types),
+    queryFn: () => kanbanApi.search(q, { ...opts, limit: 30 }),
+    enabled: q.length > 0,
+    // Keep the last results on screen while the next keystroke loads
+    placeholderData: keepPreviousData,
+    staleTime: 30_000,
+  })
+}
+
+export function useScheduleRuns(projectId: string, scheduleId: string) {
+  return useQuery({
+    queryKey: queryKeys.scheduleRuns(projectId, scheduleId),
+    queryFn: () => kanbanApi.getScheduleRuns(projectId, scheduleId),
+    enabled: !!projectId && !!scheduleId,
+  })
+}
+
+export function useCreateSchedule(projectId: string) {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (data: ScheduleInput) =>
+      kanbanApi.createSchedule(projectId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.schedules(projectId),
+      })
+    },
+  })
+}
+
+export function useUpdateSchedule(projectId: string) {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: ({ id, ...data }: { id: string } & Partial<ScheduleInput>) =>
+      kanbanApi.updateSchedule(projectId, id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.schedules(projectId),
+      })
+    },
+  })
+}
+
+export function useDeleteSchedule(projectId: string) {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (id: string) => kanbanApi.deleteSchedule(projectId, id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.schedules(projectId),
+      })
+    },
+  })
+}
+
+export function useRunSchedule(projectId: string) {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (id: string) => kanbanApi.runSchedule(projectId, id),
+    onSuccess: () => {
+      // Runs and newly created issues
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.schedules(projectId),
+      })
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.issues(projectId),
+      })
+    },
+  })
+}
+
+export function useWebhooks(projectId: string) {
+  return useQuery({
+    queryKey: queryKeys.webhooks(projectId),
+    queryFn: () => kanbanApi.getWebhooks(projectId),
+    enabled: !!projectId,
+  })
+}
+
+export function useWebhookDeliveries(projectId: string, webhookId: string) {
+  return useQuery({
+    queryKey: queryKeys.webhookDeliveries(projectId, webhookId),
+    queryFn: () => kanbanApi.getWebhookDeliveries(projectId, webhookId),
+    enabled: !!projectId && !!webhookId,
+  })
+}
+
+export function useCreateWebhook(projectId: string) {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (data: WebhookInput) =>
+      kanbanApi.createWebhook(projectId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.webhooks(projectId),
+      })
+    },
+  })
+}
+
+export function useUpdateWebhook(projectId: string) {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: ({ id, ...data }: { id: string } & Partial<WebhookInput>) =>
+      kanbanApi.updateWebhook(projectId, id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.webhooks(projectId),
+      })
+    },
+  })
+}
+
+export function useDeleteWebhook(projectId: string) {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (id: string) => kanbanApi.deleteWebhook(projectId, id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.webhooks(projectId),
+      })
+    },
+  })
+}
+
+export function useRedeliverWebhook(projectId: string, webhookId: string) {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (deliveryId: string) =>
+      kanbanApi.redeliverWebhook(projectId, webhookId, deliveryId),
+    onSettled: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.webhookDeliveries(projectId, webhookId),
+      })
+    },
+  })
+}
+
+export function useProjectEnv(projectId: string) {
+  return useQuery({
+    queryKey: queryKeys.projectEnv(projectId),
+    queryFn: () => kanbanApi.getProjectEnv(projectId),
+    enabled: !!projectId,
+  })
+}
+
+export function useCreateProjectEnvVar(projectId: string) {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (data: ProjectEnvVarInput) =>
+      kanbanApi.createProjectEnvVar(projectId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.projectEnv(projectId),
+      })
+    },
+  })
+}
+
+export function useUpdateProjectEnvVar(projectId: string) {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: ({
+      id,
+      ...data
+    }: { id: string } & Partial<ProjectEnvVarInput>) =>
+      kanbanApi.updateProjectEnvVar(projectId, id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.projectEnv(projectId),
+      })
+    },
+  })
+}
+
+export function useDeleteProjectEnvVar(projectId: string) {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (id: string) => kanbanApi.deleteProjectEnvVar(projectId, id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.projectEnv(projectId),
+      })
+    },
+  })
+}
+
+export function useMcpServers(projectId: string) {
+  return useQuery({
+    queryKey: queryKeys.mcpServers(projectId),
+    queryFn: () => kanbanApi.getMcpServers(projectId),
+    enabled: !!projectId,
+  })
+}
+
+export function useCreateMcpServer(projectId: string) {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (data: McpServerInput) =>
+      kanbanApi.createMcpServer(projectId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.mcpServers(projectId),
+      })
+    },
+  })
+}
+
+export function useUpdateMcpServer(projectId: string) {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: ({ id, ...data }: { id: string } & Partial<McpServerInput>) =>
+      kanbanApi.updateMcpServer(projectId, id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.mcpServers(projectId),
+      })
+    },
+  })
+}
+
+export function useDeleteMcpServer(projectId: string) {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (id: string) => kanbanApi.deleteMcpServer(projectId, id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.mcpServers(projectId),
+      })
+    },
+  })
+}
+
+export function useGuardrails(projectId: string) {
+  return useQuery({
+    queryKey: queryKeys.guardrails(projectId),
+    queryFn: () => kanbanApi.getGuardrails(projectId),
+    enabled: !!projectId,
+  })
+}
+
+export function useCreateGuardrail(projectId: string) {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (data: GuardrailInput) =>
+      kanbanApi.createGuardrail(projectId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.guardrails(projectId),
+      })
+    },
+  })
+}
+
+export function useUpdateGuardrail(projectId: string) {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: ({ id, ...data }: { id: string } & Partial<GuardrailInput>) =>
+      kanbanApi.updateGuardrail(projectId, id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.guardrails(projectId),
+      })
+    },
+  })
+}
+
+export function useDeleteGuardrail(projectId: string) {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (id: string) => kanbanApi.deleteGuardrail(projectId, id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.guardrails(projectId),
+      })
+    },
+  })
+}
+
+export function useVerifyCommands(projectId: string) {
+  return useQuery({
+    queryKey: queryKeys.verifyCommands(projectId),
+    queryFn: () => kanbanApi.getVerifyCommands(projectId),
+    enabled: !!projectId,
+  })
+}
+
+export function useCreateVerifyCommand(projectId: string) {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (data: VerifyCommandInput) =>
+      kanbanApi.createVerifyCommand(projectId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.verifyCommands(projectId),
+      })
+    },
+  })
+}
+
+export function useUpdateVerifyCommand(projectId: string) {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: ({
+      id,
+      ...data
+    }: { id: string } & Partial<VerifyCommandInput>) =>
+      kanbanApi.updateVerifyCommand(projectId, id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.verifyCommands(projectId),
+      })
+    },
+  })
+}
+
+export function useDeleteVerifyCommand(projectId: string) {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (id: string) => kanbanApi.deleteVerifyCommand(projectId, id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.verifyCommands(projectId),
+      })
+    },
+  })
+}
+
 export function useIssues(projectId: string) {
   return useQuery({
     queryKey: queryKeys.issues(projectId),
@@ -137,6 +654,175 @@ export function useIssueFilePatch(
   })
 }
 
+export function useIssueUsage(projectId: string, issueId: string) {
+  return useQuery({
+    queryKey: queryKeys.issueUsage(projectId, issueId),
+    queryFn: () => kanbanApi.getIssueUsage(projectId, issueId),
+    enabled: !!projectId && !!issueId,
+  })
+}
+
+export function useIssueBudget(projectId: string, issueId: string) {
+  return useQuery({
+    queryKey: queryKeys.issueBudget(projectId, issueId),
+    queryFn: () => kanbanApi.getIssueBudget(projectId, issueId),
+    enabled: !!projectId && !!issueId,
+  })
+}
+
+export function useUpdateIssueBudget(projectId: string, issueId: string) {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (limits: BudgetLimits) =>
+      kanbanApi.updateIssueBudget(projectId, issueId, limits),
+    onSuccess: (data) => {
+      queryClient.setQueryData(queryKeys.issueBudget(projectId, issueId), data)
+    },
+  })
+}
+
+export function useIssueWorktree(
+  projectId: string,
+  issueId: string,
+  enabled = true,
+) {
+  return useQuery({
+    queryKey: queryKeys.issueWorktree(projectId, issueId),
+    queryFn: () => kanbanApi.getIssueWorktree(projectId, issueId),
+    enabled: !!projectId && !!issueId && enabled,
+  })
+}
+
+export function useIssueWorktreeFilePatch(
+  projectId: string,
+  issueId: string,
+  path: string | null,
+  enabled = true,
+) {
+  return useQuery({
+    queryKey: queryKeys.issueWorktreeFilePatch(projectId, issueId, path ?? ''),
+    queryFn: () =>
+      kanbanApi.getIssueWorktreeFilePatch(projectId, issueId, path ?? ''),
+    enabled: !!projectId && !!issueId && !!path && enabled,
+  })
+}
+
+export function useMergeIssueWorktree(projectId: string, issueId: string) {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (data: { strategy: MergeStrategy; message?: string }) =>
+      kanbanApi.mergeIssueWorktree(projectId, issueId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.issueWorktree(projectId, issueId),
+      })
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.issueChanges(projectId, issueId),
+      })
+    },
+  })
+}
+
+export function useRemoveIssueWorktree(projectId: string, issueId: string) {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (force: boolean) =>
+      kanbanApi.removeIssueWorktree(projectId, issueId, force),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.issueWorktree(projectId, issueId),
+      })
+    },
+  })
+}
+
+export function useIssueCheckpoints(
+  projectId: string,
+  issueId: string,
+  enabled = true,
+) {
+  return useQuery({
+    queryKey: queryKeys.issueCheckpoints(projectId, issueId),
+    queryFn: () => kanbanApi.getIssueCheckpoints(projectId, issueId),
+    enabled: !!projectId && !!issueId && enabled,
+  })
+}
+
+/** Files changed from checkpoint `from` to `to` (null: the workspace now) */
+export function useIssueCheckpointDiff(
+  projectId: string,
+  issueId: string,
+  from: string | null,
+  to: string | null,
+) {
+  return useQuery({
+    queryKey: queryKeys.issueCheckpointDiff(projectId, issueId, from ?? '', to),
+    queryFn: () =>
+      kanbanApi.getIssueCheckpointDiff(projectId, issueId, from ?? '', to),
+    enabled: !!projectId && !!issueId && !!from,
+  })
+}
+
+export function useIssueCheckpointFilePatch(
+  projectId: string,
+  issueId: string,
+  range: { from: string; to: string | null } | null,
+  path: string,
+  enabled = true,
+) {
+  return useQuery({
+    queryKey: queryKeys.issueCheckpointFilePatch(
+      projectId,
+      issueId,
+      range?.from ?? '',
+      range?.to ?? null,
+      path,
+    ),
+    queryFn: () =>
+      kanbanApi.getIssueCheckpointFilePatch(
+        projectId,
+        issueId,
+        range?.from ?? '',
+        range?.to ?? null,
+        path,
+      ),
+    enabled: !!projectId && !!issueId && !!range && enabled,
+  })
+}
+
+export function useCreateIssueCheckpoint(projectId: string, issueId: string) {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (label?: string) =>
+      kanbanApi.createIssueCheckpoint(projectId, issueId, label),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.issueCheckpoints(projectId, issueId),
+      })
+    },
+  })
+}
+
+export function useRestoreIssueCheckpoint(projectId: string, issueId: string) {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (checkpointId: string) =>
+      kanbanApi.restoreIssueCheckpoint(projectId, issueId, checkpointId),
+    onSuccess: () => {
+      // The workspace changed under every diff view
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.issueCheckpoints(projectId, issueId),
+      })
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.issueChanges(projectId, issueId),
+      })
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.issueWorktree(projectId, issueId),
+      })
+    },
+  })
+}
+
 export function useChildIssues(projectId: string, parentIssueId: string) {
   return useQuery({
     queryKey: queryKeys.childIssues(projectId, parentIssueId),
@@ -155,6 +841,7 @@ export function useCreateIssue(projectId: string) {
       useWorktree?: boolean
       parentIssueId?: string
       engineType?: string
+      engineProfileId?: string
       model?: string
       permissionMode?: string
     }) => kanbanApi.createIssue(projectId, data),
@@ -318,6 +1005,96 @@ export function useRestartIssue(projectId: string) {
   })
 }
 
+/** Continue an issue's session from one assistant message in a sub-issue */
+export function useForkIssue(projectId: string, issueId: string) {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (data: { messageId: string; prompt: string; title?: string }) =>
+      kanbanApi.forkIssue(projectId, issueId, data),
+    onSuccess: (child) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.issues(projectId) })
+      if (child.parentIssueId) {
+        queryClient.invalidateQueries({
+          queryKey: queryKeys.childIssues(projectId, child.parentIssueId),
+        })
+        queryClient.invalidateQueries({
+          queryKey: queryKeys.issue(projectId, child.parentIssueId),
+        })
+      }
+    },
+  })
+}
+
+export function useComparison(
+  projectId: string,
+  issueId: string,
+  enabled = true,
+) {
+  return useQuery({
+    queryKey: queryKeys.issueComparison(projectId, issueId),
+    queryFn: () => kanbanApi.getComparison(projectId, issueId),
+    enabled: !!projectId && !!issueId && enabled,
+  })
+}
+
+/** Run the issue's prompt on several engines, each as a worktree sub-issue */
+export function useStartComparison(projectId: string, issueId: string) {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (data: CompareRequest) =>
+      kanbanApi.startComparison(projectId, issueId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.issues(projectId) })
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.childIssues(projectId, issueId),
+      })
+    },
+  })
+}
+
+export function usePickCompareWinner(projectId: string, issueId: string) {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (winnerId: string) =>
+      kanbanApi.pickCompareWinner(projectId, issueId, winnerId),
+    onSuccess: (data) => {
+      queryClient.setQueryData(
+        queryKeys.issueComparison(projectId, issueId),
+        data,
+      )
+      queryClient.invalidateQueries({ queryKey: queryKeys.issues(projectId) })
+    },
+  })
+}
+
+/** Replace a past user message; later entries move to an alternate branch */
+export function useRewindIssue(projectId: string, issueId: string) {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (data: { messageId: string; prompt: string }) =>
+      kanbanApi.rewindIssue(projectId, issueId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.issue(projectId, issueId),
+      })
+    },
+  })
+}
+
+export function useIssueBranch(
+  projectId: string,
+  issueId: string,
+  branchId: string | null,
+) {
+  return useQuery({
+    queryKey: queryKeys.issueBranch(projectId, issueId, branchId ?? ''),
+    queryFn: () => kanbanApi.getIssueBranch(projectId, issueId, branchId!),
+    enabled: !!projectId && !!issueId && !!branchId,
+    // A rewound branch never changes
+    staleTime: Infinity,
+  })
+}
+
 export function useCancelIssue(projectId: string) {
   const queryClient = useQueryClient()
   return useMutation({
@@ -371,6 +1148,41 @@ export function useEngineProfiles(enabled = false) {
   })
 }
 
+export function useCreateEngineProfile() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (data: EngineProfileInput) =>
+      kanbanApi.createEngineProfile(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.engineProfiles() })
+    },
+  })
+}
+
+export function useUpdateEngineProfile() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: ({
+      id,
+      ...data
+    }: { id: string } & Partial<Omit<EngineProfileInput, 'engineType'>>) =>
+      kanbanApi.updateEngineProfile(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.engineProfiles() })
+    },
+  })
+}
+
+export function useDeleteEngineProfile() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (id: string) => kanbanApi.deleteEngineProfile(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.engineProfiles() })
+    },
+  })
+}
+
 export function useEngineSettings(enabled = false) {
   return useQuery({
     queryKey: queryKeys.engineSettings(),
@@ -438,6 +1250,25 @@ export function useUpdateWorkspacePath() {
   })
 }
 
+export function useApprovalPolicy(enabled = false) {
+  return useQuery({
+    queryKey: queryKeys.approvalPolicy(),
+    queryFn: () => kanbanApi.getApprovalPolicy(),
+    enabled,
+  })
+}
+
+export function useUpdateApprovalPolicy() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (policy: ApprovalPolicy) =>
+      kanbanApi.updateApprovalPolicy(policy),
+    onSuccess: (data) => {
+      queryClient.setQueryData(queryKeys.approvalPolicy(), data)
+    },
+  })
+}
+
 // --- File Browser hooks ---
 
 export function useProjectFiles(
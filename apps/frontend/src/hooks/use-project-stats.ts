@@ -1,11 +1,11 @@
-import { STATUSES } from '@/lib/statuses'
-import { useIssues } from './use-kanban'
+import { useIssues, useProjectStatuses } from './use-kanban'
 
 export function useProjectStats(projectId: string) {
   const { data: issues } = useIssues(projectId)
+  const { data: statuses } = useProjectStatuses(projectId)
 
   return {
     issueCount: issues?.length ?? 0,
-    statusCount: STATUSES.length,
+    statusCount: statuses?.length ?? 0,
   }
 }
@@ -1,4 +1,8 @@
-import type { NormalizedLogEntry, SessionStatus } from '@/types/kanban'
+import type {
+  NormalizedLogEntry,
+  SessionStatus,
+  ToolApproval,
+} from '@/types/kanban'
 
 export interface IssueEventHandler {
   onLog: (entry: NormalizedLogEntry) => void
@@ -18,6 +22,7 @@ type IssueUpdatedListener = (data: {
   changes: Record<string, unknown>
 }) => void
 type ChangesSummaryListener = (data: ChangesSummaryData) => void
+type ApprovalListener = (approval: ToolApproval) => void
 type IssueActivityListener = (issueId: string) => void
 type ConnectionListener = (connected: boolean) => void
 
@@ -33,6 +38,7 @@ class EventBus {
   private handlers = new Map<string, Set<IssueEventHandler>>()
   private issueUpdatedListeners = new Set<IssueUpdatedListener>()
   private changesSummaryListeners = new Set<ChangesSummaryListener>()
+  private approvalListeners = new Set<ApprovalListener>()
   private issueActivityListeners = new Set<IssueActivityListener>()
   private connectionListeners = new Set<ConnectionListener>()
   private reconnectTimer: ReturnType<typeof setTimeout> | null = null
@@ -133,6 +139,25 @@ class EventBus {
       }
     })
 
+    // Tool approval requested or answered (supervised mode)
+    const handleApproval = (e: MessageEvent) => {
+      try {
+        const data = JSON.parse(e.data) as ToolApproval
+        for (const cb of this.approvalListeners) {
+          try {
+            cb(data)
+          } catch {
+            /* ignore */
+          }
+        }
+        this.notifyActivity(data.issueId)
+      } catch {
+        /* ignore parse errors */
+      }
+    }
+    es.addEventListener('approval-request', handleApproval)
+    es.addEventListener('approval-resolved', handleApproval)
+
     // Reset watchdog on heartbeat — server sends every 15s
     es.addEventListener('heartbeat', () => {
       this.resetHeartbeatWatchdog(es)
@@ -213,6 +238,13 @@ class EventBus {
     }
   }
 
+  onApproval(listener: ApprovalListener): () => void {
+    this.approvalListeners.add(listener)
+    return () => {
+      this.approvalListeners.delete(listener)
+    }
+  }
+
   onConnectionChange(listener: ConnectionListener): () => void {
     this.connectionListeners.add(listener)
     // Immediately notify with current state
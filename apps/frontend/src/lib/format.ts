@@ -4,6 +4,29 @@ export function formatFileSize(bytes: number): string {
   return `${(bytes / (1024 * 1024)).toFixed(1)}MB`
 }
 
+export function formatTokenCount(tokens: number): string {
+  if (tokens < 1000) return `${tokens}`
+  if (tokens < 1_000_000) return `${(tokens / 1000).toFixed(1)}k`
+  return `${(tokens / 1_000_000).toFixed(1)}M`
+}
+
+export function formatCost(usd: number): string {
+  if (usd === 0) return '$0'
+  if (usd < 0.01) return '<$0.01'
+  return `$${usd.toFixed(2)}`
+}
+
+/** Wall-clock duration as `42s`, `3m 05s` or `1h 20m` */
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000)
+  if (seconds < 60) return `${seconds}s`
+  const minutes = Math.floor(seconds / 60)
+  if (minutes < 60) {
+    return `${minutes}m ${String(seconds % 60).padStart(2, '0')}s`
+  }
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+}
+
 /** Turn a raw model ID like "claude-opus-4-6" into a shorter display name */
 export function formatModelName(id: string): string {
   const m = id.match(/^claude-(opus|sonnet|haiku)-(\d+)-(\d+)(\[.*\])?$/)
@@ -23,3 +46,24 @@ export function getProjectInitials(name: string): string {
   }
   return trimmed.slice(0, 2).toUpperCase()
 }
+
+/** Parse `KEY=value` lines; lines without a key are ignored. */
+export function parseEnv(text: string): Record<string, string> {
+  const env: Record<string, string> = {}
+  for (const line of text.split('\n')) {
+    const eq = line.indexOf('=')
+    if (eq > 0) env[line.slice(0, eq).trim()] = line.slice(eq + 1).trim()
+  }
+  return env
+}
+
+export function formatEnv(env: Record<string, string> = {}): string {
+  return Object.entries(env)
+    .map(([key, value]) => `${key}=${value}`)
+    .join('\n')
+}
+
+/** Split a whitespace-separated argument list. */
+export function parseArgs(text: string): string[] {
+  return text.split(/\s+/).filter(Boolean)
+}
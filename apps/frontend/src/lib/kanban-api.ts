@@ -1,26 +1,81 @@
 import type {
   ApiResponse,
+  ApprovalDecision,
+  ApprovalPolicy,
+  AuthSession,
+  AuthStatus,
+  AuthUser,
+  BudgetLimits,
+  BudgetStatus,
   BusyAction,
+  Checkpoint,
+  CheckpointDiff,
+  CheckpointList,
+  CheckpointRestoreResult,
+  CompareRequest,
+  Comparison,
   EngineDiscoveryResult,
   EngineProfile,
+  EngineProfileInput,
   EngineSettings,
   ExecuteIssueRequest,
   ExecuteIssueResponse,
   FileListingResult,
+  Guardrail,
+  GuardrailInput,
   Issue,
   IssueChangesResponse,
+  IssueDependency,
   IssueFilePatchResponse,
   IssueLogsResponse,
+  McpServer,
+  McpServerInput,
+  MergeStrategy,
+  NormalizedLogEntry,
   PermissionMode,
   ProbeResult,
   Project,
+  ProjectEnvVar,
+  ProjectEnvVarInput,
+  ProjectUsageSummary,
+  QueuedExecution,
+  Schedule,
+  ScheduleInput,
+  ScheduleRun,
+  SearchResult,
+  StatusDefinition,
+  ToolApproval,
+  UsageSummary,
+  UserRole,
+  VerifyCommand,
+  VerifyCommandInput,
+  Webhook,
+  WebhookDelivery,
+  WebhookInput,
+  WorktreeInfo,
+  WorktreeMergeResult,
 } from '@/types/kanban'
 
+type UnauthorizedListener = () => void
+
+const unauthorizedListeners = new Set<UnauthorizedListener>()
+
+/** Subscribe to 401 responses (session expired or revoked). */
+export function onUnauthorized(cb: UnauthorizedListener): () => void {
+  unauthorizedListeners.add(cb)
+  return () => {
+    unauthorizedListeners.delete(cb)
+  }
+}
+
 async function request<T>(url: string, options?: RequestInit): Promise<T> {
   const res = await fetch(url, {
     headers: { 'Content-Type': 'application/json' },
     ...options,
   })
+  if (res.status === 401) {
+    for (const cb of unauthorizedListeners) cb()
+  }
   const json = (await res.json()) as ApiResponse<T>
   if (!json.success) {
     throw new Error(json.error)
@@ -40,6 +95,10 @@ function patch<T>(url: string, body: unknown) {
   return request<T>(url, { method: 'PATCH', body: JSON.stringify(body) })
 }
 
+function put<T>(url: string, body: unknown) {
+  return request<T>(url, { method: 'PUT', body: JSON.stringify(body) })
+}
+
 function del<T>(url: string) {
   return request<T>(url, { method: 'DELETE' })
 }
@@ -54,6 +113,20 @@ async function postFormData<T>(url: string, formData: FormData): Promise<T> {
 }
 
 export const kanbanApi = {
+  // Auth
+  getAuthStatus: () => get<AuthStatus>('/api/auth/status'),
+  setupAuth: (username: string, password: string) =>
+    post<AuthSession>('/api/auth/setup', { username, password }),
+  login: (username: string, password: string) =>
+    post<AuthSession>('/api/auth/login', { username, password }),
+  logout: () => post<null>('/api/auth/logout', {}),
+  changePassword: (currentPassword: string, newPassword: string) =>
+    patch<null>('/api/auth/me/password', { currentPassword, newPassword }),
+  listUsers: () => get<AuthUser[]>('/api/auth/users'),
+  createUser: (data: { username: string; password: string; role: UserRole }) =>
+    post<AuthUser>('/api/auth/users', data),
+  deleteUser: (id: string) => del<{ id: string }>(`/api/auth/users/${id}`),
+
   // Filesystem
   listDirs: (path?: string) =>
     get<{ current: string; parent: string | null; dirs: string[] }>(
@@ -79,9 +152,136 @@ export const kanbanApi = {
       description?: string
       directory?: string
       repositoryUrl?: string
+      verifyFixAttempts?: number
     },
   ) => patch<Project>(`/api/projects/${id}`, data),
   deleteProject: (id: string) => del<{ id: string }>(`/api/projects/${id}`),
+  getProjectStatuses: (projectId: string) =>
+    get<StatusDefinition[]>(`/api/projects/${projectId}/statuses`),
+  updateProjectStatuses: (
+    projectId: string,
+    statuses: Array<Omit<StatusDefinition, 'sortOrder'>>,
+  ) =>
+    put<StatusDefinition[]>(`/api/projects/${projectId}/statuses`, {
+      statuses,
+    }),
+  getProjectDependencies: (projectId: string) =>
+    get<IssueDependency[]>(`/api/projects/${projectId}/dependencies`),
+  getProjectUsage: (projectId: string, days?: number) =>
+    get<ProjectUsageSummary>(
+      `/api/projects/${projectId}/usage${days ? `?days=${days}` : ''}`,
+    ),
+  getProjectBudget: (projectId: string) =>
+    get<BudgetStatus>(`/api/projects/${projectId}/budget`),
+  updateProjectBudget: (projectId: string, limits: BudgetLimits) =>
+    put<BudgetStatus>(`/api/projects/${projectId}/budget`, limits),
+
+  // Schedules
+  getSchedules: (projectId: string) =>
+    get<Schedule[]>(`/api/projects/${projectId}/schedules`),
+  createSchedule: (projectId: string, data: ScheduleInput) =>
+    post<Schedule>(`/api/projects/${projectId}/schedules`, data),
+  updateSchedule: (
+    projectId: string,
+    id: string,
+    data: Partial<ScheduleInput>,
+  ) => patch<Schedule>(`/api/projects/${projectId}/schedules/${id}`, data),
+  deleteSchedule: (projectId: string, id: string) =>
+    del<{ id: string }>(`/api/projects/${projectId}/schedules/${id}`),
+  getScheduleRuns: (projectId: string, id: string) =>
+    get<ScheduleRun[]>(`/api/projects/${projectId}/schedules/${id}/runs`),
+  runSchedule: (projectId: string, id: string) =>
+    post<ScheduleRun>(`/api/projects/${projectId}/schedules/${id}/run`, {}),
+
+  // Webhooks
+  getWebhooks: (projectId: string) =>
+    get<Webhook[]>(`/api/projects/${projectId}/webhooks`),
+  createWebhook: (projectId: string, data: WebhookInput) =>
+    post<Webhook>(`/api/projects/${projectId}/webhooks`, data),
+  updateWebhook: (projectId: string, id: string, data: Partial<WebhookInput>) =>
+    patch<Webhook>(`/api/projects/${projectId}/webhooks/${id}`, data),
+  deleteWebhook: (projectId: string, id: string) =>
+    del<{ id: string }>(`/api/projects/${projectId}/webhooks/${id}`),
+  getWebhookDeliveries: (projectId: string, id: string) =>
+    get<WebhookDelivery[]>(
+      `/api/projects/${projectId}/webhooks/${id}/deliveries`,
+    ),
+  redeliverWebhook: (projectId: string, id: string, deliveryId: string) =>
+    post<WebhookDelivery>(
+      `/api/projects/${projectId}/webhooks/${id}/deliveries/${deliveryId}/redeliver`,
+      {},
+    ),
+
+  // Project env
+  getProjectEnv: (projectId: string) =>
+    get<ProjectEnvVar[]>(`/api/projects/${projectId}/env`),
+  createProjectEnvVar: (projectId: string, data: ProjectEnvVarInput) =>
+    post<ProjectEnvVar>(`/api/projects/${projectId}/env`, data),
+  updateProjectEnvVar: (
+    projectId: string,
+    id: string,
+    data: Partial<ProjectEnvVarInput>,
+  ) => patch<ProjectEnvVar>(`/api/projects/${projectId}/env/${id}`, data),
+  deleteProjectEnvVar: (projectId: string, id: string) =>
+    del<{ id: string }>(`/api/projects/${projectId}/env/${id}`),
+
+  // MCP servers
+  getMcpServers: (projectId: string) =>
+    get<McpServer[]>(`/api/projects/${projectId}/mcp-servers`),
+  createMcpServer: (projectId: string, data: McpServerInput) =>
+    post<McpServer>(`/api/projects/${projectId}/mcp-servers`, data),
+  updateMcpServer: (
+    projectId: string,
+    id: string,
+    data: Partial<McpServerInput>,
+  ) => patch<McpServer>(`/api/projects/${projectId}/mcp-servers/${id}`, data),
+  deleteMcpServer: (projectId: string, id: string) =>
+    del<{ id: string }>(`/api/projects/${projectId}/mcp-servers/${id}`),
+
+  // Guardrails
+  getGuardrails: (projectId: string) =>
+    get<Guardrail[]>(`/api/projects/${projectId}/guardrails`),
+  createGuardrail: (projectId: string, data: GuardrailInput) =>
+    post<Guardrail>(`/api/projects/${projectId}/guardrails`, data),
+  updateGuardrail: (
+    projectId: string,
+    id: string,
+    data: Partial<GuardrailInput>,
+  ) => patch<Guardrail>(`/api/projects/${projectId}/guardrails/${id}`, data),
+  deleteGuardrail: (projectId: string, id: string) =>
+    del<{ id: string }>(`/api/projects/${projectId}/guardrails/${id}`),
+
+  // Verification commands
+  getVerifyCommands: (projectId: string) =>
+    get<VerifyCommand[]>(`/api/projects/${projectId}/verify-commands`),
+  createVerifyCommand: (projectId: string, data: VerifyCommandInput) =>
+    post<VerifyCommand>(`/api/projects/${projectId}/verify-commands`, data),
+  updateVerifyCommand: (
+    projectId: string,
+    id: string,
+    data: Partial<VerifyCommandInput>,
+  ) =>
+    patch<VerifyCommand>(
+      `/api/projects/${projectId}/verify-commands/${id}`,
+      data,
+    ),
+  deleteVerifyCommand: (projectId: string, id: string) =>
+    del<{ id: string }>(`/api/projects/${projectId}/verify-commands/${id}`),
+
+  // Execution queue
+  getExecutionQueue: () => get<QueuedExecution[]>('/api/execution-queue'),
+
+  // Search
+  search: (
+    query: string,
+    opts?: { projectId?: string; types?: string[]; limit?: number },
+  ) => {
+    const params = new URLSearchParams({ q: query })
+    if (opts?.projectId) params.set('projectId', opts.projectId)
+    if (opts?.types?.length) params.set('types', opts.types.join(','))
+    if (opts?.limit) params.set('limit', String(opts.limit))
+    return get<SearchResult[]>(`/api/search?${params}`)
+  },
 
   // Issues
   getIssues: (projectId: string) =>
@@ -99,6 +299,7 @@ export const kanbanApi = {
       useWorktree?: boolean
       parentIssueId?: string
       engineType?: string
+      engineProfileId?: string
       model?: string
       permissionMode?: string
     },
@@ -174,6 +375,37 @@ export const kanbanApi = {
       {},
     ),
 
+  forkIssue: (
+    projectId: string,
+    issueId: string,
+    data: { messageId: string; prompt: string; title?: string },
+  ) => post<Issue>(`/api/projects/${projectId}/issues/${issueId}/fork`, data),
+
+  startComparison: (projectId: string, issueId: string, data: CompareRequest) =>
+    post<Issue[]>(`/api/projects/${projectId}/issues/${issueId}/compare`, data),
+  getComparison: (projectId: string, issueId: string) =>
+    get<Comparison>(`/api/projects/${projectId}/issues/${issueId}/compare`),
+  pickCompareWinner: (projectId: string, issueId: string, winnerId: string) =>
+    post<Comparison>(
+      `/api/projects/${projectId}/issues/${issueId}/compare/winner`,
+      { issueId: winnerId },
+    ),
+
+  rewindIssue: (
+    projectId: string,
+    issueId: string,
+    data: { messageId: string; prompt: string },
+  ) =>
+    post<ExecuteIssueResponse & { branchId: string }>(
+      `/api/projects/${projectId}/issues/${issueId}/rewind`,
+      data,
+    ),
+
+  getIssueBranch: (projectId: string, issueId: string, branchId: string) =>
+    get<{ logs: NormalizedLogEntry[] }>(
+      `/api/projects/${projectId}/issues/${issueId}/branches/${branchId}`,
+    ),
+
   restartIssue: (projectId: string, issueId: string) =>
     post<ExecuteIssueResponse>(
       `/api/projects/${projectId}/issues/${issueId}/restart`,
@@ -215,11 +447,116 @@ export const kanbanApi = {
     get<IssueFilePatchResponse>(
       `/api/projects/${projectId}/issues/${issueId}/changes/file?path=${encodeURIComponent(path)}`,
     ),
+  getIssueWorktree: (projectId: string, issueId: string) =>
+    get<WorktreeInfo>(`/api/projects/${projectId}/issues/${issueId}/worktree`),
+  getIssueWorktreeFilePatch: (
+    projectId: string,
+    issueId: string,
+    path: string,
+  ) =>
+    get<IssueFilePatchResponse>(
+      `/api/projects/${projectId}/issues/${issueId}/worktree/file?path=${encodeURIComponent(path)}`,
+    ),
+  mergeIssueWorktree: (
+    projectId: string,
+    issueId: string,
+    data: { strategy: MergeStrategy; message?: string; cleanup?: boolean },
+  ) =>
+    post<WorktreeMergeResult>(
+      `/api/projects/${projectId}/issues/${issueId}/worktree/merge`,
+      data,
+    ),
+  removeIssueWorktree: (projectId: string, issueId: string, force = false) =>
+    del<{ issueId: string }>(
+      `/api/projects/${projectId}/issues/${issueId}/worktree${force ? '?force=true' : ''}`,
+    ),
+  getIssueCheckpoints: (projectId: string, issueId: string) =>
+    get<CheckpointList>(
+      `/api/projects/${projectId}/issues/${issueId}/checkpoints`,
+    ),
+  createIssueCheckpoint: (projectId: string, issueId: string, label?: string) =>
+    post<Checkpoint>(
+      `/api/projects/${projectId}/issues/${issueId}/checkpoints`,
+      { label },
+    ),
+  getIssueCheckpointDiff: (
+    projectId: string,
+    issueId: string,
+    from: string,
+    to: string | null,
+  ) => {
+    const params = new URLSearchParams({ from })
+    if (to) params.set('to', to)
+    return get<CheckpointDiff>(
+      `/api/projects/${projectId}/issues/${issueId}/checkpoints/diff?${params}`,
+    )
+  },
+  getIssueCheckpointFilePatch: (
+    projectId: string,
+    issueId: string,
+    from: string,
+    to: string | null,
+    path: string,
+  ) => {
+    const params = new URLSearchParams({ from, path })
+    if (to) params.set('to', to)
+    return get<IssueFilePatchResponse>(
+      `/api/projects/${projectId}/issues/${issueId}/checkpoints/diff/file?${params}`,
+    )
+  },
+  restoreIssueCheckpoint: (
+    projectId: string,
+    issueId: string,
+    checkpointId: string,
+  ) =>
+    post<CheckpointRestoreResult>(
+      `/api/projects/${projectId}/issues/${issueId}/checkpoints/${checkpointId}/restore`,
+      {},
+    ),
+  getIssueUsage: (projectId: string, issueId: string) =>
+    get<UsageSummary>(`/api/projects/${projectId}/issues/${issueId}/usage`),
+  getIssueBudget: (projectId: string, issueId: string) =>
+    get<BudgetStatus>(`/api/projects/${projectId}/issues/${issueId}/budget`),
+  updateIssueBudget: (
+    projectId: string,
+    issueId: string,
+    limits: BudgetLimits,
+  ) =>
+    put<BudgetStatus>(
+      `/api/projects/${projectId}/issues/${issueId}/budget`,
+      limits,
+    ),
+  getIssueApprovals: (projectId: string, issueId: string) =>
+    get<ToolApproval[]>(
+      `/api/projects/${projectId}/issues/${issueId}/approvals`,
+    ),
+  resolveApproval: (
+    projectId: string,
+    issueId: string,
+    requestId: string,
+    decision: ApprovalDecision,
+  ) =>
+    post<ToolApproval>(
+      `/api/projects/${projectId}/issues/${issueId}/approvals/${requestId}`,
+      { decision },
+    ),
 
   // Engines
   getEngineAvailability: () =>
     get<EngineDiscoveryResult>('/api/engines/available'),
   getEngineProfiles: () => get<EngineProfile[]>('/api/engines/profiles'),
+  createEngineProfile: (data: EngineProfileInput) =>
+    post<EngineProfile>('/api/engines/profiles', data),
+  updateEngineProfile: (
+    id: string,
+    data: Partial<Omit<EngineProfileInput, 'engineType'>>,
+  ) =>
+    patch<EngineProfile>(
+      `/api/engines/profiles/${encodeURIComponent(id)}`,
+      data,
+    ),
+  deleteEngineProfile: (id: string) =>
+    del<{ id: string }>(`/api/engines/profiles/${encodeURIComponent(id)}`),
   getEngineSettings: () => get<EngineSettings>('/api/engines/settings'),
   updateEngineModelSetting: (
     engineType: string,
@@ -241,6 +578,9 @@ export const kanbanApi = {
   getWorkspacePath: () => get<{ path: string }>('/api/settings/workspace-path'),
   updateWorkspacePath: (path: string) =>
     patch<{ path: string }>('/api/settings/workspace-path', { path }),
+  getApprovalPolicy: () => get<ApprovalPolicy>('/api/settings/approval-policy'),
+  updateApprovalPolicy: (policy: ApprovalPolicy) =>
+    put<ApprovalPolicy>('/api/settings/approval-policy', policy),
 
   // File Browser
   listFiles: (projectId: string, path?: string, showHidden?: boolean) => {
@@ -1,21 +1,70 @@
-export type StatusId = 'todo' | 'working' | 'review' | 'done'
+import type { Issue, StatusDefinition } from '@/types/kanban'
 
-export interface StatusDefinition {
-  id: StatusId
-  name: string
-  color: string
-  sortOrder: number
-}
+export type { StatusDefinition }
+
+/**
+ * How the server treats a column (mirrors the API's workflow roles):
+ * backlog sits left of the execution column, review right of it.
+ */
+export type StatusRole = 'backlog' | 'execution' | 'review' | 'terminal'
 
-export const STATUSES: StatusDefinition[] = [
-  { id: 'todo', name: 'Todo', color: '#6b7280', sortOrder: 0 },
-  { id: 'working', name: 'Working', color: '#3b82f6', sortOrder: 1 },
-  { id: 'review', name: 'Review', color: '#f59e0b', sortOrder: 2 },
-  { id: 'done', name: 'Done', color: '#22c55e', sortOrder: 3 },
+/** Built-in workflow, used as the starting point when customizing columns. */
+export const DEFAULT_STATUSES: StatusDefinition[] = [
+  {
+    id: 'todo',
+    name: 'Todo',
+    color: '#6b7280',
+    sortOrder: 0,
+    triggersExecution: false,
+    isTerminal: false,
+  },
+  {
+    id: 'working',
+    name: 'Working',
+    color: '#3b82f6',
+    sortOrder: 1,
+    triggersExecution: true,
+    isTerminal: false,
+  },
+  {
+    id: 'review',
+    name: 'Review',
+    color: '#f59e0b',
+    sortOrder: 2,
+    triggersExecution: false,
+    isTerminal: false,
+  },
+  {
+    id: 'done',
+    name: 'Done',
+    color: '#22c55e',
+    sortOrder: 3,
+    triggersExecution: false,
+    isTerminal: true,
+  },
 ]
 
-export const STATUS_MAP = new Map<string, StatusDefinition>(
-  STATUSES.map((s) => [s.id, s]),
-)
+/**
+ * Mirrors the server: an upstream issue stops blocking once its run
+ * completed and settled past the execution column, or once it was closed.
+ */
+export function isDependencyResolved(
+  statuses: StatusDefinition[],
+  issue: Pick<Issue, 'statusId' | 'sessionStatus'>,
+): boolean {
+  const role = getStatusRole(statuses, issue.statusId)
+  if (role === 'terminal') return true
+  return role === 'review' && issue.sessionStatus === 'completed'
+}
 
-export const DEFAULT_STATUS_ID: StatusId = 'todo'
+export function getStatusRole(
+  statuses: StatusDefinition[],
+  statusId: string | undefined,
+): StatusRole {
+  const index = statuses.findIndex((s) => s.id === statusId)
+  const executionIndex = statuses.findIndex((s) => s.triggersExecution)
+  if (index < 0) return 'backlog'
+  if (statuses[index].isTerminal) return 'terminal'
+  if (index < executionIndex) return 'backlog'
+  return index === executionIndex ? 'execution' : 'review'
+}
@@ -1,11 +1,13 @@
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import { ReactQueryDevtools } from '@tanstack/react-query-devtools'
-import { lazy, Suspense } from 'react'
+import { lazy, Suspense, useEffect } from 'react'
 import ReactDOM from 'react-dom/client'
 import { BrowserRouter, Navigate, Route, Routes } from 'react-router-dom'
 import { ErrorBoundary } from './components/ErrorBoundary'
 import { Toaster } from './components/ui/sonner'
+import { useAuthStatus } from './hooks/use-auth'
 import { eventBus } from './lib/event-bus'
+import { useSearchStore } from './stores/search-store'
 import { useTerminalStore } from './stores/terminal-store'
 import './i18n'
 import './index.css'
@@ -19,8 +21,7 @@ const queryClient = new QueryClient({
   },
 })
 
-// Global SSE connection — connects once at startup, client-side filtering
-eventBus.connect()
+// Global SSE connection is opened by AuthGate once signed in; client-side filtering
 // Invalidate all queries on SSE reconnect so stale statuses get refreshed
 eventBus.onConnectionChange((connected) => {
   if (connected) queryClient.invalidateQueries()
@@ -28,6 +29,7 @@ eventBus.onConnectionChange((connected) => {
 // Invalidate issue queries when any issue status changes via SSE
 eventBus.onIssueUpdated(() => {
   queryClient.invalidateQueries({ queryKey: ['projects'] })
+  queryClient.invalidateQueries({ queryKey: ['execution-queue'] })
 })
 // Debounced invalidation of changes queries on any issue activity (log/state/done)
 {
@@ -44,6 +46,7 @@ eventBus.onIssueUpdated(() => {
   })
 }
 
+const LoginPage = lazy(() => import('./pages/LoginPage'))
 const HomePage = lazy(() => import('./pages/HomePage'))
 const KanbanPage = lazy(() => import('./pages/KanbanPage'))
 const IssueDetailPage = lazy(() => import('./pages/IssueDetailPage'))
@@ -54,6 +57,11 @@ const LazyTerminalDrawer = lazy(() =>
     default: m.TerminalDrawer,
   })),
 )
+const LazySearchPalette = lazy(() =>
+  import('./components/SearchPalette').then((m) => ({
+    default: m.SearchPalette,
+  })),
+)
 
 function AppShell({ children }: { children: React.ReactNode }) {
   const isOpen = useTerminalStore((s) => s.isOpen)
@@ -73,6 +81,34 @@ function AppShell({ children }: { children: React.ReactNode }) {
   )
 }
 
+const spinner = (
+  <div className="flex h-full items-center justify-center">
+    <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+  </div>
+)
+
+/** Show the login page until signed in (when the server requires auth). */
+function AuthGate({ children }: { children: React.ReactNode }) {
+  const { data: status, isLoading } = useAuthStatus()
+  const allowed = !!status && (!status.authEnabled || !!status.user)
+
+  useEffect(() => {
+    if (!allowed) return
+    eventBus.connect()
+    return () => eventBus.disconnect()
+  }, [allowed])
+
+  if (isLoading) return spinner
+  if (!allowed) {
+    return (
+      <Suspense fallback={spinner}>
+        <LoginPage />
+      </Suspense>
+    )
+  }
+  return children
+}
+
 function TerminalDrawerMount() {
   const isOpen = useTerminalStore((s) => s.isOpen)
 
@@ -85,6 +121,37 @@ function TerminalDrawerMount() {
   )
 }
 
+/** Ctrl/Cmd+K opens full-text search from anywhere once signed in. */
+function SearchPaletteMount() {
+  const isOpen = useSearchStore((s) => s.isOpen)
+  const close = useSearchStore((s) => s.close)
+  const toggle = useSearchStore((s) => s.toggle)
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault()
+        toggle()
+      }
+    }
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  }, [toggle])
+
+  if (!isOpen) return null
+
+  return (
+    <Suspense fallback={null}>
+      <LazySearchPalette
+        open
+        onOpenChange={(open) => {
+          if (!open) close()
+        }}
+      />
+    </Suspense>
+  )
+}
+
 const rootElement = document.getElementById('app')!
 
 if (!rootElement.innerHTML) {
@@ -93,68 +160,65 @@ if (!rootElement.innerHTML) {
     <QueryClientProvider client={queryClient}>
       <BrowserRouter>
         <ErrorBoundary>
-          <AppShell>
-            <Suspense
-              fallback={
-                <div className="flex h-full items-center justify-center">
-                  <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
-                </div>
-              }
-            >
-              <Routes>
-                <Route
-                  path="/"
-                  element={
-                    <ErrorBoundary>
-                      <HomePage />
-                    </ErrorBoundary>
-                  }
-                />
-                <Route
-                  path="/projects/:projectId"
-                  element={
-                    <ErrorBoundary>
-                      <KanbanPage />
-                    </ErrorBoundary>
-                  }
-                />
-                <Route
-                  path="/projects/:projectId/issues"
-                  element={
-                    <ErrorBoundary>
-                      <IssueDetailPage />
-                    </ErrorBoundary>
-                  }
-                />
-                <Route
-                  path="/projects/:projectId/issues/:issueId"
-                  element={
-                    <ErrorBoundary>
-                      <IssueDetailPage />
-                    </ErrorBoundary>
-                  }
-                />
-                <Route
-                  path="/projects/:projectId/files/*"
-                  element={
-                    <ErrorBoundary>
-                      <FileBrowserPage />
-                    </ErrorBoundary>
-                  }
-                />
-                <Route
-                  path="/terminal"
-                  element={
-                    <ErrorBoundary>
-                      <TerminalPage />
-                    </ErrorBoundary>
-                  }
-                />
-                <Route path="*" element={<Navigate to="/" replace />} />
-              </Routes>
-            </Suspense>
-          </AppShell>
-          <TerminalDrawerMount />
+          <AuthGate>
+            <AppShell>
+              <Suspense fallback={spinner}>
+                <Routes>
+                  <Route
+                    path="/"
+                    element={
+                      <ErrorBoundary>
+                        <HomePage />
+                      </ErrorBoundary>
+                    }
+                  />
+                  <Route
+                    path="/projects/:projectId"
+                    element={
+                      <ErrorBoundary>
+                        <KanbanPage />
+                      </ErrorBoundary>
+                    }
+                  />
+                  <Route
+                    path="/projects/:projectId/issues"
+                    element={
+                      <ErrorBoundary>
+                        <IssueDetailPage />
+                      </ErrorBoundary>
+                    }
+                  />
+                  <Route
+                    path="/projects/:projectId/issues/:issueId"
+                    element={
+                      <ErrorBoundary>
+                        <IssueDetailPage />
+                      </ErrorBoundary>
+                    }
+                  />
+                  <Route
+                    path="/projects/:projectId/files/*"
+                    element={
+                      <ErrorBoundary>
+                        <FileBrowserPage />
+                      </ErrorBoundary>
+                    }
+                  />
+                  <Route
+                    path="/terminal"
+                    element={
+                      <ErrorBoundary>
+                        <TerminalPage />
+                      </ErrorBoundary>
+                    }
+                  />
+                  <Route path="*" element={<Navigate to="/" replace />} />
+                </Routes>
+              </Suspense>
+            </AppShell>
+            <TerminalDrawerMount />
+            <SearchPaletteMount />
+          </AuthGate>
           <Toaster position="top-center" />
         </ErrorBoundary>
       </BrowserRouter>
@@ -7,9 +7,8 @@ import { IssuePanel } from '@/components/kanban/IssuePanel'
 import { KanbanBoard } from '@/components/kanban/KanbanBoard'
 import { KanbanHeader } from '@/components/kanban/KanbanHeader'
 import { MobileSidebar } from '@/components/kanban/MobileSidebar'
-import { useIssues, useProject } from '@/hooks/use-kanban'
+import { useIssues, useProject, useProjectStatuses } from '@/hooks/use-kanban'
 import { useIsMobile } from '@/hooks/use-mobile'
-import { DEFAULT_STATUS_ID } from '@/lib/statuses'
 import {
   PANEL_MAX_WIDTH_RATIO,
   PANEL_MIN_WIDTH,
@@ -23,6 +22,7 @@ export default function KanbanPage() {
   const { projectId = 'default' } = useParams<{ projectId: string }>()
   const { data: project, isLoading, isError } = useProject(projectId)
   const { data: issues } = useIssues(projectId)
+  const { data: statuses } = useProjectStatuses(projectId)
 
   const panel = usePanelStore((s) => s.panel)
   const width = usePanelStore((s) => s.width)
@@ -76,7 +76,7 @@ export default function KanbanPage() {
         <KanbanHeader
           project={project}
           issueCount={issues?.length ?? 0}
-          defaultStatusId={DEFAULT_STATUS_ID}
+          defaultStatusId={statuses?.[0]?.id}
           searchQuery={searchQuery}
           onSearchChange={setSearchQuery}
           mobileNav={
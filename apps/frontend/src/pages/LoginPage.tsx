@@ -0,0 +1,70 @@
+import { Loader2 } from 'lucide-react'
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { AppLogo } from '@/components/AppLogo'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { useLogin } from '@/hooks/use-auth'
+
+export default function LoginPage() {
+  const { t } = useTranslation()
+  const login = useLogin()
+  const [username, setUsername] = useState('')
+  const [password, setPassword] = useState('')
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!username || !password) return
+    login.mutate({ username, password })
+  }
+
+  return (
+    <div className="flex h-dvh items-center justify-center bg-background px-4">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-xs space-y-4 rounded-lg border bg-card p-6 shadow-sm"
+      >
+        <div className="flex flex-col items-center gap-2">
+          <AppLogo className="size-10" />
+          <h1 className="text-lg font-semibold">{t('auth.title')}</h1>
+        </div>
+
+        <div className="space-y-1.5">
+          <Label htmlFor="login-username">{t('auth.username')}</Label>
+          <Input
+            id="login-username"
+            autoComplete="username"
+            autoFocus
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+          />
+        </div>
+
+        <div className="space-y-1.5">
+          <Label htmlFor="login-password">{t('auth.password')}</Label>
+          <Input
+            id="login-password"
+            type="password"
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+          />
+        </div>
+
+        {login.error ? (
+          <p className="text-xs text-destructive">{login.error.message}</p>
+        ) : null}
+
+        <Button
+          type="submit"
+          className="w-full"
+          disabled={!username || !password || login.isPending}
+        >
+          {login.isPending ? <Loader2 className="size-4 animate-spin" /> : null}
+          {t('auth.signIn')}
+        </Button>
+      </form>
+    </div>
+  )
+}
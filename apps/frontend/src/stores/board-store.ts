@@ -1,8 +1,7 @@
 import { move } from '@dnd-kit/helpers'
 import type { DragDropProvider } from '@dnd-kit/react'
 import { create } from 'zustand'
-import { STATUSES } from '@/lib/statuses'
-import type { Issue } from '@/types/kanban'
+import type { Issue, StatusDefinition } from '@/types/kanban'
 
 type DragOverEvent = Parameters<
   NonNullable<Parameters<typeof DragDropProvider>[0]['onDragOver']>
@@ -15,7 +14,7 @@ interface BoardState {
   groupedItems: Record<string, Issue[]>
   isDragging: boolean
 
-  syncFromServer: (issues: Issue[]) => void
+  syncFromServer: (issues: Issue[], statuses: StatusDefinition[]) => void
   applyDragOver: (event: DragOverEvent) => void
   applyDragEnd: (
     event: DragEndEvent,
@@ -27,10 +26,10 @@ export const useBoardStore = create<BoardState>((set, get) => ({
   groupedItems: {},
   isDragging: false,
 
-  syncFromServer: (issues) => {
+  syncFromServer: (issues, statuses) => {
     if (get().isDragging) return
     const groups: Record<string, Issue[]> = {}
-    for (const status of STATUSES) {
+    for (const status of statuses) {
       groups[status.id] = issues
         .filter((i) => i.statusId === status.id)
         .sort((a, b) => a.sortOrder - b.sortOrder)
@@ -3,13 +3,31 @@
 // continue to work while new code can import directly from '@bitk/shared'.
 export type {
   ApiResponse,
+  ApprovalDecision,
+  ApprovalPolicy,
+  ApprovalStatus,
+  AuthSession,
+  AuthStatus,
+  AuthUser,
+  BudgetLimits,
+  BudgetStatus,
   BusyAction,
+  Checkpoint,
+  CheckpointDiff,
+  CheckpointList,
+  CheckpointRestoreResult,
   CommandCategory,
+  CompareRequest,
+  CompareRun,
+  CompareRunSpec,
+  Comparison,
+  DailyUsage,
   DirectoryListing,
   EngineAvailability,
   EngineDiscoveryResult,
   EngineModel,
   EngineProfile,
+  EngineProfileInput,
   EngineSettings,
   EngineType,
   ExecuteIssueRequest,
@@ -18,18 +36,54 @@ export type {
   FileContent,
   FileEntry,
   FileListingResult,
+  Guardrail,
+  GuardrailInput,
+  GuardrailKind,
   Issue,
   IssueChangedFile,
   IssueChangesResponse,
+  IssueDependency,
   IssueFilePatchResponse,
   IssueLogsResponse,
+  IssueUsage,
   LogEntryType,
+  McpServer,
+  McpServerInput,
+  MergeConflict,
+  MergeStrategy,
+  ModelUsage,
   NormalizedLogEntry,
   PermissionMode,
   Priority,
   ProbeResult,
   Project,
+  ProjectEnvVar,
+  ProjectEnvVarInput,
+  ProjectUsageSummary,
+  QueuedExecution,
+  Schedule,
+  ScheduleInput,
+  ScheduleRun,
+  ScheduleRunStatus,
+  SearchResult,
   SessionStatus,
+  SnippetSegment,
+  StatusDefinition,
   ToolAction,
+  ToolApproval,
   ToolDetail,
+  UsageSummary,
+  UsageTotals,
+  UserRole,
+  VerifyCommand,
+  VerifyCommandInput,
+  VerifyStatus,
+  Webhook,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+  WebhookInput,
+  WorktreeFile,
+  WorktreeInfo,
+  WorktreeMergeResult,
 } from '@bitk/shared'
@@ -10,11 +10,13 @@ export type Project = {
   description?: string
   directory?: string
   repositoryUrl?: string
+  /** Follow-ups sent to fix failed verification commands before review */
+  verifyFixAttempts: number
   createdAt: string
   updatedAt: string
 }
 
-export type EngineType = 'claude-code' | 'codex' | 'gemini' | 'echo'
+export type EngineType = 'claude-code' | 'codex' | 'gemini' | 'echo' | 'custom'
 export type PermissionMode = 'auto' | 'supervised' | 'plan'
 export type BusyAction = 'queue' | 'cancel'
 export type SessionStatus =
@@ -24,6 +26,8 @@ export type SessionStatus =
   | 'failed'
   | 'cancelled'
 
+export type VerifyStatus = 'running' | 'passed' | 'failed'
+
 export type Issue = {
   id: string
   projectId: string
@@ -37,10 +41,20 @@ export type Issue = {
   childCount?: number
   children?: Issue[]
   engineType: EngineType | null
+  /** User-defined engine profile; null = the built-in profile of engineType */
+  engineProfileId: string | null
   sessionStatus: SessionStatus | null
   prompt: string | null
   externalSessionId: string | null
   model: string | null
+  /** Why the last session stopped early, e.g. 'budget:cost' */
+  stopReason: string | null
+  /** Result of the project's verification commands after the last turn */
+  verifyStatus: VerifyStatus | null
+  /** One run of a comparison, tracked as a sub-issue of the compared issue */
+  compareRun: boolean
+  /** Compare run picked as the winner (set on the compared issue) */
+  compareWinnerId: string | null
   devMode: boolean
   createdAt: string
   updatedAt: string
@@ -77,7 +91,14 @@ export type ToolAction =
     }
   | { kind: 'search'; query: string }
   | { kind: 'web-fetch'; url: string }
-  | { kind: 'tool'; toolName: string; arguments?: unknown; result?: unknown }
+  | {
+      kind: 'tool'
+      toolName: string
+      /** MCP server that provides the tool */
+      server?: string
+      arguments?: unknown
+      result?: unknown
+    }
   | { kind: 'other'; description: string }
 
 export interface ToolDetail {
@@ -102,6 +123,7 @@ export interface NormalizedLogEntry {
 
 export interface ExecuteIssueRequest {
   engineType: EngineType
+  engineProfileId?: string | null
   prompt: string
   model?: string
   permissionMode?: PermissionMode
@@ -149,6 +171,432 @@ export interface IssueFilePatchResponse {
   status?: string
 }
 
+export type MergeStrategy = 'squash' | 'rebase'
+
+/** A file changed on an issue's worktree branch relative to its base. */
+export interface WorktreeFile {
+  path: string
+  /** git name-status letter (A, M, D, T) or `?` for untracked */
+  status: string
+  additions: number
+  deletions: number
+}
+
+export interface WorktreeInfo {
+  branch: string
+  baseBranch: string | null
+  worktreePath: string
+  hasWorktree: boolean
+  hasBranch: boolean
+  ahead: number
+  behind: number
+  uncommittedFiles: number
+  files: WorktreeFile[]
+  additions: number
+  deletions: number
+}
+
+export interface MergeConflict {
+  path: string
+  status: string
+  reason: string
+}
+
+export type WorktreeMergeResult =
+  | {
+      merged: true
+      strategy: MergeStrategy
+      commit: string
+      cleanedUp: boolean
+    }
+  | { merged: false; strategy: MergeStrategy; conflicts: MergeConflict[] }
+
+/** One engine/model combination of a comparison */
+export interface CompareRunSpec {
+  engineType?: EngineType
+  /** User-defined engine profile; decides engineType */
+  engineProfileId?: string
+  model?: string
+}
+
+export interface CompareRequest {
+  /** Two to four combinations, each run in its own worktree */
+  runs: CompareRunSpec[]
+  /** Defaults to the issue's prompt */
+  prompt?: string
+  permissionMode?: PermissionMode
+}
+
+export interface CompareRun {
+  issue: Issue
+  /** Wall-clock time from the first to the last log entry */
+  durationMs: number | null
+  costUsd: number
+  turns: number
+  /** Branch diff against the base; null when the worktree is gone */
+  worktree: WorktreeInfo | null
+}
+
+export interface Comparison {
+  winnerId: string | null
+  runs: CompareRun[]
+}
+
+/** Snapshot of an issue's workspace, taken when a turn starts. */
+export interface Checkpoint {
+  /** ULID — also orders the timeline */
+  id: string
+  commit: string
+  /** First line of the prompt that started the turn */
+  label: string
+  createdAt: string
+}
+
+export interface CheckpointList {
+  gitRepo: boolean
+  checkpoints: Checkpoint[]
+}
+
+export interface CheckpointDiff {
+  from: string
+  /** null: the current workspace */
+  to: string | null
+  files: WorktreeFile[]
+  additions: number
+  deletions: number
+}
+
+export interface CheckpointRestoreResult {
+  restored: Checkpoint
+  /** The workspace as it was just before the restore */
+  backup: Checkpoint | null
+}
+
+export type ApprovalDecision = 'approve' | 'deny' | 'always-allow'
+
+export type ApprovalStatus =
+  | 'pending'
+  | 'approved'
+  | 'denied'
+  | 'timed_out'
+  | 'cancelled'
+
+export interface ToolApproval {
+  id: string
+  issueId: string
+  executionId: string | null
+  engineType: string | null
+  toolName: string
+  toolCallId: string | null
+  input: unknown
+  status: ApprovalStatus
+  decision: ApprovalDecision | null
+  createdAt: string
+  resolvedAt: string | null
+  expiresAt: string | null
+}
+
+export interface ApprovalPolicy {
+  timeoutSeconds: number
+  onTimeout: 'approve' | 'deny'
+}
+
+/** A workflow column. Columns are per project; order is `sortOrder`. */
+export interface StatusDefinition {
+  id: string
+  name: string
+  color: string
+  sortOrder: number
+  /** Moving an issue into this column starts AI execution. */
+  triggersExecution: boolean
+  /** Closed column: moving an issue here cancels its session. */
+  isTerminal: boolean
+}
+
+/** `issueId` is blocked until `dependsOnIssueId` finishes. */
+export interface IssueDependency {
+  issueId: string
+  dependsOnIssueId: string
+}
+
+export interface UsageTotals {
+  turns: number
+  inputTokens: number
+  outputTokens: number
+  cacheReadTokens: number
+  cacheWriteTokens: number
+  costUsd: number
+}
+
+export interface DailyUsage extends UsageTotals {
+  /** UTC calendar day, YYYY-MM-DD */
+  date: string
+}
+
+export interface ModelUsage extends UsageTotals {
+  engineType: EngineType | null
+  model: string | null
+}
+
+export interface IssueUsage extends UsageTotals {
+  issueId: string
+  issueNumber: number
+  title: string
+}
+
+export interface UsageSummary {
+  totals: UsageTotals
+  daily: DailyUsage[]
+  byModel: ModelUsage[]
+}
+
+export interface ProjectUsageSummary extends UsageSummary {
+  byIssue: IssueUsage[]
+}
+
+/** Null means no limit */
+export interface BudgetLimits {
+  maxCostUsd: number | null
+  maxTokens: number | null
+  maxTurns: number | null
+  maxDurationSeconds: number | null
+}
+
+export interface BudgetStatus {
+  limits: BudgetLimits
+  /** All-time usage the limits are checked against */
+  usage: UsageTotals
+  /** Wall-clock seconds of all finished turns, checked against the run time limit */
+  runSeconds: number
+}
+
+/** Recurring (cron) or one-shot agent run; exactly one of cron / runAt is set */
+export interface Schedule {
+  id: string
+  projectId: string
+  name: string
+  cron: string | null
+  runAt: string | null
+  /** Re-run this issue on every tick instead of creating a new one */
+  issueId: string | null
+  prompt: string
+  engineType: EngineType | null
+  model: string | null
+  enabled: boolean
+  nextRunAt: string | null
+  lastRunAt: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface ScheduleInput {
+  name: string
+  cron?: string | null
+  runAt?: string | null
+  issueId?: string | null
+  prompt: string
+  engineType?: EngineType | null
+  model?: string | null
+  enabled?: boolean
+}
+
+export type ScheduleRunStatus = 'started' | 'skipped' | 'failed'
+
+export interface ScheduleRun {
+  id: string
+  scheduleId: string
+  issueId: string | null
+  issueNumber: number | null
+  issueTitle: string | null
+  status: ScheduleRunStatus
+  error: string | null
+  createdAt: string
+}
+
+/** An execution waiting for a free slot; `position` is 1-based across all projects */
+export interface QueuedExecution {
+  issueId: string
+  projectId: string
+  issueNumber: number
+  title: string
+  priority: Priority
+  engineType: EngineType
+  position: number
+  queuedAt: string
+}
+
+export type WebhookEvent =
+  | 'issue.created'
+  | 'issue.status_changed'
+  | 'session.settled'
+  | 'changes.summary'
+
+/** Outbound endpoint; the secret is write-only and never returned */
+export interface Webhook {
+  id: string
+  projectId: string
+  url: string
+  /** Events sent to this endpoint; empty means all */
+  events: WebhookEvent[]
+  enabled: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export interface WebhookInput {
+  url: string
+  secret: string
+  events?: WebhookEvent[]
+  enabled?: boolean
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed'
+
+export interface WebhookDelivery {
+  id: string
+  webhookId: string
+  event: WebhookEvent
+  status: WebhookDeliveryStatus
+  attempts: number
+  responseStatus: number | null
+  error: string | null
+  nextAttemptAt: string | null
+  deliveredAt: string | null
+  createdAt: string
+}
+
+/** Project env var; secret values are write-only and never returned */
+export interface ProjectEnvVar {
+  id: string
+  projectId: string
+  key: string
+  /** Null for secrets */
+  value: string | null
+  isSecret: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export interface ProjectEnvVarInput {
+  key: string
+  value: string
+  isSecret?: boolean
+}
+
+/** Stdio MCP server handed to the project's agents */
+export interface McpServer {
+  id: string
+  projectId: string
+  /** Unique per project; prefixes the server's tool names */
+  name: string
+  command: string
+  args: string[]
+  /** Values are write-only, so only the keys are returned */
+  env: Record<string, null>
+  enabled: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export interface McpServerInput {
+  name: string
+  command: string
+  args?: string[]
+  /** On update, a null value keeps the stored one */
+  env?: Record<string, string | null>
+  enabled?: boolean
+}
+
+export type GuardrailKind = 'command' | 'path' | 'tool'
+
+/** Project rule checked before an agent may run a command, touch a path or use a tool */
+export interface Guardrail {
+  id: string
+  projectId: string
+  kind: GuardrailKind
+  /** Command words, path glob or tool name; `*` matches any text */
+  pattern: string
+  /** Deny wins over allow; allowed calls skip the approval prompt */
+  action: 'deny' | 'allow'
+  enabled: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export interface GuardrailInput {
+  kind: GuardrailKind
+  pattern: string
+  action?: 'deny' | 'allow'
+  enabled?: boolean
+}
+
+// ── Verification ──────────────────────────────────────────
+
+/** Project check (lint, typecheck, tests …) run after each completed agent turn */
+export interface VerifyCommand {
+  id: string
+  projectId: string
+  name: string
+  /** Shell command, run in the issue's worktree or the project directory */
+  command: string
+  enabled: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export interface VerifyCommandInput {
+  name: string
+  command: string
+  enabled?: boolean
+}
+
+// ── Search ────────────────────────────────────────────────
+
+export interface SnippetSegment {
+  text: string
+  /** Part of the text that matched the query */
+  highlight: boolean
+}
+
+/** A full-text match on an issue's title/prompt or one of its log entries */
+export interface SearchResult {
+  kind: 'issue' | 'log'
+  projectId: string
+  projectAlias: string
+  issueId: string
+  issueNumber: number
+  issueTitle: string
+  /** Matching log entry; null for issue matches */
+  messageId: string | null
+  entryType: LogEntryType | null
+  turnIndex: number | null
+  snippet: SnippetSegment[]
+  createdAt: string
+}
+
+export type UserRole = 'admin' | 'member'
+
+export interface AuthUser {
+  id: string
+  username: string
+  role: UserRole
+  createdAt?: string
+}
+
+export interface AuthStatus {
+  /** Login is required (API_SECRET set or at least one account exists). */
+  authEnabled: boolean
+  /** No accounts exist yet; the first one becomes admin. */
+  needsSetup: boolean
+  user: AuthUser | null
+}
+
+export interface AuthSession {
+  user: AuthUser
+  token: string
+  expiresAt: string
+}
+
 export interface EngineAvailability {
   engineType: EngineType
   installed: boolean
@@ -171,6 +619,8 @@ export interface EngineDiscoveryResult {
 }
 
 export interface EngineProfile {
+  /** Engine type for built-in profiles, a short id for user-defined ones */
+  id: string
   engineType: EngineType
   name: string
   baseCommand: string
@@ -178,6 +628,21 @@ export interface EngineProfile {
   capabilities: string[]
   defaultModel?: string
   permissionPolicy: string
+  args?: string[]
+  env?: Record<string, string>
+  builtIn: boolean
+}
+
+/** Fields of a user-defined profile; omitted ones inherit from the engine */
+export interface EngineProfileInput {
+  name: string
+  engineType: EngineType
+  baseCommand?: string
+  args?: string[]
+  env?: Record<string, string>
+  defaultModel?: string | null
+  permissionPolicy?: 'auto' | 'supervised' | 'plan' | null
+  capabilities?: string[] | null
 }
 
 export interface EngineSettings {
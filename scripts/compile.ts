@@ -2,7 +2,8 @@
 /**
  * Compile script: builds the frontend, generates an embedded-asset map,
  * embeds drizzle migrations, then compiles the backend into a single
- * standalone binary.
+ * standalone binary. The same binary doubles as the `bitk` command-line
+ * client (`bitk issue …`, `bitk logs …`).
  *
  * Usage:  bun scripts/compile.ts [--target <bun-target>] [--outfile <name>]
  *
@@ -141,7 +142,7 @@ console.log(`[compile] Version: ${version} (${commit})`)
 const compileArgs = [
   'bun',
   'build',
-  'apps/api/src/index.ts',
+  'apps/api/src/main.ts',
   '--compile',
   '--define',
   `__BITK_VERSION__="${version}"`,